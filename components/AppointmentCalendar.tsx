@@ -0,0 +1,359 @@
+"use client"
+
+import type React from "react"
+import { useState, useMemo } from "react"
+import type { Appointment, ProviderWorkingHours, TeamMember } from "../types"
+import { ChevronLeft, ChevronRight } from "lucide-react"
+import {
+  addDays,
+  DEFAULT_APPOINTMENT_DURATION,
+  findAppointmentConflict,
+  getAppointmentEnd,
+  minutesToTime,
+  timeToMinutes,
+} from "../lib/scheduling"
+
+export type CalendarView = "day" | "week"
+
+export interface RescheduleTarget {
+  date: string
+  time: string
+  providerId?: string
+}
+
+interface AppointmentCalendarProps {
+  view: CalendarView
+  anchorDate: string
+  onAnchorChange: (date: string) => void
+  appointments: Appointment[]
+  providers: TeamMember[]
+  providerSchedules: ProviderWorkingHours[]
+  canReschedule: boolean
+  onSelect: (appt: Appointment) => void
+  onReschedule: (appt: Appointment, target: RescheduleTarget) => void
+}
+
+interface CalendarColumn {
+  key: string
+  label: string
+  sublabel?: string
+  date: string
+  providerId?: string
+}
+
+const SLOT_MINUTES = 15
+const SLOT_HEIGHT = 12 // px per 15 minutes
+const UNASSIGNED = "unassigned"
+
+const PROVIDER_COLORS = [
+  "bg-teal-100 border-teal-400 text-teal-900 dark:bg-teal-900/40 dark:text-teal-100",
+  "bg-indigo-100 border-indigo-400 text-indigo-900 dark:bg-indigo-900/40 dark:text-indigo-100",
+  "bg-amber-100 border-amber-400 text-amber-900 dark:bg-amber-900/40 dark:text-amber-100",
+  "bg-rose-100 border-rose-400 text-rose-900 dark:bg-rose-900/40 dark:text-rose-100",
+  "bg-sky-100 border-sky-400 text-sky-900 dark:bg-sky-900/40 dark:text-sky-100",
+  "bg-lime-100 border-lime-400 text-lime-900 dark:bg-lime-900/40 dark:text-lime-100",
+]
+
+const getWeekStart = (date: string) => {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay()
+  return addDays(date, -((weekday + 6) % 7)) // Monday
+}
+
+const formatDay = (date: string, options: Intl.DateTimeFormatOptions) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString("default", { ...options, timeZone: "UTC" })
+
+const getDuration = (appt: Appointment) => appt.durationMinutes || DEFAULT_APPOINTMENT_DURATION
+
+// Side-by-side lanes for overlapping appointments in one column
+const assignLanes = (appts: Appointment[]) => {
+  const laneEnds: number[] = []
+  const lanes = new Map<string, number>()
+  ;[...appts]
+    .sort((a, b) => a.time.localeCompare(b.time))
+    .forEach((appt) => {
+      const start = timeToMinutes(appt.time)
+      let lane = laneEnds.findIndex((end) => end <= start)
+      if (lane === -1) lane = laneEnds.length
+      laneEnds[lane] = start + getDuration(appt)
+      lanes.set(appt.id, lane)
+    })
+  return { lanes, count: Math.max(laneEnds.length, 1) }
+}
+
+const AppointmentCalendar: React.FC<AppointmentCalendarProps> = ({
+  view,
+  anchorDate,
+  onAnchorChange,
+  appointments,
+  providers,
+  providerSchedules,
+  canReschedule,
+  onSelect,
+  onReschedule,
+}) => {
+  const [weekProviderId, setWeekProviderId] = useState("")
+  const [dragging, setDragging] = useState<Appointment | null>(null)
+  const [dropTarget, setDropTarget] = useState<{ column: string; minutes: number } | null>(null)
+
+  const visible = useMemo(() => appointments.filter((a) => a.status !== "Cancelled"), [appointments])
+
+  const columns: CalendarColumn[] = useMemo(() => {
+    if (view === "day") {
+      const cols: CalendarColumn[] = providers.map((p) => ({
+        key: p.id,
+        label: p.name,
+        sublabel: p.role,
+        date: anchorDate,
+        providerId: p.id,
+      }))
+      if (visible.some((a) => a.date === anchorDate && !a.providerId)) {
+        cols.push({ key: UNASSIGNED, label: "Unassigned", date: anchorDate })
+      }
+      return cols
+    }
+    const weekStart = getWeekStart(anchorDate)
+    return Array.from({ length: 7 }, (_, i) => {
+      const date = addDays(weekStart, i)
+      return {
+        key: date,
+        label: formatDay(date, { weekday: "short" }),
+        sublabel: formatDay(date, { day: "numeric", month: "short" }),
+        date,
+        providerId: weekProviderId || undefined,
+      }
+    })
+  }, [view, anchorDate, providers, visible, weekProviderId])
+
+  const columnAppointments = (col: CalendarColumn) =>
+    visible.filter((a) => {
+      if (a.date !== col.date) return false
+      if (view === "day") return col.key === UNASSIGNED ? !a.providerId : a.providerId === col.providerId
+      return !weekProviderId || a.providerId === weekProviderId
+    })
+
+  // Visible hours cover every provider's working hours and every shown appointment
+  const [rangeStart, rangeEnd] = useMemo(() => {
+    let start = providerSchedules.length ? Math.min(...providerSchedules.map((h) => timeToMinutes(h.startTime))) : 8 * 60
+    let end = providerSchedules.length ? Math.max(...providerSchedules.map((h) => timeToMinutes(h.endTime))) : 18 * 60
+    const dates = new Set(columns.map((c) => c.date))
+    visible
+      .filter((a) => dates.has(a.date))
+      .forEach((a) => {
+        start = Math.min(start, timeToMinutes(a.time))
+        end = Math.max(end, timeToMinutes(a.time) + getDuration(a))
+      })
+    return [Math.floor(start / 60) * 60, Math.ceil(end / 60) * 60]
+  }, [providerSchedules, visible, columns])
+
+  const slotCount = (rangeEnd - rangeStart) / SLOT_MINUTES
+
+  // Providers without published hours are bookable at any time
+  const isWorking = (providerId: string | undefined, date: string, minutes: number) => {
+    if (!providerId) return true
+    const hours = providerSchedules.filter((h) => h.providerId === providerId)
+    if (hours.length === 0) return true
+    const weekday = new Date(`${date}T00:00:00Z`).getUTCDay()
+    return hours.some(
+      (h) => h.weekday === weekday && minutes >= timeToMinutes(h.startTime) && minutes < timeToMinutes(h.endTime),
+    )
+  }
+
+  const colorFor = (providerId?: string) => {
+    const index = providers.findIndex((p) => p.id === providerId)
+    return index === -1
+      ? "bg-slate-100 border-slate-400 text-slate-800 dark:bg-slate-700 dark:text-slate-100"
+      : PROVIDER_COLORS[index % PROVIDER_COLORS.length]
+  }
+
+  const getTarget = (col: CalendarColumn, minutes: number): RescheduleTarget => ({
+    date: col.date,
+    time: minutesToTime(minutes),
+    providerId: view === "day" ? col.providerId : dragging?.providerId,
+  })
+
+  const isValidDrop = (col: CalendarColumn, minutes: number) => {
+    if (!dragging) return false
+    const target = getTarget(col, minutes)
+    const candidate = { ...dragging, ...target }
+    return (
+      !findAppointmentConflict(candidate, appointments) &&
+      isWorking(target.providerId, target.date, minutes) &&
+      isWorking(target.providerId, target.date, minutes + getDuration(dragging) - 1)
+    )
+  }
+
+  const step = view === "day" ? 1 : 7
+  const title =
+    view === "day"
+      ? formatDay(anchorDate, { weekday: "long", day: "numeric", month: "long", year: "numeric" })
+      : `Week of ${formatDay(getWeekStart(anchorDate), { day: "numeric", month: "long", year: "numeric" })}`
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-3xl shadow-sm border border-slate-100 dark:border-slate-700 overflow-hidden">
+      {/* Toolbar */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 border-b border-slate-100 dark:border-slate-700">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => onAnchorChange(addDays(anchorDate, -step))}
+            className="p-2 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-500"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => onAnchorChange(new Date().toISOString().split("T")[0])}
+            className="px-3 py-1.5 text-sm font-medium rounded-lg border border-slate-200 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700"
+          >
+            Today
+          </button>
+          <button
+            onClick={() => onAnchorChange(addDays(anchorDate, step))}
+            className="p-2 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-500"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+          <h3 className="font-bold text-slate-900 dark:text-white ml-2">{title}</h3>
+        </div>
+        {view === "week" && (
+          <select
+            value={weekProviderId}
+            onChange={(e) => setWeekProviderId(e.target.value)}
+            className="p-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg text-sm outline-none dark:text-white"
+          >
+            <option value="">All providers</option>
+            {providers.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {columns.length === 0 ? (
+        <div className="p-12 text-center text-sm text-slate-400">
+          No providers yet. Add active doctors or nurses under Settings → Team Members.
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <div className="min-w-[640px]">
+            {/* Column headers */}
+            <div className="flex border-b border-slate-100 dark:border-slate-700 sticky top-0 bg-white dark:bg-slate-800 z-10">
+              <div className="w-14 shrink-0" />
+              {columns.map((col) => (
+                <div
+                  key={col.key}
+                  className={`flex-1 min-w-[120px] px-2 py-2 text-center border-l border-slate-100 dark:border-slate-700 ${col.date === new Date().toISOString().split("T")[0] && view === "week" ? "bg-teal-50 dark:bg-teal-900/20" : ""}`}
+                >
+                  <div className="text-sm font-bold text-slate-900 dark:text-white truncate">{col.label}</div>
+                  {col.sublabel && <div className="text-[10px] text-slate-400 uppercase">{col.sublabel}</div>}
+                </div>
+              ))}
+            </div>
+
+            {/* Grid */}
+            <div className="flex max-h-[70vh] overflow-y-auto">
+              <div className="w-14 shrink-0 relative" style={{ height: slotCount * SLOT_HEIGHT }}>
+                {Array.from({ length: (rangeEnd - rangeStart) / 60 }, (_, i) => (
+                  <div
+                    key={i}
+                    className="absolute right-2 text-[10px] text-slate-400 -translate-y-1/2"
+                    style={{ top: i * 4 * SLOT_HEIGHT }}
+                  >
+                    {minutesToTime(rangeStart + i * 60)}
+                  </div>
+                ))}
+              </div>
+
+              {columns.map((col) => {
+                const colAppts = columnAppointments(col)
+                const { lanes, count } = assignLanes(colAppts)
+
+                return (
+                  <div
+                    key={col.key}
+                    className="flex-1 min-w-[120px] relative border-l border-slate-100 dark:border-slate-700"
+                    style={{ height: slotCount * SLOT_HEIGHT }}
+                  >
+                    {/* Drop cells */}
+                    {Array.from({ length: slotCount }, (_, i) => {
+                      const minutes = rangeStart + i * SLOT_MINUTES
+                      const working = isWorking(view === "day" ? col.providerId : weekProviderId || undefined, col.date, minutes)
+                      return (
+                        <div
+                          key={i}
+                          className={`absolute left-0 right-0 ${i % 4 === 0 ? "border-t border-slate-100 dark:border-slate-700" : ""} ${working ? "" : "bg-slate-50 dark:bg-slate-900/40"}`}
+                          style={{ top: i * SLOT_HEIGHT, height: SLOT_HEIGHT }}
+                          onDragOver={(e) => {
+                            if (!dragging) return
+                            e.preventDefault()
+                            if (dropTarget?.column !== col.key || dropTarget.minutes !== minutes) {
+                              setDropTarget({ column: col.key, minutes })
+                            }
+                          }}
+                          onDrop={(e) => {
+                            e.preventDefault()
+                            if (dragging) onReschedule(dragging, getTarget(col, minutes))
+                            setDragging(null)
+                            setDropTarget(null)
+                          }}
+                        />
+                      )
+                    })}
+
+                    {/* Drop preview */}
+                    {dragging && dropTarget?.column === col.key && (
+                      <div
+                        className={`absolute left-1 right-1 rounded-lg border-2 border-dashed pointer-events-none ${isValidDrop(col, dropTarget.minutes) ? "border-teal-500 bg-teal-500/10" : "border-red-500 bg-red-500/10"}`}
+                        style={{
+                          top: ((dropTarget.minutes - rangeStart) / SLOT_MINUTES) * SLOT_HEIGHT,
+                          height: (getDuration(dragging) / SLOT_MINUTES) * SLOT_HEIGHT,
+                        }}
+                      />
+                    )}
+
+                    {/* Appointments */}
+                    {colAppts.map((appt) => {
+                      const lane = lanes.get(appt.id) || 0
+                      const movable = canReschedule && appt.status === "Scheduled"
+                      return (
+                        <div
+                          key={appt.id}
+                          draggable={movable}
+                          onDragStart={(e) => {
+                            e.dataTransfer.effectAllowed = "move"
+                            e.dataTransfer.setData("text/plain", appt.id)
+                            setDragging(appt)
+                          }}
+                          onDragEnd={() => {
+                            setDragging(null)
+                            setDropTarget(null)
+                          }}
+                          onClick={() => onSelect(appt)}
+                          title={`${appt.patientName} · ${appt.time}-${getAppointmentEnd(appt)} · ${appt.reason}${appt.patientResponse ? ` · ${appt.patientResponse}` : ""}`}
+                          className={`absolute rounded-lg border-l-4 px-1.5 py-0.5 text-[11px] leading-tight overflow-hidden shadow-sm ${colorFor(appt.providerId)} ${movable ? "cursor-grab active:cursor-grabbing" : "cursor-pointer"} ${appt.status !== "Scheduled" ? "opacity-50" : ""} ${dragging?.id === appt.id ? "opacity-40" : dragging ? "pointer-events-none" : ""}`}
+                          style={{
+                            top: ((timeToMinutes(appt.time) - rangeStart) / SLOT_MINUTES) * SLOT_HEIGHT,
+                            height: Math.max((getDuration(appt) / SLOT_MINUTES) * SLOT_HEIGHT - 2, SLOT_HEIGHT),
+                            left: `calc(${(lane / count) * 100}% + 2px)`,
+                            width: `calc(${100 / count}% - 4px)`,
+                          }}
+                        >
+                          <div className="font-bold truncate">{appt.patientName}</div>
+                          <div className="truncate opacity-80">
+                            {appt.time} {view === "week" && !weekProviderId && appt.providerName ? `· ${appt.providerName}` : `· ${appt.reason}`}
+                          </div>
+                        </div>
+                      )
+                    })}
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default AppointmentCalendar
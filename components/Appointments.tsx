@@ -1,8 +1,8 @@
 "use client"
 
 import type React from "react"
-import { useState, useMemo } from "react"
-import type { Appointment, Patient } from "../types"
+import { useState, useMemo, useEffect } from "react"
+import type { Appointment, AvailableSlot, Patient, RecurrenceRule, SeriesScope } from "../types"
 import {
   Calendar,
   Clock,
@@ -17,17 +17,37 @@ import {
   Download,
   Printer,
   Edit2,
+  User,
+  Repeat,
+  List,
+  CalendarDays,
+  MessageSquare,
+  Globe,
+  CalendarCheck,
 } from "lucide-react"
 import useStore from '../store'
 import { hasPermission } from '../lib/permissions'
 import { canCurrentUser } from '../lib/roleMapper'
 import type { UserRole } from '../types/enterprise'
+import { db } from '../services/db'
+import { daysBetween, findAppointmentConflict, getAppointmentEnd, getProviders, getSeriesDates, getTypeDuration, groupSlotsByProvider } from '../lib/scheduling'
+import RecurrenceFields from './RecurrenceFields'
+import AppointmentCalendar from './AppointmentCalendar'
+import WaitlistPanel from './WaitlistPanel'
+import type { CalendarView, RescheduleTarget } from './AppointmentCalendar'
+import { isRescheduled } from '../services/appointmentNotificationService'
+
+const RESPONSE_BADGE: Record<NonNullable<Appointment["patientResponse"]>, string> = {
+  Confirmed: "bg-green-50 text-green-700 dark:bg-green-900/30 dark:text-green-300",
+  Cancelled: "bg-red-50 text-red-600 dark:bg-red-900/30 dark:text-red-300",
+  "Reschedule Requested": "bg-amber-50 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300",
+}
 
 interface AppointmentsProps {
   appointments: Appointment[]
   patients: Patient[]
-  addAppointment: (appt: Appointment) => void
-  updateAppointment: (appt: Appointment) => void
+  addAppointment: (appt: Appointment) => void | Promise<boolean>
+  updateAppointment: (appt: Appointment) => void | Promise<boolean>
   showToast: (msg: string, type?: "success" | "error" | "info") => void
 }
 
@@ -38,7 +58,7 @@ const Appointments: React.FC<AppointmentsProps> = ({
   updateAppointment,
   showToast,
 }) => {
-  const [activeTab, setActiveTab] = useState<"upcoming" | "completed" | "cancelled">("upcoming")
+  const [activeTab, setActiveTab] = useState<"upcoming" | "completed" | "missed" | "cancelled" | "waitlist">("upcoming")
   const [isModalOpen, setIsModalOpen] = useState(false)
   const [searchTerm, setSearchTerm] = useState("")
   const [isFilterOpen, setIsFilterOpen] = useState(false)
@@ -48,19 +68,30 @@ const Appointments: React.FC<AppointmentsProps> = ({
   const [actionMenuId, setActionMenuId] = useState<string | null>(null)
 
   // New Appointment State
-  const [newApptData, setNewApptData] = useState({
+  const emptyApptData = () => ({
     patientId: "",
     date: new Date().toISOString().split("T")[0],
     time: "09:00",
     reason: "",
+    providerId: "",
+    appointmentType: "",
   })
+  const [newApptData, setNewApptData] = useState(emptyApptData)
+  const [availableSlots, setAvailableSlots] = useState<AvailableSlot[]>([])
+  const [isLoadingSlots, setIsLoadingSlots] = useState(false)
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null)
+  const [editScope, setEditScope] = useState<SeriesScope>("occurrence")
+  const [seriesCancelTarget, setSeriesCancelTarget] = useState<Appointment | null>(null)
+  const [viewMode, setViewMode] = useState<"list" | CalendarView>("list")
+  const [calendarDate, setCalendarDate] = useState(new Date().toISOString().split("T")[0])
 
   // Filter appointments by tab, search, and date
   const filteredAppointments = useMemo(() => {
     let filtered = appointments.filter((appt) => {
       if (activeTab === "upcoming") return appt.status === "Scheduled"
       if (activeTab === "completed") return appt.status === "Completed"
-      return appt.status === "Cancelled"
+      if (activeTab === "missed") return appt.status === "No-Show"
+      return activeTab === "cancelled" && appt.status === "Cancelled"
     })
 
     // Search filter
@@ -107,25 +138,80 @@ const Appointments: React.FC<AppointmentsProps> = ({
     return filtered
   }, [appointments, activeTab, searchTerm, dateFilter])
 
-  const { currentUser } = useStore()
+  const { currentUser, appointmentTypes, providerSchedules, settings, waitlist, actions } = useStore()
   const canExport = canCurrentUser('reports.export')
   const canCreate = canCurrentUser('appointments.create')
+  const providers = useMemo(() => getProviders(settings.team || []), [settings.team])
+  // Once any provider publishes working hours, bookings are made from free slots only
+  const usesSlots = providerSchedules.length > 0
+
+  useEffect(() => {
+    if (!isModalOpen || !usesSlots || !newApptData.date) return
+    let cancelled = false
+    setIsLoadingSlots(true)
+    db.getAvailableSlots(newApptData.date, newApptData.appointmentType || undefined, newApptData.providerId || undefined)
+      .then((slots) => { if (!cancelled) setAvailableSlots(slots) })
+      .catch((e) => {
+        console.error('getAvailableSlots error', e)
+        if (!cancelled) setAvailableSlots([])
+      })
+      .finally(() => { if (!cancelled) setIsLoadingSlots(false) })
+    return () => { cancelled = true }
+  }, [isModalOpen, usesSlots, newApptData.date, newApptData.appointmentType, newApptData.providerId, appointments])
 
-  const handleStatusChange = (appt: Appointment, newStatus: "Scheduled" | "Completed" | "Cancelled") => {
+  const slotGroups = useMemo(() => groupSlotsByProvider(availableSlots), [availableSlots])
+  const isSlotSelected = (slot: AvailableSlot) =>
+    newApptData.time === slot.start && newApptData.providerId === slot.providerId
+
+  const handleStatusChange = async (appt: Appointment, newStatus: Appointment["status"]) => {
     if (newStatus === "Completed" && !canCurrentUser('visits.complete')) {
       try { useStore.getState().actions.showToast('You are not authorized to complete visits.', 'error') } catch (e) { alert('You are not authorized to complete visits.') }
       return
     }
 
-    updateAppointment({ ...appt, status: newStatus })
+    setActionMenuId(null)
+    // Re-scheduling can collide with a booking made since the cancellation
+    if ((await updateAppointment({ ...appt, status: newStatus })) === false) return
     showToast(
       `Appointment ${newStatus.toLowerCase()}`,
-      newStatus === "Completed" ? "success" : newStatus === "Cancelled" ? "info" : "success",
+      newStatus === "Completed" ? "success" : newStatus === "Cancelled" || newStatus === "No-Show" ? "info" : "success",
     )
+  }
+
+  // Starts the visit in the reception queue, linked to this appointment
+  const handleCheckIn = async (appt: Appointment) => {
     setActionMenuId(null)
+    await actions.addVisit(appt.patientId, "Normal", undefined, false, appt.id)
+  }
+
+  const buildAppointment = (base: Appointment | null, patient: Patient): Appointment => {
+    const provider = providers.find((p) => p.id === newApptData.providerId)
+    return {
+      ...(base || { id: `A${Date.now()}`, status: "Scheduled" as const }),
+      patientId: patient.id,
+      patientName: patient.name,
+      date: newApptData.date,
+      time: newApptData.time,
+      reason: newApptData.reason || newApptData.appointmentType || "General Checkup",
+      providerId: newApptData.providerId || undefined,
+      providerName: provider?.name,
+      appointmentType: newApptData.appointmentType || undefined,
+      durationMinutes: getTypeDuration(appointmentTypes, newApptData.appointmentType),
+    }
   }
 
-  const handleCreateAppointment = (e: React.FormEvent) => {
+  const checkConflict = (appt: Appointment) => {
+    // An overbookable slot may share its provider; the patient still cannot be double-booked
+    const overbook = availableSlots.some((s) => s.overbooked && s.providerId === appt.providerId && s.start === appt.time && appt.date === newApptData.date)
+    const conflict = findAppointmentConflict(overbook ? { ...appt, providerId: undefined } : appt, appointments)
+    if (conflict) {
+      showToast(`Conflict: ${conflict.patientName} is booked ${conflict.time}-${getAppointmentEnd(conflict)} on ${conflict.date}`, "error")
+      return true
+    }
+    return false
+  }
+
+  const handleCreateAppointment = async (e: React.FormEvent) => {
     e.preventDefault()
     const patient = patients.find((p) => p.id === newApptData.patientId)
     if (!patient || !newApptData.date || !newApptData.time) {
@@ -133,53 +219,68 @@ const Appointments: React.FC<AppointmentsProps> = ({
       return
     }
 
-    // Check for conflicts
-    const conflict = appointments.find(
-      (a) => a.date === newApptData.date && a.time === newApptData.time && a.status === "Scheduled",
-    )
-
-    if (conflict) {
-      showToast(`Conflict: Appointment exists at ${newApptData.time} on ${newApptData.date}`, "error")
-      return
+    const newAppointment = buildAppointment(null, patient)
+
+    if (recurrence) {
+      const dates = getSeriesDates(newAppointment.date, recurrence)
+      if (dates.length < 2) {
+        showToast("A series needs at least two visits", "error")
+        return
+      }
+      if (dates.some((date) => checkConflict({ ...newAppointment, date }))) return
+      if (!(await actions.addAppointmentSeries(newAppointment, recurrence))) return
+    } else {
+      if (checkConflict(newAppointment)) return
+      // The database re-checks the slot, so keep the form open if it was taken meanwhile
+      if ((await addAppointment(newAppointment)) === false) return
     }
-
-    const newAppointment: Appointment = {
-      id: `A${Date.now()}`,
-      patientId: patient.id,
-      patientName: patient.name,
-      date: newApptData.date,
-      time: newApptData.time,
-      reason: newApptData.reason || "General Checkup",
-      status: "Scheduled",
-    }
-
-    addAppointment(newAppointment)
-    showToast(`Appointment scheduled for ${patient.name}`, "success")
     setIsModalOpen(false)
-    setNewApptData({ patientId: "", date: new Date().toISOString().split("T")[0], time: "09:00", reason: "" })
+    setNewApptData(emptyApptData())
+    setRecurrence(null)
   }
 
-  const handleEditAppointment = (e: React.FormEvent) => {
+  const handleEditAppointment = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!selectedAppt) return
 
     const patient = patients.find((p) => p.id === newApptData.patientId)
     if (!patient) return
 
-    updateAppointment({
-      ...selectedAppt,
-      patientId: newApptData.patientId,
-      patientName: patient.name,
-      date: newApptData.date,
-      time: newApptData.time,
-      reason: newApptData.reason,
-    })
-
-    showToast("Appointment updated", "success")
+    const updatedAppointment = buildAppointment(selectedAppt, patient)
+    if (checkConflict(updatedAppointment)) return
+
+    if (selectedAppt.seriesId && editScope === "following") {
+      // Moving the date shifts every later visit by the same number of days
+      const dayShift = daysBetween(selectedAppt.date, updatedAppointment.date)
+      if (!(await actions.updateAppointmentSeries(updatedAppointment, dayShift))) return
+    } else if (isRescheduled(selectedAppt, updatedAppointment)) {
+      // Saves and tells the patient about the new date, time or provider
+      if (!(await actions.rescheduleAppointment(updatedAppointment, selectedAppt))) return
+    } else {
+      if ((await updateAppointment(updatedAppointment)) === false) return
+      showToast("Appointment updated", "success")
+    }
     setIsModalOpen(false)
     setIsEditMode(false)
     setSelectedAppt(null)
-    setNewApptData({ patientId: "", date: new Date().toISOString().split("T")[0], time: "09:00", reason: "" })
+    setNewApptData(emptyApptData())
+  }
+
+  const handleCalendarReschedule = async (appt: Appointment, target: RescheduleTarget) => {
+    if (!canCurrentUser('appointments.edit')) {
+      useStore.getState().actions.showToast('You do not have permission to reschedule appointments.', 'error')
+      return
+    }
+    const provider = providers.find((p) => p.id === target.providerId)
+    const moved: Appointment = {
+      ...appt,
+      date: target.date,
+      time: target.time,
+      providerId: target.providerId,
+      providerName: provider?.name,
+    }
+    if (!isRescheduled(appt, moved) || checkConflict(moved)) return
+    await actions.rescheduleAppointment(moved, appt)
   }
 
   const openEditModal = (appt: Appointment) => {
@@ -189,16 +290,19 @@ const Appointments: React.FC<AppointmentsProps> = ({
       date: appt.date,
       time: appt.time,
       reason: appt.reason,
+      providerId: appt.providerId || "",
+      appointmentType: appt.appointmentType || "",
     })
+    setEditScope("occurrence")
     setIsEditMode(true)
     setIsModalOpen(true)
     setActionMenuId(null)
   }
 
   const handleExportCSV = () => {
-    const headers = ["ID", "Patient", "Date", "Time", "Reason", "Status"]
+    const headers = ["ID", "Patient", "Date", "Time", "Duration", "Provider", "Reason", "Status"]
     const rows = filteredAppointments.map((appt) =>
-      [appt.id, appt.patientName, appt.date, appt.time, appt.reason, appt.status].join(","),
+      [appt.id, appt.patientName, appt.date, appt.time, appt.durationMinutes || "", appt.providerName || "", appt.reason, appt.status].join(","),
     )
     const csvContent = "data:text/csv;charset=utf-8," + headers.join(",") + "\n" + rows.join("\n")
     const encodedUri = encodeURI(csvContent)
@@ -213,9 +317,11 @@ const Appointments: React.FC<AppointmentsProps> = ({
     () => ({
       upcoming: appointments.filter((a) => a.status === "Scheduled").length,
       completed: appointments.filter((a) => a.status === "Completed").length,
+      missed: appointments.filter((a) => a.status === "No-Show").length,
       cancelled: appointments.filter((a) => a.status === "Cancelled").length,
+      waitlist: waitlist.length,
     }),
-    [appointments],
+    [appointments, waitlist],
   )
 
   return (
@@ -253,6 +359,24 @@ const Appointments: React.FC<AppointmentsProps> = ({
             )}
           </div>
 
+          {/* View Toggle */}
+          <div className="flex bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl p-1">
+            {([
+              { value: "list", label: "List", icon: List },
+              { value: "day", label: "Day", icon: CalendarDays },
+              { value: "week", label: "Week", icon: Calendar },
+            ] as const).map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setViewMode(option.value)}
+                className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${viewMode === option.value ? "bg-teal-600 text-white" : "text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200"}`}
+              >
+                <option.icon className="w-4 h-4" />
+                <span className="hidden sm:inline">{option.label}</span>
+              </button>
+            ))}
+          </div>
+
           {/* Filter Dropdown */}
           <div className="relative">
             <button
@@ -322,7 +446,8 @@ const Appointments: React.FC<AppointmentsProps> = ({
               }
               setIsEditMode(false);
               setSelectedAppt(null);
-              setNewApptData({ patientId: "", date: new Date().toISOString().split("T")[0], time: "09:00", reason: "" });
+              setNewApptData(emptyApptData());
+              setRecurrence(null);
               setIsModalOpen(true)
             }}
             aria-disabled={!canCreate}
@@ -335,157 +460,226 @@ const Appointments: React.FC<AppointmentsProps> = ({
         </div>
       </div>
 
-      {/* Tabs */}
-      <div className="flex items-center gap-6 border-b border-slate-200 dark:border-slate-700 mb-6">
-        {(["upcoming", "completed", "cancelled"] as const).map((tab) => (
-          <button
-            key={tab}
-            onClick={() => setActiveTab(tab)}
-            className={`pb-3 text-sm font-semibold capitalize transition-all relative flex items-center gap-2 ${activeTab === tab
-              ? "text-teal-600 dark:text-teal-400"
-              : "text-slate-400 hover:text-slate-600 dark:hover:text-slate-300"
-              }`}
-          >
-            {tab}
-            <span
-              className={`text-[10px] px-1.5 py-0.5 rounded-full ${activeTab === tab ? "bg-teal-100 text-teal-700 dark:bg-teal-900/30 dark:text-teal-300" : "bg-slate-100 text-slate-500 dark:bg-slate-700 dark:text-slate-400"}`}
-            >
-              {tabCounts[tab]}
-            </span>
-            {activeTab === tab && (
-              <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-teal-600 dark:bg-teal-400 rounded-t-full"></div>
-            )}
-          </button>
-        ))}
-      </div>
-
-      <div className="bg-white dark:bg-slate-800 rounded-3xl shadow-sm border border-slate-100 dark:border-slate-700 overflow-hidden transition-colors">
-        {filteredAppointments.length > 0 ? (
-          <div className="divide-y divide-slate-50 dark:divide-slate-700">
-            {filteredAppointments.map((appt) => {
-              const patient = patients.find((p) => p.id === appt.patientId)
-
-              return (
-                <div
-                  key={appt.id}
-                  className="p-6 hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors flex flex-col md:flex-row items-start md:items-center justify-between gap-4"
+      {viewMode === "list" ? (
+        <>
+          {/* Tabs */}
+          <div className="flex items-center gap-6 border-b border-slate-200 dark:border-slate-700 mb-6">
+            {(["upcoming", "completed", "missed", "cancelled", "waitlist"] as const).map((tab) => (
+              <button
+                key={tab}
+                onClick={() => setActiveTab(tab)}
+                className={`pb-3 text-sm font-semibold capitalize transition-all relative flex items-center gap-2 ${activeTab === tab
+                  ? "text-teal-600 dark:text-teal-400"
+                  : "text-slate-400 hover:text-slate-600 dark:hover:text-slate-300"
+                  }`}
+              >
+                {tab}
+                <span
+                  className={`text-[10px] px-1.5 py-0.5 rounded-full ${activeTab === tab ? "bg-teal-100 text-teal-700 dark:bg-teal-900/30 dark:text-teal-300" : "bg-slate-100 text-slate-500 dark:bg-slate-700 dark:text-slate-400"}`}
                 >
-                  <div className="flex items-center gap-4">
-                    <div className="flex flex-col items-center justify-center w-14 h-14 bg-teal-50 dark:bg-teal-900/30 text-teal-700 dark:text-teal-300 rounded-2xl border border-teal-100 dark:border-teal-800">
-                      <span className="text-xs font-bold uppercase">
-                        {new Date(appt.date).toLocaleString("default", { month: "short" })}
-                      </span>
-                      <span className="text-xl font-bold">{new Date(appt.date).getDate()}</span>
-                    </div>
-                    <div>
-                      <h3 className="text-lg font-bold text-slate-900 dark:text-white">{appt.patientName}</h3>
-                      <div className="flex items-center gap-3 text-sm text-slate-500 dark:text-slate-400 mt-1">
-                        <div className="flex items-center gap-1">
-                          <Clock className="w-3.5 h-3.5" />
-                          {appt.time}
-                        </div>
-                        <span className="w-1 h-1 rounded-full bg-slate-300 dark:bg-slate-600"></span>
-                        <span>{appt.reason}</span>
-                      </div>
-                      {patient && (
-                        <div className="flex items-center gap-3 mt-2 text-xs text-slate-400">
-                          <span className="flex items-center gap-1">
-                            <Phone className="w-3 h-3" /> {patient.phone}
-                          </span>
+                  {tabCounts[tab]}
+                </span>
+                {activeTab === tab && (
+                  <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-teal-600 dark:bg-teal-400 rounded-t-full"></div>
+                )}
+              </button>
+            ))}
+          </div>
+
+          {activeTab === "waitlist" ? (
+            <WaitlistPanel patients={patients} providers={providers} appointmentTypes={appointmentTypes} />
+          ) : (
+            <div className="bg-white dark:bg-slate-800 rounded-3xl shadow-sm border border-slate-100 dark:border-slate-700 overflow-hidden transition-colors">
+              {filteredAppointments.length > 0 ? (
+                <div className="divide-y divide-slate-50 dark:divide-slate-700">
+                  {filteredAppointments.map((appt) => {
+                    const patient = patients.find((p) => p.id === appt.patientId)
+
+                    return (
+                      <div
+                        key={appt.id}
+                        className="p-6 hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors flex flex-col md:flex-row items-start md:items-center justify-between gap-4"
+                      >
+                        <div className="flex items-center gap-4">
+                          <div className="flex flex-col items-center justify-center w-14 h-14 bg-teal-50 dark:bg-teal-900/30 text-teal-700 dark:text-teal-300 rounded-2xl border border-teal-100 dark:border-teal-800">
+                            <span className="text-xs font-bold uppercase">
+                              {new Date(appt.date).toLocaleString("default", { month: "short" })}
+                            </span>
+                            <span className="text-xl font-bold">{new Date(appt.date).getDate()}</span>
+                          </div>
+                          <div>
+                            <h3 className="text-lg font-bold text-slate-900 dark:text-white flex items-center gap-2">
+                              {appt.patientName}
+                              {appt.seriesId && (
+                                <span className="flex items-center gap-1 text-[10px] font-bold px-2 py-0.5 rounded-full bg-indigo-50 text-indigo-600 dark:bg-indigo-900/30 dark:text-indigo-300" title="Part of a recurring series">
+                                  <Repeat className="w-3 h-3" /> Visit {appt.seriesIndex}
+                                </span>
+                              )}
+                              {appt.patientResponse && (
+                                <span
+                                  className={`flex items-center gap-1 text-[10px] font-bold px-2 py-0.5 rounded-full ${RESPONSE_BADGE[appt.patientResponse]}`}
+                                  title={appt.patientResponseAt ? `Patient replied ${new Date(appt.patientResponseAt).toLocaleString()}` : "Patient reply"}
+                                >
+                                  <MessageSquare className="w-3 h-3" /> {appt.patientResponse}
+                                </span>
+                              )}
+                              {appt.checkedInAt && appt.status === "Scheduled" && (
+                                <span className="flex items-center gap-1 text-[10px] font-bold px-2 py-0.5 rounded-full bg-teal-50 text-teal-700 dark:bg-teal-900/30 dark:text-teal-300" title={`Checked in ${new Date(appt.checkedInAt).toLocaleTimeString()}`}>
+                                  <CalendarCheck className="w-3 h-3" /> Checked in
+                                </span>
+                              )}
+                              {appt.bookingSource === "online" && (
+                                <span className="flex items-center gap-1 text-[10px] font-bold px-2 py-0.5 rounded-full bg-sky-50 text-sky-600 dark:bg-sky-900/30 dark:text-sky-300" title="Booked by the patient online">
+                                  <Globe className="w-3 h-3" /> Online
+                                </span>
+                              )}
+                            </h3>
+                            <div className="flex items-center gap-3 text-sm text-slate-500 dark:text-slate-400 mt-1">
+                              <div className="flex items-center gap-1">
+                                <Clock className="w-3.5 h-3.5" />
+                                {appt.time}-{getAppointmentEnd(appt)}
+                              </div>
+                              <span className="w-1 h-1 rounded-full bg-slate-300 dark:bg-slate-600"></span>
+                              <span>{appt.reason}</span>
+                              {appt.providerName && (
+                                <>
+                                  <span className="w-1 h-1 rounded-full bg-slate-300 dark:bg-slate-600"></span>
+                                  <span className="flex items-center gap-1">
+                                    <User className="w-3.5 h-3.5" /> {appt.providerName}
+                                  </span>
+                                </>
+                              )}
+                            </div>
+                            {patient && (
+                              <div className="flex items-center gap-3 mt-2 text-xs text-slate-400">
+                                <span className="flex items-center gap-1">
+                                  <Phone className="w-3 h-3" /> {patient.phone}
+                                </span>
+                              </div>
+                            )}
+                          </div>
                         </div>
-                      )}
-                    </div>
-                  </div>
 
-                  <div className="flex items-center gap-3 w-full md:w-auto mt-2 md:mt-0">
-                    {appt.status === "Scheduled" && (
-                      <>
-                        <button
-                          onClick={() => { if (!canCurrentUser('visits.complete')) { useStore.getState().actions.showToast('Not authorized to complete visits.', 'error'); return } handleStatusChange(appt, "Completed") }}
-                          disabled={!canCurrentUser('visits.complete')}
-                          aria-disabled={!canCurrentUser('visits.complete')}
-                          className={`flex-1 md:flex-none flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium rounded-xl transition-colors ${canCurrentUser('visits.complete') ? 'text-emerald-700 dark:text-emerald-300 bg-emerald-50 dark:bg-emerald-900/30 hover:bg-emerald-100 dark:hover:bg-emerald-900/50' : 'text-slate-400 bg-slate-100 cursor-not-allowed opacity-60'}`}
-                        >
-                          <Check className="w-4 h-4" /> Complete
-                        </button>
-                        <button
-                          onClick={() => { if (!canCurrentUser('appointments.cancel')) { useStore.getState().actions.showToast('Not authorized to cancel appointments.', 'error'); return } handleStatusChange(appt, "Cancelled") }}
-                          disabled={!canCurrentUser('appointments.cancel')}
-                          aria-disabled={!canCurrentUser('appointments.cancel')}
-                          className={`flex-1 md:flex-none flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium rounded-xl transition-colors ${canCurrentUser('appointments.cancel') ? 'text-slate-600 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 hover:bg-slate-50 dark:hover:bg-slate-600' : 'text-slate-400 bg-slate-100 cursor-not-allowed opacity-60'}`}
-                        >
-                          <X className="w-4 h-4" /> Cancel
-                        </button>
-                      </>
-                    )}
+                        <div className="flex items-center gap-3 w-full md:w-auto mt-2 md:mt-0">
+                          {appt.status === "Scheduled" && (
+                            <>
+                              <button
+                                onClick={() => { if (!canCurrentUser('visits.complete')) { useStore.getState().actions.showToast('Not authorized to complete visits.', 'error'); return } handleStatusChange(appt, "Completed") }}
+                                disabled={!canCurrentUser('visits.complete')}
+                                aria-disabled={!canCurrentUser('visits.complete')}
+                                className={`flex-1 md:flex-none flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium rounded-xl transition-colors ${canCurrentUser('visits.complete') ? 'text-emerald-700 dark:text-emerald-300 bg-emerald-50 dark:bg-emerald-900/30 hover:bg-emerald-100 dark:hover:bg-emerald-900/50' : 'text-slate-400 bg-slate-100 cursor-not-allowed opacity-60'}`}
+                              >
+                                <Check className="w-4 h-4" /> Complete
+                              </button>
+                              <button
+                                onClick={() => { if (!canCurrentUser('appointments.cancel')) { useStore.getState().actions.showToast('Not authorized to cancel appointments.', 'error'); return } appt.seriesId ? setSeriesCancelTarget(appt) : handleStatusChange(appt, "Cancelled") }}
+                                disabled={!canCurrentUser('appointments.cancel')}
+                                aria-disabled={!canCurrentUser('appointments.cancel')}
+                                className={`flex-1 md:flex-none flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium rounded-xl transition-colors ${canCurrentUser('appointments.cancel') ? 'text-slate-600 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 hover:bg-slate-50 dark:hover:bg-slate-600' : 'text-slate-400 bg-slate-100 cursor-not-allowed opacity-60'}`}
+                              >
+                                <X className="w-4 h-4" /> Cancel
+                              </button>
+                            </>
+                          )}
 
-                    {/* Action Menu */}
-                    <div className="relative">
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation()
-                          setActionMenuId(actionMenuId === appt.id ? null : appt.id)
-                        }}
-                        className="p-2 text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-full transition-colors"
-                      >
-                        <MoreHorizontal className="w-5 h-5" />
-                      </button>
-
-                      {actionMenuId === appt.id && (
-                        <div className="absolute top-full right-0 mt-1 w-40 bg-white dark:bg-slate-800 rounded-xl shadow-xl border border-slate-100 dark:border-slate-700 z-20 animate-in fade-in zoom-in-95">
-                          <button
-                            onClick={() => openEditModal(appt)}
-                            className="w-full text-left px-4 py-2.5 text-sm text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 rounded-t-xl flex items-center gap-2"
-                          >
-                            <Edit2 className="w-4 h-4" /> Edit
-                          </button>
-                          {appt.status !== "Scheduled" && (
+                          {/* Action Menu */}
+                          <div className="relative">
                             <button
-                              onClick={() => handleStatusChange(appt, "Scheduled")}
-                              className="w-full text-left px-4 py-2.5 text-sm text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 flex items-center gap-2"
+                              onClick={(e) => {
+                                e.stopPropagation()
+                                setActionMenuId(actionMenuId === appt.id ? null : appt.id)
+                              }}
+                              className="p-2 text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-full transition-colors"
                             >
-                              <Calendar className="w-4 h-4" /> Reschedule
+                              <MoreHorizontal className="w-5 h-5" />
                             </button>
-                          )}
-                          <button
-                            onClick={() => {
-                              window.print()
-                              setActionMenuId(null)
-                            }}
-                            className="w-full text-left px-4 py-2.5 text-sm text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 rounded-b-xl flex items-center gap-2"
-                          >
-                            <Printer className="w-4 h-4" /> Print
-                          </button>
+
+                            {actionMenuId === appt.id && (
+                              <div className="absolute top-full right-0 mt-1 w-40 bg-white dark:bg-slate-800 rounded-xl shadow-xl border border-slate-100 dark:border-slate-700 z-20 animate-in fade-in zoom-in-95">
+                                <button
+                                  onClick={() => openEditModal(appt)}
+                                  className="w-full text-left px-4 py-2.5 text-sm text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 rounded-t-xl flex items-center gap-2"
+                                >
+                                  <Edit2 className="w-4 h-4" /> Edit
+                                </button>
+                                {appt.status !== "Scheduled" && (
+                                  <button
+                                    onClick={() => handleStatusChange(appt, "Scheduled")}
+                                    className="w-full text-left px-4 py-2.5 text-sm text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 flex items-center gap-2"
+                                  >
+                                    <Calendar className="w-4 h-4" /> Reschedule
+                                  </button>
+                                )}
+                                {appt.status === "Scheduled" && !appt.checkedInAt && appt.date === new Date().toISOString().split("T")[0] && (
+                                  <button
+                                    onClick={() => handleCheckIn(appt)}
+                                    className="w-full text-left px-4 py-2.5 text-sm text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 flex items-center gap-2"
+                                  >
+                                    <CalendarCheck className="w-4 h-4" /> Check In
+                                  </button>
+                                )}
+                                {appt.status === "Scheduled" && !appt.checkedInAt && appt.date <= new Date().toISOString().split("T")[0] && (
+                                  <button
+                                    onClick={() => handleStatusChange(appt, "No-Show")}
+                                    className="w-full text-left px-4 py-2.5 text-sm text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 flex items-center gap-2"
+                                  >
+                                    <X className="w-4 h-4" /> Mark No-Show
+                                  </button>
+                                )}
+                                <button
+                                  onClick={() => {
+                                    window.print()
+                                    setActionMenuId(null)
+                                  }}
+                                  className="w-full text-left px-4 py-2.5 text-sm text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 rounded-b-xl flex items-center gap-2"
+                                >
+                                  <Printer className="w-4 h-4" /> Print
+                                </button>
+                              </div>
+                            )}
+                          </div>
                         </div>
-                      )}
-                    </div>
+                      </div>
+                    )
+                  })}
+                </div>
+              ) : (
+                <div className="p-12 text-center">
+                  <div className="w-16 h-16 bg-slate-100 dark:bg-slate-700 rounded-full flex items-center justify-center mx-auto mb-4">
+                    <Calendar className="w-8 h-8 text-slate-400" />
                   </div>
+                  <h3 className="font-bold text-slate-900 dark:text-white mb-1">No appointments found</h3>
+                  <p className="text-sm text-slate-500 dark:text-slate-400">
+                    {searchTerm
+                      ? "Try adjusting your search or filters"
+                      : `No ${activeTab} appointments. Schedule a new appointment to get started.`}
+                  </p>
+                  {!searchTerm && activeTab === "upcoming" && (
+                    <button
+                      onClick={() => setIsModalOpen(true)}
+                      className="mt-4 px-4 py-2 bg-teal-600 text-white rounded-xl text-sm font-medium hover:bg-teal-700 transition-colors"
+                    >
+                      Schedule Appointment
+                    </button>
+                  )}
                 </div>
-              )
-            })}
-          </div>
-        ) : (
-          <div className="p-12 text-center">
-            <div className="w-16 h-16 bg-slate-100 dark:bg-slate-700 rounded-full flex items-center justify-center mx-auto mb-4">
-              <Calendar className="w-8 h-8 text-slate-400" />
+              )}
             </div>
-            <h3 className="font-bold text-slate-900 dark:text-white mb-1">No appointments found</h3>
-            <p className="text-sm text-slate-500 dark:text-slate-400">
-              {searchTerm
-                ? "Try adjusting your search or filters"
-                : `No ${activeTab} appointments. Schedule a new appointment to get started.`}
-            </p>
-            {!searchTerm && activeTab === "upcoming" && (
-              <button
-                onClick={() => setIsModalOpen(true)}
-                className="mt-4 px-4 py-2 bg-teal-600 text-white rounded-xl text-sm font-medium hover:bg-teal-700 transition-colors"
-              >
-                Schedule Appointment
-              </button>
-            )}
-          </div>
-        )}
-      </div>
+          )}
+        </>
+      ) : (
+        <AppointmentCalendar
+          view={viewMode}
+          anchorDate={calendarDate}
+          onAnchorChange={setCalendarDate}
+          appointments={appointments}
+          providers={providers}
+          providerSchedules={providerSchedules}
+          canReschedule={canCurrentUser('appointments.edit')}
+          onSelect={openEditModal}
+          onReschedule={handleCalendarReschedule}
+        />
+      )}
 
       {/* Create/Edit Appointment Modal */}
       {isModalOpen && (
@@ -515,6 +709,39 @@ const Appointments: React.FC<AppointmentsProps> = ({
               </div>
 
               <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="text-sm font-bold text-slate-700 dark:text-slate-300 mb-1 block">Type</label>
+                  <select
+                    value={newApptData.appointmentType}
+                    onChange={(e) => setNewApptData({ ...newApptData, appointmentType: e.target.value })}
+                    className="w-full p-3 rounded-xl bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 outline-none focus:ring-2 focus:ring-teal-500 dark:text-white"
+                  >
+                    <option value="">Standard ({getTypeDuration(appointmentTypes)} min)</option>
+                    {appointmentTypes.map((type) => (
+                      <option key={type.id} value={type.name}>
+                        {type.name} ({type.durationMinutes} min)
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="text-sm font-bold text-slate-700 dark:text-slate-300 mb-1 block">Provider</label>
+                  <select
+                    value={newApptData.providerId}
+                    onChange={(e) => setNewApptData({ ...newApptData, providerId: e.target.value })}
+                    className="w-full p-3 rounded-xl bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 outline-none focus:ring-2 focus:ring-teal-500 dark:text-white"
+                  >
+                    <option value="">{usesSlots ? "Any available" : "Unassigned"}</option>
+                    {providers.map((provider) => (
+                      <option key={provider.id} value={provider.id}>
+                        {provider.name} ({provider.role})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className={usesSlots ? "" : "grid grid-cols-2 gap-4"}>
                 <div>
                   <label className="text-sm font-bold text-slate-700 dark:text-slate-300 mb-1 block">
                     Date <span className="text-red-500">*</span>
@@ -528,29 +755,88 @@ const Appointments: React.FC<AppointmentsProps> = ({
                     required
                   />
                 </div>
+                {!usesSlots && (
+                  <div>
+                    <label className="text-sm font-bold text-slate-700 dark:text-slate-300 mb-1 block">
+                      Time <span className="text-red-500">*</span>
+                    </label>
+                    <select
+                      value={newApptData.time}
+                      onChange={(e) => setNewApptData({ ...newApptData, time: e.target.value })}
+                      className="w-full p-3 rounded-xl bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 outline-none focus:ring-2 focus:ring-teal-500 dark:text-white"
+                      required
+                    >
+                      {Array.from({ length: 20 }, (_, i) => {
+                        const hour = Math.floor(i / 2) + 8
+                        const min = i % 2 === 0 ? "00" : "30"
+                        const time = `${hour.toString().padStart(2, "0")}:${min}`
+                        return (
+                          <option key={time} value={time}>
+                            {time}
+                          </option>
+                        )
+                      })}
+                    </select>
+                  </div>
+                )}
+              </div>
+
+              {usesSlots && (
                 <div>
                   <label className="text-sm font-bold text-slate-700 dark:text-slate-300 mb-1 block">
-                    Time <span className="text-red-500">*</span>
+                    Available Slots <span className="text-red-500">*</span>
                   </label>
-                  <select
-                    value={newApptData.time}
-                    onChange={(e) => setNewApptData({ ...newApptData, time: e.target.value })}
-                    className="w-full p-3 rounded-xl bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 outline-none focus:ring-2 focus:ring-teal-500 dark:text-white"
-                    required
-                  >
-                    {Array.from({ length: 20 }, (_, i) => {
-                      const hour = Math.floor(i / 2) + 8
-                      const min = i % 2 === 0 ? "00" : "30"
-                      const time = `${hour.toString().padStart(2, "0")}:${min}`
-                      return (
-                        <option key={time} value={time}>
-                          {time}
-                        </option>
-                      )
-                    })}
-                  </select>
+                  {isEditMode && selectedAppt && selectedAppt.date === newApptData.date && (
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">
+                      Currently {selectedAppt.time}{selectedAppt.providerName ? ` with ${selectedAppt.providerName}` : ""}
+                    </p>
+                  )}
+                  <div className="max-h-48 overflow-y-auto space-y-3 p-3 rounded-xl bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600">
+                    {isLoadingSlots ? (
+                      <p className="text-sm text-slate-400">Checking availability...</p>
+                    ) : slotGroups.length === 0 ? (
+                      <p className="text-sm text-slate-400">No free slots on this date. Try another day or provider.</p>
+                    ) : (
+                      slotGroups.map((group) => (
+                        <div key={group.providerId}>
+                          <p className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">{group.providerName}</p>
+                          <div className="flex flex-wrap gap-1.5">
+                            {group.slots.map((slot) => (
+                              <button
+                                key={`${slot.providerId}-${slot.start}`}
+                                type="button"
+                                onClick={() => setNewApptData({ ...newApptData, time: slot.start, providerId: slot.providerId })}
+                                title={slot.overbooked ? "Overbooking: the patients already in this slot often miss appointments" : undefined}
+                                className={`px-2.5 py-1 rounded-lg text-xs font-medium transition-colors ${isSlotSelected(slot) ? "bg-teal-600 text-white" : slot.overbooked ? "bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300 border border-dashed border-amber-300 dark:border-amber-700 hover:border-teal-500" : "bg-white dark:bg-slate-800 text-slate-600 dark:text-slate-300 border border-slate-200 dark:border-slate-600 hover:border-teal-500"}`}
+                              >
+                                {slot.start}{slot.overbooked ? "+" : ""}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      ))
+                    )}
+                  </div>
                 </div>
-              </div>
+              )}
+
+              {isEditMode && selectedAppt?.seriesId && (
+                <div className="flex gap-2">
+                  {([
+                    { value: "occurrence", label: "This visit only" },
+                    { value: "following", label: "This and later visits" },
+                  ] as const).map((option) => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => setEditScope(option.value)}
+                      className={`flex-1 py-2 text-sm font-medium rounded-xl border transition-colors ${editScope === option.value ? "border-teal-500 bg-teal-50 text-teal-700 dark:bg-teal-900/20 dark:text-teal-300" : "border-slate-200 dark:border-slate-600 text-slate-600 dark:text-slate-300"}`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              )}
 
               <div>
                 <label className="text-sm font-bold text-slate-700 dark:text-slate-300 mb-1 block">
@@ -565,6 +851,10 @@ const Appointments: React.FC<AppointmentsProps> = ({
                 />
               </div>
 
+              {!isEditMode && (
+                <RecurrenceFields startDate={newApptData.date} value={recurrence} onChange={setRecurrence} />
+              )}
+
               <div className="flex gap-3 pt-4">
                 <button
                   type="button"
@@ -579,7 +869,8 @@ const Appointments: React.FC<AppointmentsProps> = ({
                 </button>
                 <button
                   type="submit"
-                  className="flex-1 py-3 font-bold text-white bg-teal-600 rounded-xl hover:bg-teal-700 transition-colors"
+                  disabled={usesSlots && !availableSlots.some(isSlotSelected) && !(isEditMode && selectedAppt?.date === newApptData.date && selectedAppt?.time === newApptData.time)}
+                  className="flex-1 py-3 font-bold text-white bg-teal-600 rounded-xl hover:bg-teal-700 transition-colors disabled:opacity-60"
                 >
                   {isEditMode ? "Save Changes" : "Schedule"}
                 </button>
@@ -588,6 +879,46 @@ const Appointments: React.FC<AppointmentsProps> = ({
           </div>
         </div>
       )}
+
+      {/* Cancel Series Occurrence */}
+      {seriesCancelTarget && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-in fade-in">
+          <div className="bg-white dark:bg-slate-800 w-full max-w-sm rounded-2xl p-6 shadow-2xl animate-in zoom-in-95">
+            <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-2 flex items-center gap-2">
+              <Repeat className="w-5 h-5 text-indigo-500" /> Cancel recurring appointment
+            </h3>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mb-6">
+              {seriesCancelTarget.patientName}, visit {seriesCancelTarget.seriesIndex} on {seriesCancelTarget.date}.
+            </p>
+            <div className="space-y-2">
+              <button
+                onClick={() => {
+                  handleStatusChange(seriesCancelTarget, "Cancelled")
+                  setSeriesCancelTarget(null)
+                }}
+                className="w-full py-3 font-bold text-slate-700 dark:text-slate-200 bg-slate-100 dark:bg-slate-700 rounded-xl hover:bg-slate-200 transition-colors"
+              >
+                This visit only
+              </button>
+              <button
+                onClick={async () => {
+                  await actions.cancelAppointmentSeries(seriesCancelTarget)
+                  setSeriesCancelTarget(null)
+                }}
+                className="w-full py-3 font-bold text-white bg-red-600 rounded-xl hover:bg-red-700 transition-colors"
+              >
+                This and all later visits
+              </button>
+              <button
+                onClick={() => setSeriesCancelTarget(null)}
+                className="w-full py-2 text-sm font-medium text-slate-500 hover:text-slate-700"
+              >
+                Keep appointments
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,143 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import useStore from '../store'
+import { InventoryItem, InventoryLog, ControlledDrugEntry, ClinicSettings } from '../types';
+import { ShieldCheck, Printer, RefreshCw, AlertTriangle } from 'lucide-react';
+import { db } from '../services/db';
+import { documentGenerator } from '../services/documentService';
+
+interface ControlledRegisterProps {
+    inventory: InventoryItem[];
+    logs: InventoryLog[]; // Reloads the register after each stock movement
+    settings: ClinicSettings;
+}
+
+const entryStyles: Record<ControlledDrugEntry['entryType'], string> = {
+    'Opening Balance': 'bg-slate-100 text-slate-700 dark:bg-slate-700 dark:text-slate-300',
+    'Received': 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+    'Dispensed': 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+    'Adjusted': 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-300',
+};
+
+const ControlledRegister: React.FC<ControlledRegisterProps> = ({ inventory, logs, settings }) => {
+    const controlledItems = useMemo(
+        () => inventory.filter(i => i.isControlled).sort((a, b) => a.name.localeCompare(b.name)),
+        [inventory]
+    );
+    const [selectedItemId, setSelectedItemId] = useState('');
+    const [entries, setEntries] = useState<ControlledDrugEntry[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+
+    const selectedItem = controlledItems.find(i => i.id === selectedItemId) || controlledItems[0] || null;
+
+    const loadRegister = async () => {
+        if (!selectedItem) return;
+        setIsLoading(true);
+        try {
+            // Oldest first so the running balance reads top to bottom
+            setEntries((await db.getControlledRegister(selectedItem.id)).reverse());
+        } catch (e) {
+            console.error('getControlledRegister error', e);
+            useStore.getState().actions.showToast('Could not load the controlled drug register.', 'error');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadRegister();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [selectedItem?.id, logs.length]);
+
+    const registerBalance = entries.length ? entries[entries.length - 1].balance : null;
+    const isOutOfBalance = selectedItem !== null && registerBalance !== null && registerBalance !== selectedItem.stock;
+
+    const handlePrint = async () => {
+        if (!selectedItem) return;
+        const html = await documentGenerator.generateControlledRegisterPdf(selectedItem, entries, settings);
+        documentGenerator.printDocument(html, `Controlled Register - ${selectedItem.name}`);
+    };
+
+    if (controlledItems.length === 0) {
+        return (
+            <div className="py-12 text-center text-slate-400 border-2 border-dashed border-slate-200 dark:border-slate-700 rounded-3xl animate-in fade-in">
+                <ShieldCheck className="w-12 h-12 mx-auto mb-3 opacity-20" />
+                <p>No controlled drugs. Mark an item as a controlled substance from its Edit form.</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
+                <div className="flex items-center gap-3 w-full sm:w-auto">
+                    <select
+                        value={selectedItem?.id || ''}
+                        onChange={(e) => setSelectedItemId(e.target.value)}
+                        className="flex-1 sm:w-72 p-2.5 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl text-sm font-bold outline-none dark:text-white"
+                    >
+                        {controlledItems.map(item => (
+                            <option key={item.id} value={item.id}>{item.name} ({item.stock} {item.unit})</option>
+                        ))}
+                    </select>
+                    <button onClick={loadRegister} disabled={isLoading} className="p-2.5 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl text-slate-500 hover:text-teal-600" title="Refresh">
+                        <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+                    </button>
+                </div>
+                <button onClick={handlePrint} className="px-4 py-2.5 bg-slate-900 dark:bg-slate-700 text-white rounded-xl font-bold text-sm flex items-center gap-2 hover:bg-slate-800">
+                    <Printer className="w-4 h-4" /> Print Register
+                </button>
+            </div>
+
+            {isOutOfBalance && (
+                <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-100 dark:border-red-900/40 rounded-xl text-sm text-red-700 dark:text-red-300 flex items-center gap-2">
+                    <AlertTriangle className="w-4 h-4 shrink-0" />
+                    Register balance ({registerBalance}) does not match stock on hand ({selectedItem!.stock}). Investigate before the next movement.
+                </div>
+            )}
+
+            <div className="bg-white dark:bg-slate-800 rounded-2xl border border-slate-100 dark:border-slate-700 overflow-x-auto">
+                <table className="w-full text-sm">
+                    <thead className="bg-slate-50 dark:bg-slate-700/50 text-xs uppercase text-slate-500 dark:text-slate-400">
+                        <tr>
+                            <th className="p-3 text-left">Date</th>
+                            <th className="p-3 text-left">Entry</th>
+                            <th className="p-3 text-left">Reference / Patient</th>
+                            <th className="p-3 text-right">In</th>
+                            <th className="p-3 text-right">Out</th>
+                            <th className="p-3 text-right">Balance</th>
+                            <th className="p-3 text-left">Recorded By</th>
+                            <th className="p-3 text-left">Witness</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                        {entries.map(entry => (
+                            <tr key={entry.id} className="text-slate-700 dark:text-slate-300">
+                                <td className="p-3 whitespace-nowrap text-xs">{new Date(entry.timestamp).toLocaleString()}</td>
+                                <td className="p-3">
+                                    <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold ${entryStyles[entry.entryType]}`}>{entry.entryType}</span>
+                                    {entry.notes && <div className="text-[10px] text-slate-400 mt-1">{entry.notes}</div>}
+                                </td>
+                                <td className="p-3 text-xs">
+                                    <div className="font-mono">{entry.reference || '-'}</div>
+                                    {entry.patientName && <div className="text-slate-500">{entry.patientName}</div>}
+                                </td>
+                                <td className="p-3 text-right font-bold text-green-600">{entry.quantityChange > 0 ? entry.quantityChange : ''}</td>
+                                <td className="p-3 text-right font-bold text-red-500">{entry.quantityChange < 0 ? -entry.quantityChange : ''}</td>
+                                <td className="p-3 text-right font-bold text-slate-900 dark:text-white">{entry.balance}</td>
+                                <td className="p-3 text-xs">{entry.recordedBy || '-'}</td>
+                                <td className="p-3 text-xs">{entry.witnessedBy || '-'}</td>
+                            </tr>
+                        ))}
+                        {entries.length === 0 && !isLoading && (
+                            <tr>
+                                <td colSpan={8} className="p-8 text-center text-slate-400">No register entries yet.</td>
+                            </tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+export default ControlledRegister;
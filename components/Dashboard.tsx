@@ -43,6 +43,7 @@ import {
 import { AIBriefingCard } from "./dashboard/AIBriefingCard"
 import useStore from "../store"
 import { getAvatarUrl } from "../lib/utils"
+import { getUnacknowledgedCriticals } from "../lib/labResults"
 
 const Dashboard: React.FC = () => {
   const navigate = useNavigate()
@@ -106,6 +107,18 @@ const Dashboard: React.FC = () => {
       })
     }
 
+    // Critical lab results the doctor has not acknowledged
+    const criticalLabs = visits.flatMap(getUnacknowledgedCriticals)
+    if (criticalLabs.length > 0) {
+      msgs.push({
+        id: "critical-labs",
+        text: `${criticalLabs.length} critical lab result${criticalLabs.length === 1 ? "" : "s"} awaiting review`,
+        type: "alert",
+        time: "Now",
+        read: false,
+      })
+    }
+
     // Check pending visits
     const pendingVisits = visits.filter((v) => v.stage !== "Completed")
     if (pendingVisits.length > 0) {
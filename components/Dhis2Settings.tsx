@@ -0,0 +1,196 @@
+import React, { useState, useEffect } from 'react';
+import useStore from '../store'
+import { Dhis2Mapping, Dhis2Settings as Dhis2Config } from '../types';
+import { Save, Upload } from 'lucide-react';
+import { canCurrentUser } from '../lib/roleMapper'
+import { MOH_705_ROWS, MOH_OTHER_DISEASES, MohForm } from '../lib/diagnosisCoding'
+import { EMPTY_DHIS2_SETTINGS, dhis2MappingKey } from '../lib/dhis2'
+
+const inputClass = 'w-full p-2.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-xl text-sm outline-none dark:text-white';
+
+// KHIS (DHIS2) connection and the data element behind each MOH 705 row
+const Dhis2Settings: React.FC = () => {
+    const { settings, actions } = useStore();
+    const canEdit = canCurrentUser('settings.edit');
+
+    const [config, setConfig] = useState<Dhis2Config>(settings.dhis2 || EMPTY_DHIS2_SETTINGS);
+    const [form, setForm] = useState<MohForm>('705A');
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        setConfig(settings.dhis2 || EMPTY_DHIS2_SETTINGS);
+    }, [settings.dhis2]);
+
+    const rows = [...MOH_705_ROWS.filter(row => row.forms.includes(form)), MOH_OTHER_DISEASES];
+    const mappedCount = rows.filter(row => config.mappings[dhis2MappingKey(form, row.id)]?.dataElement).length;
+
+    const updateMapping = (rowId: string, patch: Partial<Dhis2Mapping>) => {
+        const key = dhis2MappingKey(form, rowId);
+        const next = { ...(config.mappings[key] || { dataElement: '' }), ...patch };
+        const mappings = { ...config.mappings };
+        if (next.dataElement || next.categoryOptionCombo) mappings[key] = next;
+        else delete mappings[key];
+        setConfig({ ...config, mappings });
+    };
+
+    // Mappings are usually shared between facilities as a JSON file of { "705A:malaria": { dataElement, categoryOptionCombo } }
+    const handleImportMappings = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const imported = JSON.parse(await file.text());
+            const mappings: Record<string, Dhis2Mapping> = {};
+            for (const [key, value] of Object.entries<any>(imported)) {
+                if (/^705[AB]:/.test(key) && typeof value?.dataElement === 'string') {
+                    mappings[key] = { dataElement: value.dataElement, categoryOptionCombo: value.categoryOptionCombo || undefined };
+                }
+            }
+            setConfig({ ...config, mappings: { ...config.mappings, ...mappings } });
+            actions.showToast(`Imported ${Object.keys(mappings).length} mappings. Save to keep them.`);
+        } catch (err) {
+            actions.showToast('That file is not a valid mapping file', 'error');
+        }
+    };
+
+    const handleSave = async () => {
+        if (!canEdit) {
+            actions.showToast('You do not have permission to change integrations.', 'error');
+            return;
+        }
+        if (config.enabled && !/^https?:\/\//.test(config.baseUrl)) {
+            actions.showToast('Enter the DHIS2 server URL, starting with http:// or https://', 'error');
+            return;
+        }
+        setIsSaving(true);
+        await actions.updateSettings({ ...settings, dhis2: { ...config, baseUrl: config.baseUrl.trim().replace(/\/+$/, '') } });
+        setIsSaving(false);
+    };
+
+    return (
+        <div className="bg-white dark:bg-slate-800 p-4 md:p-6 rounded-3xl shadow-sm border border-slate-100 dark:border-slate-700">
+            <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-2 flex items-center gap-2">
+                <Upload className="w-5 h-5 text-green-600" /> KHIS (DHIS2) Reporting
+            </h3>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mb-6">
+                Submit the monthly MOH 705 summaries to KHIS from the Reports page. Each disease row is sent as the new cases for the data element mapped below.
+                MOH 711 is not supported yet, as the services it covers (family planning, maternity, immunisation) are not recorded here.
+            </p>
+
+            <label className="flex items-center gap-3 mb-4 text-sm font-semibold text-slate-700 dark:text-slate-200 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={config.enabled}
+                    onChange={(e) => setConfig({ ...config, enabled: e.target.checked })}
+                    className="w-4 h-4 accent-teal-600"
+                />
+                Allow pushing reports to DHIS2
+            </label>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="md:col-span-2">
+                    <label className="text-xs font-bold text-slate-500 uppercase mb-1 block">Server URL</label>
+                    <input value={config.baseUrl} onChange={(e) => setConfig({ ...config, baseUrl: e.target.value })} className={inputClass} placeholder="https://hiskenya.org" />
+                </div>
+                <div>
+                    <label className="text-xs font-bold text-slate-500 uppercase mb-1 block">Username</label>
+                    <input value={config.username} onChange={(e) => setConfig({ ...config, username: e.target.value })} className={inputClass} autoComplete="off" />
+                </div>
+                <div>
+                    <label className="text-xs font-bold text-slate-500 uppercase mb-1 block">Password</label>
+                    <input
+                        type="password"
+                        value={config.password}
+                        onChange={(e) => setConfig({ ...config, password: e.target.value })}
+                        className={inputClass}
+                        autoComplete="new-password"
+                        placeholder={config.password ? '' : 'Not set'}
+                    />
+                </div>
+                <div>
+                    <label className="text-xs font-bold text-slate-500 uppercase mb-1 block">Organisation unit UID</label>
+                    <input value={config.orgUnit} onChange={(e) => setConfig({ ...config, orgUnit: e.target.value.trim() })} className={`${inputClass} font-mono`} placeholder="Facility org unit, e.g. aBcD1234eFg" />
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                    {(['705A', '705B'] as MohForm[]).map(f => (
+                        <div key={f}>
+                            <label className="text-xs font-bold text-slate-500 uppercase mb-1 block">MOH {f} data set</label>
+                            <input
+                                value={config.dataSets[f] || ''}
+                                onChange={(e) => setConfig({ ...config, dataSets: { ...config.dataSets, [f]: e.target.value.trim() } })}
+                                className={`${inputClass} font-mono`}
+                            />
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            <div className="mt-6 flex flex-wrap items-center justify-between gap-3">
+                <div className="flex bg-slate-100 dark:bg-slate-700 p-1 rounded-xl">
+                    {(['705A', '705B'] as MohForm[]).map(f => (
+                        <button
+                            key={f}
+                            type="button"
+                            onClick={() => setForm(f)}
+                            className={`px-4 py-1.5 rounded-lg text-sm font-bold transition-all ${form === f ? 'bg-white dark:bg-slate-600 shadow text-green-700 dark:text-green-400' : 'text-slate-500'}`}
+                        >
+                            MOH {f}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex items-center gap-3">
+                    <span className="text-xs text-slate-500">{mappedCount} of {rows.length} rows mapped</span>
+                    <label className="px-3 py-1.5 bg-slate-100 dark:bg-slate-700 rounded-lg text-xs font-bold text-slate-600 dark:text-slate-200 cursor-pointer hover:bg-slate-200">
+                        Import mapping file
+                        <input type="file" accept="application/json,.json" onChange={handleImportMappings} className="hidden" />
+                    </label>
+                </div>
+            </div>
+
+            <div className="mt-3 max-h-96 overflow-y-auto border border-slate-100 dark:border-slate-700 rounded-xl">
+                <table className="w-full text-left text-sm">
+                    <thead className="bg-slate-50 dark:bg-slate-700/50 text-xs uppercase text-slate-500 sticky top-0">
+                        <tr>
+                            <th className="px-3 py-2">MOH {form} row</th>
+                            <th className="px-3 py-2">Data element UID</th>
+                            <th className="px-3 py-2">Category option combo</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                        {rows.map(row => {
+                            const mapping = config.mappings[dhis2MappingKey(form, row.id)];
+                            return (
+                                <tr key={row.id}>
+                                    <td className="px-3 py-1.5 text-slate-700 dark:text-slate-200">{row.label}</td>
+                                    <td className="px-3 py-1.5">
+                                        <input
+                                            value={mapping?.dataElement || ''}
+                                            onChange={(e) => updateMapping(row.id, { dataElement: e.target.value.trim() })}
+                                            className="w-full p-1.5 bg-slate-50 dark:bg-slate-900 rounded-lg text-xs font-mono outline-none dark:text-white"
+                                        />
+                                    </td>
+                                    <td className="px-3 py-1.5">
+                                        <input
+                                            value={mapping?.categoryOptionCombo || ''}
+                                            onChange={(e) => updateMapping(row.id, { categoryOptionCombo: e.target.value.trim() || undefined })}
+                                            className="w-full p-1.5 bg-slate-50 dark:bg-slate-900 rounded-lg text-xs font-mono outline-none dark:text-white"
+                                            placeholder="default"
+                                        />
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="flex justify-end mt-4">
+                <button onClick={handleSave} disabled={isSaving} className="px-5 py-2.5 bg-slate-900 dark:bg-teal-600 text-white font-bold rounded-xl flex items-center gap-2 hover:bg-slate-800 disabled:opacity-60">
+                    <Save className="w-4 h-4" /> Save
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default Dhis2Settings;
@@ -0,0 +1,117 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import type { CodedDiagnosis, DiagnosisCodeSystem, IcdCode } from "../types"
+import { Search, Star, X } from "lucide-react"
+import { getMohForm, getMohRow, searchIcdCodes } from "../lib/diagnosisCoding"
+
+interface DiagnosisCoderProps {
+  value: CodedDiagnosis[]
+  onChange: (diagnoses: CodedDiagnosis[]) => void
+  patientAge?: number
+  readOnly?: boolean
+}
+
+// ICD coded diagnoses for a visit. The first one added is primary until another is starred.
+const DiagnosisCoder: React.FC<DiagnosisCoderProps> = ({ value, onChange, patientAge, readOnly }) => {
+  const [system, setSystem] = useState<DiagnosisCodeSystem>("ICD-10")
+  const [query, setQuery] = useState("")
+  const results = searchIcdCodes(query, system).filter((c) => !value.some((d) => d.code === c.code && d.system === c.system))
+  const mohForm = patientAge === undefined ? undefined : getMohForm(patientAge)
+
+  const add = (code: IcdCode) => {
+    onChange([...value, { ...code, primary: !value.some((d) => d.primary) }])
+    setQuery("")
+  }
+
+  const remove = (index: number) => {
+    const next = value.filter((_, i) => i !== index)
+    // Keep a primary diagnosis while any remain
+    if (next.length > 0 && !next.some((d) => d.primary)) next[0] = { ...next[0], primary: true }
+    onChange(next)
+  }
+
+  const makePrimary = (index: number) => {
+    onChange(value.map((d, i) => ({ ...d, primary: i === index })))
+  }
+
+  return (
+    <div className="space-y-2">
+      {value.map((diagnosis, index) => (
+        <div
+          key={`${diagnosis.system}-${diagnosis.code}`}
+          className="flex items-center justify-between gap-3 p-3 bg-slate-50 dark:bg-slate-700/50 rounded-xl"
+        >
+          <div className="flex items-center gap-3 min-w-0">
+            <button
+              type="button"
+              disabled={readOnly}
+              onClick={() => makePrimary(index)}
+              title={diagnosis.primary ? "Primary diagnosis" : "Make primary"}
+              className={diagnosis.primary ? "text-amber-500" : "text-slate-300 hover:text-amber-400 disabled:hover:text-slate-300"}
+            >
+              <Star className={`w-4 h-4 ${diagnosis.primary ? "fill-current" : ""}`} />
+            </button>
+            <span className="font-mono text-xs font-bold text-teal-700 dark:text-teal-300">{diagnosis.code}</span>
+            <span className="text-sm text-slate-800 dark:text-slate-200 truncate">{diagnosis.title}</span>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            {mohForm && (
+              <span className="text-[10px] font-bold px-2 py-0.5 rounded bg-green-50 text-green-700 dark:bg-green-900/30 dark:text-green-300">
+                MOH {mohForm}: {getMohRow(diagnosis, mohForm).label}
+              </span>
+            )}
+            {!readOnly && (
+              <button type="button" onClick={() => remove(index)} className="text-slate-400 hover:text-red-500" title="Remove">
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        </div>
+      ))}
+
+      {!readOnly && (
+        <div className="relative">
+          <div className="flex gap-2">
+            <div className="flex-1 flex items-center gap-2 p-3 bg-slate-50 dark:bg-slate-700 rounded-xl">
+              <Search className="w-4 h-4 text-slate-400" />
+              <input
+                className="flex-1 bg-transparent outline-none dark:text-white text-sm"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search by code or name, e.g. B50 or malaria"
+              />
+            </div>
+            <select
+              value={system}
+              onChange={(e) => setSystem(e.target.value as DiagnosisCodeSystem)}
+              className="p-3 bg-slate-50 dark:bg-slate-700 rounded-xl outline-none dark:text-white text-sm"
+            >
+              <option value="ICD-10">ICD-10</option>
+              <option value="ICD-11">ICD-11</option>
+            </select>
+          </div>
+          {query.trim() && (
+            <div className="absolute z-10 mt-1 w-full max-h-64 overflow-y-auto bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 rounded-xl shadow-lg">
+              {results.map((code) => (
+                <button
+                  key={code.code}
+                  type="button"
+                  onClick={() => add(code)}
+                  className="w-full text-left px-4 py-2 hover:bg-slate-50 dark:hover:bg-slate-700 flex gap-3 text-sm"
+                >
+                  <span className="font-mono font-bold text-teal-700 dark:text-teal-300 w-14 shrink-0">{code.code}</span>
+                  <span className="text-slate-700 dark:text-slate-200">{code.title}</span>
+                </button>
+              ))}
+              {results.length === 0 && <p className="px-4 py-3 text-sm text-slate-400">No matching {system} codes.</p>}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default DiagnosisCoder
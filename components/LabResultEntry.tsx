@@ -0,0 +1,184 @@
+"use client"
+
+import type React from "react"
+import type { LabOrder, LabResultFlag, LabTestProfile, Patient } from "../types"
+import { AlertTriangle, Check, Cpu, X } from "lucide-react"
+import { LAB_FLAG_LABELS, applyLabResults, formatReferenceRange, isCriticalFlag, selectReferenceRange } from "../lib/labResults"
+import { acceptStagedImport } from "../lib/labInterface"
+
+interface LabResultEntryProps {
+  order: LabOrder
+  test?: LabTestProfile
+  patient?: Patient
+  onChange: (order: LabOrder) => void
+}
+
+const flagClass = (flag?: LabResultFlag) =>
+  isCriticalFlag(flag)
+    ? "bg-red-600 text-white"
+    : flag && flag !== "normal"
+      ? "bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300"
+      : "bg-green-50 text-green-700 dark:bg-green-900/30 dark:text-green-400"
+
+// Result entry for one lab order: a row per analyte with its reference range, or free text for tests without analytes
+const LabResultEntry: React.FC<LabResultEntryProps> = ({ order, test, patient, onChange }) => {
+  if (!test?.analytes?.length) {
+    return (
+      <textarea
+        className="w-full p-3 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 rounded-lg text-sm outline-none dark:text-white"
+        rows={2}
+        placeholder="Enter Result Value..."
+        value={order.result || ""}
+        onChange={(e) =>
+          onChange({
+            ...order,
+            result: e.target.value,
+            status: e.target.value ? "Completed" : "Pending",
+            completedAt: e.target.value ? order.completedAt || new Date().toISOString() : undefined,
+          })
+        }
+      />
+    )
+  }
+
+  const values = Object.fromEntries((order.results || []).map((r) => [r.code, r.value]))
+  const update = (code: string, value: string) => onChange(applyLabResults(order, test, { ...values, [code]: value }, patient))
+
+  return (
+    <div className="space-y-2">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-[10px] font-bold text-slate-400 uppercase">
+            <th className="pb-1">Analyte</th>
+            <th className="pb-1 w-36">Result</th>
+            <th className="pb-1">Units</th>
+            <th className="pb-1">Range</th>
+            <th className="pb-1 w-10"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {test.analytes.map((analyte) => {
+            const result = order.results?.find((r) => r.code === analyte.code)
+            const range = formatReferenceRange(analyte, selectReferenceRange(analyte, patient, order.orderedAt))
+            return (
+              <tr key={analyte.code} className="border-t border-slate-100 dark:border-slate-700">
+                <td className="py-1.5 pr-2 font-medium text-slate-700 dark:text-slate-200">{analyte.name}</td>
+                <td className="py-1.5 pr-2">
+                  {analyte.type === "option" ? (
+                    <select
+                      className="w-full p-1.5 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 rounded-lg text-sm outline-none dark:text-white"
+                      value={result?.value || ""}
+                      onChange={(e) => update(analyte.code, e.target.value)}
+                    >
+                      <option value="">--</option>
+                      {(analyte.options || []).map((option) => (
+                        <option key={option} value={option}>
+                          {option}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      inputMode="decimal"
+                      className="w-full p-1.5 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 rounded-lg text-sm outline-none dark:text-white"
+                      value={result?.value || ""}
+                      onChange={(e) => update(analyte.code, e.target.value)}
+                    />
+                  )}
+                </td>
+                <td className="py-1.5 pr-2 text-xs text-slate-500">{analyte.unit}</td>
+                <td className="py-1.5 pr-2 text-xs text-slate-500">{range}</td>
+                <td className="py-1.5">
+                  {result?.flag && result.flag !== "normal" && (
+                    <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${flagClass(result.flag)}`}>
+                      {LAB_FLAG_LABELS[result.flag]}
+                    </span>
+                  )}
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+      {order.results?.some((r) => isCriticalFlag(r.flag)) && (
+        <div className="flex items-center gap-2 text-xs font-bold px-3 py-2 rounded-lg bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-300">
+          <AlertTriangle className="w-3.5 h-3.5" />
+          Critical value. The ordering doctor is alerted when results are sent back.
+        </div>
+      )}
+      <input
+        className="w-full p-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 rounded-lg text-xs outline-none dark:text-white"
+        placeholder="Comment (optional)"
+        value={order.notes || ""}
+        onChange={(e) => onChange({ ...order, notes: e.target.value })}
+      />
+    </div>
+  )
+}
+
+// Analyser values waiting on the order; accepting copies them into the results, over anything typed in
+export const StagedResultsReview: React.FC<LabResultEntryProps> = ({ order, test, patient, onChange }) => {
+  const staged = order.stagedImport
+  if (!staged) return null
+  const names = Object.fromEntries((test?.analytes || []).map((a) => [a.code, a.name]))
+  return (
+    <div className="mb-3 p-3 rounded-lg bg-indigo-50 dark:bg-indigo-900/20 border border-indigo-100 dark:border-indigo-800">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs font-bold text-indigo-700 dark:text-indigo-300 flex items-center gap-1">
+          <Cpu className="w-3.5 h-3.5" /> {staged.format} results{staged.instrument ? ` from ${staged.instrument}` : ""}
+        </span>
+        <div className="flex gap-2">
+          <button
+            onClick={() => onChange({ ...order, stagedImport: undefined })}
+            className="px-2 py-1 text-xs font-bold rounded bg-white dark:bg-slate-800 text-slate-500 flex items-center gap-1"
+          >
+            <X className="w-3 h-3" /> Discard
+          </button>
+          <button
+            onClick={() => onChange(acceptStagedImport(order, test, patient))}
+            className="px-2 py-1 text-xs font-bold rounded bg-indigo-600 text-white flex items-center gap-1"
+          >
+            <Check className="w-3 h-3" /> Accept
+          </button>
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-x-4 gap-y-0.5 text-xs">
+        {Object.entries(staged.values).map(([code, value]) => (
+          <div key={code} className="flex justify-between gap-2">
+            <span className="text-slate-500 dark:text-slate-400">{names[code] || code}</span>
+            <span className="font-bold text-slate-800 dark:text-white">{value}</span>
+          </div>
+        ))}
+      </div>
+      {staged.unmatchedCodes && (
+        <p className="mt-2 text-[10px] text-amber-600">Not in this test, ignored: {staged.unmatchedCodes.join(", ")}</p>
+      )}
+    </div>
+  )
+}
+
+// Read-only results with their flags, for the doctor
+export const LabResultsSummary: React.FC<{ order: LabOrder }> = ({ order }) => {
+  if (!order.results?.length) {
+    return order.result ? <p className="text-xs text-indigo-600 dark:text-indigo-400">{order.result}</p> : null
+  }
+  return (
+    <div className="space-y-0.5">
+      {order.results
+        .filter((r) => r.value !== "")
+        .map((r) => (
+          <div key={r.code} className="flex items-center justify-between gap-2 text-xs">
+            <span className="text-slate-500 dark:text-slate-400">{r.name}</span>
+            <span className="flex items-center gap-1 font-bold text-slate-800 dark:text-white">
+              {r.value} {r.unit}
+              {r.flag && r.flag !== "normal" && (
+                <span className={`text-[10px] px-1 rounded ${flagClass(r.flag)}`}>{LAB_FLAG_LABELS[r.flag]}</span>
+              )}
+            </span>
+          </div>
+        ))}
+    </div>
+  )
+}
+
+export default LabResultEntry
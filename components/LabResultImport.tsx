@@ -0,0 +1,209 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import type { LabAnalyserMessage, LabTestProfile, Visit } from "../types"
+import { CheckCircle, FileUp, Inbox, Trash2, X } from "lucide-react"
+import useStore from "../store"
+import { db } from "../services/db"
+import type { AnalyserMatch } from "../lib/labInterface"
+import { matchAnalyserResults, parseAnalyserMessage, stageAnalyserResults } from "../lib/labInterface"
+
+interface LabResultImportProps {
+  visits: Visit[]
+  labTests: LabTestProfile[]
+  updateVisit: (visit: Visit) => void
+  onClose: () => void
+}
+
+interface ImportSource {
+  key: string
+  label: string
+  raw: string
+  messageId?: string // Set for messages from the analyser listener
+}
+
+// Analyser results from uploaded files, pasted text or the listener's inbox, matched to orders before staging
+const LabResultImport: React.FC<LabResultImportProps> = ({ visits, labTests, updateVisit, onClose }) => {
+  const { currentUser, actions } = useStore()
+  const [sources, setSources] = useState<ImportSource[]>([])
+  const [pasted, setPasted] = useState("")
+  const [isLoadingInbox, setIsLoadingInbox] = useState(true)
+
+  useEffect(() => {
+    db.getLabAnalyserMessages()
+      .then((messages: LabAnalyserMessage[]) =>
+        setSources((current) => [
+          ...messages.map((m) => ({
+            key: m.id,
+            label: `${m.format} from ${m.source || "analyser"}, ${new Date(m.receivedAt).toLocaleString()}`,
+            raw: m.raw,
+            messageId: m.id,
+          })),
+          ...current,
+        ]),
+      )
+      .catch((error) => console.warn("Could not load analyser messages:", error))
+      .finally(() => setIsLoadingInbox(false))
+  }, [])
+
+  const parsed = sources.map((source) => {
+    try {
+      return { source, matches: matchAnalyserResults(parseAnalyserMessage(source.raw), visits, labTests) }
+    } catch (error: any) {
+      return { source, matches: [] as AnalyserMatch[], error: error.message as string }
+    }
+  })
+  const ready = parsed.flatMap((p) => p.matches.filter((m) => !m.problem))
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files) return
+    const added = await Promise.all(
+      Array.from(files).map(async (file) => ({ key: `${file.name}-${file.lastModified}`, label: file.name, raw: await file.text() })),
+    )
+    setSources([...sources, ...added.filter((a) => !sources.some((s) => s.key === a.key))])
+  }
+
+  const handlePaste = () => {
+    if (!pasted.trim()) return
+    setSources([...sources, { key: `pasted-${Date.now()}`, label: "Pasted message", raw: pasted }])
+    setPasted("")
+  }
+
+  const handleDiscard = async (source: ImportSource) => {
+    if (source.messageId) {
+      try {
+        await db.markLabAnalyserMessages([source.messageId], "discarded", currentUser?.name)
+      } catch (error: any) {
+        actions.showToast(`Could not discard the message: ${error.message}`, "error")
+        return
+      }
+    }
+    setSources(sources.filter((s) => s.key !== source.key))
+  }
+
+  // One update per visit, so several results for the same patient do not overwrite each other
+  const handleStage = async () => {
+    const updated = new Map<string, Visit>()
+    for (const match of ready) {
+      const visit = updated.get(match.visit!.id) || match.visit!
+      updated.set(visit.id, {
+        ...visit,
+        labOrders: visit.labOrders.map((o) => (o.id === match.order!.id ? stageAnalyserResults(o, match, currentUser?.name) : o)),
+      })
+    }
+    updated.forEach((visit) => updateVisit(visit))
+
+    const doneMessages = parsed.filter((p) => p.source.messageId && p.matches.some((m) => !m.problem)).map((p) => p.source.messageId!)
+    try {
+      await db.markLabAnalyserMessages(doneMessages, "staged", currentUser?.name)
+    } catch (error) {
+      console.warn("Could not mark analyser messages as staged:", error)
+    }
+    actions.showToast(`Results staged for ${ready.length} test${ready.length === 1 ? "" : "s"}. Review and verify them before they go to the doctor.`, "success")
+    onClose()
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-in fade-in">
+      <div className="bg-white dark:bg-slate-800 w-full max-w-4xl rounded-2xl p-6 shadow-2xl animate-in zoom-in-95 flex flex-col max-h-[90vh]">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-bold text-slate-900 dark:text-white flex items-center gap-2">
+            <FileUp className="w-5 h-5 text-indigo-500" /> Import Analyser Results
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+          HL7 ORU^R01 and ASTM E1394 results are matched to orders by the accession number on the specimen label. Matched
+          results are staged on the order for you to accept and verify; nothing reaches the doctor until it is verified.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+          <label className="flex flex-col items-center justify-center gap-2 p-4 border-2 border-dashed border-slate-200 dark:border-slate-600 rounded-xl text-sm text-slate-500 cursor-pointer hover:border-indigo-400">
+            <FileUp className="w-5 h-5" />
+            Upload .hl7 / .astm / .txt files
+            <input type="file" multiple accept=".hl7,.oru,.astm,.txt" className="hidden" onChange={(e) => handleFiles(e.target.files)} />
+          </label>
+          <div className="flex flex-col gap-2">
+            <textarea
+              value={pasted}
+              onChange={(e) => setPasted(e.target.value)}
+              rows={3}
+              placeholder="Or paste a message"
+              className="w-full p-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-xl text-xs font-mono outline-none dark:text-white"
+            />
+            <button onClick={handlePaste} disabled={!pasted.trim()} className="self-end px-3 py-1.5 text-xs font-bold rounded-lg bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 disabled:opacity-50">
+              Add
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-3 mb-4">
+          {isLoadingInbox && <p className="text-xs text-slate-400 flex items-center gap-1"><Inbox className="w-3.5 h-3.5" /> Checking the analyser inbox...</p>}
+          {!isLoadingInbox && sources.length === 0 && (
+            <p className="text-sm text-slate-400 text-center py-8">No analyser messages waiting. Upload or paste one above.</p>
+          )}
+          {parsed.map(({ source, matches, error }) => (
+            <div key={source.key} className="p-3 bg-slate-50 dark:bg-slate-700/30 rounded-xl border border-slate-100 dark:border-slate-700">
+              <div className="flex justify-between items-center mb-2">
+                <span className="text-xs font-bold text-slate-600 dark:text-slate-300 flex items-center gap-1">
+                  {source.messageId && <Inbox className="w-3.5 h-3.5" />} {source.label}
+                </span>
+                <button onClick={() => handleDiscard(source)} className="p-1 text-slate-400 hover:text-red-500" title="Discard">
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              {error && <p className="text-xs text-red-600">{error}</p>}
+              {!error && matches.length === 0 && <p className="text-xs text-slate-400">No results in this message.</p>}
+              {matches.length > 0 && (
+                <table className="w-full text-xs">
+                  <tbody>
+                    {matches.map((match, i) => (
+                      <tr key={i} className="border-t border-slate-100 dark:border-slate-700">
+                        <td className="py-1.5 pr-2 font-mono">{match.order?.specimen?.accessionNumber || match.set.specimenIds[0] || "--"}</td>
+                        <td className="py-1.5 pr-2 text-slate-700 dark:text-slate-200">{match.visit?.patientName}</td>
+                        <td className="py-1.5 pr-2 text-slate-700 dark:text-slate-200">{match.order?.testName}</td>
+                        <td className="py-1.5 pr-2 text-slate-500">
+                          {Object.entries(match.values).map(([code, value]) => `${code} ${value}`).join(", ")}
+                          {match.unmatchedCodes.length > 0 && (
+                            <span className="block text-amber-600">Not in test: {match.unmatchedCodes.join(", ")}</span>
+                          )}
+                        </td>
+                        <td className="py-1.5 text-right whitespace-nowrap">
+                          {match.problem ? (
+                            <span className="text-red-600">{match.problem}</span>
+                          ) : (
+                            <span className="text-green-600 font-bold flex items-center justify-end gap-1">
+                              <CheckCircle className="w-3.5 h-3.5" /> Ready
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-3">
+          <button onClick={onClose} className="flex-1 py-3 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 font-bold rounded-xl">
+            Cancel
+          </button>
+          <button
+            onClick={handleStage}
+            disabled={ready.length === 0}
+            className="flex-1 py-3 bg-indigo-600 text-white font-bold rounded-xl hover:bg-indigo-700 disabled:opacity-50"
+          >
+            Stage {ready.length} Result{ready.length === 1 ? "" : "s"} for Review
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default LabResultImport
@@ -0,0 +1,319 @@
+import React, { useState } from 'react';
+import useStore from '../store'
+import { LabAnalyte, LabReferenceRange, LabTestCategory, LabTestProfile } from '../types';
+import { FlaskConical, Pencil, Plus, Save, Trash2, X } from 'lucide-react';
+import { canCurrentUser } from '../lib/roleMapper'
+import { STARTER_LAB_TESTS, getLabTestErrors } from '../lib/labResults'
+import { DEFAULT_SPECIMEN_TYPE, DEFAULT_TURNAROUND_MINUTES } from '../lib/labSpecimens'
+
+const CATEGORIES: LabTestCategory[] = ['Hematology', 'Biochemistry', 'Microbiology', 'Parasitology', 'Serology', 'Urinalysis', 'Radiology'];
+
+const RANGE_FIELDS: { key: keyof LabReferenceRange; label: string }[] = [
+    { key: 'minAgeMonths', label: 'From (mo)' },
+    { key: 'maxAgeMonths', label: 'To (mo)' },
+    { key: 'low', label: 'Low' },
+    { key: 'high', label: 'High' },
+    { key: 'criticalLow', label: 'Crit. low' },
+    { key: 'criticalHigh', label: 'Crit. high' },
+];
+
+const inputClass = 'w-full p-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg text-sm outline-none dark:text-white';
+
+const emptyTest = (): LabTestProfile => ({ id: '', name: '', price: 0, category: 'Hematology', analytes: [] });
+const emptyAnalyte = (): LabAnalyte => ({ code: '', name: '', unit: '', type: 'numeric', ranges: [{}] });
+
+const splitList = (text: string) => text.split(',').map(s => s.trim()).filter(Boolean);
+const toNumber = (raw: string) => (raw.trim() === '' || isNaN(parseFloat(raw)) ? undefined : parseFloat(raw));
+
+// Lab test catalogue with analytes and reference ranges; the starter set is offered until the clinic saves its own
+const LabTestSettings: React.FC = () => {
+    const { labTests, actions } = useStore();
+    const canEdit = canCurrentUser('settings.edit');
+    const [draft, setDraft] = useState<LabTestProfile | null>(null);
+
+    const denyEdit = () => {
+        try { useStore.getState().actions.showToast('You do not have permission to change lab tests.', 'error') } catch (e) { alert('You do not have permission to change lab tests.') }
+    };
+
+    const startDraft = (test: LabTestProfile) => {
+        if (!canEdit) return denyEdit();
+        // Starters are copied into the clinic rather than edited in place
+        setDraft(test.builtIn ? { ...test, id: '', builtIn: undefined } : { ...test, analytes: test.analytes || [] });
+    };
+
+    const updateAnalyte = (index: number, patch: Partial<LabAnalyte>) => {
+        if (!draft) return;
+        const analytes = [...(draft.analytes || [])];
+        analytes[index] = { ...analytes[index], ...patch };
+        setDraft({ ...draft, analytes });
+    };
+
+    const updateRange = (analyteIndex: number, rangeIndex: number, patch: Partial<LabReferenceRange>) => {
+        const ranges = [...(draft?.analytes?.[analyteIndex].ranges || [])];
+        ranges[rangeIndex] = { ...ranges[rangeIndex], ...patch };
+        updateAnalyte(analyteIndex, { ranges });
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!canEdit) return denyEdit();
+        if (!draft || !draft.name.trim()) return;
+        if (labTests.some(t => t.id !== draft.id && t.name.toLowerCase() === draft.name.trim().toLowerCase())) {
+            actions.showToast(`A test named ${draft.name.trim()} already exists.`, 'error');
+            return;
+        }
+        // Empty range rows are dropped; an analyte with no range is recorded without flags
+        const test: LabTestProfile = {
+            ...draft,
+            name: draft.name.trim(),
+            code: draft.code?.trim().toUpperCase() || undefined,
+            specimenType: draft.specimenType?.trim() || undefined,
+            turnaroundMinutes: draft.turnaroundMinutes && draft.turnaroundMinutes > 0 ? Math.round(draft.turnaroundMinutes) : undefined,
+            analytes: (draft.analytes || []).map(a => ({
+                ...a,
+                code: a.code.trim().toUpperCase(),
+                name: a.name.trim(),
+                analyserCodes: a.analyserCodes?.length ? a.analyserCodes : undefined,
+                ranges: a.type === 'option' ? [] : a.ranges.filter(r => Object.values(r).some(v => v !== undefined)),
+            })),
+        };
+        const errors = getLabTestErrors(test);
+        if (errors.length > 0) {
+            actions.showToast(errors[0], 'error');
+            return;
+        }
+        if (await actions.saveLabTest(test)) setDraft(null);
+    };
+
+    return (
+        <div className="bg-white dark:bg-slate-800 p-4 md:p-6 rounded-3xl shadow-sm border border-slate-100 dark:border-slate-700">
+            <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-2 flex items-center gap-2">
+                <FlaskConical className="w-5 h-5 text-indigo-500" /> Lab Tests
+            </h3>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mb-6">
+                Results are entered per analyte and flagged against the first reference range that matches the patient's sex and age, so list child and sex-specific ranges before the general one. Values at or beyond a critical limit alert the ordering doctor. The specimen type is printed on the collection label, and the lab worklist flags orders not verified within the turnaround time. Until you save a test, the starter set below is used.
+            </p>
+
+            <div className="space-y-2 mb-4">
+                {labTests.map(test => (
+                    <div key={test.id} className="flex items-center justify-between p-3 bg-slate-50 dark:bg-slate-700/30 rounded-xl">
+                        <span className="text-sm">
+                            <span className="font-semibold text-slate-900 dark:text-white">{test.name}</span>
+                            <span className="text-xs text-slate-400 ml-2">{test.category} · KSh {test.price} · {test.analytes?.length || 0} analytes{test.turnaroundMinutes ? ` · ${test.turnaroundMinutes} min` : ''}</span>
+                        </span>
+                        <div className="flex items-center gap-1">
+                            <button onClick={() => startDraft(test)} className="p-1.5 text-slate-400 hover:text-teal-600" title="Edit">
+                                <Pencil className="w-4 h-4" />
+                            </button>
+                            <button
+                                onClick={() => canEdit ? actions.deleteLabTest(test.id) : denyEdit()}
+                                className="p-1.5 text-slate-400 hover:text-red-500"
+                                title="Delete"
+                            >
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                        </div>
+                    </div>
+                ))}
+                {labTests.length === 0 && STARTER_LAB_TESTS.map(test => (
+                    <div key={test.id} className="flex items-center justify-between p-3 bg-slate-50 dark:bg-slate-700/30 rounded-xl">
+                        <span className="text-sm text-slate-700 dark:text-slate-300">
+                            {test.name} <span className="text-xs text-slate-400">(starter)</span>
+                        </span>
+                        <button onClick={() => startDraft(test)} className="text-xs font-bold text-teal-600 hover:text-teal-700">
+                            Customise
+                        </button>
+                    </div>
+                ))}
+            </div>
+
+            {draft ? (
+                <form onSubmit={handleSave} className="space-y-4 p-4 bg-slate-50 dark:bg-slate-700/30 rounded-2xl">
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                        <div className="col-span-2">
+                            <label className="text-xs font-bold text-slate-500 uppercase">Test Name</label>
+                            <input required value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} placeholder="e.g. Full Blood Count" className={inputClass} />
+                        </div>
+                        <div>
+                            <label className="text-xs font-bold text-slate-500 uppercase">Code</label>
+                            <input value={draft.code || ''} onChange={e => setDraft({ ...draft, code: e.target.value })} placeholder="FBC" className={inputClass} />
+                        </div>
+                        <div>
+                            <label className="text-xs font-bold text-slate-500 uppercase">Price (KSh)</label>
+                            <input type="number" min="0" value={draft.price} onChange={e => setDraft({ ...draft, price: Number(e.target.value) || 0 })} className={inputClass} />
+                        </div>
+                        <div className="col-span-2">
+                            <label className="text-xs font-bold text-slate-500 uppercase">Category</label>
+                            <select value={draft.category} onChange={e => setDraft({ ...draft, category: e.target.value as LabTestCategory })} className={inputClass}>
+                                {CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="text-xs font-bold text-slate-500 uppercase">Specimen</label>
+                            <input value={draft.specimenType || ''} onChange={e => setDraft({ ...draft, specimenType: e.target.value })} placeholder={DEFAULT_SPECIMEN_TYPE} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className="text-xs font-bold text-slate-500 uppercase">Turnaround (min)</label>
+                            <input type="number" min="1" value={draft.turnaroundMinutes ?? ''} onChange={e => setDraft({ ...draft, turnaroundMinutes: toNumber(e.target.value) })} placeholder={String(DEFAULT_TURNAROUND_MINUTES)} className={inputClass} />
+                        </div>
+                    </div>
+
+                    {(draft.analytes || []).map((analyte, i) => (
+                        // Keyed on the count too so the uncontrolled choice inputs reset when an analyte is removed
+                        <div key={`${i}-${(draft.analytes || []).length}`} className="p-3 bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-600 space-y-3">
+                            <div className="grid grid-cols-2 md:grid-cols-5 gap-2 items-end">
+                                <div>
+                                    <label className="text-[10px] font-bold text-slate-500 uppercase">Code</label>
+                                    <input value={analyte.code} onChange={e => updateAnalyte(i, { code: e.target.value })} placeholder="HGB" className={inputClass} />
+                                </div>
+                                <div className="md:col-span-2">
+                                    <label className="text-[10px] font-bold text-slate-500 uppercase">Analyte</label>
+                                    <input value={analyte.name} onChange={e => updateAnalyte(i, { name: e.target.value })} placeholder="Haemoglobin" className={inputClass} />
+                                </div>
+                                <div>
+                                    <label className="text-[10px] font-bold text-slate-500 uppercase">Result Type</label>
+                                    <select value={analyte.type} onChange={e => updateAnalyte(i, { type: e.target.value as LabAnalyte['type'] })} className={inputClass}>
+                                        <option value="numeric">Number</option>
+                                        <option value="option">Choice</option>
+                                    </select>
+                                </div>
+                                <div className="flex gap-2 items-end">
+                                    {analyte.type === 'numeric' && (
+                                        <div className="flex-1">
+                                            <label className="text-[10px] font-bold text-slate-500 uppercase">Unit</label>
+                                            <input value={analyte.unit} onChange={e => updateAnalyte(i, { unit: e.target.value })} placeholder="g/dL" className={inputClass} />
+                                        </div>
+                                    )}
+                                    <button
+                                        type="button"
+                                        onClick={() => setDraft({ ...draft, analytes: (draft.analytes || []).filter((_, j) => j !== i) })}
+                                        className="p-2 text-slate-400 hover:text-red-500 ml-auto"
+                                        title="Remove analyte"
+                                    >
+                                        <Trash2 className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            </div>
+
+                            <div>
+                                <label className="text-[10px] font-bold text-slate-500 uppercase">Analyser Codes (comma separated, if not the code above)</label>
+                                <input
+                                    defaultValue={(analyte.analyserCodes || []).join(', ')}
+                                    onBlur={e => updateAnalyte(i, { analyserCodes: splitList(e.target.value) })}
+                                    placeholder="e.g. HGB, 718-7"
+                                    className={inputClass}
+                                />
+                            </div>
+
+                            {analyte.type === 'option' ? (
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                                    <div>
+                                        <label className="text-[10px] font-bold text-slate-500 uppercase">Choices (comma separated)</label>
+                                        <input
+                                            defaultValue={(analyte.options || []).join(', ')}
+                                            onBlur={e => updateAnalyte(i, { options: splitList(e.target.value) })}
+                                            placeholder="Negative, Positive"
+                                            className={inputClass}
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="text-[10px] font-bold text-slate-500 uppercase">Normal Choices</label>
+                                        <input
+                                            defaultValue={(analyte.normalOptions || []).join(', ')}
+                                            onBlur={e => updateAnalyte(i, { normalOptions: splitList(e.target.value) })}
+                                            placeholder="Negative"
+                                            className={inputClass}
+                                        />
+                                    </div>
+                                </div>
+                            ) : (
+                                <div className="overflow-x-auto">
+                                    <table className="w-full text-xs">
+                                        <thead>
+                                            <tr className="text-left text-[10px] font-bold text-slate-400 uppercase">
+                                                <th className="pb-1 pr-1">Sex</th>
+                                                {RANGE_FIELDS.map(f => <th key={f.key} className="pb-1 pr-1">{f.label}</th>)}
+                                                <th></th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {analyte.ranges.map((range, r) => (
+                                                <tr key={r}>
+                                                    <td className="pr-1 py-1 w-24">
+                                                        <select
+                                                            value={range.sex || ''}
+                                                            onChange={e => updateRange(i, r, { sex: (e.target.value || undefined) as LabReferenceRange['sex'] })}
+                                                            className={inputClass}
+                                                        >
+                                                            <option value="">Any</option>
+                                                            <option value="male">Male</option>
+                                                            <option value="female">Female</option>
+                                                        </select>
+                                                    </td>
+                                                    {RANGE_FIELDS.map(f => (
+                                                        <td key={f.key} className="pr-1 py-1 min-w-[70px]">
+                                                            <input
+                                                                type="number"
+                                                                step="any"
+                                                                value={(range[f.key] as number | undefined) ?? ''}
+                                                                onChange={e => updateRange(i, r, { [f.key]: toNumber(e.target.value) })}
+                                                                className={inputClass}
+                                                            />
+                                                        </td>
+                                                    ))}
+                                                    <td className="py-1">
+                                                        <button
+                                                            type="button"
+                                                            onClick={() => updateAnalyte(i, { ranges: analyte.ranges.filter((_, j) => j !== r) })}
+                                                            className="p-1.5 text-slate-400 hover:text-red-500"
+                                                            title="Remove range"
+                                                        >
+                                                            <X className="w-3.5 h-3.5" />
+                                                        </button>
+                                                    </td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                    <button
+                                        type="button"
+                                        onClick={() => updateAnalyte(i, { ranges: [...analyte.ranges, {}] })}
+                                        className="mt-1 text-xs font-bold text-teal-600 hover:text-teal-700"
+                                    >
+                                        + Add range
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                    ))}
+
+                    <button
+                        type="button"
+                        onClick={() => setDraft({ ...draft, analytes: [...(draft.analytes || []), emptyAnalyte()] })}
+                        className="text-sm font-bold text-teal-600 hover:text-teal-700 flex items-center gap-1"
+                    >
+                        <Plus className="w-4 h-4" /> Add Analyte
+                    </button>
+
+                    <div className="flex justify-end gap-2">
+                        <button type="button" onClick={() => setDraft(null)} className="px-4 py-2 text-sm font-medium text-slate-600 dark:text-slate-300 rounded-xl hover:bg-slate-100 dark:hover:bg-slate-700">
+                            Cancel
+                        </button>
+                        <button type="submit" className="px-4 py-2 bg-teal-600 text-white font-bold rounded-xl hover:bg-teal-700 flex items-center gap-2 text-sm">
+                            <Save className="w-4 h-4" /> Save Test
+                        </button>
+                    </div>
+                </form>
+            ) : (
+                <button
+                    onClick={() => startDraft(emptyTest())}
+                    className="px-4 py-3 bg-teal-600 text-white font-bold rounded-xl hover:bg-teal-700 flex items-center justify-center gap-2 text-sm"
+                >
+                    <Plus className="w-4 h-4" /> New Test
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default LabTestSettings;
@@ -0,0 +1,318 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import type { LabOrder, LabSpecimenStatus, LabTestProfile, Patient, Visit } from "../types"
+import { AlertTriangle, ArrowRight, Barcode, Clock, Cpu, FileUp, Printer, Search, X } from "lucide-react"
+import useStore from "../store"
+import { resolveLabTest } from "../lib/labResults"
+import {
+  SPECIMEN_REJECTION_REASONS,
+  SPECIMEN_STATUS_LABELS,
+  canEnterResults,
+  canMoveSpecimen,
+  collectSpecimen,
+  formatMinutes,
+  getTurnaround,
+  moveSpecimen,
+} from "../lib/labSpecimens"
+import { db } from "../services/db"
+import { documentGenerator } from "../services/documentService"
+import LabResultImport from "./LabResultImport"
+
+interface LabWorklistProps {
+  visits: Visit[]
+  patients: Patient[]
+  labTests: LabTestProfile[]
+  updateVisit: (visit: Visit) => void
+  onOpenVisit: (visit: Visit) => void
+}
+
+type WorklistStatus = "to-collect" | LabSpecimenStatus
+type WorklistFilter = "all" | WorklistStatus
+
+const FILTERS: { id: WorklistFilter; label: string }[] = [
+  { id: "all", label: "All" },
+  { id: "to-collect", label: "To Collect" },
+  ...(Object.keys(SPECIMEN_STATUS_LABELS) as LabSpecimenStatus[]).map((id) => ({ id, label: SPECIMEN_STATUS_LABELS[id] })),
+]
+
+const STATUS_CLASSES: Record<WorklistStatus, string> = {
+  "to-collect": "bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300",
+  collected: "bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300",
+  received: "bg-indigo-50 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-300",
+  "in-process": "bg-amber-50 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300",
+  verified: "bg-green-50 text-green-700 dark:bg-green-900/30 dark:text-green-400",
+  rejected: "bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-300",
+}
+
+const PRIORITY_RANK = { Emergency: 3, Urgent: 2, Normal: 1 }
+
+// One row per lab order in the Lab stage, from specimen collection to verified result
+const LabWorklist: React.FC<LabWorklistProps> = ({ visits, patients, labTests, updateVisit, onOpenVisit }) => {
+  const { currentUser, actions } = useStore()
+  const [filter, setFilter] = useState<WorklistFilter>("all")
+  const [breachedOnly, setBreachedOnly] = useState(false)
+  const [search, setSearch] = useState("")
+  const [rejecting, setRejecting] = useState<{ orderId: string; reason: string; note: string } | null>(null)
+  const [showImport, setShowImport] = useState(false)
+
+  const rows = visits
+    .filter((v) => v.stage === "Lab")
+    .flatMap((visit) =>
+      visit.labOrders.map((order) => {
+        const test = resolveLabTest(labTests.find((t) => t.id === order.testId))
+        return { visit, order, test, status: (order.specimen?.status || "to-collect") as WorklistStatus, turnaround: getTurnaround(order, test) }
+      }),
+    )
+    .sort(
+      (a, b) =>
+        Number(b.turnaround.breached) - Number(a.turnaround.breached) ||
+        PRIORITY_RANK[b.visit.priority] - PRIORITY_RANK[a.visit.priority] ||
+        new Date(a.order.orderedAt).getTime() - new Date(b.order.orderedAt).getTime(),
+    )
+
+  const term = search.trim().toLowerCase()
+  const shown = rows.filter(
+    (row) =>
+      (filter === "all" || row.status === filter) &&
+      (!breachedOnly || row.turnaround.breached) &&
+      (!term ||
+        row.visit.patientName.toLowerCase().includes(term) ||
+        row.order.testName.toLowerCase().includes(term) ||
+        !!row.order.specimen?.accessionNumber.toLowerCase().includes(term)),
+  )
+  const breachedCount = rows.filter((row) => row.turnaround.breached).length
+
+  const saveOrder = (visit: Visit, order: LabOrder) =>
+    updateVisit({ ...visit, labOrders: visit.labOrders.map((o) => (o.id === order.id ? order : o)) })
+
+  const printLabel = async (visit: Visit, order: LabOrder) => {
+    const patient = patients.find((p) => p.id === visit.patientId)
+    if (!patient || !order.specimen) return
+    const html = await documentGenerator.generateSpecimenLabelPdf(visit, patient, [order])
+    documentGenerator.printDocument(html, `Label ${order.specimen.accessionNumber}`)
+  }
+
+  // Any failure here is a workflow rule (wrong status, missing results), so it is shown as is
+  const apply = (change: () => LabOrder, visit: Visit) => {
+    try {
+      const order = change()
+      saveOrder(visit, order)
+      return order
+    } catch (error: any) {
+      actions.showToast(error.message, "error")
+      return null
+    }
+  }
+
+  const handleCollect = async (visit: Visit, order: LabOrder, test?: LabTestProfile) => {
+    let accessionNumber: string
+    try {
+      accessionNumber = await db.issueLabAccessionNumber(visit.id, order.id)
+    } catch (error: any) {
+      actions.showToast(error.message || "Could not issue an accession number", "error")
+      return
+    }
+    const collected = apply(() => collectSpecimen(order, test, accessionNumber, currentUser?.name), visit)
+    if (collected) printLabel(visit, collected)
+  }
+
+  const handleReject = (visit: Visit, order: LabOrder) => {
+    if (!rejecting) return
+    const reason = rejecting.reason === "Other" ? rejecting.note : [rejecting.reason, rejecting.note.trim()].filter(Boolean).join(": ")
+    if (apply(() => moveSpecimen(order, "rejected", currentUser?.name, reason), visit)) {
+      actions.showToast(`${order.testName} specimen rejected. Recollect from ${visit.patientName}.`, "info")
+      setRejecting(null)
+    }
+  }
+
+  const actionButton = "px-2.5 py-1.5 rounded-lg text-xs font-bold flex items-center gap-1 whitespace-nowrap"
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col lg:flex-row lg:items-center gap-3">
+        <div className="flex flex-wrap gap-2">
+          {FILTERS.map((f) => {
+            const count = f.id === "all" ? rows.length : rows.filter((row) => row.status === f.id).length
+            return (
+              <button
+                key={f.id}
+                onClick={() => setFilter(f.id)}
+                className={`px-3 py-1.5 rounded-full text-xs font-bold transition-colors ${filter === f.id ? "bg-slate-900 text-white dark:bg-white dark:text-slate-900" : "bg-white dark:bg-slate-800 text-slate-500 dark:text-slate-400"}`}
+              >
+                {f.label} <span className="opacity-60">{count}</span>
+              </button>
+            )
+          })}
+          <button
+            onClick={() => setBreachedOnly(!breachedOnly)}
+            className={`px-3 py-1.5 rounded-full text-xs font-bold flex items-center gap-1 transition-colors ${breachedOnly ? "bg-red-600 text-white" : "bg-white dark:bg-slate-800 text-red-600"}`}
+          >
+            <Clock className="w-3 h-3" /> Overdue <span className="opacity-60">{breachedCount}</span>
+          </button>
+        </div>
+        <button
+          onClick={() => setShowImport(true)}
+          className="lg:ml-auto px-3 py-2 rounded-xl text-xs font-bold bg-indigo-600 text-white flex items-center justify-center gap-1 whitespace-nowrap"
+        >
+          <FileUp className="w-3.5 h-3.5" /> Import Results
+        </button>
+        <div className="relative lg:w-72">
+          <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Scan label or search patient / test"
+            className="w-full pl-9 pr-3 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl text-sm outline-none dark:text-white"
+          />
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-slate-800 rounded-2xl border border-slate-200 dark:border-slate-700 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-[10px] font-bold text-slate-400 uppercase border-b border-slate-100 dark:border-slate-700">
+              <th className="p-3">Accession</th>
+              <th className="p-3">Patient</th>
+              <th className="p-3">Test</th>
+              <th className="p-3">Status</th>
+              <th className="p-3">Turnaround</th>
+              <th className="p-3 text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {shown.map(({ visit, order, test, status, turnaround }) => {
+              const specimen = order.specimen
+              return (
+                <tr key={`${visit.id}-${order.id}`} className="border-t border-slate-100 dark:border-slate-700 align-top">
+                  <td className="p-3 font-mono text-xs text-slate-700 dark:text-slate-200">
+                    {specimen?.accessionNumber || "--"}
+                    <div className="font-sans text-[10px] text-slate-400">{specimen?.specimenType || test?.specimenType}</div>
+                  </td>
+                  <td className="p-3">
+                    <div className="font-bold text-slate-900 dark:text-white flex items-center gap-1">
+                      {visit.priority === "Emergency" && <AlertTriangle className="w-3 h-3 text-red-500" />}
+                      {visit.patientName}
+                    </div>
+                    <div className="text-[10px] text-slate-400">{visit.patientId}</div>
+                  </td>
+                  <td className="p-3">
+                    <div className="font-medium text-slate-700 dark:text-slate-200">{order.testName}</div>
+                    {order.orderedByName && <div className="text-[10px] text-slate-400">by {order.orderedByName}</div>}
+                  </td>
+                  <td className="p-3">
+                    <span className={`text-[10px] font-bold px-2 py-0.5 rounded ${STATUS_CLASSES[status]}`}>
+                      {status === "to-collect" ? "To Collect" : SPECIMEN_STATUS_LABELS[status]}
+                    </span>
+                    {specimen?.status === "rejected" && (
+                      <div className="text-[10px] text-red-600 mt-1">{specimen.rejectionReason}</div>
+                    )}
+                    {order.stagedImport && (
+                      <div className="text-[10px] text-indigo-600 font-bold mt-1 flex items-center gap-1">
+                        <Cpu className="w-3 h-3" /> Analyser results to review
+                      </div>
+                    )}
+                  </td>
+                  <td className={`p-3 text-xs font-mono ${turnaround.breached ? "text-red-600 font-bold" : "text-slate-500"}`}>
+                    {formatMinutes(turnaround.elapsedMinutes)} / {formatMinutes(turnaround.targetMinutes)}
+                  </td>
+                  <td className="p-3">
+                    {rejecting?.orderId === order.id ? (
+                      <div className="flex flex-col gap-2 min-w-[220px]">
+                        <select
+                          value={rejecting.reason}
+                          onChange={(e) => setRejecting({ ...rejecting, reason: e.target.value })}
+                          className="p-1.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg text-xs outline-none dark:text-white"
+                        >
+                          <option value="">Reason...</option>
+                          {SPECIMEN_REJECTION_REASONS.map((r) => (
+                            <option key={r} value={r}>
+                              {r}
+                            </option>
+                          ))}
+                        </select>
+                        <input
+                          value={rejecting.note}
+                          onChange={(e) => setRejecting({ ...rejecting, note: e.target.value })}
+                          placeholder={rejecting.reason === "Other" ? "Describe the problem" : "Note (optional)"}
+                          className="p-1.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg text-xs outline-none dark:text-white"
+                        />
+                        <div className="flex gap-2 justify-end">
+                          <button onClick={() => setRejecting(null)} className={`${actionButton} bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300`}>
+                            <X className="w-3 h-3" /> Cancel
+                          </button>
+                          <button
+                            onClick={() => handleReject(visit, order)}
+                            disabled={!rejecting.reason}
+                            className={`${actionButton} bg-red-600 text-white disabled:opacity-50`}
+                          >
+                            Reject
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="flex flex-wrap gap-2 justify-end">
+                        {(!specimen || specimen.status === "rejected") && (
+                          <button onClick={() => handleCollect(visit, order, test)} className={`${actionButton} bg-slate-900 text-white dark:bg-white dark:text-slate-900`}>
+                            <Barcode className="w-3.5 h-3.5" /> {specimen ? "Recollect" : "Collect"}
+                          </button>
+                        )}
+                        {canMoveSpecimen(specimen, "received") && (
+                          <button onClick={() => apply(() => moveSpecimen(order, "received", currentUser?.name), visit)} className={`${actionButton} bg-indigo-600 text-white`}>
+                            Receive
+                          </button>
+                        )}
+                        {canMoveSpecimen(specimen, "in-process") && (
+                          <button onClick={() => apply(() => moveSpecimen(order, "in-process", currentUser?.name), visit)} className={`${actionButton} bg-amber-500 text-white`}>
+                            Start
+                          </button>
+                        )}
+                        {canEnterResults(order) && (
+                          <button onClick={() => onOpenVisit(visit)} className={`${actionButton} bg-teal-600 text-white`}>
+                            Results <ArrowRight className="w-3 h-3" />
+                          </button>
+                        )}
+                        {canMoveSpecimen(specimen, "rejected") && (
+                          <button
+                            onClick={() => setRejecting({ orderId: order.id, reason: "", note: "" })}
+                            className={`${actionButton} bg-white dark:bg-slate-800 border border-red-200 dark:border-red-900 text-red-600`}
+                          >
+                            Reject
+                          </button>
+                        )}
+                        {specimen && specimen.status !== "rejected" && (
+                          <button onClick={() => printLabel(visit, order)} className={`${actionButton} bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300`} title="Reprint label">
+                            <Printer className="w-3.5 h-3.5" />
+                          </button>
+                        )}
+                        {specimen?.status === "verified" && (
+                          <button onClick={() => onOpenVisit(visit)} className={`${actionButton} bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300`}>
+                            View <ArrowRight className="w-3 h-3" />
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+
+        {shown.length === 0 && (
+          <div className="py-16 text-center text-slate-400">
+            <p className="font-bold">No lab orders</p>
+            <p className="text-sm opacity-70">{rows.length === 0 ? "No patients are waiting in the lab" : "Nothing matches these filters"}</p>
+          </div>
+        )}
+      </div>
+
+      {showImport && (
+        <LabResultImport visits={visits} labTests={labTests} updateVisit={updateVisit} onClose={() => setShowImport(false)} />
+      )}
+    </div>
+  )
+}
+
+export default LabWorklist
@@ -0,0 +1,134 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import type { PrescriptionItem } from "../types"
+import { AlertTriangle, ShieldAlert, ShieldCheck, X } from "lucide-react"
+import type { MedicationAlert, MedicationAlertKind } from "../lib/medicationSafety"
+import { OVERRIDE_REASONS, isOverridden } from "../lib/medicationSafety"
+
+const KIND_LABELS: Record<MedicationAlertKind, string> = {
+  allergy: "Allergy",
+  duplicate: "Duplicate",
+  interaction: "Interaction",
+  dose: "Dose",
+}
+
+interface MedicationAlertListProps {
+  item: PrescriptionItem
+  alerts: MedicationAlert[]
+  onOverride: () => void
+}
+
+// Safety alerts under a prescription item: blocks in red until overridden, warnings in amber
+const MedicationAlertList: React.FC<MedicationAlertListProps> = ({ item, alerts, onOverride }) => {
+  if (alerts.length === 0) return null
+  const hasOpenBlocks = alerts.some((a) => a.severity === "block" && !isOverridden(item, a))
+
+  return (
+    <div className="mt-2 space-y-1">
+      {alerts.map((alert) => {
+        const overridden = isOverridden(item, alert)
+        return (
+          <p
+            key={alert.key}
+            className={`text-[11px] leading-snug flex items-start gap-1 ${
+              alert.severity === "block" && !overridden ? "text-red-600 dark:text-red-400" : "text-amber-600 dark:text-amber-400"
+            }`}
+          >
+            {alert.severity === "block" ? <ShieldAlert className="w-3 h-3 mt-0.5 shrink-0" /> : <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />}
+            <span>
+              <span className="font-bold">{KIND_LABELS[alert.kind]}:</span> {alert.message}
+              {overridden && <span className="text-slate-500"> (overridden)</span>}
+            </span>
+          </p>
+        )
+      })}
+      {item.safetyOverrides?.map((override, i) => (
+        <p key={i} className="text-[11px] text-slate-500 flex items-start gap-1">
+          <ShieldCheck className="w-3 h-3 mt-0.5 shrink-0" />
+          <span>
+            Overridden by {override.byName || "staff"}: {override.reason}
+          </span>
+        </p>
+      ))}
+      {hasOpenBlocks && (
+        <button onClick={onOverride} className="text-[11px] font-bold text-red-600 hover:underline">
+          Review alert
+        </button>
+      )}
+    </div>
+  )
+}
+
+interface MedicationOverrideDialogProps {
+  item: PrescriptionItem
+  alerts: MedicationAlert[] // The blocking alerts being overridden
+  onOverride: (reason: string) => void
+  onRemove: () => void
+  onClose: () => void
+}
+
+// Asks the prescriber to drop the drug or go ahead with a recorded reason
+export const MedicationOverrideDialog: React.FC<MedicationOverrideDialogProps> = ({ item, alerts, onOverride, onRemove, onClose }) => {
+  const [reason, setReason] = useState("")
+  const [note, setNote] = useState("")
+  const fullReason = reason === "Other" ? note.trim() : [reason, note.trim()].filter(Boolean).join(": ")
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-slate-900/60 animate-in fade-in">
+      <div className="bg-white dark:bg-slate-800 w-full max-w-md rounded-2xl p-6 shadow-2xl animate-in zoom-in-95">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-bold text-red-600 flex items-center gap-2">
+            <ShieldAlert className="w-5 h-5" /> Medication Safety Alert
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-sm font-bold text-slate-800 dark:text-white mb-2">{item.name}</p>
+        <ul className="space-y-2 mb-4">
+          {alerts.map((alert) => (
+            <li key={alert.key} className="text-sm p-2 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-lg">
+              <span className="font-bold">{KIND_LABELS[alert.kind]}:</span> {alert.message}
+            </li>
+          ))}
+        </ul>
+        <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Reason to prescribe anyway</label>
+        <select
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          className="w-full p-2 mb-2 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg text-sm outline-none dark:text-white"
+        >
+          <option value="">Choose a reason</option>
+          {OVERRIDE_REASONS.map((r) => (
+            <option key={r} value={r}>
+              {r}
+            </option>
+          ))}
+        </select>
+        <input
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder={reason === "Other" ? "Describe the reason" : "Note (optional)"}
+          className="w-full p-2 mb-4 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg text-sm outline-none dark:text-white"
+        />
+        <div className="flex gap-3">
+          <button onClick={onRemove} className="flex-1 py-2.5 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 font-bold rounded-xl">
+            Remove {item.name}
+          </button>
+          <button
+            onClick={() => onOverride(fullReason)}
+            disabled={!fullReason}
+            className="flex-1 py-2.5 bg-red-600 text-white font-bold rounded-xl hover:bg-red-700 disabled:opacity-50"
+          >
+            Prescribe Anyway
+          </button>
+        </div>
+        <p className="text-[11px] text-slate-400 mt-3">Overrides are recorded on the prescription and in the audit log.</p>
+      </div>
+    </div>
+  )
+}
+
+export default MedicationAlertList
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import useStore from '../store'
+import { NoteTemplate } from '../types';
+import { FileText, Pencil, Plus, Save, Trash2 } from 'lucide-react';
+import { canCurrentUser } from '../lib/roleMapper'
+import { EMPTY_SOAP_NOTE, SOAP_SECTIONS, STARTER_NOTE_TEMPLATES } from '../lib/clinicalNotes'
+
+const emptyTemplate = (): NoteTemplate => ({ id: '', name: '', ...EMPTY_SOAP_NOTE });
+
+// Clinic SOAP note templates; the starter set is offered to doctors until the clinic saves its own
+const NoteTemplateSettings: React.FC = () => {
+    const { noteTemplates, actions } = useStore();
+    const canEdit = canCurrentUser('settings.edit');
+    const [draft, setDraft] = useState<NoteTemplate | null>(null);
+
+    const denyEdit = () => {
+        try { useStore.getState().actions.showToast('You do not have permission to change note templates.', 'error') } catch (e) { alert('You do not have permission to change note templates.') }
+    };
+
+    const startDraft = (template: NoteTemplate) => {
+        if (!canEdit) return denyEdit();
+        // Starters are copied into the clinic rather than edited in place
+        setDraft(template.builtIn ? { ...template, id: '', builtIn: undefined } : { ...template });
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!canEdit) return denyEdit();
+        if (!draft || !draft.name.trim()) return;
+        if (noteTemplates.some(t => t.id !== draft.id && t.name.toLowerCase() === draft.name.trim().toLowerCase())) {
+            actions.showToast(`A template named ${draft.name.trim()} already exists.`, 'error');
+            return;
+        }
+        if (await actions.saveNoteTemplate({ ...draft, name: draft.name.trim() })) setDraft(null);
+    };
+
+    return (
+        <div className="space-y-6 animate-in fade-in slide-in-from-right-4 duration-300">
+            <div className="bg-white dark:bg-slate-800 p-4 md:p-6 rounded-3xl shadow-sm border border-slate-100 dark:border-slate-700">
+                <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-2 flex items-center gap-2">
+                    <FileText className="w-5 h-5 text-teal-600" /> Note Templates
+                </h3>
+                <p className="text-sm text-slate-500 dark:text-slate-400 mb-6">
+                    Doctors insert these into the SOAP note during consultation. Until you save a template, the starter set below is offered.
+                </p>
+
+                <div className="space-y-2 mb-4">
+                    {noteTemplates.map(template => (
+                        <div key={template.id} className="flex items-center justify-between p-3 bg-slate-50 dark:bg-slate-700/30 rounded-xl">
+                            <span className="font-semibold text-sm text-slate-900 dark:text-white">{template.name}</span>
+                            <div className="flex items-center gap-1">
+                                <button onClick={() => startDraft(template)} className="p-1.5 text-slate-400 hover:text-teal-600" title="Edit">
+                                    <Pencil className="w-4 h-4" />
+                                </button>
+                                <button
+                                    onClick={() => canEdit ? actions.deleteNoteTemplate(template.id) : denyEdit()}
+                                    className="p-1.5 text-slate-400 hover:text-red-500"
+                                    title="Delete"
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                    {noteTemplates.length === 0 && STARTER_NOTE_TEMPLATES.map(template => (
+                        <div key={template.id} className="flex items-center justify-between p-3 bg-slate-50 dark:bg-slate-700/30 rounded-xl">
+                            <span className="text-sm text-slate-700 dark:text-slate-300">
+                                {template.name} <span className="text-xs text-slate-400">(starter)</span>
+                            </span>
+                            <button onClick={() => startDraft(template)} className="text-xs font-bold text-teal-600 hover:text-teal-700">
+                                Customise
+                            </button>
+                        </div>
+                    ))}
+                </div>
+
+                {draft ? (
+                    <form onSubmit={handleSave} className="space-y-3 p-4 bg-slate-50 dark:bg-slate-700/30 rounded-2xl">
+                        <input
+                            type="text"
+                            required
+                            value={draft.name}
+                            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                            placeholder="Template name, e.g. Diabetes review"
+                            className="w-full p-3 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-xl text-sm outline-none dark:text-white focus:ring-2 focus:ring-teal-500"
+                        />
+                        {SOAP_SECTIONS.map(section => (
+                            <div key={section.id}>
+                                <label className="text-xs font-bold text-slate-500 uppercase">{section.label}</label>
+                                <textarea
+                                    rows={3}
+                                    value={draft[section.id]}
+                                    onChange={(e) => setDraft({ ...draft, [section.id]: e.target.value })}
+                                    placeholder={section.placeholder}
+                                    className="w-full mt-1 p-3 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-xl text-sm outline-none dark:text-white"
+                                />
+                            </div>
+                        ))}
+                        <div className="flex justify-end gap-2">
+                            <button type="button" onClick={() => setDraft(null)} className="px-4 py-2 text-sm font-medium text-slate-600 dark:text-slate-300 rounded-xl hover:bg-slate-100 dark:hover:bg-slate-700">
+                                Cancel
+                            </button>
+                            <button type="submit" className="px-4 py-2 bg-teal-600 text-white font-bold rounded-xl hover:bg-teal-700 flex items-center gap-2 text-sm">
+                                <Save className="w-4 h-4" /> Save Template
+                            </button>
+                        </div>
+                    </form>
+                ) : (
+                    <button
+                        onClick={() => startDraft(emptyTemplate())}
+                        className="px-4 py-3 bg-teal-600 text-white font-bold rounded-xl hover:bg-teal-700 flex items-center justify-center gap-2 text-sm"
+                    >
+                        <Plus className="w-4 h-4" /> New Template
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default NoteTemplateSettings;
@@ -1,15 +1,17 @@
-import React, { useState, useMemo } from 'react';
-import { Patient, Gender, ClinicSettings } from '../types';
+import React, { useState, useMemo, useEffect } from 'react';
+import { Patient, Gender, ClinicSettings, PatientAttendance } from '../types';
 import { Search, Plus, Phone, FileText, Sparkles, X, Activity, MessageSquare, MoreHorizontal, Printer, Filter, Edit2, Save, User, Trash2, Send, Loader2, Eye, ChevronLeft, ChevronRight, Check, Upload, Download } from 'lucide-react';
 import { exportService } from '../services/exportService';
 import { analyzePatientNotes, draftAppointmentSms } from '../services/geminiService';
 import { sendSMS } from '../services/smsService';
 import BulkImportPatients from './BulkImportPatients';
+import VitalsTrends from './VitalsTrends';
 import useStore from '../store'
 import { hasPermission } from '../lib/permissions'
 import { canCurrentUser } from '../lib/roleMapper'
 import type { UserRole } from '../types/enterprise'
 import { getAvatarUrl } from '../lib/utils'
+import { db } from '../services/db'
 
 interface PatientListProps {
     patients: Patient[];
@@ -28,6 +30,15 @@ const PatientList: React.FC<PatientListProps> = ({ patients, addPatient, updateP
     const [searchTerm, setSearchTerm] = useState('');
     const [selectedPatient, setSelectedPatient] = useState<Patient | null>(null);
 
+    // No-show history, keyed by patient id
+    const [attendance, setAttendance] = useState<Record<string, PatientAttendance>>({});
+
+    useEffect(() => {
+        db.getPatientAttendance()
+            .then(setAttendance)
+            .catch((e) => console.error('getPatientAttendance error', e));
+    }, [patients]);
+
     // Pagination State
     const [currentPage, setCurrentPage] = useState(1);
     const itemsPerPage = 8;
@@ -68,6 +79,8 @@ const PatientList: React.FC<PatientListProps> = ({ patients, addPatient, updateP
         emergencyContactName: '',
         emergencyContactPhone: '',
         emergencyContactRel: '',
+        reminderOptOut: false,
+        dateOfBirth: '',
         vitals: { bp: '', heartRate: '', temp: '', weight: '' },
         history: [] as string[],
         lastVisit: ''
@@ -98,6 +111,26 @@ const PatientList: React.FC<PatientListProps> = ({ patients, addPatient, updateP
     const [sendingSms, setSendingSms] = useState(false);
     const [smsDraft, setSmsDraft] = useState('');
 
+    const renderNoShowRate = (stats?: PatientAttendance) => {
+        if (!stats || (stats.attended === 0 && stats.noShows === 0)) {
+            return <span className="text-xs text-slate-400">-</span>;
+        }
+        const title = `${stats.noShows} missed of ${stats.attended + stats.noShows} appointments (12 months)`;
+        if (stats.noShowRate === null) {
+            return <span className="text-xs text-slate-500 dark:text-slate-400" title={title}>{stats.noShows}/{stats.attended + stats.noShows}</span>;
+        }
+        const tone = stats.noShowRate >= 0.3
+            ? 'bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-300'
+            : stats.noShowRate > 0
+                ? 'bg-amber-50 dark:bg-amber-900/30 text-amber-600 dark:text-amber-300'
+                : 'bg-green-50 dark:bg-green-900/30 text-green-600 dark:text-green-300';
+        return (
+            <span className={`px-3 py-1 rounded-full text-xs font-semibold ${tone}`} title={title}>
+                {Math.round(stats.noShowRate * 100)}%
+            </span>
+        );
+    };
+
     // Enhanced Filter Logic
     const isPatientActive = (p: Patient) => {
         if (!p.lastVisit) return false;
@@ -190,6 +223,8 @@ const PatientList: React.FC<PatientListProps> = ({ patients, addPatient, updateP
             emergencyContactName: patient.emergencyContact?.name || '',
             emergencyContactPhone: patient.emergencyContact?.phone || '',
             emergencyContactRel: patient.emergencyContact?.relationship || '',
+            reminderOptOut: !!patient.reminderOptOut,
+            dateOfBirth: patient.dateOfBirth || '',
             vitals: {
                 bp: patient.vitals?.bp || '',
                 heartRate: patient.vitals?.heartRate || '',
@@ -230,7 +265,10 @@ const PatientList: React.FC<PatientListProps> = ({ patients, addPatient, updateP
             id: editFormData.id,
             name: editFormData.name,
             phone: editFormData.phone,
+            email: selectedPatient?.email,
+            reminderOptOut: editFormData.reminderOptOut,
             age: Number(editFormData.age),
+            dateOfBirth: editFormData.dateOfBirth || undefined,
             gender: editFormData.gender as Gender,
             lastVisit: editFormData.lastVisit,
             notes: editFormData.notes,
@@ -601,6 +639,9 @@ const PatientList: React.FC<PatientListProps> = ({ patients, addPatient, updateP
                                 </div>
                             </div>
 
+                            {/* Vitals Trend & Growth */}
+                            <VitalsTrends patient={patient} />
+
                             {/* Medical Information & Emergency Contact */}
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                                 <div className="bg-white dark:bg-slate-800 p-6 rounded-2xl border border-slate-100 dark:border-slate-700 shadow-sm">
@@ -834,6 +875,23 @@ const PatientList: React.FC<PatientListProps> = ({ patients, addPatient, updateP
                                             />
                                         </div>
                                     </div>
+                                    <div>
+                                        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Date of Birth</label>
+                                        <input
+                                            name="dateOfBirth"
+                                            type="date"
+                                            value={editFormData.dateOfBirth}
+                                            max={new Date().toISOString().split('T')[0]}
+                                            onChange={(e) => setEditFormData({
+                                                ...editFormData,
+                                                dateOfBirth: e.target.value,
+                                                // Age follows the date of birth so the two are saved together
+                                                age: e.target.value ? String(Math.floor((Date.now() - new Date(e.target.value).getTime()) / (1000 * 60 * 60 * 24 * 365))) : editFormData.age
+                                            })}
+                                            className="w-full p-2.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-teal-500 outline-none text-slate-900 dark:text-white text-sm"
+                                        />
+                                        <p className="text-xs text-slate-400 mt-1">Needed for children's growth charts.</p>
+                                    </div>
                                     <div>
                                         <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Gender</label>
                                         <select
@@ -924,6 +982,20 @@ const PatientList: React.FC<PatientListProps> = ({ patients, addPatient, updateP
                                                 />
                                             </div>
                                         </div>
+
+                                        <h4 className="text-xs font-bold text-slate-400 uppercase mt-4 mb-2">Communication</h4>
+                                        <label className="flex items-start gap-3 p-3 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg cursor-pointer">
+                                            <input
+                                                type="checkbox"
+                                                checked={!editFormData.reminderOptOut}
+                                                onChange={(e) => setEditFormData({ ...editFormData, reminderOptOut: !e.target.checked })}
+                                                className="mt-0.5 w-4 h-4 accent-teal-600"
+                                            />
+                                            <span>
+                                                <span className="block text-sm font-medium text-slate-700 dark:text-slate-300">Send appointment reminders</span>
+                                                <span className="block text-xs text-slate-500 dark:text-slate-400">Untick if the patient asked not to receive reminder SMS or emails.</span>
+                                            </span>
+                                        </label>
                                     </div>
 
                                     {/* Vitals Section */}
@@ -1368,6 +1440,7 @@ const PatientList: React.FC<PatientListProps> = ({ patients, addPatient, updateP
                                         <th className="px-6 py-4">Name</th>
                                         <th className="px-6 py-4">Age</th>
                                         <th className="px-6 py-4">Last Visit</th>
+                                        <th className="px-6 py-4">No-Shows</th>
                                         <th className="px-6 py-4">Status</th>
                                         <th className="px-6 py-4">Report</th>
                                         <th className="px-6 py-4 text-right">Action</th>
@@ -1398,6 +1471,9 @@ const PatientList: React.FC<PatientListProps> = ({ patients, addPatient, updateP
                                             <td className="px-6 py-4">
                                                 <div className="text-slate-900 dark:text-slate-200 font-medium">{patient.lastVisit}</div>
                                             </td>
+                                            <td className="px-6 py-4">
+                                                {renderNoShowRate(attendance[patient.id])}
+                                            </td>
                                             <td className="px-6 py-4">
                                                 <span className="bg-orange-50 dark:bg-orange-900/30 text-orange-600 dark:text-orange-300 px-3 py-1 rounded-full text-xs font-semibold">
                                                     Registered
@@ -1455,7 +1531,7 @@ const PatientList: React.FC<PatientListProps> = ({ patients, addPatient, updateP
                                         </tr>
                                     )) : (
                                         <tr>
-                                            <td colSpan={7} className="px-6 py-12 text-center text-slate-400">
+                                            <td colSpan={8} className="px-6 py-12 text-center text-slate-400">
                                                 No patients found matching your criteria.
                                             </td>
                                         </tr>
@@ -5,14 +5,15 @@ import { useState, useEffect } from "react"
 import type {
   Visit,
   Patient,
+  Appointment,
   VisitStage,
   InventoryItem,
   PrescriptionItem,
   VisitPriority,
   LabOrder,
   LabTestProfile,
+  RecurrenceRule,
 } from "../types"
-import { db } from "../services/db"
 import {
   Users,
   Activity,
@@ -31,15 +32,38 @@ import {
   LogOut,
   QrCode,
   Receipt,
+  CalendarPlus,
+  CalendarCheck,
+  Printer,
+  MessageSquare,
+  Mail,
 } from "lucide-react"
 import useStore from '../store'
 import { canCurrentUser } from '../lib/roleMapper'
+import { addDays, getProviders } from '../lib/scheduling'
+import RecurrenceFields from './RecurrenceFields'
+import SoapNoteEditor from './SoapNoteEditor'
+import DiagnosisCoder from './DiagnosisCoder'
+import VitalsEntry from './VitalsEntry'
+import VitalsTrends from './VitalsTrends'
+import LabResultEntry, { LabResultsSummary, StagedResultsReview } from './LabResultEntry'
+import LabWorklist from './LabWorklist'
+import { cleanVitals, formatBloodPressure, formatVitals, getVitalFlags, getVitalsErrors, hasVitals, patientAgeInMonths } from '../lib/vitals'
+import { STARTER_LAB_TESTS, getCriticalResults, getUnacknowledgedCriticals, hasCriticalResults, resolveLabTest, summarizeLabResults } from '../lib/labResults'
+import { SPECIMEN_STATUS_LABELS, canEnterResults, canMoveSpecimen, isLabWorkDone, moveSpecimen } from '../lib/labSpecimens'
+import MedicationAlertList, { MedicationOverrideDialog } from './MedicationAlerts'
+import type { PrescribingContext } from '../lib/medicationSafety'
+import { checkPrescription, checkPrescriptionItem, getUnresolvedBlocks, overridePrescriptionItem } from '../lib/medicationSafety'
+import { documentGenerator } from '../services/documentService'
+import { sendCriticalLabResultSMS, sendLabResultsSMS } from '../services/smsService'
+import { sendLabResultsEmail } from '../services/emailService'
 
 interface PatientQueueProps {
   visits: Visit[]
   patients: Patient[]
   inventory: InventoryItem[]
-  addVisit: (patientId: string, priority?: VisitPriority, insurance?: any, skipVitals?: boolean) => void
+  appointments?: Appointment[]
+  addVisit: (patientId: string, priority?: VisitPriority, insurance?: any, skipVitals?: boolean, appointmentId?: string) => void
   updateVisit: (visit: Visit) => void
   onCompleteVisit?: (visit: Visit) => void
   restrictedStages?: VisitStage[] // New prop to filter the dashboard view
@@ -49,6 +73,7 @@ const PatientQueue: React.FC<PatientQueueProps> = ({
   visits,
   patients,
   inventory,
+  appointments = [],
   addVisit,
   updateVisit,
   onCompleteVisit,
@@ -67,12 +92,36 @@ const PatientQueue: React.FC<PatientQueueProps> = ({
   const [skipVitals, setSkipVitals] = useState(false)
 
   // Doctor Modal State
-  const [doctorTab, setDoctorTab] = useState<"Clinical" | "Orders" | "History">("Clinical")
-  const [labTests, setLabTests] = useState<LabTestProfile[]>([])
+  const [doctorTab, setDoctorTab] = useState<"Clinical" | "Vitals" | "Orders" | "History" | "Follow-up">("Clinical")
+  // Prescription item whose blocking safety alerts are up for override
+  const [overrideIndex, setOverrideIndex] = useState<number | null>(null)
+  useEffect(() => setOverrideIndex(null), [selectedVisit?.id])
 
-  useEffect(() => {
-    db.getLabTests().then(setLabTests).catch(console.error)
-  }, [])
+  // Follow-up booking from the consultation
+  const { settings, currentUser, actions, labTests: clinicLabTests } = useStore()
+  const labTests = clinicLabTests.length > 0 ? clinicLabTests : STARTER_LAB_TESTS
+  const providers = getProviders(settings.team || [])
+  const emptyFollowUp = () => ({
+    date: addDays(new Date().toISOString().split("T")[0], 28),
+    time: "09:00",
+    providerId: providers.some((p) => p.id === currentUser?.id) ? currentUser!.id : "",
+  })
+  const [followUp, setFollowUp] = useState(emptyFollowUp)
+  const [followUpRecurrence, setFollowUpRecurrence] = useState<RecurrenceRule | null>(null)
+  const [isBookingFollowUp, setIsBookingFollowUp] = useState(false)
+
+  // Today's bookings not yet checked in; checking one in links the visit to it
+  const today = new Date().toISOString().split("T")[0]
+  const arrivals = appointments
+    .filter((a) => a.status === "Scheduled" && a.date === today && !a.checkedInAt && !visits.some((v) => v.appointmentId === a.id))
+    .filter((a) => a.patientName.toLowerCase().includes(searchTerm.toLowerCase()))
+    .sort((a, b) => a.time.localeCompare(b.time))
+
+  const checkIn = (patientId: string, appointmentId?: string) => {
+    addVisit(patientId, checkInPriority, undefined, skipVitals, appointmentId)
+    setShowCheckInModal(false)
+    setSearchTerm("")
+  }
 
   // Helper to calculate wait time
   const getWaitTime = (startTime: string) => {
@@ -136,6 +185,35 @@ const PatientQueue: React.FC<PatientQueueProps> = ({
     setDoctorTab("Clinical") // Reset doctor tab
   }
 
+  const handleBookFollowUp = async (visit: Visit) => {
+    if (!canCurrentUser('appointments.create')) {
+      useStore.getState().actions.showToast("You do not have permission to create appointments.", "error")
+      return
+    }
+    const provider = providers.find((p) => p.id === followUp.providerId)
+    const appointment = {
+      id: `A${Date.now()}`,
+      patientId: visit.patientId,
+      patientName: visit.patientName,
+      date: followUp.date,
+      time: followUp.time,
+      reason: visit.diagnosis ? `Follow-up: ${visit.diagnosis}` : "Follow-up",
+      status: "Scheduled" as const,
+      providerId: provider?.id,
+      providerName: provider?.name,
+    }
+
+    setIsBookingFollowUp(true)
+    const booked = followUpRecurrence
+      ? await actions.addAppointmentSeries(appointment, followUpRecurrence)
+      : await actions.addAppointment(appointment)
+    setIsBookingFollowUp(false)
+    if (booked) {
+      setFollowUp(emptyFollowUp())
+      setFollowUpRecurrence(null)
+    }
+  }
+
   const calculateTotal = (visit: Visit) => {
     const medCost = visit.prescription.reduce((acc, item) => acc + item.price * item.quantity, 0)
     const labCost = visit.labOrders.reduce((acc, item) => acc + item.price, 0)
@@ -196,8 +274,30 @@ const PatientQueue: React.FC<PatientQueueProps> = ({
           </label>
         </div>
 
+        {arrivals.length > 0 && (
+          <div className="max-h-48 overflow-y-auto space-y-2 border-t border-slate-100 dark:border-slate-700 pt-4 mb-4">
+            <p className="text-xs font-bold text-slate-400 mb-2">Today's Appointments:</p>
+            {arrivals.map((appt) => (
+              <div
+                key={appt.id}
+                className="flex justify-between items-center p-3 hover:bg-teal-50 dark:hover:bg-teal-900/20 rounded-xl border border-teal-100 dark:border-teal-800 transition-colors cursor-pointer"
+                onClick={() => checkIn(appt.patientId, appt.id)}
+              >
+                <div className="flex items-center gap-3">
+                  <div className="w-12 text-center text-sm font-bold text-teal-700 dark:text-teal-300">{appt.time}</div>
+                  <div>
+                    <div className="font-bold text-slate-900 dark:text-white text-sm">{appt.patientName}</div>
+                    <div className="text-xs text-slate-500">{[appt.appointmentType || appt.reason, appt.providerName].filter(Boolean).join(" · ")}</div>
+                  </div>
+                </div>
+                <CalendarCheck className="w-5 h-5 text-teal-600" />
+              </div>
+            ))}
+          </div>
+        )}
+
         <div className="max-h-48 overflow-y-auto space-y-2 border-t border-slate-100 dark:border-slate-700 pt-4">
-          <p className="text-xs font-bold text-slate-400 mb-2">Select Patient to Queue:</p>
+          <p className="text-xs font-bold text-slate-400 mb-2">{arrivals.length > 0 ? "Or Queue a Walk-In:" : "Select Patient to Queue:"}</p>
           {patients
             .filter((p) => p.name.toLowerCase().includes(searchTerm.toLowerCase()) || p.phone.includes(searchTerm))
             .slice(0, 5)
@@ -205,16 +305,7 @@ const PatientQueue: React.FC<PatientQueueProps> = ({
               <div
                 key={patient.id}
                 className="flex justify-between items-center p-3 hover:bg-slate-50 dark:hover:bg-slate-700/50 rounded-xl border border-slate-100 dark:border-slate-700 transition-colors cursor-pointer"
-                onClick={() => {
-                  addVisit(
-                    patient.id,
-                    checkInPriority,
-                    undefined, // No insurance passed
-                    skipVitals,
-                  )
-                  setShowCheckInModal(false)
-                  setSearchTerm("")
-                }}
+                onClick={() => checkIn(patient.id)}
               >
                 <div className="flex items-center gap-3">
                   <div className="w-8 h-8 rounded-full bg-teal-100 dark:bg-teal-900/50 text-teal-700 dark:text-teal-300 flex items-center justify-center font-bold text-xs">
@@ -240,62 +331,31 @@ const PatientQueue: React.FC<PatientQueueProps> = ({
 
     // --- VITALS FORM ---
     if (activeStage === "Vitals") {
+      const handleSaveVitals = () => {
+        const errors = getVitalsErrors(selectedVisit.vitals || {})
+        if (errors.length > 0) {
+          actions.showToast(errors[0], "error")
+          return
+        }
+        handleStageChange(
+          { ...selectedVisit, vitals: cleanVitals({ ...selectedVisit.vitals, recordedAt: new Date().toISOString() }) },
+          "Consultation",
+        )
+      }
+
       return (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-in fade-in">
-          <div className="bg-white dark:bg-slate-800 w-full max-w-lg rounded-2xl p-6 shadow-2xl animate-in zoom-in-95">
+          <div className="bg-white dark:bg-slate-800 w-full max-w-lg max-h-[90vh] overflow-y-auto rounded-2xl p-6 shadow-2xl animate-in zoom-in-95">
             <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-4 flex items-center gap-2">
               <Activity className="w-5 h-5 text-orange-500" /> Vitals Check: {selectedVisit.patientName}
             </h3>
 
-            <div className="grid grid-cols-2 gap-4">
-              <div>
-                <label className="text-xs font-bold text-slate-500 uppercase">Blood Pressure</label>
-                <input
-                  className="w-full p-3 bg-slate-50 dark:bg-slate-700 rounded-xl mt-1 outline-none dark:text-white"
-                  placeholder="120/80"
-                  value={selectedVisit.vitals?.bp || ""}
-                  onChange={(e) =>
-                    setSelectedVisit({ ...selectedVisit, vitals: { ...selectedVisit.vitals!, bp: e.target.value } })
-                  }
-                />
-              </div>
-              <div>
-                <label className="text-xs font-bold text-slate-500 uppercase">Temp (°C)</label>
-                <input
-                  className="w-full p-3 bg-slate-50 dark:bg-slate-700 rounded-xl mt-1 outline-none dark:text-white"
-                  placeholder="36.5"
-                  value={selectedVisit.vitals?.temp || ""}
-                  onChange={(e) =>
-                    setSelectedVisit({ ...selectedVisit, vitals: { ...selectedVisit.vitals!, temp: e.target.value } })
-                  }
-                />
-              </div>
-              <div>
-                <label className="text-xs font-bold text-slate-500 uppercase">Weight (kg)</label>
-                <input
-                  className="w-full p-3 bg-slate-50 dark:bg-slate-700 rounded-xl mt-1 outline-none dark:text-white"
-                  placeholder="70"
-                  value={selectedVisit.vitals?.weight || ""}
-                  onChange={(e) =>
-                    setSelectedVisit({ ...selectedVisit, vitals: { ...selectedVisit.vitals!, weight: e.target.value } })
-                  }
-                />
-              </div>
-              <div>
-                <label className="text-xs font-bold text-slate-500 uppercase">Heart Rate</label>
-                <input
-                  className="w-full p-3 bg-slate-50 dark:bg-slate-700 rounded-xl mt-1 outline-none dark:text-white"
-                  placeholder="72"
-                  value={selectedVisit.vitals?.heartRate || ""}
-                  onChange={(e) =>
-                    setSelectedVisit({
-                      ...selectedVisit,
-                      vitals: { ...selectedVisit.vitals!, heartRate: e.target.value },
-                    })
-                  }
-                />
-              </div>
-            </div>
+            <VitalsEntry
+              value={selectedVisit.vitals || {}}
+              onChange={(vitals) => setSelectedVisit({ ...selectedVisit, vitals })}
+              ageMonths={patientAgeInMonths(patient)}
+              thresholds={settings.vitalThresholds}
+            />
 
             <div className="flex gap-3 mt-6">
               <button
@@ -305,7 +365,7 @@ const PatientQueue: React.FC<PatientQueueProps> = ({
                 Cancel
               </button>
               <button
-                onClick={() => handleStageChange(selectedVisit, "Consultation")}
+                onClick={handleSaveVitals}
                 className="flex-1 py-3 bg-orange-500 text-white font-bold rounded-xl hover:bg-orange-600"
               >
                 Save & Send to Doctor
@@ -318,6 +378,15 @@ const PatientQueue: React.FC<PatientQueueProps> = ({
 
     // --- DOCTOR FORM ---
     if (activeStage === "Consultation") {
+      const allergies = (patient?.allergies || []).filter((a) => a.trim())
+      const prescribingContext: PrescribingContext = {
+        allergies,
+        ageMonths: patientAgeInMonths(patient),
+        weightKg: selectedVisit.vitals?.weight,
+      }
+      const prescriptionAlerts = checkPrescription(selectedVisit.prescription, prescribingContext)
+      const blockedIndex = selectedVisit.prescription.findIndex((item, i) => getUnresolvedBlocks(item, prescriptionAlerts[i]).length > 0)
+
       const addToPrescription = (item: InventoryItem) => {
         const newItem: PrescriptionItem = {
           inventoryId: item.id,
@@ -330,6 +399,41 @@ const PatientQueue: React.FC<PatientQueueProps> = ({
           ...selectedVisit,
           prescription: [...selectedVisit.prescription, newItem],
         })
+        // Blocking alerts are put to the prescriber straight away; warnings show on the item
+        const alerts = checkPrescriptionItem(newItem, selectedVisit.prescription, prescribingContext)
+        if (getUnresolvedBlocks(newItem, alerts).length > 0) setOverrideIndex(selectedVisit.prescription.length)
+      }
+
+      const removeFromPrescription = (idx: number) => {
+        const updated = selectedVisit.prescription.filter((_, i) => i !== idx)
+        setSelectedVisit({ ...selectedVisit, prescription: updated })
+        setOverrideIndex(null)
+      }
+
+      const handleOverride = (idx: number, reason: string) => {
+        const item = selectedVisit.prescription[idx]
+        const blocks = getUnresolvedBlocks(item, prescriptionAlerts[idx])
+        let overridden: PrescriptionItem
+        try {
+          overridden = overridePrescriptionItem(item, blocks, reason, currentUser?.name)
+        } catch (error: any) {
+          actions.showToast(error.message, "error")
+          return
+        }
+        const updated = [...selectedVisit.prescription]
+        updated[idx] = overridden
+        setSelectedVisit({ ...selectedVisit, prescription: updated })
+        setOverrideIndex(null)
+      }
+
+      // The visit cannot move on while a blocking alert stands un-overridden
+      const sendOn = (nextStage: VisitStage) => {
+        if (blockedIndex >= 0) {
+          actions.showToast(`Review the safety alert on ${selectedVisit.prescription[blockedIndex].name} before sending the patient on.`, "error")
+          setOverrideIndex(blockedIndex)
+          return
+        }
+        handleStageChange(selectedVisit, nextStage)
       }
 
       const addToLabs = (test: LabTestProfile) => {
@@ -340,6 +444,8 @@ const PatientQueue: React.FC<PatientQueueProps> = ({
           price: test.price,
           status: "Pending",
           orderedAt: new Date().toISOString(),
+          orderedById: currentUser?.id,
+          orderedByName: currentUser?.name,
         }
         setSelectedVisit({
           ...selectedVisit,
@@ -347,6 +453,51 @@ const PatientQueue: React.FC<PatientQueueProps> = ({
         })
       }
 
+      // Saved straight away so the alert clears for everyone, even if the chart is closed without saving
+      const handleAcknowledgeCriticals = () => {
+        const now = new Date().toISOString()
+        const updated = {
+          ...selectedVisit,
+          labOrders: selectedVisit.labOrders.map((order) =>
+            order.criticalAlert && !order.criticalAlert.acknowledgedAt
+              ? { ...order, criticalAlert: { ...order.criticalAlert, acknowledgedAt: now, acknowledgedByName: currentUser?.name } }
+              : order,
+          ),
+        }
+        updateVisit(updated)
+        setSelectedVisit(updated)
+      }
+
+      const completedLabs = selectedVisit.labOrders.filter((o) => o.status === "Completed")
+
+      const handlePrintLabReport = async () => {
+        if (!patient) return
+        const html = await documentGenerator.generateLabReportPdf(selectedVisit, patient, settings, completedLabs)
+        documentGenerator.printDocument(html, `Lab Report - ${patient.name}`)
+      }
+
+      const handleSendLabResults = async (channel: "sms" | "email") => {
+        if (!patient) return
+        const testNames = completedLabs.map((o) => o.testName).join(", ")
+        const response =
+          channel === "sms"
+            ? await sendLabResultsSMS(patient.phone, patient.name, testNames, settings.name)
+            : patient.email
+              ? await sendLabResultsEmail(
+                patient.email,
+                patient.name,
+                testNames,
+                completedLabs.map((o) => `${o.testName}: ${o.result || ""}`).join("; "),
+                currentUser?.name || "",
+                settings.name,
+                await documentGenerator.generateLabReportPdf(selectedVisit, patient, settings, completedLabs),
+              )
+              : null
+        if (!response) actions.showToast(`${patient.name} has no email address on file.`, "error")
+        else if (response.success) actions.showToast(`Lab results sent to ${patient.name} by ${channel === "sms" ? "SMS" : "email"}.`)
+        else actions.showToast(response.error || response.message || "Could not send lab results", "error")
+      }
+
       return (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-in fade-in">
           <div className="bg-white dark:bg-slate-800 w-full max-w-4xl rounded-2xl p-0 shadow-2xl animate-in zoom-in-95 flex flex-col max-h-[90vh] overflow-hidden">
@@ -370,9 +521,30 @@ const PatientQueue: React.FC<PatientQueueProps> = ({
               </button>
             </div>
 
+            {getUnacknowledgedCriticals(selectedVisit).length > 0 && (
+              <div className="px-6 py-3 bg-red-50 dark:bg-red-900/20 border-b border-red-100 dark:border-red-900/50 flex items-center justify-between gap-4">
+                <div className="text-sm text-red-700 dark:text-red-300">
+                  <p className="font-bold flex items-center gap-2">
+                    <AlertTriangle className="w-4 h-4" /> Critical lab result
+                  </p>
+                  {getUnacknowledgedCriticals(selectedVisit).map((order) => (
+                    <p key={order.id} className="text-xs mt-0.5">
+                      {order.testName}: {summarizeLabResults(getCriticalResults(order))}
+                    </p>
+                  ))}
+                </div>
+                <button
+                  onClick={handleAcknowledgeCriticals}
+                  className="px-3 py-2 bg-red-600 text-white text-xs font-bold rounded-lg hover:bg-red-700 shrink-0"
+                >
+                  Acknowledge
+                </button>
+              </div>
+            )}
+
             {/* Tabs */}
             <div className="flex border-b border-slate-200 dark:border-slate-700 px-6">
-              {["Clinical", "Orders", "History"].map((tab) => (
+              {["Clinical", "Vitals", "Orders", "History", "Follow-up"].map((tab) => (
                 <button
                   key={tab}
                   onClick={() => setDoctorTab(tab as any)}
@@ -390,11 +562,25 @@ const PatientQueue: React.FC<PatientQueueProps> = ({
             <div className="flex-1 overflow-y-auto p-6 bg-white dark:bg-slate-800">
               {doctorTab === "Clinical" && (
                 <div className="space-y-4 animate-in fade-in">
+                  {hasVitals(selectedVisit.vitals) && (
+                    <div className="p-3 bg-slate-50 dark:bg-slate-700/50 rounded-xl text-sm">
+                      <p className="text-slate-700 dark:text-slate-200">{formatVitals(selectedVisit.vitals)}</p>
+                      {getVitalFlags(selectedVisit.vitals, settings.vitalThresholds, patientAgeInMonths(patient)).map((flag) => (
+                        <span
+                          key={flag.key}
+                          className={`inline-flex items-center gap-1 mt-2 mr-2 text-xs font-bold px-2 py-0.5 rounded ${flag.severe ? "bg-red-100 text-red-700" : "bg-amber-100 text-amber-700"}`}
+                        >
+                          <AlertTriangle className="w-3 h-3" /> {flag.message}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                   <div>
                     <label className="text-xs font-bold text-slate-500 uppercase">Chief Complaint</label>
                     <textarea
                       className="w-full p-3 bg-slate-50 dark:bg-slate-700 rounded-xl mt-1 outline-none dark:text-white text-sm"
                       rows={2}
+                      readOnly={!!selectedVisit.noteSignedAt}
                       value={selectedVisit.chiefComplaint || ""}
                       onChange={(e) => setSelectedVisit({ ...selectedVisit, chiefComplaint: e.target.value })}
                       placeholder="Patient's primary symptom..."
@@ -404,21 +590,24 @@ const PatientQueue: React.FC<PatientQueueProps> = ({
                     <label className="text-xs font-bold text-slate-500 uppercase">Diagnosis / Impression</label>
                     <input
                       className="w-full p-3 bg-slate-50 dark:bg-slate-700 rounded-xl mt-1 outline-none dark:text-white text-sm font-bold"
+                      readOnly={!!selectedVisit.noteSignedAt}
                       value={selectedVisit.diagnosis || ""}
                       onChange={(e) => setSelectedVisit({ ...selectedVisit, diagnosis: e.target.value })}
                       placeholder="e.g. Malaria, URI..."
                     />
                   </div>
                   <div>
-                    <label className="text-xs font-bold text-slate-500 uppercase">Detailed Doctor Notes</label>
-                    <textarea
-                      className="w-full p-3 bg-slate-50 dark:bg-slate-700 rounded-xl mt-1 outline-none dark:text-white text-sm"
-                      rows={4}
-                      value={selectedVisit.doctorNotes || ""}
-                      onChange={(e) => setSelectedVisit({ ...selectedVisit, doctorNotes: e.target.value })}
-                      placeholder="Clinical observations, examination details..."
-                    />
+                    <label className="text-xs font-bold text-slate-500 uppercase">Coded Diagnoses</label>
+                    <div className="mt-1">
+                      <DiagnosisCoder
+                        value={selectedVisit.codedDiagnoses || []}
+                        onChange={(codedDiagnoses) => setSelectedVisit({ ...selectedVisit, codedDiagnoses })}
+                        patientAge={patient?.age}
+                        readOnly={!!selectedVisit.noteSignedAt}
+                      />
+                    </div>
                   </div>
+                  <SoapNoteEditor visit={selectedVisit} onChange={setSelectedVisit} />
                 </div>
               )}
 
@@ -472,17 +661,42 @@ const PatientQueue: React.FC<PatientQueueProps> = ({
                             >
                               {order.status}
                             </span>
-                            {order.result && (
-                              <span
-                                className="text-[10px] font-bold text-indigo-600 dark:text-indigo-400 max-w-[120px] truncate"
-                                title={order.result}
-                              >
-                                {order.result}
-                              </span>
+                            {hasCriticalResults(order) && (
+                              <span className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-red-600 text-white">Critical</span>
                             )}
                           </div>
+                          {order.specimen?.status === "rejected" && (
+                            <p className="mt-1 text-[10px] text-red-600">Specimen rejected: {order.specimen.rejectionReason}</p>
+                          )}
+                          {order.status === "Completed" && (
+                            <div className="mt-2">
+                              <LabResultsSummary order={order} />
+                            </div>
+                          )}
                         </div>
                       ))}
+                      {completedLabs.length > 0 && (
+                        <div className="flex gap-2 pt-1">
+                          <button
+                            onClick={handlePrintLabReport}
+                            className="flex-1 py-1.5 text-xs font-bold rounded-lg bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 text-slate-600 dark:text-slate-300 flex items-center justify-center gap-1"
+                          >
+                            <Printer className="w-3.5 h-3.5" /> Report
+                          </button>
+                          <button
+                            onClick={() => handleSendLabResults("sms")}
+                            className="flex-1 py-1.5 text-xs font-bold rounded-lg bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 text-slate-600 dark:text-slate-300 flex items-center justify-center gap-1"
+                          >
+                            <MessageSquare className="w-3.5 h-3.5" /> SMS
+                          </button>
+                          <button
+                            onClick={() => handleSendLabResults("email")}
+                            className="flex-1 py-1.5 text-xs font-bold rounded-lg bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 text-slate-600 dark:text-slate-300 flex items-center justify-center gap-1"
+                          >
+                            <Mail className="w-3.5 h-3.5" /> Email
+                          </button>
+                        </div>
+                      )}
                     </div>
                   </div>
 
@@ -491,6 +705,9 @@ const PatientQueue: React.FC<PatientQueueProps> = ({
                     <h4 className="font-bold text-slate-800 dark:text-white mb-2 flex items-center gap-2 text-sm">
                       <Pill className="w-4 h-4 text-purple-500" /> Medication
                     </h4>
+                    <p className={`text-xs mb-2 ${allergies.length > 0 ? "text-red-600 font-bold" : "text-slate-400"}`}>
+                      {allergies.length > 0 ? `Allergies: ${allergies.join(", ")}` : "No allergies recorded"}
+                    </p>
                     <div className="relative group mb-2">
                       <input
                         placeholder="Search meds..."
@@ -515,15 +732,16 @@ const PatientQueue: React.FC<PatientQueueProps> = ({
                       {selectedVisit.prescription.map((item, idx) => (
                         <div
                           key={idx}
-                          className="bg-white dark:bg-slate-800 p-2 rounded-lg border border-slate-200 dark:border-slate-600 text-sm"
+                          className={`bg-white dark:bg-slate-800 p-2 rounded-lg border text-sm ${
+                            getUnresolvedBlocks(item, prescriptionAlerts[idx]).length > 0
+                              ? "border-red-300 dark:border-red-800"
+                              : "border-slate-200 dark:border-slate-600"
+                          }`}
                         >
                           <div className="flex justify-between font-bold dark:text-white">
                             <span>{item.name}</span>
                             <button
-                              onClick={() => {
-                                const updated = selectedVisit.prescription.filter((_, i) => i !== idx)
-                                setSelectedVisit({ ...selectedVisit, prescription: updated })
-                              }}
+                              onClick={() => removeFromPrescription(idx)}
                               className="text-red-400 hover:text-red-600"
                             >
                               <X className="w-4 h-4" />
@@ -539,12 +757,18 @@ const PatientQueue: React.FC<PatientQueueProps> = ({
                             className="bg-slate-50 dark:bg-slate-700 p-1 rounded border-none text-xs w-full mt-1 outline-none dark:text-white"
                             placeholder="Dosage..."
                           />
+                          <MedicationAlertList item={item} alerts={prescriptionAlerts[idx]} onOverride={() => setOverrideIndex(idx)} />
                         </div>
                       ))}
                     </div>
                   </div>
                 </div>
               )}
+              {doctorTab === "Vitals" && patient && (
+                <div className="animate-in fade-in">
+                  <VitalsTrends patient={patient} />
+                </div>
+              )}
               {doctorTab === "History" && (
                 <div className="space-y-4 animate-in fade-in">
                   {patient &&
@@ -558,6 +782,58 @@ const PatientQueue: React.FC<PatientQueueProps> = ({
                     ))}
                 </div>
               )}
+              {doctorTab === "Follow-up" && (
+                <div className="space-y-4 animate-in fade-in max-w-lg">
+                  <p className="text-sm text-slate-500 dark:text-slate-400">
+                    Book the next review for {selectedVisit.patientName}. Use a series for chronic care such as hypertension, diabetes or ANC.
+                  </p>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="text-xs font-bold text-slate-500 uppercase">First Visit</label>
+                      <input
+                        type="date"
+                        min={new Date().toISOString().split("T")[0]}
+                        value={followUp.date}
+                        onChange={(e) => setFollowUp({ ...followUp, date: e.target.value })}
+                        className="w-full p-3 bg-slate-50 dark:bg-slate-700 rounded-xl mt-1 outline-none dark:text-white text-sm"
+                      />
+                    </div>
+                    <div>
+                      <label className="text-xs font-bold text-slate-500 uppercase">Time</label>
+                      <input
+                        type="time"
+                        step={900}
+                        value={followUp.time}
+                        onChange={(e) => setFollowUp({ ...followUp, time: e.target.value })}
+                        className="w-full p-3 bg-slate-50 dark:bg-slate-700 rounded-xl mt-1 outline-none dark:text-white text-sm"
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <label className="text-xs font-bold text-slate-500 uppercase">Provider</label>
+                    <select
+                      value={followUp.providerId}
+                      onChange={(e) => setFollowUp({ ...followUp, providerId: e.target.value })}
+                      className="w-full p-3 bg-slate-50 dark:bg-slate-700 rounded-xl mt-1 outline-none dark:text-white text-sm"
+                    >
+                      <option value="">Unassigned</option>
+                      {providers.map((p) => (
+                        <option key={p.id} value={p.id}>
+                          {p.name} ({p.role})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <RecurrenceFields startDate={followUp.date} value={followUpRecurrence} onChange={setFollowUpRecurrence} />
+                  <button
+                    onClick={() => handleBookFollowUp(selectedVisit)}
+                    disabled={isBookingFollowUp || !followUp.date || !followUp.time}
+                    className="w-full py-3 bg-teal-600 text-white font-bold rounded-xl hover:bg-teal-700 flex items-center justify-center gap-2 disabled:opacity-60"
+                  >
+                    <CalendarPlus className="w-5 h-5" /> {followUpRecurrence ? "Book Follow-up Series" : "Book Follow-up"}
+                  </button>
+                </div>
+              )}
             </div>
 
             <div className="p-6 border-t border-slate-100 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 flex gap-3">
@@ -569,14 +845,14 @@ const PatientQueue: React.FC<PatientQueueProps> = ({
               </button>
               {selectedVisit.labOrders.some((o) => o.status === "Pending") ? (
                 <button
-                  onClick={() => handleStageChange(selectedVisit, "Lab")}
+                  onClick={() => sendOn("Lab")}
                   className="flex-1 py-3 bg-indigo-600 text-white font-bold rounded-xl hover:bg-indigo-700 flex items-center justify-center gap-2"
                 >
                   <FlaskConical className="w-5 h-5" /> Send to Lab
                 </button>
               ) : (
                 <button
-                  onClick={() => handleStageChange(selectedVisit, "Billing")}
+                  onClick={() => sendOn("Billing")}
                   className="flex-1 py-3 bg-green-600 text-white font-bold rounded-xl hover:bg-green-700 flex items-center justify-center gap-2"
                 >
                   <CreditCard className="w-5 h-5" /> Send to Billing
@@ -584,15 +860,88 @@ const PatientQueue: React.FC<PatientQueueProps> = ({
               )}
             </div>
           </div>
+
+          {overrideIndex !== null && selectedVisit.prescription[overrideIndex] && (
+            <MedicationOverrideDialog
+              item={selectedVisit.prescription[overrideIndex]}
+              alerts={getUnresolvedBlocks(selectedVisit.prescription[overrideIndex], prescriptionAlerts[overrideIndex])}
+              onOverride={(reason) => handleOverride(overrideIndex, reason)}
+              onRemove={() => removeFromPrescription(overrideIndex)}
+              onClose={() => setOverrideIndex(null)}
+            />
+          )}
         </div>
       )
     }
 
     // --- LAB FORM ---
     if (activeStage === "Lab") {
+      const updateOrder = (idx: number, order: LabOrder) => {
+        const updated = [...selectedVisit.labOrders]
+        updated[idx] = order
+        setSelectedVisit({ ...selectedVisit, labOrders: updated })
+      }
+
+      const handleVerify = (idx: number) => {
+        try {
+          updateOrder(idx, moveSpecimen(selectedVisit.labOrders[idx], "verified", currentUser?.name))
+        } catch (error: any) {
+          actions.showToast(error.message, "error")
+        }
+      }
+
+      // Keeps entered results without sending the patient back, e.g. while another test is still running
+      const handleSaveResults = () => {
+        updateVisit(selectedVisit)
+        setSelectedVisit(null)
+      }
+
+      const labWorkDone = selectedVisit.labOrders.every(isLabWorkDone)
+
+      // New critical values are flagged on the order and texted to the doctor who ordered the test
+      const handleResultsReady = async () => {
+        const now = new Date().toISOString()
+        const labOrders = await Promise.all(
+          selectedVisit.labOrders.map(async (order) => {
+            if (!hasCriticalResults(order) || order.criticalAlert) return order
+            const doctor = (settings.team || []).find((m) => m.id === order.orderedById)
+            let notifiedName: string | undefined
+            if (doctor?.phone) {
+              const sms = await sendCriticalLabResultSMS(
+                doctor.phone,
+                doctor.name,
+                selectedVisit.patientName,
+                order.testName,
+                summarizeLabResults(getCriticalResults(order)),
+                settings.name,
+              )
+              if (sms.success) notifiedName = doctor.name
+            }
+            return { ...order, criticalAlert: { raisedAt: now, raisedByName: currentUser?.name, notifiedName } }
+          }),
+        )
+        const raised = labOrders.filter((o, i) => o.criticalAlert && !selectedVisit.labOrders[i].criticalAlert)
+        if (raised.length > 0) {
+          const unreached = raised.filter((o) => !o.criticalAlert?.notifiedName)
+          actions.showToast(
+            unreached.length > 0
+              ? `Critical result: could not text ${unreached[0].orderedByName || "the ordering doctor"}. Call them now.`
+              : `Critical result sent to ${raised.map((o) => o.criticalAlert?.notifiedName).join(", ")}.`,
+            unreached.length > 0 ? "error" : "info",
+          )
+        }
+        handleStageChange({ ...selectedVisit, labOrders }, "Consultation")
+      }
+
+      const handlePrintLabReport = async () => {
+        if (!patient) return
+        const html = await documentGenerator.generateLabReportPdf(selectedVisit, patient, settings)
+        documentGenerator.printDocument(html, `Lab Report - ${patient.name}`)
+      }
+
       return (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-in fade-in">
-          <div className="bg-white dark:bg-slate-800 w-full max-w-2xl rounded-2xl p-6 shadow-2xl animate-in zoom-in-95 flex flex-col max-h-[90vh]">
+          <div className="bg-white dark:bg-slate-800 w-full max-w-3xl rounded-2xl p-6 shadow-2xl animate-in zoom-in-95 flex flex-col max-h-[90vh]">
             <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-6 flex items-center gap-2">
               <FlaskConical className="w-5 h-5 text-indigo-500" /> Lab Results: {selectedVisit.patientName}
             </h3>
@@ -603,26 +952,45 @@ const PatientQueue: React.FC<PatientQueueProps> = ({
                   className="p-4 bg-slate-50 dark:bg-slate-700/30 rounded-xl border border-slate-100 dark:border-slate-700"
                 >
                   <div className="flex justify-between mb-3">
-                    <span className="font-bold text-slate-800 dark:text-white">{order.testName}</span>
+                    <span className="font-bold text-slate-800 dark:text-white">
+                      {order.testName}
+                      {order.specimen && <span className="ml-2 text-xs font-mono font-normal text-slate-400">{order.specimen.accessionNumber}</span>}
+                    </span>
                     <span className="text-xs px-2 py-0.5 bg-slate-200 dark:bg-slate-600 rounded text-slate-600 dark:text-slate-300">
-                      {order.status}
+                      {order.specimen ? SPECIMEN_STATUS_LABELS[order.specimen.status] : "Not Collected"}
                     </span>
                   </div>
-                  <textarea
-                    className="w-full p-3 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 rounded-lg text-sm outline-none dark:text-white"
-                    rows={2}
-                    placeholder="Enter Result Value..."
-                    value={order.result || ""}
-                    onChange={(e) => {
-                      const updated = [...selectedVisit.labOrders]
-                      updated[idx] = {
-                        ...updated[idx],
-                        result: e.target.value,
-                        status: e.target.value ? "Completed" : "Pending",
-                      }
-                      setSelectedVisit({ ...selectedVisit, labOrders: updated })
-                    }}
-                  />
+                  {canEnterResults(order) ? (
+                    <>
+                      <StagedResultsReview
+                        order={order}
+                        test={resolveLabTest(labTests.find((t) => t.id === order.testId))}
+                        patient={patient}
+                        onChange={(updated) => updateOrder(idx, updated)}
+                      />
+                      <LabResultEntry
+                        order={order}
+                        test={resolveLabTest(labTests.find((t) => t.id === order.testId))}
+                        patient={patient}
+                        onChange={(updated) => updateOrder(idx, updated)}
+                      />
+                      {canMoveSpecimen(order.specimen, "verified") && (
+                        <button
+                          onClick={() => handleVerify(idx)}
+                          disabled={order.status !== "Completed" || !!order.stagedImport}
+                          className="mt-3 w-full py-2 bg-green-600 text-white text-sm font-bold rounded-lg hover:bg-green-700 disabled:opacity-50 flex items-center justify-center gap-2"
+                        >
+                          <CheckCircle className="w-4 h-4" /> Verify Results
+                        </button>
+                      )}
+                    </>
+                  ) : order.specimen?.status === "verified" ? (
+                    <LabResultsSummary order={order} />
+                  ) : order.specimen?.status === "rejected" ? (
+                    <p className="text-xs text-red-600">Rejected: {order.specimen.rejectionReason}. Recollect from the worklist.</p>
+                  ) : (
+                    <p className="text-xs text-slate-500">Collect, receive and start this specimen on the worklist before entering results.</p>
+                  )}
                 </div>
               ))}
             </div>
@@ -634,8 +1002,24 @@ const PatientQueue: React.FC<PatientQueueProps> = ({
                 Cancel
               </button>
               <button
-                onClick={() => handleStageChange(selectedVisit, "Consultation")}
-                className="flex-1 py-3 bg-indigo-600 text-white font-bold rounded-xl hover:bg-indigo-700 flex items-center justify-center gap-2"
+                onClick={handlePrintLabReport}
+                disabled={!patient}
+                className="py-3 px-4 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 font-bold rounded-xl disabled:opacity-50"
+                title="Print lab report"
+              >
+                <Printer className="w-4 h-4" />
+              </button>
+              <button
+                onClick={handleSaveResults}
+                className="py-3 px-4 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 font-bold rounded-xl"
+              >
+                Save
+              </button>
+              <button
+                onClick={handleResultsReady}
+                disabled={!labWorkDone}
+                title={labWorkDone ? undefined : "Verify or reject every test first"}
+                className="flex-1 py-3 bg-indigo-600 text-white font-bold rounded-xl hover:bg-indigo-700 disabled:opacity-50 flex items-center justify-center gap-2"
               >
                 <Stethoscope className="w-4 h-4" /> Results Ready - Return to Doctor
               </button>
@@ -851,95 +1235,111 @@ const PatientQueue: React.FC<PatientQueueProps> = ({
           </span>
         </div>
 
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-3 md:gap-4">
-          {filteredVisits.map((visit) => (
-            <div
-              key={visit.id}
-              className="bg-white dark:bg-slate-800 p-5 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 hover:shadow-md transition-shadow relative overflow-hidden group"
-            >
-              <div className="flex justify-between items-start mb-3">
-                <div
-                  className={`text-[10px] font-bold px-2 py-0.5 rounded border uppercase flex items-center gap-1 ${getPriorityColor(visit.priority)}`}
-                >
-                  {visit.priority === "Emergency" && <AlertTriangle className="w-3 h-3" />}
-                  {visit.priority}
-                </div>
-                <div className="text-[10px] font-mono font-bold text-slate-400 flex items-center gap-1">
-                  <Clock className="w-3 h-3" /> {getWaitTime(visit.stageStartTime)}
+        {activeStage === "Lab" ? (
+          <LabWorklist
+            visits={visits}
+            patients={patients}
+            labTests={labTests}
+            updateVisit={updateVisit}
+            onOpenVisit={setSelectedVisit}
+          />
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-3 md:gap-4">
+            {filteredVisits.map((visit) => (
+              <div
+                key={visit.id}
+                className="bg-white dark:bg-slate-800 p-5 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 hover:shadow-md transition-shadow relative overflow-hidden group"
+              >
+                <div className="flex justify-between items-start mb-3">
+                  <div
+                    className={`text-[10px] font-bold px-2 py-0.5 rounded border uppercase flex items-center gap-1 ${getPriorityColor(visit.priority)}`}
+                  >
+                    {visit.priority === "Emergency" && <AlertTriangle className="w-3 h-3" />}
+                    {visit.priority}
+                  </div>
+                  <div className="text-[10px] font-mono font-bold text-slate-400 flex items-center gap-1">
+                    <Clock className="w-3 h-3" /> {getWaitTime(visit.stageStartTime)}
+                  </div>
                 </div>
-              </div>
 
-              <h4 className="font-bold text-lg text-slate-900 dark:text-white mb-1">{visit.patientName}</h4>
-              <p className="text-xs text-slate-500 mb-3 truncate">ID: {visit.patientId}</p>
+                <h4 className="font-bold text-lg text-slate-900 dark:text-white mb-1">{visit.patientName}</h4>
+                <p className="text-xs text-slate-500 mb-3 truncate">ID: {visit.patientId}</p>
 
-              <div className="space-y-2 mb-4">
-                {visit.stage === "Vitals" && !visit.vitals && (
-                  <div className="text-xs text-orange-600 font-bold bg-orange-50 dark:bg-orange-900/20 px-2 py-1 rounded w-fit">
-                    Waiting Vitals
-                  </div>
-                )}
-                {visit.stage === "Consultation" && (
-                  <div className="flex gap-2 text-xs">
-                    <span className="bg-slate-100 dark:bg-slate-700 px-1.5 py-0.5 rounded text-slate-600 dark:text-slate-300">
-                      BP: {visit.vitals?.bp || "--"}
-                    </span>
-                    <span className="bg-slate-100 dark:bg-slate-700 px-1.5 py-0.5 rounded text-slate-600 dark:text-slate-300">
-                      Temp: {visit.vitals?.temp || "--"}
-                    </span>
-                  </div>
-                )}
-                {visit.stage === "Lab" && (
-                  <div className="text-xs text-indigo-600 font-bold bg-indigo-50 dark:bg-indigo-900/20 px-2 py-1 rounded w-fit">
-                    {visit.labOrders.filter((o) => o.status === "Pending").length} Pending Tests
-                  </div>
-                )}
-                {visit.stage === "Billing" && (
-                  <div className="text-sm font-bold text-green-600">
-                    Total: KSh {visit.totalBill || calculateTotal(visit)}
-                  </div>
-                )}
-              </div>
+                <div className="space-y-2 mb-4">
+                  {getUnacknowledgedCriticals(visit).length > 0 && (
+                    <div className="text-xs text-white font-bold bg-red-600 px-2 py-1 rounded w-fit flex items-center gap-1">
+                      <AlertTriangle className="w-3 h-3" /> Critical Lab Result
+                    </div>
+                  )}
+                  {visit.stage === "Vitals" && !hasVitals(visit.vitals) && (
+                    <div className="text-xs text-orange-600 font-bold bg-orange-50 dark:bg-orange-900/20 px-2 py-1 rounded w-fit">
+                      Waiting Vitals
+                    </div>
+                  )}
+                  {visit.stage === "Consultation" && (
+                    <div className="flex flex-wrap gap-2 text-xs">
+                      <span className="bg-slate-100 dark:bg-slate-700 px-1.5 py-0.5 rounded text-slate-600 dark:text-slate-300">
+                        BP: {formatBloodPressure(visit.vitals) || "--"}
+                      </span>
+                      <span className="bg-slate-100 dark:bg-slate-700 px-1.5 py-0.5 rounded text-slate-600 dark:text-slate-300">
+                        Temp: {visit.vitals?.temperature ?? "--"}
+                      </span>
+                      {getVitalFlags(visit.vitals, settings.vitalThresholds, patientAgeInMonths(patients.find((p) => p.id === visit.patientId))).map((flag) => (
+                        <span
+                          key={flag.key}
+                          className={`px-1.5 py-0.5 rounded font-bold ${flag.severe ? "bg-red-100 text-red-700" : "bg-amber-100 text-amber-700"}`}
+                        >
+                          {flag.label} {flag.level}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  {visit.stage === "Billing" && (
+                    <div className="text-sm font-bold text-green-600">
+                      Total: KSh {visit.totalBill || calculateTotal(visit)}
+                    </div>
+                  )}
+                </div>
 
-              {activeStage !== "Pharmacy" && activeStage !== "Completed" && (
-                <button
-                  onClick={() => setSelectedVisit(visit)}
-                  className="w-full py-2.5 bg-slate-900 dark:bg-white text-white dark:text-slate-900 font-bold rounded-xl text-sm hover:opacity-90 transition-opacity flex items-center justify-center gap-2"
-                >
-                  {activeStage === "Check-In"
-                    ? "Review & Route"
-                    : activeStage === "Vitals"
-                      ? "Record Vitals"
-                      : activeStage === "Consultation"
-                        ? "Open Chart"
-                        : activeStage === "Lab"
-                          ? "Enter Results"
+                {activeStage !== "Pharmacy" && activeStage !== "Completed" && (
+                  <button
+                    onClick={() => setSelectedVisit(visit)}
+                    className="w-full py-2.5 bg-slate-900 dark:bg-white text-white dark:text-slate-900 font-bold rounded-xl text-sm hover:opacity-90 transition-opacity flex items-center justify-center gap-2"
+                  >
+                    {activeStage === "Check-In"
+                      ? "Review & Route"
+                      : activeStage === "Vitals"
+                        ? "Record Vitals"
+                        : activeStage === "Consultation"
+                          ? "Open Chart"
                           : activeStage === "Billing"
                             ? "Process Payment"
                             : activeStage === "Clearance"
                               ? "Process Exit"
                               : "Manage"}
-                  <ArrowRight className="w-3.5 h-3.5" />
-                </button>
-              )}
+                    <ArrowRight className="w-3.5 h-3.5" />
+                  </button>
+                )}
 
-              {activeStage === "Pharmacy" && (
-                <div className="text-center text-xs font-bold text-purple-600 bg-purple-50 dark:bg-purple-900/20 py-2 rounded-xl border border-purple-100 dark:border-purple-800">
-                  {visit.medicationsDispensed ? "Ready for Clearance" : "Dispense in Pharmacy Module"}
-                </div>
-              )}
-            </div>
-          ))}
+                {activeStage === "Pharmacy" && (
+                  <div className="text-center text-xs font-bold text-purple-600 bg-purple-50 dark:bg-purple-900/20 py-2 rounded-xl border border-purple-100 dark:border-purple-800">
+                    {visit.medicationsDispensed ? "Ready for Clearance" : "Dispense in Pharmacy Module"}
+                  </div>
+                )}
+              </div>
+            ))}
 
-          {filteredVisits.length === 0 && (
-            <div className="col-span-full py-20 text-center text-slate-400 flex flex-col items-center justify-center border-2 border-dashed border-slate-200 dark:border-slate-700 rounded-3xl">
-              <div className="w-16 h-16 bg-slate-50 dark:bg-slate-700 rounded-full flex items-center justify-center mb-4">
-                <Clock className="w-8 h-8 opacity-20" />
+            {filteredVisits.length === 0 && (
+              <div className="col-span-full py-20 text-center text-slate-400 flex flex-col items-center justify-center border-2 border-dashed border-slate-200 dark:border-slate-700 rounded-3xl">
+                <div className="w-16 h-16 bg-slate-50 dark:bg-slate-700 rounded-full flex items-center justify-center mb-4">
+                  <Clock className="w-8 h-8 opacity-20" />
+                </div>
+                <p className="font-bold">Queue Empty</p>
+                <p className="text-sm opacity-70">No patients currently in {activeStage}</p>
               </div>
-              <p className="font-bold">Queue Empty</p>
-              <p className="text-sm opacity-70">No patients currently in {activeStage}</p>
-            </div>
-          )}
-        </div>
+            )}
+          </div>
+        )}
       </div>
 
       {showCheckInModal && renderCheckInModal()}
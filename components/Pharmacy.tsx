@@ -1,33 +1,51 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import useStore from '../store'
-import { InventoryItem, Supplier, InventoryLog, Visit } from '../types';
+import { InventoryItem, Supplier, InventoryLog, InventoryReconciliation, Visit, PurchaseOrder, GoodsReceiptLine, ClinicSettings, StockTake as StockTakeSession, WitnessConfirmation } from '../types';
+import { db } from '../services/db';
 import {
     Search, Plus, Package, AlertCircle, Filter, X, Check, Edit2,
     Trash2, Download, ArrowUpDown, RefreshCw, DollarSign, ChevronDown,
     AlertTriangle, History, ChevronLeft, ChevronRight, CheckSquare, Square,
     Truck, Calendar, ClipboardList, Briefcase, Mail, Phone, Tag, Building, CheckCircle,
-    Pill, ArrowRight, Receipt, Printer, QrCode
+    Pill, ArrowRight, Receipt, Printer, QrCode, ShoppingCart, TrendingDown, ClipboardCheck, ShieldCheck
 } from 'lucide-react';
 import { canCurrentUser } from '../lib/roleMapper'
+import { hasPermission } from '../lib/rbac'
+import { getItemBatches, isBatchExpired, isBatchExpiringSoon, createBatch, withBatches, sortBatchesFefo, mergePrescriptionLines } from '../lib/inventory'
+import { buildReorderSuggestions } from '../lib/reorder'
+import PurchaseOrders from './PurchaseOrders';
+import ReorderSuggestions from './ReorderSuggestions';
+import StockTake from './StockTake';
+import ControlledRegister from './ControlledRegister';
+import WitnessConfirmModal from './WitnessConfirmModal';
 
 interface PharmacyProps {
     inventory: InventoryItem[];
     suppliers: Supplier[];
     logs: InventoryLog[];
     visits?: Visit[]; // Added to see prescriptions
-    onDispense?: (visit: Visit) => void; // Handler to dispense meds
+    onDispense?: (visit: Visit, witness?: WitnessConfirmation) => void | Promise<void>; // Handler to dispense meds
     addInventoryItem: (item: InventoryItem) => void;
-    updateInventoryItem: (item: InventoryItem, reason?: string) => void;
+    updateInventoryItem: (item: InventoryItem, reason?: string, witness?: WitnessConfirmation) => void | Promise<void>;
     deleteInventoryItem: (id: string) => void;
     addSupplier: (s: Supplier) => void;
     updateSupplier: (s: Supplier) => void;
     deleteSupplier: (id: string) => void;
+    purchaseOrders?: PurchaseOrder[];
+    settings?: ClinicSettings;
+    addPurchaseOrder?: (order: PurchaseOrder) => void | Promise<void>;
+    updatePurchaseOrder?: (order: PurchaseOrder) => void | Promise<void>;
+    receivePurchaseOrder?: (orderId: string, lines: GoodsReceiptLine[], witness?: WitnessConfirmation) => void | Promise<void>;
+    stockTakes?: StockTakeSession[];
+    startStockTake?: (stockTake: StockTakeSession) => void | Promise<void>;
+    saveStockTake?: (stockTake: StockTakeSession) => void | Promise<void>;
+    postStockTake?: (stockTake: StockTakeSession, witness?: WitnessConfirmation) => void | Promise<void>;
 }
 
 type SortField = 'name' | 'stock' | 'price' | 'category' | 'expiryDate';
 type SortDirection = 'asc' | 'desc';
 type StockFilter = 'All' | 'Low' | 'Out' | 'Good' | 'Expiring';
-type Tab = 'prescriptions' | 'inventory' | 'suppliers' | 'alerts' | 'logs' | 'invoices';
+type Tab = 'prescriptions' | 'inventory' | 'suppliers' | 'alerts' | 'reorder' | 'orders' | 'stocktake' | 'controlled' | 'logs' | 'invoices';
 
 const Pharmacy: React.FC<PharmacyProps> = ({
     inventory,
@@ -41,8 +59,20 @@ const Pharmacy: React.FC<PharmacyProps> = ({
     addSupplier,
     updateSupplier,
     deleteSupplier,
+    purchaseOrders = [],
+    settings,
+    addPurchaseOrder,
+    updatePurchaseOrder,
+    receivePurchaseOrder,
+    stockTakes = [],
+    startStockTake,
+    saveStockTake,
+    postStockTake,
 }: PharmacyProps) => {
     const [activeTab, setActiveTab] = useState<Tab>('prescriptions');
+    const currentUser = useStore(state => state.currentUser);
+    const canManageControlled = !!currentUser && hasPermission(currentUser.role, 'controlled.register');
+    const [draftOrderSupplierId, setDraftOrderSupplierId] = useState<string | null>(null);
 
     // -- Filter & Sort State --
     const [searchTerm, setSearchTerm] = useState('');
@@ -68,9 +98,19 @@ const Pharmacy: React.FC<PharmacyProps> = ({
     const [selectedItemForRestock, setSelectedItemForRestock] = useState<InventoryItem | null>(null);
     const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
     const [selectedInvoiceVisit, setSelectedInvoiceVisit] = useState<Visit | null>(null);
+    const [dispensingVisitId, setDispensingVisitId] = useState<string | null>(null);
+    // Controlled drug movement awaiting a second staff member's confirmation
+    const [witnessRequest, setWitnessRequest] = useState<{ title: string; description: string; onConfirm: (witness: WitnessConfirmation) => Promise<void> } | null>(null);
+
+    // -- Ledger State --
+    const [historyItem, setHistoryItem] = useState<InventoryItem | null>(null);
+    const [historyLogs, setHistoryLogs] = useState<InventoryLog[]>([]);
+    const [isHistoryLoading, setIsHistoryLoading] = useState(false);
+    const [reconciliation, setReconciliation] = useState<InventoryReconciliation[] | null>(null);
+    const [isReconciling, setIsReconciling] = useState(false);
 
     // -- Forms --
-    const [restockForm, setRestockForm] = useState({ amount: '', batch: '', expiry: '' });
+    const [restockForm, setRestockForm] = useState({ amount: '', batch: '', expiry: '', supplierId: '' });
 
     const [newItemForm, setNewItemForm] = useState({
         name: '',
@@ -81,7 +121,8 @@ const Pharmacy: React.FC<PharmacyProps> = ({
         price: '',
         batchNumber: '',
         expiryDate: '',
-        supplierId: ''
+        supplierId: '',
+        isControlled: false
     });
 
     const [supplierForm, setSupplierForm] = useState({
@@ -89,16 +130,9 @@ const Pharmacy: React.FC<PharmacyProps> = ({
     });
 
     // -- Helpers --
-    const isExpiringSoon = (dateStr?: string) => {
-        if (!dateStr) return false;
-        const days = (new Date(dateStr).getTime() - new Date().getTime()) / (1000 * 3600 * 24);
-        return days <= 30 && days > 0;
-    };
-
-    const isExpired = (dateStr?: string) => {
-        if (!dateStr) return false;
-        return new Date(dateStr) < new Date();
-    };
+    // Expiry is tracked per lot: an item is flagged if any lot holding stock is affected
+    const hasExpiringLot = (item: InventoryItem) => getItemBatches(item).some(b => b.quantity > 0 && isBatchExpiringSoon(b));
+    const hasExpiredLot = (item: InventoryItem) => getItemBatches(item).some(b => b.quantity > 0 && isBatchExpired(b));
 
     // -- Derived Metrics --
     const stats = useMemo(() => {
@@ -106,10 +140,14 @@ const Pharmacy: React.FC<PharmacyProps> = ({
         const lowStock = inventory.filter(i => i.stock <= i.minStockLevel).length;
         const outOfStock = inventory.filter(i => i.stock === 0).length;
         const totalValue = inventory.reduce((acc, item) => acc + (item.price * item.stock), 0);
-        const expiring = inventory.filter(i => isExpiringSoon(i.expiryDate)).length;
+        const lots = inventory.flatMap(i => getItemBatches(i)).filter(b => b.quantity > 0);
+        const expiring = lots.filter(b => isBatchExpiringSoon(b)).length;
+        const expired = lots.filter(b => isBatchExpired(b)).length;
         const pendingPrescriptions = visits.filter(v => v.stage === 'Pharmacy').length;
-        return { totalItems, lowStock, outOfStock, totalValue, expiring, pendingPrescriptions };
-    }, [inventory, visits]);
+        // Uses recent ledger entries; the Reorder tab loads the full consumption window
+        const toReorder = buildReorderSuggestions(inventory, logs, visits).filter(s => s.needsReorder).length;
+        return { totalItems, lowStock, outOfStock, totalValue, expiring, expired, pendingPrescriptions, toReorder };
+    }, [inventory, logs, visits]);
 
     // -- Filtering & Sorting Logic --
     const filteredAndSortedInventory = useMemo(() => {
@@ -120,7 +158,7 @@ const Pharmacy: React.FC<PharmacyProps> = ({
             const lowerTerm = searchTerm.toLowerCase();
             data = data.filter(item =>
                 item.name.toLowerCase().includes(lowerTerm) ||
-                item.batchNumber?.toLowerCase().includes(lowerTerm) ||
+                getItemBatches(item).some(b => b.batchNumber?.toLowerCase().includes(lowerTerm)) ||
                 item.id.toLowerCase().includes(lowerTerm)
             );
         }
@@ -133,7 +171,7 @@ const Pharmacy: React.FC<PharmacyProps> = ({
             if (stockFilter === 'Low') data = data.filter(item => item.stock > 0 && item.stock <= item.minStockLevel);
             else if (stockFilter === 'Out') data = data.filter(item => item.stock === 0);
             else if (stockFilter === 'Good') data = data.filter(item => item.stock > item.minStockLevel);
-            else if (stockFilter === 'Expiring') data = data.filter(item => isExpiringSoon(item.expiryDate) || isExpired(item.expiryDate));
+            else if (stockFilter === 'Expiring') data = data.filter(item => hasExpiringLot(item) || hasExpiredLot(item));
         }
 
         // 3. Sorting
@@ -185,11 +223,57 @@ const Pharmacy: React.FC<PharmacyProps> = ({
         setEditingItem(null);
         setNewItemForm({
             name: '', category: 'Medicine', stock: '', minStockLevel: '10',
-            unit: 'Tablets', price: '', batchNumber: '', expiryDate: '', supplierId: ''
+            unit: 'Tablets', price: '', batchNumber: '', expiryDate: '', supplierId: '', isControlled: false
         });
         setIsItemModalOpen(true);
     };
 
+    const openHistoryModal = async (item: InventoryItem) => {
+        setHistoryItem(item);
+        setHistoryLogs([]);
+        setIsHistoryLoading(true);
+        try {
+            setHistoryLogs(await db.getInventoryLogs(item.id));
+        } catch (e) {
+            console.error('getInventoryLogs error', e);
+            useStore.getState().actions.showToast('Could not load stock history.', 'error');
+        } finally {
+            setIsHistoryLoading(false);
+        }
+    };
+
+    const runReconciliation = async () => {
+        setIsReconciling(true);
+        try {
+            setReconciliation(await db.getInventoryReconciliation());
+        } catch (e) {
+            console.error('getInventoryReconciliation error', e);
+            useStore.getState().actions.showToast('Reconciliation failed.', 'error');
+        } finally {
+            setIsReconciling(false);
+        }
+    };
+
+    const handleDiscardLot = (item: InventoryItem, lotId: string) => {
+        const lot = getItemBatches(item).find(b => b.id === lotId);
+        if (!lot) return;
+        const remaining = getItemBatches(item).filter(b => b.id !== lotId);
+        const reason = `Discarded lot ${lot.batchNumber || 'unlabelled'} (-${lot.quantity})`;
+
+        if (item.isControlled) {
+            setWitnessRequest({
+                title: `Witness Disposal: ${item.name}`,
+                description: `Discarding ${lot.quantity} ${item.unit} of a controlled drug.`,
+                onConfirm: async (witness) => {
+                    await updateInventoryItem(withBatches(item, remaining), reason, witness);
+                    setWitnessRequest(null);
+                }
+            });
+            return;
+        }
+        updateInventoryItem(withBatches(item, remaining), reason);
+    };
+
     const openEditItemModal = (item: InventoryItem) => {
         setEditingItem(item);
         setNewItemForm({
@@ -201,14 +285,15 @@ const Pharmacy: React.FC<PharmacyProps> = ({
             price: item.price.toString(),
             batchNumber: item.batchNumber || '',
             expiryDate: item.expiryDate || '',
-            supplierId: item.supplierId || ''
+            supplierId: item.supplierId || '',
+            isControlled: !!item.isControlled
         });
         setIsItemModalOpen(true);
     };
 
     const openRestockModal = (item: InventoryItem) => {
         setSelectedItemForRestock(item);
-        setRestockForm({ amount: '', batch: item.batchNumber || '', expiry: item.expiryDate || '' });
+        setRestockForm({ amount: '', batch: '', expiry: '', supplierId: item.supplierId || '' });
         setIsRestockModalOpen(true);
     };
 
@@ -224,18 +309,60 @@ const Pharmacy: React.FC<PharmacyProps> = ({
         const amount = parseInt(restockForm.amount);
         if (isNaN(amount) || amount <= 0) return;
 
-        const updatedItem: InventoryItem = {
-            ...selectedItemForRestock,
-            stock: selectedItemForRestock.stock + amount,
-            batchNumber: restockForm.batch || selectedItemForRestock.batchNumber,
-            expiryDate: restockForm.expiry || selectedItemForRestock.expiryDate
-        };
-
-        updateInventoryItem(updatedItem, `Manual Restock (+${amount})`);
+        // Each restock is received as its own lot so older stock keeps its batch and expiry
+        const lot = createBatch({
+            batchNumber: restockForm.batch || undefined,
+            quantity: amount,
+            expiryDate: restockForm.expiry || undefined,
+            supplierId: restockForm.supplierId || undefined
+        });
+        const updatedItem = withBatches(selectedItemForRestock, [...getItemBatches(selectedItemForRestock), lot]);
+        const reason = `Manual Restock (+${amount}${lot.batchNumber ? `, Lot ${lot.batchNumber}` : ''})`;
+
+        if (updatedItem.isControlled) {
+            setWitnessRequest({
+                title: `Witness Receipt: ${updatedItem.name}`,
+                description: `Receiving ${amount} ${updatedItem.unit} of a controlled drug.`,
+                onConfirm: async (witness) => {
+                    await updateInventoryItem(updatedItem, reason, witness);
+                    setWitnessRequest(null);
+                }
+            });
+        } else {
+            updateInventoryItem(updatedItem, reason);
+        }
         setIsRestockModalOpen(false);
         setSelectedItemForRestock(null);
     };
 
+    const handleDispense = async (visit: Visit) => {
+        if (!onDispense || dispensingVisitId) return;
+        const controlled = visit.prescription.filter(line => inventory.find(i => i.id === line.inventoryId)?.isControlled);
+        if (controlled.length > 0) {
+            setWitnessRequest({
+                title: `Witness Dispense: ${visit.patientName}`,
+                description: `This prescription includes ${controlled.map(line => line.name).join(', ')}.`,
+                onConfirm: async (witness) => {
+                    setDispensingVisitId(visit.id);
+                    try {
+                        await onDispense(visit, witness);
+                        setWitnessRequest(null);
+                    } finally {
+                        setDispensingVisitId(null);
+                    }
+                }
+            });
+            return;
+        }
+
+        setDispensingVisitId(visit.id);
+        try {
+            await onDispense(visit);
+        } finally {
+            setDispensingVisitId(null);
+        }
+    };
+
     const handleItemSubmit = (e: React.FormEvent) => {
         e.preventDefault();
         if (!newItemForm.name) return;
@@ -245,23 +372,46 @@ const Pharmacy: React.FC<PharmacyProps> = ({
         const safeMinStock = Math.max(0, parseInt(newItemForm.minStockLevel) || 0);
         const safePrice = Math.max(0, parseFloat(newItemForm.price) || 0);
 
-        const newItemData: InventoryItem = {
-            id: editingItem ? editingItem.id : Date.now().toString(),
+        const details = {
             name: newItemForm.name,
             category: newItemForm.category as any,
-            stock: safeStock,
             minStockLevel: safeMinStock,
             unit: newItemForm.unit,
             price: safePrice,
-            batchNumber: newItemForm.batchNumber,
-            expiryDate: newItemForm.expiryDate,
-            supplierId: newItemForm.supplierId
+            supplierId: newItemForm.supplierId,
+            isControlled: newItemForm.isControlled
         };
 
         if (editingItem) {
-            updateInventoryItem(newItemData);
+            // Stock and lots are only changed through restocking and dispensing
+            const updatedItem = { ...editingItem, ...details };
+            if (!!editingItem.isControlled !== details.isControlled) {
+                setWitnessRequest({
+                    title: `Witness Change: ${updatedItem.name}`,
+                    description: details.isControlled
+                        ? 'Flagging this item as a controlled drug opens its register.'
+                        : 'Removing the controlled flag closes this item\'s register.',
+                    onConfirm: async (witness) => {
+                        await updateInventoryItem(updatedItem, undefined, witness);
+                        setWitnessRequest(null);
+                    }
+                });
+            } else {
+                updateInventoryItem(updatedItem);
+            }
         } else {
-            addInventoryItem(newItemData);
+            if (details.isControlled && safeStock > 0) {
+                // Opening stock of a controlled drug has to be received with a witness
+                useStore.getState().actions.showToast('Add a controlled drug with zero opening stock, then restock it with a witness.', 'error');
+                return;
+            }
+            const openingLot = safeStock > 0 ? [createBatch({
+                batchNumber: newItemForm.batchNumber || undefined,
+                quantity: safeStock,
+                expiryDate: newItemForm.expiryDate || undefined,
+                supplierId: newItemForm.supplierId || undefined
+            })] : [];
+            addInventoryItem(withBatches({ id: Date.now().toString(), stock: 0, ...details }, openingLot));
         }
         setIsItemModalOpen(false);
     };
@@ -322,15 +472,15 @@ const Pharmacy: React.FC<PharmacyProps> = ({
             </div>
 
             <div
-                onClick={() => { setStockFilter('Low'); setActiveTab('inventory'); }}
+                onClick={() => setActiveTab('reorder')}
                 className="bg-white dark:bg-slate-800 p-4 sm:p-5 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-700 flex flex-col sm:flex-row items-center sm:items-start gap-3 sm:gap-4 cursor-pointer hover:border-red-200 transition-all group"
             >
                 <div className="p-2.5 sm:p-3 bg-red-50 dark:bg-red-900/30 rounded-xl text-red-600 dark:text-red-400 group-hover:scale-110 transition-transform">
                     <AlertTriangle className="w-5 h-5 sm:w-6 sm:h-6" />
                 </div>
                 <div className="text-center sm:text-left">
-                    <div className="text-xl sm:text-2xl md:text-3xl font-bold text-slate-900 dark:text-white">{stats.lowStock + stats.outOfStock}</div>
-                    <div className="text-[10px] sm:text-xs md:text-sm text-slate-500 font-medium">Low Stock</div>
+                    <div className="text-xl sm:text-2xl md:text-3xl font-bold text-slate-900 dark:text-white">{stats.toReorder}</div>
+                    <div className="text-[10px] sm:text-xs md:text-sm text-slate-500 font-medium">To Reorder</div>
                 </div>
             </div>
 
@@ -371,18 +521,25 @@ const Pharmacy: React.FC<PharmacyProps> = ({
 
                             <div className="space-y-3 mb-6">
                                 {visit.prescription.map((item, i) => {
-                                    const inStock = inventory.find(inv => inv.id === item.inventoryId)?.stock || 0;
+                                    const stockItem = inventory.find(inv => inv.id === item.inventoryId);
+                                    const inStock = stockItem?.stock || 0;
                                     const isEnough = inStock >= item.quantity;
                                     return (
                                         <div key={i} className="flex justify-between items-center p-3 bg-slate-50 dark:bg-slate-700/50 rounded-xl">
                                             <div>
                                                 <div className="font-bold text-slate-800 dark:text-white text-sm">{item.name}</div>
                                                 <div className="text-xs text-slate-500">{item.dosage}</div>
+                                                {item.safetyOverrides?.map((o, j) => (
+                                                    <div key={j} className="text-[10px] text-red-600 flex items-start gap-1 mt-0.5">
+                                                        <AlertTriangle className="w-3 h-3 shrink-0" />
+                                                        <span>Prescribed despite: {o.alerts.join('; ')} ({o.reason}{o.byName ? `, ${o.byName}` : ''})</span>
+                                                    </div>
+                                                ))}
                                             </div>
                                             <div className="text-right">
                                                 <div className="font-bold text-slate-900 dark:text-white">x{item.quantity}</div>
                                                 <div className={`text-[10px] font-bold ${isEnough ? 'text-green-600' : 'text-red-500'}`}>
-                                                    Stock: {inStock}
+                                                    Stock: {inStock}{stockItem?.reserved ? ` (${stockItem.reserved} held)` : ''}
                                                 </div>
                                             </div>
                                         </div>
@@ -391,18 +548,18 @@ const Pharmacy: React.FC<PharmacyProps> = ({
                             </div>
 
                             <button
-                                onClick={() => {
+                                onClick={async () => {
                                     if (!canCurrentUser('pharmacy.dispense')) {
                                         try { useStore.getState().actions.showToast('You are not authorized to dispense medications.', 'error') } catch (e) { alert('You are not authorized to dispense medications.') }
                                         return
                                     }
-                                    onDispense && onDispense(visit)
+                                    await handleDispense(visit);
                                 }}
                                 aria-disabled={!canCurrentUser('pharmacy.dispense')}
-                                disabled={!canCurrentUser('pharmacy.dispense')}
+                                disabled={!canCurrentUser('pharmacy.dispense') || dispensingVisitId === visit.id}
                                 className={`w-full py-3 font-bold rounded-xl transition-all flex items-center justify-center gap-2 ${canCurrentUser('pharmacy.dispense') ? 'bg-teal-600 text-white hover:bg-teal-700 shadow-lg shadow-teal-200 dark:shadow-none' : 'bg-slate-100 text-slate-400 cursor-not-allowed opacity-60'}`}
                             >
-                                <CheckCircle className="w-5 h-5" /> Dispense & Send to Clearance
+                                <CheckCircle className="w-5 h-5" /> {dispensingVisitId === visit.id ? 'Dispensing...' : 'Dispense & Send to Clearance'}
                             </button>
                         </div>
                     ))}
@@ -562,8 +719,9 @@ const Pharmacy: React.FC<PharmacyProps> = ({
                         </thead>
                         <tbody className="divide-y divide-slate-50 dark:divide-slate-700 text-sm">
                             {paginatedItems.map((item) => {
-                                const expiring = isExpiringSoon(item.expiryDate);
-                                const expired = isExpired(item.expiryDate);
+                                const expiring = hasExpiringLot(item);
+                                const expired = hasExpiredLot(item);
+                                const lotCount = getItemBatches(item).filter(b => b.quantity > 0).length;
                                 return (
                                     <tr key={item.id} className="hover:bg-slate-50 dark:hover:bg-slate-700/30 transition-colors group">
                                         <td className="px-6 py-4">
@@ -571,6 +729,7 @@ const Pharmacy: React.FC<PharmacyProps> = ({
                                             <div className="text-xs text-slate-400 flex items-center gap-2">
                                                 <span>{item.unit}</span>
                                                 {item.batchNumber && <span className="px-1.5 py-0.5 bg-slate-100 dark:bg-slate-700 rounded text-[10px] font-mono">Batch: {item.batchNumber}</span>}
+                                                {item.isControlled && <span className="px-1.5 py-0.5 bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300 rounded text-[10px] font-bold">Controlled</span>}
                                             </div>
                                         </td>
                                         <td className="px-6 py-4">
@@ -592,6 +751,11 @@ const Pharmacy: React.FC<PharmacyProps> = ({
                                                 <span className={`text-xs font-bold ${item.stock <= item.minStockLevel ? 'text-red-600 dark:text-red-400' : 'text-slate-600 dark:text-slate-400'}`}>
                                                     {item.stock}
                                                 </span>
+                                                {!!item.reserved && (
+                                                    <span className="text-[10px] font-medium text-slate-400 whitespace-nowrap" title="Held by prescriptions awaiting dispensing">
+                                                        {item.reserved} held
+                                                    </span>
+                                                )}
                                             </div>
                                         </td>
                                         <td className="px-6 py-4">
@@ -599,6 +763,7 @@ const Pharmacy: React.FC<PharmacyProps> = ({
                                                 <div className={`flex items-center gap-1.5 ${expired ? 'text-red-600 font-bold' : expiring ? 'text-orange-600 font-bold' : 'text-slate-600 dark:text-slate-400'}`}>
                                                     {(expired || expiring) && <AlertTriangle className="w-3.5 h-3.5" />}
                                                     {item.expiryDate}
+                                                    {lotCount > 1 && <span className="text-[10px] font-medium text-slate-400">+{lotCount - 1} lot{lotCount > 2 ? 's' : ''}</span>}
                                                 </div>
                                             ) : (
                                                 <span className="text-slate-400 italic">--</span>
@@ -621,7 +786,7 @@ const Pharmacy: React.FC<PharmacyProps> = ({
                                         </td>
                                         <td className="px-6 py-4 text-right">
                                             <div className="flex items-center justify-end gap-2 opacity-100 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity">
-                                                <button onClick={() => { setSearchTerm(item.name); setActiveTab('logs'); }} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg text-slate-500 dark:text-slate-400 transition-colors" title="Audit Log">
+                                                <button onClick={() => openHistoryModal(item)} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg text-slate-500 dark:text-slate-400 transition-colors" title="Stock History">
                                                     <ClipboardList className="w-4 h-4" />
                                                 </button>
                                                 <button onClick={() => openRestockModal(item)} className="p-2 hover:bg-teal-50 dark:hover:bg-teal-900/30 rounded-lg text-teal-600 dark:text-teal-400 transition-colors" title="Restock">
@@ -740,13 +905,48 @@ const Pharmacy: React.FC<PharmacyProps> = ({
             <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
                 <div className="flex justify-between items-center mb-6">
                     <h3 className="text-xl font-bold text-slate-900 dark:text-white">Inventory Audit Trail</h3>
-                    {searchTerm && (
-                        <button onClick={() => setSearchTerm('')} className="text-sm text-teal-600 font-bold hover:underline flex items-center gap-1">
-                            <X className="w-4 h-4" /> Clear Filter: "{searchTerm}"
+                    <div className="flex items-center gap-4">
+                        {searchTerm && (
+                            <button onClick={() => setSearchTerm('')} className="text-sm text-teal-600 font-bold hover:underline flex items-center gap-1">
+                                <X className="w-4 h-4" /> Clear Filter: "{searchTerm}"
+                            </button>
+                        )}
+                        <button
+                            onClick={runReconciliation}
+                            disabled={isReconciling}
+                            className="px-4 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl text-sm font-bold text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700 flex items-center gap-2 disabled:opacity-60"
+                        >
+                            <CheckSquare className="w-4 h-4" /> {isReconciling ? 'Checking...' : 'Reconcile Ledger'}
                         </button>
-                    )}
+                    </div>
                 </div>
 
+                {reconciliation && (() => {
+                    const drifted = reconciliation.filter(r => r.variance !== 0);
+                    return (
+                        <div className={`mb-6 p-4 rounded-2xl border ${drifted.length === 0 ? 'bg-emerald-50 dark:bg-emerald-900/20 border-emerald-100 dark:border-emerald-900' : 'bg-red-50 dark:bg-red-900/20 border-red-100 dark:border-red-900'}`}>
+                            <div className="flex justify-between items-center">
+                                <p className={`font-bold text-sm ${drifted.length === 0 ? 'text-emerald-700 dark:text-emerald-300' : 'text-red-700 dark:text-red-300'}`}>
+                                    {drifted.length === 0
+                                        ? `Ledger reconciled: all ${reconciliation.length} items match their movement history.`
+                                        : `${drifted.length} of ${reconciliation.length} items do not match their movement history.`}
+                                </p>
+                                <button onClick={() => setReconciliation(null)} className="text-slate-400 hover:text-slate-600"><X className="w-4 h-4" /></button>
+                            </div>
+                            {drifted.length > 0 && (
+                                <div className="mt-3 space-y-1.5">
+                                    {drifted.map(r => (
+                                        <div key={r.itemId} className="flex justify-between text-xs text-red-700 dark:text-red-300">
+                                            <span className="font-medium">{r.itemName}</span>
+                                            <span className="font-mono">Stock {r.stock} · Ledger {r.ledgerBalance} · Variance {r.variance > 0 ? `+${r.variance}` : r.variance}</span>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    );
+                })()}
+
                 <div className="bg-white dark:bg-slate-800 rounded-3xl shadow-sm border border-slate-100 dark:border-slate-700 overflow-hidden">
                     <div className="overflow-x-auto">
                         <table className="w-full text-left min-w-[800px]">
@@ -756,6 +956,7 @@ const Pharmacy: React.FC<PharmacyProps> = ({
                                     <th className="px-6 py-4">Item</th>
                                     <th className="px-6 py-4">Action</th>
                                     <th className="px-6 py-4">Change</th>
+                                    <th className="px-6 py-4">Balance</th>
                                     <th className="px-6 py-4">User</th>
                                     <th className="px-6 py-4">Notes</th>
                                 </tr>
@@ -773,7 +974,8 @@ const Pharmacy: React.FC<PharmacyProps> = ({
                                             <span className={`px-2 py-1 rounded text-xs font-bold ${log.action === 'Restocked' ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300' :
                                                 log.action === 'Dispensed' ? 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-300' :
                                                     log.action === 'Deleted' ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300' :
-                                                        'bg-slate-100 text-slate-700 dark:bg-slate-700 dark:text-slate-300'
+                                                        log.action === 'Adjusted' ? 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300' :
+                                                            'bg-slate-100 text-slate-700 dark:bg-slate-700 dark:text-slate-300'
                                                 }`}>
                                                 {log.action}
                                             </span>
@@ -781,12 +983,13 @@ const Pharmacy: React.FC<PharmacyProps> = ({
                                         <td className="px-6 py-4 font-mono text-xs">
                                             {log.quantityChange && log.quantityChange > 0 ? `+${log.quantityChange}` : log.quantityChange || '-'}
                                         </td>
+                                        <td className="px-6 py-4 font-mono text-xs text-slate-600 dark:text-slate-300">{log.quantityAfter ?? '-'}</td>
                                         <td className="px-6 py-4 text-slate-600 dark:text-slate-300">{log.user}</td>
                                         <td className="px-6 py-4 text-slate-500 dark:text-slate-400 italic max-w-xs truncate">{log.notes}</td>
                                     </tr>
                                 ))}
                                 {filteredLogs.length === 0 && (
-                                    <tr><td colSpan={6} className="px-6 py-12 text-center text-slate-400">No logs found.</td></tr>
+                                    <tr><td colSpan={7} className="px-6 py-12 text-center text-slate-400">No logs found.</td></tr>
                                 )}
                             </tbody>
                         </table>
@@ -798,7 +1001,7 @@ const Pharmacy: React.FC<PharmacyProps> = ({
 
     const renderAlertsTab = () => {
         const problems = inventory.filter(item =>
-            item.stock <= item.minStockLevel || isExpiringSoon(item.expiryDate) || isExpired(item.expiryDate)
+            item.stock <= item.minStockLevel || hasExpiringLot(item) || hasExpiredLot(item)
         );
 
         return (
@@ -807,37 +1010,65 @@ const Pharmacy: React.FC<PharmacyProps> = ({
 
                 <div className="space-y-4">
                     {problems.map(item => {
-                        const expired = isExpired(item.expiryDate);
+                        const expired = hasExpiredLot(item);
                         const low = item.stock <= item.minStockLevel;
+                        const flaggedLots = sortBatchesFefo(getItemBatches(item)).filter(b => isBatchExpired(b) || isBatchExpiringSoon(b));
                         return (
-                            <div key={item.id} className="bg-white dark:bg-slate-800 p-4 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-700 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
-                                <div className="flex items-center gap-4">
-                                    <div className={`p-3 rounded-xl shrink-0 ${expired ? 'bg-red-100 text-red-600' : 'bg-orange-100 text-orange-600'}`}>
-                                        <AlertCircle className="w-6 h-6" />
-                                    </div>
-                                    <div>
-                                        <h4 className="font-bold text-slate-900 dark:text-white">{item.name}</h4>
-                                        <div className="flex flex-wrap gap-x-2 gap-y-1 text-sm text-slate-500 mt-1">
-                                            {low && <span className="text-red-500 font-bold whitespace-nowrap">Low Stock: {item.stock} / {item.minStockLevel}</span>}
-                                            {low && expired && <span className="hidden sm:inline">•</span>}
-                                            {expired && <span className="text-red-500 font-bold whitespace-nowrap">Expired: {item.expiryDate}</span>}
-                                            {!expired && isExpiringSoon(item.expiryDate) && <span className="text-orange-500 font-bold whitespace-nowrap">Expiring: {item.expiryDate}</span>}
+                            <div key={item.id} className="bg-white dark:bg-slate-800 p-4 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-700">
+                                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                                    <div className="flex items-center gap-4">
+                                        <div className={`p-3 rounded-xl shrink-0 ${expired ? 'bg-red-100 text-red-600' : 'bg-orange-100 text-orange-600'}`}>
+                                            <AlertCircle className="w-6 h-6" />
+                                        </div>
+                                        <div>
+                                            <h4 className="font-bold text-slate-900 dark:text-white">{item.name}</h4>
+                                            <div className="flex flex-wrap gap-x-2 gap-y-1 text-sm text-slate-500 mt-1">
+                                                {low && <span className="text-red-500 font-bold whitespace-nowrap">Low Stock: {item.stock} / {item.minStockLevel}</span>}
+                                                {low && flaggedLots.length > 0 && <span className="hidden sm:inline">•</span>}
+                                                {flaggedLots.length > 0 && <span className={`${expired ? 'text-red-500' : 'text-orange-500'} font-bold whitespace-nowrap`}>{flaggedLots.length} lot{flaggedLots.length > 1 ? 's' : ''} need attention</span>}
+                                            </div>
                                         </div>
                                     </div>
+                                    <div className="flex gap-2 w-full sm:w-auto">
+                                        {low && addPurchaseOrder && (
+                                            <button onClick={() => { setDraftOrderSupplierId(item.supplierId || ''); setActiveTab('orders'); }} className="flex-1 sm:flex-none px-4 py-2 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 hover:bg-slate-200 dark:hover:bg-slate-600 rounded-xl font-bold text-sm transition-colors flex items-center justify-center gap-1.5">
+                                                <ShoppingCart className="w-4 h-4" /> Order
+                                            </button>
+                                        )}
+                                        <button onClick={() => openRestockModal(item)} className="flex-1 sm:flex-none px-4 py-2 bg-teal-600 text-white hover:bg-teal-700 rounded-xl font-bold text-sm transition-colors">
+                                            Restock
+                                        </button>
+                                    </div>
                                 </div>
-                                <div className="flex gap-2 w-full sm:w-auto">
-                                    <button
-                                        onClick={() => { if (!canCurrentUser('inventory.delete')) { try { useStore.getState().actions.showToast('Not authorized to delete inventory items.', 'error') } catch (e) { alert('Not authorized to delete inventory items.') } return } deleteInventoryItem(item.id) }}
-                                        className="flex-1 sm:flex-none px-4 py-2 text-red-600 bg-red-50 dark:bg-red-900/20 hover:bg-red-100 rounded-xl font-bold text-sm transition-colors"
-                                        disabled={!canCurrentUser('inventory.delete')}
-                                        aria-disabled={!canCurrentUser('inventory.delete')}
-                                    >
-                                        Discard
-                                    </button>
-                                    <button onClick={() => openRestockModal(item)} className="flex-1 sm:flex-none px-4 py-2 bg-teal-600 text-white hover:bg-teal-700 rounded-xl font-bold text-sm transition-colors">
-                                        Restock
-                                    </button>
-                                </div>
+
+                                {flaggedLots.length > 0 && (
+                                    <div className="mt-4 space-y-2 border-t border-slate-100 dark:border-slate-700 pt-3">
+                                        {flaggedLots.map(lot => {
+                                            const lotExpired = isBatchExpired(lot);
+                                            return (
+                                                <div key={lot.id} className="flex items-center justify-between gap-3 p-2.5 bg-slate-50 dark:bg-slate-700/50 rounded-xl text-sm">
+                                                    <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+                                                        <span className="px-1.5 py-0.5 bg-white dark:bg-slate-700 rounded text-[10px] font-mono text-slate-600 dark:text-slate-300">Lot: {lot.batchNumber || 'N/A'}</span>
+                                                        <span className="text-slate-600 dark:text-slate-300">{lot.quantity} {item.unit}</span>
+                                                        <span className={`font-bold whitespace-nowrap ${lotExpired ? 'text-red-500' : 'text-orange-500'}`}>
+                                                            {lotExpired ? 'Expired' : 'Expiring'}: {lot.expiryDate}
+                                                        </span>
+                                                    </div>
+                                                    {lotExpired && (
+                                                        <button
+                                                            onClick={() => { if (!canCurrentUser('inventory.edit')) { try { useStore.getState().actions.showToast('Not authorized to discard stock.', 'error') } catch (e) { alert('Not authorized to discard stock.') } return } handleDiscardLot(item, lot.id) }}
+                                                            className="px-3 py-1.5 text-red-600 bg-red-50 dark:bg-red-900/20 hover:bg-red-100 rounded-lg font-bold text-xs transition-colors"
+                                                            disabled={!canCurrentUser('inventory.edit')}
+                                                            aria-disabled={!canCurrentUser('inventory.edit')}
+                                                        >
+                                                            Discard Lot
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                )}
                             </div>
                         );
                     })}
@@ -871,6 +1102,10 @@ const Pharmacy: React.FC<PharmacyProps> = ({
                     { id: 'invoices', label: 'eTIMS Invoices', icon: Receipt },
                     { id: 'inventory', label: 'Inventory List', icon: Package },
                     { id: 'alerts', label: 'Alerts', icon: AlertTriangle },
+                    { id: 'reorder', label: 'Reorder', icon: TrendingDown },
+                    { id: 'orders', label: 'Purchase Orders', icon: ShoppingCart },
+                    { id: 'stocktake', label: 'Stock-Take', icon: ClipboardCheck },
+                    ...(canManageControlled ? [{ id: 'controlled', label: 'Controlled Register', icon: ShieldCheck }] : []),
                     { id: 'suppliers', label: 'Suppliers', icon: Truck },
                     { id: 'logs', label: 'Audit Log', icon: History }
                 ].map(tab => (
@@ -884,8 +1119,8 @@ const Pharmacy: React.FC<PharmacyProps> = ({
                     >
                         <tab.icon className="w-4 h-4" />
                         {tab.label}
-                        {tab.id === 'alerts' && stats.lowStock + stats.expiring > 0 && (
-                            <span className="ml-1 bg-red-500 text-white text-[10px] px-1.5 py-0.5 rounded-full">{stats.lowStock + stats.expiring}</span>
+                        {tab.id === 'alerts' && stats.lowStock + stats.expiring + stats.expired > 0 && (
+                            <span className="ml-1 bg-red-500 text-white text-[10px] px-1.5 py-0.5 rounded-full">{stats.lowStock + stats.expiring + stats.expired}</span>
                         )}
                         {tab.id === 'prescriptions' && stats.pendingPrescriptions > 0 && (
                             <span className="ml-1 bg-purple-600 text-white text-[10px] px-1.5 py-0.5 rounded-full">{stats.pendingPrescriptions}</span>
@@ -901,9 +1136,53 @@ const Pharmacy: React.FC<PharmacyProps> = ({
             {activeTab === 'suppliers' && renderSuppliersTab()}
             {activeTab === 'logs' && renderLogsTab()}
             {activeTab === 'alerts' && renderAlertsTab()}
+            {activeTab === 'reorder' && (
+                <ReorderSuggestions
+                    inventory={inventory}
+                    suppliers={suppliers}
+                    logs={logs}
+                    visits={visits}
+                    purchaseOrders={purchaseOrders}
+                    addPurchaseOrder={addPurchaseOrder}
+                />
+            )}
+            {activeTab === 'stocktake' && startStockTake && saveStockTake && postStockTake && (
+                <StockTake
+                    inventory={inventory}
+                    stockTakes={stockTakes}
+                    startStockTake={startStockTake}
+                    saveStockTake={saveStockTake}
+                    postStockTake={postStockTake}
+                />
+            )}
+            {activeTab === 'controlled' && canManageControlled && settings && (
+                <ControlledRegister inventory={inventory} logs={logs} settings={settings} />
+            )}
+            {activeTab === 'orders' && settings && addPurchaseOrder && updatePurchaseOrder && receivePurchaseOrder && (
+                <PurchaseOrders
+                    inventory={inventory}
+                    suppliers={suppliers}
+                    purchaseOrders={purchaseOrders}
+                    settings={settings}
+                    draftSupplierId={draftOrderSupplierId}
+                    onDraftOpened={() => setDraftOrderSupplierId(null)}
+                    addPurchaseOrder={addPurchaseOrder}
+                    updatePurchaseOrder={updatePurchaseOrder}
+                    receivePurchaseOrder={receivePurchaseOrder}
+                />
+            )}
 
             {/* Modals */}
 
+            {witnessRequest && (
+                <WitnessConfirmModal
+                    title={witnessRequest.title}
+                    description={witnessRequest.description}
+                    onConfirm={witnessRequest.onConfirm}
+                    onCancel={() => setWitnessRequest(null)}
+                />
+            )}
+
             {/* Invoice Generation Modal */}
             {isInvoiceModalOpen && selectedInvoiceVisit && (
                 <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/70 backdrop-blur-md animate-in fade-in">
@@ -955,7 +1234,7 @@ const Pharmacy: React.FC<PharmacyProps> = ({
                                         </tr>
                                     ))}
                                     {/* Meds */}
-                                    {selectedInvoiceVisit.prescription.map((med, i) => (
+                                    {mergePrescriptionLines(selectedInvoiceVisit.prescription).map((med, i) => (
                                         <tr key={`med-${i}`}>
                                             <td className="py-1">{med.name}</td>
                                             <td className="text-right">{med.quantity}</td>
@@ -1050,8 +1329,8 @@ const Pharmacy: React.FC<PharmacyProps> = ({
                                 </div>
 
                                 <div>
-                                    <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider block mb-1">Current Stock</label>
-                                    <input type="number" name="stock" value={newItemForm.stock} onChange={handleItemFormChange} className="w-full p-3 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-xl text-sm outline-none dark:text-white font-bold" required />
+                                    <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider block mb-1">{editingItem ? 'Current Stock (use Restock)' : 'Opening Stock'}</label>
+                                    <input type="number" name="stock" value={newItemForm.stock} onChange={handleItemFormChange} disabled={!!editingItem} className="w-full p-3 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-xl text-sm outline-none dark:text-white font-bold disabled:opacity-60" required />
                                 </div>
                                 <div>
                                     <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider block mb-1">Min Stock Level (Alert)</label>
@@ -1070,8 +1349,22 @@ const Pharmacy: React.FC<PharmacyProps> = ({
                                     </select>
                                 </div>
 
-                                <div className="sm:col-span-2 border-t border-slate-100 dark:border-slate-700 pt-4 mt-2">
-                                    <h4 className="font-bold text-slate-900 dark:text-white mb-3 text-sm flex items-center gap-2"><Tag className="w-4 h-4" /> Batch Tracking (Optional)</h4>
+                                <label className={`sm:col-span-2 flex items-start gap-3 p-3 rounded-xl border border-slate-200 dark:border-slate-600 ${canManageControlled ? 'cursor-pointer' : 'opacity-60 cursor-not-allowed'}`}>
+                                    <input
+                                        type="checkbox"
+                                        checked={newItemForm.isControlled}
+                                        disabled={!canManageControlled}
+                                        onChange={(e) => setNewItemForm(prev => ({ ...prev, isControlled: e.target.checked }))}
+                                        className="mt-0.5 w-4 h-4 accent-teal-600"
+                                    />
+                                    <span>
+                                        <span className="block text-sm font-bold text-slate-900 dark:text-white flex items-center gap-1.5"><ShieldCheck className="w-4 h-4 text-amber-600" /> Controlled substance</span>
+                                        <span className="block text-xs text-slate-500">Every stock change needs a witness and is kept in the controlled drug register.</span>
+                                    </span>
+                                </label>
+
+                                {!editingItem && <div className="sm:col-span-2 border-t border-slate-100 dark:border-slate-700 pt-4 mt-2">
+                                    <h4 className="font-bold text-slate-900 dark:text-white mb-3 text-sm flex items-center gap-2"><Tag className="w-4 h-4" /> Opening Lot (Optional)</h4>
                                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-5">
                                         <div>
                                             <label className="text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider block mb-1">Batch Number</label>
@@ -1082,7 +1375,7 @@ const Pharmacy: React.FC<PharmacyProps> = ({
                                             <input type="date" name="expiryDate" value={newItemForm.expiryDate} onChange={handleItemFormChange} className="w-full p-3 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-xl text-sm outline-none dark:text-white font-medium" />
                                         </div>
                                     </div>
-                                </div>
+                                </div>}
                             </div>
 
                             <div className="pt-4 flex gap-3">
@@ -1114,6 +1407,12 @@ const Pharmacy: React.FC<PharmacyProps> = ({
                                     <span className="text-slate-500 font-medium">Current Stock</span>
                                     <span className="font-bold text-teal-600 dark:text-teal-400">{selectedItemForRestock.stock} {selectedItemForRestock.unit}</span>
                                 </div>
+                                {sortBatchesFefo(getItemBatches(selectedItemForRestock)).map(lot => (
+                                    <div key={lot.id} className="flex justify-between items-center text-xs pt-1.5 text-slate-500">
+                                        <span className="font-mono">{lot.batchNumber || 'No batch #'}</span>
+                                        <span className={isBatchExpired(lot) ? 'text-red-500 font-bold' : ''}>{lot.quantity} · {lot.expiryDate || 'No expiry'}</span>
+                                    </div>
+                                ))}
                             </div>
 
                             <div className="space-y-4 mb-6">
@@ -1123,14 +1422,21 @@ const Pharmacy: React.FC<PharmacyProps> = ({
                                 </div>
                                 <div className="grid grid-cols-2 gap-3">
                                     <div>
-                                        <label className="text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase tracking-widest block mb-1.5">New Batch #</label>
+                                        <label className="text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase tracking-widest block mb-1.5">Lot / Batch #</label>
                                         <input value={restockForm.batch} onChange={(e) => setRestockForm({ ...restockForm, batch: e.target.value })} className="w-full p-3 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-xl text-sm outline-none dark:text-white focus:ring-2 focus:ring-teal-500" placeholder="Optional" />
                                     </div>
                                     <div>
-                                        <label className="text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase tracking-widest block mb-1.5">New Expiry</label>
+                                        <label className="text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase tracking-widest block mb-1.5">Lot Expiry</label>
                                         <input type="date" value={restockForm.expiry} onChange={(e) => setRestockForm({ ...restockForm, expiry: e.target.value })} className="w-full p-3 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-xl text-sm outline-none dark:text-white focus:ring-2 focus:ring-teal-500" />
                                     </div>
                                 </div>
+                                <div>
+                                    <label className="text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase tracking-widest block mb-1.5">Supplier</label>
+                                    <select value={restockForm.supplierId} onChange={(e) => setRestockForm({ ...restockForm, supplierId: e.target.value })} className="w-full p-3 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-xl text-sm outline-none dark:text-white focus:ring-2 focus:ring-teal-500">
+                                        <option value="">-- Select Supplier --</option>
+                                        {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                                    </select>
+                                </div>
                             </div>
 
                             <div className="flex gap-3">
@@ -1142,6 +1448,64 @@ const Pharmacy: React.FC<PharmacyProps> = ({
                 </div>
             )}
 
+            {/* Stock History Modal */}
+            {historyItem && (() => {
+                const ledgerBalance = historyLogs.reduce((sum, log) => sum + (log.quantityChange || 0), 0);
+                const variance = historyItem.stock - ledgerBalance;
+                return (
+                    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-200">
+                        <div className="bg-white dark:bg-slate-800 w-full max-w-2xl rounded-3xl shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200 flex flex-col max-h-[90vh]">
+                            <div className="p-5 border-b border-slate-100 dark:border-slate-700 bg-slate-50 dark:bg-slate-700/50 flex justify-between items-center">
+                                <h3 className="font-bold text-slate-900 dark:text-white flex items-center gap-2">
+                                    <History className="w-5 h-5 text-teal-600" /> Stock History: {historyItem.name}
+                                </h3>
+                                <button onClick={() => setHistoryItem(null)} className="text-slate-400 hover:text-slate-600"><X className="w-5 h-5" /></button>
+                            </div>
+                            {!isHistoryLoading && (
+                                <div className={`mx-5 mt-5 p-3 rounded-xl text-sm font-bold flex justify-between ${variance === 0 ? 'bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-300' : 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300'}`}>
+                                    <span>{variance === 0 ? 'Reconciled' : `Ledger off by ${variance > 0 ? `+${variance}` : variance}`}</span>
+                                    <span className="font-mono">Stock {historyItem.stock} · Ledger {ledgerBalance}</span>
+                                </div>
+                            )}
+                            <div className="p-5 overflow-y-auto">
+                                {isHistoryLoading ? (
+                                    <p className="py-8 text-center text-slate-400 text-sm">Loading movements...</p>
+                                ) : historyLogs.length === 0 ? (
+                                    <p className="py-8 text-center text-slate-400 text-sm">No movements recorded.</p>
+                                ) : (
+                                    <table className="w-full text-left text-sm">
+                                        <thead className="text-xs uppercase text-slate-400 font-semibold border-b border-slate-100 dark:border-slate-700">
+                                            <tr>
+                                                <th className="py-2 pr-3">Date</th>
+                                                <th className="py-2 pr-3">Action</th>
+                                                <th className="py-2 pr-3 text-right">Change</th>
+                                                <th className="py-2 pr-3 text-right">Balance</th>
+                                                <th className="py-2 pr-3">User</th>
+                                                <th className="py-2">Reason</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody className="divide-y divide-slate-50 dark:divide-slate-700">
+                                            {historyLogs.map(log => (
+                                                <tr key={log.id}>
+                                                    <td className="py-2 pr-3 text-xs text-slate-500 whitespace-nowrap">{new Date(log.timestamp).toLocaleString()}</td>
+                                                    <td className="py-2 pr-3 text-xs font-bold text-slate-700 dark:text-slate-200">{log.action}</td>
+                                                    <td className={`py-2 pr-3 text-right font-mono text-xs ${(log.quantityChange || 0) < 0 ? 'text-red-600' : 'text-emerald-600'}`}>
+                                                        {log.quantityChange && log.quantityChange > 0 ? `+${log.quantityChange}` : log.quantityChange || 0}
+                                                    </td>
+                                                    <td className="py-2 pr-3 text-right font-mono text-xs text-slate-600 dark:text-slate-300">{log.quantityAfter ?? '-'}</td>
+                                                    <td className="py-2 pr-3 text-xs text-slate-600 dark:text-slate-300">{log.user}</td>
+                                                    <td className="py-2 text-xs text-slate-500 dark:text-slate-400 italic">{log.notes}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                )}
+                            </div>
+                        </div>
+                    </div>
+                );
+            })()}
+
             {/* Supplier Modal */}
             {isSupplierModalOpen && (
                 <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-200">
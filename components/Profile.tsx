@@ -11,6 +11,7 @@ import { supabase } from '../lib/supabaseClient';
 import ChangePasswordModal from './ChangePasswordModal';
 import logger from '../lib/logger';
 import { getAvatarUrl } from '../lib/utils';
+import { hasPermission } from '../lib/rbac';
 
 const Profile: React.FC = () => {
     const { currentUser, actions } = useStore();
@@ -53,8 +54,32 @@ const Profile: React.FC = () => {
         sessionTimeout: '30m'
     });
 
+    // PIN used to witness colleagues' controlled drug receipts and dispenses
+    const [witnessPin, setWitnessPin] = useState('');
+    const [isSavingPin, setIsSavingPin] = useState(false);
+    const canWitness = !!currentUser && hasPermission(currentUser.role, 'controlled.register');
+
     const fileInputRef = useRef<HTMLInputElement>(null);
 
+    const handleSaveWitnessPin = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!/^\d{4,8}$/.test(witnessPin)) {
+            actions.showToast('Witness PIN must be 4 to 8 digits.', 'error');
+            return;
+        }
+        setIsSavingPin(true);
+        try {
+            await db.setWitnessPin(witnessPin);
+            setWitnessPin('');
+            actions.showToast('Witness PIN saved.');
+        } catch (e: any) {
+            logger.error('setWitnessPin error', e);
+            actions.showToast(e?.message || 'Could not save witness PIN.', 'error');
+        } finally {
+            setIsSavingPin(false);
+        }
+    };
+
     const handleEditToggle = () => {
         if (isEditing) {
             setTempProfile(profile);
@@ -587,6 +612,35 @@ const Profile: React.FC = () => {
                                         )}
                                     </div>
 
+                                    {/* Witness PIN */}
+                                    {canWitness && (
+                                        <form onSubmit={handleSaveWitnessPin} className="p-6 border border-slate-100 dark:border-slate-700 rounded-[2rem] flex flex-col md:flex-row md:items-center gap-5">
+                                            <div className="flex items-center gap-4 flex-1">
+                                                <div className="w-12 h-12 bg-amber-100 dark:bg-amber-900/30 rounded-2xl flex items-center justify-center text-amber-600">
+                                                    <Lock className="w-6 h-6" />
+                                                </div>
+                                                <div>
+                                                    <h4 className="font-bold text-slate-900 dark:text-white">Witness PIN</h4>
+                                                    <p className="text-sm text-slate-500">Used to witness colleagues' controlled drug receipts and dispenses.</p>
+                                                </div>
+                                            </div>
+                                            <div className="flex gap-3">
+                                                <input
+                                                    type="password"
+                                                    inputMode="numeric"
+                                                    autoComplete="new-password"
+                                                    value={witnessPin}
+                                                    onChange={(e) => setWitnessPin(e.target.value.replace(/\D/g, '').slice(0, 8))}
+                                                    placeholder="4-8 digits"
+                                                    className="w-36 p-3 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-xl font-bold tracking-widest outline-none dark:text-white focus:ring-2 focus:ring-indigo-500"
+                                                />
+                                                <button type="submit" disabled={isSavingPin || witnessPin.length < 4} className="px-5 py-3 bg-indigo-600 text-white font-bold rounded-xl hover:bg-indigo-700 disabled:opacity-60">
+                                                    {isSavingPin ? 'Saving...' : 'Set PIN'}
+                                                </button>
+                                            </div>
+                                        </form>
+                                    )}
+
                                     {/* Session History */}
                                     <div className="space-y-4">
                                         <h4 className="text-lg font-bold text-slate-900 dark:text-white flex items-center gap-2">
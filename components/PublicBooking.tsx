@@ -0,0 +1,299 @@
+import React, { useEffect, useState } from 'react';
+import { Calendar, Clock, Phone, MapPin, User, ShieldCheck, CheckCircle, AlertCircle, ChevronLeft, Loader2 } from 'lucide-react';
+import {
+    PublicClinic,
+    PublicSlot,
+    BookingConfirmation,
+    getBookingClinic,
+    getBookingSlots,
+    requestBookingCode,
+    confirmBooking,
+} from '../services/bookingService';
+
+interface PublicBookingProps {
+    slug: string;
+}
+
+type Step = 'slot' | 'details' | 'verify' | 'done';
+
+const addDays = (date: string, days: number) => {
+    const d = new Date(`${date}T00:00:00`);
+    d.setDate(d.getDate() + days);
+    return d.toISOString().split('T')[0];
+};
+
+const formatDate = (date: string) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' });
+
+const PublicBooking: React.FC<PublicBookingProps> = ({ slug }) => {
+    const [clinic, setClinic] = useState<PublicClinic | null>(null);
+    const [loadError, setLoadError] = useState('');
+    const [step, setStep] = useState<Step>('slot');
+    const [error, setError] = useState('');
+    const [isBusy, setIsBusy] = useState(false);
+
+    const [date, setDate] = useState('');
+    const [appointmentType, setAppointmentType] = useState('');
+    const [slots, setSlots] = useState<PublicSlot[]>([]);
+    const [slotsLoading, setSlotsLoading] = useState(false);
+    const [slot, setSlot] = useState<PublicSlot | null>(null);
+
+    const [name, setName] = useState('');
+    const [phone, setPhone] = useState('');
+    const [reason, setReason] = useState('');
+    const [code, setCode] = useState('');
+    const [booking, setBooking] = useState<BookingConfirmation | null>(null);
+
+    useEffect(() => {
+        getBookingClinic(slug)
+            .then(c => {
+                setClinic(c);
+                setDate(c.today);
+                setAppointmentType(c.appointmentTypes[0]?.name || '');
+                document.title = `Book an appointment - ${c.name}`;
+            })
+            .catch(e => setLoadError(e.message));
+    }, [slug]);
+
+    useEffect(() => {
+        if (!clinic || !date) return;
+        setSlotsLoading(true);
+        setSlot(null);
+        setError('');
+        getBookingSlots(slug, date, appointmentType || undefined)
+            .then(setSlots)
+            .catch(e => {
+                setSlots([]);
+                setError(e.message);
+            })
+            .finally(() => setSlotsLoading(false));
+    }, [clinic, slug, date, appointmentType]);
+
+    const handleRequestCode = async (e?: React.FormEvent) => {
+        e?.preventDefault();
+        setError('');
+        setIsBusy(true);
+        try {
+            await requestBookingCode(slug, phone);
+            setCode('');
+            setStep('verify');
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleConfirm = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!slot) return;
+        setError('');
+        setIsBusy(true);
+        try {
+            const result = await confirmBooking(slug, {
+                phone,
+                code,
+                name,
+                date,
+                time: slot.start,
+                providerId: slot.providerId,
+                appointmentType: appointmentType || undefined,
+                reason: reason || undefined,
+            });
+            setBooking(result);
+            setStep('done');
+        } catch (err: any) {
+            setError(err.message);
+            // The slot went while the patient was verifying; send them back to pick another
+            if (/taken|already booked/i.test(err.message)) {
+                setSlot(null);
+                setStep('slot');
+                getBookingSlots(slug, date, appointmentType || undefined).then(setSlots).catch(() => setSlots([]));
+            }
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    if (loadError) {
+        return (
+            <div className="min-h-screen bg-brand-cream/50 dark:bg-brand-dark flex items-center justify-center p-4 font-sans">
+                <div className="max-w-md w-full bg-white dark:bg-[#1A1F2B] rounded-3xl shadow-xl p-8 text-center">
+                    <AlertCircle className="w-10 h-10 text-red-500 mx-auto mb-4" />
+                    <h1 className="text-xl font-bold text-slate-900 dark:text-white mb-2">Booking unavailable</h1>
+                    <p className="text-slate-500 dark:text-slate-400">{loadError}</p>
+                </div>
+            </div>
+        );
+    }
+
+    if (!clinic) {
+        return (
+            <div className="min-h-screen flex items-center justify-center">
+                <div className="w-8 h-8 border-4 border-brand-blue border-t-transparent rounded-full animate-spin"></div>
+            </div>
+        );
+    }
+
+    const inputClass = 'w-full px-4 py-3 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl text-slate-900 dark:text-white focus:ring-2 focus:ring-brand-blue outline-none';
+    const buttonClass = 'w-full py-3 bg-brand-blue hover:bg-blue-600 text-white font-bold rounded-xl transition-colors disabled:opacity-50 flex items-center justify-center gap-2';
+
+    return (
+        <div className="min-h-screen bg-brand-cream/50 dark:bg-brand-dark flex items-start md:items-center justify-center p-4 md:p-8 font-sans">
+            <div className="w-full max-w-lg bg-white dark:bg-[#1A1F2B] rounded-3xl shadow-2xl shadow-brand-dark/10 overflow-hidden">
+                {/* Clinic header */}
+                <div className="bg-brand-dark text-white p-6 flex items-center gap-4">
+                    {clinic.logo ? (
+                        <img src={clinic.logo} alt={clinic.name} className="w-14 h-14 rounded-2xl object-cover bg-white" />
+                    ) : (
+                        <div className="w-14 h-14 rounded-2xl bg-brand-blue flex items-center justify-center text-2xl font-bold">
+                            {clinic.name.charAt(0)}
+                        </div>
+                    )}
+                    <div className="min-w-0">
+                        <h1 className="text-xl font-bold truncate">{clinic.name}</h1>
+                        <div className="text-sm text-slate-400 flex flex-wrap gap-x-4">
+                            {clinic.location && <span className="flex items-center gap-1"><MapPin className="w-3 h-3" /> {clinic.location}</span>}
+                            {clinic.phone && <span className="flex items-center gap-1"><Phone className="w-3 h-3" /> {clinic.phone}</span>}
+                        </div>
+                    </div>
+                </div>
+
+                <div className="p-6 space-y-5">
+                    {error && (
+                        <div className="p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-xl text-sm flex items-start gap-2">
+                            <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" /> {error}
+                        </div>
+                    )}
+
+                    {step === 'slot' && (
+                        <>
+                            <h2 className="text-lg font-bold text-slate-900 dark:text-white">Book an appointment</h2>
+                            {clinic.appointmentTypes.length > 0 && (
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Type of visit</label>
+                                    <select value={appointmentType} onChange={e => setAppointmentType(e.target.value)} className={inputClass}>
+                                        {clinic.appointmentTypes.map(t => (
+                                            <option key={t.name} value={t.name}>{t.name} ({t.durationMinutes} min)</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            )}
+                            <div>
+                                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Date</label>
+                                <input
+                                    type="date"
+                                    value={date}
+                                    min={clinic.today}
+                                    max={addDays(clinic.today, clinic.daysAhead)}
+                                    onChange={e => setDate(e.target.value)}
+                                    className={inputClass}
+                                />
+                            </div>
+                            <div>
+                                <div className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Available times</div>
+                                {slotsLoading ? (
+                                    <div className="flex justify-center py-6"><Loader2 className="w-6 h-6 animate-spin text-brand-blue" /></div>
+                                ) : slots.length === 0 ? (
+                                    <p className="text-sm text-slate-500 dark:text-slate-400 py-4 text-center">No times left on this day. Please try another date.</p>
+                                ) : (
+                                    <div className="grid grid-cols-3 gap-2 max-h-64 overflow-y-auto">
+                                        {slots.map(s => (
+                                            <button
+                                                key={`${s.providerId}-${s.start}`}
+                                                type="button"
+                                                onClick={() => { setSlot(s); setError(''); setStep('details'); }}
+                                                className="px-2 py-2 rounded-xl border border-slate-200 dark:border-slate-700 hover:border-brand-blue hover:bg-brand-blue/5 text-left transition-colors"
+                                            >
+                                                <div className="font-bold text-slate-900 dark:text-white">{s.start}</div>
+                                                <div className="text-[11px] text-slate-500 truncate">{s.providerName}</div>
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        </>
+                    )}
+
+                    {(step === 'details' || step === 'verify') && slot && (
+                        <div className="p-4 bg-brand-blue/5 rounded-xl flex items-center justify-between gap-3">
+                            <div className="text-sm text-slate-700 dark:text-slate-300">
+                                <div className="flex items-center gap-2 font-bold"><Calendar className="w-4 h-4" /> {formatDate(date)}</div>
+                                <div className="flex items-center gap-2"><Clock className="w-4 h-4" /> {slot.start} with {slot.providerName}</div>
+                            </div>
+                            <button type="button" onClick={() => { setStep('slot'); setError(''); }} className="text-sm text-brand-blue font-medium flex items-center">
+                                <ChevronLeft className="w-4 h-4" /> Change
+                            </button>
+                        </div>
+                    )}
+
+                    {step === 'details' && (
+                        <form onSubmit={handleRequestCode} className="space-y-4">
+                            <div>
+                                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Full name</label>
+                                <div className="relative">
+                                    <User className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                                    <input required minLength={2} value={name} onChange={e => setName(e.target.value)} className={`${inputClass} pl-9`} placeholder="e.g. Jane Wanjiku" />
+                                </div>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Phone number</label>
+                                <div className="relative">
+                                    <Phone className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                                    <input required type="tel" value={phone} onChange={e => setPhone(e.target.value)} className={`${inputClass} pl-9`} placeholder="0712 345 678" />
+                                </div>
+                                <p className="text-xs text-slate-500 mt-1">We will text you a code to confirm this number.</p>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Reason for visit (optional)</label>
+                                <input value={reason} maxLength={200} onChange={e => setReason(e.target.value)} className={inputClass} />
+                            </div>
+                            <button type="submit" disabled={isBusy} className={buttonClass}>
+                                {isBusy && <Loader2 className="w-4 h-4 animate-spin" />} Send code
+                            </button>
+                        </form>
+                    )}
+
+                    {step === 'verify' && (
+                        <form onSubmit={handleConfirm} className="space-y-4">
+                            <div className="text-center">
+                                <ShieldCheck className="w-10 h-10 text-brand-blue mx-auto mb-2" />
+                                <p className="text-sm text-slate-600 dark:text-slate-400">Enter the 6-digit code we sent to <span className="font-bold">{phone}</span></p>
+                            </div>
+                            <input
+                                required
+                                inputMode="numeric"
+                                autoComplete="one-time-code"
+                                pattern="[0-9]{6}"
+                                maxLength={6}
+                                value={code}
+                                onChange={e => setCode(e.target.value.replace(/\D/g, ''))}
+                                className={`${inputClass} text-center text-2xl tracking-[0.5em] font-bold`}
+                            />
+                            <button type="submit" disabled={isBusy || code.length !== 6} className={buttonClass}>
+                                {isBusy && <Loader2 className="w-4 h-4 animate-spin" />} Confirm booking
+                            </button>
+                            <div className="flex justify-between text-sm">
+                                <button type="button" onClick={() => { setStep('details'); setError(''); }} className="text-slate-500">Wrong number?</button>
+                                <button type="button" disabled={isBusy} onClick={() => handleRequestCode()} className="text-brand-blue font-medium">Resend code</button>
+                            </div>
+                        </form>
+                    )}
+
+                    {step === 'done' && booking && (
+                        <div className="text-center py-6">
+                            <CheckCircle className="w-14 h-14 text-green-500 mx-auto mb-4" />
+                            <h2 className="text-xl font-bold text-slate-900 dark:text-white mb-2">You're booked!</h2>
+                            <p className="text-slate-600 dark:text-slate-400">
+                                {formatDate(booking.date)} at {booking.time} with {booking.providerName} at {clinic.name}.
+                            </p>
+                            <p className="text-sm text-slate-500 mt-4">We have sent the details to {phone}. Please arrive 10 minutes early.</p>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PublicBooking;
@@ -0,0 +1,419 @@
+import React, { useState, useEffect } from 'react';
+import useStore from '../store'
+import { InventoryItem, Supplier, PurchaseOrder, PurchaseOrderLine, GoodsReceiptLine, ClinicSettings, WitnessConfirmation } from '../types';
+import { Plus, X, Printer, Send, PackageCheck, Trash2, ShoppingCart, Truck } from 'lucide-react';
+import { canCurrentUser } from '../lib/roleMapper'
+import { buildLowStockLines, getOutstandingQuantity, getOrderTotal, nextPoNumber, isLowStock, suggestOrderQuantity } from '../lib/purchasing'
+import { documentGenerator } from '../services/documentService';
+import WitnessConfirmModal from './WitnessConfirmModal';
+
+interface PurchaseOrdersProps {
+    inventory: InventoryItem[];
+    suppliers: Supplier[];
+    purchaseOrders: PurchaseOrder[];
+    settings: ClinicSettings;
+    draftSupplierId?: string | null; // Opens the new-order form for this supplier (from the Alerts tab)
+    onDraftOpened?: () => void;
+    addPurchaseOrder: (order: PurchaseOrder) => void | Promise<void>;
+    updatePurchaseOrder: (order: PurchaseOrder) => void | Promise<void>;
+    receivePurchaseOrder: (orderId: string, lines: GoodsReceiptLine[], witness?: WitnessConfirmation) => void | Promise<void>;
+}
+
+interface ReceiptFormLine {
+    quantity: string;
+    batchNumber: string;
+    expiryDate: string;
+}
+
+const statusStyles: Record<PurchaseOrder['status'], string> = {
+    'Draft': 'bg-slate-100 text-slate-700 dark:bg-slate-700 dark:text-slate-300',
+    'Sent': 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+    'Partially Received': 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-300',
+    'Received': 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+};
+
+const denyToast = (message: string) => {
+    try { useStore.getState().actions.showToast(message, 'error') } catch (e) { alert(message) }
+};
+
+const PurchaseOrders: React.FC<PurchaseOrdersProps> = ({
+    inventory,
+    suppliers,
+    purchaseOrders,
+    settings,
+    draftSupplierId,
+    onDraftOpened,
+    addPurchaseOrder,
+    updatePurchaseOrder,
+    receivePurchaseOrder,
+}) => {
+    const [statusFilter, setStatusFilter] = useState<'All' | PurchaseOrder['status']>('All');
+
+    // -- New Order State --
+    const [isOrderModalOpen, setIsOrderModalOpen] = useState(false);
+    const [orderSupplierId, setOrderSupplierId] = useState('');
+    const [includeUnassigned, setIncludeUnassigned] = useState(false);
+    const [orderLines, setOrderLines] = useState<PurchaseOrderLine[]>([]);
+    const [orderNotes, setOrderNotes] = useState('');
+
+    // -- Receive State --
+    const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+    const [receiptForm, setReceiptForm] = useState<Record<string, ReceiptFormLine>>({});
+    const [isReceiving, setIsReceiving] = useState(false);
+    const [pendingReceipt, setPendingReceipt] = useState<GoodsReceiptLine[] | null>(null); // Awaiting a witness
+
+    const supplierName = (id: string) => suppliers.find(s => s.id === id)?.name || 'Unknown Supplier';
+
+    const openOrderModal = (supplierId: string = suppliers[0]?.id || '') => {
+        if (!canCurrentUser('inventory.edit')) return denyToast('Not authorized to raise purchase orders.');
+        setOrderSupplierId(supplierId);
+        setIncludeUnassigned(false);
+        setOrderLines(supplierId ? buildLowStockLines(inventory, supplierId) : []);
+        setOrderNotes('');
+        setIsOrderModalOpen(true);
+    };
+
+    useEffect(() => {
+        if (draftSupplierId !== undefined && draftSupplierId !== null) {
+            openOrderModal(draftSupplierId || suppliers[0]?.id || '');
+            onDraftOpened && onDraftOpened();
+        }
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [draftSupplierId]);
+
+    const changeOrderSupplier = (supplierId: string, unassigned: boolean) => {
+        setOrderSupplierId(supplierId);
+        setIncludeUnassigned(unassigned);
+        setOrderLines(supplierId ? buildLowStockLines(inventory, supplierId, unassigned) : []);
+    };
+
+    const addOrderLine = (inventoryId: string) => {
+        const item = inventory.find(i => i.id === inventoryId);
+        if (!item || orderLines.some(l => l.inventoryId === inventoryId)) return;
+        setOrderLines([...orderLines, {
+            inventoryId: item.id,
+            name: item.name,
+            quantityOrdered: isLowStock(item) ? suggestOrderQuantity(item) : item.minStockLevel || 1,
+            quantityReceived: 0,
+            unitCost: item.price,
+        }]);
+    };
+
+    const updateOrderLine = (index: number, changes: Partial<PurchaseOrderLine>) => {
+        setOrderLines(orderLines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+    };
+
+    const saveOrder = async (send: boolean) => {
+        const lines = orderLines.filter(l => l.quantityOrdered > 0);
+        if (!orderSupplierId || lines.length === 0) return;
+
+        const now = new Date().toISOString();
+        await addPurchaseOrder({
+            id: '',
+            poNumber: nextPoNumber(purchaseOrders),
+            supplierId: orderSupplierId,
+            status: send ? 'Sent' : 'Draft',
+            lines,
+            notes: orderNotes || undefined,
+            createdAt: now,
+            sentAt: send ? now : undefined,
+        });
+        setIsOrderModalOpen(false);
+    };
+
+    const markSent = (order: PurchaseOrder) => {
+        if (!canCurrentUser('inventory.edit')) return denyToast('Not authorized to send purchase orders.');
+        updatePurchaseOrder({ ...order, status: 'Sent', sentAt: new Date().toISOString() });
+    };
+
+    const printOrder = async (order: PurchaseOrder) => {
+        const supplier = suppliers.find(s => s.id === order.supplierId);
+        if (!supplier) return;
+        const html = await documentGenerator.generatePurchaseOrderPdf(order, supplier, settings);
+        documentGenerator.printDocument(html, order.poNumber);
+    };
+
+    const openReceiveModal = (order: PurchaseOrder) => {
+        if (!canCurrentUser('inventory.edit')) return denyToast('Not authorized to receive goods.');
+        const form: Record<string, ReceiptFormLine> = {};
+        order.lines.forEach(line => {
+            form[line.inventoryId] = { quantity: getOutstandingQuantity(line).toString(), batchNumber: '', expiryDate: '' };
+        });
+        setReceiptForm(form);
+        setReceivingOrder(order);
+    };
+
+    const handleReceiveSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!receivingOrder) return;
+
+        const lines: GoodsReceiptLine[] = receivingOrder.lines
+            .map(line => {
+                const entry = receiptForm[line.inventoryId];
+                return {
+                    inventoryId: line.inventoryId,
+                    quantity: Math.min(parseInt(entry?.quantity) || 0, getOutstandingQuantity(line)),
+                    batchNumber: entry?.batchNumber || undefined,
+                    expiryDate: entry?.expiryDate || undefined,
+                };
+            })
+            .filter(line => line.quantity > 0);
+        if (lines.length === 0) return;
+
+        // Controlled drugs cannot be received without a witness
+        if (lines.some(line => inventory.find(i => i.id === line.inventoryId)?.isControlled)) {
+            setPendingReceipt(lines);
+            return;
+        }
+        await submitReceipt(lines);
+    };
+
+    const submitReceipt = async (lines: GoodsReceiptLine[], witness?: WitnessConfirmation) => {
+        if (!receivingOrder) return;
+        setIsReceiving(true);
+        try {
+            await receivePurchaseOrder(receivingOrder.id, lines, witness);
+            setPendingReceipt(null);
+            setReceivingOrder(null);
+        } finally {
+            setIsReceiving(false);
+        }
+    };
+
+    const visibleOrders = statusFilter === 'All' ? purchaseOrders : purchaseOrders.filter(o => o.status === statusFilter);
+    const lowStockCount = inventory.filter(isLowStock).length;
+
+    return (
+        <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
+                <div>
+                    <h3 className="text-xl font-bold text-slate-900 dark:text-white">Purchase Orders</h3>
+                    <p className="text-sm text-slate-500 dark:text-slate-400">{lowStockCount} item{lowStockCount === 1 ? '' : 's'} at or below reorder level</p>
+                </div>
+                <div className="flex gap-3 w-full sm:w-auto">
+                    <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value as any)} className="flex-1 sm:flex-none px-4 py-2.5 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl text-sm outline-none dark:text-white">
+                        <option value="All">All Statuses</option>
+                        <option value="Draft">Draft</option>
+                        <option value="Sent">Sent</option>
+                        <option value="Partially Received">Partially Received</option>
+                        <option value="Received">Received</option>
+                    </select>
+                    <button onClick={() => openOrderModal()} disabled={suppliers.length === 0} className="flex-1 sm:flex-none bg-teal-600 text-white flex items-center justify-center gap-2 px-5 py-2.5 rounded-xl hover:bg-teal-700 font-bold transition-colors disabled:opacity-50">
+                        <Plus className="w-5 h-5" /> New Order
+                    </button>
+                </div>
+            </div>
+
+            <div className="bg-white dark:bg-slate-800 rounded-3xl shadow-sm border border-slate-100 dark:border-slate-700 overflow-hidden">
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left min-w-[800px]">
+                        <thead className="bg-slate-50 dark:bg-slate-700/50 text-xs uppercase text-slate-400 font-semibold border-b border-slate-100 dark:border-slate-700">
+                            <tr>
+                                <th className="px-6 py-4">PO #</th>
+                                <th className="px-6 py-4">Supplier</th>
+                                <th className="px-6 py-4">Date</th>
+                                <th className="px-6 py-4">Items</th>
+                                <th className="px-6 py-4">Total</th>
+                                <th className="px-6 py-4">Status</th>
+                                <th className="px-6 py-4 text-right">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-50 dark:divide-slate-700 text-sm">
+                            {visibleOrders.map(order => {
+                                const ordered = order.lines.reduce((sum, l) => sum + l.quantityOrdered, 0);
+                                const received = order.lines.reduce((sum, l) => sum + l.quantityReceived, 0);
+                                return (
+                                    <tr key={order.id} className="hover:bg-slate-50 dark:hover:bg-slate-700/30 transition-colors">
+                                        <td className="px-6 py-4 font-mono text-xs font-bold text-slate-900 dark:text-white">{order.poNumber}</td>
+                                        <td className="px-6 py-4 text-slate-700 dark:text-slate-300">{supplierName(order.supplierId)}</td>
+                                        <td className="px-6 py-4 text-slate-500 dark:text-slate-400 text-xs">{new Date(order.createdAt).toLocaleDateString()}</td>
+                                        <td className="px-6 py-4 text-slate-600 dark:text-slate-300">
+                                            {order.lines.length} line{order.lines.length === 1 ? '' : 's'}
+                                            <span className="block text-[10px] text-slate-400">{received} / {ordered} units received</span>
+                                        </td>
+                                        <td className="px-6 py-4 font-bold text-slate-900 dark:text-white">KSh {getOrderTotal(order).toLocaleString()}</td>
+                                        <td className="px-6 py-4">
+                                            <span className={`px-2 py-1 rounded text-xs font-bold ${statusStyles[order.status]}`}>{order.status}</span>
+                                        </td>
+                                        <td className="px-6 py-4">
+                                            <div className="flex items-center justify-end gap-2">
+                                                <button onClick={() => printOrder(order)} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg text-slate-500 dark:text-slate-400 transition-colors" title="Print PO">
+                                                    <Printer className="w-4 h-4" />
+                                                </button>
+                                                {order.status === 'Draft' && (
+                                                    <button onClick={() => markSent(order)} className="p-2 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded-lg text-blue-600 dark:text-blue-400 transition-colors" title="Mark as Sent">
+                                                        <Send className="w-4 h-4" />
+                                                    </button>
+                                                )}
+                                                {order.status !== 'Received' && (
+                                                    <button onClick={() => openReceiveModal(order)} className="p-2 hover:bg-teal-50 dark:hover:bg-teal-900/30 rounded-lg text-teal-600 dark:text-teal-400 transition-colors" title="Receive Goods">
+                                                        <PackageCheck className="w-4 h-4" />
+                                                    </button>
+                                                )}
+                                            </div>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                            {visibleOrders.length === 0 && (
+                                <tr>
+                                    <td colSpan={7} className="px-6 py-12 text-center text-slate-400">
+                                        <ShoppingCart className="w-12 h-12 mx-auto mb-3 opacity-20" />
+                                        No purchase orders yet.
+                                    </td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            {/* New Purchase Order Modal */}
+            {isOrderModalOpen && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-200">
+                    <div className="bg-white dark:bg-slate-800 w-full max-w-2xl rounded-3xl shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200 flex flex-col max-h-[90vh]">
+                        <div className="p-5 border-b border-slate-100 dark:border-slate-700 bg-slate-50 dark:bg-slate-700/50 flex justify-between items-center">
+                            <h3 className="font-bold text-slate-900 dark:text-white flex items-center gap-2">
+                                <Truck className="w-5 h-5 text-teal-600" /> New Purchase Order
+                            </h3>
+                            <button onClick={() => setIsOrderModalOpen(false)} className="text-slate-400 hover:text-slate-600"><X className="w-5 h-5" /></button>
+                        </div>
+                        <div className="p-5 sm:p-6 overflow-y-auto space-y-5">
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 items-end">
+                                <div>
+                                    <label className="text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase tracking-widest block mb-1.5">Supplier</label>
+                                    <select value={orderSupplierId} onChange={(e) => changeOrderSupplier(e.target.value, includeUnassigned)} className="w-full p-3 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-xl text-sm outline-none dark:text-white">
+                                        {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                                    </select>
+                                </div>
+                                <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300 pb-3">
+                                    <input type="checkbox" checked={includeUnassigned} onChange={(e) => changeOrderSupplier(orderSupplierId, e.target.checked)} />
+                                    Include low-stock items without a supplier
+                                </label>
+                            </div>
+
+                            <div className="space-y-2">
+                                {orderLines.map((line, index) => (
+                                    <div key={line.inventoryId} className="flex items-center gap-3 p-3 bg-slate-50 dark:bg-slate-700/50 rounded-xl">
+                                        <div className="flex-1 min-w-0">
+                                            <p className="font-bold text-sm text-slate-800 dark:text-white truncate">{line.name}</p>
+                                            <p className="text-[10px] text-slate-400">
+                                                In stock: {inventory.find(i => i.id === line.inventoryId)?.stock ?? 0}
+                                            </p>
+                                        </div>
+                                        <div className="w-24">
+                                            <label className="text-[10px] text-slate-400 block">Qty</label>
+                                            <input type="number" min="1" value={line.quantityOrdered} onChange={(e) => updateOrderLine(index, { quantityOrdered: parseInt(e.target.value) || 0 })} className="w-full p-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg text-sm font-bold outline-none dark:text-white" />
+                                        </div>
+                                        <div className="w-28">
+                                            <label className="text-[10px] text-slate-400 block">Unit Cost</label>
+                                            <input type="number" min="0" step="0.01" value={line.unitCost} onChange={(e) => updateOrderLine(index, { unitCost: parseFloat(e.target.value) || 0 })} className="w-full p-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg text-sm outline-none dark:text-white" />
+                                        </div>
+                                        <button onClick={() => setOrderLines(orderLines.filter((_, i) => i !== index))} className="p-2 text-red-400 hover:text-red-500" title="Remove line">
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                ))}
+                                {orderLines.length === 0 && (
+                                    <p className="py-6 text-center text-sm text-slate-400 border-2 border-dashed border-slate-200 dark:border-slate-700 rounded-2xl">
+                                        No low-stock items for this supplier. Add items below.
+                                    </p>
+                                )}
+                            </div>
+
+                            <select value="" onChange={(e) => addOrderLine(e.target.value)} className="w-full p-3 bg-white dark:bg-slate-900 border border-dashed border-slate-300 dark:border-slate-600 rounded-xl text-sm outline-none dark:text-white">
+                                <option value="">+ Add item to order...</option>
+                                {inventory
+                                    .filter(i => !orderLines.some(l => l.inventoryId === i.id))
+                                    .map(i => <option key={i.id} value={i.id}>{i.name} (stock {i.stock})</option>)}
+                            </select>
+
+                            <div>
+                                <label className="text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase tracking-widest block mb-1.5">Notes</label>
+                                <textarea value={orderNotes} onChange={(e) => setOrderNotes(e.target.value)} rows={2} className="w-full p-3 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-xl text-sm outline-none dark:text-white" placeholder="Delivery instructions (optional)" />
+                            </div>
+                        </div>
+                        <div className="p-5 border-t border-slate-100 dark:border-slate-700 flex items-center justify-between gap-3">
+                            <span className="font-bold text-slate-900 dark:text-white">Total: KSh {getOrderTotal({ lines: orderLines }).toLocaleString()}</span>
+                            <div className="flex gap-3">
+                                <button onClick={() => saveOrder(false)} disabled={orderLines.length === 0} className="px-5 py-2.5 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 font-bold rounded-xl disabled:opacity-50">
+                                    Save Draft
+                                </button>
+                                <button onClick={() => saveOrder(true)} disabled={orderLines.length === 0} className="px-5 py-2.5 bg-teal-600 text-white font-bold rounded-xl hover:bg-teal-700 disabled:opacity-50 flex items-center gap-2">
+                                    <Send className="w-4 h-4" /> Save & Mark Sent
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* Receive Goods Modal */}
+            {receivingOrder && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-200">
+                    <div className="bg-white dark:bg-slate-800 w-full max-w-2xl rounded-3xl shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200 flex flex-col max-h-[90vh]">
+                        <div className="p-5 border-b border-slate-100 dark:border-slate-700 bg-slate-50 dark:bg-slate-700/50 flex justify-between items-center">
+                            <h3 className="font-bold text-slate-900 dark:text-white flex items-center gap-2">
+                                <PackageCheck className="w-5 h-5 text-teal-600" /> Receive Goods: {receivingOrder.poNumber}
+                            </h3>
+                            <button onClick={() => setReceivingOrder(null)} className="text-slate-400 hover:text-slate-600"><X className="w-5 h-5" /></button>
+                        </div>
+                        <form onSubmit={handleReceiveSubmit} className="flex flex-col overflow-hidden">
+                            <div className="p-5 sm:p-6 overflow-y-auto space-y-3">
+                                <p className="text-sm text-slate-500">Each received line is added as a new lot from {supplierName(receivingOrder.supplierId)}.</p>
+                                {receivingOrder.lines.map(line => {
+                                    const outstanding = getOutstandingQuantity(line);
+                                    const entry = receiptForm[line.inventoryId];
+                                    if (outstanding === 0 || !entry) return null;
+                                    const setEntry = (changes: Partial<ReceiptFormLine>) =>
+                                        setReceiptForm({ ...receiptForm, [line.inventoryId]: { ...entry, ...changes } });
+                                    return (
+                                        <div key={line.inventoryId} className="p-3 bg-slate-50 dark:bg-slate-700/50 rounded-xl">
+                                            <div className="flex justify-between mb-2">
+                                                <span className="font-bold text-sm text-slate-800 dark:text-white">{line.name}</span>
+                                                <span className="text-xs text-slate-500">{line.quantityReceived} / {line.quantityOrdered} received · {outstanding} outstanding</span>
+                                            </div>
+                                            <div className="grid grid-cols-3 gap-2">
+                                                <div>
+                                                    <label className="text-[10px] text-slate-400 block">Qty Received</label>
+                                                    <input type="number" min="0" max={outstanding} value={entry.quantity} onChange={(e) => setEntry({ quantity: e.target.value })} className="w-full p-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg text-sm font-bold outline-none dark:text-white" />
+                                                </div>
+                                                <div>
+                                                    <label className="text-[10px] text-slate-400 block">Lot / Batch #</label>
+                                                    <input value={entry.batchNumber} onChange={(e) => setEntry({ batchNumber: e.target.value })} className="w-full p-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg text-sm outline-none dark:text-white" placeholder="Optional" />
+                                                </div>
+                                                <div>
+                                                    <label className="text-[10px] text-slate-400 block">Lot Expiry</label>
+                                                    <input type="date" value={entry.expiryDate} onChange={(e) => setEntry({ expiryDate: e.target.value })} className="w-full p-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg text-sm outline-none dark:text-white" />
+                                                </div>
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                            <div className="p-5 border-t border-slate-100 dark:border-slate-700 flex gap-3">
+                                <button type="button" onClick={() => setReceivingOrder(null)} className="flex-1 py-3 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 font-bold rounded-xl">
+                                    Cancel
+                                </button>
+                                <button type="submit" disabled={isReceiving} className="flex-1 py-3 bg-teal-600 text-white font-bold rounded-xl hover:bg-teal-700 disabled:opacity-60">
+                                    {isReceiving ? 'Receiving...' : 'Receive & Update Stock'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+
+            {receivingOrder && pendingReceipt && (
+                <WitnessConfirmModal
+                    title={`Witness Receipt: ${receivingOrder.poNumber}`}
+                    description="This delivery includes controlled drugs."
+                    onConfirm={(witness) => submitReceipt(pendingReceipt, witness)}
+                    onCancel={() => setPendingReceipt(null)}
+                />
+            )}
+        </div>
+    );
+};
+
+export default PurchaseOrders;
@@ -0,0 +1,100 @@
+"use client"
+
+import type React from "react"
+import type { RecurrenceRule } from "../types"
+import { Repeat } from "lucide-react"
+import { getSeriesDates, MAX_SERIES_OCCURRENCES } from "../lib/scheduling"
+
+interface RecurrenceFieldsProps {
+  startDate: string
+  value: RecurrenceRule | null
+  onChange: (rule: RecurrenceRule | null) => void
+}
+
+const INTERVAL_OPTIONS = [1, 2, 4, 6, 8, 12, 26]
+
+// "Repeat every N weeks" editor with a preview of the resulting visit dates
+const RecurrenceFields: React.FC<RecurrenceFieldsProps> = ({ startDate, value, onChange }) => {
+  const dates = value && startDate ? getSeriesDates(startDate, value) : []
+  const endsOn = value?.until ? "date" : "count"
+
+  return (
+    <div className="p-3 rounded-xl bg-slate-50 dark:bg-slate-700/50 border border-slate-200 dark:border-slate-600 space-y-3">
+      <label className="flex items-center gap-2 text-sm font-bold text-slate-700 dark:text-slate-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={!!value}
+          onChange={(e) => onChange(e.target.checked ? { intervalWeeks: 4, count: 6 } : null)}
+          className="w-4 h-4 accent-teal-600"
+        />
+        <Repeat className="w-4 h-4 text-teal-600" /> Repeat (follow-up series)
+      </label>
+
+      {value && (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-xs font-bold text-slate-500 uppercase mb-1 block">Every</label>
+              <select
+                value={value.intervalWeeks}
+                onChange={(e) => onChange({ ...value, intervalWeeks: Number(e.target.value) })}
+                className="w-full p-2.5 rounded-lg bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 text-sm outline-none dark:text-white"
+              >
+                {INTERVAL_OPTIONS.map((weeks) => (
+                  <option key={weeks} value={weeks}>
+                    {weeks === 1 ? "week" : `${weeks} weeks`}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="text-xs font-bold text-slate-500 uppercase mb-1 block">Ends</label>
+              <select
+                value={endsOn}
+                onChange={(e) =>
+                  onChange(
+                    e.target.value === "date"
+                      ? { intervalWeeks: value.intervalWeeks, until: startDate }
+                      : { intervalWeeks: value.intervalWeeks, count: 6 },
+                  )
+                }
+                className="w-full p-2.5 rounded-lg bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 text-sm outline-none dark:text-white"
+              >
+                <option value="count">After a number of visits</option>
+                <option value="date">On a date</option>
+              </select>
+            </div>
+          </div>
+
+          {endsOn === "count" ? (
+            <input
+              type="number"
+              min={2}
+              max={MAX_SERIES_OCCURRENCES}
+              value={value.count || ""}
+              onChange={(e) => onChange({ ...value, count: Math.min(Number(e.target.value) || 0, MAX_SERIES_OCCURRENCES) })}
+              className="w-full p-2.5 rounded-lg bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 text-sm outline-none dark:text-white"
+              placeholder="Number of visits"
+            />
+          ) : (
+            <input
+              type="date"
+              min={startDate}
+              value={value.until || ""}
+              onChange={(e) => onChange({ ...value, until: e.target.value })}
+              className="w-full p-2.5 rounded-lg bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 text-sm outline-none dark:text-white"
+            />
+          )}
+
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            {dates.length > 1
+              ? `${dates.length} visits: ${dates.slice(0, 4).join(", ")}${dates.length > 4 ? ` ... ${dates[dates.length - 1]}` : ""}`
+              : "A series needs at least two visits."}
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default RecurrenceFields
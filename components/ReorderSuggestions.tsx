@@ -0,0 +1,241 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import useStore from '../store'
+import { InventoryItem, Supplier, InventoryLog, PurchaseOrder, Visit } from '../types';
+import { Download, RefreshCw, ShoppingCart, TrendingDown, CheckCircle } from 'lucide-react';
+import { db } from '../services/db';
+import { canCurrentUser } from '../lib/roleMapper'
+import { buildReorderSuggestions, groupSuggestionsBySupplier, DEFAULT_REORDER_OPTIONS, ReorderSuggestion } from '../lib/reorder'
+import { nextPoNumber } from '../lib/purchasing'
+import { exportToCsv } from '../lib/export-utils'
+
+interface ReorderSuggestionsProps {
+    inventory: InventoryItem[];
+    suppliers: Supplier[];
+    logs: InventoryLog[]; // Fallback when dispensing history cannot be loaded
+    visits: Visit[];
+    purchaseOrders: PurchaseOrder[];
+    addPurchaseOrder?: (order: PurchaseOrder) => void | Promise<void>;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const formatDaysLeft = (days: number | null) => {
+    if (days === null) return 'No usage';
+    if (days < 1) return '< 1 day';
+    return `${Math.floor(days)} days`;
+};
+
+const ReorderSuggestions: React.FC<ReorderSuggestionsProps> = ({
+    inventory,
+    suppliers,
+    logs,
+    visits,
+    purchaseOrders,
+    addPurchaseOrder,
+}) => {
+    const [windowDays, setWindowDays] = useState(DEFAULT_REORDER_OPTIONS.windowDays);
+    const [leadTimeDays, setLeadTimeDays] = useState(DEFAULT_REORDER_OPTIONS.leadTimeDays);
+    const [coverDays, setCoverDays] = useState(DEFAULT_REORDER_OPTIONS.coverDays);
+    const [showAll, setShowAll] = useState(false);
+    const [history, setHistory] = useState<InventoryLog[] | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [orderingSupplierId, setOrderingSupplierId] = useState<string | null>(null);
+
+    const loadHistory = async () => {
+        setIsLoading(true);
+        try {
+            setHistory(await db.getDispensingHistory(new Date(Date.now() - windowDays * DAY_MS).toISOString()));
+        } catch (e) {
+            console.error('getDispensingHistory error', e);
+            setHistory(null);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadHistory();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [windowDays]);
+
+    const suggestions = useMemo(
+        () => buildReorderSuggestions(inventory, history || logs, visits, { windowDays, leadTimeDays, coverDays }),
+        [inventory, history, logs, visits, windowDays, leadTimeDays, coverDays]
+    );
+    const groups = useMemo(() => groupSuggestionsBySupplier(suggestions), [suggestions]);
+    const supplierName = (id: string) => (id ? suppliers.find(s => s.id === id)?.name || 'Unknown Supplier' : 'No Supplier Assigned');
+
+    const createDraftOrder = async (supplierId: string, items: ReorderSuggestion[]) => {
+        if (!canCurrentUser('inventory.edit')) {
+            try { useStore.getState().actions.showToast('Not authorized to raise purchase orders.', 'error') } catch (e) { alert('Not authorized to raise purchase orders.') }
+            return
+        }
+        if (!addPurchaseOrder) return;
+        setOrderingSupplierId(supplierId);
+        try {
+            await addPurchaseOrder({
+                id: '',
+                poNumber: nextPoNumber(purchaseOrders),
+                supplierId,
+                status: 'Draft',
+                lines: items.map(s => ({
+                    inventoryId: s.itemId,
+                    name: s.name,
+                    quantityOrdered: s.suggestedQuantity,
+                    quantityReceived: 0,
+                    unitCost: s.unitCost,
+                })),
+                notes: `Suggested from ${windowDays}-day consumption`,
+                createdAt: new Date().toISOString(),
+            });
+        } finally {
+            setOrderingSupplierId(null);
+        }
+    };
+
+    const handleExport = () => {
+        const rows = (showAll ? suggestions : suggestions.filter(s => s.needsReorder)).map(s => [
+            s.name,
+            s.supplierId ? supplierName(s.supplierId) : '',
+            s.available,
+            s.consumed,
+            s.avgDailyUsage.toFixed(2),
+            s.daysOfStockLeft === null ? '' : s.daysOfStockLeft.toFixed(1),
+            s.reorderPoint,
+            s.suggestedQuantity,
+            s.unitCost,
+            s.suggestedQuantity * s.unitCost,
+        ]);
+        exportToCsv({
+            title: `Reorder Suggestions (${windowDays}-day usage, ${leadTimeDays}-day lead time, ${coverDays}-day cover)`,
+            headers: ['Item', 'Supplier', 'Available', `Used (${windowDays}d)`, 'Avg Daily Usage', 'Days Left', 'Reorder Point', 'Suggested Qty', 'Unit Cost', 'Line Total'],
+            rows,
+        }, `reorder-suggestions-${new Date().toISOString().split('T')[0]}`);
+    };
+
+    const renderRows = (items: ReorderSuggestion[]) => items.map(s => (
+        <tr key={s.itemId} className="hover:bg-slate-50 dark:hover:bg-slate-700/30 transition-colors">
+            <td className="px-6 py-3 font-bold text-slate-900 dark:text-white">{s.name}</td>
+            <td className="px-6 py-3 text-slate-600 dark:text-slate-300">{s.available} {s.unit}</td>
+            <td className="px-6 py-3 text-slate-600 dark:text-slate-300">{s.avgDailyUsage.toFixed(1)} / day</td>
+            <td className="px-6 py-3">
+                <span className={`font-bold ${s.daysOfStockLeft !== null && s.daysOfStockLeft <= leadTimeDays ? 'text-red-500' : s.needsReorder ? 'text-orange-500' : 'text-slate-500'}`}>
+                    {formatDaysLeft(s.daysOfStockLeft)}
+                </span>
+            </td>
+            <td className="px-6 py-3 text-slate-500">{s.reorderPoint}</td>
+            <td className="px-6 py-3 font-bold text-teal-600 dark:text-teal-400">{s.suggestedQuantity > 0 ? s.suggestedQuantity : '-'}</td>
+            <td className="px-6 py-3 text-right text-slate-600 dark:text-slate-300">KSh {(s.suggestedQuantity * s.unitCost).toLocaleString()}</td>
+        </tr>
+    ));
+
+    const tableHead = (
+        <thead className="bg-slate-50 dark:bg-slate-700/50 text-xs uppercase text-slate-400 font-semibold border-b border-slate-100 dark:border-slate-700">
+            <tr>
+                <th className="px-6 py-3">Item</th>
+                <th className="px-6 py-3">Available</th>
+                <th className="px-6 py-3">Usage</th>
+                <th className="px-6 py-3">Stock Left</th>
+                <th className="px-6 py-3">Reorder Point</th>
+                <th className="px-6 py-3">Suggested</th>
+                <th className="px-6 py-3 text-right">Est. Cost</th>
+            </tr>
+        </thead>
+    );
+
+    return (
+        <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
+            <div className="flex flex-col lg:flex-row justify-between items-start lg:items-end gap-4 mb-6">
+                <div>
+                    <h3 className="text-xl font-bold text-slate-900 dark:text-white">Reorder Suggestions</h3>
+                    <p className="text-sm text-slate-500 dark:text-slate-400">
+                        Based on dispensing over the last {windowDays} days{history === null && !isLoading ? ' (recent activity only)' : ''}.
+                    </p>
+                </div>
+                <div className="flex flex-wrap items-end gap-3">
+                    <div>
+                        <label className="text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase tracking-widest block mb-1">History</label>
+                        <select value={windowDays} onChange={(e) => setWindowDays(parseInt(e.target.value))} className="px-3 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl text-sm outline-none dark:text-white">
+                            <option value={30}>30 days</option>
+                            <option value={60}>60 days</option>
+                            <option value={90}>90 days</option>
+                        </select>
+                    </div>
+                    <div>
+                        <label className="text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase tracking-widest block mb-1">Lead Time</label>
+                        <input type="number" min="0" value={leadTimeDays} onChange={(e) => setLeadTimeDays(Math.max(0, parseInt(e.target.value) || 0))} className="w-20 px-3 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl text-sm outline-none dark:text-white" />
+                    </div>
+                    <div>
+                        <label className="text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase tracking-widest block mb-1">Cover Days</label>
+                        <input type="number" min="1" value={coverDays} onChange={(e) => setCoverDays(Math.max(1, parseInt(e.target.value) || 1))} className="w-20 px-3 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl text-sm outline-none dark:text-white" />
+                    </div>
+                    <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300 pb-2">
+                        <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} /> Show all items
+                    </label>
+                    <button onClick={loadHistory} disabled={isLoading} className="p-2.5 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl text-slate-500 hover:text-teal-600 transition-colors" title="Refresh">
+                        <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+                    </button>
+                    <button onClick={handleExport} className="flex items-center gap-2 px-4 py-2.5 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-xl font-bold text-sm">
+                        <Download className="w-4 h-4" /> Export CSV
+                    </button>
+                </div>
+            </div>
+
+            {showAll ? (
+                <div className="bg-white dark:bg-slate-800 rounded-3xl shadow-sm border border-slate-100 dark:border-slate-700 overflow-hidden">
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left text-sm min-w-[800px]">
+                            {tableHead}
+                            <tbody className="divide-y divide-slate-50 dark:divide-slate-700">{renderRows(suggestions)}</tbody>
+                        </table>
+                    </div>
+                </div>
+            ) : (
+                <div className="space-y-6">
+                    {Array.from(groups.entries()).map(([supplierId, items]) => {
+                        const total = items.reduce((sum, s) => sum + s.suggestedQuantity * s.unitCost, 0);
+                        return (
+                            <div key={supplierId || 'unassigned'} className="bg-white dark:bg-slate-800 rounded-3xl shadow-sm border border-slate-100 dark:border-slate-700 overflow-hidden">
+                                <div className="p-4 sm:px-6 flex flex-col sm:flex-row sm:items-center justify-between gap-3 border-b border-slate-100 dark:border-slate-700">
+                                    <div>
+                                        <h4 className="font-bold text-slate-900 dark:text-white">{supplierName(supplierId)}</h4>
+                                        <p className="text-xs text-slate-500">{items.length} item{items.length === 1 ? '' : 's'} · est. KSh {total.toLocaleString()}</p>
+                                    </div>
+                                    {supplierId ? (
+                                        addPurchaseOrder && (
+                                            <button
+                                                onClick={() => createDraftOrder(supplierId, items)}
+                                                disabled={orderingSupplierId === supplierId || !canCurrentUser('inventory.edit')}
+                                                aria-disabled={!canCurrentUser('inventory.edit')}
+                                                className="flex items-center justify-center gap-2 px-4 py-2 bg-teal-600 text-white hover:bg-teal-700 rounded-xl font-bold text-sm transition-colors disabled:opacity-50"
+                                            >
+                                                <ShoppingCart className="w-4 h-4" /> {orderingSupplierId === supplierId ? 'Creating...' : 'Create Draft PO'}
+                                            </button>
+                                        )
+                                    ) : (
+                                        <span className="text-xs text-slate-400">Assign a supplier to these items to order them.</span>
+                                    )}
+                                </div>
+                                <div className="overflow-x-auto">
+                                    <table className="w-full text-left text-sm min-w-[800px]">
+                                        {tableHead}
+                                        <tbody className="divide-y divide-slate-50 dark:divide-slate-700">{renderRows(items)}</tbody>
+                                    </table>
+                                </div>
+                            </div>
+                        );
+                    })}
+                    {groups.size === 0 && (
+                        <div className="py-12 text-center text-slate-400 border-2 border-dashed border-slate-200 dark:border-slate-700 rounded-3xl bg-slate-50 dark:bg-slate-800/50">
+                            {isLoading ? <TrendingDown className="w-12 h-12 mx-auto mb-3 opacity-20" /> : <CheckCircle className="w-12 h-12 mx-auto mb-3 text-emerald-500" />}
+                            <p className="font-bold text-slate-700 dark:text-slate-300">{isLoading ? 'Analysing consumption...' : 'Nothing to reorder'}</p>
+                            <p className="text-sm">Stock covers projected usage through the lead time.</p>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ReorderSuggestions;
@@ -38,12 +38,25 @@ import {
   Banknote,
   ScrollText,
   FileSpreadsheet,
+  ClipboardCheck,
+  Upload,
 } from "lucide-react"
 import logger from '../lib/logger'
 import { exportService } from "../services/exportService"
+import { summarizeVariances } from "../lib/stockTake"
+import { db } from "../services/db"
+import type { StockTake, AppointmentFlowDay, MohVisitRecord, Dhis2Submission } from "../types"
+import useStore from "../store"
+import { exportToCsv } from "../lib/export-utils"
+import { MOH_REVISIT_WINDOW_DAYS, buildMoh705Report, getMohFormTitle, moh705ToCsvTable } from "../lib/mohReport"
+import { documentGenerator } from "../services/documentService"
+import { buildMoh705DataValueSet, getDhis2ConfigIssues } from "../lib/dhis2"
+import { pushDhis2DataValueSet } from "../services/dhis2Service"
+import { canCurrentUser } from "../lib/roleMapper"
+import { normalizeVitals } from "../lib/vitals"
 
 type TimeRange = "7D" | "30D" | "3M" | "1Y"
-type ReportTab = "financial" | "clinical" | "operational" | "moh"
+type ReportTab = "financial" | "clinical" | "operational" | "moh" | "variance"
 
 const COLORS = {
   primary: "#3462EE", // Brand Blue
@@ -69,6 +82,18 @@ const Reports: React.FC = () => {
 
   // -- MOH State --
   const [mohFormType, setMohFormType] = useState<"705A" | "705B">("705A")
+  const [mohMonth, setMohMonth] = useState(() => {
+    // Summaries are filed for the month just ended
+    const d = new Date()
+    d.setDate(1)
+    d.setMonth(d.getMonth() - 1)
+    return d.toISOString().slice(0, 7)
+  })
+  const [mohRecords, setMohRecords] = useState<MohVisitRecord[]>([])
+  const [isMohLoading, setIsMohLoading] = useState(false)
+  const { settings, actions } = useStore()
+  const [dhis2Submissions, setDhis2Submissions] = useState<Dhis2Submission[]>([])
+  const [isPushing, setIsPushing] = useState(false)
 
   // -- Pagination State --
   const [currentPage, setCurrentPage] = useState(1)
@@ -79,6 +104,8 @@ const Reports: React.FC = () => {
   const [appointments, setAppointments] = useState<any[]>([])
   const [doctorsMap, setDoctorsMap] = useState<Record<string, string>>({})
   const [patients, setPatients] = useState<any[]>([])
+  const [stockTakes, setStockTakes] = useState<StockTake[]>([])
+  const [flow, setFlow] = useState<AppointmentFlowDay[]>([])
 
   // Fetch Data
   useEffect(() => {
@@ -132,9 +159,10 @@ const Reports: React.FC = () => {
           startTime: v.created_at || v.start_time,
           queueNumber: v.queue_number || 0,
           priority: v.priority || "normal",
-          vitals: v.vital_signs || {},
+          vitals: normalizeVitals(v.vitals || v.vital_signs),
           chiefComplaint: v.chief_complaint,
           diagnosis: v.diagnosis,
+          codedDiagnoses: v.coded_diagnoses || [],
           doctorNotes: v.doctor_notes,
           labOrders: v.lab_orders || [],
           prescription: v.prescription || [],
@@ -144,9 +172,13 @@ const Reports: React.FC = () => {
           insuranceDetails: v.insurance_details || null,
         }))
 
+        // Fetch posted stock-takes for the variance report
+        const stockTakesData = await import("../services/db").then((m) => m.db.getStockTakes())
+
         setVisits(mappedVisits)
         setAppointments(apptsData)
         setPatients(patientsData || [])
+        setStockTakes(stockTakesData)
       } catch (error) {
         console.error("Failed to load report data", error)
       } finally {
@@ -156,6 +188,54 @@ const Reports: React.FC = () => {
     loadData()
   }, [timeRange])
 
+  // Scheduled vs walk-in visits and punctuality, aggregated server-side
+  useEffect(() => {
+    const to = new Date()
+    const from = new Date()
+    if (timeRange === "7D") from.setDate(to.getDate() - 7)
+    else if (timeRange === "30D") from.setDate(to.getDate() - 30)
+    else if (timeRange === "3M") from.setMonth(to.getMonth() - 3)
+    else if (timeRange === "1Y") from.setFullYear(to.getFullYear() - 1)
+
+    db.getAppointmentFlowReport(from.toISOString().split("T")[0], to.toISOString().split("T")[0])
+      .then(setFlow)
+      .catch((e) => logger.warn("Failed to load appointment flow report:", e))
+  }, [timeRange])
+
+  // The month's visits plus the revisit window before it; a day either side covers timezone offsets
+  useEffect(() => {
+    const from = new Date(`${mohMonth}-01T00:00:00Z`)
+    from.setUTCDate(from.getUTCDate() - MOH_REVISIT_WINDOW_DAYS - 1)
+    const to = new Date(`${mohMonth}-01T00:00:00Z`)
+    to.setUTCMonth(to.getUTCMonth() + 1)
+    to.setUTCDate(to.getUTCDate() + 1)
+
+    setIsMohLoading(true)
+    db.getMohVisits(from.toISOString(), to.toISOString())
+      .then(setMohRecords)
+      .catch((e) => logger.warn("Failed to load MOH 705 visits:", e))
+      .finally(() => setIsMohLoading(false))
+  }, [mohMonth])
+
+  const mohReport = useMemo(
+    () => buildMoh705Report(mohRecords, mohMonth, mohFormType, settings.timezone || "Africa/Nairobi"),
+    [mohRecords, mohMonth, mohFormType, settings.timezone],
+  )
+
+  const loadDhis2Submissions = () => {
+    db.getDhis2Submissions()
+      .then(setDhis2Submissions)
+      .catch((e) => logger.warn("Failed to load DHIS2 submissions:", e))
+  }
+
+  useEffect(() => {
+    if (activeTab === "moh") loadDhis2Submissions()
+  }, [activeTab])
+
+  const dhis2Issues = getDhis2ConfigIssues(settings.dhis2, mohFormType)
+  const dhis2Export = settings.dhis2 && dhis2Issues.length === 0 ? buildMoh705DataValueSet(mohReport, settings.dhis2) : null
+  const unmappedCases = dhis2Export ? dhis2Export.unmapped.reduce((sum, line) => sum + line.newCases, 0) : 0
+
   // -- Aggregation Logic --
 
   const filteredVisits = useMemo(() => {
@@ -169,6 +249,17 @@ const Reports: React.FC = () => {
     return visits.filter((v) => new Date(v.startTime) >= limitDate)
   }, [visits, timeRange])
 
+  const varianceData = useMemo(() => {
+    const limitDate = new Date()
+    if (timeRange === "7D") limitDate.setDate(limitDate.getDate() - 7)
+    else if (timeRange === "30D") limitDate.setDate(limitDate.getDate() - 30)
+    else if (timeRange === "3M") limitDate.setMonth(limitDate.getMonth() - 3)
+    else if (timeRange === "1Y") limitDate.setFullYear(limitDate.getFullYear() - 1)
+
+    const posted = stockTakes.filter((t) => t.status === "Posted" && t.postedAt && new Date(t.postedAt) >= limitDate)
+    return { sessions: posted.length, ...summarizeVariances(posted) }
+  }, [stockTakes, timeRange])
+
   const financialData = useMemo(() => {
     // Group by Date
     const grouped = filteredVisits.reduce((acc, visit) => {
@@ -282,6 +373,26 @@ const Reports: React.FC = () => {
     return { genderData, ageData }
   }, [patients])
 
+  const flowSummary = useMemo(() => {
+    const sum = (key: "scheduledVisits" | "walkInVisits" | "onTime" | "late" | "booked" | "noShows") =>
+      flow.reduce((total, d) => total + d[key], 0)
+    const late = sum("late")
+    const lateMinutes = flow.reduce((total, d) => total + (d.averageMinutesLate || 0) * d.late, 0)
+    const arrivals = sum("onTime") + late
+    return {
+      scheduled: sum("scheduledVisits"),
+      walkIns: sum("walkInVisits"),
+      onTimeRate: arrivals ? Math.round((sum("onTime") / arrivals) * 100) : null,
+      averageMinutesLate: late ? Math.round(lateMinutes / late) : null,
+      noShowRate: sum("booked") ? Math.round((sum("noShows") / sum("booked")) * 100) : null,
+      chart: flow.map((d) => ({
+        name: new Date(`${d.day}T00:00:00`).toLocaleDateString("en-US", { month: "short", day: "numeric" }),
+        Scheduled: d.scheduledVisits,
+        "Walk-in": d.walkInVisits,
+      })),
+    }
+  }, [flow])
+
   // Table Data generator based on tab
   const tableData = useMemo(() => {
     let data: any[] = []
@@ -354,7 +465,57 @@ const Reports: React.FC = () => {
     }
   }
 
+  const handleExportMohCsv = () => {
+    exportToCsv(moh705ToCsvTable(mohReport, settings.name), `moh_${mohReport.form}_${mohReport.month}`)
+  }
+
+  const handlePrintMoh = async () => {
+    const html = await documentGenerator.generateMoh705Pdf(mohReport, settings)
+    documentGenerator.printDocument(html, `MOH ${mohReport.form} - ${mohReport.month}`)
+  }
+
+  const handleDownloadDhis2 = () => {
+    if (!dhis2Export) return
+    const blob = new Blob([JSON.stringify(dhis2Export.payload, null, 2)], { type: "application/json" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `dhis2_moh_${mohReport.form}_${dhis2Export.payload.period}.json`
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(url)
+  }
+
+  const handlePushDhis2 = async (dryRun: boolean) => {
+    if (!dhis2Export) return
+    if (!canCurrentUser("reports.moh")) {
+      actions.showToast("You do not have permission to submit MOH reports.", "error")
+      return
+    }
+    if (!dryRun && !confirm(`Submit MOH ${mohReport.form} for ${mohReport.month} to DHIS2? Values already in KHIS for this month will be overwritten.`)) return
+
+    setIsPushing(true)
+    try {
+      const result = await pushDhis2DataValueSet(mohReport.form, dhis2Export.payload, dryRun)
+      const counts = `${result.imported} imported, ${result.updated} updated, ${result.ignored} ignored`
+      actions.showToast(
+        `${dryRun ? "Dry run" : "DHIS2"} ${result.status.toLowerCase()}: ${counts}`,
+        result.status === "Error" ? "error" : result.status === "Warning" ? "info" : "success",
+      )
+    } catch (e: any) {
+      actions.showToast(e.message, "error")
+    } finally {
+      setIsPushing(false)
+      loadDhis2Submissions()
+    }
+  }
+
   const handleExportCSV = async () => {
+    if (activeTab === "moh") {
+      handleExportMohCsv()
+      return
+    }
     setIsExporting(true)
 
     try {
@@ -367,12 +528,12 @@ const Reports: React.FC = () => {
         blob = await exportService.exportVisits({ format: exportFormat })
       } else if (activeTab === "operational") {
         blob = await exportService.exportAppointments({ format: exportFormat })
+      } else if (activeTab === "variance") {
+        const headers = ["Item", "System Qty", "Counted Qty", "Variance", "Value (KSh)"]
+        const rows = varianceData.items.map((i) => [`"${i.name}"`, i.expected, i.counted, i.variance, i.value].join(","))
+        blob = new Blob([headers.join(",") + "\n" + rows.join("\n")], { type: "text/csv;charset=utf-8;" })
       } else {
-        // Fallback to client-side export for MOH
-        const headers = ["Code", "Disease", "New Cases", "Re-Visits", "Referrals"]
-        const rows = filteredTableData.map((row) => Object.values(row).join(","))
-        const csvContent = headers.join(",") + "\n" + rows.join("\n")
-        blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" })
+        throw new Error(`No export for ${activeTab}`)
       }
 
       // Trigger download
@@ -449,7 +610,9 @@ const Reports: React.FC = () => {
           {activeTab === "operational" &&
             `Appointment completion rate is at ${operationalData[0]?.value}%. No-shows are higher on Mondays.`}
           {activeTab === "moh" &&
-            `Data quality for MOH 705A is at 98%. Ensure all 'Under 5' weights are recorded to reach 100% compliance.`}
+            (mohReport.visits === 0
+              ? `No MOH ${mohReport.form} visits recorded for ${mohReport.month}.`
+              : `${Math.round(((mohReport.visits - mohReport.uncodedVisits) / mohReport.visits) * 100)}% of MOH ${mohReport.form} visits this month carry an ICD code. ${mohReport.uncodedVisits} uncoded visit(s) are missing from the disease rows${mohReport.unknownAgeVisits ? `, and ${mohReport.unknownAgeVisits} visit(s) are on neither form because the patient has no date of birth` : ""}.`)}
         </p>
       </div>
     </div>
@@ -792,21 +955,43 @@ const Reports: React.FC = () => {
           </ResponsiveContainer>
         </div>
       </div>
+
+      <div className="bg-white dark:bg-slate-800 p-6 rounded-3xl shadow-sm border border-slate-100 dark:border-slate-700">
+        <h3 className="font-bold text-slate-900 dark:text-white mb-2">Scheduled vs Walk-in Visits</h3>
+        <p className="text-xs text-slate-500 mb-6">Visits checked in from an appointment count as scheduled. Arrivals up to 10 minutes after the booked time are on time.</p>
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+          {[
+            { label: "Scheduled", value: flowSummary.scheduled.toLocaleString() },
+            { label: "Walk-in", value: flowSummary.walkIns.toLocaleString() },
+            { label: "On Time", value: flowSummary.onTimeRate === null ? "—" : `${flowSummary.onTimeRate}%` },
+            { label: "Avg Lateness", value: flowSummary.averageMinutesLate === null ? "—" : `${flowSummary.averageMinutesLate} min` },
+            { label: "No-Show Rate", value: flowSummary.noShowRate === null ? "—" : `${flowSummary.noShowRate}%` },
+          ].map((stat) => (
+            <div key={stat.label} className="p-4 bg-slate-50 dark:bg-slate-700/50 rounded-2xl">
+              <p className="text-slate-500 text-xs font-bold uppercase tracking-wider">{stat.label}</p>
+              <p className="text-xl font-bold text-slate-900 dark:text-white mt-1">{stat.value}</p>
+            </div>
+          ))}
+        </div>
+        <div className="h-64 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={flowSummary.chart}>
+              <CartesianGrid vertical={false} stroke="#e2e8f0" strokeOpacity={0.5} />
+              <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fill: "#64748b", fontSize: 12 }} />
+              <YAxis allowDecimals={false} axisLine={false} tickLine={false} tick={{ fill: "#64748b", fontSize: 12 }} />
+              <Tooltip contentStyle={{ backgroundColor: "#1e293b", borderRadius: "8px", border: "none", color: "#fff" }} />
+              <Legend />
+              <Bar dataKey="Scheduled" stackId="visits" fill={COLORS.primary} />
+              <Bar dataKey="Walk-in" stackId="visits" fill={COLORS.slate} radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
     </div>
   )
 
   const renderMohReport = () => {
-    // Mock MOH Data Aggregation
-    const mohData = [
-      { code: "15", disease: "Malaria (Confirmed)", newCases: 45, reVisits: 2, referrals: 0 },
-      { code: "18", disease: "Diarrhoea", newCases: 23, reVisits: 0, referrals: 1 },
-      { code: "21", disease: "Pneumonia", newCases: 12, reVisits: 1, referrals: 0 },
-      { code: "22", disease: "Upper Respiratory Tract Infection", newCases: 67, reVisits: 5, referrals: 0 },
-      { code: "24", disease: "Tonsillitis", newCases: 15, reVisits: 0, referrals: 0 },
-      { code: "36", disease: "Urinary Tract Infection", newCases: 19, reVisits: 2, referrals: 0 },
-      { code: "39", disease: "Hypertension", newCases: 8, reVisits: 32, referrals: 1 },
-      { code: "40", disease: "Diabetes", newCases: 4, reVisits: 18, referrals: 0 },
-    ]
+    const days = Array.from({ length: mohReport.daysInMonth }, (_, i) => i + 1)
 
     return (
       <div className="space-y-6 animate-in fade-in">
@@ -818,90 +1003,307 @@ const Reports: React.FC = () => {
               <ScrollText className="w-5 h-5 text-green-600" />
               Ministry of Health Reporting (MOH 705)
             </h3>
-            <p className="text-sm text-slate-500 mt-1">Automated generation of monthly outpatient summary forms.</p>
+            <p className="text-sm text-slate-500 mt-1">
+              Monthly outpatient summary from coded visits. A patient seen again for the same condition within {MOH_REVISIT_WINDOW_DAYS} days is a revisit.
+            </p>
           </div>
-          <div className="flex bg-slate-100 dark:bg-slate-700 p-1 rounded-xl">
-            <button
-              onClick={() => setMohFormType("705A")}
-              className={`px-4 py-2 rounded-lg text-sm font-bold transition-all ${mohFormType === "705A" ? "bg-white dark:bg-slate-600 shadow text-green-700 dark:text-green-400" : "text-slate-500"}`}
-            >
-              MOH 705A (Under 5)
-            </button>
-            <button
-              onClick={() => setMohFormType("705B")}
-              className={`px-4 py-2 rounded-lg text-sm font-bold transition-all ${mohFormType === "705B" ? "bg-white dark:bg-slate-600 shadow text-green-700 dark:text-green-400" : "text-slate-500"}`}
-            >
-              MOH 705B (Over 5)
-            </button>
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              type="month"
+              value={mohMonth}
+              max={new Date().toISOString().slice(0, 7)}
+              onChange={(e) => e.target.value && setMohMonth(e.target.value)}
+              className="px-3 py-2 bg-slate-100 dark:bg-slate-700 rounded-xl text-sm font-bold outline-none dark:text-white"
+            />
+            <div className="flex bg-slate-100 dark:bg-slate-700 p-1 rounded-xl">
+              <button
+                onClick={() => setMohFormType("705A")}
+                className={`px-4 py-2 rounded-lg text-sm font-bold transition-all ${mohFormType === "705A" ? "bg-white dark:bg-slate-600 shadow text-green-700 dark:text-green-400" : "text-slate-500"}`}
+              >
+                MOH 705A (Under 5)
+              </button>
+              <button
+                onClick={() => setMohFormType("705B")}
+                className={`px-4 py-2 rounded-lg text-sm font-bold transition-all ${mohFormType === "705B" ? "bg-white dark:bg-slate-600 shadow text-green-700 dark:text-green-400" : "text-slate-500"}`}
+              >
+                MOH 705B (5 and Over)
+              </button>
+            </div>
           </div>
         </div>
 
         <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-700 overflow-hidden">
-          <div className="p-4 bg-green-50 dark:bg-green-900/20 border-b border-green-100 dark:border-green-900 flex justify-between items-center">
-            <h4 className="font-bold text-green-800 dark:text-green-300 text-sm uppercase tracking-wide">
-              {mohFormType === "705A" ? "Outpatient Register - Under 5 Years" : "Outpatient Register - Over 5 Years"}
+          <div className="p-4 bg-green-50 dark:bg-green-900/20 border-b border-green-100 dark:border-green-900 flex justify-between items-center gap-3">
+            <h4 className="font-bold text-green-800 dark:text-green-300 text-sm uppercase tracking-wide flex items-center gap-2">
+              {getMohFormTitle(mohFormType)}
+              {isMohLoading && <Loader2 className="w-4 h-4 animate-spin" />}
             </h4>
-            <button className="flex items-center gap-2 bg-green-600 hover:bg-green-700 text-white px-3 py-1.5 rounded-lg text-xs font-bold transition-colors">
-              <FileSpreadsheet className="w-4 h-4" />
-              Download Excel
-            </button>
+            <div className="flex gap-2">
+              <button
+                onClick={handlePrintMoh}
+                className="flex items-center gap-2 bg-white dark:bg-slate-700 border border-green-200 dark:border-green-800 text-green-700 dark:text-green-300 px-3 py-1.5 rounded-lg text-xs font-bold transition-colors"
+              >
+                <Printer className="w-4 h-4" />
+                Print / PDF
+              </button>
+              <button
+                onClick={handleExportMohCsv}
+                className="flex items-center gap-2 bg-green-600 hover:bg-green-700 text-white px-3 py-1.5 rounded-lg text-xs font-bold transition-colors"
+              >
+                <FileSpreadsheet className="w-4 h-4" />
+                Download CSV
+              </button>
+            </div>
           </div>
           <div className="overflow-x-auto">
-            <table className="w-full text-left text-sm border-collapse min-w-[700px]">
-              <thead className="bg-slate-50 dark:bg-slate-700/50 text-xs uppercase text-slate-500 dark:text-slate-400 font-semibold">
+            <table className="w-full text-left text-xs border-collapse">
+              <thead className="bg-slate-50 dark:bg-slate-700/50 uppercase text-slate-500 dark:text-slate-400 font-semibold">
                 <tr>
-                  <th className="px-6 py-4 border-b border-slate-200 dark:border-slate-700 border-r w-24">Code</th>
-                  <th className="px-6 py-4 border-b border-slate-200 dark:border-slate-700 border-r">
-                    Disease / Condition
-                  </th>
-                  <th className="px-6 py-4 border-b border-slate-200 dark:border-slate-700 border-r text-center bg-slate-50/50 dark:bg-slate-800/50">
-                    New Cases
-                  </th>
-                  <th className="px-6 py-4 border-b border-slate-200 dark:border-slate-700 border-r text-center bg-slate-50/50 dark:bg-slate-800/50">
-                    Re-Visits
-                  </th>
-                  <th className="px-6 py-4 border-b border-slate-200 dark:border-slate-700 text-center bg-slate-50/50 dark:bg-slate-800/50">
-                    Referrals In
+                  <th className="px-2 py-3 border-b border-r border-slate-200 dark:border-slate-700 text-center">No.</th>
+                  <th className="px-4 py-3 border-b border-r border-slate-200 dark:border-slate-700 sticky left-0 bg-slate-50 dark:bg-slate-800 min-w-[200px]">
+                    Disease (new cases)
                   </th>
+                  {days.map((day) => (
+                    <th key={day} className="px-1.5 py-3 border-b border-r border-slate-200 dark:border-slate-700 text-center font-mono">
+                      {day}
+                    </th>
+                  ))}
+                  <th className="px-3 py-3 border-b border-r border-slate-200 dark:border-slate-700 text-center">Total</th>
+                  <th className="px-3 py-3 border-b border-slate-200 dark:border-slate-700 text-center">Revisits</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
-                {mohData.map((row, i) => (
-                  <tr key={i} className="hover:bg-slate-50 dark:hover:bg-slate-700/30">
-                    <td className="px-6 py-3 border-r border-slate-100 dark:border-slate-700 font-mono font-bold text-slate-400">
-                      {row.code}
+                {mohReport.lines.map((line) => (
+                  <tr key={line.row.id} className="hover:bg-slate-50 dark:hover:bg-slate-700/30">
+                    <td className="px-2 py-2 border-r border-slate-100 dark:border-slate-700 text-center font-mono text-slate-400">{line.number}</td>
+                    <td className="px-4 py-2 border-r border-slate-100 dark:border-slate-700 font-medium text-slate-900 dark:text-white sticky left-0 bg-white dark:bg-slate-800">
+                      {line.row.label}
                     </td>
-                    <td className="px-6 py-3 border-r border-slate-100 dark:border-slate-700 font-medium text-slate-900 dark:text-white">
-                      {row.disease}
-                    </td>
-                    <td className="px-6 py-3 border-r border-slate-100 dark:border-slate-700 text-center font-bold text-slate-700 dark:text-slate-300">
-                      {row.newCases}
-                    </td>
-                    <td className="px-6 py-3 border-r border-slate-100 dark:border-slate-700 text-center text-slate-500">
-                      {row.reVisits}
+                    {line.daily.map((count, i) => (
+                      <td key={i} className="px-1.5 py-2 border-r border-slate-100 dark:border-slate-700 text-center text-slate-600 dark:text-slate-300">
+                        {count || ""}
+                      </td>
+                    ))}
+                    <td className="px-3 py-2 border-r border-slate-100 dark:border-slate-700 text-center font-bold text-slate-700 dark:text-slate-300">
+                      {line.newCases}
                     </td>
-                    <td className="px-6 py-3 text-center text-slate-500">{row.referrals}</td>
+                    <td className="px-3 py-2 text-center text-slate-500">{line.revisits}</td>
                   </tr>
                 ))}
                 <tr className="bg-slate-50 dark:bg-slate-700/30 font-bold">
-                  <td className="px-6 py-3 border-r border-slate-200 dark:border-slate-700">TOTAL</td>
-                  <td className="px-6 py-3 border-r border-slate-200 dark:border-slate-700">ALL DIAGNOSES</td>
-                  <td className="px-6 py-3 border-r border-slate-200 dark:border-slate-700 text-center">
-                    {mohData.reduce((a: number, b: any) => a + b.newCases, 0)}
-                  </td>
-                  <td className="px-6 py-3 border-r border-slate-200 dark:border-slate-700 text-center">
-                    {mohData.reduce((a: number, b: any) => a + b.reVisits, 0)}
-                  </td>
-                  <td className="px-6 py-3 text-center">{mohData.reduce((a: number, b: any) => a + b.referrals, 0)}</td>
+                  <td className="px-2 py-3 border-r border-slate-200 dark:border-slate-700"></td>
+                  <td className="px-4 py-3 border-r border-slate-200 dark:border-slate-700 sticky left-0 bg-slate-50 dark:bg-slate-800">TOTAL</td>
+                  {mohReport.dailyTotals.map((count, i) => (
+                    <td key={i} className="px-1.5 py-3 border-r border-slate-200 dark:border-slate-700 text-center">
+                      {count}
+                    </td>
+                  ))}
+                  <td className="px-3 py-3 border-r border-slate-200 dark:border-slate-700 text-center">{mohReport.totalNewCases}</td>
+                  <td className="px-3 py-3 text-center">{mohReport.totalRevisits}</td>
                 </tr>
               </tbody>
             </table>
           </div>
         </div>
+
+        <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-700 p-6 space-y-4">
+          <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-3">
+            <div>
+              <h4 className="font-bold text-slate-900 dark:text-white flex items-center gap-2">
+                <Upload className="w-5 h-5 text-green-600" />
+                KHIS (DHIS2) Submission
+              </h4>
+              <p className="text-sm text-slate-500 mt-1">
+                Sends each row's new cases for {mohReport.month} as a dataValueSets payload. Mappings are set under Settings, Integrations.
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={handleDownloadDhis2}
+                disabled={!dhis2Export}
+                className="px-3 py-1.5 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 rounded-lg text-xs font-bold disabled:opacity-50"
+              >
+                Download JSON
+              </button>
+              <button
+                onClick={() => handlePushDhis2(true)}
+                disabled={!dhis2Export || !settings.dhis2?.enabled || isPushing}
+                className="px-3 py-1.5 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 rounded-lg text-xs font-bold disabled:opacity-50"
+              >
+                Dry Run
+              </button>
+              <button
+                onClick={() => handlePushDhis2(false)}
+                disabled={!dhis2Export || !settings.dhis2?.enabled || isPushing}
+                className="flex items-center gap-2 bg-green-600 hover:bg-green-700 text-white px-3 py-1.5 rounded-lg text-xs font-bold disabled:opacity-50"
+              >
+                {isPushing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                Push to KHIS
+              </button>
+            </div>
+          </div>
+
+          {dhis2Issues.length > 0 && (
+            <p className="text-xs text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/20 p-3 rounded-xl">{dhis2Issues.join(". ")}.</p>
+          )}
+          {dhis2Issues.length === 0 && !settings.dhis2?.enabled && (
+            <p className="text-xs text-slate-500 bg-slate-50 dark:bg-slate-700/30 p-3 rounded-xl">Pushing is switched off; the payload can still be downloaded for manual upload.</p>
+          )}
+          {unmappedCases > 0 && (
+            <p className="text-xs text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/20 p-3 rounded-xl">
+              {unmappedCases} new case(s) are in rows without a data element and will not be sent:{" "}
+              {dhis2Export!.unmapped.filter((line) => line.newCases > 0).map((line) => line.row.label).join(", ")}.
+            </p>
+          )}
+
+          {dhis2Submissions.length > 0 && (
+            <table className="w-full text-left text-xs">
+              <thead className="text-slate-500 uppercase">
+                <tr>
+                  <th className="py-2">Submitted</th>
+                  <th className="py-2">Form</th>
+                  <th className="py-2">Period</th>
+                  <th className="py-2">Status</th>
+                  <th className="py-2">Result</th>
+                  <th className="py-2">By</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                {dhis2Submissions.map((submission) => (
+                  <tr key={submission.id} className="text-slate-700 dark:text-slate-300 align-top">
+                    <td className="py-2">{new Date(submission.createdAt).toLocaleString()}</td>
+                    <td className="py-2">MOH {submission.form}</td>
+                    <td className="py-2 font-mono">{submission.period}</td>
+                    <td className="py-2">
+                      <span
+                        className={`px-2 py-0.5 rounded font-bold ${submission.status === "Success" ? "bg-green-50 text-green-700" : submission.status === "Warning" ? "bg-amber-50 text-amber-700" : "bg-red-50 text-red-700"}`}
+                      >
+                        {submission.dryRun ? `Dry run: ${submission.status}` : submission.status}
+                      </span>
+                    </td>
+                    <td className="py-2">
+                      {submission.imported} imported, {submission.updated} updated, {submission.ignored} ignored of {submission.valueCount}
+                      {submission.message && <div className="text-slate-400">{submission.message}</div>}
+                      {submission.conflicts.slice(0, 3).map((conflict, i) => (
+                        <div key={i} className="text-red-500">
+                          {conflict}
+                        </div>
+                      ))}
+                    </td>
+                    <td className="py-2">{submission.submittedByName || "-"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
       </div>
     )
   }
 
+  const renderVarianceReport = () => (
+    <div className="space-y-6 animate-in fade-in">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-white dark:bg-slate-800 p-6 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-700">
+          <p className="text-slate-500 text-xs font-bold uppercase tracking-wider">Shrinkage (Losses)</p>
+          <h3 className="text-2xl font-bold text-red-500 mt-1">KSh {Math.abs(varianceData.lossValue).toLocaleString()}</h3>
+          <p className="mt-4 text-sm text-slate-500">Across {varianceData.sessions} stock-take{varianceData.sessions === 1 ? "" : "s"}</p>
+        </div>
+        <div className="bg-white dark:bg-slate-800 p-6 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-700">
+          <p className="text-slate-500 text-xs font-bold uppercase tracking-wider">Found Stock (Gains)</p>
+          <h3 className="text-2xl font-bold text-green-600 mt-1">KSh {varianceData.gainValue.toLocaleString()}</h3>
+          <p className="mt-4 text-sm text-slate-500">Counted above system quantity</p>
+        </div>
+        <div className="bg-white dark:bg-slate-800 p-6 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-700">
+          <p className="text-slate-500 text-xs font-bold uppercase tracking-wider">Net Variance</p>
+          <h3 className={`text-2xl font-bold mt-1 ${varianceData.netValue < 0 ? "text-red-500" : "text-slate-900 dark:text-white"}`}>
+            KSh {varianceData.netValue.toLocaleString()}
+          </h3>
+          <p className="mt-4 text-sm text-slate-500">{varianceData.items.length} item{varianceData.items.length === 1 ? "" : "s"} adjusted</p>
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-slate-800 p-6 rounded-3xl shadow-sm border border-slate-100 dark:border-slate-700">
+        <h3 className="font-bold text-slate-900 dark:text-white mb-6">Variance Value by Reason</h3>
+        {varianceData.byReason.length > 0 ? (
+          <div className="h-64 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={varianceData.byReason} layout="vertical" margin={{ left: 20 }}>
+                <CartesianGrid horizontal={false} stroke="#e2e8f0" strokeOpacity={0.5} />
+                <XAxis type="number" hide />
+                <YAxis
+                  dataKey="reason"
+                  type="category"
+                  width={110}
+                  axisLine={false}
+                  tickLine={false}
+                  tick={{ fill: "#64748b", fontSize: 12, fontWeight: 500 }}
+                />
+                <Tooltip
+                  cursor={{ fill: "transparent" }}
+                  contentStyle={{ backgroundColor: "#1e293b", borderRadius: "8px", border: "none", color: "#fff" }}
+                  formatter={(value) => [`KSh ${Number(value).toLocaleString()}`, "Value"]}
+                />
+                <Bar dataKey="value" radius={[0, 4, 4, 0]} barSize={20}>
+                  {varianceData.byReason.map((entry, index) => (
+                    <Cell key={`cell-${index}`} fill={entry.value < 0 ? COLORS.danger : COLORS.success} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        ) : (
+          <p className="text-center py-8 text-slate-500">No stock-take variances in this period</p>
+        )}
+      </div>
+
+      <div className="bg-white dark:bg-slate-800 rounded-3xl shadow-sm border border-slate-100 dark:border-slate-700 overflow-hidden">
+        <div className="p-6 border-b border-slate-100 dark:border-slate-700">
+          <h3 className="font-bold text-slate-900 dark:text-white flex items-center gap-2">
+            <ClipboardCheck className="w-5 h-5 text-slate-400" />
+            Variance by Item
+          </h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50 dark:bg-slate-700/50 text-xs uppercase text-slate-400 font-semibold border-b border-slate-100 dark:border-slate-700">
+              <tr>
+                <th className="px-6 py-4">Item</th>
+                <th className="px-6 py-4 text-center">System Qty</th>
+                <th className="px-6 py-4 text-center">Counted Qty</th>
+                <th className="px-6 py-4 text-center">Variance</th>
+                <th className="px-6 py-4 text-right">Value</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50 dark:divide-slate-700">
+              {varianceData.items.map((item) => (
+                <tr key={item.inventoryId} className="hover:bg-slate-50 dark:hover:bg-slate-700/30 transition-colors">
+                  <td className="px-6 py-4 font-medium text-slate-900 dark:text-white">{item.name}</td>
+                  <td className="px-6 py-4 text-center text-slate-600 dark:text-slate-300">{item.expected}</td>
+                  <td className="px-6 py-4 text-center text-slate-600 dark:text-slate-300">{item.counted}</td>
+                  <td className={`px-6 py-4 text-center font-bold ${item.variance < 0 ? "text-red-500" : "text-green-600"}`}>
+                    {item.variance > 0 ? "+" : ""}
+                    {item.variance}
+                  </td>
+                  <td className={`px-6 py-4 text-right font-bold ${item.value < 0 ? "text-red-500" : "text-green-600"}`}>
+                    KSh {item.value.toLocaleString()}
+                  </td>
+                </tr>
+              ))}
+              {varianceData.items.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-6 py-12 text-center text-slate-400">
+                    No variances recorded for {getRangeLabel()?.toLowerCase()}.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+
   // Helper function to render disease counts with null safety
   const renderDiseaseCounts = () => {
     // Ensure diseaseData exists and has count property
@@ -1019,6 +1421,7 @@ const Reports: React.FC = () => {
           { id: "clinical", label: "Clinical", icon: Activity },
           { id: "operational", label: "Operational", icon: FileText },
           { id: "moh", label: "MOH Compliance", icon: ScrollText },
+          { id: "variance", label: "Stock Variance", icon: ClipboardCheck },
         ].map((tab) => (
           <button
             key={tab.id}
@@ -1070,10 +1473,11 @@ const Reports: React.FC = () => {
           {activeTab === "clinical" && renderClinicalTab()}
           {activeTab === "operational" && renderOperationalTab()}
           {activeTab === "moh" && renderMohReport()}
+          {activeTab === "variance" && renderVarianceReport()}
         </div>
 
-        {/* Detailed Data Table (Common) - Hide for MOH as it has its own table */}
-        {activeTab !== "moh" && (
+        {/* Detailed Data Table (Common) - Hide for MOH and variance as they have their own tables */}
+        {activeTab !== "moh" && activeTab !== "variance" && (
           <div
             id="reports-table"
             className="mt-8 bg-white dark:bg-slate-800 rounded-3xl shadow-sm border border-slate-100 dark:border-slate-700 overflow-hidden animate-in fade-in slide-in-from-bottom-8 duration-700"
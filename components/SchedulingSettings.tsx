@@ -0,0 +1,387 @@
+import React, { useState, useEffect } from 'react';
+import useStore from '../store'
+import { ProviderWorkingHours, OverbookingPolicy, OnlineBookingSettings, WaitlistSettings } from '../types';
+import { Clock, CalendarClock, Plus, Trash2, Save, Loader2, Users, Globe, Copy, Hourglass } from 'lucide-react';
+import { canCurrentUser } from '../lib/roleMapper'
+import { getProviders, WEEKDAY_LABELS, timeToMinutes } from '../lib/scheduling'
+
+type DayHours = { enabled: boolean; startTime: string; endTime: string };
+
+const DEFAULT_DAY: DayHours = { enabled: false, startTime: '08:00', endTime: '17:00' };
+const DEFAULT_OVERBOOKING: OverbookingPolicy = { enabled: false, maxExtraPerSlot: 1, minNoShowRate: 0.3 };
+const DEFAULT_ONLINE_BOOKING: OnlineBookingSettings = { enabled: false, daysAhead: 30, appointmentTypes: [] };
+const DEFAULT_WAITLIST: WaitlistSettings = { offerMinutes: 30 };
+
+const toWeek = (hours: ProviderWorkingHours[]): DayHours[] =>
+    WEEKDAY_LABELS.map((_, weekday) => {
+        const day = hours.find(h => h.weekday === weekday);
+        return day ? { enabled: true, startTime: day.startTime, endTime: day.endTime } : { ...DEFAULT_DAY };
+    });
+
+// Appointment types (slot lengths) and weekly working hours per provider
+const SchedulingSettings: React.FC = () => {
+    const { settings, appointmentTypes, providerSchedules, actions } = useStore();
+    const providers = getProviders(settings.team || []);
+    const canEdit = canCurrentUser('settings.edit');
+
+    const [newType, setNewType] = useState({ name: '', durationMinutes: 30 });
+    const [providerId, setProviderId] = useState('');
+    const [week, setWeek] = useState<DayHours[]>(toWeek([]));
+    const [isSaving, setIsSaving] = useState(false);
+    const [overbooking, setOverbooking] = useState<OverbookingPolicy>(settings.overbooking || DEFAULT_OVERBOOKING);
+
+    const [onlineBooking, setOnlineBooking] = useState<OnlineBookingSettings>(settings.onlineBooking || DEFAULT_ONLINE_BOOKING);
+
+    useEffect(() => {
+        setOverbooking(settings.overbooking || DEFAULT_OVERBOOKING);
+    }, [settings.overbooking]);
+
+    const [waitlist, setWaitlist] = useState<WaitlistSettings>(settings.waitlist || DEFAULT_WAITLIST);
+
+    useEffect(() => {
+        setOnlineBooking(settings.onlineBooking || DEFAULT_ONLINE_BOOKING);
+    }, [settings.onlineBooking]);
+
+    useEffect(() => {
+        setWaitlist(settings.waitlist || DEFAULT_WAITLIST);
+    }, [settings.waitlist]);
+
+    const bookingLink = settings.slug ? `${window.location.origin}/book/${settings.slug}` : '';
+
+    const selectedProviderId = providerId || providers[0]?.id || '';
+
+    useEffect(() => {
+        setWeek(toWeek(providerSchedules.filter(h => h.providerId === selectedProviderId)));
+    }, [selectedProviderId, providerSchedules]);
+
+    const denyEdit = () => {
+        try { useStore.getState().actions.showToast('You do not have permission to change scheduling.', 'error') } catch (e) { alert('You do not have permission to change scheduling.') }
+    };
+
+    const handleAddType = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!canEdit) return denyEdit();
+        if (!newType.name.trim()) return;
+        await actions.saveAppointmentType({ id: '', name: newType.name.trim(), durationMinutes: newType.durationMinutes });
+        setNewType({ name: '', durationMinutes: 30 });
+    };
+
+    const updateDay = (weekday: number, patch: Partial<DayHours>) => {
+        setWeek(week.map((day, i) => (i === weekday ? { ...day, ...patch } : day)));
+    };
+
+    const handleSaveHours = async () => {
+        if (!canEdit) return denyEdit();
+        if (!selectedProviderId) return;
+        const invalid = week.findIndex(day => day.enabled && timeToMinutes(day.endTime) <= timeToMinutes(day.startTime));
+        if (invalid >= 0) {
+            actions.showToast(`${WEEKDAY_LABELS[invalid]}: end time must be after start time.`, 'error');
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            await actions.saveProviderSchedule(
+                selectedProviderId,
+                week.flatMap((day, weekday) => day.enabled
+                    ? [{ providerId: selectedProviderId, weekday, startTime: day.startTime, endTime: day.endTime }]
+                    : [])
+            );
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleSaveOverbooking = async () => {
+        if (!canEdit) return denyEdit();
+        await actions.updateSettings({ ...settings, overbooking });
+    };
+
+    const toggleOnlineType = (name: string) => {
+        const current = onlineBooking.appointmentTypes || [];
+        setOnlineBooking({
+            ...onlineBooking,
+            appointmentTypes: current.includes(name) ? current.filter(t => t !== name) : [...current, name],
+        });
+    };
+
+    const handleSaveOnlineBooking = async () => {
+        if (!canEdit) return denyEdit();
+        await actions.updateSettings({ ...settings, onlineBooking });
+    };
+
+    const handleSaveWaitlist = async () => {
+        if (!canEdit) return denyEdit();
+        await actions.updateSettings({ ...settings, waitlist });
+    };
+
+    const copyBookingLink = async () => {
+        try {
+            await navigator.clipboard.writeText(bookingLink);
+            actions.showToast('Booking link copied');
+        } catch (e) {
+            actions.showToast('Could not copy the link', 'error');
+        }
+    };
+
+    return (
+        <div className="space-y-6 animate-in fade-in slide-in-from-right-4 duration-300">
+            <div className="bg-white dark:bg-slate-800 p-4 md:p-6 rounded-3xl shadow-sm border border-slate-100 dark:border-slate-700">
+                <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-2 flex items-center gap-2">
+                    <Clock className="w-5 h-5 text-teal-600" /> Appointment Types
+                </h3>
+                <p className="text-sm text-slate-500 dark:text-slate-400 mb-6">Each type books a slot of its own length. Untyped appointments take 30 minutes.</p>
+
+                <div className="space-y-2 mb-4">
+                    {appointmentTypes.map(type => (
+                        <div key={type.id} className="flex items-center justify-between p-3 bg-slate-50 dark:bg-slate-700/30 rounded-xl">
+                            <span className="font-semibold text-sm text-slate-900 dark:text-white">{type.name}</span>
+                            <div className="flex items-center gap-3">
+                                <span className="text-sm text-slate-500">{type.durationMinutes} min</span>
+                                <button
+                                    onClick={() => canEdit ? actions.deleteAppointmentType(type.id) : denyEdit()}
+                                    className="p-1.5 text-slate-400 hover:text-red-500"
+                                    title="Delete"
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                    {appointmentTypes.length === 0 && (
+                        <p className="text-sm text-slate-400 py-2">No appointment types yet.</p>
+                    )}
+                </div>
+
+                <form onSubmit={handleAddType} className="flex flex-col sm:flex-row gap-3">
+                    <input
+                        type="text"
+                        value={newType.name}
+                        onChange={(e) => setNewType({ ...newType, name: e.target.value })}
+                        placeholder="e.g. Antenatal Visit"
+                        className="flex-1 p-3 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-xl text-sm outline-none dark:text-white focus:ring-2 focus:ring-teal-500"
+                    />
+                    <select
+                        value={newType.durationMinutes}
+                        onChange={(e) => setNewType({ ...newType, durationMinutes: Number(e.target.value) })}
+                        className="p-3 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-xl text-sm outline-none dark:text-white"
+                    >
+                        {[10, 15, 20, 30, 45, 60, 90, 120].map(mins => (
+                            <option key={mins} value={mins}>{mins} min</option>
+                        ))}
+                    </select>
+                    <button type="submit" className="px-4 py-3 bg-teal-600 text-white font-bold rounded-xl hover:bg-teal-700 flex items-center justify-center gap-2">
+                        <Plus className="w-4 h-4" /> Add
+                    </button>
+                </form>
+            </div>
+
+            <div className="bg-white dark:bg-slate-800 p-4 md:p-6 rounded-3xl shadow-sm border border-slate-100 dark:border-slate-700">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+                    <div>
+                        <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-2 flex items-center gap-2">
+                            <CalendarClock className="w-5 h-5 text-teal-600" /> Provider Working Hours
+                        </h3>
+                        <p className="text-sm text-slate-500 dark:text-slate-400">Only free slots inside these hours are offered for booking.</p>
+                    </div>
+                    <select
+                        value={selectedProviderId}
+                        onChange={(e) => setProviderId(e.target.value)}
+                        className="sm:w-64 p-2.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-xl text-sm font-bold outline-none dark:text-white"
+                    >
+                        {providers.map(p => (
+                            <option key={p.id} value={p.id}>{p.name} ({p.role})</option>
+                        ))}
+                    </select>
+                </div>
+
+                {providers.length === 0 ? (
+                    <p className="text-sm text-slate-400">Add active doctors or nurses under Team Members first.</p>
+                ) : (
+                    <>
+                        <div className="space-y-2">
+                            {week.map((day, weekday) => (
+                                <div key={weekday} className="flex flex-wrap items-center gap-3 p-3 bg-slate-50 dark:bg-slate-700/30 rounded-xl">
+                                    <label className="flex items-center gap-2 w-36 text-sm font-semibold text-slate-700 dark:text-slate-200">
+                                        <input
+                                            type="checkbox"
+                                            checked={day.enabled}
+                                            onChange={(e) => updateDay(weekday, { enabled: e.target.checked })}
+                                            className="w-4 h-4 accent-teal-600"
+                                        />
+                                        {WEEKDAY_LABELS[weekday]}
+                                    </label>
+                                    {day.enabled ? (
+                                        <div className="flex items-center gap-2 text-sm">
+                                            <input type="time" value={day.startTime} onChange={(e) => updateDay(weekday, { startTime: e.target.value })} className="p-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg outline-none dark:text-white" />
+                                            <span className="text-slate-400">to</span>
+                                            <input type="time" value={day.endTime} onChange={(e) => updateDay(weekday, { endTime: e.target.value })} className="p-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg outline-none dark:text-white" />
+                                        </div>
+                                    ) : (
+                                        <span className="text-sm text-slate-400">Not working</span>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                        <div className="flex justify-end mt-4">
+                            <button onClick={handleSaveHours} disabled={isSaving} className="px-5 py-2.5 bg-slate-900 dark:bg-teal-600 text-white font-bold rounded-xl flex items-center gap-2 hover:bg-slate-800 disabled:opacity-60">
+                                {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                                Save Hours
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+
+            <div className="bg-white dark:bg-slate-800 p-4 md:p-6 rounded-3xl shadow-sm border border-slate-100 dark:border-slate-700">
+                <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-2 flex items-center gap-2">
+                    <Users className="w-5 h-5 text-teal-600" /> Overbooking
+                </h3>
+                <p className="text-sm text-slate-500 dark:text-slate-400 mb-6">
+                    Offer a booked slot again when every patient already in it usually misses appointments. Rates come from the last 12 months and need at least 3 past appointments; unattended appointments are marked No-Show at the end of each day.
+                </p>
+
+                <label className="flex items-center gap-3 mb-4 text-sm font-semibold text-slate-700 dark:text-slate-200 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={overbooking.enabled}
+                        onChange={(e) => setOverbooking({ ...overbooking, enabled: e.target.checked })}
+                        className="w-4 h-4 accent-teal-600"
+                    />
+                    Allow overbooking
+                </label>
+
+                <div className={`grid grid-cols-1 sm:grid-cols-2 gap-4 ${overbooking.enabled ? '' : 'opacity-60'}`}>
+                    <div>
+                        <label className="text-xs font-bold text-slate-500 uppercase mb-1 block">Extra bookings per slot</label>
+                        <select
+                            value={overbooking.maxExtraPerSlot}
+                            disabled={!overbooking.enabled}
+                            onChange={(e) => setOverbooking({ ...overbooking, maxExtraPerSlot: Number(e.target.value) })}
+                            className="w-full p-2.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-xl text-sm outline-none dark:text-white"
+                        >
+                            {[1, 2, 3].map(n => <option key={n} value={n}>{n}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="text-xs font-bold text-slate-500 uppercase mb-1 block">Minimum no-show rate</label>
+                        <select
+                            value={overbooking.minNoShowRate}
+                            disabled={!overbooking.enabled}
+                            onChange={(e) => setOverbooking({ ...overbooking, minNoShowRate: Number(e.target.value) })}
+                            className="w-full p-2.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-xl text-sm outline-none dark:text-white"
+                        >
+                            {[0.2, 0.3, 0.4, 0.5].map(rate => <option key={rate} value={rate}>{Math.round(rate * 100)}%</option>)}
+                        </select>
+                    </div>
+                </div>
+
+                <div className="flex justify-end mt-4">
+                    <button onClick={handleSaveOverbooking} className="px-5 py-2.5 bg-slate-900 dark:bg-teal-600 text-white font-bold rounded-xl flex items-center gap-2 hover:bg-slate-800">
+                        <Save className="w-4 h-4" /> Save Policy
+                    </button>
+                </div>
+            </div>
+
+            <div className="bg-white dark:bg-slate-800 p-4 md:p-6 rounded-3xl shadow-sm border border-slate-100 dark:border-slate-700">
+                <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-2 flex items-center gap-2">
+                    <Globe className="w-5 h-5 text-teal-600" /> Online Booking
+                </h3>
+                <p className="text-sm text-slate-500 dark:text-slate-400 mb-6">
+                    Let patients book free slots from a public page. They confirm their phone number with an SMS code, and new numbers are registered as patients.
+                </p>
+
+                <label className="flex items-center gap-3 mb-4 text-sm font-semibold text-slate-700 dark:text-slate-200 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={onlineBooking.enabled}
+                        onChange={(e) => setOnlineBooking({ ...onlineBooking, enabled: e.target.checked })}
+                        className="w-4 h-4 accent-teal-600"
+                    />
+                    Accept online bookings
+                </label>
+
+                <div className={`space-y-4 ${onlineBooking.enabled ? '' : 'opacity-60'}`}>
+                    <div className="sm:w-1/2">
+                        <label className="text-xs font-bold text-slate-500 uppercase mb-1 block">Bookable up to</label>
+                        <select
+                            value={onlineBooking.daysAhead}
+                            disabled={!onlineBooking.enabled}
+                            onChange={(e) => setOnlineBooking({ ...onlineBooking, daysAhead: Number(e.target.value) })}
+                            className="w-full p-2.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-xl text-sm outline-none dark:text-white"
+                        >
+                            {[7, 14, 30, 60, 90].map(n => <option key={n} value={n}>{n} days ahead</option>)}
+                        </select>
+                    </div>
+
+                    {appointmentTypes.length > 0 && (
+                        <div>
+                            <label className="text-xs font-bold text-slate-500 uppercase mb-2 block">Types offered online (none selected offers all)</label>
+                            <div className="flex flex-wrap gap-2">
+                                {appointmentTypes.map(t => {
+                                    const selected = (onlineBooking.appointmentTypes || []).includes(t.name);
+                                    return (
+                                        <button
+                                            key={t.id}
+                                            type="button"
+                                            disabled={!onlineBooking.enabled}
+                                            onClick={() => toggleOnlineType(t.name)}
+                                            className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-colors ${selected ? 'bg-teal-600 text-white border-teal-600' : 'bg-white dark:bg-slate-900 text-slate-600 dark:text-slate-300 border-slate-200 dark:border-slate-600'}`}
+                                        >
+                                            {t.name}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    )}
+
+                    {bookingLink && (
+                        <div>
+                            <label className="text-xs font-bold text-slate-500 uppercase mb-1 block">Booking link</label>
+                            <div className="flex gap-2">
+                                <input readOnly value={bookingLink} className="flex-1 p-2.5 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-xl text-sm outline-none dark:text-white" />
+                                <button type="button" onClick={copyBookingLink} className="px-3 bg-slate-100 dark:bg-slate-700 rounded-xl text-slate-600 dark:text-slate-200 hover:bg-slate-200" title="Copy link">
+                                    <Copy className="w-4 h-4" />
+                                </button>
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                <div className="flex justify-end mt-4">
+                    <button onClick={handleSaveOnlineBooking} className="px-5 py-2.5 bg-slate-900 dark:bg-teal-600 text-white font-bold rounded-xl flex items-center gap-2 hover:bg-slate-800">
+                        <Save className="w-4 h-4" /> Save
+                    </button>
+                </div>
+            </div>
+
+            <div className="bg-white dark:bg-slate-800 p-4 md:p-6 rounded-3xl shadow-sm border border-slate-100 dark:border-slate-700">
+                <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-2 flex items-center gap-2">
+                    <Hourglass className="w-5 h-5 text-teal-600" /> Waitlist Offers
+                </h3>
+                <p className="text-sm text-slate-500 dark:text-slate-400 mb-6">
+                    A cancelled slot is texted to the next waitlisted patient. If they don't reply with their code in time, it goes to the patient after them.
+                </p>
+
+                <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+                    <div className="sm:w-1/2">
+                        <label className="text-xs font-bold text-slate-500 uppercase mb-1 block">Time to reply</label>
+                        <select
+                            value={waitlist.offerMinutes}
+                            onChange={(e) => setWaitlist({ ...waitlist, offerMinutes: Number(e.target.value) })}
+                            className="w-full p-2.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-xl text-sm outline-none dark:text-white"
+                        >
+                            {[15, 30, 60, 120].map(n => <option key={n} value={n}>{n} minutes</option>)}
+                        </select>
+                    </div>
+                    <button onClick={handleSaveWaitlist} className="sm:ml-auto px-5 py-2.5 bg-slate-900 dark:bg-teal-600 text-white font-bold rounded-xl flex items-center justify-center gap-2 hover:bg-slate-800">
+                        <Save className="w-4 h-4" /> Save
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SchedulingSettings;
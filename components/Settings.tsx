@@ -4,7 +4,7 @@ import {
     Upload, Shield, Smartphone, Mail, AlertTriangle, CheckCircle,
     Layout, Receipt, Laptop, Smartphone as SmartphoneIcon, LogOut, Loader2,
     Users, UserPlus, Database, Activity, Trash2, X, Plus, Download, RefreshCw,
-    Zap, Check, ArrowRight, Link
+    Zap, Check, ArrowRight, Link, CalendarClock, Clock, FileText
 } from 'lucide-react';
 import { ClinicSettings, Role, TeamMember } from '../types';
 import { paymentService } from '../services/paymentService';
@@ -16,6 +16,14 @@ import useStore from '../store'
 import logger from '../lib/logger'
 import { db } from '../services/db'
 import { teamService } from '../services/teamService';
+import SchedulingSettings from './SchedulingSettings';
+import NoteTemplateSettings from './NoteTemplateSettings';
+import VitalThresholdSettings from './VitalThresholdSettings';
+import LabTestSettings from './LabTestSettings';
+import Dhis2Settings from './Dhis2Settings';
+
+const REMINDER_OFFSET_OPTIONS = [72, 48, 24, 12, 4, 2, 1];
+const DEFAULT_REMINDER_OFFSETS = [24, 2];
 
 interface SettingsProps {
     isDarkMode: boolean;
@@ -25,7 +33,7 @@ interface SettingsProps {
     showToast?: (msg: string, type?: 'success' | 'error' | 'info') => void;
 }
 
-type Tab = 'general' | 'notifications' | 'integrations' | 'security' | 'billing' | 'team' | 'logs';
+type Tab = 'general' | 'notifications' | 'integrations' | 'security' | 'billing' | 'team' | 'scheduling' | 'clinical' | 'logs';
 
 // Mock Plans Data
 const PLANS = [
@@ -135,6 +143,15 @@ const Settings: React.FC<SettingsProps> = ({ isDarkMode, toggleTheme, settings,
         setHasChanges(true);
     };
 
+    const reminderOffsets = formData.notifications.reminderOffsetsHours || DEFAULT_REMINDER_OFFSETS;
+
+    const toggleReminderOffset = (hours: number) => {
+        const next = reminderOffsets.includes(hours)
+            ? reminderOffsets.filter(h => h !== hours)
+            : [...reminderOffsets, hours].sort((a, b) => b - a);
+        handleNestedChange('notifications', 'reminderOffsetsHours', next);
+    };
+
     const handleSave = () => {
         setIsSaving(true);
         // Simulate API delay
@@ -640,7 +657,7 @@ const Settings: React.FC<SettingsProps> = ({ isDarkMode, toggleTheme, settings,
                 <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-6">Event Triggers</h3>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     {[
-                        { id: 'appointmentReminders', label: 'Patient Appointment Reminders', desc: 'Auto-send 24h before', icon: Layout },
+                        { id: 'appointmentReminders', label: 'Patient Appointment Reminders', desc: 'Auto-send by SMS and email on the schedule below', icon: Layout },
                         { id: 'lowStockAlerts', label: 'Low Stock Warnings', desc: 'Notify when stock ≤ Minimum Level', icon: AlertTriangle },
                         { id: 'marketingEmails', label: 'Marketing Campaigns', desc: 'Seasonal promotions', icon: Globe },
                     ].map((item) => (
@@ -659,6 +676,54 @@ const Settings: React.FC<SettingsProps> = ({ isDarkMode, toggleTheme, settings,
                     ))}
                 </div>
             </div>
+
+            <div className={`bg-white dark:bg-slate-800 p-4 md:p-6 rounded-3xl shadow-sm border border-slate-100 dark:border-slate-700 ${formData.notifications.appointmentReminders ? '' : 'opacity-60'}`}>
+                <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-2 flex items-center gap-2">
+                    <Clock className="w-5 h-5 text-teal-600" /> Reminder Schedule
+                </h3>
+                <p className="text-sm text-slate-500 dark:text-slate-400 mb-6">
+                    Patients get a reminder at each selected time before their appointment. Patients who opted out in their record are skipped.
+                </p>
+
+                <label className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2 block">Send reminders</label>
+                <div className="flex flex-wrap gap-2 mb-6">
+                    {REMINDER_OFFSET_OPTIONS.map(hours => (
+                        <button
+                            key={hours}
+                            type="button"
+                            disabled={!formData.notifications.appointmentReminders}
+                            onClick={() => toggleReminderOffset(hours)}
+                            className={`px-3 py-1.5 rounded-full text-sm font-semibold border transition-colors ${reminderOffsets.includes(hours)
+                                ? 'bg-teal-600 border-teal-600 text-white'
+                                : 'bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-600 text-slate-600 dark:text-slate-300'}`}
+                        >
+                            {hours >= 24 ? `${hours / 24} day${hours > 24 ? 's' : ''}` : `${hours}h`} before
+                        </button>
+                    ))}
+                </div>
+
+                <label className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2 block">Quiet hours</label>
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <input
+                        type="time"
+                        value={formData.notifications.quietHoursStart || ''}
+                        disabled={!formData.notifications.appointmentReminders}
+                        onChange={(e) => handleNestedChange('notifications', 'quietHoursStart', e.target.value)}
+                        className="p-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-xl outline-none text-slate-900 dark:text-white"
+                    />
+                    <span className="text-slate-400">to</span>
+                    <input
+                        type="time"
+                        value={formData.notifications.quietHoursEnd || ''}
+                        disabled={!formData.notifications.appointmentReminders}
+                        onChange={(e) => handleNestedChange('notifications', 'quietHoursEnd', e.target.value)}
+                        className="p-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-xl outline-none text-slate-900 dark:text-white"
+                    />
+                </div>
+                <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">
+                    Reminders due in quiet hours ({formData.timezone || 'clinic time'}) are held until they end. Leave blank to send at any hour.
+                </p>
+            </div>
         </div>
     );
 
@@ -838,6 +903,8 @@ const Settings: React.FC<SettingsProps> = ({ isDarkMode, toggleTheme, settings,
                     )}
                 </div>
             </div>
+
+            <Dhis2Settings />
         </div>
     );
 
@@ -1362,6 +1429,8 @@ const Settings: React.FC<SettingsProps> = ({ isDarkMode, toggleTheme, settings,
                     {[
                         { id: 'general', label: 'General', icon: Layout },
                         { id: 'team', label: 'Team Members', icon: Users },
+                        { id: 'scheduling', label: 'Scheduling', icon: CalendarClock },
+                        { id: 'clinical', label: 'Clinical', icon: FileText },
                         { id: 'notifications', label: 'Notifications', icon: Bell },
                         { id: 'integrations', label: 'Integrations', icon: Link },
                         { id: 'security', label: 'Security & Access', icon: Shield },
@@ -1409,6 +1478,14 @@ const Settings: React.FC<SettingsProps> = ({ isDarkMode, toggleTheme, settings,
                     {activeTab === 'security' && renderSecurity()}
                     {activeTab === 'billing' && renderBilling()}
                     {activeTab === 'team' && renderTeam()}
+                    {activeTab === 'scheduling' && <SchedulingSettings />}
+                    {activeTab === 'clinical' && (
+                        <div className="space-y-6">
+                            <NoteTemplateSettings />
+                            <VitalThresholdSettings />
+                            <LabTestSettings />
+                        </div>
+                    )}
                     {activeTab === 'logs' && renderLogs()}
                 </div>
             </div>
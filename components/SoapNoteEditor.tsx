@@ -0,0 +1,186 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import type { NoteAddendum, SoapSection, Visit } from "../types"
+import { FileSignature, Lock, MessageSquarePlus } from "lucide-react"
+import useStore from "../store"
+import { db } from "../services/db"
+import { canCurrentUser } from "../lib/roleMapper"
+import { EMPTY_SOAP_NOTE, SOAP_SECTIONS, STARTER_NOTE_TEMPLATES, applyNoteTemplate, isSoapNoteEmpty } from "../lib/clinicalNotes"
+
+interface SoapNoteEditorProps {
+  visit: Visit
+  onChange: (visit: Visit) => void
+}
+
+const formatStamp = (iso: string) =>
+  new Date(iso).toLocaleString("en-US", { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" })
+
+// SOAP consultation note. Signing locks it; corrections and late results are added as addenda.
+const SoapNoteEditor: React.FC<SoapNoteEditorProps> = ({ visit, onChange }) => {
+  const { noteTemplates, actions } = useStore()
+  const templates = noteTemplates.length > 0 ? noteTemplates : STARTER_NOTE_TEMPLATES
+  const isSigned = !!visit.noteSignedAt
+  const note = visit.soapNote || EMPTY_SOAP_NOTE
+
+  const [isSigning, setIsSigning] = useState(false)
+  const [addenda, setAddenda] = useState<NoteAddendum[]>([])
+  const [addendumSection, setAddendumSection] = useState<SoapSection | "">("")
+  const [addendumBody, setAddendumBody] = useState("")
+  const [isSavingAddendum, setIsSavingAddendum] = useState(false)
+
+  useEffect(() => {
+    if (!isSigned) return
+    db.getNoteAddenda(visit.id).then(setAddenda).catch(console.error)
+  }, [visit.id, isSigned])
+
+  const applyTemplate = (templateId: string) => {
+    const template = templates.find((t) => t.id === templateId)
+    if (!template) return
+    onChange({ ...visit, soapNote: applyNoteTemplate(visit.soapNote, template) })
+  }
+
+  const handleSign = async () => {
+    if (!canCurrentUser("visits.complete")) {
+      actions.showToast("You do not have permission to sign clinical notes.", "error")
+      return
+    }
+    if (isSoapNoteEmpty(visit.soapNote)) {
+      actions.showToast("Write the note before signing it.", "error")
+      return
+    }
+    if (!confirm("Sign this note? It can no longer be edited; later changes are added as addenda.")) return
+
+    setIsSigning(true)
+    try {
+      const signed = await actions.signVisitNote(visit)
+      if (signed) onChange(signed)
+    } finally {
+      setIsSigning(false)
+    }
+  }
+
+  const handleAddAddendum = async () => {
+    if (!addendumBody.trim()) return
+    setIsSavingAddendum(true)
+    try {
+      const saved = await db.addNoteAddendum({ visitId: visit.id, section: addendumSection || undefined, body: addendumBody.trim() })
+      setAddenda([...addenda, saved])
+      setAddendumBody("")
+      setAddendumSection("")
+    } catch (e: any) {
+      console.error("addNoteAddendum error", e)
+      actions.showToast(e?.message || "Error adding addendum", "error")
+    } finally {
+      setIsSavingAddendum(false)
+    }
+  }
+
+  const sectionLabel = (id?: SoapSection) => SOAP_SECTIONS.find((s) => s.id === id)?.label
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <label className="text-xs font-bold text-slate-500 uppercase">Consultation Note (SOAP)</label>
+        {isSigned ? (
+          <span className="flex items-center gap-1 text-xs font-bold px-2.5 py-1 rounded-full bg-emerald-50 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300">
+            <Lock className="w-3 h-3" /> Signed by {visit.noteSignedByName || "clinician"} · {formatStamp(visit.noteSignedAt!)}
+          </span>
+        ) : (
+          <select
+            value=""
+            onChange={(e) => applyTemplate(e.target.value)}
+            className="p-2 bg-slate-50 dark:bg-slate-700 rounded-xl outline-none dark:text-white text-sm"
+          >
+            <option value="">Insert template...</option>
+            {templates.map((t) => (
+              <option key={t.id} value={t.id}>{t.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {SOAP_SECTIONS.map((section) => (
+        <div key={section.id}>
+          <label className="text-xs font-bold text-slate-500 uppercase">{section.label}</label>
+          {isSigned ? (
+            <p className="w-full p-3 bg-slate-50 dark:bg-slate-700/50 rounded-xl mt-1 dark:text-white text-sm whitespace-pre-wrap min-h-[2.75rem]">
+              {note[section.id] || <span className="text-slate-400">Not recorded</span>}
+            </p>
+          ) : (
+            <textarea
+              className="w-full p-3 bg-slate-50 dark:bg-slate-700 rounded-xl mt-1 outline-none dark:text-white text-sm"
+              rows={3}
+              value={note[section.id]}
+              onChange={(e) => onChange({ ...visit, soapNote: { ...note, [section.id]: e.target.value } })}
+              placeholder={section.placeholder}
+            />
+          )}
+        </div>
+      ))}
+
+      {visit.doctorNotes && (
+        <div>
+          <label className="text-xs font-bold text-slate-500 uppercase">Earlier Notes</label>
+          <p className="w-full p-3 bg-slate-50 dark:bg-slate-700/50 rounded-xl mt-1 text-slate-600 dark:text-slate-300 text-sm whitespace-pre-wrap">
+            {visit.doctorNotes}
+          </p>
+        </div>
+      )}
+
+      {!isSigned && (
+        <button
+          onClick={handleSign}
+          disabled={isSigning}
+          className="flex items-center gap-2 px-4 py-2 bg-slate-900 dark:bg-teal-600 text-white rounded-xl text-sm font-bold hover:bg-slate-800 disabled:opacity-60"
+        >
+          <FileSignature className="w-4 h-4" /> {isSigning ? "Signing..." : "Sign & Lock Note"}
+        </button>
+      )}
+
+      {isSigned && (
+        <div className="space-y-3 pt-2 border-t border-slate-100 dark:border-slate-700">
+          <label className="text-xs font-bold text-slate-500 uppercase">Addenda</label>
+          {addenda.map((addendum) => (
+            <div key={addendum.id} className="p-3 bg-amber-50/60 dark:bg-amber-900/10 rounded-xl border border-amber-100 dark:border-amber-900/30">
+              <div className="text-xs text-slate-500 dark:text-slate-400 mb-1">
+                {formatStamp(addendum.createdAt)} · {addendum.authorName || "Unknown"}
+                {addendum.section && <span> · {sectionLabel(addendum.section)}</span>}
+              </div>
+              <p className="text-sm text-slate-700 dark:text-slate-200 whitespace-pre-wrap">{addendum.body}</p>
+            </div>
+          ))}
+          <div className="flex flex-col sm:flex-row gap-2">
+            <select
+              value={addendumSection}
+              onChange={(e) => setAddendumSection(e.target.value as SoapSection | "")}
+              className="p-3 bg-slate-50 dark:bg-slate-700 rounded-xl outline-none dark:text-white text-sm"
+            >
+              <option value="">Whole note</option>
+              {SOAP_SECTIONS.map((s) => (
+                <option key={s.id} value={s.id}>{s.label}</option>
+              ))}
+            </select>
+            <textarea
+              className="flex-1 p-3 bg-slate-50 dark:bg-slate-700 rounded-xl outline-none dark:text-white text-sm"
+              rows={2}
+              value={addendumBody}
+              onChange={(e) => setAddendumBody(e.target.value)}
+              placeholder="Correction, late result or further plan..."
+            />
+          </div>
+          <button
+            onClick={handleAddAddendum}
+            disabled={isSavingAddendum || !addendumBody.trim()}
+            className="flex items-center gap-2 px-4 py-2 bg-teal-600 text-white rounded-xl text-sm font-bold hover:bg-teal-700 disabled:opacity-60"
+          >
+            <MessageSquarePlus className="w-4 h-4" /> Add Addendum
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default SoapNoteEditor
@@ -0,0 +1,368 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import useStore from '../store'
+import { InventoryItem, StockTake as StockTakeSession, StockTakeLine, StockVarianceReason, WitnessConfirmation } from '../types';
+import { ClipboardCheck, Search, Save, Trash2, CheckCircle, AlertTriangle, Plus, X } from 'lucide-react';
+import { canCurrentUser } from '../lib/roleMapper'
+import {
+    STOCK_VARIANCE_REASONS, buildStockTakeLines, getLineVariance, getLineVarianceValue,
+    getLinesMissingReason, isLineCounted, nextStockTakeReference
+} from '../lib/stockTake'
+import WitnessConfirmModal from './WitnessConfirmModal';
+
+interface StockTakeProps {
+    inventory: InventoryItem[];
+    stockTakes: StockTakeSession[];
+    startStockTake: (stockTake: StockTakeSession) => void | Promise<void>;
+    saveStockTake: (stockTake: StockTakeSession) => void | Promise<void>;
+    postStockTake: (stockTake: StockTakeSession, witness?: WitnessConfirmation) => void | Promise<void>;
+}
+
+type LineFilter = 'All' | 'Uncounted' | 'Variances';
+
+const denyToast = (message: string) => {
+    try { useStore.getState().actions.showToast(message, 'error') } catch (e) { alert(message) }
+};
+
+const StockTake: React.FC<StockTakeProps> = ({
+    inventory,
+    stockTakes,
+    startStockTake,
+    saveStockTake,
+    postStockTake,
+}) => {
+    const openTake = stockTakes.find(t => t.status === 'Open') || null;
+    const [lines, setLines] = useState<StockTakeLine[]>([]);
+    const [isDirty, setIsDirty] = useState(false);
+    const [searchTerm, setSearchTerm] = useState('');
+    const [lineFilter, setLineFilter] = useState<LineFilter>('All');
+    const [isBusy, setIsBusy] = useState(false);
+    const [isAwaitingWitness, setIsAwaitingWitness] = useState(false);
+
+    // Load the session's lines when a different session is opened
+    useEffect(() => {
+        setLines(openTake ? openTake.lines : []);
+        setIsDirty(false);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [openTake?.id]);
+
+    const summary = useMemo(() => {
+        const counted = lines.filter(isLineCounted);
+        const variances = counted.filter(l => getLineVariance(l) !== 0);
+        return {
+            counted: counted.length,
+            variances: variances.length,
+            missingReason: getLinesMissingReason(lines).length,
+            netValue: variances.reduce((sum, l) => sum + getLineVarianceValue(l), 0),
+        };
+    }, [lines]);
+
+    const controlledVariances = lines.filter(l =>
+        isLineCounted(l) && getLineVariance(l) !== 0 && inventory.find(i => i.id === l.inventoryId)?.isControlled
+    );
+
+    const visibleLines = lines
+        .map((line, index) => ({ line, index }))
+        .filter(({ line }) => !searchTerm || line.name.toLowerCase().includes(searchTerm.toLowerCase()) || (line.batchNumber || '').toLowerCase().includes(searchTerm.toLowerCase()))
+        .filter(({ line }) => lineFilter === 'All' || (lineFilter === 'Uncounted' ? !isLineCounted(line) : getLineVariance(line) !== 0));
+
+    const updateLine = (index: number, changes: Partial<StockTakeLine>) => {
+        setLines(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+        setIsDirty(true);
+    };
+
+    const setCounted = (index: number, value: string) => {
+        const countedQuantity = value === '' ? undefined : Math.max(0, parseInt(value) || 0);
+        const line = { ...lines[index], countedQuantity };
+        // A line back in agreement no longer needs a reason
+        updateLine(index, { countedQuantity, reason: getLineVariance(line) === 0 ? undefined : line.reason });
+    };
+
+    const addFoundLot = (index: number) => {
+        const source = lines[index];
+        const found: StockTakeLine = { inventoryId: source.inventoryId, name: source.name, expectedQuantity: 0, unitCost: source.unitCost, reason: 'Found Stock' };
+        setLines([...lines.slice(0, index + 1), found, ...lines.slice(index + 1)]);
+        setIsDirty(true);
+    };
+
+    const handleStart = async () => {
+        if (!canCurrentUser('inventory.adjust')) return denyToast('Not authorized to run stock-takes.');
+        setIsBusy(true);
+        try {
+            await startStockTake({
+                id: '',
+                reference: nextStockTakeReference(stockTakes),
+                status: 'Open',
+                lines: buildStockTakeLines(inventory),
+                createdAt: new Date().toISOString(),
+            });
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleSave = async () => {
+        if (!openTake) return;
+        setIsBusy(true);
+        try {
+            await saveStockTake({ ...openTake, lines });
+            setIsDirty(false);
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleDiscard = async () => {
+        if (!openTake || !confirm(`Discard stock-take ${openTake.reference}? Counts entered so far will not be posted.`)) return;
+        setIsBusy(true);
+        try {
+            await saveStockTake({ ...openTake, lines, status: 'Cancelled' });
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handlePost = async () => {
+        if (!openTake) return;
+        if (!canCurrentUser('inventory.adjust')) return denyToast('Not authorized to post stock adjustments.');
+        if (summary.missingReason > 0) return denyToast('Every variance needs a reason before posting.');
+        if (!confirm(`Post ${summary.variances} adjustment${summary.variances === 1 ? '' : 's'} (net KSh ${summary.netValue.toLocaleString()})? Stock will be set to the counted quantities.`)) return;
+
+        // Adjusting a controlled drug is a stock movement like any other and needs a witness
+        if (controlledVariances.length > 0) {
+            setIsAwaitingWitness(true);
+            return;
+        }
+        await submitPost();
+    };
+
+    const submitPost = async (witness?: WitnessConfirmation) => {
+        if (!openTake) return;
+        setIsBusy(true);
+        try {
+            await postStockTake({ ...openTake, lines }, witness);
+            setIsAwaitingWitness(false);
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    if (!openTake) {
+        const recent = stockTakes.filter(t => t.status === 'Posted');
+        return (
+            <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
+                <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
+                    <div>
+                        <h3 className="text-xl font-bold text-slate-900 dark:text-white">Stock-Take</h3>
+                        <p className="text-sm text-slate-500 dark:text-slate-400">Count every lot on the shelf and post the differences as one audited adjustment.</p>
+                    </div>
+                    <button
+                        onClick={handleStart}
+                        disabled={isBusy || !canCurrentUser('inventory.adjust')}
+                        aria-disabled={!canCurrentUser('inventory.adjust')}
+                        className="w-full sm:w-auto bg-teal-600 text-white flex items-center justify-center gap-2 px-5 py-2.5 rounded-xl hover:bg-teal-700 font-bold transition-colors disabled:opacity-50"
+                    >
+                        <ClipboardCheck className="w-5 h-5" /> Start Stock-Take
+                    </button>
+                </div>
+
+                <div className="bg-white dark:bg-slate-800 rounded-3xl shadow-sm border border-slate-100 dark:border-slate-700 overflow-hidden">
+                    <table className="w-full text-left text-sm">
+                        <thead className="bg-slate-50 dark:bg-slate-700/50 text-xs uppercase text-slate-400 font-semibold border-b border-slate-100 dark:border-slate-700">
+                            <tr>
+                                <th className="px-6 py-4">Reference</th>
+                                <th className="px-6 py-4">Posted</th>
+                                <th className="px-6 py-4">Lines Counted</th>
+                                <th className="px-6 py-4">Adjustments</th>
+                                <th className="px-6 py-4 text-right">Net Variance</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-50 dark:divide-slate-700">
+                            {recent.map(take => {
+                                const adjusted = take.lines.filter(l => getLineVariance(l) !== 0);
+                                const net = adjusted.reduce((sum, l) => sum + getLineVarianceValue(l), 0);
+                                return (
+                                    <tr key={take.id} className="hover:bg-slate-50 dark:hover:bg-slate-700/30 transition-colors">
+                                        <td className="px-6 py-4 font-mono text-xs font-bold text-slate-900 dark:text-white">{take.reference}</td>
+                                        <td className="px-6 py-4 text-slate-500 dark:text-slate-400">{take.postedAt ? new Date(take.postedAt).toLocaleString() : '-'}</td>
+                                        <td className="px-6 py-4 text-slate-600 dark:text-slate-300">{take.lines.filter(isLineCounted).length}</td>
+                                        <td className="px-6 py-4 text-slate-600 dark:text-slate-300">{adjusted.length}</td>
+                                        <td className={`px-6 py-4 text-right font-bold ${net < 0 ? 'text-red-500' : net > 0 ? 'text-green-600' : 'text-slate-500'}`}>KSh {net.toLocaleString()}</td>
+                                    </tr>
+                                );
+                            })}
+                            {recent.length === 0 && (
+                                <tr>
+                                    <td colSpan={5} className="px-6 py-12 text-center text-slate-400">
+                                        <ClipboardCheck className="w-12 h-12 mx-auto mb-3 opacity-20" />
+                                        No stock-takes posted yet.
+                                    </td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
+            <div className="flex flex-col lg:flex-row justify-between items-start lg:items-center gap-4 mb-6">
+                <div>
+                    <h3 className="text-xl font-bold text-slate-900 dark:text-white flex items-center gap-2">
+                        Stock-Take <span className="font-mono text-sm px-2 py-0.5 bg-blue-50 dark:bg-blue-900/30 text-blue-600 dark:text-blue-300 rounded">{openTake.reference}</span>
+                    </h3>
+                    <p className="text-sm text-slate-500 dark:text-slate-400">Started {new Date(openTake.createdAt).toLocaleString()}{isDirty ? ' · unsaved changes' : ''}</p>
+                </div>
+                <div className="flex flex-wrap gap-3 w-full lg:w-auto">
+                    <button onClick={handleDiscard} disabled={isBusy} className="flex items-center gap-2 px-4 py-2.5 text-red-600 bg-red-50 dark:bg-red-900/20 hover:bg-red-100 rounded-xl font-bold text-sm transition-colors disabled:opacity-50">
+                        <Trash2 className="w-4 h-4" /> Discard
+                    </button>
+                    <button onClick={handleSave} disabled={isBusy || !isDirty} className="flex items-center gap-2 px-4 py-2.5 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 rounded-xl font-bold text-sm disabled:opacity-50">
+                        <Save className="w-4 h-4" /> Save Progress
+                    </button>
+                    <button
+                        onClick={handlePost}
+                        disabled={isBusy || summary.counted === 0 || summary.missingReason > 0 || !canCurrentUser('inventory.adjust')}
+                        aria-disabled={!canCurrentUser('inventory.adjust')}
+                        className="flex items-center gap-2 px-5 py-2.5 bg-teal-600 text-white hover:bg-teal-700 rounded-xl font-bold text-sm transition-colors disabled:opacity-50"
+                    >
+                        <CheckCircle className="w-4 h-4" /> {isBusy ? 'Working...' : 'Post Adjustments'}
+                    </button>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 mb-6">
+                <div className="bg-white dark:bg-slate-800 p-4 rounded-2xl border border-slate-100 dark:border-slate-700">
+                    <p className="text-xs text-slate-500 font-bold uppercase">Counted</p>
+                    <p className="text-2xl font-bold text-slate-900 dark:text-white">{summary.counted} / {lines.length}</p>
+                </div>
+                <div className="bg-white dark:bg-slate-800 p-4 rounded-2xl border border-slate-100 dark:border-slate-700">
+                    <p className="text-xs text-slate-500 font-bold uppercase">Variances</p>
+                    <p className="text-2xl font-bold text-slate-900 dark:text-white">{summary.variances}</p>
+                </div>
+                <div className="bg-white dark:bg-slate-800 p-4 rounded-2xl border border-slate-100 dark:border-slate-700">
+                    <p className="text-xs text-slate-500 font-bold uppercase">Net Value</p>
+                    <p className={`text-2xl font-bold ${summary.netValue < 0 ? 'text-red-500' : summary.netValue > 0 ? 'text-green-600' : 'text-slate-900 dark:text-white'}`}>KSh {summary.netValue.toLocaleString()}</p>
+                </div>
+                <div className={`p-4 rounded-2xl border ${summary.missingReason > 0 ? 'bg-orange-50 dark:bg-orange-900/20 border-orange-200 dark:border-orange-900' : 'bg-white dark:bg-slate-800 border-slate-100 dark:border-slate-700'}`}>
+                    <p className="text-xs text-slate-500 font-bold uppercase">Reasons Needed</p>
+                    <p className={`text-2xl font-bold flex items-center gap-2 ${summary.missingReason > 0 ? 'text-orange-600' : 'text-slate-900 dark:text-white'}`}>
+                        {summary.missingReason > 0 && <AlertTriangle className="w-5 h-5" />}{summary.missingReason}
+                    </p>
+                </div>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-3 mb-4">
+                <div className="relative flex-1">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+                    <input
+                        placeholder="Search item or lot..."
+                        value={searchTerm}
+                        onChange={(e) => setSearchTerm(e.target.value)}
+                        className="w-full pl-10 pr-8 py-2.5 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl text-sm outline-none focus:ring-2 focus:ring-teal-500 dark:text-white"
+                    />
+                    {searchTerm && (
+                        <button onClick={() => setSearchTerm('')} className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400"><X className="w-4 h-4" /></button>
+                    )}
+                </div>
+                <select value={lineFilter} onChange={(e) => setLineFilter(e.target.value as LineFilter)} className="px-4 py-2.5 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl text-sm outline-none dark:text-white">
+                    <option value="All">All Lines</option>
+                    <option value="Uncounted">Uncounted</option>
+                    <option value="Variances">Variances</option>
+                </select>
+            </div>
+
+            <div className="bg-white dark:bg-slate-800 rounded-3xl shadow-sm border border-slate-100 dark:border-slate-700 overflow-hidden">
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left text-sm min-w-[900px]">
+                        <thead className="bg-slate-50 dark:bg-slate-700/50 text-xs uppercase text-slate-400 font-semibold border-b border-slate-100 dark:border-slate-700">
+                            <tr>
+                                <th className="px-4 py-3">Item</th>
+                                <th className="px-4 py-3">Lot</th>
+                                <th className="px-4 py-3">System</th>
+                                <th className="px-4 py-3">Counted</th>
+                                <th className="px-4 py-3">Variance</th>
+                                <th className="px-4 py-3">Value</th>
+                                <th className="px-4 py-3">Reason</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-50 dark:divide-slate-700">
+                            {visibleLines.map(({ line, index }) => {
+                                const variance = getLineVariance(line);
+                                const needsReason = variance !== 0 && !line.reason;
+                                return (
+                                    <tr key={`${line.inventoryId}-${line.batchId || 'found'}-${index}`} className={needsReason ? 'bg-orange-50/60 dark:bg-orange-900/10' : ''}>
+                                        <td className="px-4 py-3">
+                                            <div className="font-bold text-slate-900 dark:text-white">{line.name}</div>
+                                            <button onClick={() => addFoundLot(index)} className="text-[10px] text-teal-600 hover:underline flex items-center gap-0.5">
+                                                <Plus className="w-3 h-3" /> Found another lot
+                                            </button>
+                                        </td>
+                                        <td className="px-4 py-3">
+                                            {line.batchId ? (
+                                                <div>
+                                                    <span className="px-1.5 py-0.5 bg-slate-100 dark:bg-slate-700 rounded text-[10px] font-mono text-slate-600 dark:text-slate-300">{line.batchNumber || 'N/A'}</span>
+                                                    {line.expiryDate && <span className="block text-[10px] text-slate-400 mt-1">Exp {line.expiryDate}</span>}
+                                                </div>
+                                            ) : (
+                                                <div className="flex gap-1">
+                                                    <input value={line.batchNumber || ''} onChange={(e) => updateLine(index, { batchNumber: e.target.value || undefined })} placeholder="Lot #" className="w-20 p-1.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg text-xs outline-none dark:text-white" />
+                                                    <input type="date" value={line.expiryDate || ''} onChange={(e) => updateLine(index, { expiryDate: e.target.value || undefined })} className="w-32 p-1.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg text-xs outline-none dark:text-white" />
+                                                </div>
+                                            )}
+                                        </td>
+                                        <td className="px-4 py-3 text-slate-600 dark:text-slate-300">{line.expectedQuantity}</td>
+                                        <td className="px-4 py-3">
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                value={line.countedQuantity ?? ''}
+                                                onChange={(e) => setCounted(index, e.target.value)}
+                                                className="w-24 p-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg text-sm font-bold outline-none focus:ring-2 focus:ring-teal-500 dark:text-white"
+                                            />
+                                        </td>
+                                        <td className={`px-4 py-3 font-bold ${variance < 0 ? 'text-red-500' : variance > 0 ? 'text-green-600' : 'text-slate-400'}`}>
+                                            {isLineCounted(line) ? `${variance > 0 ? '+' : ''}${variance}` : '-'}
+                                        </td>
+                                        <td className={`px-4 py-3 ${variance < 0 ? 'text-red-500' : variance > 0 ? 'text-green-600' : 'text-slate-400'}`}>
+                                            {variance !== 0 ? `KSh ${getLineVarianceValue(line).toLocaleString()}` : '-'}
+                                        </td>
+                                        <td className="px-4 py-3">
+                                            {variance !== 0 && (
+                                                <select
+                                                    value={line.reason || ''}
+                                                    onChange={(e) => updateLine(index, { reason: (e.target.value || undefined) as StockVarianceReason | undefined })}
+                                                    className={`p-2 bg-white dark:bg-slate-900 border rounded-lg text-xs outline-none dark:text-white ${needsReason ? 'border-orange-400' : 'border-slate-200 dark:border-slate-600'}`}
+                                                >
+                                                    <option value="">Select reason...</option>
+                                                    {STOCK_VARIANCE_REASONS.map(r => <option key={r} value={r}>{r}</option>)}
+                                                </select>
+                                            )}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                            {visibleLines.length === 0 && (
+                                <tr>
+                                    <td colSpan={7} className="px-6 py-12 text-center text-slate-400">No lines match your filters.</td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            {isAwaitingWitness && (
+                <WitnessConfirmModal
+                    title={`Witness Stock-Take: ${openTake.reference}`}
+                    description={`This count adjusts ${controlledVariances.map(l => l.name).join(', ')}.`}
+                    onConfirm={(witness) => submitPost(witness)}
+                    onCancel={() => setIsAwaitingWitness(false)}
+                />
+            )}
+        </div>
+    );
+};
+
+export default StockTake;
@@ -0,0 +1,122 @@
+import React, { useState, useEffect } from 'react';
+import useStore from '../store'
+import { VitalKey, VitalThresholds } from '../types';
+import { Activity, RotateCcw, Save } from 'lucide-react';
+import { canCurrentUser } from '../lib/roleMapper'
+import { DEFAULT_VITAL_THRESHOLDS, VITAL_LABELS, VITAL_UNITS } from '../lib/vitals'
+
+const inputClass = 'w-full p-2.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-xl text-sm outline-none dark:text-white';
+
+const THRESHOLD_KEYS = Object.keys(DEFAULT_VITAL_THRESHOLDS) as (keyof typeof DEFAULT_VITAL_THRESHOLDS)[];
+
+// Adult limits outside which a reading is flagged to nurses and doctors; blank fields use the defaults
+const VitalThresholdSettings: React.FC = () => {
+    const { settings, actions } = useStore();
+    const canEdit = canCurrentUser('settings.edit');
+
+    const [thresholds, setThresholds] = useState<VitalThresholds>(settings.vitalThresholds || {});
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        setThresholds(settings.vitalThresholds || {});
+    }, [settings.vitalThresholds]);
+
+    const updateLimit = (key: VitalKey, bound: 'low' | 'high', raw: string) => {
+        const value = raw.trim() === '' ? undefined : parseFloat(raw);
+        const next = { ...thresholds[key], [bound]: value !== undefined && isNaN(value) ? undefined : value };
+        const updated = { ...thresholds };
+        if (next.low === undefined && next.high === undefined) delete updated[key];
+        else updated[key] = next;
+        setThresholds(updated);
+    };
+
+    const handleSave = async () => {
+        if (!canEdit) {
+            actions.showToast('You do not have permission to change vital sign limits.', 'error');
+            return;
+        }
+        const crossed = THRESHOLD_KEYS.find(key => {
+            const limit = { ...DEFAULT_VITAL_THRESHOLDS[key], ...thresholds[key] };
+            return limit.low !== undefined && limit.high !== undefined && limit.low >= limit.high;
+        });
+        if (crossed) {
+            actions.showToast(`${VITAL_LABELS[crossed]}: the low limit must be below the high limit`, 'error');
+            return;
+        }
+        setIsSaving(true);
+        await actions.updateSettings({ ...settings, vitalThresholds: thresholds });
+        setIsSaving(false);
+    };
+
+    return (
+        <div className="bg-white dark:bg-slate-800 p-4 md:p-6 rounded-3xl shadow-sm border border-slate-100 dark:border-slate-700">
+            <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-2 flex items-center gap-2">
+                <Activity className="w-5 h-5 text-orange-500" /> Vital Sign Limits
+            </h3>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mb-6">
+                Readings outside these limits are flagged at triage, in the queue and on the nurse and doctor dashboards. Children are checked against age bands for heart and breathing rate, and against MUAC for malnutrition.
+            </p>
+
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-left text-xs font-bold text-slate-500 uppercase">
+                            <th className="pb-2">Vital</th>
+                            <th className="pb-2 px-2">Low</th>
+                            <th className="pb-2 px-2">High</th>
+                            <th className="pb-2"></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {THRESHOLD_KEYS.map(key => {
+                            const defaults: { low?: number; high?: number } = DEFAULT_VITAL_THRESHOLDS[key];
+                            return (
+                                <tr key={key} className="border-t border-slate-100 dark:border-slate-700">
+                                    <td className="py-2 font-semibold text-slate-700 dark:text-slate-200">
+                                        {VITAL_LABELS[key]} <span className="font-normal text-slate-400">({VITAL_UNITS[key]})</span>
+                                    </td>
+                                    {(['low', 'high'] as const).map(bound => (
+                                        <td key={bound} className="py-2 px-2 w-32">
+                                            <input
+                                                type="number"
+                                                step="0.1"
+                                                className={inputClass}
+                                                value={thresholds[key]?.[bound] ?? ''}
+                                                placeholder={defaults[bound] !== undefined ? String(defaults[bound]) : 'None'}
+                                                onChange={e => updateLimit(key, bound, e.target.value)}
+                                                disabled={!canEdit}
+                                            />
+                                        </td>
+                                    ))}
+                                    <td className="py-2 text-right">
+                                        {thresholds[key] && canEdit && (
+                                            <button
+                                                onClick={() => { const updated = { ...thresholds }; delete updated[key]; setThresholds(updated); }}
+                                                className="p-1.5 text-slate-400 hover:text-teal-600"
+                                                title="Use default"
+                                            >
+                                                <RotateCcw className="w-4 h-4" />
+                                            </button>
+                                        )}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="flex justify-end mt-6">
+                <button
+                    onClick={handleSave}
+                    disabled={isSaving || !canEdit}
+                    className="px-5 py-2.5 bg-slate-900 dark:bg-teal-600 text-white font-bold rounded-xl flex items-center gap-2 hover:bg-slate-800 disabled:opacity-60"
+                >
+                    <Save className="w-4 h-4" /> {isSaving ? 'Saving...' : 'Save Limits'}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default VitalThresholdSettings;
@@ -0,0 +1,117 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import type { VitalSigns, VitalThresholds } from "../types"
+import { AlertTriangle } from "lucide-react"
+import { ALTERNATE_UNITS, VITAL_FIELDS, getBmi, getVitalFlags } from "../lib/vitals"
+import type { VitalField } from "../lib/vitals"
+
+interface VitalsEntryProps {
+  value: VitalSigns
+  onChange: (vitals: VitalSigns) => void
+  ageMonths?: number
+  thresholds?: VitalThresholds
+}
+
+type FieldKey = VitalField["key"]
+
+const display = (value: number | undefined, toUnit?: (v: number) => number) =>
+  value === undefined ? "" : String(Number((toUnit ? toUnit(value) : value).toFixed(1)))
+
+// Vitals for one visit. Temperature, weight and height can be typed in imperial units and are stored metric.
+const VitalsEntry: React.FC<VitalsEntryProps> = ({ value, onChange, ageMonths, thresholds }) => {
+  const [imperial, setImperial] = useState<Partial<Record<FieldKey, boolean>>>({})
+  const [text, setText] = useState<Partial<Record<FieldKey, string>>>({})
+
+  // MUAC screens children from 6 months to 5 years; head circumference is measured under 2
+  const fields = VITAL_FIELDS.filter((f) => {
+    if (f.key === "muac") return ageMonths !== undefined && ageMonths >= 6 && ageMonths < 60
+    if (f.key === "headCircumference") return ageMonths !== undefined && ageMonths < 24
+    return true
+  })
+  const flags = getVitalFlags(value, thresholds, ageMonths)
+  const bmi = getBmi(value)
+
+  const update = (key: FieldKey, raw: string) => {
+    setText({ ...text, [key]: raw })
+    const n = parseFloat(raw)
+    const convert = imperial[key] ? ALTERNATE_UNITS[key]?.toStored : undefined
+    onChange({ ...value, [key]: raw.trim() === "" || isNaN(n) ? undefined : convert ? convert(n) : n })
+  }
+
+  const toggleUnit = (key: FieldKey) => {
+    const next = !imperial[key]
+    setImperial({ ...imperial, [key]: next })
+    setText({ ...text, [key]: display(value[key], next ? ALTERNATE_UNITS[key]?.fromStored : undefined) })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        {fields.map((field) => {
+          const alternate = ALTERNATE_UNITS[field.key]
+          const unit = imperial[field.key] && alternate ? alternate.unit : field.unit
+          const stored = value[field.key]
+          const shown = text[field.key] ?? display(stored, imperial[field.key] ? alternate?.fromStored : undefined)
+          const outOfRange = stored !== undefined && (stored < field.min || stored > field.max)
+          const flagged = flags.some((f) => f.key === field.key)
+          return (
+            <div key={field.key}>
+              <label className="text-xs font-bold text-slate-500 uppercase flex items-center justify-between">
+                <span>{field.label}</span>
+                {alternate ? (
+                  <button
+                    type="button"
+                    onClick={() => toggleUnit(field.key)}
+                    className="normal-case text-[11px] font-bold text-teal-600 hover:underline"
+                    title={`Switch to ${imperial[field.key] ? field.unit : alternate.unit}`}
+                  >
+                    {unit}
+                  </button>
+                ) : (
+                  <span className="normal-case font-medium text-slate-400">{unit}</span>
+                )}
+              </label>
+              <input
+                type="number"
+                inputMode="decimal"
+                step={field.step}
+                className={`w-full p-3 rounded-xl mt-1 outline-none dark:text-white ${outOfRange ? "bg-red-50 dark:bg-red-900/30 ring-2 ring-red-400" : flagged ? "bg-amber-50 dark:bg-amber-900/30" : "bg-slate-50 dark:bg-slate-700"}`}
+                value={shown}
+                onChange={(e) => update(field.key, e.target.value)}
+              />
+              {outOfRange && (
+                <p className="text-[11px] text-red-500 mt-1">
+                  Expected {field.min}-{field.max} {field.unit}
+                </p>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      {bmi !== undefined && (
+        <p className="text-sm text-slate-600 dark:text-slate-300">
+          BMI: <span className="font-bold">{bmi}</span> kg/m²
+        </p>
+      )}
+
+      {flags.length > 0 && (
+        <div className="space-y-1">
+          {flags.map((flag) => (
+            <div
+              key={flag.key}
+              className={`flex items-center gap-2 text-xs font-bold px-3 py-2 rounded-lg ${flag.severe ? "bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-300" : "bg-amber-50 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300"}`}
+            >
+              <AlertTriangle className="w-3.5 h-3.5" />
+              {flag.message}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default VitalsEntry
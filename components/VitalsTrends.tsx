@@ -0,0 +1,228 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useMemo, useState } from "react"
+import {
+  ComposedChart,
+  Line,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+} from "recharts"
+import type { Patient, VitalsReading, VitalThreshold } from "../types"
+import { Activity, Baby, Loader2 } from "lucide-react"
+import { db } from "../services/db"
+import logger from "../lib/logger"
+import useStore from "../store"
+import { DEFAULT_VITAL_THRESHOLDS, exactAgeInMonths, getBmi, patientAgeInMonths } from "../lib/vitals"
+import {
+  GROWTH_MAX_AGE_MONTHS,
+  describeGrowthZScore,
+  getGrowthCurves,
+  getGrowthZScore,
+} from "../lib/growthStandards"
+import type { GrowthIndicator } from "../lib/growthStandards"
+
+type TrendMetric = "bp" | "weight" | "bmi" | "temperature" | "spo2" | "heartRate"
+
+const METRICS: { id: TrendMetric; label: string; unit: string }[] = [
+  { id: "bp", label: "Blood Pressure", unit: "mmHg" },
+  { id: "weight", label: "Weight", unit: "kg" },
+  { id: "bmi", label: "BMI", unit: "kg/m²" },
+  { id: "temperature", label: "Temperature", unit: "°C" },
+  { id: "spo2", label: "SpO2", unit: "%" },
+  { id: "heartRate", label: "Heart Rate", unit: "bpm" },
+]
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString("en-GB", { day: "numeric", month: "short", year: "2-digit" })
+
+interface VitalsTrendsProps {
+  patient: Patient
+}
+
+// A patient's vitals across visits and, for children under 5, the WHO growth charts
+const VitalsTrends: React.FC<VitalsTrendsProps> = ({ patient }) => {
+  const { settings } = useStore()
+  const [readings, setReadings] = useState<VitalsReading[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [metric, setMetric] = useState<TrendMetric>("bp")
+  const [growthIndicator, setGrowthIndicator] = useState<GrowthIndicator>("weight")
+
+  useEffect(() => {
+    setIsLoading(true)
+    db.getPatientVitals(patient.id)
+      .then(setReadings)
+      .catch((e) => logger.warn("Failed to load vitals history:", e))
+      .finally(() => setIsLoading(false))
+  }, [patient.id])
+
+  const ageMonths = patientAgeInMonths(patient)
+  const showGrowth = ageMonths !== undefined && ageMonths <= GROWTH_MAX_AGE_MONTHS
+
+  const trend = useMemo(
+    () =>
+      readings.map((r) => ({
+        date: formatDate(r.takenAt),
+        systolic: r.vitals.systolic,
+        diastolic: r.vitals.diastolic,
+        weight: r.vitals.weight,
+        bmi: getBmi(r.vitals),
+        temperature: r.vitals.temperature,
+        spo2: r.vitals.spo2,
+        heartRate: r.vitals.heartRate,
+      })),
+    [readings],
+  )
+
+  const limits: Record<string, VitalThreshold | undefined> = { ...DEFAULT_VITAL_THRESHOLDS, ...settings.vitalThresholds }
+  const hasData = (key: string) => trend.some((point) => (point as any)[key] !== undefined)
+
+  // Growth points need the age at each visit; an estimated date of birth is only good to the year
+  const growth = useMemo(() => {
+    if (!showGrowth || !patient.dateOfBirth) return null
+    const curves = getGrowthCurves(growthIndicator, patient.gender)
+    const points = readings
+      .map((r) => {
+        const value = growthIndicator === "weight" ? r.vitals.weight : r.vitals.height
+        const age = exactAgeInMonths(patient.dateOfBirth!, r.takenAt)
+        if (value === undefined || age < 0 || age > GROWTH_MAX_AGE_MONTHS) return null
+        return { age: Number(age.toFixed(1)), value, z: getGrowthZScore(growthIndicator, patient.gender, age, value) }
+      })
+      .filter((p): p is { age: number; value: number; z: number | undefined } => p !== null)
+    return { curves, points, latest: points[points.length - 1] }
+  }, [readings, growthIndicator, patient.gender, patient.dateOfBirth, showGrowth])
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-8 text-slate-400">
+        <Loader2 className="w-5 h-5 animate-spin" />
+      </div>
+    )
+  }
+
+  const selected = METRICS.find((m) => m.id === metric)!
+  const limitKeys = metric === "bp" ? ["systolic", "diastolic"] : [metric]
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white dark:bg-slate-800 p-6 rounded-2xl border border-slate-100 dark:border-slate-700">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+          <h4 className="font-bold text-slate-900 dark:text-white flex items-center gap-2">
+            <Activity className="w-5 h-5 text-teal-600" /> Vitals Trend
+          </h4>
+          <div className="flex flex-wrap gap-1 bg-slate-100 dark:bg-slate-700 p-1 rounded-xl">
+            {METRICS.map((m) => (
+              <button
+                key={m.id}
+                type="button"
+                onClick={() => setMetric(m.id)}
+                className={`px-3 py-1 rounded-lg text-xs font-bold transition-all ${metric === m.id ? "bg-white dark:bg-slate-600 shadow text-teal-700 dark:text-teal-300" : "text-slate-500"}`}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {readings.length === 0 || !hasData(metric === "bp" ? "systolic" : metric) ? (
+          <p className="text-sm text-slate-400 text-center py-10">No {selected.label.toLowerCase()} readings recorded yet.</p>
+        ) : (
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={trend}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                <XAxis dataKey="date" tick={{ fontSize: 11 }} />
+                <YAxis domain={["auto", "auto"]} tick={{ fontSize: 11 }} unit={` ${selected.unit}`} width={80} />
+                <Tooltip />
+                {limitKeys.flatMap((key) =>
+                  [limits[key]?.low, limits[key]?.high]
+                    .filter((v): v is number => v !== undefined)
+                    .map((v, i) => <ReferenceLine key={`${key}-${i}`} y={v} stroke="#f59e0b" strokeDasharray="4 4" />),
+                )}
+                {metric === "bp" ? (
+                  <>
+                    <Line type="monotone" dataKey="systolic" name="Systolic" stroke="#e11d48" strokeWidth={2} connectNulls dot />
+                    <Line type="monotone" dataKey="diastolic" name="Diastolic" stroke="#2563eb" strokeWidth={2} connectNulls dot />
+                  </>
+                ) : (
+                  <Line type="monotone" dataKey={metric} name={selected.label} stroke="#0d9488" strokeWidth={2} connectNulls dot />
+                )}
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </div>
+
+      {showGrowth && (
+        <div className="bg-white dark:bg-slate-800 p-6 rounded-2xl border border-slate-100 dark:border-slate-700">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+            <h4 className="font-bold text-slate-900 dark:text-white flex items-center gap-2">
+              <Baby className="w-5 h-5 text-pink-500" /> WHO Growth Chart
+            </h4>
+            <div className="flex gap-1 bg-slate-100 dark:bg-slate-700 p-1 rounded-xl">
+              {(["weight", "height"] as GrowthIndicator[]).map((indicator) => (
+                <button
+                  key={indicator}
+                  type="button"
+                  onClick={() => setGrowthIndicator(indicator)}
+                  className={`px-3 py-1 rounded-lg text-xs font-bold transition-all ${growthIndicator === indicator ? "bg-white dark:bg-slate-600 shadow text-pink-600" : "text-slate-500"}`}
+                >
+                  {indicator === "weight" ? "Weight-for-age" : "Length/height-for-age"}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {!growth ? (
+            <p className="text-sm text-slate-400 text-center py-10">Record the child's date of birth to plot growth.</p>
+          ) : (
+            <>
+              {growth.latest?.z !== undefined && (
+                <p className="text-sm mb-3 text-slate-600 dark:text-slate-300">
+                  Latest: <span className="font-bold">{growth.latest.value}</span> {growthIndicator === "weight" ? "kg" : "cm"} at{" "}
+                  {Math.floor(growth.latest.age)} months, z-score <span className="font-bold">{growth.latest.z}</span>{" "}
+                  <span
+                    className={`ml-1 px-2 py-0.5 rounded text-xs font-bold ${
+                      describeGrowthZScore(growthIndicator, growth.latest.z).level === "normal"
+                        ? "bg-green-50 text-green-700"
+                        : describeGrowthZScore(growthIndicator, growth.latest.z).level === "severe"
+                          ? "bg-red-50 text-red-700"
+                          : "bg-amber-50 text-amber-700"
+                    }`}
+                  >
+                    {describeGrowthZScore(growthIndicator, growth.latest.z).label}
+                  </span>
+                </p>
+              )}
+              <div className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart data={growth.curves}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                    <XAxis dataKey="age" type="number" domain={[0, GROWTH_MAX_AGE_MONTHS]} ticks={[0, 6, 12, 18, 24, 36, 48, 60]} tick={{ fontSize: 11 }} unit=" mo" />
+                    <YAxis domain={["auto", "auto"]} tick={{ fontSize: 11 }} unit={growthIndicator === "weight" ? " kg" : " cm"} width={60} />
+                    <Tooltip formatter={(v: any) => (typeof v === "number" ? v.toFixed(1) : v)} />
+                    <Line dataKey="p3" name="+3 SD" stroke="#000000" dot={false} strokeWidth={1} />
+                    <Line dataKey="p2" name="+2 SD" stroke="#dc2626" dot={false} strokeWidth={1} />
+                    <Line dataKey="median" name="Median" stroke="#16a34a" dot={false} strokeWidth={2} />
+                    <Line dataKey="m2" name="-2 SD" stroke="#dc2626" dot={false} strokeWidth={1} />
+                    <Line dataKey="m3" name="-3 SD" stroke="#000000" dot={false} strokeWidth={1} />
+                    <Scatter data={growth.points} dataKey="value" name={patient.name} fill="#2563eb" />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+              <p className="text-[11px] text-slate-400 mt-2">
+                WHO Child Growth Standards. Length is plotted lying down before 24 months and height standing after.
+              </p>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default VitalsTrends
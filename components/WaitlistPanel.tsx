@@ -0,0 +1,188 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import type { AppointmentType, Patient, TeamMember, WaitlistEntry } from "../types"
+import { Hourglass, Plus, Send, Trash2 } from "lucide-react"
+import useStore from "../store"
+import { canCurrentUser } from "../lib/roleMapper"
+import { addDays } from "../lib/scheduling"
+
+interface WaitlistPanelProps {
+  patients: Patient[]
+  providers: TeamMember[]
+  appointmentTypes: AppointmentType[]
+}
+
+const today = () => new Date().toISOString().split("T")[0]
+
+const emptyEntry = (): WaitlistEntry => ({
+  id: "",
+  patientId: "",
+  earliestDate: today(),
+  latestDate: addDays(today(), 14),
+  status: "Waiting",
+  createdAt: "",
+})
+
+const OFFER_LABEL: Record<NonNullable<WaitlistEntry["offer"]>["status"], string> = {
+  pending: "Offer queued",
+  sent: "Offer sent",
+  accepted: "Accepted",
+  expired: "Offer expired",
+  failed: "Offer not delivered",
+  withdrawn: "Slot taken",
+}
+
+// Patients waiting for a cancellation. Freed slots are offered to them by SMS, oldest entry first.
+const WaitlistPanel: React.FC<WaitlistPanelProps> = ({ patients, providers, appointmentTypes }) => {
+  const { waitlist, actions } = useStore()
+  const canEdit = canCurrentUser("appointments.edit")
+  const [isAdding, setIsAdding] = useState(false)
+  const [draft, setDraft] = useState<WaitlistEntry>(emptyEntry())
+
+  // Offers change server-side whenever an appointment is cancelled
+  useEffect(() => {
+    actions.fetchWaitlist()
+  }, [actions])
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!draft.patientId) return
+    if (draft.latestDate < draft.earliestDate) {
+      actions.showToast("The end date must be on or after the start date.", "error")
+      return
+    }
+    if (await actions.addWaitlistEntry(draft)) {
+      setDraft(emptyEntry())
+      setIsAdding(false)
+    }
+  }
+
+  const formatRange = (entry: WaitlistEntry) => {
+    const fmt = (d: string) => new Date(`${d}T00:00:00`).toLocaleDateString("en-US", { month: "short", day: "numeric" })
+    return entry.earliestDate === entry.latestDate ? fmt(entry.earliestDate) : `${fmt(entry.earliestDate)} – ${fmt(entry.latestDate)}`
+  }
+
+  const inputClass = "w-full p-2.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-xl text-sm outline-none dark:text-white"
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-3xl shadow-sm border border-slate-100 dark:border-slate-700 overflow-hidden transition-colors">
+      <div className="p-6 flex flex-col sm:flex-row sm:items-center justify-between gap-3 border-b border-slate-50 dark:border-slate-700">
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          When an appointment is cancelled, the slot is texted to the longest-waiting matching patient, who books it by replying with a code.
+        </p>
+        {canEdit && !isAdding && (
+          <button
+            onClick={() => setIsAdding(true)}
+            className="shrink-0 flex items-center gap-2 px-4 py-2 bg-teal-600 text-white rounded-xl text-sm font-medium hover:bg-teal-700 transition-colors"
+          >
+            <Plus className="w-4 h-4" /> Add to Waitlist
+          </button>
+        )}
+      </div>
+
+      {isAdding && (
+        <form onSubmit={handleAdd} className="p-6 bg-slate-50 dark:bg-slate-700/30 border-b border-slate-100 dark:border-slate-700 grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="text-xs font-bold text-slate-500 uppercase mb-1 block">Patient</label>
+            <select required value={draft.patientId} onChange={(e) => setDraft({ ...draft, patientId: e.target.value })} className={inputClass}>
+              <option value="">Select patient</option>
+              {patients.map((p) => (
+                <option key={p.id} value={p.id}>{p.name} ({p.phone})</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="text-xs font-bold text-slate-500 uppercase mb-1 block">Provider</label>
+            <select value={draft.providerId || ""} onChange={(e) => setDraft({ ...draft, providerId: e.target.value || undefined })} className={inputClass}>
+              <option value="">Any provider</option>
+              {providers.map((p) => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="text-xs font-bold text-slate-500 uppercase mb-1 block">Appointment type</label>
+            <select value={draft.appointmentType || ""} onChange={(e) => setDraft({ ...draft, appointmentType: e.target.value || undefined })} className={inputClass}>
+              <option value="">Any type</option>
+              {appointmentTypes.map((t) => (
+                <option key={t.id} value={t.name}>{t.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="text-xs font-bold text-slate-500 uppercase mb-1 block">From</label>
+            <input type="date" required min={today()} value={draft.earliestDate} onChange={(e) => setDraft({ ...draft, earliestDate: e.target.value })} className={inputClass} />
+          </div>
+          <div>
+            <label className="text-xs font-bold text-slate-500 uppercase mb-1 block">Until</label>
+            <input type="date" required min={draft.earliestDate} value={draft.latestDate} onChange={(e) => setDraft({ ...draft, latestDate: e.target.value })} className={inputClass} />
+          </div>
+          <div>
+            <label className="text-xs font-bold text-slate-500 uppercase mb-1 block">Notes</label>
+            <input value={draft.notes || ""} onChange={(e) => setDraft({ ...draft, notes: e.target.value })} className={inputClass} placeholder="e.g. mornings only" />
+          </div>
+          <div className="md:col-span-3 flex justify-end gap-2">
+            <button type="button" onClick={() => setIsAdding(false)} className="px-4 py-2 text-sm font-medium text-slate-600 dark:text-slate-300 rounded-xl hover:bg-slate-100 dark:hover:bg-slate-700">
+              Cancel
+            </button>
+            <button type="submit" className="px-4 py-2 bg-slate-900 dark:bg-teal-600 text-white rounded-xl text-sm font-bold hover:bg-slate-800">
+              Add
+            </button>
+          </div>
+        </form>
+      )}
+
+      {waitlist.length > 0 ? (
+        <div className="divide-y divide-slate-50 dark:divide-slate-700">
+          {waitlist.map((entry, index) => (
+            <div key={entry.id} className="p-6 flex flex-col md:flex-row md:items-center justify-between gap-3">
+              <div className="flex items-center gap-4">
+                <div className="w-10 h-10 rounded-full bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300 flex items-center justify-center font-bold">
+                  {index + 1}
+                </div>
+                <div>
+                  <h3 className="font-bold text-slate-900 dark:text-white">{entry.patientName || patients.find((p) => p.id === entry.patientId)?.name}</h3>
+                  <div className="text-sm text-slate-500 dark:text-slate-400">
+                    {formatRange(entry)} · {entry.providerName || "Any provider"} · {entry.appointmentType || "Any type"}
+                    {entry.notes && <span> · {entry.notes}</span>}
+                  </div>
+                </div>
+              </div>
+              <div className="flex items-center gap-3">
+                {entry.status === "Offered" && entry.offer && (
+                  <span
+                    className="flex items-center gap-1 text-xs font-bold px-2.5 py-1 rounded-full bg-sky-50 text-sky-700 dark:bg-sky-900/30 dark:text-sky-300"
+                    title={entry.offer.expiresAt ? `Reply window ends ${new Date(entry.offer.expiresAt).toLocaleTimeString()}` : undefined}
+                  >
+                    <Send className="w-3 h-3" /> {OFFER_LABEL[entry.offer.status]}: {entry.offer.date} {entry.offer.time}
+                  </span>
+                )}
+                {canEdit && (
+                  <button
+                    onClick={() => actions.removeWaitlistEntry(entry.id)}
+                    className="p-2 text-slate-400 hover:text-red-500 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20"
+                    title="Remove from waitlist"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="p-12 text-center">
+          <div className="w-16 h-16 bg-slate-50 dark:bg-slate-700 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Hourglass className="w-8 h-8 text-slate-300 dark:text-slate-500" />
+          </div>
+          <h3 className="font-bold text-slate-900 dark:text-white mb-1">Nobody is waiting</h3>
+          <p className="text-sm text-slate-500 dark:text-slate-400">Add patients who want an earlier slot than the calendar can give them.</p>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default WaitlistPanel
@@ -11,6 +11,7 @@ import { TeamMember, Appointment, InventoryItem, Patient, ClinicSettings, Gender
 import { getStaffAssistantResponse } from '../services/geminiService';
 import { enterpriseDb } from '../services/enterprise-db';
 import { supabase } from '../lib/supabaseClient';
+import { db } from '../services/db';
 
 interface WhatsAppAgentProps {
     team: TeamMember[];
@@ -160,6 +161,27 @@ const WhatsAppAgent: React.FC<WhatsAppAgentProps> = ({
         }
     }
 
+    // Free slots for today and the next two days so the assistant only offers bookable times
+    const getUpcomingSlots = async () => {
+        try {
+            const days = [0, 1, 2].map(offset => {
+                const d = new Date();
+                d.setDate(d.getDate() + offset);
+                return d.toISOString().split('T')[0];
+            });
+            const slotsByDay = await Promise.all(days.map(date => db.getAvailableSlots(date)));
+            return slotsByDay.flatMap((slots, i) => slots.map(s => ({
+                date: days[i],
+                time: s.start,
+                providerId: s.providerId,
+                provider: s.providerName
+            }))).slice(0, 60);
+        } catch (e) {
+            console.error('getAvailableSlots error', e);
+            return [];
+        }
+    };
+
     const handleSendMessage = async () => {
         if (!input.trim() || !selectedTestUser) return;
 
@@ -188,7 +210,8 @@ const WhatsAppAgent: React.FC<WhatsAppAgentProps> = ({
             context.inventory = inventory.map(i => ({ id: i.id, name: i.name, stock: i.stock, unit: i.unit, location: 'Pharmacy' }));
         }
         if (aiConfig.accessAppointments) {
-            context.appointments = appointments.filter(a => a.status === 'Scheduled').map(a => ({ id: a.id, patient: a.patientName, time: a.time, reason: a.reason }));
+            context.appointments = appointments.filter(a => a.status === 'Scheduled').map(a => ({ id: a.id, patient: a.patientName, date: a.date, time: a.time, provider: a.providerName, reason: a.reason }));
+            context.availableSlots = await getUpcomingSlots();
         }
         if (aiConfig.accessPatients) {
             context.patients = patients.map(p => ({
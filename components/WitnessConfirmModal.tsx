@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import useStore from '../store'
+import { WitnessConfirmation } from '../types';
+import { ShieldCheck, X } from 'lucide-react';
+import { hasPermission } from '../lib/rbac'
+import { db } from '../services/db';
+
+interface WitnessConfirmModalProps {
+    title: string;
+    description?: string;
+    onConfirm: (witness: WitnessConfirmation) => void | Promise<void>;
+    onCancel: () => void;
+}
+
+// Second-person check for controlled drug movements.
+// The PIN is checked first (wrong entries count towards a lockout), then verified again by the server
+// in the same transaction as the stock movement.
+const WitnessConfirmModal: React.FC<WitnessConfirmModalProps> = ({ title, description, onConfirm, onCancel }) => {
+    const { settings, currentUser } = useStore();
+    const [witnessId, setWitnessId] = useState('');
+    const [pin, setPin] = useState('');
+    const [isConfirming, setIsConfirming] = useState(false);
+
+    const witnesses = (settings.team || []).filter(member =>
+        member.id !== currentUser?.id &&
+        member.status === 'Active' &&
+        hasPermission(member.role, 'controlled.register')
+    );
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!witnessId || !pin) return;
+        setIsConfirming(true);
+        try {
+            const showError = useStore.getState().actions.showToast;
+            const result = await db.verifyWitnessPin(witnessId, pin).catch((err: any) => {
+                showError(err?.message || 'Could not verify the witness.', 'error');
+                return null;
+            });
+            if (result !== 'verified') {
+                if (result) {
+                    showError(result === 'locked'
+                        ? 'This witness PIN is locked for 15 minutes after repeated wrong entries.'
+                        : 'Witness could not be verified. Check the witness and their PIN.', 'error');
+                }
+                setPin('');
+                return;
+            }
+            await onConfirm({ witnessId, pin });
+        } catch {
+            // The action has already shown the error; stay open so the witness can retry
+            setPin('');
+        } finally {
+            setIsConfirming(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-200">
+            <div className="bg-white dark:bg-slate-800 w-full max-w-md rounded-3xl shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200">
+                <div className="p-5 border-b border-slate-100 dark:border-slate-700 bg-slate-50 dark:bg-slate-700/50 flex justify-between items-center">
+                    <h3 className="font-bold text-slate-900 dark:text-white flex items-center gap-2">
+                        <ShieldCheck className="w-5 h-5 text-amber-600" /> {title}
+                    </h3>
+                    <button onClick={onCancel} className="text-slate-400 hover:text-slate-600"><X className="w-5 h-5" /></button>
+                </div>
+                <form onSubmit={handleSubmit} className="p-5 sm:p-6 space-y-4">
+                    <p className="text-sm text-slate-500">
+                        {description || 'This movement includes a controlled drug.'} A second staff member must witness it with their PIN.
+                    </p>
+                    <div>
+                        <label className="text-xs font-bold text-slate-500 uppercase mb-1 block">Witness</label>
+                        <select required value={witnessId} onChange={(e) => setWitnessId(e.target.value)} className="w-full p-3 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-xl text-sm outline-none dark:text-white focus:ring-2 focus:ring-teal-500">
+                            <option value="">Select a colleague</option>
+                            {witnesses.map(member => (
+                                <option key={member.id} value={member.id}>{member.name} ({member.role})</option>
+                            ))}
+                        </select>
+                        {witnesses.length === 0 && (
+                            <p className="text-xs text-red-500 mt-1">No other pharmacist, doctor or admin is available to witness.</p>
+                        )}
+                    </div>
+                    <div>
+                        <label className="text-xs font-bold text-slate-500 uppercase mb-1 block">Witness PIN</label>
+                        <input type="password" inputMode="numeric" autoComplete="off" required value={pin} onChange={(e) => setPin(e.target.value.replace(/\D/g, '').slice(0, 8))} className="w-full p-3 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-xl font-bold tracking-widest outline-none dark:text-white focus:ring-2 focus:ring-teal-500" placeholder="Entered by the witness" />
+                        <p className="text-[10px] text-slate-400 mt-1">Witnesses set their PIN under Profile → Security.</p>
+                    </div>
+                    <div className="flex gap-3 pt-2">
+                        <button type="button" onClick={onCancel} className="flex-1 py-3 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 font-bold rounded-xl">
+                            Cancel
+                        </button>
+                        <button type="submit" disabled={isConfirming || !witnessId || !pin} className="flex-1 py-3 bg-teal-600 text-white font-bold rounded-xl hover:bg-teal-700 disabled:opacity-60">
+                            {isConfirming ? 'Confirming...' : 'Confirm'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+export default WitnessConfirmModal;
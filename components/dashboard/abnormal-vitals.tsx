@@ -0,0 +1,73 @@
+'use client'
+
+import { AlertTriangle } from 'lucide-react'
+import { Patient, Visit } from '@/types'
+import useStore from '@/store'
+import { formatVitals, getVitalFlags, patientAgeInMonths } from '@/lib/vitals'
+
+interface AbnormalVitalsProps {
+  visits: Visit[]
+  patients: Patient[]
+}
+
+// Patients still in the queue whose latest vitals are outside the clinic's limits, most severe first
+export default function AbnormalVitals({ visits, patients }: AbnormalVitalsProps) {
+  const { settings } = useStore()
+
+  const flagged = visits
+    .filter((v) => v.stage !== 'Completed')
+    .map((visit) => {
+      const patient = patients.find((p) => p.id === visit.patientId)
+      const flags = getVitalFlags(visit.vitals, settings.vitalThresholds, patientAgeInMonths(patient))
+      return { visit, flags, severe: flags.some((f) => f.severe) }
+    })
+    .filter((row) => row.flags.length > 0)
+    .sort((a, b) => Number(b.severe) - Number(a.severe))
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 border border-slate-100 dark:border-slate-700">
+      <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-4 flex items-center gap-2">
+        <AlertTriangle className="w-5 h-5 text-amber-500" />
+        Abnormal Vitals in Queue
+      </h3>
+      <div className="space-y-3 max-h-96 overflow-y-auto">
+        {flagged.length > 0 ? (
+          flagged.map(({ visit, flags, severe }) => (
+            <div
+              key={visit.id}
+              className={`p-4 rounded-lg border ${
+                severe
+                  ? 'border-red-200 dark:border-red-900/50 bg-red-50 dark:bg-red-900/20'
+                  : 'border-amber-200 dark:border-amber-900/50 bg-amber-50 dark:bg-amber-900/20'
+              }`}
+            >
+              <div className="flex items-center justify-between mb-1">
+                <p className="font-semibold text-slate-900 dark:text-white">{visit.patientName}</p>
+                <span className="text-xs text-slate-500 dark:text-slate-400">{visit.stage}</span>
+              </div>
+              <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">{formatVitals(visit.vitals)}</p>
+              <div className="flex flex-wrap gap-1">
+                {flags.map((flag) => (
+                  <span
+                    key={flag.key}
+                    className={`px-2 py-0.5 rounded text-xs font-medium ${
+                      flag.severe
+                        ? 'bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300'
+                        : 'bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300'
+                    }`}
+                  >
+                    {flag.message}
+                  </span>
+                ))}
+              </div>
+            </div>
+          ))
+        ) : (
+          <p className="text-center text-slate-500 dark:text-slate-400 py-8">
+            No abnormal vitals in the queue
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -4,6 +4,7 @@ import { useState, useMemo } from 'react'
 import { Patient, Appointment, InventoryItem, Visit, Supplier } from '@/types'
 import DashboardHeader from '../dashboard-header'
 import DashboardAlerts from '../dashboard-alerts'
+import AbnormalVitals from '../abnormal-vitals'
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar } from 'recharts'
 import { Activity, Users, Calendar, Clock } from 'lucide-react'
 
@@ -198,6 +199,9 @@ export default function DoctorDashboardView({ user, initialData }: DoctorViewPro
           </div>
         </div>
 
+        {/* Abnormal Vitals */}
+        <AbnormalVitals visits={data.visits} patients={data.patients} />
+
         {/* Recent Consultations */}
         <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 border border-slate-100 dark:border-slate-700">
           <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-4">
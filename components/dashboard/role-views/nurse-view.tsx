@@ -4,7 +4,9 @@ import { useState, useMemo } from 'react'
 import { Patient, Appointment, InventoryItem, Visit, Supplier } from '@/types'
 import DashboardHeader from '../dashboard-header'
 import DashboardAlerts from '../dashboard-alerts'
+import AbnormalVitals from '../abnormal-vitals'
 import { Activity, Users, Heart, Droplets } from 'lucide-react'
+import { formatBloodPressure, hasVitals } from '@/lib/vitals'
 
 interface NurseViewProps {
   user: {
@@ -28,7 +30,7 @@ export default function NurseDashboardView({ user, initialData }: NurseViewProps
 
   const metrics = useMemo(() => {
     const patientsInQueue = data.visits.filter((v) => v.stage !== 'Completed')
-    const vitalsRecorded = data.visits.filter((v) => v.vitals && Object.keys(v.vitals).length > 0)
+    const vitalsRecorded = data.visits.filter((v) => hasVitals(v.vitals))
 
     return {
       patientsInQueue: patientsInQueue.length,
@@ -49,7 +51,7 @@ export default function NurseDashboardView({ user, initialData }: NurseViewProps
     .slice(0, 10)
 
   const recentVitals = data.visits
-    .filter((v) => v.vitals && Object.keys(v.vitals).length > 0)
+    .filter((v) => hasVitals(v.vitals))
     .sort((a, b) => {
       if (!a.stageStartTime || !b.stageStartTime) return 0
       return new Date(b.stageStartTime).getTime() - new Date(a.stageStartTime).getTime()
@@ -129,6 +131,9 @@ export default function NurseDashboardView({ user, initialData }: NurseViewProps
           </div>
         </div>
 
+        {/* Abnormal Vitals */}
+        <AbnormalVitals visits={data.visits} patients={data.patients} />
+
         {/* Patients Awaiting Triage */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 border border-slate-100 dark:border-slate-700">
@@ -191,15 +196,15 @@ export default function NurseDashboardView({ user, initialData }: NurseViewProps
                       {visit.patientName}
                     </p>
                     <div className="grid grid-cols-2 gap-2 text-sm">
-                      {visit.vitals?.bp && (
+                      {formatBloodPressure(visit.vitals) && (
                         <div className="bg-slate-50 dark:bg-slate-700/50 p-2 rounded">
                           <p className="text-slate-500 dark:text-slate-400 text-xs">BP</p>
                           <p className="font-semibold text-slate-900 dark:text-white">
-                            {visit.vitals.bp}
+                            {formatBloodPressure(visit.vitals)}
                           </p>
                         </div>
                       )}
-                      {visit.vitals?.heartRate && (
+                      {visit.vitals?.heartRate !== undefined && (
                         <div className="bg-slate-50 dark:bg-slate-700/50 p-2 rounded">
                           <p className="text-slate-500 dark:text-slate-400 text-xs">HR</p>
                           <p className="font-semibold text-slate-900 dark:text-white">
@@ -207,15 +212,15 @@ export default function NurseDashboardView({ user, initialData }: NurseViewProps
                           </p>
                         </div>
                       )}
-                      {visit.vitals?.temp && (
+                      {visit.vitals?.temperature !== undefined && (
                         <div className="bg-slate-50 dark:bg-slate-700/50 p-2 rounded">
                           <p className="text-slate-500 dark:text-slate-400 text-xs">Temp</p>
                           <p className="font-semibold text-slate-900 dark:text-white">
-                            {visit.vitals.temp}°C
+                            {visit.vitals.temperature}°C
                           </p>
                         </div>
                       )}
-                      {visit.vitals?.weight && (
+                      {visit.vitals?.weight !== undefined && (
                         <div className="bg-slate-50 dark:bg-slate-700/50 p-2 rounded">
                           <p className="text-slate-500 dark:text-slate-400 text-xs">Weight</p>
                           <p className="font-semibold text-slate-900 dark:text-white">
@@ -2,6 +2,8 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
 import { db } from "../services/db"
 import type { Visit } from "../types"
 import useStore from "../store"
+import { summarizeClinicalNote } from "../lib/clinicalNotes"
+import { summarizeDiagnosis } from "../lib/diagnosisCoding"
 
 // Query keys
 export const visitKeys = {
@@ -52,7 +54,7 @@ export function useCreateVisit() {
                 consultationFee: 500,
                 totalBill: 500,
                 paymentStatus: "Pending",
-                vitals: { bp: "", heartRate: "", temp: "", weight: "" },
+                vitals: {},
             }
 
             return db.createVisit(newVisit)
@@ -93,8 +95,8 @@ export function useCompleteVisit() {
 
     return useMutation({
         mutationFn: async (visit: Visit) => {
-            const diagnosisText = visit.diagnosis ? `Dx: ${visit.diagnosis}` : "No Diagnosis"
-            const notesText = visit.doctorNotes ? `Notes: ${visit.doctorNotes}` : ""
+            const diagnosisText = summarizeDiagnosis(visit)
+            const notesText = summarizeClinicalNote(visit)
             const summary = `[${visit.startTime.split("T")[0]}] ${diagnosisText}. ${notesText}`.trim()
 
             const patient = patients.find((p) => p.id === visit.patientId)
@@ -0,0 +1,69 @@
+/**
+ * Clinical Note Utilities
+ * SOAP note sections, starter templates and the history summary written when a visit closes
+ */
+
+import type { NoteTemplate, SoapNote, SoapSection, Visit } from "../types"
+
+export const SOAP_SECTIONS: { id: SoapSection; label: string; placeholder: string }[] = [
+  { id: "subjective", label: "Subjective", placeholder: "History of presenting illness, symptoms, patient's own account..." },
+  { id: "objective", label: "Objective", placeholder: "Examination findings, vitals, results..." },
+  { id: "assessment", label: "Assessment", placeholder: "Impression and differentials..." },
+  { id: "plan", label: "Plan", placeholder: "Investigations, treatment, advice, follow-up..." },
+]
+
+export const EMPTY_SOAP_NOTE: SoapNote = { subjective: "", objective: "", assessment: "", plan: "" }
+
+// Offered until the clinic saves templates of its own
+export const STARTER_NOTE_TEMPLATES: NoteTemplate[] = [
+  {
+    id: "starter-anc",
+    name: "ANC visit",
+    builtIn: true,
+    subjective: "Gestation (LMP/EDD): \nFetal movements: \nDanger signs (bleeding, headache, blurred vision, swelling, fever): \nComplaints: ",
+    objective: "BP: \nWeight: \nFundal height: \nFetal heart rate: \nPresentation: \nOedema: \nHb / urinalysis: ",
+    assessment: "ANC visit, gestation __ weeks. ",
+    plan: "IFAS given: \nIPTp / TT as due: \nBirth plan discussed: \nNext ANC visit: ",
+  },
+  {
+    id: "starter-urti",
+    name: "URTI",
+    builtIn: true,
+    subjective: "Cough / sore throat / runny nose for __ days.\nFever: \nDifficulty breathing: \nEar pain: ",
+    objective: "Temp: \nRR: \nSpO2: \nThroat: \nEars: \nChest: ",
+    assessment: "Upper respiratory tract infection. ",
+    plan: "Symptomatic treatment: \nAntibiotics (only if indicated): \nReturn if breathing difficulty or fever beyond 3 days.",
+  },
+  {
+    id: "starter-hypertension",
+    name: "Hypertension review",
+    builtIn: true,
+    subjective: "Adherence to medication: \nSide effects: \nHeadache / chest pain / breathlessness: \nSalt, alcohol, exercise: ",
+    objective: "BP (repeat after 5 min): \nPulse: \nWeight / BMI: \nOedema: ",
+    assessment: "Hypertension, controlled / uncontrolled. ",
+    plan: "Medication: \nLifestyle advice: \nLabs (creatinine, urinalysis, lipids) as due: \nNext review: ",
+  },
+]
+
+export function isSoapNoteEmpty(note?: SoapNote): boolean {
+  return !note || SOAP_SECTIONS.every((section) => !note[section.id]?.trim())
+}
+
+// Template text fills empty sections and is appended below anything already written
+export function applyNoteTemplate(note: SoapNote | undefined, template: SoapNote): SoapNote {
+  const current = note || EMPTY_SOAP_NOTE
+  return SOAP_SECTIONS.reduce((next, { id }) => {
+    const existing = current[id]?.trim()
+    next[id] = existing ? `${existing}\n${template[id]}` : template[id]
+    return next
+  }, { ...EMPTY_SOAP_NOTE })
+}
+
+// One-line note summary for the patient's history
+export function summarizeClinicalNote(visit: Visit): string {
+  const parts: string[] = []
+  if (visit.soapNote?.assessment?.trim()) parts.push(`Assessment: ${visit.soapNote.assessment.trim()}`)
+  if (visit.soapNote?.plan?.trim()) parts.push(`Plan: ${visit.soapNote.plan.trim()}`)
+  if (visit.doctorNotes?.trim()) parts.push(`Notes: ${visit.doctorNotes.trim()}`)
+  return parts.join(" ")
+}
@@ -0,0 +1,73 @@
+/**
+ * DHIS2 (KHIS) Export
+ * Turns computed MOH 705 summaries into DHIS2 dataValueSets payloads using the clinic's
+ * data element and organisation unit mappings.
+ * MOH 711 is not exported: the app does not record the family planning, maternity and
+ * immunisation services it summarises.
+ */
+
+import type { Dhis2DataValueSet, Dhis2Settings } from "../types"
+import type { MohForm } from "./diagnosisCoding"
+import type { Moh705Line, Moh705Report } from "./mohReport"
+
+export const EMPTY_DHIS2_SETTINGS: Dhis2Settings = {
+  enabled: false,
+  baseUrl: "",
+  username: "",
+  password: "",
+  orgUnit: "",
+  dataSets: {},
+  mappings: {},
+}
+
+// DHIS2 monthly period for "2026-01" is "202601"
+export const toDhis2Period = (month: string) => month.replace("-", "")
+
+export const dhis2MappingKey = (form: MohForm, rowId: string) => `${form}:${rowId}`
+
+// Why a form cannot be exported yet; empty when it can
+export function getDhis2ConfigIssues(settings: Dhis2Settings | undefined, form: MohForm): string[] {
+  const issues: string[] = []
+  if (!settings?.orgUnit) issues.push("No organisation unit is set")
+  if (!settings?.dataSets[form]) issues.push(`No data set is set for MOH ${form}`)
+  if (!Object.keys(settings?.mappings || {}).some((key) => key.startsWith(`${form}:`))) {
+    issues.push(`No MOH ${form} rows are mapped to data elements`)
+  }
+  return issues
+}
+
+/**
+ * Every mapped row is sent, zeros included, so that a resubmission overwrites counts that have since
+ * dropped to zero. Rows without a data element are returned as unmapped and left out.
+ */
+export function buildMoh705DataValueSet(
+  report: Moh705Report,
+  settings: Dhis2Settings,
+): { payload: Dhis2DataValueSet; unmapped: Moh705Line[] } {
+  const unmapped: Moh705Line[] = []
+  const dataValues = report.lines.flatMap((line) => {
+    const mapping = settings.mappings[dhis2MappingKey(report.form, line.row.id)]
+    if (!mapping?.dataElement) {
+      unmapped.push(line)
+      return []
+    }
+    return [
+      {
+        dataElement: mapping.dataElement,
+        ...(mapping.categoryOptionCombo ? { categoryOptionCombo: mapping.categoryOptionCombo } : {}),
+        value: String(line.newCases),
+      },
+    ]
+  })
+
+  return {
+    payload: {
+      dataSet: settings.dataSets[report.form] || "",
+      period: toDhis2Period(report.month),
+      orgUnit: settings.orgUnit,
+      completeDate: new Date().toISOString().slice(0, 10),
+      dataValues,
+    },
+    unmapped,
+  }
+}
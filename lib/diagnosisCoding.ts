@@ -0,0 +1,162 @@
+/**
+ * Diagnosis Coding Utilities
+ * Searching the bundled ICD code sets and mapping coded diagnoses to MOH 705A/705B disease rows
+ */
+
+import type { CodedDiagnosis, DiagnosisCodeSystem, IcdCode, Visit } from "../types"
+import { ICD10_CODES, ICD11_CODES } from "./icdCodes"
+
+export type MohForm = "705A" | "705B"
+
+export interface MohDiseaseRow {
+  id: string
+  label: string
+  forms: MohForm[]
+  icd10: string[] // Category ranges ("J12-J18") or code prefixes ("J03", "T63.0")
+}
+
+// Under-5s are reported on MOH 705A, everyone else on 705B
+export const MOH_UNDER_FIVE_MAX_AGE = 4
+
+export const getMohForm = (ageInYears: number): MohForm => (ageInYears <= MOH_UNDER_FIVE_MAX_AGE ? "705A" : "705B")
+
+const BOTH: MohForm[] = ["705A", "705B"]
+
+// Disease rows of the MOH 705 outpatient summaries, in form order. A code counts against the row
+// whose ICD-10 rule is most specific; codes that match no row are reported as "All other diseases".
+export const MOH_705_ROWS: MohDiseaseRow[] = [
+  { id: "diarrhoea", label: "Diarrhoea", forms: BOTH, icd10: ["A02-A09", "K52"] },
+  { id: "tuberculosis", label: "Tuberculosis", forms: BOTH, icd10: ["A15-A19"] },
+  { id: "dysentery", label: "Dysentery", forms: BOTH, icd10: ["A03", "A06.0"] },
+  { id: "cholera", label: "Cholera", forms: BOTH, icd10: ["A00"] },
+  { id: "meningococcal-meningitis", label: "Meningococcal meningitis", forms: BOTH, icd10: ["A39"] },
+  { id: "other-meningitis", label: "Other meningitis", forms: BOTH, icd10: ["G00-G03"] },
+  { id: "neonatal-sepsis", label: "Neonatal sepsis", forms: ["705A"], icd10: ["P36"] },
+  { id: "neonatal-jaundice", label: "Neonatal jaundice", forms: ["705A"], icd10: ["P59"] },
+  { id: "tetanus", label: "Tetanus", forms: BOTH, icd10: ["A33-A35"] },
+  { id: "afp", label: "Poliomyelitis (AFP)", forms: BOTH, icd10: ["A80", "G61.0"] },
+  { id: "chicken-pox", label: "Chicken pox", forms: BOTH, icd10: ["B01"] },
+  { id: "measles", label: "Measles", forms: BOTH, icd10: ["B05"] },
+  { id: "hepatitis", label: "Hepatitis", forms: BOTH, icd10: ["B15-B19"] },
+  { id: "mumps", label: "Mumps", forms: BOTH, icd10: ["B26"] },
+  { id: "fevers", label: "Fevers", forms: BOTH, icd10: ["R50"] },
+  { id: "malaria", label: "Confirmed malaria", forms: BOTH, icd10: ["B50-B54"] },
+  { id: "malaria-in-pregnancy", label: "Malaria in pregnancy", forms: ["705B"], icd10: ["O98.6"] },
+  { id: "typhoid", label: "Typhoid fever", forms: BOTH, icd10: ["A01.0"] },
+  { id: "sti", label: "Sexually transmitted infections", forms: ["705B"], icd10: ["A50-A64"] },
+  { id: "uti", label: "Urinary tract infection", forms: BOTH, icd10: ["N39.0", "N30", "N10", "O23"] },
+  { id: "bilharzia", label: "Bilharzia", forms: BOTH, icd10: ["B65"] },
+  { id: "intestinal-worms", label: "Intestinal worms", forms: BOTH, icd10: ["B65-B83"] },
+  { id: "malnutrition", label: "Malnutrition", forms: BOTH, icd10: ["E40-E46"] },
+  { id: "anaemia", label: "Anaemia", forms: BOTH, icd10: ["D50-D64", "O99.0"] },
+  { id: "eye-infections", label: "Eye infections", forms: BOTH, icd10: ["H10", "H00-H01"] },
+  { id: "ear-infections", label: "Ear infections", forms: BOTH, icd10: ["H60-H70"] },
+  { id: "urti", label: "Upper respiratory tract infections", forms: BOTH, icd10: ["J00-J06", "J30-J39", "J10-J11"] },
+  { id: "tonsillitis", label: "Tonsillitis", forms: BOTH, icd10: ["J03", "J35.0"] },
+  { id: "pneumonia", label: "Pneumonia", forms: BOTH, icd10: ["J12-J18"] },
+  { id: "lrti", label: "Other lower respiratory tract infections", forms: BOTH, icd10: ["J20-J22"] },
+  { id: "asthma", label: "Asthma", forms: BOTH, icd10: ["J45-J46"] },
+  { id: "abortion", label: "Abortion", forms: ["705B"], icd10: ["O00-O08"] },
+  { id: "skin", label: "Diseases of the skin", forms: BOTH, icd10: ["L00-L99", "B35-B36", "B86", "B08"] },
+  { id: "diabetes", label: "Diabetes", forms: BOTH, icd10: ["E10-E14", "O24"] },
+  { id: "hypertension", label: "Hypertension", forms: ["705B"], icd10: ["I10-I15", "O13-O14"] },
+  { id: "cardiovascular", label: "Other cardiovascular conditions", forms: BOTH, icd10: ["I00-I99"] },
+  { id: "cns", label: "Central nervous system conditions", forms: BOTH, icd10: ["G00-G99"] },
+  { id: "mental", label: "Mental disorders", forms: BOTH, icd10: ["F00-F99"] },
+  { id: "dental", label: "Dental disorders", forms: BOTH, icd10: ["K00-K14"] },
+  { id: "neoplasms", label: "Neoplasms", forms: BOTH, icd10: ["C00-D48"] },
+  { id: "musculoskeletal", label: "Musculoskeletal conditions", forms: BOTH, icd10: ["M00-M99"] },
+  { id: "fistula", label: "Fistula (birth related)", forms: ["705B"], icd10: ["N82"] },
+  { id: "congenital", label: "Congenital anomalies", forms: BOTH, icd10: ["Q00-Q99"] },
+  { id: "poisoning", label: "Poisoning", forms: BOTH, icd10: ["T36-T65"] },
+  { id: "road-traffic-injuries", label: "Road traffic injuries", forms: BOTH, icd10: ["V01-V89"] },
+  { id: "sexual-violence", label: "Sexual violence", forms: BOTH, icd10: ["T74.2"] },
+  { id: "violence", label: "Violence related injuries", forms: BOTH, icd10: ["X85-Y09"] },
+  { id: "burns", label: "Burns", forms: BOTH, icd10: ["T20-T32"] },
+  { id: "other-injuries", label: "Other injuries", forms: BOTH, icd10: ["S00-S99", "T00-T19"] },
+  { id: "snake-bites", label: "Snake bites", forms: BOTH, icd10: ["T63.0", "X20"] },
+  { id: "dog-bites", label: "Dog bites", forms: BOTH, icd10: ["W54"] },
+  { id: "other-bites", label: "Other bites", forms: BOTH, icd10: ["W53", "W55-W57", "T63.4"] },
+  { id: "jiggers", label: "Jiggers (tungiasis)", forms: BOTH, icd10: ["B88.1"] },
+  { id: "brucellosis", label: "Brucellosis", forms: BOTH, icd10: ["A23"] },
+  { id: "trypanosomiasis", label: "Trypanosomiasis", forms: BOTH, icd10: ["B56"] },
+  { id: "leishmaniasis", label: "Leishmaniasis (kala-azar)", forms: BOTH, icd10: ["B55"] },
+  { id: "yellow-fever", label: "Yellow fever", forms: BOTH, icd10: ["A95"] },
+  { id: "vhf", label: "Viral haemorrhagic fever", forms: BOTH, icd10: ["A98-A99", "A92.4", "A91"] },
+  { id: "dengue-chikungunya", label: "Dengue and chikungunya", forms: BOTH, icd10: ["A90", "A92.0"] },
+  { id: "anthrax", label: "Anthrax", forms: BOTH, icd10: ["A22"] },
+]
+
+export const MOH_OTHER_DISEASES: MohDiseaseRow = { id: "other", label: "All other diseases", forms: BOTH, icd10: [] }
+
+const normalize = (code: string) => code.toUpperCase().replace(/\./g, "")
+
+// A00 -> 0, Z99 -> 2599; lets ranges span letters (e.g. S00-T19)
+const categoryIndex = (code: string) => (code.charCodeAt(0) - 65) * 100 + (parseInt(code.slice(1, 3), 10) || 0)
+
+// How closely a rule matches an ICD-10 code: longer prefixes and narrower ranges win; -1 if no match
+function ruleSpecificity(rule: string, code: string): number {
+  const [from, to] = rule.split("-")
+  if (to) {
+    const index = categoryIndex(code)
+    if (index < categoryIndex(from) || index > categoryIndex(to)) return -1
+    return 3 - (categoryIndex(to) - categoryIndex(from) + 1) / 10000
+  }
+  const prefix = normalize(from)
+  return normalize(code).startsWith(prefix) ? prefix.length : -1
+}
+
+// ICD-11 codes are mapped through their ICD-10 equivalent
+export function getMohRow(diagnosis: IcdCode, form: MohForm): MohDiseaseRow {
+  const code = diagnosis.system === "ICD-10" ? diagnosis.code : diagnosis.icd10 || diagnosis.code
+  let best = MOH_OTHER_DISEASES
+  let bestScore = -1
+  for (const row of MOH_705_ROWS) {
+    if (!row.forms.includes(form)) continue
+    for (const rule of row.icd10) {
+      const score = ruleSpecificity(rule, code)
+      if (score > bestScore) {
+        best = row
+        bestScore = score
+      }
+    }
+  }
+  return best
+}
+
+export function getCodeSet(system: DiagnosisCodeSystem): IcdCode[] {
+  return system === "ICD-11" ? ICD11_CODES : ICD10_CODES
+}
+
+// Codes starting with the query rank first, then title matches on every word
+export function searchIcdCodes(query: string, system: DiagnosisCodeSystem = "ICD-10", limit = 20): IcdCode[] {
+  const q = query.trim().toLowerCase()
+  if (!q) return []
+  const codeQuery = normalize(q)
+  const words = q.split(/\s+/)
+  const byCode: IcdCode[] = []
+  const byTitle: IcdCode[] = []
+  for (const entry of getCodeSet(system)) {
+    if (normalize(entry.code).startsWith(codeQuery)) byCode.push(entry)
+    else if (words.every((word) => entry.title.toLowerCase().includes(word))) byTitle.push(entry)
+  }
+  return [...byCode.sort((a, b) => a.code.localeCompare(b.code)), ...byTitle].slice(0, limit)
+}
+
+export function getPrimaryDiagnosis(diagnoses?: CodedDiagnosis[]): CodedDiagnosis | undefined {
+  return diagnoses?.find((d) => d.primary) || diagnoses?.[0]
+}
+
+// "B50.9 Plasmodium falciparum malaria, unspecified; I10 Essential (primary) hypertension", primary first
+export function formatCodedDiagnoses(diagnoses?: CodedDiagnosis[]): string {
+  return [...(diagnoses || [])]
+    .sort((a, b) => Number(b.primary) - Number(a.primary))
+    .map((d) => `${d.code} ${d.title}`)
+    .join("; ")
+}
+
+// Diagnosis part of the patient's history summary; codes win over the free-text impression
+export function summarizeDiagnosis(visit: Visit): string {
+  if (visit.codedDiagnoses?.length) return `Dx: ${formatCodedDiagnoses(visit.codedDiagnoses)}`
+  return visit.diagnosis ? `Dx: ${visit.diagnosis}` : "No Diagnosis"
+}
@@ -19,9 +19,45 @@ interface ExportData {
   inventory: InventoryItem[]
 }
 
-export function exportToCsv(data: ExportData, filename: string) {
+// A single titled table, for exports outside the dashboard report
+export interface CsvTable {
+  title: string
+  headers: string[]
+  rows: (string | number | null | undefined)[][]
+}
+
+const csvCell = (value: string | number | null | undefined) => {
+  const text = value === null || value === undefined ? '' : String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const downloadCsv = (csv: string[], filename: string) => {
+  const csvContent = csv.join('\n')
+  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' })
+  const link = document.createElement('a')
+  const url = URL.createObjectURL(blob)
+
+  link.setAttribute('href', url)
+  link.setAttribute('download', `${filename}.csv`)
+  link.style.visibility = 'hidden'
+
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+}
+
+export function exportToCsv(data: ExportData | CsvTable, filename: string) {
   const csv: string[] = []
 
+  if ('rows' in data) {
+    csv.push(`${csvCell(data.title)},${new Date().toISOString()}`)
+    csv.push('')
+    csv.push(data.headers.map(csvCell).join(','))
+    data.rows.forEach((row) => csv.push(row.map(csvCell).join(',')))
+    downloadCsv(csv, filename)
+    return
+  }
+
   // Header with timestamp
   csv.push(`JuaAfya Dashboard Report,${new Date().toISOString()}`)
   csv.push('')
@@ -72,18 +108,7 @@ export function exportToCsv(data: ExportData, filename: string) {
   })
 
   // Create and download file
-  const csvContent = csv.join('\n')
-  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' })
-  const link = document.createElement('a')
-  const url = URL.createObjectURL(blob)
-
-  link.setAttribute('href', url)
-  link.setAttribute('download', `${filename}.csv`)
-  link.style.visibility = 'hidden'
-
-  document.body.appendChild(link)
-  link.click()
-  document.body.removeChild(link)
+  downloadCsv(csv, filename)
 }
 
 export function exportToPdf(data: ExportData, filename: string) {
@@ -0,0 +1,159 @@
+/**
+ * WHO Child Growth Standards (2006)
+ * Weight-for-age and length/height-for-age for children under 5, with z-scores for the growth charts.
+ * Weight uses the WHO SD lines at selected ages; length and height are normally distributed (L = 1),
+ * so they use the median and coefficient of variation. Values between the listed ages and SD lines are
+ * interpolated linearly, which is within about 0.1 SD of the full WHO tables: fine for screening and
+ * charting, but use WHO Anthro for research-grade anthropometry.
+ */
+
+import { Gender } from "../types"
+
+export type GrowthIndicator = "weight" | "height"
+
+export const GROWTH_MAX_AGE_MONTHS = 60
+
+// Length is measured lying down before 2 years and height standing after; standing reads 0.7 cm shorter
+export const LENGTH_TO_HEIGHT_AGE_MONTHS = 24
+
+// [age in months, -3 SD, -2 SD, median, +2 SD, +3 SD] in kg
+type WeightRow = [number, number, number, number, number, number]
+
+const WEIGHT_FOR_AGE: Record<"male" | "female", WeightRow[]> = {
+  male: [
+    [0, 2.1, 2.5, 3.3464, 4.4, 5.0],
+    [1, 2.9, 3.4, 4.4709, 5.8, 6.6],
+    [2, 3.8, 4.3, 5.5675, 7.1, 8.0],
+    [3, 4.4, 5.0, 6.3762, 8.0, 9.0],
+    [4, 4.9, 5.6, 7.0023, 8.7, 9.7],
+    [5, 5.3, 6.0, 7.5105, 9.3, 10.4],
+    [6, 5.7, 6.4, 7.934, 9.8, 10.9],
+    [9, 6.4, 7.1, 8.9014, 11.0, 12.3],
+    [12, 6.9, 7.7, 9.6479, 12.0, 13.3],
+    [18, 7.7, 8.8, 10.9385, 13.7, 15.3],
+    [24, 8.6, 9.7, 12.1515, 15.3, 17.1],
+    [36, 10.0, 11.3, 14.3429, 18.3, 20.7],
+    [48, 11.2, 12.7, 16.3489, 21.2, 24.2],
+    [60, 12.4, 14.1, 18.3366, 24.2, 27.9],
+  ],
+  female: [
+    [0, 2.0, 2.4, 3.2322, 4.2, 4.8],
+    [1, 2.7, 3.2, 4.1873, 5.5, 6.2],
+    [2, 3.4, 3.9, 5.1282, 6.6, 7.5],
+    [3, 4.0, 4.5, 5.8458, 7.5, 8.5],
+    [4, 4.4, 5.0, 6.4237, 8.2, 9.3],
+    [5, 4.8, 5.4, 6.8985, 8.8, 10.0],
+    [6, 5.1, 5.7, 7.297, 9.3, 10.6],
+    [9, 5.8, 6.4, 8.2254, 10.5, 12.0],
+    [12, 6.3, 7.0, 8.9481, 11.5, 13.1],
+    [18, 7.2, 8.1, 10.2315, 13.2, 15.1],
+    [24, 8.1, 9.0, 11.4775, 14.8, 17.0],
+    [36, 9.6, 10.8, 13.8503, 18.1, 20.9],
+    [48, 10.9, 12.3, 16.0697, 21.5, 25.2],
+    [60, 12.1, 13.7, 18.2193, 24.9, 29.5],
+  ],
+}
+
+// [age in months, median cm, coefficient of variation]; length up to 24 months, height from 24
+type HeightRow = [number, number, number]
+
+const LENGTH_FOR_AGE: Record<"male" | "female", HeightRow[]> = {
+  male: [
+    [0, 49.8842, 0.03795],
+    [1, 54.7244, 0.03557],
+    [2, 58.4249, 0.03424],
+    [3, 61.4292, 0.03328],
+    [4, 63.886, 0.03257],
+    [5, 65.9026, 0.03204],
+    [6, 67.6236, 0.03165],
+    [9, 72.0, 0.03125],
+    [12, 75.7488, 0.03137],
+    [18, 82.2587, 0.03283],
+    [24, 87.8161, 0.03473],
+  ],
+  female: [
+    [0, 49.1477, 0.0379],
+    [1, 53.6872, 0.0364],
+    [2, 57.0673, 0.03568],
+    [3, 59.8029, 0.0352],
+    [4, 62.0899, 0.03486],
+    [5, 64.0301, 0.03463],
+    [6, 65.7311, 0.03448],
+    [9, 70.1435, 0.03457],
+    [12, 74.015, 0.0348],
+    [18, 80.7079, 0.03593],
+    [24, 86.4153, 0.03732],
+  ],
+}
+
+const HEIGHT_FOR_AGE: Record<"male" | "female", HeightRow[]> = {
+  male: [
+    [24, 87.1161, 0.035],
+    [36, 96.0835, 0.03851],
+    [48, 103.3273, 0.04065],
+    [60, 109.9638, 0.04206],
+  ],
+  female: [
+    [24, 85.7153, 0.03762],
+    [36, 95.0515, 0.04024],
+    [48, 102.7312, 0.04186],
+    [60, 109.4233, 0.04341],
+  ],
+}
+
+// The SD lines drawn on the charts
+export const GROWTH_Z_LINES = [-3, -2, 0, 2, 3] as const
+
+const sexKey = (gender: Gender) => (gender === Gender.Female ? "female" : "male")
+
+function interpolateRow<T extends number[]>(rows: T[], ageMonths: number): number[] {
+  const age = Math.min(Math.max(ageMonths, rows[0][0]), rows[rows.length - 1][0])
+  const upper = rows.findIndex((row) => row[0] >= age)
+  if (rows[upper][0] === age || upper === 0) return rows[upper].slice(1)
+  const [a, b] = [rows[upper - 1], rows[upper]]
+  const t = (age - a[0]) / (b[0] - a[0])
+  return a.slice(1).map((value, i) => value + (b[i + 1] - value) * t)
+}
+
+// Measurement at each SD line in GROWTH_Z_LINES for a child of this age and sex
+export function getGrowthReference(indicator: GrowthIndicator, gender: Gender, ageMonths: number): number[] {
+  if (indicator === "weight") return interpolateRow(WEIGHT_FOR_AGE[sexKey(gender)], ageMonths)
+  const table = ageMonths < LENGTH_TO_HEIGHT_AGE_MONTHS ? LENGTH_FOR_AGE : HEIGHT_FOR_AGE
+  const [median, cv] = interpolateRow(table[sexKey(gender)], ageMonths)
+  return GROWTH_Z_LINES.map((z) => median * (1 + cv * z))
+}
+
+/**
+ * Z-score of a measurement. Beyond ±3 SD the distance between the 2 and 3 SD lines is extended,
+ * as in the WHO method for weight, so extreme values are not exaggerated.
+ */
+export function getGrowthZScore(indicator: GrowthIndicator, gender: Gender, ageMonths: number, value: number): number | undefined {
+  if (ageMonths < 0 || ageMonths > GROWTH_MAX_AGE_MONTHS || !(value > 0)) return undefined
+  const [m3, m2, median, p2, p3] = getGrowthReference(indicator, gender, ageMonths)
+  let z: number
+  if (value < m3) z = -3 - (m3 - value) / (m2 - m3)
+  else if (value < m2) z = -3 + (value - m3) / (m2 - m3)
+  else if (value < median) z = -2 + (2 * (value - m2)) / (median - m2)
+  else if (value < p2) z = (2 * (value - median)) / (p2 - median)
+  else if (value < p3) z = 2 + (value - p2) / (p3 - p2)
+  else z = 3 + (value - p3) / (p3 - p2)
+  return Number(z.toFixed(2))
+}
+
+// WHO classification of a z-score
+export function describeGrowthZScore(indicator: GrowthIndicator, z: number): { label: string; level: "normal" | "moderate" | "severe" } {
+  const low = indicator === "weight" ? "underweight" : "stunted"
+  if (z < -3) return { label: `Severely ${low}`, level: "severe" }
+  if (z < -2) return { label: low[0].toUpperCase() + low.slice(1), level: "moderate" }
+  if (indicator === "weight" && z > 2) return { label: "Possible growth problem; check weight-for-length", level: "moderate" }
+  if (indicator === "height" && z > 3) return { label: "Very tall", level: "moderate" }
+  return { label: "Normal", level: "normal" }
+}
+
+// Reference curves sampled monthly for the chart
+export function getGrowthCurves(indicator: GrowthIndicator, gender: Gender, maxAgeMonths = GROWTH_MAX_AGE_MONTHS) {
+  return Array.from({ length: Math.min(maxAgeMonths, GROWTH_MAX_AGE_MONTHS) + 1 }, (_, age) => {
+    const [m3, m2, median, p2, p3] = getGrowthReference(indicator, gender, age)
+    return { age, m3, m2, median, p2, p3 }
+  })
+}
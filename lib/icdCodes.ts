@@ -0,0 +1,315 @@
+/**
+ * Bundled Diagnosis Codes
+ * An ICD-10 (WHO) subset covering outpatient and primary care in Kenya, plus ICD-11 codes for the commonest
+ * conditions. Bundled so that coding works offline; extend the lists rather than fetching a code set.
+ */
+
+import type { IcdCode } from "../types"
+
+const icd10 = (entries: [string, string][]): IcdCode[] =>
+  entries.map(([code, title]) => ({ code, title, system: "ICD-10" }))
+
+export const ICD10_CODES: IcdCode[] = icd10([
+  // Infectious and parasitic diseases
+  ["A00.9", "Cholera, unspecified"],
+  ["A01.0", "Typhoid fever"],
+  ["A02.0", "Salmonella enteritis"],
+  ["A03.9", "Shigellosis, unspecified"],
+  ["A06.0", "Acute amoebic dysentery"],
+  ["A07.1", "Giardiasis"],
+  ["A08.4", "Viral intestinal infection, unspecified"],
+  ["A09", "Diarrhoea and gastroenteritis of presumed infectious origin"],
+  ["A15.0", "Tuberculosis of lung, confirmed by sputum microscopy"],
+  ["A16.2", "Tuberculosis of lung, without mention of bacteriological or histological confirmation"],
+  ["A18.2", "Tuberculous peripheral lymphadenopathy"],
+  ["A19.9", "Miliary tuberculosis, unspecified"],
+  ["A22.9", "Anthrax, unspecified"],
+  ["A23.9", "Brucellosis, unspecified"],
+  ["A33", "Tetanus neonatorum"],
+  ["A35", "Other tetanus"],
+  ["A36.9", "Diphtheria, unspecified"],
+  ["A37.9", "Whooping cough, unspecified"],
+  ["A39.0", "Meningococcal meningitis"],
+  ["A41.9", "Sepsis, unspecified"],
+  ["A46", "Erysipelas"],
+  ["A49.9", "Bacterial infection, unspecified"],
+  ["A51.0", "Primary genital syphilis"],
+  ["A53.9", "Syphilis, unspecified"],
+  ["A54.9", "Gonococcal infection, unspecified"],
+  ["A56.2", "Chlamydial infection of genitourinary tract, unspecified"],
+  ["A59.0", "Urogenital trichomoniasis"],
+  ["A60.0", "Herpesviral infection of genitalia and urogenital tract"],
+  ["A63.0", "Anogenital (venereal) warts"],
+  ["A64", "Unspecified sexually transmitted disease"],
+  ["A80.9", "Acute poliomyelitis, unspecified"],
+  ["A82.9", "Rabies, unspecified"],
+  ["A90", "Dengue fever [classical dengue]"],
+  ["A91", "Dengue haemorrhagic fever"],
+  ["A92.0", "Chikungunya virus disease"],
+  ["A92.4", "Rift Valley fever"],
+  ["A95.9", "Yellow fever, unspecified"],
+  ["A98.4", "Ebola virus disease"],
+  ["A99", "Unspecified viral haemorrhagic fever"],
+  ["B01.9", "Varicella without complication"],
+  ["B02.9", "Zoster without complication"],
+  ["B05.9", "Measles without complication"],
+  ["B08.1", "Molluscum contagiosum"],
+  ["B15.9", "Hepatitis A without hepatic coma"],
+  ["B16.9", "Acute hepatitis B without delta-agent and without hepatic coma"],
+  ["B18.1", "Chronic viral hepatitis B without delta-agent"],
+  ["B18.2", "Chronic viral hepatitis C"],
+  ["B19.9", "Unspecified viral hepatitis without hepatic coma"],
+  ["B20", "HIV disease resulting in infectious and parasitic diseases"],
+  ["B24", "Unspecified human immunodeficiency virus [HIV] disease"],
+  ["B26.9", "Mumps without complication"],
+  ["B34.9", "Viral infection, unspecified"],
+  ["B35.0", "Tinea barbae and tinea capitis"],
+  ["B35.4", "Tinea corporis"],
+  ["B35.3", "Tinea pedis"],
+  ["B36.0", "Pityriasis versicolor"],
+  ["B37.0", "Candidal stomatitis"],
+  ["B37.3", "Candidiasis of vulva and vagina"],
+  ["B50.9", "Plasmodium falciparum malaria, unspecified"],
+  ["B50.0", "Plasmodium falciparum malaria with cerebral complications"],
+  ["B51.9", "Plasmodium vivax malaria without complication"],
+  ["B53.0", "Plasmodium ovale malaria"],
+  ["B54", "Unspecified malaria"],
+  ["B55.0", "Visceral leishmaniasis"],
+  ["B55.1", "Cutaneous leishmaniasis"],
+  ["B56.9", "African trypanosomiasis, unspecified"],
+  ["B65.0", "Schistosomiasis due to Schistosoma haematobium [urinary schistosomiasis]"],
+  ["B65.1", "Schistosomiasis due to Schistosoma mansoni [intestinal schistosomiasis]"],
+  ["B67.9", "Echinococcosis, other and unspecified"],
+  ["B68.9", "Taeniasis, unspecified"],
+  ["B76.9", "Hookworm disease, unspecified"],
+  ["B77.9", "Ascariasis, unspecified"],
+  ["B79", "Trichuriasis"],
+  ["B80", "Enterobiasis"],
+  ["B82.9", "Intestinal parasitism, unspecified"],
+  ["B86", "Scabies"],
+  ["B88.1", "Tungiasis [sandflea infestation]"],
+  // Neoplasms
+  ["C16.9", "Malignant neoplasm of stomach, unspecified"],
+  ["C15.9", "Malignant neoplasm of oesophagus, unspecified"],
+  ["C22.0", "Liver cell carcinoma"],
+  ["C34.9", "Malignant neoplasm of bronchus or lung, unspecified"],
+  ["C46.9", "Kaposi sarcoma, unspecified"],
+  ["C50.9", "Malignant neoplasm of breast, unspecified"],
+  ["C53.9", "Malignant neoplasm of cervix uteri, unspecified"],
+  ["C61", "Malignant neoplasm of prostate"],
+  ["C80.9", "Malignant neoplasm, primary site unspecified"],
+  ["D25.9", "Leiomyoma of uterus, unspecified"],
+  // Blood and nutrition
+  ["D50.9", "Iron deficiency anaemia, unspecified"],
+  ["D53.9", "Nutritional anaemia, unspecified"],
+  ["D57.1", "Sickle-cell anaemia without crisis"],
+  ["D57.0", "Sickle-cell anaemia with crisis"],
+  ["D64.9", "Anaemia, unspecified"],
+  ["E03.9", "Hypothyroidism, unspecified"],
+  ["E04.9", "Nontoxic goitre, unspecified"],
+  ["E05.9", "Thyrotoxicosis, unspecified"],
+  ["E10.9", "Type 1 diabetes mellitus without complications"],
+  ["E11.9", "Type 2 diabetes mellitus without complications"],
+  ["E11.6", "Type 2 diabetes mellitus with other specified complications"],
+  ["E14.9", "Unspecified diabetes mellitus without complications"],
+  ["E16.2", "Hypoglycaemia, unspecified"],
+  ["E40", "Kwashiorkor"],
+  ["E41", "Nutritional marasmus"],
+  ["E43", "Unspecified severe protein-energy malnutrition"],
+  ["E44.0", "Moderate protein-energy malnutrition"],
+  ["E46", "Unspecified protein-energy malnutrition"],
+  ["E55.0", "Rickets, active"],
+  ["E66.9", "Obesity, unspecified"],
+  ["E78.5", "Hyperlipidaemia, unspecified"],
+  ["E86", "Volume depletion"],
+  // Mental, neurological, eye and ear
+  ["F10.2", "Mental and behavioural disorders due to use of alcohol: dependence syndrome"],
+  ["F20.9", "Schizophrenia, unspecified"],
+  ["F31.9", "Bipolar affective disorder, unspecified"],
+  ["F32.9", "Depressive episode, unspecified"],
+  ["F41.1", "Generalized anxiety disorder"],
+  ["F41.9", "Anxiety disorder, unspecified"],
+  ["F84.0", "Childhood autism"],
+  ["G00.9", "Bacterial meningitis, unspecified"],
+  ["G03.9", "Meningitis, unspecified"],
+  ["G40.9", "Epilepsy, unspecified"],
+  ["G43.9", "Migraine, unspecified"],
+  ["G44.2", "Tension-type headache"],
+  ["G51.0", "Bell palsy"],
+  ["G61.0", "Guillain-Barré syndrome"],
+  ["G62.9", "Polyneuropathy, unspecified"],
+  ["G80.9", "Cerebral palsy, unspecified"],
+  ["G91.9", "Hydrocephalus, unspecified"],
+  ["H00.0", "Hordeolum and other deep inflammation of eyelid"],
+  ["H10.9", "Conjunctivitis, unspecified"],
+  ["H10.1", "Acute atopic conjunctivitis"],
+  ["H25.9", "Senile cataract, unspecified"],
+  ["H40.9", "Glaucoma, unspecified"],
+  ["H52.4", "Presbyopia"],
+  ["H60.9", "Otitis externa, unspecified"],
+  ["H61.2", "Impacted cerumen"],
+  ["H65.9", "Nonsuppurative otitis media, unspecified"],
+  ["H66.9", "Otitis media, unspecified"],
+  ["H66.3", "Other chronic suppurative otitis media"],
+  // Circulatory
+  ["I05.9", "Mitral valve disease, unspecified"],
+  ["I10", "Essential (primary) hypertension"],
+  ["I11.9", "Hypertensive heart disease without (congestive) heart failure"],
+  ["I20.9", "Angina pectoris, unspecified"],
+  ["I21.9", "Acute myocardial infarction, unspecified"],
+  ["I48", "Atrial fibrillation and flutter"],
+  ["I50.9", "Heart failure, unspecified"],
+  ["I64", "Stroke, not specified as haemorrhage or infarction"],
+  ["I83.9", "Varicose veins of lower extremities without ulcer or inflammation"],
+  ["I84.9", "Unspecified haemorrhoids without complication"],
+  // Respiratory
+  ["J00", "Acute nasopharyngitis [common cold]"],
+  ["J01.9", "Acute sinusitis, unspecified"],
+  ["J02.9", "Acute pharyngitis, unspecified"],
+  ["J03.9", "Acute tonsillitis, unspecified"],
+  ["J04.0", "Acute laryngitis"],
+  ["J06.9", "Acute upper respiratory infection, unspecified"],
+  ["J10.1", "Influenza with other respiratory manifestations, seasonal influenza virus identified"],
+  ["J11.1", "Influenza with other respiratory manifestations, virus not identified"],
+  ["J15.9", "Bacterial pneumonia, unspecified"],
+  ["J18.9", "Pneumonia, unspecified"],
+  ["J20.9", "Acute bronchitis, unspecified"],
+  ["J21.9", "Acute bronchiolitis, unspecified"],
+  ["J22", "Unspecified acute lower respiratory infection"],
+  ["J30.4", "Allergic rhinitis, unspecified"],
+  ["J32.9", "Chronic sinusitis, unspecified"],
+  ["J35.0", "Chronic tonsillitis"],
+  ["J44.9", "Chronic obstructive pulmonary disease, unspecified"],
+  ["J45.9", "Asthma, unspecified"],
+  ["J46", "Status asthmaticus"],
+  // Digestive and dental
+  ["K02.9", "Dental caries, unspecified"],
+  ["K04.7", "Periapical abscess without sinus"],
+  ["K05.1", "Chronic gingivitis"],
+  ["K08.8", "Other specified disorders of teeth and supporting structures"],
+  ["K12.0", "Recurrent oral aphthae"],
+  ["K21.9", "Gastro-oesophageal reflux disease without oesophagitis"],
+  ["K25.9", "Gastric ulcer, unspecified as acute or chronic, without haemorrhage or perforation"],
+  ["K29.7", "Gastritis, unspecified"],
+  ["K30", "Dyspepsia"],
+  ["K35.8", "Acute appendicitis, other and unspecified"],
+  ["K40.9", "Unilateral or unspecified inguinal hernia, without obstruction or gangrene"],
+  ["K52.9", "Noninfective gastroenteritis and colitis, unspecified"],
+  ["K59.0", "Constipation"],
+  ["K70.3", "Alcoholic cirrhosis of liver"],
+  ["K74.6", "Other and unspecified cirrhosis of liver"],
+  ["K80.2", "Calculus of gallbladder without cholecystitis"],
+  // Skin
+  ["L01.0", "Impetigo"],
+  ["L02.9", "Cutaneous abscess, furuncle and carbuncle, unspecified"],
+  ["L03.9", "Cellulitis, unspecified"],
+  ["L20.9", "Atopic dermatitis, unspecified"],
+  ["L23.9", "Allergic contact dermatitis, unspecified cause"],
+  ["L30.9", "Dermatitis, unspecified"],
+  ["L50.9", "Urticaria, unspecified"],
+  ["L70.0", "Acne vulgaris"],
+  ["L89.9", "Decubitus ulcer and pressure area, unspecified"],
+  // Musculoskeletal
+  ["M06.9", "Rheumatoid arthritis, unspecified"],
+  ["M10.9", "Gout, unspecified"],
+  ["M19.9", "Arthrosis, unspecified"],
+  ["M25.5", "Pain in joint"],
+  ["M54.5", "Low back pain"],
+  ["M54.2", "Cervicalgia"],
+  ["M79.1", "Myalgia"],
+  ["M86.9", "Osteomyelitis, unspecified"],
+  // Genitourinary
+  ["N10", "Acute tubulo-interstitial nephritis"],
+  ["N18.9", "Chronic kidney disease, unspecified"],
+  ["N20.0", "Calculus of kidney"],
+  ["N30.0", "Acute cystitis"],
+  ["N39.0", "Urinary tract infection, site not specified"],
+  ["N40", "Hyperplasia of prostate"],
+  ["N45.9", "Orchitis, epididymitis and epididymo-orchitis without abscess"],
+  ["N61", "Inflammatory disorders of breast"],
+  ["N70.9", "Salpingitis and oophoritis, unspecified"],
+  ["N73.9", "Female pelvic inflammatory disease, unspecified"],
+  ["N76.0", "Acute vaginitis"],
+  ["N82.0", "Vesicovaginal fistula"],
+  ["N92.0", "Excessive and frequent menstruation with regular cycle"],
+  ["N94.6", "Dysmenorrhoea, unspecified"],
+  ["N95.1", "Menopausal and female climacteric states"],
+  ["N97.9", "Female infertility, unspecified"],
+  // Pregnancy and perinatal
+  ["O03.9", "Spontaneous abortion, complete or unspecified, without complication"],
+  ["O06.9", "Unspecified abortion, complete or unspecified, without complication"],
+  ["O13", "Gestational [pregnancy-induced] hypertension"],
+  ["O14.9", "Pre-eclampsia, unspecified"],
+  ["O21.0", "Mild hyperemesis gravidarum"],
+  ["O23.4", "Unspecified infection of urinary tract in pregnancy"],
+  ["O24.4", "Diabetes mellitus arising in pregnancy"],
+  ["O98.6", "Protozoal diseases complicating pregnancy, childbirth and the puerperium"],
+  ["O99.0", "Anaemia complicating pregnancy, childbirth and the puerperium"],
+  ["P07.3", "Other preterm infants"],
+  ["P36.9", "Bacterial sepsis of newborn, unspecified"],
+  ["P59.9", "Neonatal jaundice, unspecified"],
+  // Congenital
+  ["Q03.9", "Congenital hydrocephalus, unspecified"],
+  ["Q05.9", "Spina bifida, unspecified"],
+  ["Q35.9", "Cleft palate, unspecified"],
+  ["Q66.0", "Talipes equinovarus"],
+  ["Q90.9", "Down syndrome, unspecified"],
+  // Symptoms and signs
+  ["R05", "Cough"],
+  ["R10.4", "Other and unspecified abdominal pain"],
+  ["R11", "Nausea and vomiting"],
+  ["R50.9", "Fever, unspecified"],
+  ["R51", "Headache"],
+  ["R53", "Malaise and fatigue"],
+  ["R56.0", "Febrile convulsions"],
+  ["R63.4", "Abnormal weight loss"],
+  // Injuries and poisoning
+  ["S01.9", "Open wound of head, part unspecified"],
+  ["S06.0", "Concussion"],
+  ["S52.5", "Fracture of lower end of radius"],
+  ["S61.9", "Open wound of wrist and hand, part unspecified"],
+  ["S81.9", "Open wound of lower leg, part unspecified"],
+  ["S93.4", "Sprain and strain of ankle"],
+  ["T14.0", "Superficial injury of unspecified body region"],
+  ["T14.1", "Open wound of unspecified body region"],
+  ["T14.2", "Fracture of unspecified body region"],
+  ["T15.9", "Foreign body on external eye, part unspecified"],
+  ["T30.0", "Burn of unspecified body region, unspecified degree"],
+  ["T39.1", "Poisoning: 4-Aminophenol derivatives"],
+  ["T51.9", "Toxic effect: Alcohol, unspecified"],
+  ["T60.0", "Toxic effect: Organophosphate and carbamate insecticides"],
+  ["T63.0", "Toxic effect: Snake venom"],
+  ["T63.4", "Toxic effect: Venom of other arthropods"],
+  ["T65.9", "Toxic effect: Unspecified substance"],
+  ["T74.2", "Sexual abuse"],
+  ["T78.4", "Allergy, unspecified"],
+  ["V89.2", "Person injured in motor-vehicle accident, traffic, unspecified"],
+  ["W54", "Bitten or struck by dog"],
+  ["W55", "Bitten or struck by other mammals"],
+  ["W57", "Bitten or stung by nonvenomous insect and other nonvenomous arthropods"],
+  ["X20", "Contact with venomous snakes and lizards"],
+  ["Y09", "Assault by unspecified means"],
+  // Encounters
+  ["Z00.0", "General medical examination"],
+  ["Z00.1", "Routine child health examination"],
+  ["Z30.0", "General counselling and advice on contraception"],
+  ["Z34.9", "Supervision of normal pregnancy, unspecified"],
+  ["Z39.2", "Routine postpartum follow-up"],
+  ["Z71.7", "Human immunodeficiency virus [HIV] counselling"],
+])
+
+// ICD-11 (MMS) codes carry their ICD-10 equivalent so that they map to the same MOH 705 rows
+export const ICD11_CODES: IcdCode[] = [
+  { code: "1F40", title: "Malaria due to Plasmodium falciparum", system: "ICD-11", icd10: "B50" },
+  { code: "1F4Z", title: "Malaria, unspecified", system: "ICD-11", icd10: "B54" },
+  { code: "1B10", title: "Tuberculosis of the respiratory system", system: "ICD-11", icd10: "A16" },
+  { code: "BA00", title: "Essential hypertension", system: "ICD-11", icd10: "I10" },
+  { code: "5A10", title: "Type 1 diabetes mellitus", system: "ICD-11", icd10: "E10" },
+  { code: "5A11", title: "Type 2 diabetes mellitus", system: "ICD-11", icd10: "E11" },
+  { code: "CA03", title: "Acute tonsillitis", system: "ICD-11", icd10: "J03" },
+  { code: "CA40", title: "Pneumonia", system: "ICD-11", icd10: "J18" },
+  { code: "CA23", title: "Asthma", system: "ICD-11", icd10: "J45" },
+  { code: "GC08", title: "Urinary tract infection, site not specified", system: "ICD-11", icd10: "N39.0" },
+  { code: "3A00", title: "Iron deficiency anaemia", system: "ICD-11", icd10: "D50" },
+  { code: "6A70", title: "Single episode depressive disorder", system: "ICD-11", icd10: "F32" },
+]
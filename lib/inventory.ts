@@ -0,0 +1,131 @@
+/**
+ * Inventory Lot Utilities
+ * Lot (batch) bookkeeping and first-expiry-first-out (FEFO) allocation
+ */
+
+import type { InventoryBatch, InventoryItem, PrescriptionItem } from "../types"
+
+const DAY_MS = 1000 * 60 * 60 * 24
+
+export interface BatchAllocation {
+  batchId: string
+  batchNumber?: string
+  expiryDate?: string
+  quantity: number
+}
+
+export interface FefoResult {
+  batches: InventoryBatch[]
+  allocations: BatchAllocation[]
+  shortfall: number
+}
+
+export function isBatchExpired(batch: Pick<InventoryBatch, "expiryDate">, now: Date = new Date()): boolean {
+  if (!batch.expiryDate) return false
+  return new Date(batch.expiryDate) < now
+}
+
+export function isBatchExpiringSoon(
+  batch: Pick<InventoryBatch, "expiryDate">,
+  withinDays: number = 30,
+  now: Date = new Date(),
+): boolean {
+  if (!batch.expiryDate) return false
+  const days = (new Date(batch.expiryDate).getTime() - now.getTime()) / DAY_MS
+  return days <= withinDays && days > 0
+}
+
+/**
+ * Returns the lots of an item. Items saved before lot tracking carry a single
+ * batchNumber/expiryDate, which is presented as one lot holding the whole stock.
+ */
+export function getItemBatches(item: InventoryItem): InventoryBatch[] {
+  if (item.batches && item.batches.length > 0) return item.batches
+  if (item.stock <= 0) return []
+
+  return [
+    {
+      id: `legacy-${item.id}`,
+      batchNumber: item.batchNumber,
+      quantity: item.stock,
+      expiryDate: item.expiryDate,
+      supplierId: item.supplierId,
+      receivedAt: new Date(0).toISOString(),
+    },
+  ]
+}
+
+/**
+ * Lots with stock in dispensing order: earliest expiry first, undated lots last,
+ * ties broken by the order they were received.
+ */
+export function sortBatchesFefo(batches: InventoryBatch[]): InventoryBatch[] {
+  return batches
+    .filter((b) => b.quantity > 0)
+    .sort((a, b) => {
+      const aExpiry = a.expiryDate ? new Date(a.expiryDate).getTime() : Number.MAX_SAFE_INTEGER
+      const bExpiry = b.expiryDate ? new Date(b.expiryDate).getTime() : Number.MAX_SAFE_INTEGER
+      if (aExpiry !== bExpiry) return aExpiry - bExpiry
+      return new Date(a.receivedAt).getTime() - new Date(b.receivedAt).getTime()
+    })
+}
+
+/**
+ * Draws `quantity` units from the item's lots, first-expiring lot first.
+ * Expired lots are never drawn from; whatever cannot be covered is returned as shortfall.
+ */
+export function allocateFefo(item: InventoryItem, quantity: number, now: Date = new Date()): FefoResult {
+  const batches = getItemBatches(item).map((b) => ({ ...b }))
+  const allocations: BatchAllocation[] = []
+  let remaining = Math.max(0, quantity)
+
+  for (const lot of sortBatchesFefo(batches)) {
+    if (remaining === 0) break
+    if (isBatchExpired(lot, now)) continue
+
+    const taken = Math.min(lot.quantity, remaining)
+    const target = batches.find((b) => b.id === lot.id)!
+    target.quantity -= taken
+    remaining -= taken
+    allocations.push({ batchId: lot.id, batchNumber: lot.batchNumber, expiryDate: lot.expiryDate, quantity: taken })
+  }
+
+  return { batches, allocations, shortfall: remaining }
+}
+
+/**
+ * Returns a copy of the item with the given lots, recomputing stock and the
+ * legacy batchNumber/expiryDate fields from the next lot to expire.
+ */
+export function withBatches(item: InventoryItem, batches: InventoryBatch[]): InventoryItem {
+  const active = sortBatchesFefo(batches)
+  const next = active[0]
+
+  return {
+    ...item,
+    batches: batches.filter((b) => b.quantity > 0),
+    stock: active.reduce((sum, b) => sum + b.quantity, 0),
+    batchNumber: next?.batchNumber,
+    expiryDate: next?.expiryDate,
+  }
+}
+
+export function createBatch(fields: Omit<InventoryBatch, "id" | "receivedAt"> & { receivedAt?: string }): InventoryBatch {
+  return {
+    ...fields,
+    id: `LOT${Date.now()}${Math.floor(Math.random() * 1000)}`,
+    receivedAt: fields.receivedAt || new Date().toISOString(),
+  }
+}
+
+// One line per stocked item and dosage, so an item that appears twice with the same directions is shown once
+// with the combined quantity; different dosages stay on their own lines
+export function mergePrescriptionLines(items: PrescriptionItem[]): PrescriptionItem[] {
+  const merged = new Map<string, PrescriptionItem>()
+  for (const item of items) {
+    const key = `${item.inventoryId || item.name}|${(item.dosage || "").trim().toLowerCase()}`
+    const existing = merged.get(key)
+    merged.set(key, existing ? { ...existing, quantity: existing.quantity + item.quantity } : item)
+  }
+  return Array.from(merged.values())
+}
@@ -0,0 +1,311 @@
+/**
+ * Lab Analyser Interface
+ * Reads HL7 v2 ORU^R01 and ASTM E1394 result messages, matches them to lab orders by accession number
+ * and stages the values on the order until a lab tech accepts them
+ */
+
+import type { LabAnalyte, LabOrder, LabStagedImport, LabTestProfile, Patient, Visit } from "../types"
+import { applyLabResults, resolveLabTest } from "./labResults"
+import { moveSpecimen } from "./labSpecimens"
+
+export interface AnalyserObservation {
+  codes: string[] // Analyser code first, then any alternate code (e.g. LOINC) sent with it
+  name?: string
+  value: string
+  unit?: string
+  referenceRange?: string
+  abnormalFlag?: string
+}
+
+// The results for one specimen, from one OBR (HL7) or O (ASTM) record
+export interface AnalyserResultSet {
+  format: "HL7" | "ASTM"
+  specimenIds: string[] // Every id the message gives for the specimen; any may be our accession number
+  instrument?: string
+  messageId?: string
+  observedAt?: string
+  observations: AnalyserObservation[]
+}
+
+// Results the analyser could not produce or has withdrawn
+const SKIPPED_RESULT_STATUSES = ["X", "D", "W", "I"]
+
+const unique = (ids: string[]) => [...new Set(ids.map((id) => id.trim()).filter(Boolean))]
+
+// "20261019143000" → ISO; HL7 and ASTM use the same timestamp form
+function parseTimestamp(value?: string): string | undefined {
+  const m = value?.match(/^(\d{4})(\d{2})(\d{2})(\d{2})?(\d{2})?(\d{2})?/)
+  if (!m) return undefined
+  const [, y, mo, d, h = "0", mi = "0", s = "0"] = m
+  return new Date(+y, +mo - 1, +d, +h, +mi, +s).toISOString()
+}
+
+export function detectAnalyserFormat(text: string): "HL7" | "ASTM" | undefined {
+  if (/(^|[\r\n\x0b])MSH\S/.test(text)) return "HL7"
+  if (/(^|[\r\n]|\x02\d)H\S/.test(text)) return "ASTM"
+  return undefined
+}
+
+/**
+ * HL7 v2 ORU^R01. A file may hold several messages; messages of other types (e.g. ACKs) are skipped.
+ * The specimen is looked for in OBR-2 (placer), OBR-3 (filler) and SPM-2.
+ */
+export function parseHl7Oru(text: string): AnalyserResultSet[] {
+  const sets: AnalyserResultSet[] = []
+  const segments = text.replace(/[\x0b\x1c]/g, "").split(/\r\n|\r|\n/).filter((s) => s.trim())
+  let fs = "|"
+  let cs = "^"
+  let rs = "~"
+  let ss = "&"
+  let esc = "\\"
+  let header: Pick<AnalyserResultSet, "instrument" | "messageId" | "observedAt"> | null = null
+  let current: AnalyserResultSet | null = null
+
+  const unescape = (value: string) =>
+    value
+      .split(`${esc}F${esc}`).join(fs)
+      .split(`${esc}S${esc}`).join(cs)
+      .split(`${esc}T${esc}`).join(ss)
+      .split(`${esc}R${esc}`).join(rs)
+      .split(`${esc}.br${esc}`).join(" ")
+      .split(`${esc}E${esc}`).join(esc)
+  const components = (field = "") => field.split(cs)
+  const first = (field = "") => unescape(components(field)[0].split(ss)[0])
+
+  for (const segment of segments) {
+    const type = segment.slice(0, 3)
+    if (type === "MSH") {
+      fs = segment[3]
+      // MSH-1 is the separator itself, so MSH-n is at index n - 1
+      const fields = segment.split(fs)
+      const encoding = fields[1] || ""
+      cs = encoding[0] || "^"
+      rs = encoding[1] || "~"
+      esc = encoding[2] || "\\"
+      ss = encoding[3] || "&"
+      const messageType = components(fields[8])
+      header = messageType[0] === "ORU" && messageType[1] === "R01"
+        ? { instrument: first(fields[2]) || undefined, messageId: fields[9] || undefined, observedAt: parseTimestamp(fields[6]) }
+        : null
+      current = null
+      continue
+    }
+    if (!header) continue
+    const fields = segment.split(fs)
+
+    if (type === "OBR" || (type === "OBX" && !current)) {
+      current = { format: "HL7", specimenIds: [], ...header, observations: [] }
+      sets.push(current)
+    }
+    if (!current) continue
+
+    if (type === "OBR") {
+      current.specimenIds = unique([first(fields[2]), first(fields[3])])
+      current.observedAt = parseTimestamp(fields[7]) || current.observedAt
+    } else if (type === "SPM") {
+      const ids = components(fields[2]).map((c) => unescape(c.split(ss)[0]))
+      current.specimenIds = unique([...current.specimenIds, ...ids])
+    } else if (type === "OBX") {
+      if (SKIPPED_RESULT_STATUSES.includes(fields[11])) continue
+      const id = components(fields[3])
+      // Coded values carry their text in the second component; numbers like "<^0.5" are joined back up
+      const value = (fields[5] || "")
+        .split(rs)
+        .map((rep) => {
+          const parts = components(rep).map(unescape)
+          return fields[2] === "CE" || fields[2] === "CWE" ? parts[1] || parts[0] : parts.join("")
+        })
+        .filter(Boolean)
+        .join(", ")
+      current.observations.push({
+        codes: unique([unescape(id[0] || ""), unescape(id[3] || "")]),
+        name: id[1] ? unescape(id[1]) : undefined,
+        value,
+        unit: first(fields[6]) || undefined,
+        referenceRange: fields[7] ? unescape(fields[7]) : undefined,
+        abnormalFlag: fields[8] || undefined,
+      })
+      current.observedAt = parseTimestamp(fields[14]) || current.observedAt
+    }
+  }
+  return sets.filter((set) => set.observations.length > 0)
+}
+
+// Joins the text of ASTM E1381 frames (<STX>n ... <ETB|ETX>cc) back into records
+function stripAstmFraming(text: string): string {
+  if (!text.includes("\x02")) return text
+  const frames = [...text.matchAll(/\x02[0-7]([^\x03\x17]*)[\x03\x17][0-9A-Fa-f]{2}/g)]
+  return frames.map((f) => f[1]).join("")
+}
+
+/**
+ * ASTM E1394 records (H, P, O, R, L), as saved by an analyser or captured by the listener.
+ * The specimen is looked for in O-3 (specimen id) and O-4 (instrument specimen id).
+ */
+export function parseAstm(text: string): AnalyserResultSet[] {
+  const sets: AnalyserResultSet[] = []
+  const records = stripAstmFraming(text).split(/\r\n|\r|\n/).filter((r) => r.trim())
+  let fs = "|"
+  let rs = "\\"
+  let cs = "^"
+  let header: Pick<AnalyserResultSet, "instrument" | "messageId" | "observedAt"> = {}
+  let current: AnalyserResultSet | null = null
+
+  const components = (field = "") => field.split(rs)[0].split(cs)
+  const firstFilled = (field = "") => components(field).find((c) => c.trim()) || ""
+
+  for (const record of records) {
+    const type = record[0]
+    if (type === "H") {
+      fs = record[1]
+      const fields = record.split(fs)
+      rs = fields[1]?.[0] || "\\"
+      cs = fields[1]?.[1] || "^"
+      header = {
+        instrument: components(fields[4]).filter(Boolean).join(" ") || undefined,
+        messageId: fields[2] || undefined,
+        observedAt: parseTimestamp(fields[13]),
+      }
+      current = null
+      continue
+    }
+    const fields = record.split(fs)
+    if (type === "O") {
+      current = {
+        format: "ASTM",
+        specimenIds: unique([components(fields[2])[0], components(fields[3])[0]]),
+        ...header,
+        observations: [],
+      }
+      sets.push(current)
+    } else if (type === "R" && current) {
+      if (SKIPPED_RESULT_STATUSES.includes(fields[8])) continue
+      // Universal test id "^^^WBC^..."; the local code is the fourth component
+      const id = components(fields[2])
+      current.observations.push({
+        codes: unique([id[3] || firstFilled(fields[2])]),
+        name: id[4] || undefined,
+        value: firstFilled(fields[3]),
+        unit: fields[4] || undefined,
+        referenceRange: fields[5] ? fields[5].replace(/\s+to\s+/i, " - ") : undefined,
+        abnormalFlag: fields[6] || undefined,
+      })
+      current.observedAt = parseTimestamp(fields[12]) || current.observedAt
+    }
+  }
+  return sets.filter((set) => set.observations.length > 0)
+}
+
+export function parseAnalyserMessage(text: string): AnalyserResultSet[] {
+  const format = detectAnalyserFormat(text)
+  if (!format) throw new Error("This is not an HL7 ORU^R01 or ASTM E1394 result message")
+  return format === "HL7" ? parseHl7Oru(text) : parseAstm(text)
+}
+
+const normalizeCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, "")
+
+function findAnalyte(test: LabTestProfile, observation: AnalyserObservation): LabAnalyte | undefined {
+  const codes = observation.codes.map(normalizeCode)
+  return (test.analytes || []).find(
+    (analyte) =>
+      [analyte.code, ...(analyte.analyserCodes || [])].some((code) => codes.includes(normalizeCode(code))) ||
+      (!!observation.name && normalizeCode(analyte.name) === normalizeCode(observation.name)),
+  )
+}
+
+// Choice results are stored as the catalogue spells them, e.g. "POSITIVE" → "Positive"
+function toAnalyteValue(analyte: LabAnalyte, value: string): string {
+  if (analyte.type !== "option") return value
+  return (analyte.options || []).find((o) => o.toLowerCase() === value.toLowerCase()) || value
+}
+
+export interface AnalyserMatch {
+  set: AnalyserResultSet
+  visit?: Visit
+  order?: LabOrder
+  test?: LabTestProfile
+  values: Record<string, string>
+  unmatchedCodes: string[]
+  problem?: string // Why the results cannot be staged
+}
+
+/**
+ * Finds the order for each result set by accession number and maps its observations to the test's analytes.
+ * A set whose ids match more than one order is left unmatched for the lab to resolve by hand, since
+ * staging it against the wrong patient is worse than not staging it.
+ */
+export function matchAnalyserResults(sets: AnalyserResultSet[], visits: Visit[], labTests: LabTestProfile[]): AnalyserMatch[] {
+  return sets.map((set) => {
+    const ids = set.specimenIds.map((id) => id.toUpperCase())
+    const candidates = visits.flatMap((v) =>
+      v.labOrders
+        .filter((o) => !!o.specimen && ids.includes(o.specimen.accessionNumber.toUpperCase()))
+        .map((o) => ({ visit: v, order: o })),
+    )
+    if (candidates.length === 0) {
+      return { set, values: {}, unmatchedCodes: [], problem: `No lab order has accession ${set.specimenIds.join(" / ") || "(none sent)"}` }
+    }
+    if (candidates.length > 1) {
+      const orders = candidates.map((c) => `${c.order.testName} for ${c.visit.patientName} (${c.order.specimen!.accessionNumber})`)
+      return { set, values: {}, unmatchedCodes: [], problem: `Matches more than one order, enter by hand: ${orders.join(", ")}` }
+    }
+    const { visit, order } = candidates[0]
+
+    const test = resolveLabTest(labTests.find((t) => t.id === order.testId))
+    const values: Record<string, string> = {}
+    const unmatchedCodes: string[] = []
+    for (const observation of set.observations) {
+      if (!test?.analytes?.length) {
+        // Tests without analytes take the lot as free text
+        values[observation.codes[0] || observation.name || "Result"] = [observation.value, observation.unit].filter(Boolean).join(" ")
+        continue
+      }
+      const analyte = findAnalyte(test, observation)
+      if (analyte) values[analyte.code] = toAnalyteValue(analyte, observation.value)
+      else unmatchedCodes.push(observation.codes[0] || observation.name || "?")
+    }
+
+    const status = order.specimen!.status
+    const problem =
+      status === "verified"
+        ? `${order.testName} for ${visit.patientName} is already verified`
+        : status === "rejected"
+          ? `The ${order.testName} specimen for ${visit.patientName} was rejected`
+          : Object.keys(values).length === 0
+            ? `None of the results match the ${order.testName} analytes`
+            : undefined
+    return { set, visit, order, test, values, unmatchedCodes, problem }
+  })
+}
+
+/**
+ * Holds the matched values on the order for the lab tech and puts the specimen in process, since the
+ * analyser has run it. Staged values are not results until accepted and verified.
+ */
+export function stageAnalyserResults(order: LabOrder, match: AnalyserMatch, byName?: string, now: Date = new Date()): LabOrder {
+  let staged = order
+  if (staged.specimen?.status === "collected") staged = moveSpecimen(staged, "received", byName, undefined, now)
+  if (staged.specimen?.status === "received") staged = moveSpecimen(staged, "in-process", byName, undefined, now)
+  const stagedImport: LabStagedImport = {
+    receivedAt: now.toISOString(),
+    format: match.set.format,
+    instrument: match.set.instrument,
+    messageId: match.set.messageId,
+    values: match.values,
+    unmatchedCodes: match.unmatchedCodes.length > 0 ? match.unmatchedCodes : undefined,
+    importedByName: byName,
+  }
+  return { ...staged, stagedImport }
+}
+
+// Copies staged values into the order's results, over any typed in by hand
+export function acceptStagedImport(order: LabOrder, test: LabTestProfile | undefined, patient?: Patient): LabOrder {
+  const staged = order.stagedImport
+  if (!staged) return order
+  if (!test?.analytes?.length) {
+    const result = Object.entries(staged.values).map(([code, value]) => `${code} ${value}`).join(", ")
+    return { ...order, stagedImport: undefined, result, status: "Completed", completedAt: order.completedAt || new Date().toISOString() }
+  }
+  const entered = Object.fromEntries((order.results || []).map((r) => [r.code, r.value]))
+  return { ...applyLabResults(order, test, { ...entered, ...staged.values }, patient), stagedImport: undefined }
+}
@@ -0,0 +1,334 @@
+/**
+ * Lab Results
+ * Starter test catalogue with analytes and reference ranges, and the high/low/critical flags on entered results
+ */
+
+import { Gender } from "../types"
+import type { LabAnalyte, LabAnalyteResult, LabOrder, LabReferenceRange, LabResultFlag, LabTestProfile, Patient, Visit } from "../types"
+import { patientAgeInMonths } from "./vitals"
+
+const CHILD_MONTHS = 144 // Under 12 years
+
+// Common adult ranges for an outpatient lab; the clinic should replace them with its analyser's ranges
+export const STARTER_LAB_TESTS: LabTestProfile[] = [
+  {
+    id: "starter-fbc",
+    name: "Full Blood Count",
+    code: "FBC",
+    category: "Hematology",
+    price: 800,
+    specimenType: "EDTA whole blood",
+    turnaroundMinutes: 60,
+    builtIn: true,
+    analytes: [
+      {
+        code: "HGB",
+        name: "Haemoglobin",
+        unit: "g/dL",
+        type: "numeric",
+        decimals: 1,
+        ranges: [
+          { maxAgeMonths: 6, low: 10.0, high: 18.0, criticalLow: 7.0, criticalHigh: 22.0 },
+          { minAgeMonths: 6, maxAgeMonths: 60, low: 11.0, high: 14.0, criticalLow: 7.0, criticalHigh: 20.0 },
+          { minAgeMonths: 60, maxAgeMonths: CHILD_MONTHS, low: 11.5, high: 15.5, criticalLow: 7.0, criticalHigh: 20.0 },
+          { sex: "male", low: 13.0, high: 17.0, criticalLow: 7.0, criticalHigh: 20.0 },
+          { sex: "female", low: 12.0, high: 15.5, criticalLow: 7.0, criticalHigh: 20.0 },
+        ],
+      },
+      {
+        code: "WBC",
+        name: "White Cell Count",
+        unit: "x10^9/L",
+        type: "numeric",
+        decimals: 1,
+        ranges: [
+          { maxAgeMonths: CHILD_MONTHS, low: 5.0, high: 15.0, criticalLow: 2.0, criticalHigh: 30.0 },
+          { low: 4.0, high: 11.0, criticalLow: 2.0, criticalHigh: 30.0 },
+        ],
+      },
+      {
+        code: "PLT",
+        name: "Platelets",
+        unit: "x10^9/L",
+        type: "numeric",
+        decimals: 0,
+        ranges: [{ low: 150, high: 400, criticalLow: 50, criticalHigh: 1000 }],
+      },
+    ],
+  },
+  {
+    id: "starter-mrdt",
+    name: "Malaria RDT",
+    code: "MRDT",
+    category: "Parasitology",
+    price: 300,
+    specimenType: "Capillary blood",
+    turnaroundMinutes: 30,
+    builtIn: true,
+    analytes: [
+      { code: "MRDT", name: "Malaria antigen", unit: "", type: "option", options: ["Negative", "Positive"], normalOptions: ["Negative"], ranges: [] },
+    ],
+  },
+  {
+    id: "starter-bs-mps",
+    name: "Blood Slide for Malaria Parasites",
+    code: "BSMPS",
+    category: "Parasitology",
+    price: 300,
+    specimenType: "EDTA whole blood",
+    turnaroundMinutes: 60,
+    builtIn: true,
+    analytes: [
+      {
+        code: "MPS",
+        name: "Malaria parasites",
+        unit: "",
+        type: "option",
+        options: ["Not seen", "+", "++", "+++"],
+        normalOptions: ["Not seen"],
+        ranges: [],
+      },
+    ],
+  },
+  {
+    id: "starter-rbs",
+    name: "Random Blood Sugar",
+    code: "RBS",
+    category: "Biochemistry",
+    price: 200,
+    specimenType: "Capillary blood",
+    turnaroundMinutes: 15,
+    builtIn: true,
+    analytes: [
+      { code: "GLU", name: "Glucose", unit: "mmol/L", type: "numeric", decimals: 1, ranges: [{ low: 3.9, high: 7.8, criticalLow: 2.5, criticalHigh: 25.0 }] },
+    ],
+  },
+  {
+    id: "starter-hba1c",
+    name: "HbA1c",
+    code: "HBA1C",
+    category: "Biochemistry",
+    price: 1500,
+    specimenType: "EDTA whole blood",
+    turnaroundMinutes: 120,
+    builtIn: true,
+    analytes: [{ code: "HBA1C", name: "HbA1c", unit: "%", type: "numeric", decimals: 1, ranges: [{ low: 4.0, high: 5.6 }] }],
+  },
+  {
+    id: "starter-uec",
+    name: "Urea, Electrolytes & Creatinine",
+    code: "UEC",
+    category: "Biochemistry",
+    price: 1500,
+    specimenType: "Serum",
+    turnaroundMinutes: 240,
+    builtIn: true,
+    analytes: [
+      {
+        code: "NA",
+        name: "Sodium",
+        unit: "mmol/L",
+        type: "numeric",
+        decimals: 0,
+        ranges: [{ low: 135, high: 145, criticalLow: 120, criticalHigh: 160 }],
+      },
+      {
+        code: "K",
+        name: "Potassium",
+        unit: "mmol/L",
+        type: "numeric",
+        decimals: 1,
+        ranges: [{ low: 3.5, high: 5.1, criticalLow: 2.5, criticalHigh: 6.5 }],
+      },
+      { code: "UREA", name: "Urea", unit: "mmol/L", type: "numeric", decimals: 1, ranges: [{ low: 2.5, high: 7.8, criticalHigh: 35 }] },
+      {
+        code: "CREA",
+        name: "Creatinine",
+        unit: "umol/L",
+        type: "numeric",
+        decimals: 0,
+        ranges: [
+          { maxAgeMonths: CHILD_MONTHS, low: 27, high: 62, criticalHigh: 300 },
+          { sex: "male", low: 62, high: 106, criticalHigh: 500 },
+          { sex: "female", low: 44, high: 80, criticalHigh: 500 },
+        ],
+      },
+    ],
+  },
+  {
+    id: "starter-hiv",
+    name: "HIV Rapid Test",
+    code: "HIV",
+    category: "Serology",
+    price: 300,
+    specimenType: "Capillary blood",
+    turnaroundMinutes: 30,
+    builtIn: true,
+    analytes: [
+      { code: "HIV", name: "HIV 1/2 antibody", unit: "", type: "option", options: ["Non-reactive", "Reactive"], normalOptions: ["Non-reactive"], ranges: [] },
+    ],
+  },
+  {
+    id: "starter-urinalysis",
+    name: "Urinalysis",
+    code: "URINE",
+    category: "Urinalysis",
+    price: 400,
+    specimenType: "Urine",
+    turnaroundMinutes: 45,
+    builtIn: true,
+    analytes: [
+      { code: "UPRO", name: "Protein", unit: "", type: "option", options: ["Negative", "Trace", "+", "++", "+++"], normalOptions: ["Negative", "Trace"], ranges: [] },
+      { code: "UGLU", name: "Glucose", unit: "", type: "option", options: ["Negative", "Trace", "+", "++", "+++"], normalOptions: ["Negative"], ranges: [] },
+      { code: "UNIT", name: "Nitrite", unit: "", type: "option", options: ["Negative", "Positive"], normalOptions: ["Negative"], ranges: [] },
+      { code: "ULEU", name: "Leukocytes", unit: "", type: "option", options: ["Negative", "Trace", "+", "++", "+++"], normalOptions: ["Negative"], ranges: [] },
+    ],
+  },
+]
+
+// Printed next to a result; normal results have no flag
+export const LAB_FLAG_LABELS: Record<LabResultFlag, string> = {
+  normal: "",
+  low: "L",
+  high: "H",
+  "critical-low": "LL",
+  "critical-high": "HH",
+  abnormal: "A",
+}
+
+export const isCriticalFlag = (flag?: LabResultFlag) => flag === "critical-low" || flag === "critical-high"
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, "")
+
+/**
+ * Catalogue entries saved before tests had analytes, a specimen type or a turnaround target take them
+ * from the starter test with the same name or code, so they work without re-entering the catalogue.
+ */
+export function resolveLabTest(test: LabTestProfile | undefined): LabTestProfile | undefined {
+  if (!test || (test.analytes?.length && test.specimenType && test.turnaroundMinutes)) return test
+  const starter = STARTER_LAB_TESTS.find(
+    (s) => normalizeName(s.name) === normalizeName(test.name) || (!!test.code && s.code === test.code.toUpperCase()),
+  )
+  if (!starter) return test
+  return {
+    ...test,
+    analytes: test.analytes?.length ? test.analytes : starter.analytes,
+    specimenType: test.specimenType || starter.specimenType,
+    turnaroundMinutes: test.turnaroundMinutes || starter.turnaroundMinutes,
+  }
+}
+
+type PatientBasics = Pick<Patient, "gender" | "age" | "dateOfBirth">
+
+// First range that fits the patient; list sex- and age-specific ranges before the general one
+export function selectReferenceRange(analyte: LabAnalyte, patient?: PatientBasics, on?: string): LabReferenceRange | undefined {
+  const ageMonths = patientAgeInMonths(patient, on)
+  const sex = patient?.gender === Gender.Female ? "female" : patient?.gender === Gender.Male ? "male" : undefined
+  return analyte.ranges.find(
+    (range) =>
+      (!range.sex || range.sex === sex) &&
+      (range.minAgeMonths === undefined || (ageMonths !== undefined && ageMonths >= range.minAgeMonths)) &&
+      (range.maxAgeMonths === undefined || (ageMonths !== undefined && ageMonths < range.maxAgeMonths)),
+  )
+}
+
+export function formatReferenceRange(analyte: LabAnalyte, range?: LabReferenceRange): string {
+  if (analyte.type === "option") return analyte.normalOptions?.join(" / ") || ""
+  if (!range) return ""
+  const show = (n: number) => (analyte.decimals !== undefined ? n.toFixed(analyte.decimals) : String(n))
+  if (range.low !== undefined && range.high !== undefined) return `${show(range.low)} - ${show(range.high)}`
+  if (range.high !== undefined) return `< ${show(range.high)}`
+  if (range.low !== undefined) return `> ${show(range.low)}`
+  return ""
+}
+
+export function flagLabValue(analyte: LabAnalyte, value: string, range?: LabReferenceRange): LabResultFlag | undefined {
+  const text = value.trim()
+  if (!text) return undefined
+  if (analyte.type === "option") {
+    if (!analyte.normalOptions?.length) return undefined
+    return analyte.normalOptions.some((o) => o.toLowerCase() === text.toLowerCase()) ? "normal" : "abnormal"
+  }
+  // Results reported beyond the analyser's range, e.g. "<0.5" or ">33.3", are flagged on the bound
+  const n = parseFloat(text.replace(/^[<>]=?\s*/, ""))
+  if (!Number.isFinite(n) || !range) return undefined
+  if (range.criticalLow !== undefined && n <= range.criticalLow) return "critical-low"
+  if (range.criticalHigh !== undefined && n >= range.criticalHigh) return "critical-high"
+  if (range.low !== undefined && n < range.low) return "low"
+  if (range.high !== undefined && n > range.high) return "high"
+  return "normal"
+}
+
+/**
+ * Flags each analyte value for this patient and marks the order completed once every analyte
+ * has a result. `result` keeps a one-line summary for the places that show a single string.
+ */
+export function applyLabResults(order: LabOrder, test: LabTestProfile, values: Record<string, string>, patient?: PatientBasics): LabOrder {
+  const results: LabAnalyteResult[] = (test.analytes || []).map((analyte) => {
+    const value = (values[analyte.code] ?? "").trim()
+    const range = selectReferenceRange(analyte, patient, order.orderedAt)
+    return {
+      code: analyte.code,
+      name: analyte.name,
+      value,
+      unit: analyte.unit,
+      referenceRange: formatReferenceRange(analyte, range) || undefined,
+      flag: flagLabValue(analyte, value, range),
+    }
+  })
+  const complete = results.length > 0 && results.every((r) => r.value !== "")
+  return {
+    ...order,
+    results,
+    result: summarizeLabResults(results) || undefined,
+    status: complete ? "Completed" : "Pending",
+    completedAt: complete ? order.completedAt || new Date().toISOString() : undefined,
+  }
+}
+
+// "HGB 6.8 g/dL (LL), WBC 5.2 x10^9/L"
+export function summarizeLabResults(results: LabAnalyteResult[] = []): string {
+  return results
+    .filter((r) => r.value !== "")
+    .map((r) => {
+      const flag = r.flag ? LAB_FLAG_LABELS[r.flag] : ""
+      return `${r.code} ${r.value}${r.unit ? ` ${r.unit}` : ""}${flag ? ` (${flag})` : ""}`
+    })
+    .join(", ")
+}
+
+export const getCriticalResults = (order: LabOrder) => (order.results || []).filter((r) => isCriticalFlag(r.flag))
+
+export const hasCriticalResults = (order: LabOrder) => getCriticalResults(order).length > 0
+
+// Critical results the doctor has not yet acknowledged
+export const getUnacknowledgedCriticals = (visit: Visit) =>
+  visit.labOrders.filter((order) => order.criticalAlert && !order.criticalAlert.acknowledgedAt)
+
+// Problems that would make results unflaggable; shown before a catalogue test is saved
+export function getLabTestErrors(test: LabTestProfile): string[] {
+  const errors: string[] = []
+  const codes = new Set<string>()
+  for (const analyte of test.analytes || []) {
+    const label = analyte.name || analyte.code || "An analyte"
+    if (!analyte.code.trim() || !analyte.name.trim()) errors.push(`${label} needs a code and a name`)
+    if (codes.has(analyte.code.toUpperCase())) errors.push(`Analyte code ${analyte.code} is used twice`)
+    codes.add(analyte.code.toUpperCase())
+    if (analyte.type === "option" && !analyte.options?.length) errors.push(`${label} needs at least one result option`)
+    for (const range of analyte.ranges) {
+      if (range.low !== undefined && range.high !== undefined && range.low >= range.high) {
+        errors.push(`${label}: the low limit must be below the high limit`)
+      }
+      if (range.minAgeMonths !== undefined && range.maxAgeMonths !== undefined && range.minAgeMonths >= range.maxAgeMonths) {
+        errors.push(`${label}: the age band must start before it ends`)
+      }
+      if (range.criticalLow !== undefined && range.low !== undefined && range.criticalLow > range.low) {
+        errors.push(`${label}: the critical low must not be above the low limit`)
+      }
+      if (range.criticalHigh !== undefined && range.high !== undefined && range.criticalHigh < range.high) {
+        errors.push(`${label}: the critical high must not be below the high limit`)
+      }
+    }
+  }
+  return errors
+}
@@ -0,0 +1,133 @@
+/**
+ * Lab Specimens
+ * Accession numbers, the collected → received → in-process → verified workflow, rejections and turnaround times
+ */
+
+import type { LabOrder, LabSpecimen, LabSpecimenStatus, LabTestProfile } from "../types"
+
+export const DEFAULT_SPECIMEN_TYPE = "Whole blood"
+export const DEFAULT_TURNAROUND_MINUTES = 60
+
+export const SPECIMEN_STATUS_LABELS: Record<LabSpecimenStatus, string> = {
+  collected: "Collected",
+  received: "Received",
+  "in-process": "In Process",
+  verified: "Verified",
+  rejected: "Rejected",
+}
+
+// Reasons a specimen is unfit for testing; the order then needs a fresh sample
+export const SPECIMEN_REJECTION_REASONS = [
+  "Haemolysed",
+  "Clotted",
+  "Insufficient volume",
+  "Unlabelled or mislabelled",
+  "Wrong container",
+  "Leaking or broken container",
+  "Too long in transit",
+  "Other",
+]
+
+// Verified and rejected are final; a rejected order is recollected under a new accession number
+const SPECIMEN_TRANSITIONS: Record<LabSpecimenStatus, LabSpecimenStatus[]> = {
+  collected: ["received", "rejected"],
+  received: ["in-process", "rejected"],
+  "in-process": ["verified", "rejected"],
+  verified: [],
+  rejected: [],
+}
+
+export const canMoveSpecimen = (specimen: LabSpecimen | undefined, to: LabSpecimenStatus) =>
+  !!specimen && SPECIMEN_TRANSITIONS[specimen.status].includes(to)
+
+// Collects a specimen for the order under an accession number issued by the server, replacing a rejected one
+export function collectSpecimen(
+  order: LabOrder,
+  test: LabTestProfile | undefined,
+  accessionNumber: string,
+  byName?: string,
+  now: Date = new Date(),
+): LabOrder {
+  if (order.specimen && order.specimen.status !== "rejected") {
+    throw new Error(`${order.testName} already has specimen ${order.specimen.accessionNumber}`)
+  }
+  const at = now.toISOString()
+  const previous = order.specimen
+  const specimen: LabSpecimen = {
+    accessionNumber,
+    specimenType: test?.specimenType || previous?.specimenType || DEFAULT_SPECIMEN_TYPE,
+    status: "collected",
+    collectedAt: at,
+    collectedByName: byName,
+    history: [
+      ...(previous?.history || []),
+      { status: "collected", at, byName, note: previous ? `Recollected, replaces ${previous.accessionNumber}` : undefined },
+    ],
+  }
+  return { ...order, specimen }
+}
+
+/**
+ * Moves the order's specimen to the next status. Verifying needs every result entered; rejecting
+ * needs a reason and clears any results, which came from an unfit sample.
+ */
+export function moveSpecimen(
+  order: LabOrder,
+  to: LabSpecimenStatus,
+  byName?: string,
+  reason?: string,
+  now: Date = new Date(),
+): LabOrder {
+  const specimen = order.specimen
+  if (!specimen) throw new Error(`No specimen has been collected for ${order.testName}`)
+  if (!canMoveSpecimen(specimen, to)) {
+    throw new Error(`A ${SPECIMEN_STATUS_LABELS[specimen.status].toLowerCase()} specimen cannot be marked ${SPECIMEN_STATUS_LABELS[to].toLowerCase()}`)
+  }
+  if (to === "verified" && order.status !== "Completed") throw new Error(`Enter all ${order.testName} results before verifying`)
+  if (to === "verified" && order.stagedImport) throw new Error(`Accept or discard the analyser results for ${order.testName} first`)
+  if (to === "rejected" && !reason?.trim()) throw new Error("Choose a reason for rejecting the specimen")
+
+  const at = now.toISOString()
+  const moved: LabSpecimen = {
+    ...specimen,
+    status: to,
+    history: [...specimen.history, { status: to, at, byName, note: to === "rejected" ? reason!.trim() : undefined }],
+  }
+  if (to === "received") moved.receivedAt = at
+  if (to === "in-process") moved.startedAt = at
+  if (to === "verified") {
+    moved.verifiedAt = at
+    moved.verifiedByName = byName
+  }
+  if (to === "rejected") {
+    moved.rejectionReason = reason!.trim()
+    return { ...order, specimen: moved, status: "Pending", results: undefined, result: undefined, completedAt: undefined, stagedImport: undefined }
+  }
+  return { ...order, specimen: moved }
+}
+
+// Results can be entered once the lab has started on the specimen
+export const canEnterResults = (order: LabOrder) => order.specimen?.status === "in-process"
+
+// Verified or rejected: nothing more for the lab to do until a new sample is taken
+export const isLabWorkDone = (order: LabOrder) =>
+  order.specimen?.status === "verified" || order.specimen?.status === "rejected"
+
+export interface LabTurnaround {
+  elapsedMinutes: number
+  targetMinutes: number
+  breached: boolean
+}
+
+// Time from order to verified result (or to now, while outstanding) against the test's target
+export function getTurnaround(order: LabOrder, test?: LabTestProfile, now: Date = new Date()): LabTurnaround {
+  const end = order.specimen?.verifiedAt ? new Date(order.specimen.verifiedAt) : now
+  const elapsedMinutes = Math.max(0, Math.floor((end.getTime() - new Date(order.orderedAt).getTime()) / 60000))
+  const targetMinutes = test?.turnaroundMinutes || DEFAULT_TURNAROUND_MINUTES
+  // Rejected orders wait on a new sample, so the clock is not held against the lab
+  const breached = order.specimen?.status !== "rejected" && elapsedMinutes > targetMinutes
+  return { elapsedMinutes, targetMinutes, breached }
+}
+
+export const formatMinutes = (minutes: number) =>
+  minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, "0")}m`
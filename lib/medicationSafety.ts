@@ -0,0 +1,533 @@
+/**
+ * Medication Safety
+ * Prescribe-time checks against recorded allergies, therapeutic duplication, a bundled drug–drug
+ * interaction table and weight-based maximum doses for children
+ */
+
+import type { PrescriptionItem, PrescriptionOverride } from "../types"
+
+export type MedicationAlertKind = "allergy" | "duplicate" | "interaction" | "dose"
+
+// Block alerts stop the prescription until overridden with a reason; warnings are shown only
+export type MedicationAlertSeverity = "block" | "warning"
+
+export interface MedicationAlert {
+  key: string // Stable across re-checks, so an override keeps covering the same alert
+  kind: MedicationAlertKind
+  severity: MedicationAlertSeverity
+  drug: string // Prescription item name
+  message: string
+}
+
+export interface PrescribingContext {
+  allergies?: string[]
+  ageMonths?: number
+  weightKg?: number
+}
+
+// Children get weight-based dose checks, as for paediatric reference ranges
+const CHILD_MONTHS = 144
+
+const DRUG_CLASSES: Record<string, { label: string; duplication: boolean }> = {
+  penicillin: { label: "penicillins", duplication: true },
+  cephalosporin: { label: "cephalosporins", duplication: true },
+  macrolide: { label: "macrolides", duplication: true },
+  quinolone: { label: "fluoroquinolones", duplication: true },
+  tetracycline: { label: "tetracyclines", duplication: true },
+  sulfonamide: { label: "sulfonamides", duplication: true },
+  nitroimidazole: { label: "nitroimidazoles", duplication: true },
+  azole: { label: "azole antifungals", duplication: true },
+  act: { label: "artemisinin combinations", duplication: true },
+  nsaid: { label: "NSAIDs", duplication: true },
+  opioid: { label: "opioids", duplication: true },
+  benzodiazepine: { label: "benzodiazepines", duplication: true },
+  ssri: { label: "SSRIs", duplication: true },
+  "ace-inhibitor": { label: "ACE inhibitors", duplication: true },
+  arb: { label: "angiotensin receptor blockers", duplication: true },
+  statin: { label: "statins", duplication: true },
+  ppi: { label: "proton pump inhibitors", duplication: true },
+  "h2-blocker": { label: "H2 blockers", duplication: true },
+  corticosteroid: { label: "oral corticosteroids", duplication: true },
+  sulfonylurea: { label: "sulfonylureas", duplication: true },
+  antihistamine: { label: "antihistamines", duplication: true },
+  anticoagulant: { label: "anticoagulants", duplication: true },
+  antiplatelet: { label: "antiplatelets", duplication: false },
+  "potassium-sparing": { label: "potassium-sparing diuretics", duplication: false },
+  potassium: { label: "potassium supplements", duplication: false },
+  nitrate: { label: "nitrates", duplication: false },
+  "oral-contraceptive": { label: "oral contraceptives", duplication: true },
+  antacid: { label: "antacids", duplication: false },
+  iron: { label: "iron preparations", duplication: false },
+  xanthine: { label: "theophyllines", duplication: true },
+}
+
+interface PaediatricLimit {
+  mgPerKgDose?: number // Largest single dose
+  mgPerKgDay?: number
+  maxDailyMg?: number // Adult ceiling, which a child's dose must not pass either
+}
+
+interface AgeLimit {
+  months: number
+  severity: MedicationAlertSeverity
+  message: string
+}
+
+interface DrugProfile {
+  id: string // Generic name
+  names: string[] // Generic and brand names looked for in the inventory item name
+  classes: string[]
+  child?: PaediatricLimit
+  minAge?: AgeLimit
+}
+
+// Common outpatient drugs on the Kenya Essential Medicines List, with their usual brands
+const FORMULARY: DrugProfile[] = [
+  { id: "paracetamol", names: ["paracetamol", "acetaminophen", "panadol", "calpol"], classes: [], child: { mgPerKgDose: 15, mgPerKgDay: 60, maxDailyMg: 4000 } },
+  {
+    id: "ibuprofen",
+    names: ["ibuprofen", "brufen"],
+    classes: ["nsaid"],
+    child: { mgPerKgDose: 10, mgPerKgDay: 30, maxDailyMg: 2400 },
+    minAge: { months: 3, severity: "block", message: "Ibuprofen is not for infants under 3 months" },
+  },
+  { id: "diclofenac", names: ["diclofenac", "voltaren", "cataflam"], classes: ["nsaid"], child: { mgPerKgDose: 1, mgPerKgDay: 3, maxDailyMg: 150 } },
+  {
+    id: "aspirin",
+    names: ["aspirin", "acetylsalicylic", "ecotrin", "disprin"],
+    classes: ["nsaid", "antiplatelet"],
+    minAge: { months: 192, severity: "block", message: "Aspirin is not for under-16s (risk of Reye's syndrome)" },
+  },
+  { id: "meloxicam", names: ["meloxicam", "mobic"], classes: ["nsaid"] },
+  { id: "naproxen", names: ["naproxen"], classes: ["nsaid"] },
+  { id: "indomethacin", names: ["indomethacin", "indometacin"], classes: ["nsaid"] },
+  {
+    id: "codeine",
+    names: ["codeine"],
+    classes: ["opioid"],
+    minAge: { months: 144, severity: "block", message: "Codeine is not for under-12s (risk of respiratory depression)" },
+  },
+  {
+    id: "tramadol",
+    names: ["tramadol", "tramal"],
+    classes: ["opioid"],
+    minAge: { months: 144, severity: "block", message: "Tramadol is not for under-12s (risk of respiratory depression)" },
+  },
+  { id: "morphine", names: ["morphine"], classes: ["opioid"] },
+  { id: "pethidine", names: ["pethidine"], classes: ["opioid"] },
+  { id: "diazepam", names: ["diazepam", "valium"], classes: ["benzodiazepine"] },
+  { id: "amoxicillin", names: ["amoxicillin", "amoxycillin", "amoxil", "augmentin", "amoxiclav", "co-amoxiclav"], classes: ["penicillin"], child: { mgPerKgDose: 45, mgPerKgDay: 90, maxDailyMg: 3000 } },
+  { id: "ampicillin", names: ["ampicillin", "ampiclox"], classes: ["penicillin"] },
+  { id: "flucloxacillin", names: ["flucloxacillin", "floxapen"], classes: ["penicillin"], child: { mgPerKgDose: 25, mgPerKgDay: 100, maxDailyMg: 4000 } },
+  { id: "cloxacillin", names: ["cloxacillin"], classes: ["penicillin"] },
+  { id: "benzylpenicillin", names: ["benzylpenicillin", "benzathine", "crystalline penicillin", "penicillin g"], classes: ["penicillin"] },
+  { id: "phenoxymethylpenicillin", names: ["phenoxymethylpenicillin", "penicillin v", "pen v"], classes: ["penicillin"] },
+  { id: "ceftriaxone", names: ["ceftriaxone", "rocephin"], classes: ["cephalosporin"] },
+  { id: "cefuroxime", names: ["cefuroxime", "zinnat"], classes: ["cephalosporin"] },
+  { id: "cefalexin", names: ["cefalexin", "cephalexin"], classes: ["cephalosporin"], child: { mgPerKgDose: 25, mgPerKgDay: 100, maxDailyMg: 4000 } },
+  { id: "cefixime", names: ["cefixime"], classes: ["cephalosporin"] },
+  { id: "erythromycin", names: ["erythromycin"], classes: ["macrolide"], child: { mgPerKgDose: 12.5, mgPerKgDay: 50, maxDailyMg: 4000 } },
+  { id: "azithromycin", names: ["azithromycin", "zithromax", "azithral"], classes: ["macrolide"], child: { mgPerKgDose: 10, mgPerKgDay: 10, maxDailyMg: 500 } },
+  { id: "clarithromycin", names: ["clarithromycin", "klacid"], classes: ["macrolide"], child: { mgPerKgDose: 7.5, mgPerKgDay: 15, maxDailyMg: 1000 } },
+  { id: "ciprofloxacin", names: ["ciprofloxacin", "cipro"], classes: ["quinolone"], child: { mgPerKgDose: 20, mgPerKgDay: 40, maxDailyMg: 1500 } },
+  { id: "levofloxacin", names: ["levofloxacin"], classes: ["quinolone"] },
+  { id: "norfloxacin", names: ["norfloxacin"], classes: ["quinolone"] },
+  {
+    id: "doxycycline",
+    names: ["doxycycline", "vibramycin"],
+    classes: ["tetracycline"],
+    minAge: { months: 96, severity: "warning", message: "Doxycycline can stain developing teeth in under-8s; use only where no alternative suits" },
+  },
+  { id: "tetracycline", names: ["tetracycline"], classes: ["tetracycline"] },
+  { id: "cotrimoxazole", names: ["cotrimoxazole", "co-trimoxazole", "septrin", "bactrim", "sulfamethoxazole"], classes: ["sulfonamide"] },
+  { id: "sulfadoxine-pyrimethamine", names: ["sulfadoxine", "fansidar"], classes: ["sulfonamide"] },
+  { id: "metronidazole", names: ["metronidazole", "flagyl"], classes: ["nitroimidazole"], child: { mgPerKgDose: 10, mgPerKgDay: 30, maxDailyMg: 2400 } },
+  { id: "tinidazole", names: ["tinidazole"], classes: ["nitroimidazole"] },
+  { id: "fluconazole", names: ["fluconazole", "diflucan"], classes: ["azole"] },
+  { id: "artemether-lumefantrine", names: ["artemether", "lumefantrine", "coartem"], classes: ["act"] },
+  { id: "dihydroartemisinin-piperaquine", names: ["dihydroartemisinin", "piperaquine", "duo-cotecxin"], classes: ["act"] },
+  { id: "rifampicin", names: ["rifampicin", "rifampin"], classes: [] },
+  { id: "carbamazepine", names: ["carbamazepine", "tegretol"], classes: [] },
+  { id: "methotrexate", names: ["methotrexate"], classes: [] },
+  { id: "allopurinol", names: ["allopurinol", "zyloric"], classes: [] },
+  { id: "azathioprine", names: ["azathioprine", "imuran"], classes: [] },
+  { id: "warfarin", names: ["warfarin", "coumadin"], classes: ["anticoagulant"] },
+  { id: "clopidogrel", names: ["clopidogrel", "plavix"], classes: ["antiplatelet"] },
+  { id: "enalapril", names: ["enalapril"], classes: ["ace-inhibitor"] },
+  { id: "lisinopril", names: ["lisinopril"], classes: ["ace-inhibitor"] },
+  { id: "captopril", names: ["captopril"], classes: ["ace-inhibitor"] },
+  { id: "losartan", names: ["losartan", "cozaar"], classes: ["arb"] },
+  { id: "telmisartan", names: ["telmisartan"], classes: ["arb"] },
+  { id: "spironolactone", names: ["spironolactone", "aldactone"], classes: ["potassium-sparing"] },
+  { id: "amiloride", names: ["amiloride"], classes: ["potassium-sparing"] },
+  { id: "potassium-chloride", names: ["potassium chloride", "slow-k", "kcl"], classes: ["potassium"] },
+  { id: "simvastatin", names: ["simvastatin"], classes: ["statin"] },
+  { id: "atorvastatin", names: ["atorvastatin", "lipitor"], classes: ["statin"] },
+  { id: "omeprazole", names: ["omeprazole", "losec"], classes: ["ppi"] },
+  { id: "esomeprazole", names: ["esomeprazole", "nexium"], classes: ["ppi"] },
+  { id: "ranitidine", names: ["ranitidine"], classes: ["h2-blocker"] },
+  { id: "famotidine", names: ["famotidine"], classes: ["h2-blocker"] },
+  { id: "antacid", names: ["antacid", "magnesium trisilicate", "aluminium hydroxide", "relcer", "gaviscon", "mucaine"], classes: ["antacid"] },
+  { id: "ferrous", names: ["ferrous", "ranferon", "iron"], classes: ["iron"] },
+  { id: "prednisolone", names: ["prednisolone", "prednisone"], classes: ["corticosteroid"], child: { mgPerKgDose: 2, mgPerKgDay: 2, maxDailyMg: 60 } },
+  { id: "dexamethasone", names: ["dexamethasone"], classes: ["corticosteroid"] },
+  { id: "glibenclamide", names: ["glibenclamide", "daonil"], classes: ["sulfonylurea"] },
+  { id: "gliclazide", names: ["gliclazide", "diamicron"], classes: ["sulfonylurea"] },
+  { id: "fluoxetine", names: ["fluoxetine", "prozac"], classes: ["ssri"] },
+  { id: "sertraline", names: ["sertraline", "zoloft"], classes: ["ssri"] },
+  { id: "sildenafil", names: ["sildenafil", "viagra"], classes: [] },
+  { id: "isosorbide", names: ["isosorbide", "glyceryl trinitrate", "nitroglycerin"], classes: ["nitrate"] },
+  { id: "theophylline", names: ["theophylline", "aminophylline"], classes: ["xanthine"] },
+  { id: "combined-pill", names: ["microgynon", "levonorgestrel/ethinyl", "ethinylestradiol", "combined oral contraceptive"], classes: ["oral-contraceptive"] },
+  { id: "chlorphenamine", names: ["chlorphenamine", "chlorpheniramine", "piriton"], classes: ["antihistamine"] },
+  { id: "cetirizine", names: ["cetirizine", "zyrtec"], classes: ["antihistamine"] },
+  { id: "loratadine", names: ["loratadine", "claritin"], classes: ["antihistamine"] },
+]
+
+interface AllergyGroup {
+  terms: string[] // Words in a recorded allergy that point to the group
+  classes: string[] // Drug classes the patient should not have
+  crossReactive?: { classes: string[]; message: string } // Related classes that only warrant caution
+}
+
+// Allergies are free text, so common ways of writing them map to drug classes
+const ALLERGY_GROUPS: AllergyGroup[] = [
+  {
+    terms: ["penicillin", "beta-lactam", "beta lactam", "amoxicillin", "augmentin", "ampicillin", "cloxacillin", "flucloxacillin"],
+    classes: ["penicillin"],
+    crossReactive: { classes: ["cephalosporin"], message: "cephalosporins cross-react with penicillins in a small share of patients" },
+  },
+  { terms: ["cephalosporin", "ceftriaxone", "cefuroxime", "cefalexin", "cephalexin"], classes: ["cephalosporin"] },
+  { terms: ["sulfa", "sulpha", "sulfonamide", "sulphonamide", "septrin", "bactrim", "cotrimoxazole", "co-trimoxazole"], classes: ["sulfonamide"] },
+  { terms: ["nsaid", "aspirin", "ibuprofen", "diclofenac", "brufen", "anti-inflammatory", "anti-inflammatories"], classes: ["nsaid"] },
+  { terms: ["macrolide", "erythromycin", "azithromycin", "clarithromycin"], classes: ["macrolide"] },
+  { terms: ["quinolone", "ciprofloxacin", "levofloxacin"], classes: ["quinolone"] },
+  { terms: ["tetracycline", "doxycycline"], classes: ["tetracycline"] },
+  { terms: ["opioid", "opiate", "codeine", "morphine", "tramadol", "pethidine"], classes: ["opioid"] },
+  { terms: ["artemether", "coartem", "artemisinin"], classes: ["act"] },
+]
+
+interface DrugInteraction {
+  a: string // Drug id or class
+  b: string
+  severity: MedicationAlertSeverity // Major interactions block, moderate ones warn
+  message: string
+}
+
+const INTERACTIONS: DrugInteraction[] = [
+  { a: "anticoagulant", b: "nsaid", severity: "block", message: "raises the bleeding risk on warfarin" },
+  { a: "warfarin", b: "metronidazole", severity: "block", message: "raises INR sharply; choose another antibiotic or reduce warfarin and check INR" },
+  { a: "warfarin", b: "fluconazole", severity: "block", message: "raises INR sharply; reduce warfarin and check INR" },
+  { a: "warfarin", b: "cotrimoxazole", severity: "block", message: "raises INR sharply; choose another antibiotic" },
+  { a: "warfarin", b: "quinolone", severity: "warning", message: "can raise INR; check INR within a week" },
+  { a: "warfarin", b: "macrolide", severity: "warning", message: "can raise INR; check INR within a week" },
+  { a: "warfarin", b: "rifampicin", severity: "warning", message: "lowers the warfarin effect; INR needs close monitoring" },
+  { a: "ace-inhibitor", b: "arb", severity: "block", message: "dual blockade raises the risk of kidney injury and hyperkalaemia" },
+  { a: "ace-inhibitor", b: "potassium-sparing", severity: "warning", message: "risk of hyperkalaemia; check potassium" },
+  { a: "arb", b: "potassium-sparing", severity: "warning", message: "risk of hyperkalaemia; check potassium" },
+  { a: "ace-inhibitor", b: "potassium", severity: "warning", message: "risk of hyperkalaemia; check potassium" },
+  { a: "ace-inhibitor", b: "nsaid", severity: "warning", message: "reduces the blood pressure effect and can harm the kidneys" },
+  { a: "arb", b: "nsaid", severity: "warning", message: "reduces the blood pressure effect and can harm the kidneys" },
+  { a: "methotrexate", b: "cotrimoxazole", severity: "block", message: "can cause severe bone marrow suppression" },
+  { a: "methotrexate", b: "nsaid", severity: "warning", message: "can raise methotrexate levels" },
+  { a: "sildenafil", b: "nitrate", severity: "block", message: "can cause a dangerous drop in blood pressure" },
+  { a: "rifampicin", b: "oral-contraceptive", severity: "block", message: "makes the pill unreliable; advise another method" },
+  { a: "carbamazepine", b: "oral-contraceptive", severity: "warning", message: "makes the pill less reliable; advise another method" },
+  { a: "tramadol", b: "ssri", severity: "block", message: "risk of serotonin syndrome and seizures" },
+  { a: "opioid", b: "benzodiazepine", severity: "block", message: "risk of profound sedation and respiratory depression" },
+  { a: "simvastatin", b: "clarithromycin", severity: "block", message: "risk of rhabdomyolysis; hold simvastatin during the course" },
+  { a: "simvastatin", b: "erythromycin", severity: "block", message: "risk of rhabdomyolysis; hold simvastatin during the course" },
+  { a: "ciprofloxacin", b: "xanthine", severity: "warning", message: "raises theophylline levels; watch for toxicity" },
+  { a: "quinolone", b: "antacid", severity: "warning", message: "antacids block absorption; take 2 hours apart" },
+  { a: "quinolone", b: "iron", severity: "warning", message: "iron blocks absorption; take 2 hours apart" },
+  { a: "tetracycline", b: "antacid", severity: "warning", message: "antacids block absorption; take 2 hours apart" },
+  { a: "tetracycline", b: "iron", severity: "warning", message: "iron blocks absorption; take 2 hours apart" },
+  { a: "allopurinol", b: "azathioprine", severity: "block", message: "raises azathioprine levels to toxic; reduce the azathioprine dose to a quarter" },
+  { a: "nsaid", b: "corticosteroid", severity: "warning", message: "raises the risk of stomach bleeding; consider a PPI" },
+  { a: "clopidogrel", b: "omeprazole", severity: "warning", message: "omeprazole weakens clopidogrel; prefer pantoprazole" },
+  { a: "clopidogrel", b: "esomeprazole", severity: "warning", message: "esomeprazole weakens clopidogrel; prefer pantoprazole" },
+  { a: "ssri", b: "nsaid", severity: "warning", message: "raises the risk of stomach bleeding" },
+]
+
+// Whole-word match, so "iron" does not match "spironolactone"
+const mentions = (text: string, name: string) =>
+  new RegExp(`(^|[^a-z])${name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}($|[^a-z])`).test(text)
+
+// Every formulary drug named in the item, e.g. two for "Paracetamol/Codeine 500/8mg"
+function identifyDrugs(name: string): DrugProfile[] {
+  const text = name.toLowerCase()
+  return FORMULARY.filter((drug) => drug.names.some((n) => mentions(text, n)))
+}
+
+// Whole words only, so "environmental" is not iron and "magnesium sulfate" is not sulfa; allergy lists
+// often use the plural ("penicillins", "NSAIDs")
+const mentionsAllergen = (text: string, term: string) => mentions(text, term) || mentions(text, `${term}s`)
+
+const matchesRef = (drug: DrugProfile, ref: string) => drug.id === ref || drug.classes.includes(ref)
+
+const displayName = (drug: DrugProfile) => drug.id.replace(/-/g, " ")
+
+function checkAllergies(item: PrescriptionItem, drugs: DrugProfile[], allergies: string[]): MedicationAlert[] {
+  const alerts: MedicationAlert[] = []
+  for (const allergy of allergies) {
+    const text = allergy.toLowerCase().trim()
+    if (!text) continue
+    const groups = ALLERGY_GROUPS.filter((g) => g.terms.some((t) => mentionsAllergen(text, t)))
+    let blocked = false
+    for (const drug of drugs) {
+      const direct = drug.names.some((n) => mentionsAllergen(text, n)) || groups.some((g) => g.classes.some((c) => drug.classes.includes(c)))
+      if (direct) {
+        blocked = true
+        alerts.push({
+          key: `allergy:${drug.id}:${text}`,
+          kind: "allergy",
+          severity: "block",
+          drug: item.name,
+          message: `Recorded allergy to ${allergy.trim()}: ${item.name} contains ${displayName(drug)}`,
+        })
+        continue
+      }
+      const cross = groups.find((g) => g.crossReactive?.classes.some((c) => drug.classes.includes(c)))
+      if (cross) {
+        alerts.push({
+          key: `allergy:${drug.id}:${text}`,
+          kind: "allergy",
+          severity: "warning",
+          drug: item.name,
+          message: `Recorded allergy to ${allergy.trim()}: ${cross.crossReactive!.message}`,
+        })
+      }
+    }
+    // A drug outside the formulary is still caught when its name is the allergy itself; the database
+    // refuses to save this case without an override
+    if (!blocked && mentions(item.name.toLowerCase(), text)) {
+      alerts.push({
+        key: `allergy:${text}`,
+        kind: "allergy",
+        severity: "block",
+        drug: item.name,
+        message: `${item.name} matches the recorded allergy to ${allergy.trim()}`,
+      })
+    }
+  }
+  return alerts
+}
+
+function checkAgainst(item: PrescriptionItem, drugs: DrugProfile[], other: PrescriptionItem): MedicationAlert[] {
+  const alerts: MedicationAlert[] = []
+  const otherDrugs = identifyDrugs(other.name)
+  for (const drug of drugs) {
+    for (const otherDrug of otherDrugs) {
+      if (drug.id === otherDrug.id) {
+        alerts.push({
+          key: `duplicate:${drug.id}:${other.inventoryId}`,
+          kind: "duplicate",
+          severity: "block",
+          drug: item.name,
+          message: `Already prescribed: ${other.name} also contains ${displayName(drug)}`,
+        })
+        continue
+      }
+      const shared = drug.classes.find((c) => DRUG_CLASSES[c]?.duplication && otherDrug.classes.includes(c))
+      if (shared) {
+        alerts.push({
+          key: `duplicate:${drug.id}:${otherDrug.id}`,
+          kind: "duplicate",
+          severity: "warning",
+          drug: item.name,
+          message: `Two ${DRUG_CLASSES[shared].label}: ${item.name} and ${other.name}`,
+        })
+      }
+      const interaction = INTERACTIONS.find(
+        (i) => (matchesRef(drug, i.a) && matchesRef(otherDrug, i.b)) || (matchesRef(drug, i.b) && matchesRef(otherDrug, i.a)),
+      )
+      if (interaction) {
+        alerts.push({
+          key: `interaction:${[drug.id, otherDrug.id].sort().join(":")}`,
+          kind: "interaction",
+          severity: interaction.severity,
+          drug: item.name,
+          message: `${item.name} with ${other.name}: ${interaction.message}`,
+        })
+      }
+    }
+  }
+  return alerts
+}
+
+const FREQUENCIES: Record<string, number> = {
+  od: 1,
+  daily: 1,
+  "once daily": 1,
+  nocte: 1,
+  mane: 1,
+  stat: 1,
+  bd: 2,
+  bid: 2,
+  "twice daily": 2,
+  tds: 3,
+  tid: 3,
+  "three times daily": 3,
+  qid: 4,
+  qds: 4,
+  "four times daily": 4,
+}
+
+interface DoseRegimen {
+  amount: number
+  unit: "mg" | "ml" | "unit" // "unit" is a tablet, capsule or sachet
+  perDay: number
+}
+
+/**
+ * Reads the amount per dose and doses per day from free-text dosage, e.g. "1x3 for 5 days",
+ * "5ml tds" or "250mg bd". Returns undefined when the text does not say.
+ */
+function parseDosage(dosage: string): DoseRegimen | undefined {
+  const text = dosage.toLowerCase().replace(/([a-z])\.(?=[a-z])/g, "$1") // "t.d.s" -> "tds"
+  const unitOf = (u?: string): DoseRegimen["unit"] => (u?.startsWith("mg") ? "mg" : u?.startsWith("ml") ? "ml" : "unit")
+
+  const times = text.match(/(\d+(?:\.\d+)?)\s*(mg|mls?)?\s*[x×*]\s*(\d+)/)
+  if (times) return { amount: parseFloat(times[1]), unit: unitOf(times[2]), perDay: parseInt(times[3], 10) }
+
+  const words = Object.keys(FREQUENCIES).sort((a, b) => b.length - a.length).join("|")
+  const named = text.match(new RegExp(`(\\d+(?:\\.\\d+)?)\\s*(mg|mls?|tabs?|tablets?|caps?|capsules?)?\\s*(${words})\\b`))
+  if (named) return { amount: parseFloat(named[1]), unit: unitOf(named[2]), perDay: FREQUENCIES[named[3]] }
+  return undefined
+}
+
+// Strength from the item name: mg per tablet, or mg per ml for liquids such as "125mg/5ml"
+function parseStrength(name: string): { mg: number; perMl?: number } | undefined {
+  const match = name.toLowerCase().match(/(\d+(?:\.\d+)?)\s*(mg|mcg|g)\b(?:\s*\/\s*(\d+(?:\.\d+)?)?\s*ml)?/)
+  if (!match) return undefined
+  const scale = match[2] === "g" ? 1000 : match[2] === "mcg" ? 0.001 : 1
+  const mg = parseFloat(match[1]) * scale
+  if (match[0].includes("ml")) return { mg, perMl: parseFloat(match[3] || "1") }
+  return { mg }
+}
+
+// Milligrams per dose, when the dosage and the item's strength together say
+function doseInMg(item: PrescriptionItem, regimen: DoseRegimen): number | undefined {
+  if (regimen.unit === "mg") return regimen.amount
+  const strength = parseStrength(item.name)
+  if (!strength) return undefined
+  // Liquids are given by volume, so a bare number such as "5x3" on a syrup is read as 5 ml
+  if (strength.perMl) return (regimen.amount * strength.mg) / strength.perMl
+  return regimen.unit === "ml" ? undefined : regimen.amount * strength.mg
+}
+
+const roundMg = (mg: number) => (mg >= 10 ? Math.round(mg) : Math.round(mg * 10) / 10)
+
+function checkDose(item: PrescriptionItem, drugs: DrugProfile[], context: PrescribingContext): MedicationAlert[] {
+  const alerts: MedicationAlert[] = []
+  const { ageMonths, weightKg } = context
+  if (ageMonths === undefined) return alerts
+
+  for (const drug of drugs) {
+    if (drug.minAge && ageMonths < drug.minAge.months) {
+      alerts.push({ key: `dose:${drug.id}:age`, kind: "dose", severity: drug.minAge.severity, drug: item.name, message: drug.minAge.message })
+    }
+  }
+
+  // Combination products need each ingredient's strength, which the name rarely gives cleanly
+  const limit = drugs.length === 1 ? drugs[0].child : undefined
+  if (ageMonths >= CHILD_MONTHS || !limit) return alerts
+
+  const key = `dose:${drugs[0].id}:${item.dosage.trim().toLowerCase()}`
+  if (!weightKg) {
+    alerts.push({ key, kind: "dose", severity: "warning", drug: item.name, message: `Record the child's weight to check the ${item.name} dose` })
+    return alerts
+  }
+  const regimen = parseDosage(item.dosage)
+  const perDose = regimen && doseInMg(item, regimen)
+  if (!regimen || perDose === undefined) {
+    alerts.push({
+      key,
+      kind: "dose",
+      severity: "warning",
+      drug: item.name,
+      message: `Could not read the ${item.name} dose; write it as e.g. "5ml tds" or "250mg bd" to have it checked`,
+    })
+    return alerts
+  }
+
+  const perDay = perDose * regimen.perDay
+  const problems: string[] = []
+  if (limit.mgPerKgDose && perDose > limit.mgPerKgDose * weightKg) {
+    problems.push(`${roundMg(perDose)} mg per dose is over the ${roundMg(limit.mgPerKgDose * weightKg)} mg maximum (${limit.mgPerKgDose} mg/kg)`)
+  }
+  if (limit.mgPerKgDay && perDay > limit.mgPerKgDay * weightKg) {
+    problems.push(`${roundMg(perDay)} mg a day is over the ${roundMg(limit.mgPerKgDay * weightKg)} mg maximum (${limit.mgPerKgDay} mg/kg/day)`)
+  } else if (limit.maxDailyMg && perDay > limit.maxDailyMg) {
+    problems.push(`${roundMg(perDay)} mg a day is over the adult maximum of ${limit.maxDailyMg} mg`)
+  }
+  if (problems.length > 0) {
+    alerts.push({ key, kind: "dose", severity: "block", drug: item.name, message: `${item.name} for a ${weightKg} kg child: ${problems.join("; ")}` })
+  }
+  return alerts
+}
+
+// Checks one item against the patient and the items prescribed before it
+export function checkPrescriptionItem(item: PrescriptionItem, earlier: PrescriptionItem[], context: PrescribingContext): MedicationAlert[] {
+  const drugs = identifyDrugs(item.name)
+  if (drugs.length === 0) return checkAllergies(item, drugs, context.allergies || [])
+  return [
+    ...checkAllergies(item, drugs, context.allergies || []),
+    ...earlier.flatMap((other) => checkAgainst(item, drugs, other)),
+    ...checkDose(item, drugs, context),
+  ]
+}
+
+// Alerts for each item; pairwise alerts sit on the later of the two items
+export const checkPrescription = (items: PrescriptionItem[], context: PrescribingContext) =>
+  items.map((item, i) => checkPrescriptionItem(item, items.slice(0, i), context))
+
+export const isOverridden = (item: PrescriptionItem, alert: MedicationAlert) =>
+  !!item.safetyOverrides?.some((o) => o.alertKeys.includes(alert.key))
+
+// Overrides on the prescription that were not there when it was last saved, for the audit log.
+// An override is new when it covers an alert (allergen or rule) that this drug had no override for.
+const overrideKeys = (item: PrescriptionItem, override: PrescriptionOverride) =>
+  override.alertKeys.map((key) => `${item.inventoryId || item.name}|${key}`)
+
+export function getNewOverrides(saved: PrescriptionItem[], current: PrescriptionItem[]) {
+  const seen = new Set(saved.flatMap((item) => (item.safetyOverrides || []).flatMap((o) => overrideKeys(item, o))))
+  return current.flatMap((item) =>
+    (item.safetyOverrides || [])
+      .filter((o) => overrideKeys(item, o).some((key) => !seen.has(key)))
+      .map((override) => ({ item, override })),
+  )
+}
+
+// Blocking alerts the prescriber has not yet overridden
+export const getUnresolvedBlocks = (item: PrescriptionItem, alerts: MedicationAlert[]) =>
+  alerts.filter((a) => a.severity === "block" && !isOverridden(item, a))
+
+export const OVERRIDE_REASONS = [
+  "Benefit outweighs the risk",
+  "Allergy history checked with the patient; not a true allergy",
+  "Tolerated before without reaction",
+  "Specialist advice",
+  "Intentional dose, reviewed",
+  "Replaces the other drug on the list",
+  "Monitoring arranged",
+  "Other",
+]
+
+export function overridePrescriptionItem(
+  item: PrescriptionItem,
+  alerts: MedicationAlert[],
+  reason: string,
+  byName?: string,
+  now: Date = new Date(),
+): PrescriptionItem {
+  if (!reason.trim()) throw new Error("Give a reason for overriding the alert")
+  const override: PrescriptionOverride = {
+    alertKeys: alerts.map((a) => a.key),
+    alerts: alerts.map((a) => a.message),
+    reason: reason.trim(),
+    byName,
+    at: now.toISOString(),
+  }
+  return { ...item, safetyOverrides: [...(item.safetyOverrides || []), override] }
+}
@@ -0,0 +1,133 @@
+/**
+ * MOH 705 Report
+ * Builds the monthly MOH 705A (under 5) and 705B (5 and over) outpatient summaries from coded visits,
+ * laid out like the paper register: one row per disease, one column per day of the month.
+ */
+
+import type { MohVisitRecord } from "../types"
+import { MOH_705_ROWS, MOH_OTHER_DISEASES, getMohForm, getMohRow } from "./diagnosisCoding"
+import type { MohDiseaseRow, MohForm } from "./diagnosisCoding"
+import type { CsvTable } from "./export-utils"
+
+// The same patient and disease row seen again within this many days is a revisit, not a new case
+export const MOH_REVISIT_WINDOW_DAYS = 30
+
+export interface Moh705Line {
+  number: number
+  row: MohDiseaseRow
+  daily: number[] // New cases per day of the month, index 0 = day 1
+  newCases: number
+  revisits: number
+}
+
+export interface Moh705Report {
+  form: MohForm
+  month: string // YYYY-MM
+  daysInMonth: number
+  lines: Moh705Line[]
+  dailyTotals: number[]
+  totalNewCases: number
+  totalRevisits: number
+  visits: number // Visits in the month on this form
+  uncodedVisits: number // Counted in visits but without an ICD code
+  unknownAgeVisits: number // Left off both forms: the patient has no date of birth
+}
+
+// Calendar date of a timestamp in the clinic's timezone
+export const localDate = (iso: string, timeZone: string) => new Date(iso).toLocaleDateString("en-CA", { timeZone })
+
+export function getDaysInMonth(month: string): number {
+  const [year, monthIndex] = month.split("-").map(Number)
+  return new Date(year, monthIndex, 0).getDate()
+}
+
+export function ageOnDate(dateOfBirth: string, date: string): number {
+  const [by, bm, bd] = dateOfBirth.split("-").map(Number)
+  const [y, m, d] = date.split("-").map(Number)
+  return y - by - (m < bm || (m === bm && d < bd) ? 1 : 0)
+}
+
+const daysBetween = (from: string, to: string) => Math.round((Date.parse(to) - Date.parse(from)) / 86400000)
+
+// Records may include visits from before the month; they only decide whether a case is a revisit
+export function buildMoh705Report(
+  records: MohVisitRecord[],
+  month: string,
+  form: MohForm,
+  timeZone = "Africa/Nairobi",
+): Moh705Report {
+  const daysInMonth = getDaysInMonth(month)
+  const rows = [...MOH_705_ROWS.filter((row) => row.forms.includes(form)), MOH_OTHER_DISEASES]
+  const lines: Moh705Line[] = rows.map((row, i) => ({ number: i + 1, row, daily: Array(daysInMonth).fill(0), newCases: 0, revisits: 0 }))
+  const lineById = new Map(lines.map((line) => [line.row.id, line]))
+
+  const report: Moh705Report = {
+    form,
+    month,
+    daysInMonth,
+    lines,
+    dailyTotals: Array(daysInMonth).fill(0),
+    totalNewCases: 0,
+    totalRevisits: 0,
+    visits: 0,
+    uncodedVisits: 0,
+    unknownAgeVisits: 0,
+  }
+
+  // Last date each patient was seen for each disease row
+  const lastSeen = new Map<string, string>()
+  const ordered = [...records].sort((a, b) => a.startTime.localeCompare(b.startTime))
+
+  for (const record of ordered) {
+    const date = localDate(record.startTime, timeZone)
+    const inMonth = date.startsWith(month)
+    const visitForm = record.dateOfBirth ? getMohForm(ageOnDate(record.dateOfBirth, date)) : undefined
+
+    if (inMonth && !visitForm) report.unknownAgeVisits += 1
+    if (inMonth && visitForm === form) {
+      report.visits += 1
+      if (record.diagnoses.length === 0) report.uncodedVisits += 1
+    }
+
+    // A visit coded twice against the same row counts once
+    const rowIds = new Set(record.diagnoses.map((d) => getMohRow(d, visitForm || form).id))
+    for (const rowId of rowIds) {
+      const key = `${record.patientId}:${rowId}`
+      const previous = lastSeen.get(key)
+      lastSeen.set(key, date)
+      if (!inMonth || visitForm !== form) continue
+
+      const line = lineById.get(rowId)
+      if (!line) continue
+      if (previous && daysBetween(previous, date) <= MOH_REVISIT_WINDOW_DAYS) {
+        line.revisits += 1
+        report.totalRevisits += 1
+      } else {
+        const day = Number(date.slice(8, 10))
+        line.daily[day - 1] += 1
+        line.newCases += 1
+        report.dailyTotals[day - 1] += 1
+        report.totalNewCases += 1
+      }
+    }
+  }
+
+  return report
+}
+
+export function getMohFormTitle(form: MohForm): string {
+  return form === "705A" ? "MOH 705A Outpatient Summary - Under 5 Years" : "MOH 705B Outpatient Summary - 5 Years and Over"
+}
+
+// Register layout as a CSV table: disease rows, day columns, then totals
+export function moh705ToCsvTable(report: Moh705Report, clinicName: string): CsvTable {
+  const days = Array.from({ length: report.daysInMonth }, (_, i) => String(i + 1))
+  return {
+    title: `${getMohFormTitle(report.form)} - ${clinicName} - ${report.month}`,
+    headers: ["No.", "Disease", ...days, "Total New Cases", "Revisits"],
+    rows: [
+      ...report.lines.map((line) => [line.number, line.row.label, ...line.daily, line.newCases, line.revisits]),
+      ["", "Total", ...report.dailyTotals, report.totalNewCases, report.totalRevisits],
+    ],
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Purchasing Utilities
+ * Low-stock order suggestions, totals and PO numbering for purchase orders
+ */
+
+import type { InventoryItem, PurchaseOrder, PurchaseOrderLine } from "../types"
+
+export function isLowStock(item: InventoryItem): boolean {
+  return item.stock <= item.minStockLevel
+}
+
+/**
+ * Quantity that brings an item back to twice its reorder point.
+ * Always at least one unit so a low item never produces an empty line.
+ */
+export function suggestOrderQuantity(item: InventoryItem): number {
+  return Math.max(1, item.minStockLevel * 2 - item.stock)
+}
+
+/**
+ * Draft lines for every low-stock item supplied by `supplierId`.
+ * Items without a supplier are included when `includeUnassigned` is set.
+ */
+export function buildLowStockLines(
+  inventory: InventoryItem[],
+  supplierId: string,
+  includeUnassigned: boolean = false,
+): PurchaseOrderLine[] {
+  return inventory
+    .filter((item) => isLowStock(item))
+    .filter((item) => item.supplierId === supplierId || (includeUnassigned && !item.supplierId))
+    .map((item) => ({
+      inventoryId: item.id,
+      name: item.name,
+      quantityOrdered: suggestOrderQuantity(item),
+      quantityReceived: 0,
+      unitCost: item.price,
+    }))
+}
+
+export function getOutstandingQuantity(line: PurchaseOrderLine): number {
+  return Math.max(0, line.quantityOrdered - line.quantityReceived)
+}
+
+export function getOrderTotal(order: Pick<PurchaseOrder, "lines">): number {
+  return order.lines.reduce((sum, line) => sum + line.quantityOrdered * line.unitCost, 0)
+}
+
+/**
+ * Next PO number for today, e.g. PO-20260123-0003
+ */
+export function nextPoNumber(existing: PurchaseOrder[], now: Date = new Date()): string {
+  const prefix = `PO-${now.toISOString().slice(0, 10).replace(/-/g, "")}-`
+  const todays = existing
+    .filter((po) => po.poNumber.startsWith(prefix))
+    .map((po) => parseInt(po.poNumber.slice(prefix.length), 10) || 0)
+  const next = (todays.length ? Math.max(...todays) : 0) + 1
+  return `${prefix}${next.toString().padStart(4, "0")}`
+}
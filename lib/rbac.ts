@@ -22,6 +22,7 @@ export type Permission =
   | "prescription.view"
   | "prescription.create"
   | "prescription.dispense"
+  | "controlled.register"
   | "visit.view"
   | "visit.create"
   | "visit.edit"
@@ -61,6 +62,7 @@ const rolePermissions: Record<Role | UserRole, Permission[]> = {
     "prescription.view",
     "prescription.create",
     "prescription.dispense",
+    "controlled.register",
     "visit.view",
     "visit.create",
     "visit.edit",
@@ -99,6 +101,7 @@ const rolePermissions: Record<Role | UserRole, Permission[]> = {
     "prescription.view",
     "prescription.create",
     "prescription.dispense",
+    "controlled.register",
     "visit.view",
     "visit.create",
     "visit.edit",
@@ -136,6 +139,7 @@ const rolePermissions: Record<Role | UserRole, Permission[]> = {
     "prescription.view",
     "prescription.create",
     "prescription.dispense",
+    "controlled.register",
     "visit.view",
     "visit.create",
     "visit.edit",
@@ -170,6 +174,7 @@ const rolePermissions: Record<Role | UserRole, Permission[]> = {
     "prescription.view",
     "prescription.create",
     "prescription.dispense",
+    "controlled.register",
     "visit.view",
     "visit.create",
     "visit.edit",
@@ -199,6 +204,7 @@ const rolePermissions: Record<Role | UserRole, Permission[]> = {
     "prescription.view",
     "prescription.create",
     "prescription.dispense",
+    "controlled.register",
     "visit.view",
     "visit.create",
     "visit.edit",
@@ -216,6 +222,7 @@ const rolePermissions: Record<Role | UserRole, Permission[]> = {
     "prescription.view",
     "prescription.create",
     "prescription.dispense",
+    "controlled.register",
     "visit.view",
     "visit.create",
     "visit.edit",
@@ -276,6 +283,7 @@ const rolePermissions: Record<Role | UserRole, Permission[]> = {
     "inventory.delete",
     "prescription.view",
     "prescription.dispense",
+    "controlled.register",
     "visit.view",
     "reports.view",
   ],
@@ -287,6 +295,7 @@ const rolePermissions: Record<Role | UserRole, Permission[]> = {
     "inventory.delete",
     "prescription.view",
     "prescription.dispense",
+    "controlled.register",
     "visit.view",
     "reports.view",
   ],
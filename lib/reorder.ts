@@ -0,0 +1,119 @@
+/**
+ * Reorder Engine
+ * Average daily consumption, days of stock left and reorder quantities per item
+ */
+
+import type { InventoryItem, InventoryLog, Visit } from "../types"
+
+const DAY_MS = 1000 * 60 * 60 * 24
+
+export interface ReorderOptions {
+  windowDays: number // Consumption history to average over
+  leadTimeDays: number // Expected days between ordering and receiving
+  coverDays: number // Days of usage an order should cover once received
+  now: Date
+}
+
+export interface ReorderSuggestion {
+  itemId: string
+  name: string
+  supplierId?: string
+  unit: string
+  stock: number
+  available: number
+  consumed: number
+  avgDailyUsage: number
+  daysOfStockLeft: number | null // null when the item had no usage in the window
+  reorderPoint: number
+  suggestedQuantity: number
+  unitCost: number
+  needsReorder: boolean
+}
+
+export const DEFAULT_REORDER_OPTIONS: Omit<ReorderOptions, "now"> = {
+  windowDays: 30,
+  leadTimeDays: 7,
+  coverDays: 30,
+}
+
+/**
+ * Units consumed per item since `since`.
+ * Dispensed ledger entries are authoritative; dispensed visits with no ledger
+ * entry (history from before the ledger) are counted from their prescriptions.
+ */
+export function getConsumptionByItem(logs: InventoryLog[], visits: Visit[], since: Date): Map<string, number> {
+  const consumed = new Map<string, number>()
+  const add = (itemId: string, quantity: number) => consumed.set(itemId, (consumed.get(itemId) || 0) + quantity)
+  const loggedVisits = new Set<string>()
+
+  logs
+    .filter((log) => log.action === "Dispensed" && new Date(log.timestamp) >= since)
+    .forEach((log) => {
+      add(log.itemId, Math.abs(log.quantityChange || 0))
+      if (log.reference) loggedVisits.add(log.reference)
+    })
+
+  visits
+    .filter((visit) => visit.medicationsDispensed && !loggedVisits.has(visit.id) && new Date(visit.startTime) >= since)
+    .forEach((visit) => visit.prescription.forEach((line) => add(line.inventoryId, line.quantity)))
+
+  return consumed
+}
+
+export function buildReorderSuggestions(
+  inventory: InventoryItem[],
+  logs: InventoryLog[],
+  visits: Visit[],
+  options: Partial<ReorderOptions> = {},
+): ReorderSuggestion[] {
+  const { windowDays, leadTimeDays, coverDays, now } = { ...DEFAULT_REORDER_OPTIONS, now: new Date(), ...options }
+  const consumption = getConsumptionByItem(logs, visits, new Date(now.getTime() - windowDays * DAY_MS))
+
+  return inventory
+    .map((item) => {
+      const consumed = consumption.get(item.id) || 0
+      const avgDailyUsage = consumed / windowDays
+      const available = Math.max(0, item.stock - (item.reserved || 0))
+      const daysOfStockLeft = avgDailyUsage > 0 ? available / avgDailyUsage : null
+
+      // Static minimum still applies to slow movers; fast movers reorder ahead of the lead time
+      const reorderPoint = Math.max(item.minStockLevel, Math.ceil(avgDailyUsage * leadTimeDays))
+      const target = Math.max(item.minStockLevel * 2, Math.ceil(avgDailyUsage * (leadTimeDays + coverDays)))
+      // A minimum of 0 means nobody asked for the item to be kept in stock
+      const needsReorder = item.minStockLevel > 0 && available <= reorderPoint
+
+      return {
+        itemId: item.id,
+        name: item.name,
+        supplierId: item.supplierId,
+        unit: item.unit,
+        stock: item.stock,
+        available,
+        consumed,
+        avgDailyUsage,
+        daysOfStockLeft,
+        reorderPoint,
+        suggestedQuantity: needsReorder ? Math.max(1, target - available) : 0,
+        unitCost: item.price,
+        needsReorder,
+      }
+    })
+    .sort((a, b) => {
+      if (a.needsReorder !== b.needsReorder) return a.needsReorder ? -1 : 1
+      return (a.daysOfStockLeft ?? Number.MAX_VALUE) - (b.daysOfStockLeft ?? Number.MAX_VALUE)
+    })
+}
+
+/**
+ * Suggestions that need ordering, grouped by supplier id ("" for items without a supplier)
+ */
+export function groupSuggestionsBySupplier(suggestions: ReorderSuggestion[]): Map<string, ReorderSuggestion[]> {
+  const groups = new Map<string, ReorderSuggestion[]>()
+  suggestions
+    .filter((s) => s.needsReorder)
+    .forEach((s) => {
+      const key = s.supplierId || ""
+      groups.set(key, [...(groups.get(key) || []), s])
+    })
+  return groups
+}
@@ -0,0 +1,96 @@
+/**
+ * Scheduling Utilities
+ * Appointment durations, overlap checks and provider helpers for the slot engine
+ */
+
+import type { Appointment, AppointmentType, AvailableSlot, RecurrenceRule, Role, TeamMember } from "../types"
+
+export const DEFAULT_APPOINTMENT_DURATION = 30
+
+// Matches the cap in create_appointment_series()
+export const MAX_SERIES_OCCURRENCES = 52
+
+export const WEEKDAY_LABELS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"]
+
+// Roles that can be booked for appointments
+export const PROVIDER_ROLES: Role[] = ["Doctor", "Nurse", "Admin"]
+
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map((part) => parseInt(part, 10) || 0)
+  return hours * 60 + minutes
+}
+
+export function minutesToTime(minutes: number): string {
+  const hours = Math.floor(minutes / 60)
+  return `${hours.toString().padStart(2, "0")}:${(minutes % 60).toString().padStart(2, "0")}`
+}
+
+export function getProviders(team: TeamMember[]): TeamMember[] {
+  return team.filter((member) => member.status === "Active" && PROVIDER_ROLES.includes(member.role))
+}
+
+export function getTypeDuration(types: AppointmentType[], name?: string): number {
+  return types.find((type) => type.name === name)?.durationMinutes || DEFAULT_APPOINTMENT_DURATION
+}
+
+export function getAppointmentEnd(appt: Appointment): string {
+  return minutesToTime(timeToMinutes(appt.time) + (appt.durationMinutes || DEFAULT_APPOINTMENT_DURATION))
+}
+
+export function appointmentsOverlap(a: Appointment, b: Appointment): boolean {
+  if (a.date !== b.date) return false
+  const aStart = timeToMinutes(a.time)
+  const bStart = timeToMinutes(b.time)
+  return aStart < bStart + (b.durationMinutes || DEFAULT_APPOINTMENT_DURATION) &&
+    bStart < aStart + (a.durationMinutes || DEFAULT_APPOINTMENT_DURATION)
+}
+
+/**
+ * First scheduled appointment that clashes with the candidate for the same
+ * provider or the same patient. The database applies the same rule on save.
+ */
+export function findAppointmentConflict(candidate: Appointment, appointments: Appointment[]): Appointment | null {
+  return appointments.find((other) =>
+    other.id !== candidate.id &&
+    other.status === "Scheduled" &&
+    ((candidate.providerId && other.providerId === candidate.providerId) || other.patientId === candidate.patientId) &&
+    appointmentsOverlap(candidate, other)
+  ) || null
+}
+
+/**
+ * Free start times grouped by provider, in provider-name order
+ */
+export function groupSlotsByProvider(slots: AvailableSlot[]): { providerId: string; providerName: string; slots: AvailableSlot[] }[] {
+  const groups = new Map<string, { providerId: string; providerName: string; slots: AvailableSlot[] }>()
+  slots.forEach((slot) => {
+    const group = groups.get(slot.providerId) || { providerId: slot.providerId, providerName: slot.providerName, slots: [] }
+    group.slots.push(slot)
+    groups.set(slot.providerId, group)
+  })
+  return Array.from(groups.values()).sort((a, b) => a.providerName.localeCompare(b.providerName))
+}
+
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().split("T")[0]
+}
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / 86400000)
+}
+
+/**
+ * Occurrence dates of a recurring series, computed the same way as the server
+ */
+export function getSeriesDates(startDate: string, rule: RecurrenceRule): string[] {
+  const dates: string[] = []
+  const limit = Math.min(rule.count || MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES)
+  let date = startDate
+  while (dates.length < limit && (!rule.until || date <= rule.until)) {
+    dates.push(date)
+    date = addDays(date, rule.intervalWeeks * 7)
+  }
+  return dates
+}
@@ -0,0 +1,137 @@
+/**
+ * Stock-Take Utilities
+ * Count sheets, variances and variance-by-value summaries for physical stock counts
+ */
+
+import type { InventoryItem, StockTake, StockTakeLine, StockVarianceReason } from "../types"
+import { getItemBatches, sortBatchesFefo } from "./inventory"
+
+export const STOCK_VARIANCE_REASONS: StockVarianceReason[] = [
+  "Damaged",
+  "Expired",
+  "Theft / Loss",
+  "Counting Error",
+  "Found Stock",
+  "Other",
+]
+
+export interface ItemVariance {
+  inventoryId: string
+  name: string
+  expected: number
+  counted: number
+  variance: number
+  value: number
+}
+
+export interface VarianceSummary {
+  items: ItemVariance[]
+  byReason: { reason: StockVarianceReason; quantity: number; value: number }[]
+  lossValue: number
+  gainValue: number
+  netValue: number
+}
+
+/**
+ * One count line per lot in FEFO order; items with no stock get a single
+ * line so stock found on the shelf can still be recorded.
+ */
+export function buildStockTakeLines(inventory: InventoryItem[]): StockTakeLine[] {
+  return [...inventory]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap((item) => {
+      const lots = sortBatchesFefo(getItemBatches(item))
+      if (lots.length === 0) {
+        return [{ inventoryId: item.id, name: item.name, expectedQuantity: 0, unitCost: item.price }]
+      }
+      return lots.map((lot) => ({
+        inventoryId: item.id,
+        name: item.name,
+        batchId: lot.id,
+        batchNumber: lot.batchNumber,
+        expiryDate: lot.expiryDate,
+        expectedQuantity: lot.quantity,
+        unitCost: item.price,
+      }))
+    })
+}
+
+export function isLineCounted(line: StockTakeLine): boolean {
+  return line.countedQuantity !== undefined && line.countedQuantity !== null
+}
+
+export function getLineVariance(line: StockTakeLine): number {
+  return isLineCounted(line) ? line.countedQuantity! - line.expectedQuantity : 0
+}
+
+export function getLineVarianceValue(line: StockTakeLine): number {
+  return getLineVariance(line) * line.unitCost
+}
+
+/**
+ * Counted lines with a variance but no reason; posting is blocked until empty.
+ */
+export function getLinesMissingReason(lines: StockTakeLine[]): StockTakeLine[] {
+  return lines.filter((line) => getLineVariance(line) !== 0 && !line.reason)
+}
+
+/**
+ * Variances across posted counts, by item (largest value first) and by reason.
+ */
+export function summarizeVariances(stockTakes: StockTake[]): VarianceSummary {
+  const items = new Map<string, ItemVariance>()
+  const reasons = new Map<StockVarianceReason, { quantity: number; value: number }>()
+
+  stockTakes
+    .filter((take) => take.status === "Posted")
+    .flatMap((take) => take.lines)
+    .filter(isLineCounted)
+    .forEach((line) => {
+      const variance = getLineVariance(line)
+      const value = getLineVarianceValue(line)
+      const item = items.get(line.inventoryId) || {
+        inventoryId: line.inventoryId,
+        name: line.name,
+        expected: 0,
+        counted: 0,
+        variance: 0,
+        value: 0,
+      }
+      item.expected += line.expectedQuantity
+      item.counted += line.countedQuantity!
+      item.variance += variance
+      item.value += value
+      items.set(line.inventoryId, item)
+
+      if (variance !== 0 && line.reason) {
+        const total = reasons.get(line.reason) || { quantity: 0, value: 0 }
+        total.quantity += variance
+        total.value += value
+        reasons.set(line.reason, total)
+      }
+    })
+
+  const withVariance = Array.from(items.values()).filter((item) => item.variance !== 0)
+  const lossValue = withVariance.filter((i) => i.value < 0).reduce((sum, i) => sum + i.value, 0)
+  const gainValue = withVariance.filter((i) => i.value > 0).reduce((sum, i) => sum + i.value, 0)
+
+  return {
+    items: withVariance.sort((a, b) => Math.abs(b.value) - Math.abs(a.value)),
+    byReason: Array.from(reasons.entries()).map(([reason, total]) => ({ reason, ...total })),
+    lossValue,
+    gainValue,
+    netValue: lossValue + gainValue,
+  }
+}
+
+/**
+ * Next stock-take reference for today, e.g. ST-20260124-0001
+ */
+export function nextStockTakeReference(existing: StockTake[], now: Date = new Date()): string {
+  const prefix = `ST-${now.toISOString().slice(0, 10).replace(/-/g, "")}-`
+  const todays = existing
+    .filter((take) => take.reference.startsWith(prefix))
+    .map((take) => parseInt(take.reference.slice(prefix.length), 10) || 0)
+  const next = (todays.length ? Math.max(...todays) : 0) + 1
+  return `${prefix}${next.toString().padStart(4, "0")}`
+}
@@ -0,0 +1,231 @@
+/**
+ * Vital Signs
+ * Field definitions, unit conversion, BMI and abnormal-value flags for the vitals taken at each visit
+ */
+
+import type { Patient, VitalKey, VitalSigns, VitalThreshold, VitalThresholds } from "../types"
+
+export interface VitalField {
+  key: Exclude<VitalKey, "bmi">
+  label: string
+  unit: string
+  min: number // Outside min..max is a typing mistake, not a reading
+  max: number
+  step: number
+}
+
+export const VITAL_FIELDS: VitalField[] = [
+  { key: "systolic", label: "Systolic BP", unit: "mmHg", min: 40, max: 300, step: 1 },
+  { key: "diastolic", label: "Diastolic BP", unit: "mmHg", min: 20, max: 200, step: 1 },
+  { key: "heartRate", label: "Heart Rate", unit: "bpm", min: 20, max: 300, step: 1 },
+  { key: "respiratoryRate", label: "Respiratory Rate", unit: "/min", min: 4, max: 100, step: 1 },
+  { key: "temperature", label: "Temperature", unit: "°C", min: 25, max: 45, step: 0.1 },
+  { key: "spo2", label: "SpO2", unit: "%", min: 30, max: 100, step: 1 },
+  { key: "weight", label: "Weight", unit: "kg", min: 0.3, max: 400, step: 0.1 },
+  { key: "height", label: "Height", unit: "cm", min: 20, max: 250, step: 0.1 },
+  { key: "muac", label: "MUAC", unit: "cm", min: 5, max: 50, step: 0.1 },
+  { key: "headCircumference", label: "Head Circumference", unit: "cm", min: 20, max: 70, step: 0.1 },
+]
+
+export const VITAL_LABELS: Record<VitalKey, string> = {
+  ...(Object.fromEntries(VITAL_FIELDS.map((f) => [f.key, f.label])) as Record<Exclude<VitalKey, "bmi">, string>),
+  bmi: "BMI",
+}
+
+export const VITAL_UNITS: Record<VitalKey, string> = {
+  ...(Object.fromEntries(VITAL_FIELDS.map((f) => [f.key, f.unit])) as Record<Exclude<VitalKey, "bmi">, string>),
+  bmi: "kg/m²",
+}
+
+// Entry units other than the stored ones, with their conversion into the stored unit
+export const ALTERNATE_UNITS: Partial<Record<VitalKey, { unit: string; toStored: (value: number) => number; fromStored: (value: number) => number }>> = {
+  temperature: { unit: "°F", toStored: (f) => ((f - 32) * 5) / 9, fromStored: (c) => (c * 9) / 5 + 32 },
+  weight: { unit: "lb", toStored: (lb) => lb * 0.45359237, fromStored: (kg) => kg / 0.45359237 },
+  height: { unit: "in", toStored: (inches) => inches * 2.54, fromStored: (cm) => cm / 2.54 },
+}
+
+// Adult limits used where the clinic has not set its own
+export const DEFAULT_VITAL_THRESHOLDS: Required<Pick<VitalThresholds, "systolic" | "diastolic" | "heartRate" | "respiratoryRate" | "temperature" | "spo2" | "bmi">> = {
+  systolic: { low: 90, high: 140 },
+  diastolic: { low: 60, high: 90 },
+  heartRate: { low: 50, high: 100 },
+  respiratoryRate: { low: 12, high: 20 },
+  temperature: { low: 35.5, high: 37.5 },
+  spo2: { low: 94 },
+  bmi: { low: 18.5, high: 30 },
+}
+
+// Heart and breathing rates for children by age, after the WHO IMCI fast-breathing cut-offs
+const CHILD_RATE_LIMITS: { maxAgeMonths: number; heartRate: VitalThreshold; respiratoryRate: VitalThreshold }[] = [
+  { maxAgeMonths: 2, heartRate: { low: 100, high: 180 }, respiratoryRate: { low: 30, high: 59 } },
+  { maxAgeMonths: 12, heartRate: { low: 100, high: 160 }, respiratoryRate: { low: 25, high: 49 } },
+  { maxAgeMonths: 60, heartRate: { low: 80, high: 140 }, respiratoryRate: { low: 20, high: 39 } },
+  { maxAgeMonths: 144, heartRate: { low: 70, high: 120 }, respiratoryRate: { low: 16, high: 29 } },
+]
+
+// Acute malnutrition MUAC cut-offs for children aged 6-59 months
+export const MUAC_SEVERE_CM = 11.5
+export const MUAC_MODERATE_CM = 12.5
+
+export interface VitalFlag {
+  key: VitalKey
+  label: string
+  value: number
+  level: "low" | "high"
+  severe?: boolean
+  message: string
+}
+
+const round = (value: number, step: number) => Math.round(value / step) * step
+
+// Keep only plausible numbers, rounded to the field's precision
+export function cleanVitals(vitals: VitalSigns): VitalSigns {
+  const cleaned: VitalSigns = {}
+  for (const field of VITAL_FIELDS) {
+    const value = vitals[field.key]
+    if (typeof value === "number" && Number.isFinite(value) && value >= field.min && value <= field.max) {
+      cleaned[field.key] = Number(round(value, field.step).toFixed(1))
+    }
+  }
+  if (vitals.recordedAt) cleaned.recordedAt = vitals.recordedAt
+  return cleaned
+}
+
+// Readings a person cannot have, e.g. a temperature typed in °F while °C is selected
+export function getVitalsErrors(vitals: VitalSigns): string[] {
+  return VITAL_FIELDS.filter((f) => {
+    const value = vitals[f.key]
+    return value !== undefined && (!Number.isFinite(value) || value < f.min || value > f.max)
+  }).map((f) => `${f.label} must be between ${f.min} and ${f.max} ${f.unit}`)
+}
+
+const toNumber = (value: unknown): number | undefined => {
+  const n = typeof value === "number" ? value : parseFloat(String(value ?? "").trim())
+  return Number.isFinite(n) ? n : undefined
+}
+
+/**
+ * Visits saved before vitals were typed hold strings like { bp: "120/80", temp: "36.5" }.
+ * The migration converts them, but rows written by older clients can still arrive in that shape.
+ */
+export function normalizeVitals(raw: any): VitalSigns {
+  if (!raw || typeof raw !== "object") return {}
+  if (!("bp" in raw || "temp" in raw)) return cleanVitals(raw)
+  const [systolic, diastolic] = String(raw.bp || "").split("/").map(toNumber)
+  return cleanVitals({
+    systolic,
+    diastolic,
+    heartRate: toNumber(raw.heartRate),
+    temperature: toNumber(raw.temp),
+    spo2: toNumber(raw.spo2),
+    weight: toNumber(raw.weight),
+  })
+}
+
+export const hasVitals = (vitals?: VitalSigns) => !!vitals && VITAL_FIELDS.some((f) => vitals[f.key] !== undefined)
+
+export function getBmi(vitals?: VitalSigns): number | undefined {
+  if (!vitals?.weight || !vitals.height) return undefined
+  const metres = vitals.height / 100
+  return Number((vitals.weight / (metres * metres)).toFixed(1))
+}
+
+export const formatBloodPressure = (vitals?: VitalSigns) =>
+  vitals?.systolic && vitals.diastolic ? `${vitals.systolic}/${vitals.diastolic}` : undefined
+
+// "BP 120/80 mmHg, HR 72 bpm, Temp 36.8 °C, SpO2 98 %, Wt 70 kg"
+export function formatVitals(vitals?: VitalSigns): string {
+  if (!vitals) return ""
+  const bp = formatBloodPressure(vitals)
+  const parts = [
+    bp && `BP ${bp} mmHg`,
+    vitals.heartRate !== undefined && `HR ${vitals.heartRate} bpm`,
+    vitals.respiratoryRate !== undefined && `RR ${vitals.respiratoryRate}/min`,
+    vitals.temperature !== undefined && `Temp ${vitals.temperature} °C`,
+    vitals.spo2 !== undefined && `SpO2 ${vitals.spo2} %`,
+    vitals.weight !== undefined && `Wt ${vitals.weight} kg`,
+    vitals.height !== undefined && `Ht ${vitals.height} cm`,
+    getBmi(vitals) !== undefined && `BMI ${getBmi(vitals)}`,
+    vitals.muac !== undefined && `MUAC ${vitals.muac} cm`,
+  ]
+  return parts.filter(Boolean).join(", ")
+}
+
+function checkLimit(key: VitalKey, value: number | undefined, limit: VitalThreshold | undefined, flags: VitalFlag[]) {
+  if (value === undefined || !limit) return
+  const label = VITAL_LABELS[key]
+  if (limit.low !== undefined && value < limit.low) {
+    flags.push({ key, label, value, level: "low", message: `${label} low (${value} ${VITAL_UNITS[key]})` })
+  } else if (limit.high !== undefined && value > limit.high) {
+    flags.push({ key, label, value, level: "high", message: `${label} high (${value} ${VITAL_UNITS[key]})` })
+  }
+}
+
+/**
+ * Readings outside the clinic's limits. Children under 12 are checked against age bands for heart and
+ * breathing rate instead, and blood pressure and BMI limits only apply to adults.
+ * Pass the age in months when known; adult limits are used otherwise.
+ */
+export function getVitalFlags(vitals: VitalSigns | undefined, thresholds: VitalThresholds = {}, ageMonths?: number): VitalFlag[] {
+  if (!vitals) return []
+  const limits = { ...DEFAULT_VITAL_THRESHOLDS, ...thresholds }
+  const flags: VitalFlag[] = []
+  const childBand = ageMonths === undefined ? undefined : CHILD_RATE_LIMITS.find((band) => ageMonths < band.maxAgeMonths)
+  const isAdult = ageMonths === undefined || ageMonths >= 18 * 12
+
+  if (isAdult) {
+    checkLimit("systolic", vitals.systolic, limits.systolic, flags)
+    checkLimit("diastolic", vitals.diastolic, limits.diastolic, flags)
+    checkLimit("bmi", getBmi(vitals), limits.bmi, flags)
+  }
+  checkLimit("heartRate", vitals.heartRate, childBand?.heartRate || limits.heartRate, flags)
+  checkLimit("respiratoryRate", vitals.respiratoryRate, childBand?.respiratoryRate || limits.respiratoryRate, flags)
+  checkLimit("temperature", vitals.temperature, limits.temperature, flags)
+  checkLimit("spo2", vitals.spo2, limits.spo2, flags)
+
+  if (vitals.muac !== undefined && ageMonths !== undefined && ageMonths >= 6 && ageMonths < 60 && vitals.muac < MUAC_MODERATE_CM) {
+    const severe = vitals.muac < MUAC_SEVERE_CM
+    flags.push({
+      key: "muac",
+      label: VITAL_LABELS.muac,
+      value: vitals.muac,
+      level: "low",
+      severe,
+      message: `MUAC ${vitals.muac} cm: ${severe ? "severe" : "moderate"} acute malnutrition`,
+    })
+  }
+
+  // Far outside the limits, or oxygen below 90%, needs attention before the patient waits in the queue
+  for (const flag of flags) {
+    if (flag.severe !== undefined) continue
+    flag.severe =
+      (flag.key === "spo2" && flag.value < 90) ||
+      (flag.key === "systolic" && (flag.value >= 180 || flag.value < 80)) ||
+      (flag.key === "diastolic" && flag.value >= 120) ||
+      (flag.key === "temperature" && (flag.value >= 39.5 || flag.value < 35))
+  }
+
+  return flags
+}
+
+// Whole months between a date of birth and a visit
+export function ageInMonths(dateOfBirth: string | undefined, on: string | Date = new Date()): number | undefined {
+  if (!dateOfBirth) return undefined
+  const birth = new Date(dateOfBirth)
+  const date = new Date(on)
+  if (isNaN(birth.getTime()) || isNaN(date.getTime())) return undefined
+  const months = (date.getFullYear() - birth.getFullYear()) * 12 + (date.getMonth() - birth.getMonth()) - (date.getDate() < birth.getDate() ? 1 : 0)
+  return Math.max(0, months)
+}
+
+// Fractional months, for plotting on the growth charts
+export function exactAgeInMonths(dateOfBirth: string, on: string | Date): number {
+  return (new Date(on).getTime() - new Date(dateOfBirth).getTime()) / (1000 * 60 * 60 * 24 * 30.4375)
+}
+
+// Falls back to the age in years when no date of birth is recorded
+export function patientAgeInMonths(patient: Pick<Patient, "age" | "dateOfBirth"> | undefined, on: string | Date = new Date()): number | undefined {
+  if (!patient) return undefined
+  if (patient.dateOfBirth) return ageInMonths(patient.dateOfBirth, on)
+  return patient.age > 0 ? patient.age * 12 : undefined
+}
@@ -0,0 +1,10 @@
+import { useParams } from "react-router-dom"
+import PublicBooking from "../components/PublicBooking"
+
+const BookingPage = () => {
+    const { slug = "" } = useParams()
+
+    return <PublicBooking slug={slug} />
+}
+
+export default BookingPage
@@ -14,7 +14,7 @@ const routeToStages: Record<string, VisitStage[]> = {
 
 const PatientQueuePage = () => {
     const location = useLocation()
-    const { visits, patients, inventory, actions } = useStore()
+    const { visits, patients, inventory, appointments, actions } = useStore()
 
     // Get restricted stages based on current route
     const restrictedStages = routeToStages[location.pathname]
@@ -24,6 +24,7 @@ const PatientQueuePage = () => {
             visits={visits}
             patients={patients}
             inventory={inventory}
+            appointments={appointments}
             addVisit={actions.addVisit}
             updateVisit={actions.updateVisit}
             onCompleteVisit={actions.completeVisit}
@@ -2,7 +2,7 @@ import Pharmacy from "../components/Pharmacy"
 import useStore from "../store"
 
 const PharmacyPage = () => {
-    const { inventory, suppliers, inventoryLogs, visits, actions } = useStore()
+    const { inventory, suppliers, inventoryLogs, visits, purchaseOrders, stockTakes, settings, actions } = useStore()
 
     return (
         <Pharmacy
@@ -17,6 +17,15 @@ const PharmacyPage = () => {
             addSupplier={actions.addSupplier}
             updateSupplier={actions.updateSupplier}
             deleteSupplier={actions.deleteSupplier}
+            purchaseOrders={purchaseOrders}
+            settings={settings}
+            addPurchaseOrder={actions.addPurchaseOrder}
+            updatePurchaseOrder={actions.updatePurchaseOrder}
+            receivePurchaseOrder={actions.receivePurchaseOrder}
+            stockTakes={stockTakes}
+            startStockTake={actions.startStockTake}
+            saveStockTake={actions.saveStockTake}
+            postStockTake={actions.postStockTake}
         />
     )
 }
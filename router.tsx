@@ -15,6 +15,7 @@ const BulkSMSPage = lazy(() => import("./pages/BulkSMSPage"))
 const PatientQueuePage = lazy(() => import("./pages/PatientQueuePage"))
 const SuperAdminPage = lazy(() => import("./pages/SuperAdminPage"))
 const WhatsAppAgentPage = lazy(() => import("./pages/WhatsAppAgentPage"))
+const BookingPage = lazy(() => import("./pages/BookingPage"))
 
 // Loading fallback component
 function PageLoader() {
@@ -39,6 +40,11 @@ export const router = createBrowserRouter([
         path: "/login",
         element: <Login />,
     },
+    {
+        // Public self-booking, no sign-in
+        path: "/book/:slug",
+        element: withSuspense(BookingPage),
+    },
     {
         path: "/",
         element: <AppLayout />,
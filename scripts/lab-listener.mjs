@@ -0,0 +1,137 @@
+#!/usr/bin/env node
+// Lab analyser listener
+// Runs on the lab PC and accepts result messages from analysers over TCP, on one port for both protocols:
+//   - HL7 v2 over MLLP (<VT> message <FS><CR>), answered with an HL7 ACK
+//   - ASTM E1381/E1394 (<ENQ>, <STX> frames, <EOT>), each frame answered with <ACK> or <NAK>
+// Messages are saved to lab_analyser_messages, where the lab worklist picks them up for matching and review.
+// It signs in as a clinic team member (e.g. a Lab Tech account kept for the analyser PC), so messages are
+// filed under that member's clinic.
+// Required env vars: SUPABASE_URL, SUPABASE_ANON_KEY, LAB_LISTENER_EMAIL, LAB_LISTENER_PASSWORD
+// Optional: LAB_LISTENER_PORT (default 2575)
+import net from 'node:net'
+import { createClient } from '@supabase/supabase-js'
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL
+const anonKey = process.env.SUPABASE_ANON_KEY || process.env.VITE_SUPABASE_ANON_KEY
+const email = process.env.LAB_LISTENER_EMAIL
+const password = process.env.LAB_LISTENER_PASSWORD
+const port = Number(process.env.LAB_LISTENER_PORT || 2575)
+
+if (!supabaseUrl || !anonKey || !email || !password) {
+  console.error('Missing environment variables. Please set SUPABASE_URL, SUPABASE_ANON_KEY, LAB_LISTENER_EMAIL and LAB_LISTENER_PASSWORD')
+  process.exit(1)
+}
+
+const supabase = createClient(supabaseUrl, anonKey)
+
+const VT = '\x0b'
+const FS = '\x1c'
+const CR = '\r'
+const ENQ = '\x05'
+const STX = '\x02'
+const EOT = '\x04'
+const ACK = '\x06'
+const NAK = '\x15'
+
+// A failed save is logged and reported to the analyser (HL7 AE) rather than thrown, so one bad message
+// cannot stop the connection
+async function saveMessage(format, raw, source) {
+  try {
+    const { error } = await supabase.from('lab_analyser_messages').insert({ format, raw, source })
+    if (error) throw error
+  } catch (err) {
+    console.error(`Failed to save ${format} message from ${source}:`, err.message)
+    return false
+  }
+  console.log(`Saved ${format} message from ${source} (${raw.length} bytes)`)
+  return true
+}
+
+// Acknowledges an HL7 message by its control id (MSH-10); AE tells the analyser to resend
+function hl7Ack(message, accepted) {
+  const msh = message.split(/\r\n|\r|\n/).find((s) => s.startsWith('MSH')) || 'MSH|^~\\&'
+  const fs = msh[3] || '|'
+  const fields = msh.split(fs)
+  const timestamp = new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14)
+  const segments = [
+    ['MSH', fields[1] || '^~\\&', 'JUAAFYA', 'LAB', fields[2] || '', fields[3] || '', timestamp, '', 'ACK^R01', `ACK${Date.now()}`, 'P', fields[11] || '2.5.1'].join(fs),
+    ['MSA', accepted ? 'AA' : 'AE', fields[9] || ''].join(fs),
+  ]
+  return VT + segments.join(CR) + CR + FS + CR
+}
+
+// Frame checksum: sum of the bytes from the frame number to ETX/ETB inclusive, as two hex digits
+function astmChecksum(body) {
+  let sum = 0
+  for (const ch of body) sum = (sum + ch.charCodeAt(0)) % 256
+  return sum.toString(16).toUpperCase().padStart(2, '0')
+}
+
+function handleConnection(socket) {
+  const source = `${socket.remoteAddress}:${socket.remotePort}`
+  let buffer = ''
+  let astmRecords = ''
+  let pending = Promise.resolve()
+  console.log(`Analyser connected from ${source}`)
+
+  const drain = async () => {
+    // HL7 over MLLP
+    while (buffer.includes(VT) && buffer.includes(FS + CR)) {
+      const start = buffer.indexOf(VT)
+      const end = buffer.indexOf(FS + CR, start)
+      if (end < 0) break
+      const message = buffer.slice(start + 1, end)
+      buffer = buffer.slice(end + 2)
+      const saved = await saveMessage('HL7', message, source)
+      socket.write(hl7Ack(message, saved), 'latin1')
+    }
+
+    // ASTM E1381 session
+    while (buffer.length > 0 && !buffer.startsWith(VT)) {
+      const ch = buffer[0]
+      if (ch === ENQ) {
+        astmRecords = ''
+        buffer = buffer.slice(1)
+        socket.write(ACK)
+      } else if (ch === STX) {
+        const frameEnd = buffer.search(/[\x03\x17][^\r\n]{2}\r\n/)
+        if (frameEnd < 0) break
+        const body = buffer.slice(1, frameEnd + 1)
+        const checksum = buffer.slice(frameEnd + 1, frameEnd + 3)
+        buffer = buffer.slice(frameEnd + 5)
+        if (astmChecksum(body) !== checksum.toUpperCase()) {
+          socket.write(NAK)
+          continue
+        }
+        astmRecords += body.slice(1, -1)
+        socket.write(ACK)
+      } else if (ch === EOT) {
+        buffer = buffer.slice(1)
+        if (astmRecords.trim()) await saveMessage('ASTM', astmRecords, source)
+        astmRecords = ''
+      } else {
+        buffer = buffer.slice(1)
+      }
+    }
+  }
+
+  // Chunks are handled one after another so a slow save cannot interleave two messages
+  socket.setEncoding('latin1')
+  socket.on('data', (chunk) => {
+    buffer += chunk
+    pending = pending.then(drain).catch((err) => console.error(`Failed to process data from ${source}:`, err.message))
+  })
+  socket.on('error', (err) => console.error(`Connection error from ${source}:`, err.message))
+  socket.on('close', () => console.log(`Analyser disconnected: ${source}`))
+}
+
+async function start() {
+  const { error } = await supabase.auth.signInWithPassword({ email, password })
+  if (error) {
+    console.error('Failed to sign in:', error.message)
+    process.exit(1)
+  }
+  net.createServer(handleConnection).listen(port, () => console.log(`Lab listener accepting HL7 (MLLP) and ASTM on port ${port}`))
+}
+
+start()
@@ -0,0 +1,55 @@
+import type { Appointment, ClinicSettings, Patient } from '../types'
+import { sendAppointmentConfirmationSMS } from './smsService'
+import { sendAppointmentConfirmation } from './emailService'
+import logger from '../lib/logger'
+
+export interface RescheduleNotificationResult {
+  sms: boolean
+  email: boolean
+}
+
+/**
+ * True when the patient-facing details of an appointment changed
+ */
+export function isRescheduled(previous: Appointment, updated: Appointment): boolean {
+  return previous.date !== updated.date ||
+    previous.time !== updated.time ||
+    (previous.providerId || '') !== (updated.providerId || '')
+}
+
+/**
+ * Send the new date and time to the patient by SMS and, when we hold an address, email.
+ * Honours the clinic's "Patient Appointment Reminders" trigger; failures are logged, never thrown.
+ */
+export async function notifyAppointmentRescheduled(
+  appointment: Appointment,
+  patient: Patient,
+  settings: ClinicSettings,
+): Promise<RescheduleNotificationResult> {
+  const result: RescheduleNotificationResult = { sms: false, email: false }
+  if (!settings.notifications?.appointmentReminders) return result
+
+  const dateStr = new Date(`${appointment.date}T00:00:00`).toLocaleDateString('en-US', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  })
+  const doctorName = appointment.providerName || 'our clinician'
+  const clinicName = settings.name || 'Our Clinic'
+
+  try {
+    if (patient.phone) {
+      const sms = await sendAppointmentConfirmationSMS(patient.phone, patient.name, dateStr, appointment.time, doctorName, clinicName)
+      result.sms = sms.success
+    }
+    if (patient.email) {
+      const email = await sendAppointmentConfirmation(patient.email, patient.name, dateStr, appointment.time, doctorName, clinicName)
+      result.email = email.success
+    }
+  } catch (error) {
+    logger.error('Error sending reschedule notification:', error)
+  }
+
+  return result
+}
@@ -13,7 +13,9 @@ export type AuditAction =
   | 'INVENTORY_CREATE'
   | 'INVENTORY_UPDATE'
   | 'INVENTORY_DELETE'
+  | 'STOCK_TAKE_POST'
   | 'PRESCRIPTION_DISPENSE'
+  | 'PRESCRIPTION_OVERRIDE'
   | 'VISIT_START'
   | 'VISIT_UPDATE'
   | 'VISIT_COMPLETE'
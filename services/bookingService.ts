@@ -0,0 +1,93 @@
+import { supabase } from '@/lib/supabaseClient'
+import logger from '@/lib/logger'
+
+export interface PublicClinic {
+  name: string
+  slug: string
+  phone?: string
+  location?: string
+  logo?: string
+  timezone: string
+  today: string // YYYY-MM-DD in the clinic's timezone
+  daysAhead: number
+  appointmentTypes: { name: string; durationMinutes: number }[]
+}
+
+export interface PublicSlot {
+  providerId: string
+  providerName: string
+  start: string // HH:MM
+  end: string
+}
+
+export interface BookingRequest {
+  phone: string
+  code: string
+  name: string
+  date: string
+  time: string
+  providerId: string
+  appointmentType?: string
+  reason?: string
+}
+
+export interface BookingConfirmation {
+  id: string
+  date: string
+  time: string
+  providerName: string
+}
+
+/**
+ * Call the public-booking Edge Function. It answers errors with a JSON { error } meant for the patient,
+ * which supabase-js only exposes through the raw response.
+ */
+async function callBooking<T>(slug: string, action: string, params: Record<string, unknown> = {}): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('public-booking', {
+    body: { action, slug, ...params },
+  })
+
+  if (error) {
+    let message = 'Online booking is unavailable right now. Please call the clinic.'
+    try {
+      const body = await (error as any).context?.json()
+      if (body?.error) message = body.error
+    } catch {
+      // Not a JSON error body
+    }
+    logger.error(`Booking ${action} failed:`, error)
+    throw new Error(message)
+  }
+
+  return data as T
+}
+
+/**
+ * Public details of a clinic that accepts online bookings
+ */
+export function getBookingClinic(slug: string): Promise<PublicClinic> {
+  return callBooking<PublicClinic>(slug, 'clinic')
+}
+
+/**
+ * Free slots on a date; overbookable slots are never offered online
+ */
+export async function getBookingSlots(slug: string, date: string, appointmentType?: string): Promise<PublicSlot[]> {
+  const data = await callBooking<{ slots: PublicSlot[] }>(slug, 'slots', { date, appointmentType })
+  return data.slots || []
+}
+
+/**
+ * Text a one-time code to the patient's phone
+ */
+export async function requestBookingCode(slug: string, phone: string): Promise<void> {
+  await callBooking(slug, 'request_otp', { phone })
+}
+
+/**
+ * Verify the code and book the slot, registering the patient if the clinic doesn't know the number
+ */
+export async function confirmBooking(slug: string, request: BookingRequest): Promise<BookingConfirmation> {
+  const data = await callBooking<{ appointment: BookingConfirmation }>(slug, 'book', { ...request })
+  return data.appointment
+}
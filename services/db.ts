@@ -1,8 +1,159 @@
 import { supabase } from '../lib/supabaseClient';
-import { Patient, InventoryItem, Appointment, Visit, Supplier } from '../types';
+import { Patient, InventoryItem, InventoryLog, InventoryReconciliation, Appointment, Visit, Supplier, PurchaseOrder, GoodsReceiptLine, StockTake, ControlledDrugEntry, WitnessConfirmation, AppointmentType, ProviderWorkingHours, AvailableSlot, RecurrenceRule, PatientAttendance, WaitlistEntry, AppointmentFlowDay, NoteTemplate, NoteAddendum, MohVisitRecord, Dhis2Submission, VitalsReading, LabTestProfile, LabAnalyserMessage, LabAnalyserMessageStatus } from '../types';
 // Note: Permission checks are enforced by Supabase Row Level Security (RLS) policies
 import { enterpriseDb } from './enterprise-db';
 import logger from '../lib/logger';
+import { normalizeVitals } from '../lib/vitals';
+import { resolveLabTest } from '../lib/labResults';
+
+const mapInventoryLog = (l: any): InventoryLog => ({
+    id: l.id,
+    itemId: l.item_id,
+    itemName: l.item_name,
+    action: l.action,
+    quantityChange: l.quantity_change,
+    quantityAfter: l.quantity_after,
+    reference: l.reference || undefined,
+    notes: l.notes || '',
+    timestamp: l.created_at,
+    user: l.user_name || 'Staff'
+});
+
+const mapPurchaseOrder = (o: any): PurchaseOrder => ({
+    id: o.id,
+    poNumber: o.po_number,
+    supplierId: o.supplier_id,
+    status: o.status,
+    lines: o.lines || [],
+    notes: o.notes || undefined,
+    createdAt: o.created_at,
+    sentAt: o.sent_at || undefined,
+    receivedAt: o.received_at || undefined
+});
+
+const mapStockTake = (t: any): StockTake => ({
+    id: t.id,
+    reference: t.reference,
+    status: t.status,
+    lines: t.lines || [],
+    notes: t.notes || undefined,
+    createdAt: t.created_at,
+    postedAt: t.posted_at || undefined,
+    postedBy: t.posted_by || undefined
+});
+
+const mapAppointment = (a: any): Appointment => ({
+    id: a.id,
+    patientId: a.patient_id,
+    patientName: a.patient_name,
+    date: a.date,
+    time: a.time?.slice(0, 5),
+    reason: a.reason,
+    status: a.status,
+    providerId: a.provider_id || undefined,
+    providerName: a.provider_name || undefined,
+    appointmentType: a.appointment_type || undefined,
+    durationMinutes: a.duration_minutes || undefined,
+    seriesId: a.series_id || undefined,
+    seriesIndex: a.series_index || undefined,
+    patientResponse: a.patient_response || undefined,
+    patientResponseAt: a.patient_response_at || undefined,
+    bookingSource: a.booking_source || undefined,
+    checkedInAt: a.checked_in_at || undefined
+});
+
+const mapWaitlistEntry = (e: any): WaitlistEntry => {
+    const offer = (e.waitlist_offers || []).sort((a: any, b: any) => b.created_at.localeCompare(a.created_at))[0];
+    return {
+        id: e.id,
+        patientId: e.patient_id,
+        patientName: e.patients?.full_name || undefined,
+        providerId: e.provider_id || undefined,
+        providerName: e.users?.full_name || undefined,
+        appointmentType: e.appointment_type || undefined,
+        earliestDate: e.earliest_date,
+        latestDate: e.latest_date,
+        notes: e.notes || undefined,
+        status: e.status,
+        createdAt: e.created_at,
+        offer: offer ? { date: offer.date, time: offer.time.slice(0, 5), status: offer.status, expiresAt: offer.expires_at || undefined } : undefined
+    };
+};
+
+// Foreign key hints: waitlist_offers also links entries to patients and users
+const WAITLIST_COLUMNS = '*, patients!waitlist_entries_patient_id_fkey(full_name), users!waitlist_entries_provider_id_fkey(full_name), waitlist_offers(date, time, status, expires_at, created_at)';
+
+const mapControlledEntry = (e: any): ControlledDrugEntry => ({
+    id: e.id,
+    itemId: e.item_id,
+    itemName: e.item_name,
+    entryType: e.entry_type,
+    quantityChange: e.quantity_change,
+    balance: e.balance,
+    reference: e.reference || undefined,
+    patientName: e.patient_name || undefined,
+    notes: e.notes || undefined,
+    recordedBy: e.recorded_by_name || undefined,
+    witnessedBy: e.witnessed_by_name || undefined,
+    timestamp: e.created_at
+});
+
+const mapNoteTemplate = (t: any): NoteTemplate => ({
+    id: t.id,
+    name: t.name,
+    subjective: t.subjective || '',
+    objective: t.objective || '',
+    assessment: t.assessment || '',
+    plan: t.plan || ''
+});
+
+// Older catalogue rows have no analytes; resolveLabTest fills them from the starter test of the same name
+const mapLabTest = (t: any): LabTestProfile => resolveLabTest({
+    id: t.id,
+    name: t.name,
+    code: t.code || undefined,
+    price: Number(t.price) || 0,
+    category: t.category,
+    analytes: Array.isArray(t.analytes) ? t.analytes : [],
+    specimenType: t.specimen_type || undefined,
+    turnaroundMinutes: t.turnaround_minutes || undefined
+})!;
+
+const mapLabAnalyserMessage = (m: any): LabAnalyserMessage => ({
+    id: m.id,
+    format: m.format,
+    raw: m.raw,
+    source: m.source || undefined,
+    receivedAt: m.received_at,
+    status: m.status
+});
+
+const mapDhis2Submission = (s: any): Dhis2Submission => ({
+    id: s.id,
+    form: s.form,
+    period: s.period,
+    orgUnit: s.org_unit,
+    dataSet: s.data_set,
+    dryRun: s.dry_run,
+    status: s.status,
+    valueCount: s.value_count,
+    imported: s.imported,
+    updated: s.updated,
+    ignored: s.ignored,
+    conflicts: s.conflicts || [],
+    message: s.message || undefined,
+    submittedByName: s.submitted_by_name || undefined,
+    createdAt: s.created_at
+});
+
+const mapNoteAddendum = (a: any): NoteAddendum => ({
+    id: a.id,
+    visitId: a.visit_id,
+    section: a.section || undefined,
+    body: a.body,
+    authorName: a.author_name || undefined,
+    createdAt: a.created_at
+});
 
 export const db = {
     // --- Connection Check ---
@@ -21,7 +172,7 @@ export const db = {
     getPatients: async (): Promise<Patient[]> => {
         const { data, error } = await supabase
             .from('patients')
-            .select('id, full_name, phone_number, date_of_birth, gender, updated_at, chronic_conditions')
+            .select('id, full_name, phone_number, email, reminder_opt_out, date_of_birth, gender, updated_at, chronic_conditions, allergies')
             .order('updated_at', { ascending: false })
             .limit(100);
 
@@ -31,10 +182,14 @@ export const db = {
             id: p.id,
             name: p.full_name,
             phone: p.phone_number,
+            email: p.email || undefined,
+            reminderOptOut: !!p.reminder_opt_out,
             age: p.date_of_birth ? Math.floor((Date.now() - new Date(p.date_of_birth).getTime()) / (1000 * 60 * 60 * 24 * 365)) : 0,
+            dateOfBirth: p.date_of_birth || undefined,
             gender: p.gender,
             lastVisit: p.updated_at?.split('T')[0] || new Date().toISOString().split('T')[0],
             history: p.chronic_conditions || [],
+            allergies: p.allergies || [],
             vitals: p.vital_signs || {}
         }));
     },
@@ -44,7 +199,7 @@ export const db = {
         const { id, ...payload } = patient; // Remove temporary ID
 
         // Calculate date of birth from age if needed
-        const dateOfBirth = payload.age ? new Date(Date.now() - payload.age * 365 * 24 * 60 * 60 * 1000).toISOString().split('T')[0] : null;
+        const dateOfBirth = payload.dateOfBirth || (payload.age ? new Date(Date.now() - payload.age * 365 * 24 * 60 * 60 * 1000).toISOString().split('T')[0] : null);
 
         const { data, error } = await supabase.from('patients').insert({
             full_name: payload.name,
@@ -52,6 +207,7 @@ export const db = {
             date_of_birth: dateOfBirth,
             gender: payload.gender,
             chronic_conditions: payload.history,
+            allergies: payload.allergies || [],
             clinic_id: await (async () => {
                 const { data: userClinic } = await supabase.from('users').select('clinic_id').eq('id', (await supabase.auth.getUser()).data.user?.id).single();
                 return userClinic?.clinic_id;
@@ -66,15 +222,21 @@ export const db = {
             name: data.full_name,
             phone: data.phone_number,
             age: payload.age || 0,
+            dateOfBirth: data.date_of_birth || undefined,
             gender: data.gender,
             notes: "",
             lastVisit: data.updated_at?.split('T')[0] || "",
             history: data.chronic_conditions || [],
+            allergies: data.allergies || [],
             vitals: data.vital_signs || {}
         };
     },
     updatePatient: async (patient: Patient) => {
-        const dateOfBirth = patient.age ? new Date(Date.now() - patient.age * 365 * 24 * 60 * 60 * 1000).toISOString().split('T')[0] : null;
+        // Keep a known date of birth unless the age was changed; growth charts need it to the day
+        const knownAge = patient.dateOfBirth ? Math.floor((Date.now() - new Date(patient.dateOfBirth).getTime()) / (1000 * 60 * 60 * 24 * 365)) : undefined;
+        const dateOfBirth = patient.dateOfBirth && knownAge === patient.age
+            ? patient.dateOfBirth
+            : patient.age ? new Date(Date.now() - patient.age * 365 * 24 * 60 * 60 * 1000).toISOString().split('T')[0] : null;
 
         const { error } = await supabase.from('patients').update({
             full_name: patient.name,
@@ -82,6 +244,8 @@ export const db = {
             date_of_birth: dateOfBirth,
             gender: patient.gender,
             chronic_conditions: patient.history,
+            allergies: patient.allergies, // Left unchanged when the caller does not know them
+            reminder_opt_out: !!patient.reminderOptOut,
             updated_at: new Date().toISOString()
         }).eq('id', patient.id);
 
@@ -111,6 +275,19 @@ export const db = {
         const { data, error } = await supabase.from('inventory').select('*').order('name').limit(100);
         if (error) throw error;
 
+        // Units held by prescriptions that have not been dispensed yet
+        const reserved: Record<string, number> = {};
+        const { data: holds, error: holdsError } = await supabase
+            .from('stock_reservations')
+            .select('inventory_id, quantity')
+            .eq('status', 'held');
+        if (holdsError) {
+            logger.warn('Stock reservations not available:', holdsError);
+        }
+        (holds || []).forEach((h: any) => {
+            reserved[h.inventory_id] = (reserved[h.inventory_id] || 0) + h.quantity;
+        });
+
         return (data || []).map((i: any) => ({
             id: i.id,
             name: i.name,
@@ -119,9 +296,12 @@ export const db = {
             minStockLevel: i.reorder_level || i.min_stock_level,
             unit: i.unit,
             price: i.price,
+            batches: i.batches || [],
+            reserved: reserved[i.id] || 0,
             batchNumber: i.batch_number,
             expiryDate: i.expiry_date,
-            supplierId: i.supplier_id
+            supplierId: i.supplier_id,
+            isControlled: i.is_controlled || false
         }));
     },
 
@@ -132,12 +312,16 @@ export const db = {
         const { data, error } = await supabase.from('inventory').insert({
             name: payload.name,
             category: payload.category,
+            stock: payload.stock,
+            batches: payload.batches || [],
+            movement_note: 'Opening stock',
             min_stock_level: payload.minStockLevel,
             unit: payload.unit,
             price: payload.price,
             batch_number: payload.batchNumber,
             expiry_date: payload.expiryDate,
-            supplier_id: payload.supplierId
+            supplier_id: payload.supplierId,
+            is_controlled: payload.isControlled || false
         }).select().single();
 
         if (error) throw error;
@@ -150,23 +334,46 @@ export const db = {
             minStockLevel: data.min_stock_level,
             unit: data.unit,
             price: data.price,
+            batches: data.batches || [],
             batchNumber: data.batch_number,
             expiryDate: data.expiry_date,
-            supplierId: data.supplier_id
+            supplierId: data.supplier_id,
+            isControlled: data.is_controlled || false
         };
     },
 
-    updateInventoryItem: async (item: InventoryItem) => {
-        const { error } = await supabase.from('inventory').update({
+    updateInventoryItem: async (item: InventoryItem, reason?: string, witness?: WitnessConfirmation) => {
+        const details = {
             name: item.name,
             category: item.category,
-            stock: item.stock,
             min_stock_level: item.minStockLevel,
             unit: item.unit,
             price: item.price,
+            supplier_id: item.supplierId,
+            is_controlled: item.isControlled || false
+        };
+
+        if (witness) {
+            // Controlled items: details, lots and the register entry in one witnessed transaction
+            const { error } = await supabase.rpc('update_inventory_lots_witnessed', {
+                p_item_id: item.id,
+                p_details: details,
+                p_batches: item.batches || [],
+                p_note: reason,
+                p_witness_id: witness.witnessId,
+                p_witness_pin: witness.pin
+            });
+            if (error) throw error;
+            return;
+        }
+
+        const { error } = await supabase.from('inventory').update({
+            ...details,
+            stock: item.stock,
+            batches: item.batches || [],
+            movement_note: reason,
             batch_number: item.batchNumber,
-            expiry_date: item.expiryDate,
-            supplier_id: item.supplierId
+            expiry_date: item.expiryDate
         }).eq('id', item.id);
         if (error) throw error;
     },
@@ -189,6 +396,66 @@ export const db = {
         if (error) throw error;
     },
 
+    // --- Dispensing ---
+    // Re-holds stock for the visit's current prescription; rejects if an item is short
+    reserveStockForVisit: async (visitId: string) => {
+        const { error } = await supabase.rpc('reserve_prescription_stock', { p_visit_id: visitId });
+        if (error) throw error;
+    },
+
+    // Dispenses the whole prescription in one transaction (FEFO lots, log, visit -> Clearance) or nothing
+    // Prescriptions containing controlled drugs go through the witnessed variant
+    dispensePrescription: async (visitId: string, witness?: WitnessConfirmation): Promise<InventoryLog[]> => {
+        const { data, error } = witness
+            ? await supabase.rpc('dispense_prescription_witnessed', {
+                p_visit_id: visitId,
+                p_witness_id: witness.witnessId,
+                p_witness_pin: witness.pin
+            })
+            : await supabase.rpc('dispense_prescription', { p_visit_id: visitId });
+        if (error) throw error;
+
+        return (data || []).map(mapInventoryLog);
+    },
+
+    // --- Inventory Ledger ---
+    // Movements are appended by a database trigger on every stock change; the ledger is read-only here
+    getInventoryLogs: async (itemId?: string): Promise<InventoryLog[]> => {
+        let query = supabase.from('inventory_logs').select('*').order('created_at', { ascending: false });
+        query = itemId ? query.eq('item_id', itemId) : query.limit(200);
+
+        const { data, error } = await query;
+        if (error) throw error;
+
+        return (data || []).map(mapInventoryLog);
+    },
+
+    // Dispensed movements since a date, for consumption-based reorder suggestions
+    getDispensingHistory: async (since: string): Promise<InventoryLog[]> => {
+        const { data, error } = await supabase
+            .from('inventory_logs')
+            .select('*')
+            .eq('action', 'Dispensed')
+            .gte('created_at', since)
+            .order('created_at', { ascending: true });
+        if (error) throw error;
+
+        return (data || []).map(mapInventoryLog);
+    },
+
+    getInventoryReconciliation: async (): Promise<InventoryReconciliation[]> => {
+        const { data, error } = await supabase.from('inventory_ledger_reconciliation').select('*').order('item_name');
+        if (error) throw error;
+
+        return (data || []).map((r: any) => ({
+            itemId: r.item_id,
+            itemName: r.item_name,
+            stock: r.stock,
+            ledgerBalance: r.ledger_balance,
+            variance: r.variance
+        }));
+    },
+
     // --- Appointments ---
     getAppointments: async (): Promise<Appointment[]> => {
         const { data, error } = await supabase
@@ -199,15 +466,7 @@ export const db = {
 
         if (error) throw error;
 
-        return (data || []).map((a: any) => ({
-            id: a.id,
-            patientId: a.patient_id,
-            patientName: a.patient_name,
-            date: a.date,
-            time: a.time,
-            reason: a.reason,
-            status: a.status
-        }));
+        return (data || []).map(mapAppointment);
     },
 
     createAppointment: async (appt: Appointment): Promise<Appointment> => {
@@ -220,32 +479,267 @@ export const db = {
             date: payload.date,
             time: payload.time,
             reason: payload.reason,
-            status: payload.status
+            status: payload.status,
+            provider_id: payload.providerId || null,
+            appointment_type: payload.appointmentType || null,
+            duration_minutes: payload.durationMinutes || 30
         }).select().single();
 
         if (error) throw error;
 
-        return {
-            id: data.id,
-            patientId: data.patient_id,
-            patientName: data.patient_name,
-            date: data.date,
-            time: data.time,
-            reason: data.reason,
-            status: data.status
-        };
+        return mapAppointment(data);
     },
 
+    // Conflicts and working hours are checked by a database trigger; its message is surfaced as-is
     updateAppointment: async (appt: Appointment) => {
         const { error } = await supabase.from('appointments').update({
             date: appt.date,
             time: appt.time,
             reason: appt.reason,
-            status: appt.status
+            status: appt.status,
+            provider_id: appt.providerId || null,
+            appointment_type: appt.appointmentType || null,
+            duration_minutes: appt.durationMinutes || 30
         }).eq('id', appt.id);
         if (error) throw error;
     },
 
+    // Books every occurrence in one transaction; a clash on any date rejects the whole series
+    createAppointmentSeries: async (appt: Appointment, rule: RecurrenceRule): Promise<Appointment[]> => {
+        const { data: seriesId, error } = await supabase.rpc('create_appointment_series', {
+            p_patient_id: appt.patientId,
+            p_start_date: appt.date,
+            p_time: appt.time,
+            p_interval_weeks: rule.intervalWeeks,
+            p_until: rule.until || null,
+            p_count: rule.count || null,
+            p_reason: appt.reason || null,
+            p_provider_id: appt.providerId || null,
+            p_appointment_type: appt.appointmentType || null
+        });
+        if (error) throw error;
+
+        const { data, error: fetchError } = await supabase
+            .from('appointments')
+            .select('*')
+            .eq('series_id', seriesId)
+            .order('date');
+        if (fetchError) throw fetchError;
+
+        return (data || []).map(mapAppointment);
+    },
+
+    // Applies the edit to this and every later scheduled occurrence, moving dates by dayShift
+    updateAppointmentSeries: async (appt: Appointment, dayShift: number): Promise<number> => {
+        const { data, error } = await supabase.rpc('update_appointment_series', {
+            p_appointment_id: appt.id,
+            p_time: appt.time,
+            p_reason: appt.reason,
+            p_provider_id: appt.providerId || null,
+            p_appointment_type: appt.appointmentType || null,
+            p_day_shift: dayShift
+        });
+        if (error) throw error;
+        return data || 0;
+    },
+
+    cancelAppointmentSeries: async (appointmentId: string): Promise<number> => {
+        const { data, error } = await supabase.rpc('cancel_appointment_series', { p_appointment_id: appointmentId });
+        if (error) throw error;
+        return data || 0;
+    },
+
+    // --- Scheduling ---
+    // Free start times for a date; the same RPC backs the assistant and WhatsApp booking
+    getAvailableSlots: async (date: string, appointmentType?: string, providerId?: string): Promise<AvailableSlot[]> => {
+        const { data, error } = await supabase.rpc('get_available_slots', {
+            p_date: date,
+            p_appointment_type: appointmentType || null,
+            p_provider_id: providerId || null
+        });
+        if (error) throw error;
+
+        return (data || []).map((s: any) => ({
+            providerId: s.provider_id,
+            providerName: s.provider_name || 'Provider',
+            start: s.slot_start.slice(0, 5),
+            end: s.slot_end.slice(0, 5),
+            overbooked: !!s.overbooked
+        }));
+    },
+
+    // No-show history per patient (last 12 months)
+    getPatientAttendance: async (): Promise<Record<string, PatientAttendance>> => {
+        const { data, error } = await supabase.rpc('get_patient_attendance');
+        if (error) throw error;
+
+        const byPatient: Record<string, PatientAttendance> = {};
+        (data || []).forEach((r: any) => {
+            byPatient[r.patient_id] = {
+                patientId: r.patient_id,
+                attended: r.attended,
+                noShows: r.no_shows,
+                noShowRate: r.no_show_rate === null ? null : Number(r.no_show_rate)
+            };
+        });
+        return byPatient;
+    },
+
+    // Scheduled vs walk-in visits and punctuality per day, in the clinic's timezone
+    getAppointmentFlowReport: async (from: string, to: string): Promise<AppointmentFlowDay[]> => {
+        const { data, error } = await supabase.rpc('get_appointment_flow_report', { p_from: from, p_to: to });
+        if (error) throw error;
+
+        return (data || []).map((r: any) => ({
+            day: r.day,
+            scheduledVisits: r.scheduled_visits,
+            walkInVisits: r.walk_in_visits,
+            onTime: r.on_time,
+            late: r.late,
+            averageMinutesLate: r.average_minutes_late === null ? null : Number(r.average_minutes_late),
+            booked: r.booked,
+            noShows: r.no_shows
+        }));
+    },
+
+    // Coded visits with the patient's date of birth, for MOH 705 reporting
+    getMohVisits: async (from: string, to: string): Promise<MohVisitRecord[]> => {
+        // A month of visits easily passes the API's 1000-row cap, so read it page by page
+        const pageSize = 1000;
+        const rows: any[] = [];
+        for (let offset = 0; ; offset += pageSize) {
+            const { data, error } = await supabase
+                .from('visits')
+                .select('id, patient_id, start_time, coded_diagnoses, patients(date_of_birth)')
+                .gte('start_time', from)
+                .lt('start_time', to)
+                .order('start_time')
+                .order('id')
+                .range(offset, offset + pageSize - 1);
+            if (error) throw error;
+            rows.push(...(data || []));
+            if (!data || data.length < pageSize) break;
+        }
+
+        return rows.map((v: any) => ({
+            visitId: v.id,
+            patientId: v.patient_id,
+            startTime: v.start_time,
+            dateOfBirth: v.patients?.date_of_birth || undefined,
+            diagnoses: v.coded_diagnoses || []
+        }));
+    },
+
+    // A patient's vitals from every visit, oldest first, for the trend charts
+    getPatientVitals: async (patientId: string): Promise<VitalsReading[]> => {
+        const { data, error } = await supabase
+            .from('visits')
+            .select('id, start_time, vitals')
+            .eq('patient_id', patientId)
+            .order('start_time');
+        if (error) throw error;
+
+        return (data || [])
+            .map((v: any) => ({ visitId: v.id, takenAt: v.vitals?.recordedAt || v.start_time, vitals: normalizeVitals(v.vitals) }))
+            .filter((r: VitalsReading) => Object.keys(r.vitals).some(key => key !== 'recordedAt'));
+    },
+
+    // Latest DHIS2 pushes first; written by the dhis2-push Edge Function
+    getDhis2Submissions: async (limit = 20): Promise<Dhis2Submission[]> => {
+        const { data, error } = await supabase
+            .from('dhis2_submissions')
+            .select('id, form, period, org_unit, data_set, dry_run, status, value_count, imported, updated, ignored, conflicts, message, submitted_by_name, created_at')
+            .order('created_at', { ascending: false })
+            .limit(limit);
+        if (error) throw error;
+
+        return (data || []).map(mapDhis2Submission);
+    },
+
+    getAppointmentTypes: async (): Promise<AppointmentType[]> => {
+        const { data, error } = await supabase.from('appointment_types').select('*').order('name');
+        if (error) throw error;
+
+        return (data || []).map((t: any) => ({ id: t.id, name: t.name, durationMinutes: t.duration_minutes }));
+    },
+
+    saveAppointmentType: async (type: AppointmentType): Promise<AppointmentType> => {
+        const { data, error } = await supabase.from('appointment_types').upsert({
+            ...(type.id ? { id: type.id } : {}),
+            name: type.name,
+            duration_minutes: type.durationMinutes
+        }).select().single();
+        if (error) throw error;
+
+        return { id: data.id, name: data.name, durationMinutes: data.duration_minutes };
+    },
+
+    deleteAppointmentType: async (id: string) => {
+        const { error } = await supabase.from('appointment_types').delete().eq('id', id);
+        if (error) throw error;
+    },
+
+    getProviderSchedules: async (): Promise<ProviderWorkingHours[]> => {
+        const { data, error } = await supabase.from('provider_schedules').select('*').order('weekday').order('start_time');
+        if (error) throw error;
+
+        return (data || []).map((h: any) => ({
+            id: h.id,
+            providerId: h.provider_id,
+            weekday: h.weekday,
+            startTime: h.start_time.slice(0, 5),
+            endTime: h.end_time.slice(0, 5)
+        }));
+    },
+
+    // Replaces a provider's whole weekly schedule
+    saveProviderSchedule: async (providerId: string, hours: ProviderWorkingHours[]) => {
+        const { error: deleteError } = await supabase.from('provider_schedules').delete().eq('provider_id', providerId);
+        if (deleteError) throw deleteError;
+        if (hours.length === 0) return;
+
+        const { error } = await supabase.from('provider_schedules').insert(hours.map(h => ({
+            provider_id: providerId,
+            weekday: h.weekday,
+            start_time: h.startTime,
+            end_time: h.endTime
+        })));
+        if (error) throw error;
+    },
+
+    // --- Waitlist ---
+    // Open entries (waiting or holding an offer), oldest first
+    getWaitlist: async (): Promise<WaitlistEntry[]> => {
+        const { data, error } = await supabase
+            .from('waitlist_entries')
+            .select(WAITLIST_COLUMNS)
+            .in('status', ['Waiting', 'Offered'])
+            .order('created_at');
+        if (error) throw error;
+
+        return (data || []).map(mapWaitlistEntry);
+    },
+
+    addWaitlistEntry: async (entry: WaitlistEntry): Promise<WaitlistEntry> => {
+        const { data, error } = await supabase.from('waitlist_entries').insert({
+            patient_id: entry.patientId,
+            provider_id: entry.providerId || null,
+            appointment_type: entry.appointmentType || null,
+            earliest_date: entry.earliestDate,
+            latest_date: entry.latestDate,
+            notes: entry.notes || null
+        }).select(WAITLIST_COLUMNS).single();
+        if (error) throw error;
+
+        return mapWaitlistEntry(data);
+    },
+
+    // Entries are kept for history; removing one only stops further offers
+    removeWaitlistEntry: async (id: string) => {
+        const { error } = await supabase.from('waitlist_entries').update({ status: 'Removed' }).eq('id', id);
+        if (error) throw error;
+    },
+
     deleteAppointment: async (id: string) => {
         const { data: { user } } = await supabase.auth.getUser();
         if (!user) throw new Error('Not authenticated');
@@ -278,7 +772,8 @@ export const db = {
             startTime: v.start_time,
             queueNumber: v.queue_number,
             priority: v.priority,
-            vitals: v.vitals || {},
+            appointmentId: v.appointment_id || undefined,
+            vitals: normalizeVitals(v.vitals),
             labOrders: v.lab_orders || [],
             prescription: v.prescription || [],
             medicationsDispensed: v.medications_dispensed,
@@ -287,7 +782,12 @@ export const db = {
             paymentStatus: v.payment_status,
             chiefComplaint: v.chief_complaint,
             diagnosis: v.diagnosis,
-            doctorNotes: v.doctor_notes
+            codedDiagnoses: v.coded_diagnoses || [],
+            doctorNotes: v.doctor_notes,
+            soapNote: v.soap_note || undefined,
+            noteSignedAt: v.note_signed_at || undefined,
+            noteSignedBy: v.note_signed_by || undefined,
+            noteSignedByName: v.note_signed_by_name || undefined
         }));
     },
 
@@ -303,6 +803,7 @@ export const db = {
             start_time: payload.startTime,
             queue_number: payload.queueNumber,
             priority: payload.priority,
+            appointment_id: payload.appointmentId || null,
             vitals: payload.vitals,
             lab_orders: payload.labOrders,
             prescription: payload.prescription,
@@ -312,7 +813,9 @@ export const db = {
             payment_status: payload.paymentStatus,
             chief_complaint: payload.chiefComplaint,
             diagnosis: payload.diagnosis,
-            doctor_notes: payload.doctorNotes
+            coded_diagnoses: payload.codedDiagnoses || [],
+            doctor_notes: payload.doctorNotes,
+            soap_note: payload.soapNote || null
         }).select().single();
 
         if (error) throw error;
@@ -326,7 +829,8 @@ export const db = {
             startTime: data.start_time,
             queueNumber: data.queue_number,
             priority: data.priority,
-            vitals: data.vitals || {},
+            appointmentId: data.appointment_id || undefined,
+            vitals: normalizeVitals(data.vitals),
             labOrders: data.lab_orders || [],
             prescription: data.prescription || [],
             medicationsDispensed: data.medications_dispensed,
@@ -335,7 +839,9 @@ export const db = {
             paymentStatus: data.payment_status,
             chiefComplaint: data.chief_complaint,
             diagnosis: data.diagnosis,
-            doctorNotes: data.doctor_notes
+            codedDiagnoses: data.coded_diagnoses || [],
+            doctorNotes: data.doctor_notes,
+            soapNote: data.soap_note || undefined
         };
     },
 
@@ -351,7 +857,9 @@ export const db = {
             payment_status: visit.paymentStatus,
             chief_complaint: visit.chiefComplaint,
             diagnosis: visit.diagnosis,
-            doctor_notes: visit.doctorNotes
+            coded_diagnoses: visit.codedDiagnoses || [],
+            doctor_notes: visit.doctorNotes,
+            soap_note: visit.soapNote || null
         }).eq('id', visit.id);
 
         if (error) {
@@ -360,6 +868,64 @@ export const db = {
         }
     },
 
+    // Locks the note; the signer and time are stamped server-side
+    signVisitNote: async (visitId: string): Promise<Pick<Visit, 'noteSignedAt' | 'noteSignedBy' | 'noteSignedByName'>> => {
+        const { data, error } = await supabase.rpc('sign_visit_note', { p_visit_id: visitId });
+        if (error) throw error;
+
+        const row = Array.isArray(data) ? data[0] : data;
+        return {
+            noteSignedAt: row.note_signed_at,
+            noteSignedBy: row.note_signed_by || undefined,
+            noteSignedByName: row.note_signed_by_name || undefined
+        };
+    },
+
+    getNoteAddenda: async (visitId: string): Promise<NoteAddendum[]> => {
+        const { data, error } = await supabase.from('visit_note_addenda').select('*').eq('visit_id', visitId).order('created_at');
+        if (error) throw error;
+
+        return (data || []).map(mapNoteAddendum);
+    },
+
+    // Author and time are stamped server-side
+    addNoteAddendum: async (addendum: Pick<NoteAddendum, 'visitId' | 'section' | 'body'>): Promise<NoteAddendum> => {
+        const { data, error } = await supabase.from('visit_note_addenda').insert({
+            visit_id: addendum.visitId,
+            section: addendum.section || null,
+            body: addendum.body
+        }).select().single();
+        if (error) throw error;
+
+        return mapNoteAddendum(data);
+    },
+
+    getNoteTemplates: async (): Promise<NoteTemplate[]> => {
+        const { data, error } = await supabase.from('note_templates').select('*').order('name');
+        if (error) throw error;
+
+        return (data || []).map(mapNoteTemplate);
+    },
+
+    saveNoteTemplate: async (template: NoteTemplate): Promise<NoteTemplate> => {
+        const { data, error } = await supabase.from('note_templates').upsert({
+            ...(template.id ? { id: template.id } : {}),
+            name: template.name,
+            subjective: template.subjective,
+            objective: template.objective,
+            assessment: template.assessment,
+            plan: template.plan
+        }).select().single();
+        if (error) throw error;
+
+        return mapNoteTemplate(data);
+    },
+
+    deleteNoteTemplate: async (id: string) => {
+        const { error } = await supabase.from('note_templates').delete().eq('id', id);
+        if (error) throw error;
+    },
+
     // --- Suppliers ---
     getSuppliers: async (): Promise<Supplier[]> => {
         const { data, error } = await supabase.from('suppliers').select('*');
@@ -425,6 +991,137 @@ export const db = {
         if (error) throw error;
     },
 
+    // --- Purchase Orders ---
+    getPurchaseOrders: async (): Promise<PurchaseOrder[]> => {
+        const { data, error } = await supabase
+            .from('purchase_orders')
+            .select('*')
+            .order('created_at', { ascending: false })
+            .limit(100);
+        if (error) throw error;
+
+        return (data || []).map(mapPurchaseOrder);
+    },
+
+    createPurchaseOrder: async (order: PurchaseOrder): Promise<PurchaseOrder> => {
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { id, ...payload } = order;
+
+        const { data, error } = await supabase.from('purchase_orders').insert({
+            po_number: payload.poNumber,
+            supplier_id: payload.supplierId,
+            status: payload.status,
+            lines: payload.lines,
+            notes: payload.notes,
+            sent_at: payload.sentAt
+        }).select().single();
+
+        if (error) throw error;
+        return mapPurchaseOrder(data);
+    },
+
+    updatePurchaseOrder: async (order: PurchaseOrder) => {
+        const { error } = await supabase.from('purchase_orders').update({
+            supplier_id: order.supplierId,
+            status: order.status,
+            lines: order.lines,
+            notes: order.notes,
+            sent_at: order.sentAt
+        }).eq('id', order.id);
+
+        if (error) throw error;
+    },
+
+    // Adds a lot per received line, updates stock and the order status in one transaction
+    receivePurchaseOrder: async (orderId: string, lines: GoodsReceiptLine[], witness?: WitnessConfirmation): Promise<PurchaseOrder> => {
+        const { data, error } = witness
+            ? await supabase.rpc('receive_purchase_order_witnessed', {
+                p_order_id: orderId,
+                p_lines: lines,
+                p_witness_id: witness.witnessId,
+                p_witness_pin: witness.pin
+            })
+            : await supabase.rpc('receive_purchase_order', { p_order_id: orderId, p_lines: lines });
+        if (error) throw error;
+
+        return mapPurchaseOrder(data);
+    },
+
+    // --- Controlled Drugs ---
+    // Register rows are written by the inventory ledger trigger; read-only here
+    getControlledRegister: async (itemId?: string): Promise<ControlledDrugEntry[]> => {
+        let query = supabase.from('controlled_drug_register').select('*').order('created_at', { ascending: false });
+        query = itemId ? query.eq('item_id', itemId) : query.limit(500);
+
+        const { data, error } = await query;
+        if (error) throw error;
+
+        return (data || []).map(mapControlledEntry);
+    },
+
+    // Sets the current user's PIN for witnessing other staff members' controlled drug movements
+    setWitnessPin: async (pin: string) => {
+        const { error } = await supabase.rpc('set_witness_pin', { p_pin: pin });
+        if (error) throw error;
+    },
+
+    // Checks a witness PIN before the witnessed movement is sent; wrong entries count towards a lockout
+    verifyWitnessPin: async (witnessId: string, pin: string): Promise<'verified' | 'wrong' | 'locked'> => {
+        const { data, error } = await supabase.rpc('verify_witness_pin', { p_witness_id: witnessId, p_pin: pin });
+        if (error) throw error;
+        return data;
+    },
+
+    // --- Stock Takes ---
+    getStockTakes: async (): Promise<StockTake[]> => {
+        const { data, error } = await supabase
+            .from('stock_takes')
+            .select('*')
+            .order('created_at', { ascending: false })
+            .limit(50);
+        if (error) throw error;
+
+        return (data || []).map(mapStockTake);
+    },
+
+    createStockTake: async (stockTake: StockTake): Promise<StockTake> => {
+        const { data, error } = await supabase.from('stock_takes').insert({
+            reference: stockTake.reference,
+            status: 'Open',
+            lines: stockTake.lines,
+            notes: stockTake.notes
+        }).select().single();
+
+        if (error) throw error;
+        return mapStockTake(data);
+    },
+
+    // Saves counts on an open session, or cancels it
+    updateStockTake: async (stockTake: StockTake) => {
+        const { error } = await supabase.from('stock_takes').update({
+            status: stockTake.status,
+            lines: stockTake.lines,
+            notes: stockTake.notes
+        }).eq('id', stockTake.id);
+
+        if (error) throw error;
+    },
+
+    // Applies every counted line and marks the session Posted in one transaction
+    // Counts that adjust a controlled drug go through the witnessed variant
+    postStockTake: async (id: string, witness?: WitnessConfirmation): Promise<StockTake> => {
+        const { data, error } = witness
+            ? await supabase.rpc('post_stock_take_witnessed', {
+                p_stock_take_id: id,
+                p_witness_id: witness.witnessId,
+                p_witness_pin: witness.pin
+            })
+            : await supabase.rpc('post_stock_take', { p_stock_take_id: id });
+        if (error) throw error;
+
+        return mapStockTake(data);
+    },
+
     // --- Settings ---
     getSettings: async (): Promise<import('../types').ClinicSettings | null> => {
         // Get current user's clinic_id first
@@ -473,6 +1170,12 @@ export const db = {
 
         // Mask secret key before sending to client
         const maskedSecret = pc.secretKey ? `${pc.secretKey.substring(0, 7)}...${pc.secretKey.substring(pc.secretKey.length - 4)}` : "";
+        // The DHIS2 password is stored server-side only; the client just learns whether one is set
+        let dhis2 = settingsJson.dhis2;
+        if (dhis2) {
+            const { data: hasPassword } = await supabase.rpc('has_dhis2_password');
+            dhis2 = { ...dhis2, password: hasPassword ? '...' : '' };
+        }
 
         return {
             name: c.name,
@@ -487,6 +1190,12 @@ export const db = {
             smsConfig: settingsJson.smsConfig || { apiKey: "", senderId: "" },
             paymentConfig: { ...pc, secretKey: maskedSecret },
             notifications: settingsJson.notifications || { appointmentReminders: true, lowStockAlerts: true, dailyReports: false, marketingEmails: false, alertEmail: c.email },
+            overbooking: settingsJson.overbooking || { enabled: false, maxExtraPerSlot: 1, minNoShowRate: 0.3 },
+            onlineBooking: settingsJson.onlineBooking || { enabled: false, daysAhead: 30, appointmentTypes: [] },
+            waitlist: settingsJson.waitlist || { offerMinutes: 30 },
+            dhis2: dhis2 || undefined,
+            vitalThresholds: settingsJson.vitalThresholds || {},
+            slug: c.slug || undefined,
             security: settingsJson.security || { twoFactorEnabled: false, lastPasswordChange: new Date().toISOString().split('T')[0] },
             billing: {
                 plan: c.plan === 'free' ? 'Free' : c.plan === 'pro' ? 'Pro' : 'Enterprise',
@@ -531,6 +1240,21 @@ export const db = {
             finalSecretKey = currentPC.secretKey;
         }
 
+        // The DHIS2 password never goes into settings, which every clinic user can read. A masked value
+        // means unchanged; anything else is stored (or, when emptied, removed) in dhis2_credentials.
+        let dhis2: any = undefined;
+        if (settings.dhis2) {
+            const { password, ...rest } = settings.dhis2;
+            dhis2 = rest;
+            if (password !== '...') {
+                const { data: hasPassword } = await supabase.rpc('has_dhis2_password');
+                if (password || hasPassword) {
+                    const { error: passwordError } = await supabase.rpc('set_dhis2_password', { p_password: password });
+                    if (passwordError) throw passwordError;
+                }
+            }
+        }
+
         const settingsJson = {
             smsEnabled: settings.smsEnabled,
             smsConfig: settings.smsConfig,
@@ -539,6 +1263,11 @@ export const db = {
                 secretKey: finalSecretKey
             },
             notifications: settings.notifications,
+            overbooking: settings.overbooking,
+            onlineBooking: settings.onlineBooking,
+            waitlist: settings.waitlist,
+            dhis2,
+            vitalThresholds: settings.vitalThresholds,
             security: settings.security,
             billing: {
                 paymentMethod: settings.billing.paymentMethod
@@ -564,6 +1293,13 @@ export const db = {
         return true;
     },
 
+    // Rebuild pending reminder jobs for upcoming appointments after reminder settings change
+    refreshAppointmentReminders: async (): Promise<number> => {
+        const { data, error } = await supabase.rpc('refresh_clinic_reminders');
+        if (error) throw error;
+        return data || 0;
+    },
+
     // --- Super Admin ---
     getAllClinics: async (): Promise<import('../types').Clinic[]> => {
         const { data, error } = await supabase
@@ -912,17 +1648,61 @@ export const db = {
         if (error) throw error;
     },
     // --- Lab Tests (Catalog) ---
-    getLabTests: async (): Promise<import('../types').LabTestProfile[]> => {
-        const { data, error } = await supabase.from('lab_test_profiles').select('*');
+    getLabTests: async (): Promise<LabTestProfile[]> => {
+        const { data, error } = await supabase.from('lab_test_profiles').select('*').order('name');
         if (error) {
             console.warn('Error fetching lab tests from DB:', error);
             return [];
         }
-        return (data || []).map((t: any) => ({
-            id: t.id,
-            name: t.name,
-            price: t.price,
-            category: t.category
-        }));
+        return (data || []).map(mapLabTest);
+    },
+
+    saveLabTest: async (test: LabTestProfile): Promise<LabTestProfile> => {
+        const { data, error } = await supabase.from('lab_test_profiles').upsert({
+            ...(test.id ? { id: test.id } : {}),
+            name: test.name,
+            code: test.code || null,
+            price: test.price,
+            category: test.category,
+            analytes: test.analytes || [],
+            specimen_type: test.specimenType || null,
+            turnaround_minutes: test.turnaroundMinutes || null
+        }).select().single();
+        if (error) throw error;
+
+        return mapLabTest(data);
+    },
+
+    deleteLabTest: async (id: string) => {
+        const { error } = await supabase.from('lab_test_profiles').delete().eq('id', id);
+        if (error) throw error;
+    },
+
+    // Next accession number for the clinic's day, registered against the order so it is never issued twice
+    issueLabAccessionNumber: async (visitId: string, orderId: string): Promise<string> => {
+        const { data, error } = await supabase.rpc('issue_lab_accession_number', { p_visit_id: visitId, p_order_id: orderId });
+        if (error) throw error;
+        return data as string;
+    },
+
+    // Messages saved by the lab analyser listener that have not been staged or discarded yet
+    getLabAnalyserMessages: async (): Promise<LabAnalyserMessage[]> => {
+        const { data, error } = await supabase
+            .from('lab_analyser_messages')
+            .select('id, format, raw, source, received_at, status')
+            .eq('status', 'new')
+            .order('received_at');
+        if (error) throw error;
+
+        return (data || []).map(mapLabAnalyserMessage);
+    },
+
+    markLabAnalyserMessages: async (ids: string[], status: LabAnalyserMessageStatus, processedByName?: string) => {
+        if (ids.length === 0) return;
+        const { error } = await supabase
+            .from('lab_analyser_messages')
+            .update({ status, processed_at: new Date().toISOString(), processed_by_name: processedByName || null })
+            .in('id', ids);
+        if (error) throw error;
     }
 };
@@ -0,0 +1,40 @@
+import { supabase } from '@/lib/supabaseClient'
+import logger from '@/lib/logger'
+import type { Dhis2DataValueSet, Dhis2SubmissionStatus } from '../types'
+
+export interface Dhis2PushResult {
+  status: Dhis2SubmissionStatus
+  imported: number
+  updated: number
+  ignored: number
+  conflicts: string[]
+  message: string | null
+}
+
+/**
+ * Push a dataValueSets payload through the dhis2-push Edge Function, which holds the DHIS2 credentials
+ * and logs the attempt. Import conflicts come back as a result; only failures to reach the function throw.
+ */
+export async function pushDhis2DataValueSet(
+  form: '705A' | '705B',
+  payload: Dhis2DataValueSet,
+  dryRun = false
+): Promise<Dhis2PushResult> {
+  const { data, error } = await supabase.functions.invoke('dhis2-push', {
+    body: { form, payload, dry_run: dryRun },
+  })
+
+  if (error) {
+    let message = 'Could not submit to DHIS2. Please try again.'
+    try {
+      const body = await (error as any).context?.json()
+      if (body?.error) message = body.error
+    } catch {
+      // Not a JSON error body
+    }
+    logger.error('DHIS2 push failed:', error)
+    throw new Error(message)
+  }
+
+  return data as Dhis2PushResult
+}
@@ -1,13 +1,19 @@
 /**
  * Document Generation Service
- * Creates PDFs for invoices, receipts, prescriptions, and reports
+ * Creates PDFs for invoices, receipts, prescriptions, lab reports, purchase orders, controlled drug registers, and reports
  * Uses jsPDF for professional document generation
  */
 
 import { Invoice, InvoiceLineItem } from './invoiceService';
-import { Visit, Patient, ClinicSettings } from '../types';
+import { Visit, Patient, ClinicSettings, PurchaseOrder, Supplier, InventoryItem, ControlledDrugEntry, LabOrder } from '../types';
 import { formatAmount } from './paymentService';
 import logger from '../lib/logger';
+import { SOAP_SECTIONS } from '../lib/clinicalNotes';
+import { formatCodedDiagnoses } from '../lib/diagnosisCoding';
+import { getMohFormTitle, Moh705Report } from '../lib/mohReport';
+import { formatVitals, hasVitals } from '../lib/vitals';
+import { LAB_FLAG_LABELS, isCriticalFlag } from '../lib/labResults';
+import { code128Svg } from '../lib/barcode';
 
 /**
  * Document generation helper class
@@ -58,6 +64,54 @@ export class DocumentGenerator {
     return this.generateMedicalReportHtml(visit, patient, clinicSettings);
   }
 
+  /**
+   * Generate Purchase Order PDF as data URL
+   */
+  async generatePurchaseOrderPdf(
+    order: PurchaseOrder,
+    supplier: Supplier,
+    clinicSettings: ClinicSettings
+  ): Promise<string> {
+    return this.generatePurchaseOrderHtml(order, supplier, clinicSettings);
+  }
+
+  /**
+   * Generate Controlled Drug Register PDF as data URL
+   */
+  async generateControlledRegisterPdf(
+    item: InventoryItem,
+    entries: ControlledDrugEntry[],
+    clinicSettings: ClinicSettings
+  ): Promise<string> {
+    return this.generateControlledRegisterHtml(item, entries, clinicSettings);
+  }
+
+  /**
+   * Generate MOH 705A/705B monthly outpatient summary as data URL
+   */
+  async generateMoh705Pdf(report: Moh705Report, clinicSettings: ClinicSettings): Promise<string> {
+    return this.generateMoh705Html(report, clinicSettings);
+  }
+
+  /**
+   * Generate lab report PDF as data URL; all of the visit's orders unless some are given
+   */
+  async generateLabReportPdf(
+    visit: Visit,
+    patient: Patient,
+    clinicSettings: ClinicSettings,
+    orders: LabOrder[] = visit.labOrders
+  ): Promise<string> {
+    return this.generateLabReportHtml(visit, patient, clinicSettings, orders);
+  }
+
+  /**
+   * Generate specimen labels, one per collected order, sized for a 50 x 25 mm label printer
+   */
+  async generateSpecimenLabelPdf(visit: Visit, patient: Patient, orders: LabOrder[]): Promise<string> {
+    return this.generateSpecimenLabelHtml(visit, patient, orders);
+  }
+
   /**
    * Print document (opens print dialog)
    */
@@ -371,6 +425,247 @@ export class DocumentGenerator {
     `;
   }
 
+  /**
+   * Private: Generate purchase order HTML
+   */
+  private generatePurchaseOrderHtml(
+    order: PurchaseOrder,
+    supplier: Supplier,
+    clinicSettings: ClinicSettings
+  ): string {
+    // Settings may hold a display symbol (e.g. "KSh"); Intl needs an ISO code
+    const currency = /^[A-Z]{3}$/.test(clinicSettings.currency) ? clinicSettings.currency : 'KES';
+    const linesHtml = order.lines
+      .map(
+        (line, index) => `
+      <tr>
+        <td>${index + 1}</td>
+        <td>${line.name}</td>
+        <td class="text-right">${line.quantityOrdered}</td>
+        <td class="text-right">${line.quantityReceived}</td>
+        <td class="text-right">${formatAmount(line.unitCost, currency)}</td>
+        <td class="text-right">${formatAmount(line.quantityOrdered * line.unitCost, currency)}</td>
+      </tr>
+    `
+      )
+      .join('');
+    const total = order.lines.reduce((sum, line) => sum + line.quantityOrdered * line.unitCost, 0);
+
+    return `
+      <div class="purchase-order-container">
+        <div style="display: flex; justify-content: space-between; margin-bottom: 20px;">
+          <div>
+            <div style="font-size: 16px; font-weight: bold;">${clinicSettings.name}</div>
+            <div>${clinicSettings.location}</div>
+            <div>Tel: ${clinicSettings.phone}</div>
+            <div>${clinicSettings.email}</div>
+          </div>
+          <div style="text-align: right;">
+            <div style="font-size: 20px; font-weight: bold;">PURCHASE ORDER</div>
+            <div><strong>PO #:</strong> ${order.poNumber}</div>
+            <div><strong>Date:</strong> ${new Date(order.createdAt).toLocaleDateString()}</div>
+            <div><strong>Status:</strong> ${order.status}</div>
+          </div>
+        </div>
+
+        <div style="margin: 20px 0; background: #f5f5f5; padding: 10px; border-radius: 5px;">
+          <strong>Supplier:</strong>
+          <div>${supplier.name}</div>
+          ${supplier.contactPerson ? `<div>Attn: ${supplier.contactPerson}</div>` : ''}
+          ${supplier.phone ? `<div>Tel: ${supplier.phone}</div>` : ''}
+          ${supplier.email ? `<div>${supplier.email}</div>` : ''}
+        </div>
+
+        <table>
+          <thead>
+            <tr>
+              <th>#</th>
+              <th>Item</th>
+              <th class="text-right">Qty Ordered</th>
+              <th class="text-right">Qty Received</th>
+              <th class="text-right">Unit Cost</th>
+              <th class="text-right">Amount</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${linesHtml}
+          </tbody>
+          <tfoot>
+            <tr>
+              <td colspan="5" class="text-right"><strong>Total</strong></td>
+              <td class="text-right amount">${formatAmount(total, currency)}</td>
+            </tr>
+          </tfoot>
+        </table>
+
+        ${order.notes ? `<div style="margin: 20px 0;"><strong>Notes:</strong> ${order.notes}</div>` : ''}
+
+        <div style="margin-top: 40px; display: grid; grid-template-columns: 1fr 1fr;">
+          <div>
+            <div class="signature-line"></div>
+            <div style="font-size: 12px;">Authorised By</div>
+          </div>
+          <div style="text-align: right;">
+            <div class="signature-line" style="margin-left: auto;"></div>
+            <div style="font-size: 12px;">Received By (Supplier)</div>
+          </div>
+        </div>
+      </div>
+    `;
+  }
+
+  /**
+   * Private: Generate controlled drug register HTML (entries in chronological order)
+   */
+  private generateControlledRegisterHtml(
+    item: InventoryItem,
+    entries: ControlledDrugEntry[],
+    clinicSettings: ClinicSettings
+  ): string {
+    const rowsHtml = entries
+      .map(
+        (entry) => `
+      <tr>
+        <td>${new Date(entry.timestamp).toLocaleString()}</td>
+        <td>${entry.entryType}</td>
+        <td>${entry.reference || ''}${entry.patientName ? `<div style="font-size: 11px;">${entry.patientName}</div>` : ''}</td>
+        <td class="text-right">${entry.quantityChange > 0 ? entry.quantityChange : ''}</td>
+        <td class="text-right">${entry.quantityChange < 0 ? -entry.quantityChange : ''}</td>
+        <td class="text-right"><strong>${entry.balance}</strong></td>
+        <td>${entry.recordedBy || ''}</td>
+        <td>${entry.witnessedBy || ''}</td>
+      </tr>
+    `
+      )
+      .join('');
+
+    return `
+      <div class="controlled-register-container">
+        <div style="display: flex; justify-content: space-between; margin-bottom: 20px;">
+          <div>
+            <div style="font-size: 16px; font-weight: bold;">${clinicSettings.name}</div>
+            <div>${clinicSettings.location}</div>
+            <div>Tel: ${clinicSettings.phone}</div>
+          </div>
+          <div style="text-align: right;">
+            <div style="font-size: 20px; font-weight: bold;">CONTROLLED DRUG REGISTER</div>
+            <div><strong>Drug:</strong> ${item.name} (${item.unit})</div>
+            <div><strong>Balance:</strong> ${entries.length ? entries[entries.length - 1].balance : item.stock}</div>
+            <div><strong>Printed:</strong> ${new Date().toLocaleString()}</div>
+          </div>
+        </div>
+
+        <table style="font-size: 12px;">
+          <thead>
+            <tr>
+              <th>Date</th>
+              <th>Entry</th>
+              <th>Reference / Patient</th>
+              <th class="text-right">In</th>
+              <th class="text-right">Out</th>
+              <th class="text-right">Balance</th>
+              <th>Recorded By</th>
+              <th>Witness</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${rowsHtml || '<tr><td colspan="8" class="text-center">No entries</td></tr>'}
+          </tbody>
+        </table>
+
+        <div style="margin-top: 40px; display: grid; grid-template-columns: 1fr 1fr;">
+          <div>
+            <div class="signature-line"></div>
+            <div style="font-size: 12px;">Pharmacist in Charge</div>
+          </div>
+          <div style="text-align: right;">
+            <div class="signature-line" style="margin-left: auto;"></div>
+            <div style="font-size: 12px;">Inspected By</div>
+          </div>
+        </div>
+      </div>
+    `;
+  }
+
+  /**
+   * Private: Generate MOH 705 HTML, laid out like the paper summary (landscape, one column per day)
+   */
+  private generateMoh705Html(report: Moh705Report, clinicSettings: ClinicSettings): string {
+    const days = Array.from({ length: report.daysInMonth }, (_, i) => i + 1);
+    const cell = 'border: 1px solid #999; padding: 2px 3px; text-align: center;';
+    const monthLabel = new Date(`${report.month}-01T00:00:00`).toLocaleDateString('en-GB', { month: 'long', year: 'numeric' });
+
+    const rowsHtml = report.lines
+      .map(
+        (line) => `
+      <tr>
+        <td style="${cell}">${line.number}</td>
+        <td style="${cell} text-align: left; white-space: nowrap;">${line.row.label}</td>
+        ${line.daily.map((count) => `<td style="${cell}">${count || ''}</td>`).join('')}
+        <td style="${cell}"><strong>${line.newCases}</strong></td>
+        <td style="${cell}">${line.revisits}</td>
+      </tr>
+    `
+      )
+      .join('');
+
+    return `
+      <style>@page { size: A4 landscape; margin: 8mm; }</style>
+      <div class="moh-705-container" style="font-size: 9px;">
+        <div style="text-align: center; margin-bottom: 10px;">
+          <div style="font-size: 12px;">MINISTRY OF HEALTH</div>
+          <div style="font-size: 14px; font-weight: bold;">${getMohFormTitle(report.form).toUpperCase()}</div>
+        </div>
+        <div style="display: flex; justify-content: space-between; margin-bottom: 8px; font-size: 11px;">
+          <div><strong>Facility:</strong> ${clinicSettings.name}</div>
+          <div><strong>County / Location:</strong> ${clinicSettings.location}</div>
+          <div><strong>Month:</strong> ${monthLabel}</div>
+        </div>
+
+        <table style="border-collapse: collapse; width: 100%; margin: 0;">
+          <thead>
+            <tr>
+              <th style="${cell}">No.</th>
+              <th style="${cell} text-align: left;">Diseases (new cases only)</th>
+              ${days.map((day) => `<th style="${cell}">${day}</th>`).join('')}
+              <th style="${cell}">Total</th>
+              <th style="${cell}">Revisits</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${rowsHtml}
+            <tr>
+              <td style="${cell}"></td>
+              <td style="${cell} text-align: left;"><strong>TOTAL NEW CASES</strong></td>
+              ${report.dailyTotals.map((count) => `<td style="${cell}"><strong>${count}</strong></td>`).join('')}
+              <td style="${cell}"><strong>${report.totalNewCases}</strong></td>
+              <td style="${cell}"><strong>${report.totalRevisits}</strong></td>
+            </tr>
+          </tbody>
+        </table>
+
+        <div style="margin-top: 8px; font-size: 10px;">
+          Visits on this form: ${report.visits} | Visits without an ICD code: ${report.uncodedVisits}
+        </div>
+
+        <div style="margin-top: 30px; display: grid; grid-template-columns: 1fr 1fr 1fr; font-size: 11px;">
+          <div>
+            <div class="signature-line"></div>
+            <div>Compiled By</div>
+          </div>
+          <div>
+            <div class="signature-line"></div>
+            <div>Designation</div>
+          </div>
+          <div>
+            <div class="signature-line"></div>
+            <div>Date</div>
+          </div>
+        </div>
+      </div>
+    `;
+  }
+
   /**
    * Private: Generate medical report HTML
    */
@@ -406,15 +701,12 @@ export class DocumentGenerator {
         </div>
 
         ${
-          visit.vitals
+          hasVitals(visit.vitals)
             ? `
           <div style="margin: 20px 0;">
             <strong>Vital Signs:</strong>
             <div style="background: #f5f5f5; padding: 10px; border-radius: 5px; margin: 10px 0;">
-              <div>Blood Pressure: ${visit.vitals.bp}</div>
-              <div>Temperature: ${visit.vitals.temp}°C</div>
-              <div>Heart Rate: ${visit.vitals.heartRate} bpm</div>
-              <div>Weight: ${visit.vitals.weight} kg</div>
+              <div>${formatVitals(visit.vitals)}</div>
             </div>
           </div>
         `
@@ -426,7 +718,12 @@ export class DocumentGenerator {
           <div style="background: #f5f5f5; padding: 10px; border-radius: 5px; margin: 10px 0;">
             <div>Chief Complaint: ${visit.chiefComplaint || 'Not specified'}</div>
             <div>Diagnosis: ${visit.diagnosis || 'Pending'}</div>
+            ${visit.codedDiagnoses?.length ? `<div>ICD: ${formatCodedDiagnoses(visit.codedDiagnoses)}</div>` : ''}
+            ${visit.soapNote
+              ? SOAP_SECTIONS.map(section => `<div>${section.label}: ${visit.soapNote![section.id] || 'Not recorded'}</div>`).join('')
+              : ''}
             <div>Doctor's Notes: ${visit.doctorNotes || 'None'}</div>
+            ${visit.noteSignedAt ? `<div>Signed by ${visit.noteSignedByName || 'clinician'} on ${new Date(visit.noteSignedAt).toLocaleString()}</div>` : ''}
           </div>
         </div>
 
@@ -438,6 +735,140 @@ export class DocumentGenerator {
     `;
   }
 
+  /**
+   * Private: Generate lab report HTML
+   */
+  private generateLabReportHtml(
+    visit: Visit,
+    patient: Patient,
+    clinicSettings: ClinicSettings,
+    orders: LabOrder[]
+  ): string {
+    const cell = 'border: 1px solid #ddd; padding: 6px 8px; text-align: left;';
+    const ordersHtml = orders
+      .map((order) => {
+        const rows = order.results?.length
+          ? order.results
+              .map((r) => {
+                const critical = isCriticalFlag(r.flag);
+                const flagged = r.flag && r.flag !== 'normal';
+                return `
+                  <tr style="${critical ? 'color: #b91c1c; font-weight: bold;' : ''}">
+                    <td style="${cell}">${r.name}</td>
+                    <td style="${cell} ${flagged ? 'font-weight: bold;' : ''}">${r.value || '-'}</td>
+                    <td style="${cell}">${r.flag ? LAB_FLAG_LABELS[r.flag] : ''}</td>
+                    <td style="${cell}">${r.unit}</td>
+                    <td style="${cell}">${r.referenceRange || ''}</td>
+                  </tr>
+                `;
+              })
+              .join('')
+          : `<tr><td style="${cell}" colspan="5">${order.result || 'Result pending'}</td></tr>`;
+
+        return `
+          <div style="margin: 20px 0;">
+            <strong>${order.testName}</strong>
+            <span style="font-size: 11px; color: #666;">
+              ${order.specimen ? `| ${order.specimen.accessionNumber} (${order.specimen.specimenType})` : ''}
+              | Ordered ${new Date(order.orderedAt).toLocaleString()}${order.orderedByName ? ` by ${order.orderedByName}` : ''}
+              ${order.completedAt ? `| Reported ${new Date(order.completedAt).toLocaleString()}` : ''}
+              ${order.specimen?.verifiedAt ? `| Verified ${new Date(order.specimen.verifiedAt).toLocaleString()}${order.specimen.verifiedByName ? ` by ${order.specimen.verifiedByName}` : ''}` : ''}
+            </span>
+            ${order.specimen?.status === 'rejected'
+              ? `<div style="font-size: 12px; color: #b91c1c;">Specimen rejected: ${order.specimen.rejectionReason}. A new sample is needed.</div>`
+              : ''}
+            <table style="border-collapse: collapse; width: 100%; margin: 8px 0;">
+              <thead>
+                <tr>
+                  <th style="${cell}">Test</th>
+                  <th style="${cell}">Result</th>
+                  <th style="${cell}">Flag</th>
+                  <th style="${cell}">Units</th>
+                  <th style="${cell}">Reference Range</th>
+                </tr>
+              </thead>
+              <tbody>${rows}</tbody>
+            </table>
+            ${order.notes ? `<div style="font-size: 12px;">Comment: ${order.notes}</div>` : ''}
+            ${order.criticalAlert
+              ? `<div style="font-size: 12px; color: #b91c1c;">Critical result reported ${new Date(order.criticalAlert.raisedAt).toLocaleString()}${order.criticalAlert.notifiedName ? ` to ${order.criticalAlert.notifiedName}` : ''}${order.criticalAlert.acknowledgedAt ? `, acknowledged by ${order.criticalAlert.acknowledgedByName || 'clinician'}` : ''}</div>`
+              : ''}
+          </div>
+        `;
+      })
+      .join('');
+
+    return `
+      <div class="report-container">
+        <div style="text-align: center; margin-bottom: 20px;">
+          <div style="font-size: 16px; font-weight: bold;">${clinicSettings.name}</div>
+          <div style="font-size: 12px;">${clinicSettings.location} | ${clinicSettings.phone}</div>
+          <div style="margin-top: 8px;">Laboratory Report</div>
+        </div>
+
+        <div style="background: #f5f5f5; padding: 10px; border-radius: 5px; margin: 10px 0; display: grid; grid-template-columns: 1fr 1fr; font-size: 13px;">
+          <div>Name: ${patient.name}</div>
+          <div>Patient ID: ${patient.id}</div>
+          <div>Age: ${patient.age} years | Gender: ${patient.gender}</div>
+          <div>Visit: ${visit.id} | ${new Date(visit.startTime).toLocaleDateString()}</div>
+        </div>
+
+        ${ordersHtml}
+
+        <div style="font-size: 11px; color: #666;">Flags: L low, H high, LL/HH critical, A abnormal.</div>
+
+        <div style="margin-top: 30px; display: grid; grid-template-columns: 1fr 1fr; font-size: 12px;">
+          <div>
+            <div class="signature-line"></div>
+            <div>Performed By</div>
+          </div>
+          <div>
+            <div class="signature-line"></div>
+            <div>Reviewed By</div>
+          </div>
+        </div>
+      </div>
+    `;
+  }
+
+  /**
+   * Private: Generate specimen label HTML
+   */
+  private generateSpecimenLabelHtml(visit: Visit, patient: Patient, orders: LabOrder[]): string {
+    const labels = orders
+      .filter((order) => order.specimen)
+      .map((order) => {
+        const specimen = order.specimen!;
+        return `
+          <div class="specimen-label">
+            <div style="display: flex; justify-content: space-between; font-weight: bold;">
+              <span>${patient.name}</span>
+              <span>${patient.age}y ${patient.gender.charAt(0)}</span>
+            </div>
+            <div>${patient.id} | ${visit.id}</div>
+            <div style="margin: 1mm 0;">${code128Svg(specimen.accessionNumber, { height: 30 })}</div>
+            <div style="font-family: monospace; font-weight: bold; text-align: center;">${specimen.accessionNumber}</div>
+            <div style="display: flex; justify-content: space-between;">
+              <span>${order.testName}</span>
+              <span>${specimen.specimenType}</span>
+            </div>
+            <div>Collected ${new Date(specimen.collectedAt).toLocaleString()}${specimen.collectedByName ? ` by ${specimen.collectedByName}` : ''}</div>
+          </div>
+        `;
+      })
+      .join('');
+
+    return `
+      <style>
+        @page { size: 50mm 25mm; margin: 0; }
+        .specimen-label { width: 48mm; height: 23mm; padding: 1mm; font-size: 7px; line-height: 1.2; overflow: hidden; page-break-after: always; box-sizing: content-box; }
+        .specimen-label svg { width: 100%; height: 7mm; }
+        @media print { .print-container { padding: 0 !important; margin: 0 !important; } }
+      </style>
+      ${labels}
+    `;
+  }
+
   /**
    * Private: Wrap HTML with proper structure
    */
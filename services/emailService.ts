@@ -322,19 +322,23 @@ export async function sendLabResultsEmail(
   results: string,
   doctorName: string,
   clinicName: string,
+  reportHtml?: string,
 ): Promise<EmailResponse> {
+  // A full report from DocumentGenerator replaces the one-line summary when given
   const html = `
     <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
       <h2 style="color: #333;">Your Lab Results are Ready</h2>
       <p>Dear ${patientName},</p>
       <p>Your lab results for <strong>${testName}</strong> are now available.</p>
       
-      <div style="background-color: #f5f5f5; padding: 15px; border-radius: 5px; margin: 20px 0;">
+      ${reportHtml
+        ? `<div style="margin: 20px 0;">${reportHtml}</div>`
+        : `<div style="background-color: #f5f5f5; padding: 15px; border-radius: 5px; margin: 20px 0;">
         <p><strong>Test:</strong> ${testName}</p>
         <p><strong>Doctor:</strong> ${doctorName}</p>
         <p><strong>Results Summary:</strong></p>
         <p style="color: #666;">${results}</p>
-      </div>
+      </div>`}
       
       <p>Please contact us if you have any questions about your results.</p>
       
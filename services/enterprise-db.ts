@@ -8,6 +8,7 @@ import { supabase } from "@/lib/supabaseClient"
 import type { User, Organization, OrganizationInvitation, AuditLog, Activity, UserRole } from "@/types/enterprise"
 import type { Patient, Appointment, Visit, InventoryItem, Supplier } from "@/types"
 import logger from '../lib/logger'
+import { normalizeVitals } from '../lib/vitals'
 
 // Helper to get current user's clinic ID (standardized from organization_id)
 async function getClinicId(): Promise<string | null> {
@@ -260,6 +261,7 @@ export const enterpriseDb = {
       lastVisit: p.updated_at?.split("T")[0] || "",
       notes: "", // Notes not in schema
       history: p.chronic_conditions || [],
+      allergies: p.allergies || [],
       vitals: { bp: "", heartRate: "", temp: "", weight: "" },
     }))
   },
@@ -288,6 +290,7 @@ export const enterpriseDb = {
         date_of_birth: dateOfBirth,
         gender: patient.gender,
         chronic_conditions: patient.history || [],
+        allergies: patient.allergies || [],
       })
       .select()
       .single()
@@ -306,6 +309,7 @@ export const enterpriseDb = {
       lastVisit: data.updated_at?.split("T")[0] || "",
       notes: "",
       history: data.chronic_conditions || [],
+      allergies: data.allergies || [],
       vitals: { bp: "", heartRate: "", temp: "", weight: "" },
     }
   },
@@ -321,6 +325,7 @@ export const enterpriseDb = {
         date_of_birth: dateOfBirth,
         gender: patient.gender,
         chronic_conditions: patient.history || [],
+        allergies: patient.allergies,
         updated_at: new Date().toISOString(),
       })
       .eq("id", patient.id)
@@ -454,7 +459,7 @@ export const enterpriseDb = {
       startTime: v.created_at,
       queueNumber: v.queue_number || 0,
       priority: v.priority || "normal",
-      vitals: v.vital_signs || {},
+      vitals: normalizeVitals(v.vital_signs),
       chiefComplaint: v.chief_complaint,
       diagnosis: v.diagnosis,
       doctorNotes: v.doctor_notes,
@@ -520,7 +525,7 @@ export const enterpriseDb = {
       startTime: data.created_at,
       queueNumber: data.queue_number,
       priority: data.priority,
-      vitals: data.vital_signs || {},
+      vitals: normalizeVitals(data.vital_signs),
       chiefComplaint: data.chief_complaint,
       diagnosis: data.diagnosis,
       doctorNotes: data.doctor_notes,
@@ -573,6 +578,7 @@ export const enterpriseDb = {
       minStockLevel: i.reorder_level || 10,
       unit: i.unit || "pcs",
       price: Number(i.price) || 0,
+      batches: i.batches || [],
       batchNumber: i.batch_number,
       expiryDate: i.expiry_date,
       supplierId: i.supplier_id,
@@ -581,9 +587,6 @@ export const enterpriseDb = {
 
   async createInventoryItem(item: Omit<InventoryItem, "id">): Promise<InventoryItem | null> {
     const clinicId = await getClinicId()
-    const {
-      data: { user },
-    } = await supabase.auth.getUser()
     if (!clinicId) return null
 
     // Generate SKU if not provided
@@ -600,31 +603,18 @@ export const enterpriseDb = {
         reorder_level: item.minStockLevel,
         unit: item.unit,
         price: item.price,
+        batches: item.batches || [],
         batch_number: item.batchNumber,
         expiry_date: item.expiryDate,
         supplier_id: item.supplierId,
+        // The inventory ledger trigger records the opening movement
+        movement_note: "Opening stock",
       })
       .select()
       .single()
 
     if (error || !data) return null
 
-    // Log inventory transaction (if inventory_logs table exists)
-    try {
-      await supabase.from("inventory_logs").insert({
-        clinic_id: clinicId,
-        item_id: data.id,
-        item_name: item.name,
-        action: "Created",
-        quantity_change: item.stock,
-        quantity_after: item.stock,
-        performed_by: user?.id,
-      })
-    } catch (e) {
-      // Table might not exist, continue
-      logger.warn("Inventory logs table not available:", e)
-    }
-
     return {
       id: data.id,
       name: data.name,
@@ -633,6 +623,7 @@ export const enterpriseDb = {
       minStockLevel: data.reorder_level,
       unit: data.unit,
       price: Number(data.price),
+      batches: data.batches || [],
       batchNumber: data.batch_number,
       expiryDate: data.expiry_date,
       supplierId: data.supplier_id,
@@ -640,14 +631,6 @@ export const enterpriseDb = {
   },
 
   async updateInventoryItem(item: InventoryItem, reason?: string): Promise<boolean> {
-    const clinicId = await getClinicId()
-    const {
-      data: { user },
-    } = await supabase.auth.getUser()
-
-    // Get current stock for logging
-    const { data: current } = await supabase.from("inventory").select("quantity_in_stock").eq("id", item.id).single()
-
     const { error } = await supabase
       .from("inventory")
       .update({
@@ -657,34 +640,16 @@ export const enterpriseDb = {
         reorder_level: item.minStockLevel,
         unit: item.unit,
         price: item.price,
+        batches: item.batches || [],
         batch_number: item.batchNumber,
         expiry_date: item.expiryDate,
         supplier_id: item.supplierId,
+        // The inventory ledger trigger records the movement with this reason
+        movement_note: reason,
         updated_at: new Date().toISOString(),
       })
       .eq("id", item.id)
 
-    if (!error && current && clinicId) {
-      const quantityChange = item.stock - (current.quantity_in_stock || 0)
-      const action = quantityChange > 0 ? "Restocked" : quantityChange < 0 ? "Dispensed" : "Updated"
-
-      try {
-        await supabase.from("inventory_logs").insert({
-          clinic_id: clinicId,
-          item_id: item.id,
-          item_name: item.name,
-          action,
-          quantity_change: quantityChange,
-          quantity_before: current.quantity_in_stock,
-          quantity_after: item.stock,
-          notes: reason,
-          performed_by: user?.id,
-        })
-      } catch (e) {
-        logger.warn("Inventory logs table not available:", e)
-      }
-    }
-
     return !error
   },
 
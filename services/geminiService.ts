@@ -206,6 +206,11 @@ export const getStaffAssistantResponse = async (userQuery: string, context: any)
         - Today: ${context.today}
     `;
 
+    // Free slots from the availability API; only present once providers publish working hours
+    if (context.availableSlots?.length) {
+      dataContext += `\n- Available Slots: ${JSON.stringify(context.availableSlots)}`;
+    }
+
     // Add sensitive data only for permitted roles
     if (['Admin', 'SuperAdmin', 'Doctor', 'Pharmacist'].includes(userRole)) {
       dataContext += `\n- Inventory: ${JSON.stringify(context.inventory || [])}`;
@@ -219,7 +224,7 @@ export const getStaffAssistantResponse = async (userQuery: string, context: any)
     let actions = `
         - ADD_PATIENT: payload { name, phone, age, gender (Male/Female) }
         - EDIT_PATIENT: payload { patientId, updates: { name?, phone?, age?, gender?, notes? } }
-        - ADD_APPOINTMENT: payload { patientId, date (YYYY-MM-DD), time (HH:MM), reason }
+        - ADD_APPOINTMENT: payload { patientId, date (YYYY-MM-DD), time (HH:MM), reason, providerId?, appointmentType? }
         - CANCEL_APPOINTMENT: payload { appointmentId }
     `;
 
@@ -259,6 +264,7 @@ export const getStaffAssistantResponse = async (userQuery: string, context: any)
         - Prioritize brevity in 'reply'. Use bullet points for lists. No emojis.
         - If details are missing for an action, ask the user for them and set 'action' to null.
         - Infer dates like 'tomorrow' based on ${context.today}.
+        - If Available Slots are listed, only book or offer a date, time and providerId from that list. If the requested time is not free, suggest the closest listed slots and set 'action' to null.
         `,
       model: "gemini-1.5-flash",
       jsonMode: true,
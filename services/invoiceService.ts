@@ -9,6 +9,7 @@ import { validation } from '../lib/validation';
 import { supabase } from '../lib/supabaseClient';
 import { enterpriseDb } from './enterprise-db';
 import logger from '../lib/logger';
+import { mergePrescriptionLines } from '../lib/inventory';
 
 export interface InvoiceLineItem {
   id: string;
@@ -85,7 +86,7 @@ class InvoiceService {
     }
 
     // Add prescriptions
-    visit.prescription.forEach((med, idx) => {
+    mergePrescriptionLines(visit.prescription).forEach((med, idx) => {
       lineItems.push({
         id: `med-${visit.id}-${idx}`,
         description: `${med.name} - ${med.dosage}`,
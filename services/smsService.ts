@@ -96,7 +96,7 @@ export async function sendAppointmentReminderSMS(
   doctorName: string,
   clinicName: string,
 ): Promise<SMSResponse> {
-  const message = `Hi ${patientName}, reminder: You have an appointment with ${doctorName} at ${clinicName} on ${appointmentDate} at ${appointmentTime}. Please arrive 10 minutes early.`
+  const message = `Hi ${patientName}, reminder: You have an appointment with ${doctorName} at ${clinicName} on ${appointmentDate} at ${appointmentTime}. Please arrive 10 minutes early. Reply 1 to confirm, 2 to cancel or 3 to reschedule.`
 
   return sendSMS({
     phone_number: phoneNumber,
@@ -153,6 +153,25 @@ export async function sendLabResultsSMS(
   })
 }
 
+/**
+ * Alert the ordering doctor to a critical lab result
+ */
+export async function sendCriticalLabResultSMS(
+  phoneNumber: string,
+  doctorName: string,
+  patientName: string,
+  testName: string,
+  criticalValues: string,
+  clinicName: string,
+): Promise<SMSResponse> {
+  const message = `CRITICAL RESULT for Dr. ${doctorName}: ${patientName}, ${testName}: ${criticalValues}. Please review now at ${clinicName}.`
+
+  return sendSMS({
+    phone_number: phoneNumber,
+    message,
+  })
+}
+
 /**
  * Send payment reminder SMS
  */
@@ -1,23 +1,46 @@
 import type { StateCreator } from "zustand"
-import type { Appointment } from "../types"
+import type { Appointment, AppointmentType, ClinicSettings, Patient, ProviderWorkingHours, RecurrenceRule, WaitlistEntry } from "../types"
 import { db } from "../services/db"
+import { isRescheduled, notifyAppointmentRescheduled } from "../services/appointmentNotificationService"
 
 export interface AppointmentSlice {
     appointments: Appointment[]
+    appointmentTypes: AppointmentType[]
+    providerSchedules: ProviderWorkingHours[]
+    waitlist: WaitlistEntry[]
     actions: {
         setAppointments: (appointments: Appointment[]) => void
-        addAppointment: (appointment: Appointment) => Promise<void>
-        updateAppointment: (appointment: Appointment) => Promise<void>
+        addAppointment: (appointment: Appointment) => Promise<boolean>
+        updateAppointment: (appointment: Appointment) => Promise<boolean>
+        rescheduleAppointment: (appointment: Appointment, previous: Appointment) => Promise<boolean>
+        addAppointmentSeries: (firstAppointment: Appointment, rule: RecurrenceRule) => Promise<boolean>
+        updateAppointmentSeries: (fromAppointment: Appointment, dayShift: number) => Promise<boolean>
+        cancelAppointmentSeries: (fromAppointment: Appointment) => Promise<boolean>
+        fetchScheduling: () => Promise<void>
+        saveAppointmentType: (type: AppointmentType) => Promise<void>
+        deleteAppointmentType: (id: string) => Promise<void>
+        saveProviderSchedule: (providerId: string, hours: ProviderWorkingHours[]) => Promise<void>
+        fetchWaitlist: () => Promise<void>
+        addWaitlistEntry: (entry: WaitlistEntry) => Promise<boolean>
+        removeWaitlistEntry: (id: string) => Promise<void>
     }
 }
 
 export const createAppointmentSlice: StateCreator<
-    AppointmentSlice & { isDemoMode: boolean; actions: { showToast: (msg: string, type?: "success" | "error" | "info") => void } },
+    AppointmentSlice & {
+        isDemoMode: boolean
+        patients: Patient[]
+        settings: ClinicSettings
+        actions: { showToast: (msg: string, type?: "success" | "error" | "info") => void }
+    },
     [],
     [],
     AppointmentSlice
 > = (set, get) => ({
     appointments: [],
+    appointmentTypes: [],
+    providerSchedules: [],
+    waitlist: [],
     actions: {
         setAppointments: (appointments) => set({ appointments }),
         addAppointment: async (newAppt) => {
@@ -26,9 +49,11 @@ export const createAppointmentSlice: StateCreator<
                 if (!saved) throw new Error('Failed to create appointment')
                 set((state) => ({ appointments: [...state.appointments, saved] }))
                 get().actions.showToast(`Appointment scheduled for ${saved.patientName}.`)
-            } catch (e) {
+                return true
+            } catch (e: any) {
                 console.error('addAppointment error', e)
-                get().actions.showToast("Error scheduling appointment", "error")
+                get().actions.showToast(e?.message || "Error scheduling appointment", "error")
+                return false
             }
         },
         updateAppointment: async (updatedAppt) => {
@@ -37,9 +62,142 @@ export const createAppointmentSlice: StateCreator<
                 set((state) => ({
                     appointments: state.appointments.map((a) => (a.id === updatedAppt.id ? updatedAppt : a)),
                 }))
-            } catch (e) {
+                return true
+            } catch (e: any) {
                 console.error('updateAppointment error', e)
-                get().actions.showToast("Error updating appointment", "error")
+                get().actions.showToast(e?.message || "Error updating appointment", "error")
+                return false
+            }
+        },
+        rescheduleAppointment: async (movedAppt, previousAppt) => {
+            try {
+                await db.updateAppointment(movedAppt)
+                set((state) => ({
+                    appointments: state.appointments.map((a) => (a.id === movedAppt.id ? movedAppt : a)),
+                }))
+            } catch (e: any) {
+                console.error('rescheduleAppointment error', e)
+                get().actions.showToast(e?.message || "Error rescheduling appointment", "error")
+                return false
+            }
+
+            get().actions.showToast(`Appointment moved to ${movedAppt.date} at ${movedAppt.time}.`)
+            const patient = get().patients.find((p) => p.id === movedAppt.patientId)
+            if (patient && isRescheduled(previousAppt, movedAppt)) {
+                // Notifications run after the move is saved and never undo it
+                notifyAppointmentRescheduled(movedAppt, patient, get().settings).then((sent) => {
+                    if (sent.sms || sent.email) {
+                        get().actions.showToast(`${patient.name} notified by ${[sent.sms && "SMS", sent.email && "email"].filter(Boolean).join(" and ")}.`, "info")
+                    }
+                })
+            }
+            return true
+        },
+        addAppointmentSeries: async (firstAppt, rule) => {
+            try {
+                const created = await db.createAppointmentSeries(firstAppt, rule)
+                set((state) => ({ appointments: [...state.appointments, ...created] }))
+                get().actions.showToast(`${created.length} appointments scheduled for ${firstAppt.patientName}.`)
+                return true
+            } catch (e: any) {
+                console.error('addAppointmentSeries error', e)
+                get().actions.showToast(e?.message || "Error scheduling appointment series", "error")
+                return false
+            }
+        },
+        updateAppointmentSeries: async (fromAppt, dayShift) => {
+            try {
+                const updated = await db.updateAppointmentSeries(fromAppt, dayShift)
+                set({ appointments: await db.getAppointments() })
+                get().actions.showToast(`${updated} appointments in the series updated.`)
+                return true
+            } catch (e: any) {
+                console.error('updateAppointmentSeries error', e)
+                get().actions.showToast(e?.message || "Error updating appointment series", "error")
+                return false
+            }
+        },
+        cancelAppointmentSeries: async (fromAppt) => {
+            try {
+                const cancelled = await db.cancelAppointmentSeries(fromAppt.id)
+                set({ appointments: await db.getAppointments() })
+                get().actions.showToast(`${cancelled} appointments in the series cancelled.`, "info")
+                return true
+            } catch (e: any) {
+                console.error('cancelAppointmentSeries error', e)
+                get().actions.showToast(e?.message || "Error cancelling appointment series", "error")
+                return false
+            }
+        },
+        fetchScheduling: async () => {
+            try {
+                const [appointmentTypes, providerSchedules] = await Promise.all([
+                    db.getAppointmentTypes(),
+                    db.getProviderSchedules(),
+                ])
+                set({ appointmentTypes, providerSchedules })
+            } catch (e) {
+                console.error('fetchScheduling error', e)
+            }
+        },
+        saveAppointmentType: async (type) => {
+            try {
+                const saved = await db.saveAppointmentType(type)
+                set((state) => ({
+                    appointmentTypes: [...state.appointmentTypes.filter((t) => t.id !== saved.id), saved]
+                        .sort((a, b) => a.name.localeCompare(b.name)),
+                }))
+                get().actions.showToast(`${saved.name} saved.`)
+            } catch (e) {
+                console.error('saveAppointmentType error', e)
+                get().actions.showToast("Error saving appointment type", "error")
+            }
+        },
+        deleteAppointmentType: async (id) => {
+            try {
+                await db.deleteAppointmentType(id)
+                set((state) => ({ appointmentTypes: state.appointmentTypes.filter((t) => t.id !== id) }))
+            } catch (e) {
+                console.error('deleteAppointmentType error', e)
+                get().actions.showToast("Error deleting appointment type", "error")
+            }
+        },
+        saveProviderSchedule: async (providerId, hours) => {
+            try {
+                await db.saveProviderSchedule(providerId, hours)
+                set({ providerSchedules: await db.getProviderSchedules() })
+                get().actions.showToast("Working hours saved.")
+            } catch (e) {
+                console.error('saveProviderSchedule error', e)
+                get().actions.showToast("Error saving working hours", "error")
+            }
+        },
+        fetchWaitlist: async () => {
+            try {
+                set({ waitlist: await db.getWaitlist() })
+            } catch (e) {
+                console.error('fetchWaitlist error', e)
+            }
+        },
+        addWaitlistEntry: async (entry) => {
+            try {
+                const saved = await db.addWaitlistEntry(entry)
+                set((state) => ({ waitlist: [...state.waitlist, saved] }))
+                get().actions.showToast(`${saved.patientName || "Patient"} added to the waitlist.`)
+                return true
+            } catch (e) {
+                console.error('addWaitlistEntry error', e)
+                get().actions.showToast("Error adding to waitlist", "error")
+                return false
+            }
+        },
+        removeWaitlistEntry: async (id) => {
+            try {
+                await db.removeWaitlistEntry(id)
+                set((state) => ({ waitlist: state.waitlist.filter((e) => e.id !== id) }))
+            } catch (e) {
+                console.error('removeWaitlistEntry error', e)
+                get().actions.showToast("Error removing waitlist entry", "error")
             }
         },
     },
@@ -7,12 +7,28 @@ import type {
     Notification,
     Supplier,
     InventoryLog,
+    PurchaseOrder,
+    GoodsReceiptLine,
+    StockTake,
     Visit,
     TeamMember,
+    WitnessConfirmation,
+    AppointmentType,
+    ProviderWorkingHours,
+    RecurrenceRule,
+    WaitlistEntry,
+    NoteTemplate,
+    LabTestProfile,
 } from "../types"
 // Note: demo/mock constants removed for production readiness. Ensure Supabase is configured.
 import { db } from "../services/db"
 import { teamService } from "../services/teamService"
+import { auditLogger } from "../services/auditService"
+import { getLineVariance } from "../lib/stockTake"
+import { isRescheduled, notifyAppointmentRescheduled } from "../services/appointmentNotificationService"
+import { summarizeClinicalNote } from "../lib/clinicalNotes"
+import { summarizeDiagnosis } from "../lib/diagnosisCoding"
+import { getNewOverrides } from "../lib/medicationSafety"
 
 // Re-export slices for direct usage if needed
 export * from "./patientSlice"
@@ -35,10 +51,17 @@ export interface AppState {
     // Domain Data
     patients: Patient[]
     appointments: Appointment[]
+    appointmentTypes: AppointmentType[]
+    providerSchedules: ProviderWorkingHours[]
+    waitlist: WaitlistEntry[]
     inventory: InventoryItem[]
     suppliers: Supplier[]
     inventoryLogs: InventoryLog[]
+    purchaseOrders: PurchaseOrder[]
+    stockTakes: StockTake[]
     visits: Visit[]
+    noteTemplates: NoteTemplate[]
+    labTests: LabTestProfile[]
     settings: ClinicSettings
 
     // Actions grouped by domain
@@ -66,22 +89,59 @@ export interface AppState {
 
         // Inventory Actions
         addInventoryItem: (item: InventoryItem) => Promise<void>
-        updateInventoryItem: (item: InventoryItem, reason?: string) => Promise<void>
+        updateInventoryItem: (item: InventoryItem, reason?: string, witness?: WitnessConfirmation) => Promise<void>
         deleteInventoryItem: (id: string) => Promise<void>
+        fetchInventoryLogs: () => Promise<void>
+
+        // Purchasing Actions
+        fetchPurchaseOrders: () => Promise<void>
+        addPurchaseOrder: (order: PurchaseOrder) => Promise<void>
+        updatePurchaseOrder: (order: PurchaseOrder) => Promise<void>
+        receivePurchaseOrder: (orderId: string, lines: GoodsReceiptLine[], witness?: WitnessConfirmation) => Promise<void>
+
+        // Stock-Take Actions
+        fetchStockTakes: () => Promise<void>
+        startStockTake: (stockTake: StockTake) => Promise<void>
+        saveStockTake: (stockTake: StockTake) => Promise<void>
+        postStockTake: (stockTake: StockTake, witness?: WitnessConfirmation) => Promise<void>
         addSupplier: (supplier: Supplier) => Promise<void>
         updateSupplier: (supplier: Supplier) => Promise<void>
         deleteSupplier: (id: string) => Promise<void>
 
         // Appointment Actions
-        addAppointment: (appointment: Appointment) => Promise<void>
-        updateAppointment: (appointment: Appointment) => Promise<void>
+        addAppointment: (appointment: Appointment) => Promise<boolean>
+        updateAppointment: (appointment: Appointment) => Promise<boolean>
+        rescheduleAppointment: (appointment: Appointment, previous: Appointment) => Promise<boolean>
+        addAppointmentSeries: (firstAppointment: Appointment, rule: RecurrenceRule) => Promise<boolean>
+        updateAppointmentSeries: (fromAppointment: Appointment, dayShift: number) => Promise<boolean>
+        cancelAppointmentSeries: (fromAppointment: Appointment) => Promise<boolean>
         deleteAppointment: (appointmentId: string) => Promise<void>
 
+        // Scheduling Actions
+        fetchScheduling: () => Promise<void>
+        saveAppointmentType: (type: AppointmentType) => Promise<void>
+        deleteAppointmentType: (id: string) => Promise<void>
+        saveProviderSchedule: (providerId: string, hours: ProviderWorkingHours[]) => Promise<void>
+        fetchWaitlist: () => Promise<void>
+        addWaitlistEntry: (entry: WaitlistEntry) => Promise<boolean>
+        removeWaitlistEntry: (id: string) => Promise<void>
+
         // Visit Actions
-        addVisit: (patientId: string, priority?: string, insurance?: any, skipVitals?: boolean) => Promise<void>
+        addVisit: (patientId: string, priority?: string, insurance?: any, skipVitals?: boolean, appointmentId?: string) => Promise<void>
         updateVisit: (visit: Visit) => Promise<void>
-        dispensePrescription: (visit: Visit) => Promise<void>
+        dispensePrescription: (visit: Visit, witness?: WitnessConfirmation) => Promise<void>
         completeVisit: (visit: Visit) => Promise<void>
+        signVisitNote: (visit: Visit) => Promise<Visit | null>
+
+        // Clinical Note Actions
+        fetchNoteTemplates: () => Promise<void>
+        saveNoteTemplate: (template: NoteTemplate) => Promise<boolean>
+        deleteNoteTemplate: (id: string) => Promise<void>
+
+        // Lab Catalogue Actions
+        fetchLabTests: () => Promise<void>
+        saveLabTest: (test: LabTestProfile) => Promise<boolean>
+        deleteLabTest: (id: string) => Promise<void>
 
         // Settings Actions
         updateSettings: (settings: ClinicSettings) => Promise<void>
@@ -168,10 +228,17 @@ const useStore = create<AppState>((set, get) => ({
     toasts: [],
     patients: [],
     appointments: [],
+    appointmentTypes: [],
+    providerSchedules: [],
+    waitlist: [],
     inventory: [],
     suppliers: [],
     inventoryLogs: [],
+    purchaseOrders: [],
+    stockTakes: [],
     visits: [],
+    noteTemplates: [],
+    labTests: [],
     settings: defaultSettings, // Initial state, will be updated by fetchData from Supabase
 
     actions: {
@@ -235,6 +302,8 @@ const useStore = create<AppState>((set, get) => ({
                 visits: [],
                 suppliers: [],
                 inventoryLogs: [],
+                purchaseOrders: [],
+                stockTakes: [],
                 isDemoMode: false,
                 isAppLoading: false,
             })
@@ -306,6 +375,13 @@ const useStore = create<AppState>((set, get) => ({
                     settings: { ...(settings || get().settings), team: team || [] }
                 })
                 set({ isAppLoading: false })
+                get().actions.fetchInventoryLogs()
+                get().actions.fetchPurchaseOrders()
+                get().actions.fetchStockTakes()
+                get().actions.fetchScheduling()
+                get().actions.fetchWaitlist()
+                get().actions.fetchNoteTemplates()
+                get().actions.fetchLabTests()
             } catch (e) {
                 console.error("Data fetch failed:", e)
                 set({ isAppLoading: false })
@@ -357,21 +433,25 @@ const useStore = create<AppState>((set, get) => ({
                 if (!saved) throw new Error('Failed to create inventory item')
                 set((state) => ({ inventory: [saved, ...state.inventory] }))
                 get().actions.showToast(`${saved.name} added to inventory.`)
+                get().actions.fetchInventoryLogs()
             } catch (e) {
                 console.error('addInventoryItem error', e)
                 get().actions.showToast("Error creating item", "error")
             }
         },
-        updateInventoryItem: async (updatedItem, reason = "Updated details") => {
+        updateInventoryItem: async (updatedItem, reason = "Updated details", witness) => {
             try {
-                await db.updateInventoryItem(updatedItem)
+                await db.updateInventoryItem(updatedItem, reason, witness)
                 set((state) => ({
                     inventory: state.inventory.map((i) => (i.id === updatedItem.id ? updatedItem : i)),
                 }))
                 get().actions.showToast(`${updatedItem.name} updated.`)
-            } catch (e) {
+                get().actions.fetchInventoryLogs()
+            } catch (e: any) {
                 console.error('updateInventoryItem error', e)
-                get().actions.showToast("Error updating item", "error")
+                get().actions.showToast(e?.message || "Error updating item", "error")
+                // A witnessed movement keeps its modal open so the witness can try again
+                if (witness) throw e
             }
         },
         deleteInventoryItem: async (id) => {
@@ -379,11 +459,126 @@ const useStore = create<AppState>((set, get) => ({
                 await db.deleteInventoryItem(id)
                 set((state) => ({ inventory: state.inventory.filter((i) => i.id !== id) }))
                 get().actions.showToast(`Item removed.`, "info")
-            } catch (e) {
+                get().actions.fetchInventoryLogs()
+            } catch (e: any) {
                 console.error('deleteInventoryItem error', e)
-                get().actions.showToast("Error deleting item", "error")
+                get().actions.showToast(e?.message || "Error deleting item", "error")
+            }
+        },
+        fetchInventoryLogs: async () => {
+            try {
+                set({ inventoryLogs: await db.getInventoryLogs() })
+            } catch (e) {
+                console.error('fetchInventoryLogs error', e)
+            }
+        },
+
+        // Purchasing Actions
+        fetchPurchaseOrders: async () => {
+            try {
+                set({ purchaseOrders: await db.getPurchaseOrders() })
+            } catch (e) {
+                console.error('fetchPurchaseOrders error', e)
+            }
+        },
+        addPurchaseOrder: async (order) => {
+            try {
+                const saved = await db.createPurchaseOrder(order)
+                set((state) => ({ purchaseOrders: [saved, ...state.purchaseOrders] }))
+                get().actions.showToast(`${saved.poNumber} created.`)
+            } catch (e) {
+                console.error('addPurchaseOrder error', e)
+                get().actions.showToast("Error creating purchase order", "error")
+            }
+        },
+        updatePurchaseOrder: async (order) => {
+            try {
+                await db.updatePurchaseOrder(order)
+                set((state) => ({
+                    purchaseOrders: state.purchaseOrders.map((o) => (o.id === order.id ? order : o)),
+                }))
+                get().actions.showToast(`${order.poNumber} updated.`)
+            } catch (e) {
+                console.error('updatePurchaseOrder error', e)
+                get().actions.showToast("Error updating purchase order", "error")
+            }
+        },
+        receivePurchaseOrder: async (orderId, lines, witness) => {
+            try {
+                const updated = await db.receivePurchaseOrder(orderId, lines, witness)
+                set((state) => ({
+                    purchaseOrders: state.purchaseOrders.map((o) => (o.id === updated.id ? updated : o)),
+                }))
+                get().actions.showToast(`Goods received against ${updated.poNumber} (${updated.status}).`)
+            } catch (e: any) {
+                console.error('receivePurchaseOrder error', e)
+                get().actions.showToast(e?.message || "Error receiving goods", "error")
+                if (witness) throw e
+                return
+            }
+
+            try {
+                set({ inventory: await db.getInventory() })
+            } catch (e) {
+                console.error('getInventory error', e)
+            }
+            get().actions.fetchInventoryLogs()
+        },
+
+        // Stock-Take Actions
+        fetchStockTakes: async () => {
+            try {
+                set({ stockTakes: await db.getStockTakes() })
+            } catch (e) {
+                console.error('fetchStockTakes error', e)
+            }
+        },
+        startStockTake: async (stockTake) => {
+            try {
+                const saved = await db.createStockTake(stockTake)
+                set((state) => ({ stockTakes: [saved, ...state.stockTakes] }))
+                get().actions.showToast(`Stock-take ${saved.reference} started.`)
+            } catch (e) {
+                console.error('startStockTake error', e)
+                get().actions.showToast("Error starting stock-take. Is another count still open?", "error")
             }
         },
+        saveStockTake: async (stockTake) => {
+            try {
+                await db.updateStockTake(stockTake)
+                set((state) => ({
+                    stockTakes: state.stockTakes.map((t) => (t.id === stockTake.id ? stockTake : t)),
+                }))
+                get().actions.showToast(stockTake.status === "Cancelled" ? `Stock-take ${stockTake.reference} discarded.` : "Counts saved.", "info")
+            } catch (e) {
+                console.error('saveStockTake error', e)
+                get().actions.showToast("Error saving counts", "error")
+            }
+        },
+        postStockTake: async (stockTake, witness) => {
+            let posted: StockTake
+            try {
+                // Persist the latest counts first; posting reads them from the session
+                await db.updateStockTake(stockTake)
+                posted = await db.postStockTake(stockTake.id, witness)
+            } catch (e: any) {
+                console.error('postStockTake error', e)
+                get().actions.showToast(e?.message || "Error posting stock-take", "error")
+                if (witness) throw e
+                return
+            }
+
+            set((state) => ({ stockTakes: state.stockTakes.map((t) => (t.id === posted.id ? posted : t)) }))
+            const adjusted = posted.lines.filter((l) => getLineVariance(l) !== 0)
+            get().actions.showToast(`Stock-take ${posted.reference} posted: ${adjusted.length} adjustment${adjusted.length === 1 ? "" : "s"}.`)
+
+            try {
+                set({ inventory: await db.getInventory() })
+            } catch (e) {
+                console.error('getInventory error', e)
+            }
+            get().actions.fetchInventoryLogs()
+        },
         addSupplier: async (supplier) => {
             try {
                 const saved = await db.createSupplier(supplier)
@@ -431,8 +626,11 @@ const useStore = create<AppState>((set, get) => ({
                 if (savedAppt) createdAppt = savedAppt
                 set((state) => ({ appointments: [...state.appointments, createdAppt] }))
                 get().actions.showToast(`Appointment scheduled for ${createdAppt.patientName}.`)
-            } catch (e) {
-                get().actions.showToast("Error scheduling appointment", "error")
+                return true
+            } catch (e: any) {
+                // Slot conflicts and out-of-hours bookings are rejected by the database with a readable message
+                get().actions.showToast(e?.message || "Error scheduling appointment", "error")
+                return false
             }
         },
         updateAppointment: async (updatedAppt) => {
@@ -441,8 +639,70 @@ const useStore = create<AppState>((set, get) => ({
                 set((state) => ({
                     appointments: state.appointments.map((a) => (a.id === updatedAppt.id ? updatedAppt : a)),
                 }))
-            } catch (e) {
-                get().actions.showToast("Error updating appointment", "error")
+                return true
+            } catch (e: any) {
+                get().actions.showToast(e?.message || "Error updating appointment", "error")
+                return false
+            }
+        },
+        rescheduleAppointment: async (movedAppt, previousAppt) => {
+            try {
+                await db.updateAppointment(movedAppt)
+                set((state) => ({
+                    appointments: state.appointments.map((a) => (a.id === movedAppt.id ? movedAppt : a)),
+                }))
+            } catch (e: any) {
+                console.error('rescheduleAppointment error', e)
+                get().actions.showToast(e?.message || "Error rescheduling appointment", "error")
+                return false
+            }
+
+            get().actions.showToast(`Appointment moved to ${movedAppt.date} at ${movedAppt.time}.`)
+            const patient = get().patients.find((p) => p.id === movedAppt.patientId)
+            if (patient && isRescheduled(previousAppt, movedAppt)) {
+                // Notifications run after the move is saved and never undo it
+                notifyAppointmentRescheduled(movedAppt, patient, get().settings).then((sent) => {
+                    if (sent.sms || sent.email) {
+                        get().actions.showToast(`${patient.name} notified by ${[sent.sms && "SMS", sent.email && "email"].filter(Boolean).join(" and ")}.`, "info")
+                    }
+                })
+            }
+            return true
+        },
+        addAppointmentSeries: async (firstAppt, rule) => {
+            try {
+                const created = await db.createAppointmentSeries(firstAppt, rule)
+                set((state) => ({ appointments: [...state.appointments, ...created] }))
+                get().actions.showToast(`${created.length} appointments scheduled for ${firstAppt.patientName}.`)
+                return true
+            } catch (e: any) {
+                console.error('addAppointmentSeries error', e)
+                get().actions.showToast(e?.message || "Error scheduling appointment series", "error")
+                return false
+            }
+        },
+        updateAppointmentSeries: async (fromAppt, dayShift) => {
+            try {
+                const updated = await db.updateAppointmentSeries(fromAppt, dayShift)
+                set({ appointments: await db.getAppointments() })
+                get().actions.showToast(`${updated} appointments in the series updated.`)
+                return true
+            } catch (e: any) {
+                console.error('updateAppointmentSeries error', e)
+                get().actions.showToast(e?.message || "Error updating appointment series", "error")
+                return false
+            }
+        },
+        cancelAppointmentSeries: async (fromAppt) => {
+            try {
+                const cancelled = await db.cancelAppointmentSeries(fromAppt.id)
+                set({ appointments: await db.getAppointments() })
+                get().actions.showToast(`${cancelled} appointments in the series cancelled.`, "info")
+                return true
+            } catch (e: any) {
+                console.error('cancelAppointmentSeries error', e)
+                get().actions.showToast(e?.message || "Error cancelling appointment series", "error")
+                return false
             }
         },
         deleteAppointment: async (appointmentId) => {
@@ -456,10 +716,87 @@ const useStore = create<AppState>((set, get) => ({
             }
         },
 
+        // Scheduling Actions
+        fetchScheduling: async () => {
+            try {
+                const [appointmentTypes, providerSchedules] = await Promise.all([
+                    db.getAppointmentTypes(),
+                    db.getProviderSchedules(),
+                ])
+                set({ appointmentTypes, providerSchedules })
+            } catch (e) {
+                console.error('fetchScheduling error', e)
+            }
+        },
+        saveAppointmentType: async (type) => {
+            try {
+                const saved = await db.saveAppointmentType(type)
+                set((state) => ({
+                    appointmentTypes: [...state.appointmentTypes.filter((t) => t.id !== saved.id), saved]
+                        .sort((a, b) => a.name.localeCompare(b.name)),
+                }))
+                get().actions.showToast(`${saved.name} saved.`)
+            } catch (e) {
+                console.error('saveAppointmentType error', e)
+                get().actions.showToast("Error saving appointment type", "error")
+            }
+        },
+        deleteAppointmentType: async (id) => {
+            try {
+                await db.deleteAppointmentType(id)
+                set((state) => ({ appointmentTypes: state.appointmentTypes.filter((t) => t.id !== id) }))
+            } catch (e) {
+                console.error('deleteAppointmentType error', e)
+                get().actions.showToast("Error deleting appointment type", "error")
+            }
+        },
+        saveProviderSchedule: async (providerId, hours) => {
+            try {
+                await db.saveProviderSchedule(providerId, hours)
+                set({ providerSchedules: await db.getProviderSchedules() })
+                get().actions.showToast("Working hours saved.")
+            } catch (e) {
+                console.error('saveProviderSchedule error', e)
+                get().actions.showToast("Error saving working hours", "error")
+            }
+        },
+        fetchWaitlist: async () => {
+            try {
+                set({ waitlist: await db.getWaitlist() })
+            } catch (e) {
+                console.error('fetchWaitlist error', e)
+            }
+        },
+        addWaitlistEntry: async (entry) => {
+            try {
+                const saved = await db.addWaitlistEntry(entry)
+                set((state) => ({ waitlist: [...state.waitlist, saved] }))
+                get().actions.showToast(`${saved.patientName || "Patient"} added to the waitlist.`)
+                return true
+            } catch (e) {
+                console.error('addWaitlistEntry error', e)
+                get().actions.showToast("Error adding to waitlist", "error")
+                return false
+            }
+        },
+        removeWaitlistEntry: async (id) => {
+            try {
+                await db.removeWaitlistEntry(id)
+                set((state) => ({ waitlist: state.waitlist.filter((e) => e.id !== id) }))
+            } catch (e) {
+                console.error('removeWaitlistEntry error', e)
+                get().actions.showToast("Error removing waitlist entry", "error")
+            }
+        },
+
         // Visit Actions
-        addVisit: async (patientId, priority = "Normal", insurance, skipVitals = false) => {
+        addVisit: async (patientId, priority = "Normal", insurance, skipVitals = false, appointmentId) => {
             const patient = get().patients.find((p) => p.id === patientId)
             if (!patient) return
+            if (appointmentId && get().visits.some((v) => v.appointmentId === appointmentId)) {
+                get().actions.showToast(`${patient.name} is already checked in.`, "info")
+                return
+            }
 
             const newVisit: Visit = {
                 id: `V${Date.now()}`,
@@ -470,51 +807,90 @@ const useStore = create<AppState>((set, get) => ({
                 startTime: new Date().toISOString(),
                 queueNumber: get().visits.filter((v) => v.stage !== "Completed").length + 1,
                 priority: priority as any,
+                appointmentId,
                 labOrders: [],
                 prescription: [],
                 medicationsDispensed: false,
                 consultationFee: 500,
                 totalBill: 500,
                 paymentStatus: "Pending",
-                vitals: { bp: "", heartRate: "", temp: "", weight: "" },
+                vitals: {},
             }
 
             try {
                 let createdVisit = newVisit
                 const saved = await db.createVisit(newVisit)
                 if (saved) createdVisit = saved
-                set((state) => ({ visits: [...state.visits, createdVisit] }))
+                set((state) => ({
+                    visits: [...state.visits, createdVisit],
+                    appointments: appointmentId
+                        ? state.appointments.map((a) => (a.id === appointmentId ? { ...a, checkedInAt: createdVisit.startTime } : a))
+                        : state.appointments,
+                }))
                 get().actions.showToast(`${patient.name} checked in.`)
             } catch (e) {
                 get().actions.showToast("Error checking in patient", "error")
             }
         },
         updateVisit: async (updatedVisit) => {
+            const previous = get().visits.find((v) => v.id === updatedVisit.id)
             try {
                 await db.updateVisit(updatedVisit)
+                // The database completes the appointment with the visit
+                const completesAppointment = updatedVisit.stage === "Completed" && !!updatedVisit.appointmentId
                 set((state) => ({
                     visits: state.visits.map((v) => (v.id === updatedVisit.id ? updatedVisit : v)),
+                    appointments: completesAppointment
+                        ? state.appointments.map((a) =>
+                            a.id === updatedVisit.appointmentId && (a.status === "Scheduled" || a.status === "No-Show")
+                                ? { ...a, status: "Completed" as const }
+                                : a)
+                        : state.appointments,
                 }))
             } catch (e) {
                 get().actions.showToast("Error updating visit", "error")
+                return
             }
-        },
-        dispensePrescription: async (visit) => {
-            const updatedInventory = [...get().inventory]
-            for (const med of visit.prescription) {
-                const itemIndex = updatedInventory.findIndex((i) => i.id === med.inventoryId)
-                if (itemIndex > -1) {
-                    const item = updatedInventory[itemIndex]
-                    const newStock = Math.max(0, item.stock - med.quantity)
-                    updatedInventory[itemIndex] = { ...item, stock: newStock }
-                    try {
-                        await db.updateInventoryItem(updatedInventory[itemIndex])
-                    } catch (err) {
-                        console.error('Failed to update inventory during dispensePrescription', err)
+
+            // Safety overrides are audited once they are saved on the visit, not when the dialog is confirmed
+            const user = get().currentUser
+            for (const { item, override } of getNewOverrides(previous?.prescription || [], updatedVisit.prescription)) {
+                auditLogger.log(user?.id || "unknown", user?.name || "Staff", "PRESCRIPTION_OVERRIDE", "Visit", updatedVisit.id, {
+                    resourceName: item.name,
+                    metadata: { patientId: updatedVisit.patientId, alerts: override.alerts, reason: override.reason },
+                })
+            }
+
+            // Hold stock for the prescription as soon as the doctor writes it; release it when the visit closes
+            const prescriptionChanged = JSON.stringify(previous?.prescription || []) !== JSON.stringify(updatedVisit.prescription)
+            const closed = updatedVisit.stage === "Completed" && previous?.stage !== "Completed"
+            if (!updatedVisit.medicationsDispensed && (prescriptionChanged || closed)) {
+                try {
+                    await db.reserveStockForVisit(updatedVisit.id)
+                } catch (e: any) {
+                    console.error('reserveStockForVisit error', e)
+                    if (prescriptionChanged) {
+                        get().actions.showToast(`Stock not reserved: ${e?.message || "reservation failed"}`, "error")
                     }
                 }
+                try {
+                    set({ inventory: await db.getInventory() })
+                } catch (e) {
+                    console.error('getInventory error', e)
+                }
+            }
+        },
+        dispensePrescription: async (visit, witness) => {
+            let logs: InventoryLog[]
+            try {
+                // Server-side: all lines are drawn (first-expiring lots first) or none are
+                logs = await db.dispensePrescription(visit.id, witness)
+            } catch (e: any) {
+                console.error('dispensePrescription error', e)
+                get().actions.showToast(e?.message || "Dispense failed. No stock was deducted.", "error")
+                if (witness) throw e
+                return
             }
-            set({ inventory: updatedInventory })
 
             const nextVisitState: Visit = {
                 ...visit,
@@ -522,12 +898,21 @@ const useStore = create<AppState>((set, get) => ({
                 stage: "Clearance",
                 stageStartTime: new Date().toISOString(),
             }
-            await get().actions.updateVisit(nextVisitState)
+            set((state) => ({
+                visits: state.visits.map((v) => (v.id === visit.id ? nextVisitState : v)),
+                inventoryLogs: [...logs, ...state.inventoryLogs],
+            }))
+
+            try {
+                set({ inventory: await db.getInventory() })
+            } catch (e) {
+                console.error('getInventory error', e)
+            }
             get().actions.showToast("Medications dispensed. Sent to Clearance.")
         },
         completeVisit: async (visit) => {
-            const diagnosisText = visit.diagnosis ? `Dx: ${visit.diagnosis}` : "No Diagnosis"
-            const notesText = visit.doctorNotes ? `Notes: ${visit.doctorNotes}` : ""
+            const diagnosisText = summarizeDiagnosis(visit)
+            const notesText = summarizeClinicalNote(visit)
             const summary = `[${visit.startTime.split("T")[0]}] ${diagnosisText}. ${notesText}`.trim()
 
             const patient = get().patients.find((p) => p.id === visit.patientId)
@@ -543,9 +928,90 @@ const useStore = create<AppState>((set, get) => ({
             await get().actions.updateVisit({ ...visit, stage: "Completed" })
             get().actions.showToast("Visit finalized.", "success")
         },
+        signVisitNote: async (visit) => {
+            try {
+                // Sign exactly what is on screen
+                await db.updateVisit(visit)
+                const signedVisit: Visit = { ...visit, ...(await db.signVisitNote(visit.id)) }
+                set((state) => ({ visits: state.visits.map((v) => (v.id === visit.id ? signedVisit : v)) }))
+                get().actions.showToast("Note signed. Further changes go in addenda.")
+                return signedVisit
+            } catch (e: any) {
+                console.error('signVisitNote error', e)
+                get().actions.showToast(e?.message || "Error signing note", "error")
+                return null
+            }
+        },
+
+        // Clinical Note Actions
+        fetchNoteTemplates: async () => {
+            try {
+                set({ noteTemplates: await db.getNoteTemplates() })
+            } catch (e) {
+                console.error('fetchNoteTemplates error', e)
+            }
+        },
+        saveNoteTemplate: async (template) => {
+            try {
+                const saved = await db.saveNoteTemplate(template)
+                set((state) => ({
+                    noteTemplates: [...state.noteTemplates.filter((t) => t.id !== saved.id), saved]
+                        .sort((a, b) => a.name.localeCompare(b.name)),
+                }))
+                get().actions.showToast(`${saved.name} template saved.`)
+                return true
+            } catch (e) {
+                console.error('saveNoteTemplate error', e)
+                get().actions.showToast("Error saving note template", "error")
+                return false
+            }
+        },
+        deleteNoteTemplate: async (id) => {
+            try {
+                await db.deleteNoteTemplate(id)
+                set((state) => ({ noteTemplates: state.noteTemplates.filter((t) => t.id !== id) }))
+            } catch (e) {
+                console.error('deleteNoteTemplate error', e)
+                get().actions.showToast("Error deleting note template", "error")
+            }
+        },
+
+        // Lab Catalogue Actions
+        fetchLabTests: async () => {
+            try {
+                set({ labTests: await db.getLabTests() })
+            } catch (e) {
+                console.error('fetchLabTests error', e)
+            }
+        },
+        saveLabTest: async (test) => {
+            try {
+                const saved = await db.saveLabTest(test)
+                set((state) => ({
+                    labTests: [...state.labTests.filter((t) => t.id !== saved.id), saved]
+                        .sort((a, b) => a.name.localeCompare(b.name)),
+                }))
+                get().actions.showToast(`${saved.name} saved.`)
+                return true
+            } catch (e) {
+                console.error('saveLabTest error', e)
+                get().actions.showToast("Error saving lab test", "error")
+                return false
+            }
+        },
+        deleteLabTest: async (id) => {
+            try {
+                await db.deleteLabTest(id)
+                set((state) => ({ labTests: state.labTests.filter((t) => t.id !== id) }))
+            } catch (e) {
+                console.error('deleteLabTest error', e)
+                get().actions.showToast("Error deleting lab test", "error")
+            }
+        },
 
         // Settings Actions
         updateSettings: async (newSettings) => {
+            const previous = get().settings.notifications
             set({ settings: newSettings })
 
             try {
@@ -554,6 +1020,15 @@ const useStore = create<AppState>((set, get) => ({
             } catch (e) {
                 console.error("Failed to save settings to DB", e)
                 get().actions.showToast("Settings saved locally (DB Error)", "info")
+                return
+            }
+
+            const next = newSettings.notifications
+            const remindersChanged =
+                previous?.appointmentReminders !== next?.appointmentReminders ||
+                JSON.stringify(previous?.reminderOffsetsHours) !== JSON.stringify(next?.reminderOffsetsHours)
+            if (remindersChanged) {
+                db.refreshAppointmentReminders().catch((e) => console.error("Failed to reschedule reminders", e))
             }
         },
     },
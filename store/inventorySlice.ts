@@ -1,17 +1,29 @@
 import type { StateCreator } from "zustand"
-import type { InventoryItem, Supplier, InventoryLog } from "../types"
+import type { InventoryItem, Supplier, InventoryLog, PurchaseOrder, GoodsReceiptLine, StockTake, WitnessConfirmation } from "../types"
 import { db } from "../services/db"
+import { getLineVariance } from "../lib/stockTake"
 
 export interface InventorySlice {
     inventory: InventoryItem[]
     suppliers: Supplier[]
     inventoryLogs: InventoryLog[]
+    purchaseOrders: PurchaseOrder[]
+    stockTakes: StockTake[]
     actions: {
         setInventory: (inventory: InventoryItem[]) => void
         setSuppliers: (suppliers: Supplier[]) => void
         addInventoryItem: (item: InventoryItem) => Promise<void>
-        updateInventoryItem: (item: InventoryItem, reason?: string) => Promise<void>
+        updateInventoryItem: (item: InventoryItem, reason?: string, witness?: WitnessConfirmation) => Promise<void>
         deleteInventoryItem: (id: string) => Promise<void>
+        fetchInventoryLogs: () => Promise<void>
+        fetchPurchaseOrders: () => Promise<void>
+        addPurchaseOrder: (order: PurchaseOrder) => Promise<void>
+        updatePurchaseOrder: (order: PurchaseOrder) => Promise<void>
+        receivePurchaseOrder: (orderId: string, lines: GoodsReceiptLine[], witness?: WitnessConfirmation) => Promise<void>
+        fetchStockTakes: () => Promise<void>
+        startStockTake: (stockTake: StockTake) => Promise<void>
+        saveStockTake: (stockTake: StockTake) => Promise<void>
+        postStockTake: (stockTake: StockTake, witness?: WitnessConfirmation) => Promise<void>
         addSupplier: (supplier: Supplier) => Promise<void>
         updateSupplier: (supplier: Supplier) => Promise<void>
         deleteSupplier: (id: string) => Promise<void>
@@ -27,6 +39,8 @@ export const createInventorySlice: StateCreator<
     inventory: [],
     suppliers: [],
     inventoryLogs: [],
+    purchaseOrders: [],
+    stockTakes: [],
     actions: {
         setInventory: (inventory) => set({ inventory }),
         setSuppliers: (suppliers) => set({ suppliers }),
@@ -36,21 +50,25 @@ export const createInventorySlice: StateCreator<
                 if (!saved) throw new Error('Failed to create inventory item')
                 set((state) => ({ inventory: [saved, ...state.inventory] }))
                 get().actions.showToast(`${saved.name} added to inventory.`)
+                get().actions.fetchInventoryLogs()
             } catch (e) {
                 console.error('addInventoryItem error', e)
                 get().actions.showToast("Error creating item", "error")
             }
         },
-        updateInventoryItem: async (updatedItem, reason = "Updated details") => {
+        updateInventoryItem: async (updatedItem, reason = "Updated details", witness) => {
             try {
-                await db.updateInventoryItem(updatedItem)
+                await db.updateInventoryItem(updatedItem, reason, witness)
                 set((state) => ({
                     inventory: state.inventory.map((i) => (i.id === updatedItem.id ? updatedItem : i)),
                 }))
                 get().actions.showToast(`${updatedItem.name} updated.`)
-            } catch (e) {
+                get().actions.fetchInventoryLogs()
+            } catch (e: any) {
                 console.error('updateInventoryItem error', e)
-                get().actions.showToast("Error updating item", "error")
+                get().actions.showToast(e?.message || "Error updating item", "error")
+                // A witnessed movement keeps its modal open so the witness can try again
+                if (witness) throw e
             }
         },
         deleteInventoryItem: async (id) => {
@@ -58,10 +76,115 @@ export const createInventorySlice: StateCreator<
                 await db.deleteInventoryItem(id)
                 set((state) => ({ inventory: state.inventory.filter((i) => i.id !== id) }))
                 get().actions.showToast(`Item removed.`, "info")
-            } catch (e) {
+                get().actions.fetchInventoryLogs()
+            } catch (e: any) {
                 console.error('deleteInventoryItem error', e)
-                get().actions.showToast("Error deleting item", "error")
+                get().actions.showToast(e?.message || "Error deleting item", "error")
+            }
+        },
+        fetchInventoryLogs: async () => {
+            try {
+                set({ inventoryLogs: await db.getInventoryLogs() })
+            } catch (e) {
+                console.error('fetchInventoryLogs error', e)
+            }
+        },
+        fetchPurchaseOrders: async () => {
+            try {
+                set({ purchaseOrders: await db.getPurchaseOrders() })
+            } catch (e) {
+                console.error('fetchPurchaseOrders error', e)
+            }
+        },
+        addPurchaseOrder: async (order) => {
+            try {
+                const saved = await db.createPurchaseOrder(order)
+                set((state) => ({ purchaseOrders: [saved, ...state.purchaseOrders] }))
+                get().actions.showToast(`${saved.poNumber} created.`)
+            } catch (e) {
+                console.error('addPurchaseOrder error', e)
+                get().actions.showToast("Error creating purchase order", "error")
+            }
+        },
+        updatePurchaseOrder: async (order) => {
+            try {
+                await db.updatePurchaseOrder(order)
+                set((state) => ({
+                    purchaseOrders: state.purchaseOrders.map((o) => (o.id === order.id ? order : o)),
+                }))
+                get().actions.showToast(`${order.poNumber} updated.`)
+            } catch (e) {
+                console.error('updatePurchaseOrder error', e)
+                get().actions.showToast("Error updating purchase order", "error")
+            }
+        },
+        receivePurchaseOrder: async (orderId, lines, witness) => {
+            try {
+                const updated = await db.receivePurchaseOrder(orderId, lines, witness)
+                set((state) => ({
+                    purchaseOrders: state.purchaseOrders.map((o) => (o.id === updated.id ? updated : o)),
+                }))
+                set({ inventory: await db.getInventory() })
+                get().actions.showToast(`Goods received against ${updated.poNumber} (${updated.status}).`)
+                get().actions.fetchInventoryLogs()
+            } catch (e: any) {
+                console.error('receivePurchaseOrder error', e)
+                get().actions.showToast(e?.message || "Error receiving goods", "error")
+                if (witness) throw e
+            }
+        },
+        fetchStockTakes: async () => {
+            try {
+                set({ stockTakes: await db.getStockTakes() })
+            } catch (e) {
+                console.error('fetchStockTakes error', e)
+            }
+        },
+        startStockTake: async (stockTake) => {
+            try {
+                const saved = await db.createStockTake(stockTake)
+                set((state) => ({ stockTakes: [saved, ...state.stockTakes] }))
+                get().actions.showToast(`Stock-take ${saved.reference} started.`)
+            } catch (e) {
+                console.error('startStockTake error', e)
+                get().actions.showToast("Error starting stock-take. Is another count still open?", "error")
+            }
+        },
+        saveStockTake: async (stockTake) => {
+            try {
+                await db.updateStockTake(stockTake)
+                set((state) => ({
+                    stockTakes: state.stockTakes.map((t) => (t.id === stockTake.id ? stockTake : t)),
+                }))
+                get().actions.showToast(stockTake.status === "Cancelled" ? `Stock-take ${stockTake.reference} discarded.` : "Counts saved.", "info")
+            } catch (e) {
+                console.error('saveStockTake error', e)
+                get().actions.showToast("Error saving counts", "error")
+            }
+        },
+        postStockTake: async (stockTake, witness) => {
+            let posted: StockTake
+            try {
+                // Persist the latest counts first; posting reads them from the session
+                await db.updateStockTake(stockTake)
+                posted = await db.postStockTake(stockTake.id, witness)
+            } catch (e: any) {
+                console.error('postStockTake error', e)
+                get().actions.showToast(e?.message || "Error posting stock-take", "error")
+                if (witness) throw e
+                return
+            }
+
+            set((state) => ({ stockTakes: state.stockTakes.map((t) => (t.id === posted.id ? posted : t)) }))
+            const adjusted = posted.lines.filter((l) => getLineVariance(l) !== 0)
+            get().actions.showToast(`Stock-take ${posted.reference} posted: ${adjusted.length} adjustment${adjusted.length === 1 ? "" : "s"}.`)
+
+            try {
+                set({ inventory: await db.getInventory() })
+            } catch (e) {
+                console.error('getInventory error', e)
             }
+            get().actions.fetchInventoryLogs()
         },
         addSupplier: async (supplier) => {
             try {
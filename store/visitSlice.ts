@@ -1,23 +1,31 @@
 import type { StateCreator } from "zustand"
-import type { Visit, Patient } from "../types"
+import type { Visit, Patient, Appointment, InventoryItem, InventoryLog, WitnessConfirmation, TeamMember } from "../types"
 import { db } from "../services/db"
+import { auditLogger } from "../services/auditService"
+import { summarizeClinicalNote } from "../lib/clinicalNotes"
+import { summarizeDiagnosis } from "../lib/diagnosisCoding"
+import { getNewOverrides } from "../lib/medicationSafety"
 
 export interface VisitSlice {
     visits: Visit[]
     actions: {
         setVisits: (visits: Visit[]) => void
-        addVisit: (patientId: string, priority?: string, insurance?: any, skipVitals?: boolean) => Promise<void>
+        addVisit: (patientId: string, priority?: string, insurance?: any, skipVitals?: boolean, appointmentId?: string) => Promise<void>
         updateVisit: (visit: Visit) => Promise<void>
-        dispensePrescription: (visit: Visit) => Promise<void>
+        dispensePrescription: (visit: Visit, witness?: WitnessConfirmation) => Promise<void>
         completeVisit: (visit: Visit) => Promise<void>
+        signVisitNote: (visit: Visit) => Promise<Visit | null>
     }
 }
 
 export const createVisitSlice: StateCreator<
     VisitSlice & {
         isDemoMode: boolean
+        currentUser: TeamMember | null
         patients: Patient[]
-        inventory: any[]
+        appointments: Appointment[]
+        inventory: InventoryItem[]
+        inventoryLogs: InventoryLog[]
         actions: {
             showToast: (msg: string, type?: "success" | "error" | "info") => void
             updatePatient: (patient: Patient) => Promise<void>
@@ -31,9 +39,13 @@ export const createVisitSlice: StateCreator<
     visits: [],
     actions: {
         setVisits: (visits) => set({ visits }),
-        addVisit: async (patientId, priority = "Normal", insurance, skipVitals = false) => {
+        addVisit: async (patientId, priority = "Normal", insurance, skipVitals = false, appointmentId) => {
             const patient = get().patients.find((p) => p.id === patientId)
             if (!patient) return
+            if (appointmentId && get().visits.some((v) => v.appointmentId === appointmentId)) {
+                get().actions.showToast(`${patient.name} is already checked in.`, "info")
+                return
+            }
 
             const newVisit: Visit = {
                 id: `V${Date.now()}`,
@@ -44,19 +56,25 @@ export const createVisitSlice: StateCreator<
                 startTime: new Date().toISOString(),
                 queueNumber: get().visits.filter((v) => v.stage !== "Completed").length + 1,
                 priority: priority as any,
+                appointmentId,
                 labOrders: [],
                 prescription: [],
                 medicationsDispensed: false,
                 consultationFee: 500,
                 totalBill: 500,
                 paymentStatus: "Pending",
-                vitals: { bp: "", heartRate: "", temp: "", weight: "" },
+                vitals: {},
             }
 
             try {
                 const saved = await db.createVisit(newVisit)
                 if (!saved) throw new Error('Failed to create visit')
-                set((state) => ({ visits: [...state.visits, saved] }))
+                set((state) => ({
+                    visits: [...state.visits, saved],
+                    appointments: appointmentId
+                        ? state.appointments.map((a) => (a.id === appointmentId ? { ...a, checkedInAt: saved.startTime } : a))
+                        : state.appointments,
+                }))
                 get().actions.showToast(`${patient.name} checked in.`)
             } catch (e) {
                 console.error('addVisit error', e)
@@ -64,30 +82,65 @@ export const createVisitSlice: StateCreator<
             }
         },
         updateVisit: async (updatedVisit) => {
+            const previous = get().visits.find((v) => v.id === updatedVisit.id)
             try {
                 await db.updateVisit(updatedVisit)
+                // The database completes the appointment with the visit
+                const completesAppointment = updatedVisit.stage === "Completed" && !!updatedVisit.appointmentId
                 set((state) => ({
                     visits: state.visits.map((v) => (v.id === updatedVisit.id ? updatedVisit : v)),
+                    appointments: completesAppointment
+                        ? state.appointments.map((a) =>
+                            a.id === updatedVisit.appointmentId && (a.status === "Scheduled" || a.status === "No-Show")
+                                ? { ...a, status: "Completed" as const }
+                                : a)
+                        : state.appointments,
                 }))
             } catch (e) {
                 console.error('updateVisit error', e)
                 get().actions.showToast("Error updating visit", "error")
+                return
             }
-        },
-        dispensePrescription: async (visit) => {
-            const updatedInventory = [...get().inventory]
-            visit.prescription.forEach((med) => {
-                const itemIndex = updatedInventory.findIndex((i) => i.id === med.inventoryId)
-                if (itemIndex > -1) {
-                    const item = updatedInventory[itemIndex]
-                    const newStock = Math.max(0, item.stock - med.quantity)
-                    updatedInventory[itemIndex] = { ...item, stock: newStock }
 
-                    // Persist inventory change
-                    db.updateInventoryItem(updatedInventory[itemIndex]).catch((err) => console.error('updateInventoryItem error', err))
+            // Safety overrides are audited once they are saved on the visit, not when the dialog is confirmed
+            const user = get().currentUser
+            for (const { item, override } of getNewOverrides(previous?.prescription || [], updatedVisit.prescription)) {
+                auditLogger.log(user?.id || "unknown", user?.name || "Staff", "PRESCRIPTION_OVERRIDE", "Visit", updatedVisit.id, {
+                    resourceName: item.name,
+                    metadata: { patientId: updatedVisit.patientId, alerts: override.alerts, reason: override.reason },
+                })
+            }
+
+            // Hold stock for the prescription as soon as the doctor writes it; release it when the visit closes
+            const prescriptionChanged = JSON.stringify(previous?.prescription || []) !== JSON.stringify(updatedVisit.prescription)
+            const closed = updatedVisit.stage === "Completed" && previous?.stage !== "Completed"
+            if (!updatedVisit.medicationsDispensed && (prescriptionChanged || closed)) {
+                try {
+                    await db.reserveStockForVisit(updatedVisit.id)
+                } catch (e: any) {
+                    console.error('reserveStockForVisit error', e)
+                    if (prescriptionChanged) {
+                        get().actions.showToast(`Stock not reserved: ${e?.message || "reservation failed"}`, "error")
+                    }
+                }
+                try {
+                    set({ inventory: await db.getInventory() })
+                } catch (e) {
+                    console.error('getInventory error', e)
                 }
-            })
-            set({ inventory: updatedInventory })
+            }
+        },
+        dispensePrescription: async (visit, witness) => {
+            let logs: InventoryLog[]
+            try {
+                // Server-side: all lines are drawn (first-expiring lots first) or none are
+                logs = await db.dispensePrescription(visit.id, witness)
+            } catch (e: any) {
+                console.error('dispensePrescription error', e)
+                get().actions.showToast(e?.message || "Dispense failed. No stock was deducted.", "error")
+                if (witness) throw e
+                return
+            }
 
             const nextVisitState: Visit = {
                 ...visit,
@@ -95,12 +148,21 @@ export const createVisitSlice: StateCreator<
                 stage: "Clearance",
                 stageStartTime: new Date().toISOString(),
             }
-            await get().actions.updateVisit(nextVisitState)
+            set((state) => ({
+                visits: state.visits.map((v) => (v.id === visit.id ? nextVisitState : v)),
+                inventoryLogs: [...logs, ...state.inventoryLogs],
+            }))
+
+            try {
+                set({ inventory: await db.getInventory() })
+            } catch (e) {
+                console.error('getInventory error', e)
+            }
             get().actions.showToast("Medications dispensed. Sent to Clearance.")
         },
         completeVisit: async (visit) => {
-            const diagnosisText = visit.diagnosis ? `Dx: ${visit.diagnosis}` : "No Diagnosis"
-            const notesText = visit.doctorNotes ? `Notes: ${visit.doctorNotes}` : ""
+            const diagnosisText = summarizeDiagnosis(visit)
+            const notesText = summarizeClinicalNote(visit)
             const summary = `[${visit.startTime.split("T")[0]}] ${diagnosisText}. ${notesText}`.trim()
 
             const patient = get().patients.find((p) => p.id === visit.patientId)
@@ -116,5 +178,19 @@ export const createVisitSlice: StateCreator<
             await get().actions.updateVisit({ ...visit, stage: "Completed" })
             get().actions.showToast("Visit finalized.", "success")
         },
+        signVisitNote: async (visit) => {
+            try {
+                // Sign exactly what is on screen
+                await db.updateVisit(visit)
+                const signedVisit: Visit = { ...visit, ...(await db.signVisitNote(visit.id)) }
+                set((state) => ({ visits: state.visits.map((v) => (v.id === visit.id ? signedVisit : v)) }))
+                get().actions.showToast("Note signed. Further changes go in addenda.")
+                return signedVisit
+            } catch (e: any) {
+                console.error('signVisitNote error', e)
+                get().actions.showToast(e?.message || "Error signing note", "error")
+                return null
+            }
+        },
     },
 })
@@ -0,0 +1,168 @@
+// Supabase Edge Function (Deno) - dhis2-push
+// Pushes a monthly MOH 705 dataValueSets payload to the clinic's DHIS2 (KHIS) server and logs the
+// import summary in dhis2_submissions. The payload is built in the app (lib/dhis2.ts); the server URL,
+// username and org unit come from clinics.settings.dhis2, and the password from dhis2_credentials, a table
+// only the service role can read.
+// Called by clinic admins with their own JWT.
+// JSON body:
+//   form:    "705A" or "705B"
+//   payload: { dataSet, period, orgUnit, completeDate, dataValues: [...] }
+//   dry_run: true to have DHIS2 validate the payload without saving it
+// For local testing point the clinic's DHIS2 URL at mock-server.ts in this folder.
+// Only MOH 705A/705B are supported. MOH 711 is out of scope for now: it summarises family planning, maternity
+// and immunisation services that the app does not record.
+// Required env vars: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
+
+// @ts-ignore
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+// @ts-ignore
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+
+declare const Deno: any
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } })
+
+// Compared after lower-casing and replacing spaces, as set_dhis2_password does
+const ADMIN_ROLES = ["admin", "superadmin", "super_admin"]
+
+interface ImportResult {
+  status: "Success" | "Warning" | "Error"
+  imported: number
+  updated: number
+  ignored: number
+  conflicts: string[]
+  message: string | null
+}
+
+// DHIS2 2.38+ wraps the import summary in "response"; older servers return it at the top level
+function readImportSummary(body: any, httpStatus: number): ImportResult {
+  const summary = body?.response?.importCount ? body.response : body
+  const counts = summary?.importCount || {}
+  const conflicts = (summary?.conflicts || []).map((c: any) => [c.object, c.value].filter(Boolean).join(": "))
+  const status = String(summary?.status || body?.status || "").toUpperCase()
+  return {
+    status: status === "SUCCESS" || status === "OK" ? "Success" : status === "WARNING" ? "Warning" : "Error",
+    imported: counts.imported || 0,
+    updated: counts.updated || 0,
+    ignored: counts.ignored || 0,
+    conflicts,
+    message: summary?.description || body?.message || (httpStatus >= 400 ? `DHIS2 returned ${httpStatus}` : null),
+  }
+}
+
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders })
+  }
+
+  try {
+    const SUPABASE_URL = Deno.env.get("SUPABASE_URL")
+    const SERVICE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")
+    if (!SUPABASE_URL || !SERVICE_KEY) {
+      return json({ error: "Supabase service credentials not configured" }, 500)
+    }
+
+    const supabase = createClient(SUPABASE_URL, SERVICE_KEY)
+    const token = (req.headers.get("authorization") || "").replace("Bearer ", "")
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+    if (authError || !user) {
+      return json({ error: "Unauthorized" }, 401)
+    }
+
+    const { data: member, error: memberError } = await supabase
+      .from("users")
+      .select("clinic_id, role, full_name")
+      .eq("id", user.id)
+      .single()
+    if (memberError || !member?.clinic_id) {
+      return json({ error: "Clinic context not found" }, 403)
+    }
+    if (!ADMIN_ROLES.includes(String(member.role || "").toLowerCase().replace(/ /g, "_"))) {
+      return json({ error: "Only clinic admins can submit to DHIS2" }, 403)
+    }
+
+    const { form, payload, dry_run: dryRun = false } = await req.json()
+    if ((form !== "705A" && form !== "705B") || !payload?.period || !Array.isArray(payload?.dataValues)) {
+      return json({ error: "A form and a dataValueSets payload are required" }, 400)
+    }
+
+    const { data: clinic, error: clinicError } = await supabase
+      .from("clinics")
+      .select("settings")
+      .eq("id", member.clinic_id)
+      .single()
+    if (clinicError) throw clinicError
+
+    const { data: credentials, error: credentialsError } = await supabase
+      .from("dhis2_credentials")
+      .select("password")
+      .eq("clinic_id", member.clinic_id)
+      .maybeSingle()
+    if (credentialsError) throw credentialsError
+
+    const config = clinic?.settings?.dhis2 && { ...clinic.settings.dhis2, password: credentials?.password }
+    if (!config?.enabled || !config.baseUrl || !config.username || !config.password) {
+      return json({ error: "DHIS2 is not configured for this clinic" }, 400)
+    }
+    // Only ever report against the clinic's own facility and data set
+    if (payload.orgUnit !== config.orgUnit || payload.dataSet !== config.dataSets?.[form]) {
+      return json({ error: "The payload's org unit or data set does not match the clinic's DHIS2 settings" }, 400)
+    }
+
+    const url = new URL(`${config.baseUrl.replace(/\/+$/, "")}/api/dataValueSets`)
+    url.searchParams.set("importStrategy", "CREATE_AND_UPDATE")
+    if (dryRun) url.searchParams.set("dryRun", "true")
+
+    let result: ImportResult
+    let responseBody: any = null
+    try {
+      const resp = await fetch(url.toString(), {
+        method: "POST",
+        headers: {
+          Authorization: "Basic " + btoa(`${config.username}:${config.password}`),
+          "Content-Type": "application/json",
+          Accept: "application/json",
+        },
+        body: JSON.stringify(payload),
+      })
+      responseBody = await resp.json().catch(() => null)
+      result = readImportSummary(responseBody, resp.status)
+      if (resp.status === 401) result.message = "DHIS2 rejected the username or password"
+    } catch (err: any) {
+      result = { status: "Error", imported: 0, updated: 0, ignored: 0, conflicts: [], message: `Could not reach DHIS2: ${err?.message || err}` }
+    }
+
+    const { error: logError } = await supabase.from("dhis2_submissions").insert({
+      clinic_id: member.clinic_id,
+      form,
+      period: payload.period,
+      org_unit: payload.orgUnit,
+      data_set: payload.dataSet,
+      dry_run: Boolean(dryRun),
+      status: result.status,
+      value_count: payload.dataValues.length,
+      imported: result.imported,
+      updated: result.updated,
+      ignored: result.ignored,
+      conflicts: result.conflicts,
+      message: result.message,
+      payload,
+      response: responseBody,
+      submitted_by: user.id,
+      submitted_by_name: member.full_name,
+    })
+    if (logError) console.error("Failed to log DHIS2 submission", logError)
+
+    console.log("dhis2-push", { clinic: member.clinic_id, form, period: payload.period, dryRun, status: result.status })
+    return json({ success: result.status !== "Error", ...result })
+  } catch (err: any) {
+    console.error("dhis2-push execution error:", err)
+    return json({ error: err?.message || "Internal Server Error" }, 500)
+  }
+})
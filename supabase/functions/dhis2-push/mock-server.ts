@@ -0,0 +1,98 @@
+// Local DHIS2 mock for testing dhis2-push without a KHIS account. Not deployed.
+//   deno run --allow-net --allow-env supabase/functions/dhis2-push/mock-server.ts
+// Then set the clinic's DHIS2 URL to http://host.docker.internal:8085 (the Edge runtime runs in Docker)
+// with the username and password below.
+// Accepts POST /api/dataValueSets the way DHIS2 2.38+ does: values are kept in memory, a second push of
+// the same value counts as an update, and invalid UIDs or values come back as conflicts.
+// GET /api/dataValueSets?dataSet=&period=&orgUnit= returns what has been stored.
+// Env vars: MOCK_DHIS2_PORT (8085), MOCK_DHIS2_USERNAME (admin), MOCK_DHIS2_PASSWORD (district)
+
+// @ts-ignore
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+
+declare const Deno: any
+
+const PORT = Number(Deno.env.get("MOCK_DHIS2_PORT") || 8085)
+const USERNAME = Deno.env.get("MOCK_DHIS2_USERNAME") || "admin"
+const PASSWORD = Deno.env.get("MOCK_DHIS2_PASSWORD") || "district"
+
+const UID = /^[A-Za-z][A-Za-z0-9]{10}$/
+const store = new Map<string, string>()
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body, null, 2), { status, headers: { "Content-Type": "application/json" } })
+
+function importDataValues(body: any, dryRun: boolean) {
+  const conflicts: { object: string; value: string }[] = []
+  let imported = 0
+  let updated = 0
+  let ignored = 0
+
+  if (!UID.test(body?.dataSet || "")) conflicts.push({ object: String(body?.dataSet), value: "Data set not found or not accessible" })
+  if (!UID.test(body?.orgUnit || "")) conflicts.push({ object: String(body?.orgUnit), value: "Organisation unit not found or not accessible" })
+  if (!/^[0-9]{6}$/.test(body?.period || "")) conflicts.push({ object: String(body?.period), value: "Period not valid" })
+  if (conflicts.length > 0) {
+    return { status: "ERROR", importCount: { imported, updated, ignored: body?.dataValues?.length || 0, deleted: 0 }, conflicts }
+  }
+
+  for (const dv of body.dataValues || []) {
+    const coc = dv.categoryOptionCombo || "HllvX50cXC0"
+    if (!UID.test(dv.dataElement || "") || !UID.test(coc)) {
+      conflicts.push({ object: String(dv.dataElement), value: "Data element or category option combo not found" })
+      ignored += 1
+      continue
+    }
+    if (!/^[0-9]+$/.test(String(dv.value))) {
+      conflicts.push({ object: dv.dataElement, value: `Value must be a zero or positive integer: ${dv.value}` })
+      ignored += 1
+      continue
+    }
+    const key = [body.dataSet, body.period, body.orgUnit, dv.dataElement, coc].join("|")
+    if (store.has(key)) updated += 1
+    else imported += 1
+    if (!dryRun) store.set(key, String(dv.value))
+  }
+
+  return {
+    status: conflicts.length === 0 ? "SUCCESS" : imported + updated > 0 ? "WARNING" : "ERROR",
+    description: dryRun ? "Dry run: nothing was saved" : "Import process completed successfully",
+    importCount: { imported, updated, ignored, deleted: 0 },
+    conflicts,
+  }
+}
+
+serve(async (req: Request) => {
+  const url = new URL(req.url)
+  if (url.pathname !== "/api/dataValueSets") {
+    return json({ httpStatus: "Not Found", httpStatusCode: 404, status: "ERROR", message: "Not found" }, 404)
+  }
+  if (req.headers.get("authorization") !== "Basic " + btoa(`${USERNAME}:${PASSWORD}`)) {
+    return json({ httpStatus: "Unauthorized", httpStatusCode: 401, status: "ERROR", message: "Unauthorized" }, 401)
+  }
+
+  if (req.method === "GET") {
+    const prefix = [url.searchParams.get("dataSet"), url.searchParams.get("period"), url.searchParams.get("orgUnit")].join("|")
+    const dataValues = [...store.entries()]
+      .filter(([key]) => key.startsWith(`${prefix}|`))
+      .map(([key, value]) => {
+        const [, , , dataElement, categoryOptionCombo] = key.split("|")
+        return { dataElement, categoryOptionCombo, value }
+      })
+    return json({ dataValues })
+  }
+
+  const body = await req.json().catch(() => null)
+  const summary = importDataValues(body, url.searchParams.get("dryRun") === "true")
+  console.log(`${summary.status}: ${JSON.stringify(summary.importCount)}`, summary.conflicts)
+  const ok = summary.status === "SUCCESS"
+  return json(
+    {
+      httpStatus: ok ? "OK" : "Conflict",
+      httpStatusCode: ok ? 200 : 409,
+      status: ok ? "OK" : summary.status,
+      message: ok ? "Import was successful." : "One or more errors occurred, please see full details in import report.",
+      response: { responseType: "ImportSummary", ...summary },
+    },
+    ok ? 200 : 409,
+  )
+}, { port: PORT })
@@ -0,0 +1,277 @@
+// Supabase Edge Function (Deno) - public-booking
+// Backs the public self-booking page. Callers are anonymous, so every action checks that the clinic has
+// online booking enabled, and booking requires a phone number verified by a one-time SMS code.
+// Actions (POST JSON { action, slug, ... }):
+//   clinic      -> public clinic details and bookable appointment types
+//   slots       -> { date, appointmentType? } free slots (never overbooked ones)
+//   request_otp -> { phone } texts a 6-digit code; limited per phone and per IP
+//   book        -> { phone, code, name, date, time, providerId, appointmentType?, reason? }
+// Required env vars: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
+
+// @ts-ignore
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+// @ts-ignore
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+
+declare const Deno: any
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+}
+
+const OTP_TTL_MINUTES = 10
+const OTP_MAX_ATTEMPTS = 5
+const OTP_PER_PHONE_PER_HOUR = 3
+const OTP_PER_IP_PER_HOUR = 10
+const DEFAULT_DAYS_AHEAD = 30
+
+class BookingError extends Error {
+  status: number
+  constructor(message: string, status = 400) {
+    super(message)
+    this.status = status
+  }
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } })
+
+// Kenyan numbers in any of 07.., 7.., 254.., +254.. forms become +2547...
+function normalisePhone(raw: string): string {
+  const digits = String(raw || "").replace(/\D/g, "")
+  if (digits.length === 10 && digits.startsWith("0")) return `+254${digits.slice(1)}`
+  if (digits.length === 9) return `+254${digits}`
+  return `+${digits}`
+}
+
+async function hashCode(phone: string, code: string): Promise<string> {
+  const bytes = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`${phone}:${code}`))
+  return Array.from(new Uint8Array(bytes)).map((b) => b.toString(16).padStart(2, "0")).join("")
+}
+
+function localToday(timezone: string): string {
+  return new Intl.DateTimeFormat("en-CA", { timeZone: timezone }).format(new Date())
+}
+
+async function loadClinic(supabase: any, slug: string) {
+  const { data: clinic, error } = await supabase
+    .from("clinics")
+    .select("id, name, slug, phone, location, logo_url, timezone, status, settings")
+    .eq("slug", slug)
+    .maybeSingle()
+  if (error) throw error
+
+  const booking = clinic?.settings?.onlineBooking
+  if (!clinic || clinic.status === "suspended" || !booking?.enabled) {
+    throw new BookingError("Online booking is not available for this clinic", 404)
+  }
+  return { ...clinic, timezone: clinic.timezone || "Africa/Nairobi", booking }
+}
+
+async function getFreeSlots(supabase: any, clinicId: string, date: string, appointmentType?: string, providerId?: string) {
+  const { data, error } = await supabase.rpc("get_available_slots", {
+    p_date: date,
+    p_appointment_type: appointmentType || null,
+    p_provider_id: providerId || null,
+    p_clinic_id: clinicId,
+  })
+  if (error) throw error
+  return (data || [])
+    .filter((s: any) => !s.overbooked)
+    .map((s: any) => ({
+      providerId: s.provider_id,
+      providerName: s.provider_name,
+      start: s.slot_start.slice(0, 5),
+      end: s.slot_end.slice(0, 5),
+    }))
+}
+
+function checkBookableDate(clinic: any, date: string) {
+  const today = localToday(clinic.timezone)
+  const last = new Date(`${today}T00:00:00Z`)
+  last.setUTCDate(last.getUTCDate() + (clinic.booking.daysAhead || DEFAULT_DAYS_AHEAD))
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || date < today || date > last.toISOString().split("T")[0]) {
+    throw new BookingError("Please choose a date within the booking window")
+  }
+}
+
+function checkAppointmentType(clinic: any, appointmentType?: string) {
+  const allowed: string[] = clinic.booking.appointmentTypes || []
+  if (appointmentType && allowed.length > 0 && !allowed.includes(appointmentType)) {
+    throw new BookingError("This appointment type cannot be booked online")
+  }
+}
+
+async function sendSms(to: string, message: string) {
+  const resp = await fetch(`${Deno.env.get("SUPABASE_URL")}/functions/v1/send-sms`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`,
+    },
+    body: JSON.stringify({ to, message }),
+  })
+  if (!resp.ok) {
+    console.error("public-booking SMS failed", await resp.text())
+    throw new BookingError("We could not send an SMS to this number", 502)
+  }
+}
+
+// The first x-forwarded-for entries come from the caller and can be forged; only the hop appended by the
+// platform proxy (or Cloudflare's own header) identifies the client
+function clientIp(req: Request): string | null {
+  const cf = req.headers.get("cf-connecting-ip")
+  if (cf) return cf.trim()
+  const hops = (req.headers.get("x-forwarded-for") || "").split(",").map((h) => h.trim()).filter(Boolean)
+  return hops.length > 0 ? hops[hops.length - 1] : null
+}
+
+async function requestOtp(supabase: any, clinic: any, phone: string, ip: string | null) {
+  const since = new Date(Date.now() - 60 * 60 * 1000).toISOString()
+
+  // Counted across every clinic, so one number cannot be flooded by cycling booking pages
+  const { count: phoneCount } = await supabase
+    .from("booking_otps")
+    .select("id", { count: "exact", head: true })
+    .eq("phone", phone)
+    .gte("created_at", since)
+  if ((phoneCount || 0) >= OTP_PER_PHONE_PER_HOUR) {
+    throw new BookingError("Too many codes requested for this number. Please try again in an hour.", 429)
+  }
+
+  if (ip) {
+    const { count: ipCount } = await supabase
+      .from("booking_otps")
+      .select("id", { count: "exact", head: true })
+      .eq("ip_address", ip)
+      .gte("created_at", since)
+    if ((ipCount || 0) >= OTP_PER_IP_PER_HOUR) {
+      throw new BookingError("Too many requests. Please try again later.", 429)
+    }
+  }
+
+  const code = String(crypto.getRandomValues(new Uint32Array(1))[0] % 1000000).padStart(6, "0")
+  const { error } = await supabase.from("booking_otps").insert({
+    clinic_id: clinic.id,
+    phone,
+    code_hash: await hashCode(phone, code),
+    ip_address: ip,
+    expires_at: new Date(Date.now() + OTP_TTL_MINUTES * 60000).toISOString(),
+  })
+  if (error) throw error
+
+  await sendSms(phone, `${code} is your ${clinic.name} booking code. It expires in ${OTP_TTL_MINUTES} minutes.`)
+  return { success: true, expiresInMinutes: OTP_TTL_MINUTES }
+}
+
+async function book(supabase: any, clinic: any, payload: any, phone: string) {
+  const name = String(payload.name || "").trim()
+  if (name.length < 2) throw new BookingError("Please enter your full name")
+  if (!payload.date || !payload.providerId || !/^\d{2}:\d{2}$/.test(String(payload.time || ""))) {
+    throw new BookingError("Please choose a time")
+  }
+
+  checkBookableDate(clinic, payload.date)
+  checkAppointmentType(clinic, payload.appointmentType)
+
+  // Code check, slot re-check, patient lookup and the booking run in one transaction, so the code is only
+  // used up by a booking that went through and a slot taken meanwhile cannot be double-booked
+  const { data, error } = await supabase.rpc("book_online_appointment", {
+    p_clinic_id: clinic.id,
+    p_phone: phone,
+    p_code_hash: await hashCode(phone, String(payload.code || "").trim()),
+    p_max_attempts: OTP_MAX_ATTEMPTS,
+    p_name: name,
+    p_date: payload.date,
+    p_time: payload.time,
+    p_provider_id: payload.providerId,
+    p_appointment_type: payload.appointmentType || null,
+    p_reason: String(payload.reason || payload.appointmentType || "Online booking").slice(0, 200),
+  })
+  if (error) {
+    // P0001 is the slot trigger rejecting a clash
+    if (error.code === "P0001") throw new BookingError(error.message, 409)
+    throw error
+  }
+
+  const [result] = data || []
+  if (result?.outcome === "expired") throw new BookingError("The code has expired. Please request a new one.")
+  if (result?.outcome === "wrong") throw new BookingError("That code is not correct")
+  if (result?.outcome === "taken") throw new BookingError("Sorry, that time was just taken. Please choose another.", 409)
+  if (result?.outcome !== "booked") throw new Error(`Unexpected booking outcome ${result?.outcome}`)
+
+  const when = `${payload.date} at ${payload.time}`
+  try {
+    await sendSms(phone, `Hi ${result.patient_name}, your appointment at ${clinic.name} with ${result.provider_name} on ${when} is booked. Reply 2 to cancel.`)
+  } catch (e) {
+    console.error("Booking confirmation SMS failed", e)
+  }
+
+  return {
+    success: true,
+    appointment: { id: result.appointment_id, date: payload.date, time: payload.time, providerName: result.provider_name },
+  }
+}
+
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders })
+  }
+  if (req.method !== "POST") {
+    return json({ error: "Method Not Allowed" }, 405)
+  }
+
+  try {
+    const supabase = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"))
+    const payload = await req.json()
+    const clinic = await loadClinic(supabase, String(payload.slug || ""))
+
+    switch (payload.action) {
+      case "clinic": {
+        const { data: types } = await supabase
+          .from("appointment_types")
+          .select("name, duration_minutes")
+          .eq("clinic_id", clinic.id)
+          .order("name")
+        const allowed: string[] = clinic.booking.appointmentTypes || []
+        return json({
+          name: clinic.name,
+          slug: clinic.slug,
+          phone: clinic.phone,
+          location: clinic.location,
+          logo: clinic.logo_url,
+          timezone: clinic.timezone,
+          today: localToday(clinic.timezone),
+          daysAhead: clinic.booking.daysAhead || DEFAULT_DAYS_AHEAD,
+          appointmentTypes: (types || [])
+            .filter((t: any) => allowed.length === 0 || allowed.includes(t.name))
+            .map((t: any) => ({ name: t.name, durationMinutes: t.duration_minutes })),
+        })
+      }
+      case "slots": {
+        checkBookableDate(clinic, payload.date)
+        checkAppointmentType(clinic, payload.appointmentType)
+        return json({ slots: await getFreeSlots(supabase, clinic.id, payload.date, payload.appointmentType) })
+      }
+      case "request_otp": {
+        const phone = normalisePhone(payload.phone)
+        if (phone.length < 12) throw new BookingError("Please enter a valid phone number")
+        return json(await requestOtp(supabase, clinic, phone, clientIp(req)))
+      }
+      case "book": {
+        const phone = normalisePhone(payload.phone)
+        if (phone.length < 12) throw new BookingError("Please enter a valid phone number")
+        return json(await book(supabase, clinic, payload, phone))
+      }
+      default:
+        throw new BookingError("Unknown action")
+    }
+  } catch (err: any) {
+    if (err instanceof BookingError) {
+      return json({ error: err.message }, err.status)
+    }
+    console.error("public-booking execution error:", err)
+    return json({ error: "Something went wrong. Please call the clinic to book." }, 500)
+  }
+})
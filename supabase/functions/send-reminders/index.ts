@@ -0,0 +1,90 @@
+// Supabase Edge Function (Deno) - send-reminders
+// Sends due appointment reminders. Run every few minutes by pg_cron (see the appointment_reminders
+// migration) with the service role key.
+// Optional JSON body:
+//   now:     ISO timestamp to run against instead of the current time (fake clock for testing)
+//   dry_run: true to swap Twilio and SMTP for a stub that records the messages in the response.
+//            Nothing is logged and claimed jobs go back to pending, so the next real run sends them.
+// Required env vars: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
+
+// @ts-ignore
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+// @ts-ignore
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+// @ts-ignore
+import { processDueReminders, type SendResult } from "./reminders.ts"
+
+declare const Deno: any
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } })
+
+// Forward to one of our sending functions with the service role key
+async function invokeFunction(url: string, key: string, name: string, body: unknown): Promise<SendResult> {
+  const resp = await fetch(`${url}/functions/v1/${name}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${key}` },
+    body: JSON.stringify(body),
+  })
+  const data = await resp.json().catch(() => ({}))
+  if (!resp.ok) return { success: false, error: data?.details || data?.error || `${name} returned ${resp.status}` }
+  return { success: true, sid: data?.sid }
+}
+
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders })
+  }
+
+  try {
+    const SUPABASE_URL = Deno.env.get("SUPABASE_URL")
+    const SERVICE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")
+    if (!SUPABASE_URL || !SERVICE_KEY) {
+      return json({ error: "Supabase service credentials not configured" }, 500)
+    }
+
+    // Only the scheduler (or an operator holding the service key) may trigger sends
+    if (req.headers.get("authorization") !== `Bearer ${SERVICE_KEY}`) {
+      return json({ error: "Unauthorized" }, 401)
+    }
+
+    const payload = await req.json().catch(() => ({}))
+    const now = payload.now ? new Date(payload.now) : new Date()
+    if (isNaN(now.getTime())) {
+      return json({ error: "Invalid 'now' timestamp" }, 400)
+    }
+
+    const supabase = createClient(SUPABASE_URL, SERVICE_KEY)
+    const outbox: { channel: string; to: string; body: string }[] = []
+
+    const summary = await processDueReminders({
+      supabase,
+      now,
+      limit: payload.limit,
+      dryRun: !!payload.dry_run,
+      sendSms: payload.dry_run
+        ? async (to, message) => {
+          outbox.push({ channel: "sms", to, body: message })
+          return { success: true, sid: `dry-run-${crypto.randomUUID()}` }
+        }
+        : (to, message) => invokeFunction(SUPABASE_URL, SERVICE_KEY, "send-sms", { to, message }),
+      sendEmail: payload.dry_run
+        ? async (to, subject, _html, text) => {
+          outbox.push({ channel: "email", to, body: `${subject}\n\n${text}` })
+          return { success: true }
+        }
+        : (to, subject, html, text) => invokeFunction(SUPABASE_URL, SERVICE_KEY, "send-email", { to, subject, html, text }),
+    })
+
+    console.log("send-reminders run", { now: now.toISOString(), ...summary })
+    return json({ success: true, now: now.toISOString(), ...summary, ...(payload.dry_run ? { outbox } : {}) })
+  } catch (err: any) {
+    console.error("send-reminders execution error:", err)
+    return json({ error: err?.message || "Internal Server Error" }, 500)
+  }
+})
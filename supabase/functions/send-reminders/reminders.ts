@@ -0,0 +1,249 @@
+// Reminder sending logic for the send-reminders edge function.
+// Everything external (clock, database client, SMS and email providers) is passed in, so a run can be
+// driven with a fake `now` and stubbed senders.
+
+export interface ReminderJob {
+  job_id: string
+  channel: "sms" | "email"
+  offset_minutes: number
+  send_at: string
+  attempts: number
+  appointment_id: string
+  appointment_date: string
+  appointment_time: string
+  starts_at: string
+  provider_name: string | null
+  patient_id: string | null
+  patient_name: string | null
+  phone: string | null
+  email: string | null
+  opted_out: boolean
+  clinic_id: string
+  clinic_name: string | null
+  timezone: string
+  notifications: {
+    appointmentReminders?: boolean
+    quietHoursStart?: string
+    quietHoursEnd?: string
+  }
+}
+
+export interface SendResult {
+  success: boolean
+  sid?: string
+  error?: string
+}
+
+export interface ReminderDeps {
+  supabase: any
+  now: Date
+  sendSms: (to: string, message: string) => Promise<SendResult>
+  sendEmail: (to: string, subject: string, html: string, text: string) => Promise<SendResult>
+  limit?: number
+  dryRun?: boolean // Preview only: nothing is recorded and every claimed job is handed back as pending
+}
+
+export interface ReminderRunSummary {
+  claimed: number
+  sent: number
+  deferred: number
+  skipped: number
+  failed: number
+}
+
+const MAX_ATTEMPTS = 3
+
+const toMinutes = (time: string): number => {
+  const [h, m] = time.split(":").map(Number)
+  return (h || 0) * 60 + (m || 0)
+}
+
+// Minutes past midnight of `now` on the clinic's wall clock
+export function localMinutes(now: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone: timezone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now)
+  const hour = Number(parts.find((p) => p.type === "hour")?.value || 0)
+  const minute = Number(parts.find((p) => p.type === "minute")?.value || 0)
+  return hour * 60 + minute
+}
+
+/**
+ * Minutes until quiet hours end, or 0 when `now` is outside them.
+ * Quiet hours may wrap midnight (21:00 to 07:00); equal start and end means none.
+ */
+export function minutesUntilQuietHoursEnd(now: Date, timezone: string, start?: string, end?: string): number {
+  if (!start || !end || start === end) return 0
+  const current = localMinutes(now, timezone)
+  const from = toMinutes(start)
+  const to = toMinutes(end)
+  const inside = from < to ? current >= from && current < to : current >= from || current < to
+  if (!inside) return 0
+  return (to - current + 24 * 60) % (24 * 60)
+}
+
+export function formatAppointmentDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString("en-US", {
+    weekday: "long",
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  })
+}
+
+// Same wording as sendAppointmentReminderSMS in services/smsService.ts
+export function buildReminderSms(job: ReminderJob): string {
+  const doctorName = job.provider_name || "our clinician"
+  const clinicName = job.clinic_name || "Our Clinic"
+  return `Hi ${job.patient_name}, reminder: You have an appointment with ${doctorName} at ${clinicName} on ${formatAppointmentDate(job.appointment_date)} at ${job.appointment_time.slice(0, 5)}. Please arrive 10 minutes early. Reply 1 to confirm, 2 to cancel or 3 to reschedule.`
+}
+
+// Same content as sendAppointmentReminder in services/emailService.ts
+export function buildReminderEmail(job: ReminderJob): { subject: string; html: string; text: string } {
+  const clinicName = job.clinic_name || "Our Clinic"
+  const date = formatAppointmentDate(job.appointment_date)
+  const time = job.appointment_time.slice(0, 5)
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #333;">Appointment Reminder</h2>
+      <p>Dear ${job.patient_name},</p>
+      <p>This is a reminder of your upcoming appointment:</p>
+
+      <div style="background-color: #f5f5f5; padding: 15px; border-radius: 5px; margin: 20px 0;">
+        <p><strong>Date:</strong> ${date}</p>
+        <p><strong>Time:</strong> ${time}</p>
+        <p><strong>Clinic:</strong> ${clinicName}</p>
+      </div>
+
+      <p>Please arrive 10 minutes early. If you need to cancel or reschedule, please contact us.</p>
+
+      <p>Best regards,<br/>${clinicName} Team</p>
+    </div>
+  `
+  const text = `Dear ${job.patient_name},\n\nThis is a reminder of your upcoming appointment on ${date} at ${time} at ${clinicName}.\n\nPlease arrive 10 minutes early. If you need to cancel or reschedule, please contact us.\n\nBest regards,\n${clinicName} Team`
+  return { subject: `Appointment Reminder - ${clinicName}`, html, text }
+}
+
+async function finishJob(supabase: any, jobId: string, patch: Record<string, unknown>) {
+  const { error } = await supabase.from("reminder_jobs").update(patch).eq("id", jobId)
+  if (error) console.error("Failed to update reminder job", jobId, error)
+}
+
+async function processJob(job: ReminderJob, deps: ReminderDeps): Promise<keyof Omit<ReminderRunSummary, "claimed">> {
+  const { supabase, now } = deps
+  const startsAt = new Date(job.starts_at)
+  const finish = deps.dryRun
+    ? async (_jobId: string, _patch: Record<string, unknown>) => {}
+    : (jobId: string, patch: Record<string, unknown>) => finishJob(supabase, jobId, patch)
+
+  if (job.notifications?.appointmentReminders === false) {
+    await finish(job.job_id, { status: "skipped", last_error: "Reminders turned off for clinic", processed_at: now.toISOString() })
+    return "skipped"
+  }
+  if (job.opted_out) {
+    await finish(job.job_id, { status: "skipped", last_error: "Patient opted out", processed_at: now.toISOString() })
+    return "skipped"
+  }
+  if (startsAt <= now) {
+    await finish(job.job_id, { status: "skipped", last_error: "Appointment already started", processed_at: now.toISOString() })
+    return "skipped"
+  }
+
+  const wait = minutesUntilQuietHoursEnd(now, job.timezone, job.notifications?.quietHoursStart, job.notifications?.quietHoursEnd)
+  if (wait > 0) {
+    const deferredTo = new Date(now.getTime() + wait * 60000)
+    if (deferredTo >= startsAt) {
+      await finish(job.job_id, { status: "skipped", last_error: "Quiet hours until appointment", processed_at: now.toISOString() })
+      return "skipped"
+    }
+    await finish(job.job_id, { status: "pending", send_at: deferredTo.toISOString(), attempts: job.attempts - 1 })
+    return "deferred"
+  }
+
+  const to = job.channel === "sms" ? job.phone : job.email
+  if (!to) {
+    await finish(job.job_id, { status: "skipped", last_error: `No ${job.channel === "sms" ? "phone number" : "email address"}`, processed_at: now.toISOString() })
+    return "skipped"
+  }
+
+  let body: string
+  let result: SendResult
+  try {
+    if (job.channel === "sms") {
+      body = buildReminderSms(job)
+      result = await deps.sendSms(to, body)
+    } else {
+      const email = buildReminderEmail(job)
+      body = email.text
+      result = await deps.sendEmail(to, email.subject, email.html, email.text)
+    }
+  } catch (err: any) {
+    body = ""
+    result = { success: false, error: err?.message || String(err) }
+  }
+
+  if (!result.success) {
+    const retry = job.attempts < MAX_ATTEMPTS
+    await finish(job.job_id, {
+      status: retry ? "pending" : "failed",
+      send_at: retry ? new Date(now.getTime() + 10 * 60000).toISOString() : job.send_at,
+      last_error: result.error || "Send failed",
+      processed_at: now.toISOString(),
+    })
+    return "failed"
+  }
+  if (deps.dryRun) return "sent"
+
+  const { data: message, error: logError } = await supabase
+    .from("outbound_messages")
+    .insert({
+      message_sid: result.sid || null,
+      to_number: to,
+      body,
+      status: "sent",
+      direction: "outbound-api",
+      channel: job.channel,
+      patient_id: job.patient_id,
+      clinic_id: job.clinic_id,
+      appointment_id: job.appointment_id,
+      raw_payload: { reminder_job_id: job.job_id, offset_minutes: job.offset_minutes },
+      sent_at: now.toISOString(),
+    })
+    .select("id")
+    .single()
+  if (logError) console.error("Failed to record outbound reminder", job.job_id, logError)
+
+  await finish(job.job_id, {
+    status: "sent",
+    last_error: null,
+    outbound_message_id: message?.id || null,
+    processed_at: now.toISOString(),
+  })
+  return "sent"
+}
+
+/**
+ * Claim every job due at `deps.now` and send it, deferring jobs that fall in the clinic's quiet hours.
+ * Failed sends are retried ten minutes later, up to three attempts.
+ */
+export async function processDueReminders(deps: ReminderDeps): Promise<ReminderRunSummary> {
+  const { data, error } = await deps.supabase.rpc("claim_due_reminder_jobs", {
+    p_now: deps.now.toISOString(),
+    p_limit: deps.limit || 100,
+  })
+  if (error) throw error
+
+  const jobs: ReminderJob[] = data || []
+  const summary: ReminderRunSummary = { claimed: jobs.length, sent: 0, deferred: 0, skipped: 0, failed: 0 }
+  for (const job of jobs) {
+    summary[await processJob(job, deps)] += 1
+    // Release the claim so the real run still sends it
+    if (deps.dryRun) {
+      await finishJob(deps.supabase, job.job_id, { status: "pending", attempts: job.attempts - 1, processed_at: null })
+    }
+  }
+  return summary
+}
@@ -1,9 +1,19 @@
 // @ts-ignore: Deno std lib import for edge function runtime; types are not available in TS build
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+// @ts-ignore
+import {
+  parseAppointmentReply,
+  buildReplyAcknowledgement,
+  parseOfferAcceptance,
+  buildOfferAcknowledgement,
+  twimlMessage,
+} from "./replies.ts"
 
 // Twilio webhook stub
 // Validates presence of TWILIO_AUTH_TOKEN and responds to incoming webhook POSTs.
 // In production you should validate X-Twilio-Signature header for authenticity.
+// Replies to appointment reminders (1/YES, 2/CANCEL, 3/RESCHEDULE) are applied here and acknowledged
+// with TwiML, as are waitlist offer codes; any other text is forwarded to whatsapp-action for the assistant.
 
 serve(async (req: any) => {
   try {
@@ -81,6 +91,68 @@ serve(async (req: any) => {
           }
         }
 
+        const intent = parseAppointmentReply(body)
+        const offerCode = intent ? null : parseOfferAcceptance(body)
+        if (intent || offerCode) {
+          const restHeaders = {
+            apikey: SERVICE_KEY,
+            Authorization: `Bearer ${SERVICE_KEY}`,
+            'Content-Type': 'application/json',
+            Prefer: 'return=minimal',
+          }
+          const rpc = intent ? 'apply_appointment_reply' : 'accept_waitlist_offer'
+          const rpcResp = await fetch(`${SUPABASE_URL}/rest/v1/rpc/${rpc}`, {
+            method: 'POST',
+            headers: restHeaders,
+            body: JSON.stringify(intent ? { p_phone: from, p_intent: intent } : { p_phone: from, p_code: offerCode }),
+          })
+          if (!rpcResp.ok) {
+            throw new Error(`${rpc} failed: ${await rpcResp.text()}`)
+          }
+          const [result] = await rpcResp.json()
+          const reply = intent
+            ? buildReplyAcknowledgement(result || { outcome: 'not_found' })
+            : buildOfferAcknowledgement(result || { outcome: 'not_found' })
+          const links = {
+            patient_id: result?.patient_id || null,
+            clinic_id: result?.clinic_id || null,
+            appointment_id: result?.appointment_id || null,
+          }
+
+          if (messageSid) {
+            await fetch(`${SUPABASE_URL}/rest/v1/inbound_messages`, {
+              method: 'POST',
+              headers: restHeaders,
+              body: JSON.stringify({
+                message_sid: messageSid,
+                from_number: from,
+                to_number: to,
+                body,
+                status: result?.outcome || 'not_found',
+                direction: 'inbound',
+                raw_payload: Object.fromEntries(params),
+                processed_at: new Date().toISOString(),
+                ...links,
+              }),
+            })
+          }
+          await fetch(`${SUPABASE_URL}/rest/v1/outbound_messages`, {
+            method: 'POST',
+            headers: restHeaders,
+            body: JSON.stringify({
+              to_number: from,
+              from_number: to,
+              body: reply,
+              status: 'sent',
+              direction: 'outbound-reply',
+              channel: from.startsWith('whatsapp:') ? 'whatsapp' : 'sms',
+              ...links,
+            }),
+          })
+
+          return new Response(twimlMessage(reply), { status: 200, headers: { 'Content-Type': 'text/xml' } })
+        }
+
         const funcUrl = `${SUPABASE_URL}/functions/v1/whatsapp-action`
         const resp = await fetch(funcUrl, {
           method: 'POST',
@@ -95,7 +167,7 @@ serve(async (req: any) => {
           console.error('Failed to forward inbound message to whatsapp-action', await resp.text())
         }
       } catch (err) {
-        console.error('Error forwarding inbound message to whatsapp-action', err)
+        console.error('Error handling inbound message', err)
       }
     }
 
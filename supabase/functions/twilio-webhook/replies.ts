@@ -0,0 +1,95 @@
+// Deterministic parsing of patient replies to appointment reminders.
+// Only short, unambiguous answers are handled here; anything else is free text for the assistant.
+
+export type ReplyIntent = "confirm" | "cancel" | "reschedule"
+
+export interface ReplyResult {
+  outcome: "confirmed" | "cancelled" | "reschedule_requested" | "not_found"
+  patient_name?: string | null
+  clinic_name?: string | null
+  appointment_date?: string | null
+  appointment_time?: string | null
+}
+
+// English and Swahili answers, matched on the whole (normalised) message. A bare "no" is left to the
+// assistant: it is as likely to answer something else as to mean "cancel".
+const INTENT_WORDS: Record<ReplyIntent, string[]> = {
+  confirm: ["1", "yes", "y", "confirm", "confirmed", "ok", "okay", "ndio", "ndiyo", "sawa"],
+  cancel: ["2", "cancel", "cancelled", "ghairi"],
+  reschedule: ["3", "reschedule", "change", "later", "badilisha"],
+}
+
+export function parseAppointmentReply(text: string): ReplyIntent | null {
+  const normalised = (text || "")
+    .trim()
+    .toLowerCase()
+    .replace(/[.!,]+$/g, "")
+    .replace(/\s+/g, " ")
+  if (!normalised) return null
+
+  for (const intent of Object.keys(INTENT_WORDS) as ReplyIntent[]) {
+    if (INTENT_WORDS[intent].includes(normalised)) return intent
+  }
+  return null
+}
+
+const formatDate = (date?: string | null) =>
+  date
+    ? new Date(`${date}T00:00:00`).toLocaleDateString("en-US", { weekday: "long", month: "long", day: "numeric" })
+    : ""
+
+// Acknowledgement sent back on the same channel the reply came in on
+export function buildReplyAcknowledgement(result: ReplyResult): string {
+  const clinic = result.clinic_name || "the clinic"
+  const when = `${formatDate(result.appointment_date)} at ${(result.appointment_time || "").slice(0, 5)}`
+
+  switch (result.outcome) {
+    case "confirmed":
+      return `Thank you${result.patient_name ? ` ${result.patient_name}` : ""}, your appointment at ${clinic} on ${when} is confirmed.`
+    case "cancelled":
+      return `Your appointment at ${clinic} on ${when} has been cancelled. Contact us any time to book again.`
+    case "reschedule_requested":
+      return `Thank you. ${clinic} will contact you to find a new time for your appointment on ${when}.`
+    default:
+      return "We could not find an upcoming appointment for this number. Please call the clinic for help."
+  }
+}
+
+// TwiML response so Twilio delivers the acknowledgement without a second API call
+export function twimlMessage(text: string): string {
+  const escaped = text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+  return `<?xml version="1.0" encoding="UTF-8"?><Response><Message>${escaped}</Message></Response>`
+}
+
+export interface OfferResult {
+  outcome: "booked" | "taken" | "expired" | "not_found"
+  patient_name?: string | null
+  clinic_name?: string | null
+  appointment_date?: string | null
+  appointment_time?: string | null
+}
+
+// Waitlist offers are accepted by replying with their 4-digit code, optionally after "book"/"weka"
+export function parseOfferAcceptance(text: string): string | null {
+  const match = (text || "").trim().toLowerCase().match(/^(?:(?:book|weka)\s*)?(\d{4})[.!]*$/)
+  return match ? match[1] : null
+}
+
+export function buildOfferAcknowledgement(result: OfferResult): string {
+  const clinic = result.clinic_name || "the clinic"
+  const when = `${formatDate(result.appointment_date)} at ${(result.appointment_time || "").slice(0, 5)}`
+
+  switch (result.outcome) {
+    case "booked":
+      return `You're booked${result.patient_name ? `, ${result.patient_name}` : ""}: ${clinic} on ${when}. Please arrive 10 minutes early.`
+    case "taken":
+      return `Sorry, the ${when} slot at ${clinic} has already been taken. You are still on the waitlist.`
+    case "expired":
+      return `Sorry, the offer for ${when} at ${clinic} has expired. You are still on the waitlist.`
+    default:
+      return "We could not find an open offer for this code. Please call the clinic for help."
+  }
+}
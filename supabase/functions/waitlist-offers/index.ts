@@ -0,0 +1,134 @@
+// Supabase Edge Function (Deno) - waitlist-offers
+// Expires unanswered waitlist offers (passing their slots to the next patient) and texts queued offers.
+// Offers are queued by the database when an appointment is cancelled; see the waitlist migration.
+// Run every minute by pg_cron with the service role key.
+// Optional JSON body:
+//   now:     ISO timestamp to run against instead of the current time (fake clock for testing)
+//   dry_run: true to record the messages in the response instead of sending them.
+//            Offers are still marked sent, so only use it against a staging database.
+// Required env vars: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
+
+// @ts-ignore
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+// @ts-ignore
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+
+declare const Deno: any
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } })
+
+interface ClaimedOffer {
+  offer_id: string
+  reply_code: string
+  expires_at: string
+  offer_date: string
+  offer_time: string
+  provider_name: string | null
+  patient_id: string
+  patient_name: string | null
+  phone: string | null
+  clinic_id: string
+  clinic_name: string | null
+}
+
+function buildOfferSms(offer: ClaimedOffer, now: Date): string {
+  const date = new Date(`${offer.offer_date}T00:00:00`).toLocaleDateString("en-US", { weekday: "long", month: "long", day: "numeric" })
+  const minutes = Math.max(1, Math.round((new Date(offer.expires_at).getTime() - now.getTime()) / 60000))
+  const withProvider = offer.provider_name ? ` with ${offer.provider_name}` : ""
+  return `Hi ${offer.patient_name}, a slot opened at ${offer.clinic_name || "the clinic"}${withProvider} on ${date} at ${offer.offer_time.slice(0, 5)}. Reply ${offer.reply_code} within ${minutes} minutes to book it.`
+}
+
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders })
+  }
+
+  try {
+    const SUPABASE_URL = Deno.env.get("SUPABASE_URL")
+    const SERVICE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")
+    if (!SUPABASE_URL || !SERVICE_KEY) {
+      return json({ error: "Supabase service credentials not configured" }, 500)
+    }
+
+    if (req.headers.get("authorization") !== `Bearer ${SERVICE_KEY}`) {
+      return json({ error: "Unauthorized" }, 401)
+    }
+
+    const payload = await req.json().catch(() => ({}))
+    const now = payload.now ? new Date(payload.now) : new Date()
+    if (isNaN(now.getTime())) {
+      return json({ error: "Invalid 'now' timestamp" }, 400)
+    }
+
+    const supabase = createClient(SUPABASE_URL, SERVICE_KEY)
+    const outbox: { to: string; body: string }[] = []
+
+    const { data: expired, error: expireError } = await supabase.rpc("expire_waitlist_offers", { p_now: now.toISOString() })
+    if (expireError) throw expireError
+
+    const { data: claimed, error: claimError } = await supabase.rpc("claim_waitlist_offers", {
+      p_now: now.toISOString(),
+      p_limit: payload.limit || 50,
+    })
+    if (claimError) throw claimError
+
+    let sent = 0
+    let failed = 0
+    for (const offer of (claimed || []) as ClaimedOffer[]) {
+      const message = buildOfferSms(offer, now)
+      let sid: string | null = null
+      let sendError: string | null = offer.phone ? null : "No phone number"
+
+      if (offer.phone && payload.dry_run) {
+        outbox.push({ to: offer.phone, body: message })
+        sid = `dry-run-${crypto.randomUUID()}`
+      } else if (offer.phone) {
+        const resp = await fetch(`${SUPABASE_URL}/functions/v1/send-sms`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", Authorization: `Bearer ${SERVICE_KEY}` },
+          body: JSON.stringify({ to: offer.phone, message }),
+        })
+        const data = await resp.json().catch(() => ({}))
+        if (resp.ok) sid = data?.sid || null
+        else sendError = data?.details || data?.error || `send-sms returned ${resp.status}`
+      }
+
+      if (sendError) {
+        // Pass the slot on rather than hold it for someone who never got the message
+        console.error("Waitlist offer not delivered", offer.offer_id, sendError)
+        const { error } = await supabase.rpc("close_waitlist_offer", { p_offer_id: offer.offer_id, p_status: "failed" })
+        if (error) console.error("Failed to close waitlist offer", offer.offer_id, error)
+        failed += 1
+        continue
+      }
+
+      const { error: logError } = await supabase.from("outbound_messages").insert({
+        message_sid: sid,
+        to_number: offer.phone,
+        body: message,
+        status: "sent",
+        direction: "outbound-api",
+        channel: "sms",
+        patient_id: offer.patient_id,
+        clinic_id: offer.clinic_id,
+        raw_payload: { waitlist_offer_id: offer.offer_id },
+        sent_at: now.toISOString(),
+      })
+      if (logError) console.error("Failed to record waitlist offer message", offer.offer_id, logError)
+      sent += 1
+    }
+
+    const summary = { expired: expired || 0, claimed: (claimed || []).length, sent, failed }
+    console.log("waitlist-offers run", { now: now.toISOString(), ...summary })
+    return json({ success: true, now: now.toISOString(), ...summary, ...(payload.dry_run ? { outbox } : {}) })
+  } catch (err: any) {
+    console.error("waitlist-offers execution error:", err)
+    return json({ error: err?.message || "Internal Server Error" }, 500)
+  }
+})
@@ -12,6 +12,23 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// Free slots from the shared availability RPC (same rules as the Appointments screen)
+async function getFreeSlots(supabase: any, clinicId: string, date: string, appointmentType?: string, providerId?: string) {
+  const { data, error } = await supabase.rpc('get_available_slots', {
+    p_date: date,
+    p_appointment_type: appointmentType || null,
+    p_provider_id: providerId || null,
+    p_clinic_id: clinicId
+  });
+  if (error) throw error;
+  return (data || []).map((s: any) => ({
+    date,
+    time: s.slot_start.slice(0, 5),
+    providerId: s.provider_id,
+    provider: s.provider_name
+  }));
+}
+
 // Function to call Gemini (Simulating geminiService logic in Deno)
 async function getAIResponse(query: string, context: any, supabase: any) {
   const GEMINI_API_KEY = Deno.env.get('GEMINI_API_KEY');
@@ -28,6 +45,11 @@ async function getAIResponse(query: string, context: any, supabase: any) {
         - Today: ${context.today}
     `;
 
+  // Free slots are only present once providers publish working hours
+  if (context.availableSlots?.length) {
+    dataContext += `\n- Available Slots: ${JSON.stringify(context.availableSlots)}`;
+  }
+
   // Add sensitive data only for permitted roles
   if (['Admin', 'SuperAdmin', 'Doctor', 'Pharmacist'].includes(userRole)) {
     dataContext += `\n- Inventory: ${JSON.stringify(context.inventory || [])}`;
@@ -41,7 +63,7 @@ async function getAIResponse(query: string, context: any, supabase: any) {
   let actions = `
         - ADD_PATIENT: payload { name, phone, age, gender (Male/Female) }
         - EDIT_PATIENT: payload { patientId, updates: { name?, phone?, age?, gender?, notes? } }
-        - ADD_APPOINTMENT: payload { patientId, date (YYYY-MM-DD), time (HH:MM), reason }
+        - ADD_APPOINTMENT: payload { patientId, date (YYYY-MM-DD), time (HH:MM), reason, providerId?, appointmentType? }
         - CANCEL_APPOINTMENT: payload { appointmentId }
     `;
 
@@ -83,6 +105,7 @@ async function getAIResponse(query: string, context: any, supabase: any) {
                 - Prioritize brevity in 'reply'. Use bullet points for lists. No emojis.
                 - If details are missing for an action, ask the user for them and set 'action' to null.
                 - Infer dates like 'tomorrow' based on ${context.today}.
+                - If Available Slots are listed, only book or offer a date, time and providerId from that list. If the requested time is not free, suggest the closest listed slots and set 'action' to null.
                 `
       }]
     }],
@@ -135,7 +158,11 @@ serve(async (req: Request) => {
     const entry = body.entry?.[0];
     const changes = entry?.changes?.[0];
     const value = changes?.value;
-    const message = value?.messages?.[0];
+    // Messages relayed by twilio-webhook arrive as an INBOUND_MESSAGE action instead of a Meta payload
+    const relayed = body.action?.type === 'INBOUND_MESSAGE' ? body.action.payload : null;
+    const message = relayed
+      ? { from: String(relayed.from || '').replace(/^whatsapp:/, '').replace(/^\+/, ''), text: { body: relayed.body } }
+      : value?.messages?.[0];
 
     if (!message) {
       return new Response('No message found', { status: 200 });
@@ -184,6 +211,17 @@ serve(async (req: Request) => {
     const { data: appointments } = await supabase.from('appointments').select('*').gte('date', today).limit(5);
     context.appointments = appointments;
 
+    try {
+      const tomorrow = new Date(Date.now() + 86400000).toISOString().split('T')[0];
+      const slots = [
+        ...(await getFreeSlots(supabase, clinicId, today)),
+        ...(await getFreeSlots(supabase, clinicId, tomorrow)),
+      ];
+      context.availableSlots = slots.slice(0, 40);
+    } catch (e) {
+      console.error("Slot lookup failed", e);
+    }
+
     // RBAC Data Fetching
     if (['Admin', 'SuperAdmin', 'Accoutant'].includes(role)) {
       // Fetch Revenue
@@ -212,16 +250,56 @@ serve(async (req: Request) => {
 
       try {
         if (type === 'ADD_APPOINTMENT') {
-          const { error } = await supabase.from('appointments').insert({
-            patient_id: payload.patientId,
-            date: payload.date,
-            time: payload.time,
-            reason: payload.reason,
-            status: 'Scheduled'
-          });
+          // Re-check availability: the model may pick a time that is taken or outside working hours
+          const freeSlots = await getFreeSlots(supabase, clinicId, payload.date, payload.appointmentType, payload.providerId);
+          const { count: scheduleCount } = await supabase
+            .from('provider_schedules')
+            .select('id', { count: 'exact', head: true })
+            .eq('clinic_id', clinicId);
+          const slot = freeSlots.find((s: any) => s.time === payload.time);
+
+          if (scheduleCount && !slot) {
+            actionMessage = freeSlots.length
+              ? `${payload.time} is not available on ${payload.date}. Free times: ${freeSlots.slice(0, 5).map((s: any) => `${s.time} (${s.provider})`).join(', ')}.`
+              : `No free slots on ${payload.date}.`;
+            finalReply = actionMessage;
+          } else {
+            const { data: patient } = await supabase.from('patients').select('full_name').eq('id', payload.patientId).maybeSingle();
+            const { error } = await supabase.from('appointments').insert({
+              clinic_id: clinicId,
+              patient_id: payload.patientId,
+              patient_name: patient?.full_name,
+              date: payload.date,
+              time: payload.time,
+              reason: payload.reason || payload.appointmentType || 'General Checkup',
+              provider_id: slot?.providerId || payload.providerId || null,
+              appointment_type: payload.appointmentType || null,
+              status: 'Scheduled',
+              booking_source: 'whatsapp'
+            });
+            if (error) throw error;
+            actionSuccess = true;
+            actionMessage = slot ? `Appointment scheduled with ${slot.provider}.` : "Appointment scheduled.";
+          }
+        }
+        else if (type === 'CANCEL_APPOINTMENT') {
+          // Cancelling frees the slot; the database offers it to the waitlist
+          const { data: cancelled, error } = await supabase
+            .from('appointments')
+            .update({ status: 'Cancelled' })
+            .eq('id', payload.appointmentId)
+            .eq('clinic_id', clinicId)
+            .eq('status', 'Scheduled')
+            .select('patient_name, date, time')
+            .maybeSingle();
           if (error) throw error;
-          actionSuccess = true;
-          actionMessage = "Appointment scheduled.";
+          if (cancelled) {
+            actionSuccess = true;
+            actionMessage = `Cancelled ${cancelled.patient_name}'s appointment on ${cancelled.date} at ${String(cancelled.time).slice(0, 5)}.`;
+          } else {
+            actionMessage = "No scheduled appointment found to cancel.";
+            finalReply = actionMessage;
+          }
         }
         else if (type === 'GENERATE_INVOICE' && ['Admin', 'Accountant'].includes(role)) {
           // Simulated invoice generation
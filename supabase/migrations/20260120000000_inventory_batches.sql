@@ -0,0 +1,23 @@
+-- Lot-level inventory tracking
+-- Each inventory item keeps its lots (batch number, quantity, expiry, supplier) in a JSONB array,
+-- mirroring how visits keep lab_orders and prescription. `stock` remains the sum of lot quantities.
+
+ALTER TABLE public.inventory ADD COLUMN IF NOT EXISTS batches JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Backfill: turn the single legacy batch_number/expiry_date into one lot holding the current stock
+UPDATE public.inventory
+SET batches = jsonb_build_array(
+    jsonb_build_object(
+        'id', 'legacy-' || id::text,
+        'batchNumber', batch_number,
+        'quantity', stock,
+        'expiryDate', expiry_date,
+        'supplierId', supplier_id,
+        'receivedAt', COALESCE(created_at, now())
+    )
+)
+WHERE (batches IS NULL OR batches = '[]'::jsonb)
+  AND COALESCE(stock, 0) > 0;
+
+-- Accelerate expiry lookups across lots
+CREATE INDEX IF NOT EXISTS idx_inventory_batches ON public.inventory USING GIN (batches);
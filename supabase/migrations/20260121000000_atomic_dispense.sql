@@ -0,0 +1,264 @@
+-- Atomic prescription dispensing with stock reservation
+-- The doctor's prescription reserves stock (stock_reservations); dispensing commits the
+-- reservation, draws lots first-expiry-first-out and writes the inventory log in one transaction.
+-- Both functions run as the caller, so the clinic's RLS policies still apply.
+
+-- 1. Inventory logs (created by earlier scripts without the clinic/before/after columns)
+CREATE TABLE IF NOT EXISTS public.inventory_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinic_id UUID REFERENCES public.clinics(id) ON DELETE CASCADE,
+  item_id UUID REFERENCES public.inventory(id) ON DELETE SET NULL,
+  item_name TEXT,
+  action TEXT CHECK (action IN ('Created', 'Updated', 'Restocked', 'Deleted', 'Dispensed')),
+  quantity_change INTEGER,
+  quantity_before INTEGER,
+  quantity_after INTEGER,
+  notes TEXT,
+  user_name TEXT,
+  performed_by UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.inventory_logs ADD COLUMN IF NOT EXISTS clinic_id UUID REFERENCES public.clinics(id) ON DELETE CASCADE;
+ALTER TABLE public.inventory_logs ADD COLUMN IF NOT EXISTS quantity_before INTEGER;
+ALTER TABLE public.inventory_logs ADD COLUMN IF NOT EXISTS quantity_after INTEGER;
+ALTER TABLE public.inventory_logs ADD COLUMN IF NOT EXISTS performed_by UUID;
+ALTER TABLE public.inventory_logs ADD COLUMN IF NOT EXISTS visit_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_inventory_logs_clinic ON public.inventory_logs(clinic_id);
+CREATE INDEX IF NOT EXISTS idx_inventory_logs_item ON public.inventory_logs(item_id);
+
+ALTER TABLE public.inventory_logs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Clinic users can view inventory logs" ON public.inventory_logs;
+CREATE POLICY "Clinic users can view inventory logs" ON public.inventory_logs
+  FOR SELECT USING (clinic_id = public.get_user_clinic_id() OR public.is_super_admin());
+
+DROP POLICY IF EXISTS "Clinic users can add inventory logs" ON public.inventory_logs;
+CREATE POLICY "Clinic users can add inventory logs" ON public.inventory_logs
+  FOR INSERT WITH CHECK (clinic_id = public.get_user_clinic_id());
+
+-- 2. Stock reservations held by prescriptions that have not been dispensed yet
+CREATE TABLE IF NOT EXISTS public.stock_reservations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinic_id UUID REFERENCES public.clinics(id) ON DELETE CASCADE,
+  visit_id UUID NOT NULL REFERENCES public.visits(id) ON DELETE CASCADE,
+  inventory_id UUID NOT NULL REFERENCES public.inventory(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  status TEXT NOT NULL DEFAULT 'held' CHECK (status IN ('held', 'committed', 'released')),
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_visit ON public.stock_reservations(visit_id);
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_held ON public.stock_reservations(inventory_id) WHERE status = 'held';
+
+ALTER TABLE public.stock_reservations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Clinic users can manage stock reservations" ON public.stock_reservations;
+CREATE POLICY "Clinic users can manage stock reservations" ON public.stock_reservations
+  FOR ALL USING (clinic_id = public.get_user_clinic_id() OR public.is_super_admin())
+  WITH CHECK (clinic_id = public.get_user_clinic_id() OR public.is_super_admin());
+
+-- 3. Lots of an item in FEFO order. Items saved before lot tracking are treated as one lot.
+CREATE OR REPLACE FUNCTION public.inventory_lots_fefo(p_item public.inventory)
+RETURNS SETOF JSONB
+LANGUAGE sql STABLE AS $$
+  SELECT lot
+  FROM jsonb_array_elements(
+    CASE
+      WHEN jsonb_array_length(COALESCE(p_item.batches, '[]'::jsonb)) > 0 THEN p_item.batches
+      WHEN COALESCE(p_item.stock, 0) > 0 THEN jsonb_build_array(jsonb_build_object(
+        'id', 'legacy-' || p_item.id::text,
+        'batchNumber', p_item.batch_number,
+        'quantity', p_item.stock,
+        'expiryDate', p_item.expiry_date,
+        'supplierId', p_item.supplier_id,
+        'receivedAt', to_jsonb(to_timestamp(0))
+      ))
+      ELSE '[]'::jsonb
+    END
+  ) AS lot
+  WHERE COALESCE((lot->>'quantity')::int, 0) > 0
+  ORDER BY NULLIF(lot->>'expiryDate', '')::timestamptz ASC NULLS LAST,
+           (lot->>'receivedAt')::timestamptz ASC NULLS FIRST;
+$$;
+
+-- Units that can still be dispensed (unexpired lots only)
+CREATE OR REPLACE FUNCTION public.inventory_usable_stock(p_item public.inventory)
+RETURNS INTEGER
+LANGUAGE sql STABLE AS $$
+  SELECT COALESCE(SUM((lot->>'quantity')::int), 0)::int
+  FROM public.inventory_lots_fefo(p_item) AS lot
+  WHERE NULLIF(lot->>'expiryDate', '') IS NULL
+     OR (lot->>'expiryDate')::timestamptz >= now();
+$$;
+
+-- 4. Reserve stock for a visit's prescription, replacing any earlier reservation for it
+CREATE OR REPLACE FUNCTION public.reserve_prescription_stock(p_visit_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_visit public.visits;
+  v_line RECORD;
+  v_item public.inventory;
+  v_held INTEGER;
+  v_available INTEGER;
+BEGIN
+  SELECT * INTO v_visit FROM public.visits WHERE id = p_visit_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Visit % not found', p_visit_id;
+  END IF;
+
+  UPDATE public.stock_reservations
+  SET status = 'released', updated_at = NOW()
+  WHERE visit_id = p_visit_id AND status = 'held';
+
+  -- Dispensed or closed visits hold nothing
+  IF COALESCE(v_visit.medications_dispensed, false) OR v_visit.stage = 'Completed' THEN
+    RETURN;
+  END IF;
+
+  -- Lock items in id order so concurrent reservations cannot deadlock
+  FOR v_line IN
+    SELECT (line->>'inventoryId')::uuid AS inventory_id, SUM((line->>'quantity')::int)::int AS quantity
+    FROM jsonb_array_elements(COALESCE(v_visit.prescription, '[]'::jsonb)) AS line
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    CONTINUE WHEN v_line.quantity <= 0;
+
+    SELECT * INTO v_item FROM public.inventory WHERE id = v_line.inventory_id FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Inventory item % not found', v_line.inventory_id;
+    END IF;
+
+    SELECT COALESCE(SUM(quantity), 0) INTO v_held
+    FROM public.stock_reservations
+    WHERE inventory_id = v_item.id AND status = 'held';
+
+    v_available := public.inventory_usable_stock(v_item) - v_held;
+    IF v_line.quantity > v_available THEN
+      RAISE EXCEPTION 'Insufficient stock for %: % requested, % available', v_item.name, v_line.quantity, GREATEST(v_available, 0)
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    INSERT INTO public.stock_reservations (clinic_id, visit_id, inventory_id, quantity, created_by)
+    VALUES (v_item.clinic_id, p_visit_id, v_item.id, v_line.quantity, auth.uid());
+  END LOOP;
+END;
+$$;
+
+-- 5. Dispense a visit's prescription: all lines succeed or none do
+CREATE OR REPLACE FUNCTION public.dispense_prescription(p_visit_id UUID)
+RETURNS SETOF public.inventory_logs
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_visit public.visits;
+  v_line RECORD;
+  v_item public.inventory;
+  v_lot JSONB;
+  v_held INTEGER;
+  v_available INTEGER;
+  v_remaining INTEGER;
+  v_taken INTEGER;
+  v_lot_qty INTEGER;
+  v_batches JSONB;
+  v_taken_lots TEXT[];
+  v_next JSONB;
+  v_stock INTEGER;
+  v_user_name TEXT;
+  v_log public.inventory_logs;
+BEGIN
+  SELECT * INTO v_visit FROM public.visits WHERE id = p_visit_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Visit % not found', p_visit_id;
+  END IF;
+  IF COALESCE(v_visit.medications_dispensed, false) THEN
+    RAISE EXCEPTION 'Medications for this visit have already been dispensed' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT full_name INTO v_user_name FROM public.users WHERE id = auth.uid();
+
+  FOR v_line IN
+    SELECT (line->>'inventoryId')::uuid AS inventory_id, SUM((line->>'quantity')::int)::int AS quantity
+    FROM jsonb_array_elements(COALESCE(v_visit.prescription, '[]'::jsonb)) AS line
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    CONTINUE WHEN v_line.quantity <= 0;
+
+    SELECT * INTO v_item FROM public.inventory WHERE id = v_line.inventory_id FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Inventory item % not found', v_line.inventory_id;
+    END IF;
+
+    -- Stock held for other visits is not available to this one
+    SELECT COALESCE(SUM(quantity), 0) INTO v_held
+    FROM public.stock_reservations
+    WHERE inventory_id = v_item.id AND status = 'held' AND visit_id <> p_visit_id;
+
+    v_available := public.inventory_usable_stock(v_item) - v_held;
+    IF v_line.quantity > v_available THEN
+      RAISE EXCEPTION 'Insufficient stock for %: % requested, % available', v_item.name, v_line.quantity, GREATEST(v_available, 0)
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    -- Draw first-expiring unexpired lots first
+    v_remaining := v_line.quantity;
+    v_batches := '[]'::jsonb;
+    v_taken_lots := ARRAY[]::TEXT[];
+    FOR v_lot IN SELECT * FROM public.inventory_lots_fefo(v_item) LOOP
+      v_lot_qty := (v_lot->>'quantity')::int;
+      IF v_remaining > 0 AND (NULLIF(v_lot->>'expiryDate', '') IS NULL OR (v_lot->>'expiryDate')::timestamptz >= now()) THEN
+        v_taken := LEAST(v_lot_qty, v_remaining);
+        v_remaining := v_remaining - v_taken;
+        v_lot_qty := v_lot_qty - v_taken;
+        v_taken_lots := v_taken_lots || format('%s x%s', COALESCE(v_lot->>'batchNumber', 'unnumbered'), v_taken);
+      END IF;
+      IF v_lot_qty > 0 THEN
+        v_batches := v_batches || jsonb_build_array(jsonb_set(v_lot, '{quantity}', to_jsonb(v_lot_qty)));
+      END IF;
+    END LOOP;
+
+    SELECT COALESCE(SUM((lot->>'quantity')::int), 0) INTO v_stock FROM jsonb_array_elements(v_batches) AS lot;
+    v_next := v_batches->0;
+
+    UPDATE public.inventory
+    SET batches = v_batches,
+        stock = v_stock,
+        batch_number = v_next->>'batchNumber',
+        expiry_date = NULLIF(v_next->>'expiryDate', '')::date,
+        updated_at = NOW()
+    WHERE id = v_item.id;
+
+    INSERT INTO public.inventory_logs (
+      clinic_id, item_id, item_name, action, quantity_change, quantity_before, quantity_after,
+      notes, user_name, performed_by, visit_id
+    ) VALUES (
+      v_item.clinic_id, v_item.id, v_item.name, 'Dispensed', -v_line.quantity, v_item.stock, v_stock,
+      format('Dispensed to %s (lots: %s)', COALESCE(v_visit.patient_name, 'patient'), array_to_string(v_taken_lots, ', ')),
+      v_user_name, auth.uid(), p_visit_id
+    ) RETURNING * INTO v_log;
+
+    RETURN NEXT v_log;
+  END LOOP;
+
+  UPDATE public.stock_reservations
+  SET status = 'committed', updated_at = NOW()
+  WHERE visit_id = p_visit_id AND status = 'held';
+
+  UPDATE public.visits
+  SET medications_dispensed = true,
+      stage = 'Clearance',
+      stage_start_time = NOW(),
+      updated_at = NOW()
+  WHERE id = p_visit_id;
+
+  RETURN;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reserve_prescription_stock(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.dispense_prescription(UUID) TO authenticated;
@@ -0,0 +1,247 @@
+-- Immutable inventory movement ledger
+-- Every change to inventory.stock (create, restock, adjust, dispense, delete) appends one row to
+-- inventory_logs from a trigger, so the ledger cannot drift from the stock it describes.
+-- Writers describe a movement through the transient movement_* columns on inventory, which the
+-- trigger consumes and clears.
+
+-- 1. Ledger columns and actions
+ALTER TABLE public.inventory_logs RENAME COLUMN visit_id TO reference;
+ALTER TABLE public.inventory_logs ALTER COLUMN reference TYPE TEXT USING reference::text;
+
+DO $$
+DECLARE
+  v_constraint RECORD;
+BEGIN
+  -- Drop the original action CHECK and the item FK (history must outlive the item)
+  FOR v_constraint IN
+    SELECT conname FROM pg_constraint
+    WHERE conrelid = 'public.inventory_logs'::regclass
+      AND (
+        (contype = 'c' AND pg_get_constraintdef(oid) ILIKE '%action%')
+        OR (contype = 'f' AND confrelid = 'public.inventory'::regclass)
+      )
+  LOOP
+    EXECUTE format('ALTER TABLE public.inventory_logs DROP CONSTRAINT %I', v_constraint.conname);
+  END LOOP;
+END$$;
+
+ALTER TABLE public.inventory_logs ADD CONSTRAINT inventory_logs_action_check
+  CHECK (action IN ('Created', 'Updated', 'Restocked', 'Adjusted', 'Dispensed', 'Deleted'));
+
+ALTER TABLE public.inventory ADD COLUMN IF NOT EXISTS movement_action TEXT;
+ALTER TABLE public.inventory ADD COLUMN IF NOT EXISTS movement_note TEXT;
+ALTER TABLE public.inventory ADD COLUMN IF NOT EXISTS movement_reference TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_inventory_logs_item_created ON public.inventory_logs(item_id, created_at);
+
+-- 2. Ledger rows are append-only. Cascades from deleting a whole clinic are still allowed.
+CREATE OR REPLACE FUNCTION public.prevent_inventory_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF pg_trigger_depth() > 1 THEN
+    RETURN OLD;
+  END IF;
+  RAISE EXCEPTION 'Inventory ledger entries are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS inventory_logs_immutable ON public.inventory_logs;
+CREATE TRIGGER inventory_logs_immutable
+  BEFORE UPDATE OR DELETE ON public.inventory_logs
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_inventory_log_changes();
+
+-- 3. Append a movement whenever stock changes (or a note is supplied)
+CREATE OR REPLACE FUNCTION public.record_inventory_movement()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_before INTEGER;
+  v_after INTEGER;
+  v_action TEXT;
+  v_user_name TEXT;
+BEGIN
+  SELECT full_name INTO v_user_name FROM public.users WHERE id = auth.uid();
+
+  IF TG_OP = 'DELETE' THEN
+    INSERT INTO public.inventory_logs (
+      clinic_id, item_id, item_name, action, quantity_change, quantity_before, quantity_after,
+      notes, user_name, performed_by
+    ) VALUES (
+      OLD.clinic_id, OLD.id, OLD.name, 'Deleted', -COALESCE(OLD.stock, 0), COALESCE(OLD.stock, 0), 0,
+      'Item removed from inventory', v_user_name, auth.uid()
+    );
+    RETURN OLD;
+  END IF;
+
+  v_before := CASE WHEN TG_OP = 'INSERT' THEN 0 ELSE COALESCE(OLD.stock, 0) END;
+  v_after := COALESCE(NEW.stock, 0);
+
+  IF TG_OP = 'INSERT' OR v_after <> v_before OR NEW.movement_action IS NOT NULL OR NEW.movement_note IS NOT NULL THEN
+    v_action := COALESCE(
+      NEW.movement_action,
+      CASE
+        WHEN TG_OP = 'INSERT' THEN 'Created'
+        WHEN v_after > v_before THEN 'Restocked'
+        WHEN v_after < v_before THEN 'Adjusted'
+        ELSE 'Updated'
+      END
+    );
+
+    INSERT INTO public.inventory_logs (
+      clinic_id, item_id, item_name, action, quantity_change, quantity_before, quantity_after,
+      notes, reference, user_name, performed_by
+    ) VALUES (
+      NEW.clinic_id, NEW.id, NEW.name, v_action, v_after - v_before, v_before, v_after,
+      NEW.movement_note, NEW.movement_reference, v_user_name, auth.uid()
+    );
+  END IF;
+
+  NEW.movement_action := NULL;
+  NEW.movement_note := NULL;
+  NEW.movement_reference := NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the trigger writes ledger rows
+DROP POLICY IF EXISTS "Clinic users can add inventory logs" ON public.inventory_logs;
+
+DROP TRIGGER IF EXISTS inventory_record_movement ON public.inventory;
+CREATE TRIGGER inventory_record_movement
+  BEFORE INSERT OR UPDATE ON public.inventory
+  FOR EACH ROW EXECUTE FUNCTION public.record_inventory_movement();
+
+DROP TRIGGER IF EXISTS inventory_record_deletion ON public.inventory;
+CREATE TRIGGER inventory_record_deletion
+  AFTER DELETE ON public.inventory
+  FOR EACH ROW EXECUTE FUNCTION public.record_inventory_movement();
+
+-- 4. Opening balances so existing stock reconciles from day one
+INSERT INTO public.inventory_logs (clinic_id, item_id, item_name, action, quantity_change, quantity_before, quantity_after, notes)
+SELECT i.clinic_id, i.id, i.name, 'Adjusted',
+       COALESCE(i.stock, 0) - COALESCE(l.balance, 0), COALESCE(l.balance, 0), COALESCE(i.stock, 0),
+       'Opening balance (ledger start)'
+FROM public.inventory i
+LEFT JOIN (
+  SELECT item_id, SUM(quantity_change) AS balance FROM public.inventory_logs GROUP BY item_id
+) l ON l.item_id = i.id
+WHERE COALESCE(i.stock, 0) <> COALESCE(l.balance, 0);
+
+-- 5. Reconciliation: the ledger must sum to current stock
+CREATE OR REPLACE VIEW public.inventory_ledger_reconciliation
+WITH (security_invoker = true) AS
+SELECT
+  i.id AS item_id,
+  i.clinic_id,
+  i.name AS item_name,
+  COALESCE(i.stock, 0) AS stock,
+  COALESCE(SUM(l.quantity_change), 0)::int AS ledger_balance,
+  COALESCE(i.stock, 0) - COALESCE(SUM(l.quantity_change), 0)::int AS variance
+FROM public.inventory i
+LEFT JOIN public.inventory_logs l ON l.item_id = i.id
+GROUP BY i.id, i.clinic_id, i.name, i.stock;
+
+GRANT SELECT ON public.inventory_ledger_reconciliation TO authenticated;
+
+-- 6. Dispensing now records its movements through the ledger trigger
+CREATE OR REPLACE FUNCTION public.dispense_prescription(p_visit_id UUID)
+RETURNS SETOF public.inventory_logs
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_visit public.visits;
+  v_line RECORD;
+  v_item public.inventory;
+  v_lot JSONB;
+  v_held INTEGER;
+  v_available INTEGER;
+  v_remaining INTEGER;
+  v_taken INTEGER;
+  v_lot_qty INTEGER;
+  v_batches JSONB;
+  v_taken_lots TEXT[];
+  v_next JSONB;
+  v_stock INTEGER;
+BEGIN
+  SELECT * INTO v_visit FROM public.visits WHERE id = p_visit_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Visit % not found', p_visit_id;
+  END IF;
+  IF COALESCE(v_visit.medications_dispensed, false) THEN
+    RAISE EXCEPTION 'Medications for this visit have already been dispensed' USING ERRCODE = 'P0001';
+  END IF;
+
+  FOR v_line IN
+    SELECT (line->>'inventoryId')::uuid AS inventory_id, SUM((line->>'quantity')::int)::int AS quantity
+    FROM jsonb_array_elements(COALESCE(v_visit.prescription, '[]'::jsonb)) AS line
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    CONTINUE WHEN v_line.quantity <= 0;
+
+    SELECT * INTO v_item FROM public.inventory WHERE id = v_line.inventory_id FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Inventory item % not found', v_line.inventory_id;
+    END IF;
+
+    -- Stock held for other visits is not available to this one
+    SELECT COALESCE(SUM(quantity), 0) INTO v_held
+    FROM public.stock_reservations
+    WHERE inventory_id = v_item.id AND status = 'held' AND visit_id <> p_visit_id;
+
+    v_available := public.inventory_usable_stock(v_item) - v_held;
+    IF v_line.quantity > v_available THEN
+      RAISE EXCEPTION 'Insufficient stock for %: % requested, % available', v_item.name, v_line.quantity, GREATEST(v_available, 0)
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    -- Draw first-expiring unexpired lots first
+    v_remaining := v_line.quantity;
+    v_batches := '[]'::jsonb;
+    v_taken_lots := ARRAY[]::TEXT[];
+    FOR v_lot IN SELECT * FROM public.inventory_lots_fefo(v_item) LOOP
+      v_lot_qty := (v_lot->>'quantity')::int;
+      IF v_remaining > 0 AND (NULLIF(v_lot->>'expiryDate', '') IS NULL OR (v_lot->>'expiryDate')::timestamptz >= now()) THEN
+        v_taken := LEAST(v_lot_qty, v_remaining);
+        v_remaining := v_remaining - v_taken;
+        v_lot_qty := v_lot_qty - v_taken;
+        v_taken_lots := v_taken_lots || format('%s x%s', COALESCE(v_lot->>'batchNumber', 'unnumbered'), v_taken);
+      END IF;
+      IF v_lot_qty > 0 THEN
+        v_batches := v_batches || jsonb_build_array(jsonb_set(v_lot, '{quantity}', to_jsonb(v_lot_qty)));
+      END IF;
+    END LOOP;
+
+    SELECT COALESCE(SUM((lot->>'quantity')::int), 0) INTO v_stock FROM jsonb_array_elements(v_batches) AS lot;
+    v_next := v_batches->0;
+
+    UPDATE public.inventory
+    SET batches = v_batches,
+        stock = v_stock,
+        batch_number = v_next->>'batchNumber',
+        expiry_date = NULLIF(v_next->>'expiryDate', '')::date,
+        movement_action = 'Dispensed',
+        movement_note = format('Dispensed to %s (lots: %s)', COALESCE(v_visit.patient_name, 'patient'), array_to_string(v_taken_lots, ', ')),
+        movement_reference = p_visit_id::text,
+        updated_at = NOW()
+    WHERE id = v_item.id;
+
+    RETURN QUERY
+      SELECT * FROM public.inventory_logs
+      WHERE item_id = v_item.id AND reference = p_visit_id::text AND action = 'Dispensed'
+      ORDER BY created_at DESC
+      LIMIT 1;
+  END LOOP;
+
+  UPDATE public.stock_reservations
+  SET status = 'committed', updated_at = NOW()
+  WHERE visit_id = p_visit_id AND status = 'held';
+
+  UPDATE public.visits
+  SET medications_dispensed = true,
+      stage = 'Clearance',
+      stage_start_time = NOW(),
+      updated_at = NOW()
+  WHERE id = p_visit_id;
+
+  RETURN;
+END;
+$$;
@@ -0,0 +1,169 @@
+-- Purchase orders and goods received
+-- Orders keep their lines in a JSONB array (like visits.prescription). Receiving goods against an
+-- order appends a lot to each item and updates stock in one transaction; the inventory ledger
+-- trigger records each line as a 'Restocked' movement referencing the order.
+
+CREATE TABLE IF NOT EXISTS public.purchase_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinic_id UUID NOT NULL DEFAULT public.get_user_clinic_id() REFERENCES public.clinics(id) ON DELETE CASCADE,
+  po_number TEXT NOT NULL,
+  supplier_id UUID NOT NULL REFERENCES public.suppliers(id) ON DELETE RESTRICT,
+  status TEXT NOT NULL DEFAULT 'Draft' CHECK (status IN ('Draft', 'Sent', 'Partially Received', 'Received')),
+  lines JSONB NOT NULL DEFAULT '[]'::jsonb,
+  notes TEXT,
+  created_by UUID DEFAULT auth.uid(),
+  sent_at TIMESTAMPTZ,
+  received_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (clinic_id, po_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_clinic ON public.purchase_orders(clinic_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier ON public.purchase_orders(supplier_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_status ON public.purchase_orders(clinic_id, status);
+
+DROP TRIGGER IF EXISTS set_purchase_orders_updated_at ON public.purchase_orders;
+CREATE TRIGGER set_purchase_orders_updated_at
+  BEFORE UPDATE ON public.purchase_orders
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.purchase_orders ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Clinic users can view purchase orders" ON public.purchase_orders;
+CREATE POLICY "Clinic users can view purchase orders" ON public.purchase_orders
+  FOR SELECT USING (clinic_id = public.get_user_clinic_id() OR public.is_super_admin());
+
+DROP POLICY IF EXISTS "Clinic users can manage purchase orders" ON public.purchase_orders;
+CREATE POLICY "Clinic users can manage purchase orders" ON public.purchase_orders
+  FOR ALL USING (clinic_id = public.get_user_clinic_id())
+  WITH CHECK (clinic_id = public.get_user_clinic_id());
+
+-- Receive goods against an order. p_lines: [{ inventoryId, quantity, batchNumber?, expiryDate? }]
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(p_order_id UUID, p_lines JSONB)
+RETURNS public.purchase_orders
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_order public.purchase_orders;
+  v_receipt RECORD;
+  v_line JSONB;
+  v_lines JSONB := '[]'::jsonb;
+  v_item public.inventory;
+  v_lot JSONB;
+  v_batches JSONB;
+  v_next JSONB;
+  v_outstanding INTEGER;
+  v_received_any BOOLEAN := false;
+  v_complete BOOLEAN := true;
+BEGIN
+  SELECT * INTO v_order FROM public.purchase_orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order % not found', p_order_id;
+  END IF;
+  IF v_order.status = 'Received' THEN
+    RAISE EXCEPTION 'Purchase order % has already been fully received', v_order.po_number USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Check each item's total for this delivery first, so two receipt lines for the same item cannot each
+  -- take the whole outstanding quantity
+  FOR v_receipt IN
+    SELECT (r->>'inventoryId')::uuid AS inventory_id, SUM((r->>'quantity')::int) AS quantity
+    FROM jsonb_array_elements(COALESCE(p_lines, '[]'::jsonb)) AS r
+    WHERE COALESCE((r->>'quantity')::int, 0) > 0
+    GROUP BY 1
+  LOOP
+    SELECT line INTO v_line
+    FROM jsonb_array_elements(v_order.lines) AS line
+    WHERE (line->>'inventoryId')::uuid = v_receipt.inventory_id;
+    IF v_line IS NULL THEN
+      RAISE EXCEPTION 'Item % is not on purchase order %', v_receipt.inventory_id, v_order.po_number;
+    END IF;
+
+    v_outstanding := (v_line->>'quantityOrdered')::int - COALESCE((v_line->>'quantityReceived')::int, 0);
+    IF v_receipt.quantity > v_outstanding THEN
+      RAISE EXCEPTION 'Receiving % of %, but only % outstanding on %', v_receipt.quantity, v_line->>'name', v_outstanding, v_order.po_number
+        USING ERRCODE = 'P0001';
+    END IF;
+  END LOOP;
+
+  FOR v_receipt IN
+    SELECT (r->>'inventoryId')::uuid AS inventory_id,
+           (r->>'quantity')::int AS quantity,
+           NULLIF(r->>'batchNumber', '') AS batch_number,
+           NULLIF(r->>'expiryDate', '') AS expiry_date
+    FROM jsonb_array_elements(COALESCE(p_lines, '[]'::jsonb)) AS r
+    ORDER BY 1
+  LOOP
+    CONTINUE WHEN COALESCE(v_receipt.quantity, 0) <= 0;
+
+    SELECT * INTO v_item FROM public.inventory WHERE id = v_receipt.inventory_id FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Inventory item % not found', v_receipt.inventory_id;
+    END IF;
+
+    -- Each delivery becomes its own lot
+    v_lot := jsonb_strip_nulls(jsonb_build_object(
+      'id', 'LOT' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint || floor(random() * 1000)::int,
+      'batchNumber', v_receipt.batch_number,
+      'quantity', v_receipt.quantity,
+      'expiryDate', v_receipt.expiry_date,
+      'supplierId', v_order.supplier_id,
+      'receivedAt', NOW()
+    ));
+    SELECT COALESCE(jsonb_agg(lot), '[]'::jsonb) INTO v_batches
+    FROM public.inventory_lots_fefo(v_item) AS lot;
+    v_batches := v_batches || jsonb_build_array(v_lot);
+
+    SELECT lot INTO v_next
+    FROM jsonb_array_elements(v_batches) AS lot
+    ORDER BY NULLIF(lot->>'expiryDate', '')::timestamptz ASC NULLS LAST, (lot->>'receivedAt')::timestamptz ASC NULLS FIRST
+    LIMIT 1;
+
+    UPDATE public.inventory
+    SET batches = v_batches,
+        stock = COALESCE(v_item.stock, 0) + v_receipt.quantity,
+        batch_number = v_next->>'batchNumber',
+        expiry_date = NULLIF(v_next->>'expiryDate', '')::date,
+        supplier_id = COALESCE(v_item.supplier_id, v_order.supplier_id),
+        movement_action = 'Restocked',
+        movement_note = format('Received against %s (+%s%s)', v_order.po_number, v_receipt.quantity,
+                               COALESCE(', Lot ' || v_receipt.batch_number, '')),
+        movement_reference = v_order.po_number,
+        updated_at = NOW()
+    WHERE id = v_item.id;
+
+    v_received_any := true;
+  END LOOP;
+
+  IF NOT v_received_any THEN
+    RAISE EXCEPTION 'Nothing to receive on %', v_order.po_number USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Roll received quantities into the order lines
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_order.lines) LOOP
+    v_line := jsonb_set(v_line, '{quantityReceived}', to_jsonb(
+      COALESCE((v_line->>'quantityReceived')::int, 0) + COALESCE((
+        SELECT SUM((r->>'quantity')::int)
+        FROM jsonb_array_elements(p_lines) AS r
+        WHERE (r->>'inventoryId')::uuid = (v_line->>'inventoryId')::uuid AND (r->>'quantity')::int > 0
+      ), 0)
+    ));
+    IF (v_line->>'quantityReceived')::int < (v_line->>'quantityOrdered')::int THEN
+      v_complete := false;
+    END IF;
+    v_lines := v_lines || jsonb_build_array(v_line);
+  END LOOP;
+
+  UPDATE public.purchase_orders
+  SET lines = v_lines,
+      status = CASE WHEN v_complete THEN 'Received' ELSE 'Partially Received' END,
+      sent_at = COALESCE(sent_at, NOW()),
+      received_at = CASE WHEN v_complete THEN NOW() ELSE received_at END
+  WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.receive_purchase_order(UUID, JSONB) TO authenticated;
@@ -0,0 +1,204 @@
+-- Physical stock-take sessions
+-- A session snapshots every lot's system quantity; staff record counted quantities (with a reason
+-- for each variance) and post the whole count at once. Posting sets each counted lot to its counted
+-- quantity in one transaction, and the inventory ledger trigger records one 'Adjusted' movement per
+-- item referencing the session.
+
+CREATE TABLE IF NOT EXISTS public.stock_takes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinic_id UUID NOT NULL DEFAULT public.get_user_clinic_id() REFERENCES public.clinics(id) ON DELETE CASCADE,
+  reference TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'Open' CHECK (status IN ('Open', 'Posted', 'Cancelled')),
+  lines JSONB NOT NULL DEFAULT '[]'::jsonb,
+  notes TEXT,
+  created_by UUID DEFAULT auth.uid(),
+  posted_by UUID,
+  posted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (clinic_id, reference)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_takes_clinic ON public.stock_takes(clinic_id, created_at DESC);
+
+-- One count in progress per clinic
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stock_takes_one_open
+  ON public.stock_takes(clinic_id) WHERE status = 'Open';
+
+DROP TRIGGER IF EXISTS set_stock_takes_updated_at ON public.stock_takes;
+CREATE TRIGGER set_stock_takes_updated_at
+  BEFORE UPDATE ON public.stock_takes
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.stock_takes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Clinic users can view stock takes" ON public.stock_takes;
+CREATE POLICY "Clinic users can view stock takes" ON public.stock_takes
+  FOR SELECT USING (clinic_id = public.get_user_clinic_id() OR public.is_super_admin());
+
+-- Posted counts are part of the audit trail and can no longer be edited from the client
+DROP POLICY IF EXISTS "Clinic users can add stock takes" ON public.stock_takes;
+CREATE POLICY "Clinic users can add stock takes" ON public.stock_takes
+  FOR INSERT WITH CHECK (clinic_id = public.get_user_clinic_id() AND status = 'Open');
+
+DROP POLICY IF EXISTS "Clinic users can update open stock takes" ON public.stock_takes;
+CREATE POLICY "Clinic users can update open stock takes" ON public.stock_takes
+  FOR UPDATE USING (clinic_id = public.get_user_clinic_id() AND status = 'Open')
+  WITH CHECK (clinic_id = public.get_user_clinic_id() AND status IN ('Open', 'Cancelled'));
+
+-- Post a count. Lines without a countedQuantity are left untouched.
+-- Runs as definer so it can mark the session Posted, which clients cannot do directly;
+-- the session and every item it touches are checked against the caller's clinic.
+CREATE OR REPLACE FUNCTION public.post_stock_take(p_stock_take_id UUID)
+RETURNS public.stock_takes
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_take public.stock_takes;
+  v_item_id UUID;
+  v_item public.inventory;
+  v_lot JSONB;
+  v_line JSONB;
+  v_lines JSONB := '[]'::jsonb;
+  v_batches JSONB;
+  v_next JSONB;
+  v_expected INTEGER;
+  v_counted INTEGER;
+  v_changes TEXT[];
+  v_adjustments JSONB := '[]'::jsonb;
+  v_user public.users;
+BEGIN
+  -- Posting rewrites stock, so it is limited to the roles that may adjust inventory
+  SELECT * INTO v_user FROM public.users WHERE id = auth.uid();
+  IF v_user.id IS NULL OR lower(replace(v_user.role, ' ', '_')) NOT IN ('admin', 'pharmacist', 'superadmin', 'super_admin') THEN
+    RAISE EXCEPTION 'You are not allowed to post stock adjustments' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_take FROM public.stock_takes
+  WHERE id = p_stock_take_id AND clinic_id = public.get_user_clinic_id()
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock take % not found', p_stock_take_id;
+  END IF;
+  IF v_take.status <> 'Open' THEN
+    RAISE EXCEPTION 'Stock take % is already %', v_take.reference, lower(v_take.status) USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Uncounted lines are kept as recorded
+  SELECT COALESCE(jsonb_agg(line), '[]'::jsonb) INTO v_lines
+  FROM jsonb_array_elements(v_take.lines) AS line
+  WHERE line->>'countedQuantity' IS NULL;
+
+  FOR v_item_id IN
+    SELECT DISTINCT (line->>'inventoryId')::uuid
+    FROM jsonb_array_elements(v_take.lines) AS line
+    WHERE line->>'countedQuantity' IS NOT NULL
+    ORDER BY 1
+  LOOP
+    SELECT * INTO v_item FROM public.inventory WHERE id = v_item_id AND clinic_id = v_take.clinic_id FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Inventory item % no longer exists; remove it from the count', v_item_id USING ERRCODE = 'P0001';
+    END IF;
+
+    v_batches := '[]'::jsonb;
+    v_changes := ARRAY[]::TEXT[];
+
+    -- Current lots: counted ones take their counted quantity, the rest are kept
+    FOR v_lot IN SELECT * FROM public.inventory_lots_fefo(v_item) LOOP
+      v_expected := (v_lot->>'quantity')::int;
+      v_line := NULL;
+      SELECT line INTO v_line
+      FROM jsonb_array_elements(v_take.lines) AS line
+      WHERE (line->>'inventoryId')::uuid = v_item.id
+        AND line->>'batchId' = v_lot->>'id'
+        AND line->>'countedQuantity' IS NOT NULL
+      LIMIT 1;
+
+      IF v_line IS NULL THEN
+        v_batches := v_batches || jsonb_build_array(v_lot);
+        CONTINUE;
+      END IF;
+
+      v_counted := (v_line->>'countedQuantity')::int;
+      IF v_counted < 0 THEN
+        RAISE EXCEPTION 'Counted quantity for % cannot be negative', v_item.name USING ERRCODE = 'P0001';
+      END IF;
+      IF v_counted <> v_expected THEN
+        IF NULLIF(v_line->>'reason', '') IS NULL THEN
+          RAISE EXCEPTION 'A reason is required for the variance on % (lot %)', v_item.name, COALESCE(v_lot->>'batchNumber', 'unnumbered')
+            USING ERRCODE = 'P0001';
+        END IF;
+        v_changes := v_changes || format('lot %s %s%s (%s)', COALESCE(v_lot->>'batchNumber', 'unnumbered'),
+          CASE WHEN v_counted > v_expected THEN '+' ELSE '' END, v_counted - v_expected, v_line->>'reason');
+      END IF;
+      IF v_counted > 0 THEN
+        v_batches := v_batches || jsonb_build_array(jsonb_set(v_lot, '{quantity}', to_jsonb(v_counted)));
+      END IF;
+      v_lines := v_lines || jsonb_build_array(jsonb_set(v_line, '{expectedQuantity}', to_jsonb(v_expected)));
+    END LOOP;
+
+    -- Counted stock with no matching lot (found stock, or a lot emptied since the count began)
+    FOR v_line IN
+      SELECT line
+      FROM jsonb_array_elements(v_take.lines) AS line
+      WHERE (line->>'inventoryId')::uuid = v_item.id
+        AND line->>'countedQuantity' IS NOT NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM public.inventory_lots_fefo(v_item) AS lot WHERE lot->>'id' = line->>'batchId'
+        )
+    LOOP
+      v_counted := (v_line->>'countedQuantity')::int;
+      IF v_counted > 0 THEN
+        IF NULLIF(v_line->>'reason', '') IS NULL THEN
+          RAISE EXCEPTION 'A reason is required for the variance on %', v_item.name USING ERRCODE = 'P0001';
+        END IF;
+        v_batches := v_batches || jsonb_build_array(jsonb_strip_nulls(jsonb_build_object(
+          'id', 'LOT' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint || floor(random() * 1000)::int,
+          'batchNumber', NULLIF(v_line->>'batchNumber', ''),
+          'quantity', v_counted,
+          'expiryDate', NULLIF(v_line->>'expiryDate', ''),
+          'receivedAt', NOW()
+        )));
+        v_changes := v_changes || format('lot %s +%s (%s)', COALESCE(NULLIF(v_line->>'batchNumber', ''), 'unnumbered'), v_counted, v_line->>'reason');
+      END IF;
+      v_lines := v_lines || jsonb_build_array(jsonb_set(v_line, '{expectedQuantity}', to_jsonb(0)));
+    END LOOP;
+
+    CONTINUE WHEN array_length(v_changes, 1) IS NULL;
+    v_adjustments := v_adjustments || jsonb_build_array(jsonb_build_object('inventoryId', v_item.id, 'name', v_item.name, 'changes', to_jsonb(v_changes)));
+
+    SELECT lot INTO v_next
+    FROM jsonb_array_elements(v_batches) AS lot
+    ORDER BY NULLIF(lot->>'expiryDate', '')::timestamptz ASC NULLS LAST, (lot->>'receivedAt')::timestamptz ASC NULLS FIRST
+    LIMIT 1;
+
+    UPDATE public.inventory
+    SET batches = v_batches,
+        stock = (SELECT COALESCE(SUM((lot->>'quantity')::int), 0) FROM jsonb_array_elements(v_batches) AS lot),
+        batch_number = v_next->>'batchNumber',
+        expiry_date = NULLIF(v_next->>'expiryDate', '')::date,
+        movement_action = 'Adjusted',
+        movement_note = format('Stock-take %s: %s', v_take.reference, array_to_string(v_changes, '; ')),
+        movement_reference = v_take.reference,
+        updated_at = NOW()
+    WHERE id = v_item.id;
+  END LOOP;
+
+  UPDATE public.stock_takes
+  SET lines = v_lines,
+      status = 'Posted',
+      posted_by = auth.uid(),
+      posted_at = NOW()
+  WHERE id = p_stock_take_id
+  RETURNING * INTO v_take;
+
+  -- Audited in the same transaction as the adjustments, so a posted count always has its log entry
+  INSERT INTO public.audit_logs (clinic_id, user_id, user_name, user_role, action, resource_type, resource_id, metadata, status)
+  VALUES (v_take.clinic_id, v_user.id, v_user.full_name, v_user.role, 'STOCK_TAKE_POST', 'StockTake', v_take.id::text,
+          jsonb_build_object('reference', v_take.reference, 'adjustments', v_adjustments), 'success');
+
+  RETURN v_take;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.post_stock_take(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.post_stock_take(UUID) TO authenticated;
@@ -0,0 +1,422 @@
+-- Controlled drugs register
+-- Items flagged is_controlled keep a running-balance register alongside the inventory ledger.
+-- Every receipt and dispense of a controlled item must be confirmed by a second staff member,
+-- who proves their presence with a personal witness PIN. The witnessed RPCs below verify the PIN
+-- and mark the transaction; the ledger trigger refuses any unwitnessed stock change on a controlled
+-- item, or change to the flag itself, and writes the register entry.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+ALTER TABLE public.inventory ADD COLUMN IF NOT EXISTS is_controlled BOOLEAN NOT NULL DEFAULT false;
+
+-- 1. Witness PINs (hashes are only reachable through the functions below)
+CREATE TABLE IF NOT EXISTS public.witness_pins (
+  user_id UUID PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  pin_hash TEXT NOT NULL,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMPTZ,
+  verified_for UUID, -- Caller whose last check of this PIN passed, until a witnessed movement uses it
+  verified_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.witness_pins ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.set_witness_pin(p_pin TEXT)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF p_pin IS NULL OR p_pin !~ '^[0-9]{4,8}$' THEN
+    RAISE EXCEPTION 'Witness PIN must be 4 to 8 digits' USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO public.witness_pins (user_id, pin_hash, updated_at)
+  VALUES (auth.uid(), crypt(p_pin, gen_salt('bf')), NOW())
+  ON CONFLICT (user_id) DO UPDATE
+    SET pin_hash = EXCLUDED.pin_hash, failed_attempts = 0, locked_until = NULL,
+        verified_for = NULL, verified_at = NULL, updated_at = NOW();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_witness_pin(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_witness_pin(TEXT) TO authenticated;
+
+-- Checks a witness PIN before the movement is attempted. A wrong PIN raised inside the movement's
+-- transaction would roll back its own bookkeeping, so attempts are counted here, in a call that
+-- commits on its own: five wrong entries lock the PIN for 15 minutes, and every failure is audited.
+-- Returns 'verified', 'wrong' or 'locked'.
+CREATE OR REPLACE FUNCTION public.verify_witness_pin(p_witness_id UUID, p_pin TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions AS $$
+DECLARE
+  v_pin public.witness_pins;
+  v_user public.users;
+  v_result TEXT;
+BEGIN
+  SELECT * INTO v_user FROM public.users WHERE id = auth.uid();
+  IF v_user.id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF p_witness_id IS NULL OR p_witness_id = v_user.id THEN
+    RAISE EXCEPTION 'A different staff member must witness this movement' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- The witness must be another active pharmacist, doctor or admin of the caller's clinic
+  SELECT wp.* INTO v_pin
+  FROM public.users u
+  JOIN public.witness_pins wp ON wp.user_id = u.id
+  WHERE u.id = p_witness_id
+    AND u.clinic_id = v_user.clinic_id
+    AND lower(COALESCE(u.status, 'active')) = 'active'
+    AND lower(replace(u.role, ' ', '_')) IN ('admin', 'doctor', 'pharmacist', 'superadmin', 'super_admin')
+  FOR UPDATE OF wp;
+
+  IF v_pin.locked_until > NOW() THEN
+    v_result := 'locked';
+  ELSIF v_pin.user_id IS NOT NULL AND crypt(COALESCE(p_pin, ''), v_pin.pin_hash) = v_pin.pin_hash THEN
+    UPDATE public.witness_pins
+    SET failed_attempts = 0, locked_until = NULL, verified_for = v_user.id, verified_at = NOW()
+    WHERE user_id = v_pin.user_id;
+    RETURN 'verified';
+  ELSE
+    UPDATE public.witness_pins
+    SET failed_attempts = CASE WHEN failed_attempts + 1 >= 5 THEN 0 ELSE failed_attempts + 1 END,
+        locked_until = CASE WHEN failed_attempts + 1 >= 5 THEN NOW() + INTERVAL '15 minutes' END,
+        verified_for = NULL,
+        verified_at = NULL
+    WHERE user_id = v_pin.user_id
+    RETURNING * INTO v_pin;
+    v_result := CASE WHEN v_pin.locked_until IS NOT NULL THEN 'locked' ELSE 'wrong' END;
+  END IF;
+
+  INSERT INTO public.audit_logs (clinic_id, user_id, user_name, user_role, action, resource_type, resource_id, metadata, status)
+  VALUES (v_user.clinic_id, v_user.id, v_user.full_name, v_user.role, 'WITNESS_PIN_FAILED', 'WitnessPin', p_witness_id::text,
+          jsonb_build_object('result', v_result, 'locked_until', v_pin.locked_until), 'failed');
+
+  RETURN v_result;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.verify_witness_pin(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.verify_witness_pin(UUID, TEXT) TO authenticated;
+
+-- Marks the current transaction as witnessed. Only a PIN that passed verify_witness_pin for this
+-- caller in the last five minutes is accepted, so this cannot be used to guess PINs uncounted.
+CREATE OR REPLACE FUNCTION public.confirm_witness(p_witness_id UUID, p_pin TEXT)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions AS $$
+DECLARE
+  v_pin public.witness_pins;
+BEGIN
+  IF p_witness_id IS NULL OR p_witness_id = auth.uid() THEN
+    RAISE EXCEPTION 'A different staff member must witness this movement' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT wp.* INTO v_pin
+  FROM public.users u
+  JOIN public.witness_pins wp ON wp.user_id = u.id
+  WHERE u.id = p_witness_id
+    AND u.clinic_id = public.get_user_clinic_id()
+    AND lower(COALESCE(u.status, 'active')) = 'active'
+    AND lower(replace(u.role, ' ', '_')) IN ('admin', 'doctor', 'pharmacist', 'superadmin', 'super_admin')
+  FOR UPDATE OF wp;
+
+  IF v_pin.user_id IS NULL
+    OR v_pin.locked_until > NOW()
+    OR v_pin.verified_for IS DISTINCT FROM auth.uid()
+    OR v_pin.verified_at < NOW() - INTERVAL '5 minutes'
+    OR crypt(COALESCE(p_pin, ''), v_pin.pin_hash) <> v_pin.pin_hash THEN
+    RAISE EXCEPTION 'Witness could not be verified. Check the witness and their PIN.' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- One verification per movement
+  UPDATE public.witness_pins SET verified_for = NULL, verified_at = NULL WHERE user_id = v_pin.user_id;
+
+  PERFORM set_config('app.witness_id', p_witness_id::text, true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.confirm_witness(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.confirm_witness(UUID, TEXT) TO authenticated;
+
+-- 2. The register
+CREATE TABLE IF NOT EXISTS public.controlled_drug_register (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinic_id UUID NOT NULL REFERENCES public.clinics(id) ON DELETE CASCADE,
+  item_id UUID NOT NULL, -- No FK: the register must outlive the item
+  item_name TEXT NOT NULL,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('Opening Balance', 'Received', 'Dispensed', 'Adjusted')),
+  quantity_change INTEGER NOT NULL,
+  balance INTEGER NOT NULL,
+  reference TEXT,
+  patient_name TEXT,
+  notes TEXT,
+  recorded_by UUID,
+  recorded_by_name TEXT,
+  witnessed_by UUID,
+  witnessed_by_name TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT clock_timestamp()
+);
+
+CREATE INDEX IF NOT EXISTS idx_controlled_register_item ON public.controlled_drug_register(item_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_controlled_register_clinic ON public.controlled_drug_register(clinic_id, created_at DESC);
+
+ALTER TABLE public.controlled_drug_register ENABLE ROW LEVEL SECURITY;
+
+-- Only the roles that may witness (pharmacists, doctors, admins) can read the register
+CREATE OR REPLACE FUNCTION public.can_view_controlled_register()
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.users u
+    WHERE u.id = auth.uid()
+      AND lower(replace(u.role, ' ', '_')) IN ('admin', 'doctor', 'pharmacist', 'superadmin', 'super_admin')
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.can_view_controlled_register() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.can_view_controlled_register() TO authenticated;
+
+DROP POLICY IF EXISTS "Clinic users can view controlled register" ON public.controlled_drug_register;
+DROP POLICY IF EXISTS "Authorised staff can view controlled register" ON public.controlled_drug_register;
+CREATE POLICY "Authorised staff can view controlled register" ON public.controlled_drug_register
+  FOR SELECT USING (
+    (clinic_id = public.get_user_clinic_id() AND public.can_view_controlled_register())
+    OR public.is_super_admin()
+  );
+
+-- Register entries are append-only, like the inventory ledger. Clinic cascades are still allowed.
+CREATE OR REPLACE FUNCTION public.prevent_controlled_register_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF pg_trigger_depth() > 1 THEN
+    RETURN OLD;
+  END IF;
+  RAISE EXCEPTION 'Controlled drug register entries are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS controlled_register_immutable ON public.controlled_drug_register;
+CREATE TRIGGER controlled_register_immutable
+  BEFORE UPDATE OR DELETE ON public.controlled_drug_register
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_controlled_register_changes();
+
+-- 3. Ledger trigger: also writes the register for controlled items
+CREATE OR REPLACE FUNCTION public.record_inventory_movement()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_before INTEGER;
+  v_after INTEGER;
+  v_action TEXT;
+  v_user_name TEXT;
+  v_witness UUID;
+  v_witness_name TEXT;
+  v_patient TEXT;
+  v_was_controlled BOOLEAN;
+BEGIN
+  SELECT full_name INTO v_user_name FROM public.users WHERE id = auth.uid();
+  v_witness := NULLIF(current_setting('app.witness_id', true), '')::uuid;
+  SELECT full_name INTO v_witness_name FROM public.users WHERE id = v_witness;
+
+  IF TG_OP = 'DELETE' THEN
+    -- Deleting a controlled item writes its stock off, which needs a witness like any other
+    -- movement. Clinic deletions cascade through here and are let through.
+    IF OLD.is_controlled AND COALESCE(OLD.stock, 0) <> 0 AND v_witness IS NULL AND pg_trigger_depth() = 1 THEN
+      RAISE EXCEPTION '% is a controlled drug with stock on hand; adjust it to zero with a witness before deleting', OLD.name
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    INSERT INTO public.inventory_logs (
+      clinic_id, item_id, item_name, action, quantity_change, quantity_before, quantity_after,
+      notes, user_name, performed_by
+    ) VALUES (
+      OLD.clinic_id, OLD.id, OLD.name, 'Deleted', -COALESCE(OLD.stock, 0), COALESCE(OLD.stock, 0), 0,
+      'Item removed from inventory', v_user_name, auth.uid()
+    );
+    IF OLD.is_controlled THEN
+      INSERT INTO public.controlled_drug_register (
+        clinic_id, item_id, item_name, entry_type, quantity_change, balance, notes, recorded_by, recorded_by_name,
+        witnessed_by, witnessed_by_name
+      ) VALUES (
+        OLD.clinic_id, OLD.id, OLD.name, 'Adjusted', -COALESCE(OLD.stock, 0), 0,
+        'Item removed from inventory', auth.uid(), v_user_name, v_witness, v_witness_name
+      );
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  v_before := CASE WHEN TG_OP = 'INSERT' THEN 0 ELSE COALESCE(OLD.stock, 0) END;
+  v_after := COALESCE(NEW.stock, 0);
+  v_was_controlled := TG_OP = 'UPDATE' AND COALESCE(OLD.is_controlled, false);
+
+  -- Whatever the movement is labelled, a stock change on an item that is controlled before or after
+  -- the update needs a witness, and so does flagging or unflagging the item
+  IF v_witness IS NULL THEN
+    IF v_after <> v_before AND (NEW.is_controlled OR v_was_controlled) THEN
+      RAISE EXCEPTION '% is a controlled drug; this movement must be witnessed', NEW.name USING ERRCODE = 'P0001';
+    END IF;
+    IF TG_OP = 'UPDATE' AND NEW.is_controlled <> v_was_controlled THEN
+      RAISE EXCEPTION 'Changing whether % is a controlled drug must be witnessed', NEW.name USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR v_after <> v_before OR NEW.movement_action IS NOT NULL OR NEW.movement_note IS NOT NULL THEN
+    v_action := COALESCE(
+      NEW.movement_action,
+      CASE
+        WHEN TG_OP = 'INSERT' THEN 'Created'
+        WHEN v_after > v_before THEN 'Restocked'
+        WHEN v_after < v_before THEN 'Adjusted'
+        ELSE 'Updated'
+      END
+    );
+
+    INSERT INTO public.inventory_logs (
+      clinic_id, item_id, item_name, action, quantity_change, quantity_before, quantity_after,
+      notes, reference, user_name, performed_by
+    ) VALUES (
+      NEW.clinic_id, NEW.id, NEW.name, v_action, v_after - v_before, v_before, v_after,
+      NEW.movement_note, NEW.movement_reference, v_user_name, auth.uid()
+    );
+  END IF;
+
+  IF v_was_controlled AND NOT NEW.is_controlled THEN
+    -- Unflagged items close their register at the balance after this update
+    INSERT INTO public.controlled_drug_register (
+      clinic_id, item_id, item_name, entry_type, quantity_change, balance, notes, recorded_by, recorded_by_name,
+      witnessed_by, witnessed_by_name
+    ) VALUES (
+      NEW.clinic_id, NEW.id, NEW.name, 'Adjusted', v_after - v_before, v_after,
+      'Item no longer controlled', auth.uid(), v_user_name, v_witness, v_witness_name
+    );
+  END IF;
+
+  IF NEW.is_controlled THEN
+    -- Newly flagged items open their register at the current balance
+    IF TG_OP = 'UPDATE' AND NOT v_was_controlled THEN
+      INSERT INTO public.controlled_drug_register (
+        clinic_id, item_id, item_name, entry_type, quantity_change, balance, notes, recorded_by, recorded_by_name,
+        witnessed_by, witnessed_by_name
+      ) VALUES (
+        NEW.clinic_id, NEW.id, NEW.name, 'Opening Balance', v_before, v_before,
+        'Item flagged as controlled', auth.uid(), v_user_name, v_witness, v_witness_name
+      );
+    END IF;
+
+    IF TG_OP = 'INSERT' OR v_after <> v_before THEN
+      IF v_action = 'Dispensed' THEN
+        SELECT patient_name INTO v_patient FROM public.visits WHERE id::text = NEW.movement_reference;
+      END IF;
+
+      INSERT INTO public.controlled_drug_register (
+        clinic_id, item_id, item_name, entry_type, quantity_change, balance, reference, patient_name,
+        notes, recorded_by, recorded_by_name, witnessed_by, witnessed_by_name
+      ) VALUES (
+        NEW.clinic_id, NEW.id, NEW.name,
+        CASE v_action
+          WHEN 'Created' THEN 'Opening Balance'
+          WHEN 'Restocked' THEN 'Received'
+          WHEN 'Dispensed' THEN 'Dispensed'
+          ELSE 'Adjusted'
+        END,
+        v_after - v_before, v_after, NEW.movement_reference, v_patient,
+        NEW.movement_note, auth.uid(), v_user_name, v_witness, v_witness_name
+      );
+    END IF;
+  END IF;
+
+  NEW.movement_action := NULL;
+  NEW.movement_note := NULL;
+  NEW.movement_reference := NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Registers for drugs already held when this migration runs start empty; flagging an item opens one.
+
+-- 4. Witnessed entry points: verify the witness, then run the movement in the same transaction
+CREATE OR REPLACE FUNCTION public.dispense_prescription_witnessed(p_visit_id UUID, p_witness_id UUID, p_witness_pin TEXT)
+RETURNS SETOF public.inventory_logs
+LANGUAGE plpgsql AS $$
+BEGIN
+  PERFORM public.confirm_witness(p_witness_id, p_witness_pin);
+  RETURN QUERY SELECT * FROM public.dispense_prescription(p_visit_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.dispense_prescription_witnessed(UUID, UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.dispense_prescription_witnessed(UUID, UUID, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.receive_purchase_order_witnessed(p_order_id UUID, p_lines JSONB, p_witness_id UUID, p_witness_pin TEXT)
+RETURNS public.purchase_orders
+LANGUAGE plpgsql AS $$
+BEGIN
+  PERFORM public.confirm_witness(p_witness_id, p_witness_pin);
+  RETURN public.receive_purchase_order(p_order_id, p_lines);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.receive_purchase_order_witnessed(UUID, JSONB, UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.receive_purchase_order_witnessed(UUID, JSONB, UUID, TEXT) TO authenticated;
+
+-- Manual restock or lot edit of a controlled item, or a change to its controlled flag, from the Pharmacy
+-- screen. Item details are saved in the same statement, so the change and its register entry land
+-- together or not at all.
+DROP FUNCTION IF EXISTS public.update_inventory_lots_witnessed(UUID, JSONB, TEXT, UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.update_inventory_lots_witnessed(
+  p_item_id UUID, p_details JSONB, p_batches JSONB, p_note TEXT, p_witness_id UUID, p_witness_pin TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_next JSONB;
+BEGIN
+  PERFORM public.confirm_witness(p_witness_id, p_witness_pin);
+
+  SELECT lot INTO v_next
+  FROM jsonb_array_elements(COALESCE(p_batches, '[]'::jsonb)) AS lot
+  WHERE COALESCE((lot->>'quantity')::int, 0) > 0
+  ORDER BY NULLIF(lot->>'expiryDate', '')::timestamptz ASC NULLS LAST, (lot->>'receivedAt')::timestamptz ASC NULLS FIRST
+  LIMIT 1;
+
+  UPDATE public.inventory
+  SET name = COALESCE(p_details->>'name', name),
+      category = COALESCE(p_details->>'category', category),
+      min_stock_level = COALESCE((p_details->>'min_stock_level')::int, min_stock_level),
+      unit = COALESCE(p_details->>'unit', unit),
+      price = COALESCE((p_details->>'price')::numeric, price),
+      supplier_id = CASE WHEN p_details ? 'supplier_id' THEN NULLIF(p_details->>'supplier_id', '')::uuid ELSE supplier_id END,
+      is_controlled = COALESCE((p_details->>'is_controlled')::boolean, is_controlled),
+      batches = COALESCE(p_batches, '[]'::jsonb),
+      stock = (SELECT COALESCE(SUM((lot->>'quantity')::int), 0) FROM jsonb_array_elements(COALESCE(p_batches, '[]'::jsonb)) AS lot),
+      batch_number = v_next->>'batchNumber',
+      expiry_date = NULLIF(v_next->>'expiryDate', '')::date,
+      movement_note = p_note,
+      updated_at = NOW()
+  WHERE id = p_item_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inventory item % not found', p_item_id;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.update_inventory_lots_witnessed(UUID, JSONB, JSONB, TEXT, UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.update_inventory_lots_witnessed(UUID, JSONB, JSONB, TEXT, UUID, TEXT) TO authenticated;
+
+-- Stock-takes that adjust a controlled item
+CREATE OR REPLACE FUNCTION public.post_stock_take_witnessed(p_stock_take_id UUID, p_witness_id UUID, p_witness_pin TEXT)
+RETURNS public.stock_takes
+LANGUAGE plpgsql AS $$
+BEGIN
+  PERFORM public.confirm_witness(p_witness_id, p_witness_pin);
+  RETURN public.post_stock_take(p_stock_take_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.post_stock_take_witnessed(UUID, UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.post_stock_take_witnessed(UUID, UUID, TEXT) TO authenticated;
@@ -0,0 +1,199 @@
+-- Appointment slot engine
+-- Appointments now belong to a provider and last for their type's duration. Providers publish weekly
+-- working hours; get_available_slots() is the single availability API (used by the Appointments screen,
+-- the assistant's ADD_APPOINTMENT action and the WhatsApp edge function), and a trigger rejects
+-- bookings outside working hours or overlapping another booking for the same provider or patient.
+
+ALTER TABLE public.appointments ADD COLUMN IF NOT EXISTS provider_id UUID REFERENCES public.users(id) ON DELETE SET NULL;
+ALTER TABLE public.appointments ADD COLUMN IF NOT EXISTS provider_name TEXT;
+ALTER TABLE public.appointments ADD COLUMN IF NOT EXISTS appointment_type TEXT;
+ALTER TABLE public.appointments ADD COLUMN IF NOT EXISTS duration_minutes INTEGER NOT NULL DEFAULT 30;
+
+CREATE INDEX IF NOT EXISTS idx_appointments_provider_date ON public.appointments(provider_id, date);
+
+-- 1. Appointment types and their slot lengths
+CREATE TABLE IF NOT EXISTS public.appointment_types (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinic_id UUID NOT NULL DEFAULT public.get_user_clinic_id() REFERENCES public.clinics(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  duration_minutes INTEGER NOT NULL CHECK (duration_minutes BETWEEN 5 AND 480),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (clinic_id, name)
+);
+
+ALTER TABLE public.appointment_types ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Clinic users can view appointment types" ON public.appointment_types;
+CREATE POLICY "Clinic users can view appointment types" ON public.appointment_types
+  FOR SELECT USING (clinic_id = public.get_user_clinic_id() OR public.is_super_admin());
+
+DROP POLICY IF EXISTS "Clinic users can manage appointment types" ON public.appointment_types;
+CREATE POLICY "Clinic users can manage appointment types" ON public.appointment_types
+  FOR ALL USING (clinic_id = public.get_user_clinic_id())
+  WITH CHECK (clinic_id = public.get_user_clinic_id());
+
+-- 2. Weekly working hours per provider (weekday 0 = Sunday, as extract(dow))
+CREATE TABLE IF NOT EXISTS public.provider_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinic_id UUID NOT NULL DEFAULT public.get_user_clinic_id() REFERENCES public.clinics(id) ON DELETE CASCADE,
+  provider_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (end_time > start_time),
+  UNIQUE (provider_id, weekday, start_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_provider_schedules_clinic ON public.provider_schedules(clinic_id, weekday);
+
+ALTER TABLE public.provider_schedules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Clinic users can view provider schedules" ON public.provider_schedules;
+CREATE POLICY "Clinic users can view provider schedules" ON public.provider_schedules
+  FOR SELECT USING (clinic_id = public.get_user_clinic_id() OR public.is_super_admin());
+
+DROP POLICY IF EXISTS "Clinic users can manage provider schedules" ON public.provider_schedules;
+CREATE POLICY "Clinic users can manage provider schedules" ON public.provider_schedules
+  FOR ALL USING (clinic_id = public.get_user_clinic_id())
+  WITH CHECK (clinic_id = public.get_user_clinic_id());
+
+-- 3. Duration for a type name; unknown or missing types take the 30 minute default
+CREATE OR REPLACE FUNCTION public.appointment_type_duration(p_clinic_id UUID, p_type TEXT)
+RETURNS INTEGER
+LANGUAGE sql STABLE AS $$
+  SELECT COALESCE(
+    (SELECT duration_minutes FROM public.appointment_types WHERE clinic_id = p_clinic_id AND name = p_type),
+    30
+  );
+$$;
+
+-- 4. Availability: free start times on a date, every 15 minutes, per provider.
+-- Signed-in staff always see their own clinic; p_clinic_id is only honoured for service-role callers.
+CREATE OR REPLACE FUNCTION public.get_available_slots(
+  p_date DATE,
+  p_appointment_type TEXT DEFAULT NULL,
+  p_provider_id UUID DEFAULT NULL,
+  p_clinic_id UUID DEFAULT NULL
+)
+RETURNS TABLE (provider_id UUID, provider_name TEXT, slot_start TIME, slot_end TIME)
+LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_clinic UUID;
+  v_duration INTERVAL;
+  v_now TIMESTAMP;
+BEGIN
+  v_clinic := CASE WHEN auth.role() = 'service_role' THEN p_clinic_id ELSE public.get_user_clinic_id() END;
+  IF v_clinic IS NULL THEN
+    RAISE EXCEPTION 'Clinic context not found';
+  END IF;
+
+  v_duration := make_interval(mins => public.appointment_type_duration(v_clinic, p_appointment_type));
+  SELECT NOW() AT TIME ZONE COALESCE(c.timezone, 'Africa/Nairobi') INTO v_now FROM public.clinics c WHERE c.id = v_clinic;
+
+  RETURN QUERY
+  SELECT s.provider_id, u.full_name, slot::time, (slot + v_duration)::time
+  FROM public.provider_schedules s
+  JOIN public.users u ON u.id = s.provider_id
+  CROSS JOIN LATERAL generate_series(
+    p_date + s.start_time,
+    p_date + s.end_time - v_duration,
+    INTERVAL '15 minutes'
+  ) AS slot
+  WHERE s.clinic_id = v_clinic
+    AND s.weekday = extract(dow FROM p_date)
+    AND (p_provider_id IS NULL OR s.provider_id = p_provider_id)
+    AND slot > v_now
+    AND NOT EXISTS (
+      SELECT 1 FROM public.appointments a
+      WHERE a.provider_id = s.provider_id
+        AND a.date::date = p_date
+        AND a.status = 'Scheduled'
+        AND (p_date + a.time::time) < slot + v_duration
+        AND slot < (p_date + a.time::time) + make_interval(mins => a.duration_minutes)
+    )
+  ORDER BY slot, u.full_name;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_available_slots(DATE, TEXT, UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_available_slots(DATE, TEXT, UUID, UUID) TO authenticated, service_role;
+
+-- 5. Conflict checks on every booking and reschedule
+CREATE OR REPLACE FUNCTION public.check_appointment_slot()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_start TIMESTAMP;
+  v_end TIMESTAMP;
+  v_clinic UUID;
+  v_conflict RECORD;
+BEGIN
+  IF NEW.status IS DISTINCT FROM 'Scheduled' THEN
+    RETURN NEW;
+  END IF;
+
+  v_clinic := COALESCE(NEW.clinic_id, (SELECT clinic_id FROM public.users WHERE id = NEW.provider_id));
+  IF TG_OP = 'INSERT' AND NEW.appointment_type IS NOT NULL THEN
+    NEW.duration_minutes := public.appointment_type_duration(v_clinic, NEW.appointment_type);
+  END IF;
+
+  v_start := NEW.date::date + NEW.time::time;
+  v_end := v_start + make_interval(mins => NEW.duration_minutes);
+
+  IF NEW.provider_id IS NOT NULL THEN
+    -- Serialise bookings for the same provider and day
+    PERFORM pg_advisory_xact_lock(hashtext(NEW.provider_id::text || NEW.date::text));
+
+    SELECT full_name INTO NEW.provider_name FROM public.users WHERE id = NEW.provider_id;
+
+    -- Providers without published hours can be booked at any time
+    IF EXISTS (SELECT 1 FROM public.provider_schedules WHERE provider_id = NEW.provider_id)
+       AND NOT EXISTS (
+         SELECT 1 FROM public.provider_schedules s
+         WHERE s.provider_id = NEW.provider_id
+           AND s.weekday = extract(dow FROM NEW.date::date)
+           AND NEW.time::time >= s.start_time
+           AND (NEW.time::time + make_interval(mins => NEW.duration_minutes)) <= s.end_time
+       ) THEN
+      RAISE EXCEPTION '% is not working at % on %', COALESCE(NEW.provider_name, 'The provider'), to_char(NEW.time::time, 'HH24:MI'), NEW.date
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    SELECT a.time, a.patient_name INTO v_conflict
+    FROM public.appointments a
+    WHERE a.provider_id = NEW.provider_id
+      AND a.id IS DISTINCT FROM NEW.id
+      AND a.date::date = NEW.date::date
+      AND a.status = 'Scheduled'
+      AND (a.date::date + a.time::time) < v_end
+      AND v_start < (a.date::date + a.time::time) + make_interval(mins => a.duration_minutes)
+    LIMIT 1;
+    IF FOUND THEN
+      RAISE EXCEPTION '% is already booked at % (%)', COALESCE(NEW.provider_name, 'The provider'), to_char(v_conflict.time::time, 'HH24:MI'), v_conflict.patient_name
+        USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  SELECT a.time, a.provider_name INTO v_conflict
+  FROM public.appointments a
+  WHERE a.patient_id = NEW.patient_id
+    AND a.id IS DISTINCT FROM NEW.id
+    AND a.date::date = NEW.date::date
+    AND a.status = 'Scheduled'
+    AND (a.date::date + a.time::time) < v_end
+    AND v_start < (a.date::date + a.time::time) + make_interval(mins => a.duration_minutes)
+  LIMIT 1;
+  IF FOUND THEN
+    RAISE EXCEPTION '% already has an appointment at %', COALESCE(NEW.patient_name, 'The patient'), to_char(v_conflict.time::time, 'HH24:MI')
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS appointments_check_slot ON public.appointments;
+CREATE TRIGGER appointments_check_slot
+  BEFORE INSERT OR UPDATE OF date, time, provider_id, duration_minutes, status ON public.appointments
+  FOR EACH ROW EXECUTE FUNCTION public.check_appointment_slot();
@@ -0,0 +1,188 @@
+-- Recurring appointment series
+-- Chronic-care follow-ups (hypertension, diabetes, ANC) are booked as a series: every N weeks until a date
+-- or for a number of visits. Each occurrence is an ordinary appointment carrying series_id, so slot checks,
+-- reminders and the calendar treat it like any other booking. Occurrences can be edited or cancelled one
+-- at a time, or from one occurrence to the end of the series.
+
+CREATE TABLE IF NOT EXISTS public.appointment_series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinic_id UUID NOT NULL DEFAULT public.get_user_clinic_id() REFERENCES public.clinics(id) ON DELETE CASCADE,
+  patient_id UUID NOT NULL,
+  interval_weeks INTEGER NOT NULL CHECK (interval_weeks BETWEEN 1 AND 52),
+  start_date DATE NOT NULL,
+  end_date DATE,
+  occurrences INTEGER CHECK (occurrences BETWEEN 1 AND 52),
+  reason TEXT,
+  created_by UUID DEFAULT auth.uid() REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_appointment_series_patient ON public.appointment_series(clinic_id, patient_id);
+
+ALTER TABLE public.appointment_series ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Clinic users can view appointment series" ON public.appointment_series;
+CREATE POLICY "Clinic users can view appointment series" ON public.appointment_series
+  FOR SELECT USING (clinic_id = public.get_user_clinic_id() OR public.is_super_admin());
+
+DROP POLICY IF EXISTS "Clinic users can manage appointment series" ON public.appointment_series;
+CREATE POLICY "Clinic users can manage appointment series" ON public.appointment_series
+  FOR ALL USING (clinic_id = public.get_user_clinic_id())
+  WITH CHECK (clinic_id = public.get_user_clinic_id());
+
+ALTER TABLE public.appointments ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES public.appointment_series(id) ON DELETE SET NULL;
+ALTER TABLE public.appointments ADD COLUMN IF NOT EXISTS series_index INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_appointments_series ON public.appointments(series_id, date);
+
+-- 1. Create a series and all of its occurrences in one transaction.
+-- A clash on any date rolls back the whole series and names the date.
+CREATE OR REPLACE FUNCTION public.create_appointment_series(
+  p_patient_id UUID,
+  p_start_date DATE,
+  p_time TIME,
+  p_interval_weeks INTEGER,
+  p_until DATE DEFAULT NULL,
+  p_count INTEGER DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL,
+  p_provider_id UUID DEFAULT NULL,
+  p_appointment_type TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_clinic UUID := public.get_user_clinic_id();
+  v_series_id UUID;
+  v_patient_name TEXT;
+  v_date DATE := p_start_date;
+  v_index INTEGER := 1;
+BEGIN
+  IF v_clinic IS NULL THEN
+    RAISE EXCEPTION 'Clinic context not found';
+  END IF;
+  IF p_until IS NULL AND p_count IS NULL THEN
+    RAISE EXCEPTION 'A series needs an end date or a number of visits' USING ERRCODE = 'P0001';
+  END IF;
+  IF p_count IS NOT NULL AND (p_count < 1 OR p_count > 52) THEN
+    RAISE EXCEPTION 'A series has between 1 and 52 visits' USING ERRCODE = 'P0001';
+  END IF;
+  IF p_interval_weeks IS NULL OR p_interval_weeks < 1 OR p_interval_weeks > 52 THEN
+    RAISE EXCEPTION 'Visits must be 1 to 52 weeks apart' USING ERRCODE = 'P0001';
+  END IF;
+  IF p_until IS NOT NULL AND p_until < p_start_date THEN
+    RAISE EXCEPTION 'The series must end after its first visit' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT full_name INTO v_patient_name FROM public.patients WHERE id = p_patient_id;
+
+  INSERT INTO public.appointment_series (clinic_id, patient_id, interval_weeks, start_date, end_date, occurrences, reason)
+  VALUES (v_clinic, p_patient_id, p_interval_weeks, p_start_date, p_until, p_count, p_reason)
+  RETURNING id INTO v_series_id;
+
+  WHILE v_index <= LEAST(COALESCE(p_count, 52), 52) AND (p_until IS NULL OR v_date <= p_until) LOOP
+    BEGIN
+      INSERT INTO public.appointments (
+        clinic_id, patient_id, patient_name, date, time, reason, status,
+        provider_id, appointment_type, series_id, series_index
+      ) VALUES (
+        v_clinic, p_patient_id, v_patient_name, v_date, p_time, COALESCE(p_reason, 'Follow-up'), 'Scheduled',
+        p_provider_id, p_appointment_type, v_series_id, v_index
+      );
+    EXCEPTION WHEN SQLSTATE 'P0001' THEN
+      RAISE EXCEPTION 'Visit % on %: %', v_index, v_date, SQLERRM USING ERRCODE = 'P0001';
+    END;
+
+    v_index := v_index + 1;
+    v_date := v_date + (p_interval_weeks * 7);
+  END LOOP;
+
+  UPDATE public.appointment_series
+  SET occurrences = v_index - 1, end_date = v_date - (p_interval_weeks * 7)
+  WHERE id = v_series_id;
+
+  RETURN v_series_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_appointment_series(UUID, DATE, TIME, INTEGER, DATE, INTEGER, TEXT, UUID, TEXT) TO authenticated;
+
+-- 2. Change this and every later scheduled occurrence. p_day_shift moves them all by the same number of days.
+-- Occurrences are moved one at a time, furthest in the direction of the shift first, so the slot checks never
+-- see an occurrence that is about to move out of the way (e.g. a weekly series shifted by a week).
+CREATE OR REPLACE FUNCTION public.update_appointment_series(
+  p_appointment_id UUID,
+  p_time TIME,
+  p_reason TEXT,
+  p_provider_id UUID DEFAULT NULL,
+  p_appointment_type TEXT DEFAULT NULL,
+  p_day_shift INTEGER DEFAULT 0
+)
+RETURNS INTEGER
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_from public.appointments%ROWTYPE;
+  v_row public.appointments%ROWTYPE;
+  v_count INTEGER := 0;
+BEGIN
+  SELECT * INTO v_from FROM public.appointments WHERE id = p_appointment_id;
+  IF NOT FOUND OR v_from.series_id IS NULL THEN
+    RAISE EXCEPTION 'Appointment is not part of a series' USING ERRCODE = 'P0001';
+  END IF;
+
+  FOR v_row IN
+    SELECT * FROM public.appointments a
+    WHERE a.series_id = v_from.series_id
+      AND a.date::date >= v_from.date::date
+      AND a.status = 'Scheduled'
+    ORDER BY CASE WHEN COALESCE(p_day_shift, 0) > 0 THEN -extract(epoch FROM a.date::date + a.time::time) ELSE extract(epoch FROM a.date::date + a.time::time) END
+  LOOP
+    BEGIN
+      UPDATE public.appointments
+      SET date = v_row.date::date + COALESCE(p_day_shift, 0),
+          time = p_time,
+          reason = p_reason,
+          provider_id = p_provider_id,
+          appointment_type = p_appointment_type,
+          duration_minutes = public.appointment_type_duration(v_row.clinic_id, p_appointment_type)
+      WHERE id = v_row.id;
+    EXCEPTION WHEN SQLSTATE 'P0001' THEN
+      RAISE EXCEPTION 'Visit on %: %', v_row.date::date + COALESCE(p_day_shift, 0), SQLERRM USING ERRCODE = 'P0001';
+    END;
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.update_appointment_series(UUID, TIME, TEXT, UUID, TEXT, INTEGER) TO authenticated;
+
+-- 3. Cancel this and every later scheduled occurrence, and end the series the visit before
+CREATE OR REPLACE FUNCTION public.cancel_appointment_series(p_appointment_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_from public.appointments%ROWTYPE;
+  v_count INTEGER;
+BEGIN
+  SELECT * INTO v_from FROM public.appointments WHERE id = p_appointment_id;
+  IF NOT FOUND OR v_from.series_id IS NULL THEN
+    RAISE EXCEPTION 'Appointment is not part of a series' USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE public.appointments
+  SET status = 'Cancelled'
+  WHERE series_id = v_from.series_id
+    AND date::date >= v_from.date::date
+    AND status = 'Scheduled';
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  UPDATE public.appointment_series
+  SET end_date = v_from.date::date - 1
+  WHERE id = v_from.series_id;
+
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.cancel_appointment_series(UUID) TO authenticated;
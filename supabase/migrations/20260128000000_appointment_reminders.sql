@@ -0,0 +1,218 @@
+-- Automated appointment reminders
+-- Every scheduled appointment gets one reminder job per channel (SMS, and email when the patient has an
+-- address) at each of the clinic's offsets (settings.notifications.reminderOffsetsHours, default 24h and 2h).
+-- Jobs are rebuilt whenever the date, time or status changes. The send-reminders edge function claims due
+-- jobs, applies quiet hours and patient opt-out, sends, and records each message in outbound_messages.
+
+ALTER TABLE public.patients ADD COLUMN IF NOT EXISTS reminder_opt_out BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.outbound_messages ADD COLUMN IF NOT EXISTS channel TEXT NOT NULL DEFAULT 'sms';
+ALTER TABLE public.outbound_messages ADD COLUMN IF NOT EXISTS appointment_id UUID;
+
+CREATE TABLE IF NOT EXISTS public.reminder_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinic_id UUID NOT NULL REFERENCES public.clinics(id) ON DELETE CASCADE,
+  appointment_id UUID NOT NULL REFERENCES public.appointments(id) ON DELETE CASCADE,
+  channel TEXT NOT NULL CHECK (channel IN ('sms', 'email')),
+  offset_minutes INTEGER NOT NULL CHECK (offset_minutes > 0),
+  send_at TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'sent', 'skipped', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  outbound_message_id UUID REFERENCES public.outbound_messages(id) ON DELETE SET NULL,
+  processed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- A reminder already sent for the same start time is never recreated by a later rebuild
+  UNIQUE (appointment_id, channel, offset_minutes, send_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reminder_jobs_due ON public.reminder_jobs(send_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_reminder_jobs_appointment ON public.reminder_jobs(appointment_id);
+
+-- Jobs are written by the trigger and the edge function only; staff can see them
+ALTER TABLE public.reminder_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Clinic users can view reminder jobs" ON public.reminder_jobs;
+CREATE POLICY "Clinic users can view reminder jobs" ON public.reminder_jobs
+  FOR SELECT USING (clinic_id = public.get_user_clinic_id() OR public.is_super_admin());
+
+-- 1. Rebuild the pending jobs of one appointment
+CREATE OR REPLACE FUNCTION public.schedule_appointment_reminders(p_appointment_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_appt RECORD;
+  v_starts_at TIMESTAMPTZ;
+  v_offsets INTEGER[];
+  v_count INTEGER;
+BEGIN
+  -- Runs as the owner and so bypasses RLS: outside the appointment trigger (whose row change has already
+  -- been through RLS) only appointments of the caller's own clinic are rebuilt
+  IF pg_trigger_depth() = 0
+     AND COALESCE(auth.role(), '') <> 'service_role'
+     AND NOT public.is_super_admin()
+     AND NOT EXISTS (
+       SELECT 1 FROM public.appointments
+       WHERE id = p_appointment_id AND clinic_id = public.get_user_clinic_id()
+     ) THEN
+    RAISE EXCEPTION 'Appointment not found in your clinic' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM public.reminder_jobs WHERE appointment_id = p_appointment_id AND status = 'pending';
+
+  SELECT a.id, a.clinic_id, a.date::date AS appt_date, a.time::time AS appt_time, a.status,
+         p.phone_number, p.email,
+         COALESCE(c.timezone, 'Africa/Nairobi') AS timezone,
+         COALESCE(c.settings -> 'notifications', '{}'::jsonb) AS notifications
+  INTO v_appt
+  FROM public.appointments a
+  JOIN public.clinics c ON c.id = a.clinic_id
+  LEFT JOIN public.patients p ON p.id = a.patient_id
+  WHERE a.id = p_appointment_id;
+
+  IF NOT FOUND OR v_appt.status <> 'Scheduled' THEN
+    RETURN 0;
+  END IF;
+  IF COALESCE((v_appt.notifications ->> 'appointmentReminders')::boolean, true) = false THEN
+    RETURN 0;
+  END IF;
+
+  IF jsonb_typeof(v_appt.notifications -> 'reminderOffsetsHours') = 'array' THEN
+    SELECT array_agg(DISTINCT round(h::numeric * 60)::integer)
+    INTO v_offsets
+    FROM jsonb_array_elements_text(v_appt.notifications -> 'reminderOffsetsHours') AS h
+    WHERE h::numeric > 0;
+  ELSE
+    v_offsets := ARRAY[24 * 60, 2 * 60];
+  END IF;
+  IF v_offsets IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  v_starts_at := (v_appt.appt_date + v_appt.appt_time) AT TIME ZONE v_appt.timezone;
+
+  INSERT INTO public.reminder_jobs (clinic_id, appointment_id, channel, offset_minutes, send_at)
+  SELECT v_appt.clinic_id, v_appt.id, ch.channel, o.minutes, v_starts_at - make_interval(mins => o.minutes)
+  FROM unnest(v_offsets) AS o(minutes)
+  CROSS JOIN (VALUES ('sms'), ('email')) AS ch(channel)
+  WHERE v_starts_at - make_interval(mins => o.minutes) > NOW()
+    AND ((ch.channel = 'sms' AND COALESCE(v_appt.phone_number, '') <> '')
+      OR (ch.channel = 'email' AND COALESCE(v_appt.email, '') <> ''))
+  ON CONFLICT (appointment_id, channel, offset_minutes, send_at) DO NOTHING;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Called by the trigger and refresh_clinic_reminders below, never directly by clients
+REVOKE EXECUTE ON FUNCTION public.schedule_appointment_reminders(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.schedule_appointment_reminders(UUID) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.appointment_reminders_trigger()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  PERFORM public.schedule_appointment_reminders(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS appointments_schedule_reminders ON public.appointments;
+CREATE TRIGGER appointments_schedule_reminders
+  AFTER INSERT OR UPDATE OF date, time, status, patient_id ON public.appointments
+  FOR EACH ROW EXECUTE FUNCTION public.appointment_reminders_trigger();
+
+-- 2. Rebuild every upcoming appointment after the clinic changes its reminder settings
+CREATE OR REPLACE FUNCTION public.refresh_clinic_reminders()
+RETURNS INTEGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_clinic UUID := public.get_user_clinic_id();
+  v_appt_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  IF v_clinic IS NULL THEN
+    RAISE EXCEPTION 'Clinic context not found';
+  END IF;
+
+  FOR v_appt_id IN
+    SELECT id FROM public.appointments
+    WHERE clinic_id = v_clinic AND status = 'Scheduled' AND date::date >= CURRENT_DATE - 1
+  LOOP
+    v_count := v_count + public.schedule_appointment_reminders(v_appt_id);
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_clinic_reminders() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.refresh_clinic_reminders() TO authenticated;
+
+-- 3. Claim the jobs due at p_now for sending. p_now is a parameter so the job can run against a fake clock.
+-- Jobs left in 'processing' by a crashed run are picked up again after 15 minutes.
+CREATE OR REPLACE FUNCTION public.claim_due_reminder_jobs(p_now TIMESTAMPTZ DEFAULT NOW(), p_limit INTEGER DEFAULT 100)
+RETURNS TABLE (
+  job_id UUID,
+  channel TEXT,
+  offset_minutes INTEGER,
+  send_at TIMESTAMPTZ,
+  attempts INTEGER,
+  appointment_id UUID,
+  appointment_date DATE,
+  appointment_time TIME,
+  starts_at TIMESTAMPTZ,
+  provider_name TEXT,
+  patient_id UUID,
+  patient_name TEXT,
+  phone TEXT,
+  email TEXT,
+  opted_out BOOLEAN,
+  clinic_id UUID,
+  clinic_name TEXT,
+  timezone TEXT,
+  notifications JSONB
+)
+LANGUAGE sql SECURITY DEFINER SET search_path = public AS $$
+  WITH due AS (
+    SELECT j.id
+    FROM public.reminder_jobs j
+    WHERE (j.status = 'pending' AND j.send_at <= p_now)
+       OR (j.status = 'processing' AND j.processed_at < p_now - INTERVAL '15 minutes')
+    ORDER BY j.send_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  ), claimed AS (
+    UPDATE public.reminder_jobs j
+    SET status = 'processing', attempts = j.attempts + 1, processed_at = p_now
+    FROM due
+    WHERE j.id = due.id
+    RETURNING j.*
+  )
+  SELECT
+    j.id, j.channel, j.offset_minutes, j.send_at, j.attempts,
+    a.id, a.date::date, a.time::time,
+    (a.date::date + a.time::time) AT TIME ZONE COALESCE(c.timezone, 'Africa/Nairobi'),
+    a.provider_name,
+    p.id, COALESCE(p.full_name, a.patient_name), p.phone_number, p.email, COALESCE(p.reminder_opt_out, false),
+    c.id, c.name, COALESCE(c.timezone, 'Africa/Nairobi'), COALESCE(c.settings -> 'notifications', '{}'::jsonb)
+  FROM claimed j
+  JOIN public.appointments a ON a.id = j.appointment_id
+  JOIN public.clinics c ON c.id = j.clinic_id
+  LEFT JOIN public.patients p ON p.id = a.patient_id
+  ORDER BY j.send_at;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_due_reminder_jobs(TIMESTAMPTZ, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_due_reminder_jobs(TIMESTAMPTZ, INTEGER) TO service_role;
+
+-- 4. Run the sender every five minutes (requires the pg_cron and pg_net extensions; replace the
+-- project URL and service role key before enabling):
+-- SELECT cron.schedule('send-reminders', '*/5 * * * *', $$
+--   SELECT net.http_post(
+--     url := 'https://<project-ref>.supabase.co/functions/v1/send-reminders',
+--     headers := jsonb_build_object('Authorization', 'Bearer <service-role-key>', 'Content-Type', 'application/json'),
+--     body := '{}'::jsonb
+--   );
+-- $$);
@@ -0,0 +1,112 @@
+-- Two-way appointment confirmation
+-- Reminder SMS ask the patient to reply 1 (confirm), 2 (cancel) or 3 (reschedule). twilio-webhook parses
+-- those replies and calls apply_appointment_reply(), which finds the appointment the number was last
+-- sent a reminder about and records the answer. Free text still goes to the assistant.
+
+ALTER TABLE public.appointments ADD COLUMN IF NOT EXISTS patient_response TEXT
+  CHECK (patient_response IN ('Confirmed', 'Cancelled', 'Reschedule Requested'));
+ALTER TABLE public.appointments ADD COLUMN IF NOT EXISTS patient_response_at TIMESTAMPTZ;
+
+ALTER TABLE public.inbound_messages ADD COLUMN IF NOT EXISTS appointment_id UUID;
+
+-- 1. A confirmation is for a date and time; moving the appointment clears it
+CREATE OR REPLACE FUNCTION public.clear_appointment_response()
+RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+BEGIN
+  IF (NEW.date IS DISTINCT FROM OLD.date OR NEW.time IS DISTINCT FROM OLD.time)
+    AND NEW.patient_response IS NOT DISTINCT FROM OLD.patient_response THEN
+    NEW.patient_response := NULL;
+    NEW.patient_response_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS appointments_clear_response ON public.appointments;
+CREATE TRIGGER appointments_clear_response
+  BEFORE UPDATE OF date, time ON public.appointments
+  FOR EACH ROW EXECUTE FUNCTION public.clear_appointment_response();
+
+-- 2. Apply a parsed reply ('confirm', 'cancel' or 'reschedule') from a phone number.
+-- Numbers are matched on their last 9 digits so 0712..., 254712... and +254712... are the same patient.
+-- Only an upcoming appointment that this number was sent an SMS reminder for can be answered, so a
+-- reply can never reach another clinic's appointment or one the sender was not reminded about.
+CREATE OR REPLACE FUNCTION public.apply_appointment_reply(p_phone TEXT, p_intent TEXT, p_now TIMESTAMPTZ DEFAULT NOW())
+RETURNS TABLE (
+  outcome TEXT,
+  appointment_id UUID,
+  clinic_id UUID,
+  patient_id UUID,
+  patient_name TEXT,
+  clinic_name TEXT,
+  appointment_date DATE,
+  appointment_time TIME
+)
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_digits TEXT := right(regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g'), 9);
+  v_appt RECORD;
+BEGIN
+  IF p_intent NOT IN ('confirm', 'cancel', 'reschedule') THEN
+    RAISE EXCEPTION 'Unknown reply %', p_intent USING ERRCODE = 'P0001';
+  END IF;
+
+  outcome := 'not_found';
+  IF length(v_digits) < 9 THEN
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  -- The appointment this number was most recently reminded about
+  SELECT a.id, a.clinic_id, a.patient_id, p.full_name, c.name AS clinic_name, a.date::date AS appt_date, a.time::time AS appt_time
+  INTO v_appt
+  FROM public.reminder_jobs j
+  JOIN public.outbound_messages m ON m.id = j.outbound_message_id
+  JOIN public.appointments a ON a.id = j.appointment_id AND a.clinic_id = j.clinic_id
+  JOIN public.patients p ON p.id = a.patient_id
+  JOIN public.clinics c ON c.id = a.clinic_id
+  WHERE j.status = 'sent'
+    AND j.channel = 'sms'
+    AND right(regexp_replace(COALESCE(m.to_number, ''), '\D', '', 'g'), 9) = v_digits
+    AND a.status = 'Scheduled'
+    AND (a.date::date + a.time::time) AT TIME ZONE COALESCE(c.timezone, 'Africa/Nairobi') > p_now
+  ORDER BY m.sent_at DESC NULLS LAST, a.date::date, a.time::time
+  LIMIT 1
+  FOR UPDATE OF a;
+
+  IF NOT FOUND THEN
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  IF p_intent = 'cancel' THEN
+    UPDATE public.appointments
+    SET status = 'Cancelled', patient_response = 'Cancelled', patient_response_at = p_now
+    WHERE id = v_appt.id;
+    outcome := 'cancelled';
+  ELSIF p_intent = 'reschedule' THEN
+    UPDATE public.appointments
+    SET patient_response = 'Reschedule Requested', patient_response_at = p_now
+    WHERE id = v_appt.id;
+    outcome := 'reschedule_requested';
+  ELSE
+    UPDATE public.appointments
+    SET patient_response = 'Confirmed', patient_response_at = p_now
+    WHERE id = v_appt.id;
+    outcome := 'confirmed';
+  END IF;
+
+  appointment_id := v_appt.id;
+  clinic_id := v_appt.clinic_id;
+  patient_id := v_appt.patient_id;
+  patient_name := v_appt.full_name;
+  clinic_name := v_appt.clinic_name;
+  appointment_date := v_appt.appt_date;
+  appointment_time := v_appt.appt_time;
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_appointment_reply(TEXT, TEXT, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_appointment_reply(TEXT, TEXT, TIMESTAMPTZ) TO service_role;
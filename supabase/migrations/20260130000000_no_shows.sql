@@ -0,0 +1,244 @@
+-- No-show tracking and overbooking
+-- Appointments still 'Scheduled' after their day has ended in the clinic's timezone are marked 'No-Show'.
+-- Each patient's no-show rate (last 12 months, from at least 3 past appointments) is shown in the patient
+-- list and drives an optional overbooking allowance: with settings.overbooking enabled, a provider slot
+-- may take up to maxExtraPerSlot extra bookings when every patient already in it misses at least
+-- minNoShowRate of their appointments.
+
+CREATE INDEX IF NOT EXISTS idx_appointments_patient_status ON public.appointments(patient_id, status);
+
+-- 1. Mark unattended appointments from previous days. Idempotent; run hourly so every timezone is covered.
+CREATE OR REPLACE FUNCTION public.mark_no_shows(p_now TIMESTAMPTZ DEFAULT NOW())
+RETURNS INTEGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE public.appointments a
+  SET status = 'No-Show'
+  FROM public.clinics c
+  WHERE c.id = a.clinic_id
+    AND a.status = 'Scheduled'
+    AND a.date::date < (p_now AT TIME ZONE COALESCE(c.timezone, 'Africa/Nairobi'))::date;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.mark_no_shows(TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_no_shows(TIMESTAMPTZ) TO service_role;
+
+-- Requires pg_cron:
+-- SELECT cron.schedule('mark-no-shows', '15 * * * *', $$ SELECT public.mark_no_shows(); $$);
+
+-- 2. No-show rate for one patient of a clinic, NULL until there is enough history to judge.
+-- Internal to the slot functions below, which run as the owner; callers cannot reach it directly.
+DROP FUNCTION IF EXISTS public.patient_no_show_rate(UUID);
+CREATE OR REPLACE FUNCTION public.patient_no_show_rate(p_clinic_id UUID, p_patient_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT CASE WHEN count(*) >= 3
+    THEN round(count(*) FILTER (WHERE status = 'No-Show')::numeric / count(*), 2)
+  END
+  FROM public.appointments
+  WHERE clinic_id = p_clinic_id
+    AND patient_id = p_patient_id
+    AND status IN ('Completed', 'No-Show')
+    AND date::date >= CURRENT_DATE - 365;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.patient_no_show_rate(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- 3. Attendance for every patient of the caller's clinic, for the patient list
+CREATE OR REPLACE FUNCTION public.get_patient_attendance()
+RETURNS TABLE (patient_id UUID, attended INTEGER, no_shows INTEGER, no_show_rate NUMERIC)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT
+    a.patient_id,
+    (count(*) FILTER (WHERE a.status = 'Completed'))::integer,
+    (count(*) FILTER (WHERE a.status = 'No-Show'))::integer,
+    CASE WHEN count(*) >= 3
+      THEN round(count(*) FILTER (WHERE a.status = 'No-Show')::numeric / count(*), 2)
+    END
+  FROM public.appointments a
+  WHERE a.clinic_id = public.get_user_clinic_id()
+    AND a.patient_id IS NOT NULL
+    AND a.status IN ('Completed', 'No-Show')
+    AND a.date::date >= CURRENT_DATE - 365
+  GROUP BY a.patient_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_patient_attendance() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_patient_attendance() TO authenticated;
+
+-- 4. Can one more booking share [p_start, p_end) with the provider's existing bookings?
+CREATE OR REPLACE FUNCTION public.slot_can_overbook(
+  p_clinic_id UUID,
+  p_provider_id UUID,
+  p_start TIMESTAMP,
+  p_end TIMESTAMP,
+  p_exclude_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_policy JSONB;
+  v_min_rate NUMERIC;
+  v_overlapping INTEGER;
+  v_reliable INTEGER;
+BEGIN
+  SELECT settings -> 'overbooking' INTO v_policy FROM public.clinics WHERE id = p_clinic_id;
+  IF v_policy IS NULL OR COALESCE((v_policy ->> 'enabled')::boolean, false) = false THEN
+    RETURN false;
+  END IF;
+  v_min_rate := COALESCE((v_policy ->> 'minNoShowRate')::numeric, 0.3);
+
+  SELECT
+    count(*),
+    count(*) FILTER (WHERE COALESCE(public.patient_no_show_rate(p_clinic_id, a.patient_id), 0) < v_min_rate)
+  INTO v_overlapping, v_reliable
+  FROM public.appointments a
+  WHERE a.clinic_id = p_clinic_id
+    AND a.provider_id = p_provider_id
+    AND a.date::date = p_start::date
+    AND a.id IS DISTINCT FROM p_exclude_id
+    AND a.status = 'Scheduled'
+    AND (a.date::date + a.time::time) < p_end
+    AND p_start < (a.date::date + a.time::time) + make_interval(mins => a.duration_minutes);
+
+  RETURN v_overlapping <= COALESCE((v_policy ->> 'maxExtraPerSlot')::integer, 1) AND v_reliable = 0;
+END;
+$$;
+
+-- Internal to get_available_slots and the booking trigger
+REVOKE EXECUTE ON FUNCTION public.slot_can_overbook(UUID, UUID, TIMESTAMP, TIMESTAMP, UUID) FROM PUBLIC, anon, authenticated;
+
+-- 5. Availability now also offers slots that may be overbooked, flagged as such
+DROP FUNCTION IF EXISTS public.get_available_slots(DATE, TEXT, UUID, UUID);
+CREATE OR REPLACE FUNCTION public.get_available_slots(
+  p_date DATE,
+  p_appointment_type TEXT DEFAULT NULL,
+  p_provider_id UUID DEFAULT NULL,
+  p_clinic_id UUID DEFAULT NULL
+)
+RETURNS TABLE (provider_id UUID, provider_name TEXT, slot_start TIME, slot_end TIME, overbooked BOOLEAN)
+LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_clinic UUID;
+  v_duration INTERVAL;
+  v_now TIMESTAMP;
+BEGIN
+  v_clinic := CASE WHEN auth.role() = 'service_role' THEN p_clinic_id ELSE public.get_user_clinic_id() END;
+  IF v_clinic IS NULL THEN
+    RAISE EXCEPTION 'Clinic context not found';
+  END IF;
+
+  v_duration := make_interval(mins => public.appointment_type_duration(v_clinic, p_appointment_type));
+  SELECT NOW() AT TIME ZONE COALESCE(c.timezone, 'Africa/Nairobi') INTO v_now FROM public.clinics c WHERE c.id = v_clinic;
+
+  RETURN QUERY
+  SELECT f.provider_id, f.full_name, f.slot::time, (f.slot + v_duration)::time, f.booked
+  FROM (
+    SELECT s.provider_id, u.full_name, slot,
+      EXISTS (
+        SELECT 1 FROM public.appointments a
+        WHERE a.provider_id = s.provider_id
+          AND a.date::date = p_date
+          AND a.status = 'Scheduled'
+          AND (p_date + a.time::time) < slot + v_duration
+          AND slot < (p_date + a.time::time) + make_interval(mins => a.duration_minutes)
+      ) AS booked
+    FROM public.provider_schedules s
+    JOIN public.users u ON u.id = s.provider_id
+    CROSS JOIN LATERAL generate_series(
+      p_date + s.start_time,
+      p_date + s.end_time - v_duration,
+      INTERVAL '15 minutes'
+    ) AS slot
+    WHERE s.clinic_id = v_clinic
+      AND s.weekday = extract(dow FROM p_date)
+      AND (p_provider_id IS NULL OR s.provider_id = p_provider_id)
+      AND slot > v_now
+  ) f
+  WHERE NOT f.booked OR public.slot_can_overbook(v_clinic, f.provider_id, f.slot, f.slot + v_duration)
+  ORDER BY f.slot, f.full_name;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_available_slots(DATE, TEXT, UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_available_slots(DATE, TEXT, UUID, UUID) TO authenticated, service_role;
+
+-- 6. The booking trigger accepts a provider clash when the overbooking policy allows it
+CREATE OR REPLACE FUNCTION public.check_appointment_slot()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_start TIMESTAMP;
+  v_end TIMESTAMP;
+  v_clinic UUID;
+  v_conflict RECORD;
+BEGIN
+  IF NEW.status IS DISTINCT FROM 'Scheduled' THEN
+    RETURN NEW;
+  END IF;
+
+  v_clinic := COALESCE(NEW.clinic_id, (SELECT clinic_id FROM public.users WHERE id = NEW.provider_id));
+  IF TG_OP = 'INSERT' AND NEW.appointment_type IS NOT NULL THEN
+    NEW.duration_minutes := public.appointment_type_duration(v_clinic, NEW.appointment_type);
+  END IF;
+
+  v_start := NEW.date::date + NEW.time::time;
+  v_end := v_start + make_interval(mins => NEW.duration_minutes);
+
+  IF NEW.provider_id IS NOT NULL THEN
+    -- Serialise bookings for the same provider and day
+    PERFORM pg_advisory_xact_lock(hashtext(NEW.provider_id::text || NEW.date::text));
+
+    SELECT full_name INTO NEW.provider_name FROM public.users WHERE id = NEW.provider_id;
+
+    -- Providers without published hours can be booked at any time
+    IF EXISTS (SELECT 1 FROM public.provider_schedules WHERE provider_id = NEW.provider_id)
+       AND NOT EXISTS (
+         SELECT 1 FROM public.provider_schedules s
+         WHERE s.provider_id = NEW.provider_id
+           AND s.weekday = extract(dow FROM NEW.date::date)
+           AND NEW.time::time >= s.start_time
+           AND (NEW.time::time + make_interval(mins => NEW.duration_minutes)) <= s.end_time
+       ) THEN
+      RAISE EXCEPTION '% is not working at % on %', COALESCE(NEW.provider_name, 'The provider'), to_char(NEW.time::time, 'HH24:MI'), NEW.date
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    SELECT a.time, a.patient_name INTO v_conflict
+    FROM public.appointments a
+    WHERE a.provider_id = NEW.provider_id
+      AND a.id IS DISTINCT FROM NEW.id
+      AND a.date::date = NEW.date::date
+      AND a.status = 'Scheduled'
+      AND (a.date::date + a.time::time) < v_end
+      AND v_start < (a.date::date + a.time::time) + make_interval(mins => a.duration_minutes)
+    LIMIT 1;
+    IF FOUND AND NOT public.slot_can_overbook(v_clinic, NEW.provider_id, v_start, v_end, NEW.id) THEN
+      RAISE EXCEPTION '% is already booked at % (%)', COALESCE(NEW.provider_name, 'The provider'), to_char(v_conflict.time::time, 'HH24:MI'), v_conflict.patient_name
+        USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  SELECT a.time, a.provider_name INTO v_conflict
+  FROM public.appointments a
+  WHERE a.patient_id = NEW.patient_id
+    AND a.id IS DISTINCT FROM NEW.id
+    AND a.date::date = NEW.date::date
+    AND a.status = 'Scheduled'
+    AND (a.date::date + a.time::time) < v_end
+    AND v_start < (a.date::date + a.time::time) + make_interval(mins => a.duration_minutes)
+  LIMIT 1;
+  IF FOUND THEN
+    RAISE EXCEPTION '% already has an appointment at %', COALESCE(NEW.patient_name, 'The patient'), to_char(v_conflict.time::time, 'HH24:MI')
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
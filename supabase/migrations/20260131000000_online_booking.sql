@@ -0,0 +1,130 @@
+-- Online self-booking
+-- The public booking page (/book/:slug) talks only to the public-booking edge function, which runs with
+-- the service role. Phone numbers are verified with a one-time code; codes are stored hashed, expire
+-- after 10 minutes and allow 5 guesses. The same table rate-limits code requests per phone and per IP.
+-- Clinics opt in with settings.onlineBooking.enabled.
+
+CREATE TABLE IF NOT EXISTS public.booking_otps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinic_id UUID NOT NULL REFERENCES public.clinics(id) ON DELETE CASCADE,
+  phone TEXT NOT NULL,
+  code_hash TEXT NOT NULL,
+  ip_address TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMPTZ NOT NULL,
+  verified_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_otps_phone ON public.booking_otps(clinic_id, phone, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_booking_otps_ip ON public.booking_otps(ip_address, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_booking_otps_phone_any_clinic ON public.booking_otps(phone, created_at DESC);
+
+-- No policies: only the service role reads or writes codes
+ALTER TABLE public.booking_otps ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE public.appointments ADD COLUMN IF NOT EXISTS booking_source TEXT NOT NULL DEFAULT 'staff'
+  CHECK (booking_source IN ('staff', 'online', 'whatsapp'));
+
+-- Books a verified online request in one transaction: checks the code against the latest live OTP, re-checks
+-- the slot, finds or creates the patient, inserts the appointment and only then uses up the code.
+-- The OTP row is locked, so parallel guesses are counted one after another and can never exceed
+-- p_max_attempts. A wrong code or a slot that has gone returns without raising, so the attempt count is kept
+-- and the code can still be used for another time. Returns 'booked', 'wrong', 'expired' or 'taken'.
+CREATE OR REPLACE FUNCTION public.book_online_appointment(
+  p_clinic_id UUID,
+  p_phone TEXT,
+  p_code_hash TEXT,
+  p_max_attempts INTEGER,
+  p_name TEXT,
+  p_date DATE,
+  p_time TIME,
+  p_provider_id UUID,
+  p_appointment_type TEXT,
+  p_reason TEXT
+)
+RETURNS TABLE (outcome TEXT, appointment_id UUID, patient_name TEXT, provider_name TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_otp public.booking_otps%ROWTYPE;
+  v_digits TEXT := right(regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g'), 9);
+  v_patient public.patients%ROWTYPE;
+  v_attempt INTEGER := 0;
+BEGIN
+  SELECT * INTO v_otp FROM public.booking_otps
+  WHERE clinic_id = p_clinic_id AND phone = p_phone AND verified_at IS NULL AND expires_at > NOW()
+  ORDER BY created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_otp.attempts >= p_max_attempts THEN
+    outcome := 'expired';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  IF v_otp.code_hash <> p_code_hash THEN
+    UPDATE public.booking_otps SET attempts = attempts + 1 WHERE id = v_otp.id;
+    outcome := 'wrong';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  -- The slot may have gone while the patient was entering the code. Take the booking trigger's lock for
+  -- the provider and day first, so nothing can be booked between this check and the insert.
+  PERFORM pg_advisory_xact_lock(hashtext(p_provider_id::text || p_date::text));
+  IF NOT EXISTS (
+    SELECT 1 FROM public.get_available_slots(p_date, p_appointment_type, p_provider_id, p_clinic_id) s
+    WHERE s.slot_start = p_time AND NOT s.overbooked
+  ) THEN
+    outcome := 'taken';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  -- Patients are matched on the last 9 digits of their phone number within the clinic
+  SELECT * INTO v_patient FROM public.patients
+  WHERE clinic_id = p_clinic_id
+    AND right(regexp_replace(COALESCE(phone_number, ''), '\D', '', 'g'), 9) = v_digits
+  ORDER BY created_at
+  LIMIT 1;
+
+  -- New patients get the same random MRN format as staff-created ones; a clash with an existing MRN is retried
+  WHILE v_patient.id IS NULL LOOP
+    v_attempt := v_attempt + 1;
+    BEGIN
+      INSERT INTO public.patients (clinic_id, full_name, phone_number, mrn)
+      VALUES (p_clinic_id, p_name, p_phone, 'MRN-' || lpad(floor(random() * 10000)::int::text, 4, '0'))
+      RETURNING * INTO v_patient;
+    EXCEPTION WHEN unique_violation THEN
+      IF v_attempt >= 10 THEN
+        RAISE;
+      END IF;
+    END;
+  END LOOP;
+
+  INSERT INTO public.appointments (
+    clinic_id, patient_id, patient_name, date, time, reason, provider_id, appointment_type, status, booking_source
+  ) VALUES (
+    p_clinic_id, v_patient.id, v_patient.full_name, p_date, p_time, p_reason, p_provider_id,
+    p_appointment_type, 'Scheduled', 'online'
+  )
+  RETURNING id, appointments.provider_name INTO appointment_id, provider_name;
+
+  UPDATE public.booking_otps SET verified_at = NOW() WHERE id = v_otp.id;
+
+  outcome := 'booked';
+  patient_name := v_patient.full_name;
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.book_online_appointment(UUID, TEXT, TEXT, INTEGER, TEXT, DATE, TIME, UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.book_online_appointment(UUID, TEXT, TEXT, INTEGER, TEXT, DATE, TIME, UUID, TEXT, TEXT) TO service_role;
+
+-- Old codes are only needed for rate limiting; keep a day of them
+-- Requires pg_cron:
+-- SELECT cron.schedule('purge-booking-otps', '0 3 * * *', $$ DELETE FROM public.booking_otps WHERE created_at < NOW() - INTERVAL '1 day'; $$);
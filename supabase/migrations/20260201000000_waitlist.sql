@@ -0,0 +1,352 @@
+-- Waitlist with automatic slot offers
+-- Patients wait for a date range, optionally for one provider and appointment type. When a scheduled
+-- appointment is cancelled (from the app, the assistant or an SMS reply) the freed slot is offered to the
+-- longest-waiting matching patient. The waitlist-offers edge function texts the offer with a 4-digit code;
+-- replying with the code within settings.waitlist.offerMinutes (default 30) books the slot. Unanswered or
+-- undeliverable offers pass the slot on to the next patient.
+
+CREATE TABLE IF NOT EXISTS public.waitlist_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinic_id UUID NOT NULL DEFAULT public.get_user_clinic_id() REFERENCES public.clinics(id) ON DELETE CASCADE,
+  patient_id UUID NOT NULL REFERENCES public.patients(id) ON DELETE CASCADE,
+  provider_id UUID REFERENCES public.users(id) ON DELETE SET NULL, -- NULL waits for any provider
+  appointment_type TEXT, -- NULL takes any freed slot
+  earliest_date DATE NOT NULL,
+  latest_date DATE NOT NULL,
+  notes TEXT,
+  status TEXT NOT NULL DEFAULT 'Waiting' CHECK (status IN ('Waiting', 'Offered', 'Booked', 'Removed', 'Expired')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (latest_date >= earliest_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_open ON public.waitlist_entries(clinic_id, created_at) WHERE status = 'Waiting';
+
+CREATE TABLE IF NOT EXISTS public.waitlist_offers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinic_id UUID NOT NULL REFERENCES public.clinics(id) ON DELETE CASCADE,
+  entry_id UUID NOT NULL REFERENCES public.waitlist_entries(id) ON DELETE CASCADE,
+  patient_id UUID NOT NULL REFERENCES public.patients(id) ON DELETE CASCADE,
+  source_appointment_id UUID REFERENCES public.appointments(id) ON DELETE SET NULL,
+  provider_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  appointment_type TEXT,
+  date DATE NOT NULL,
+  time TIME NOT NULL,
+  reply_code TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'accepted', 'expired', 'failed', 'withdrawn')),
+  appointment_id UUID REFERENCES public.appointments(id) ON DELETE SET NULL,
+  sent_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  responded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_offers_entry ON public.waitlist_offers(entry_id);
+CREATE INDEX IF NOT EXISTS idx_waitlist_offers_open ON public.waitlist_offers(status, expires_at) WHERE status IN ('pending', 'sent');
+-- A reply code identifies one open offer; closed offers free their code for reuse
+CREATE UNIQUE INDEX IF NOT EXISTS idx_waitlist_offers_open_code ON public.waitlist_offers(reply_code) WHERE status IN ('pending', 'sent');
+
+ALTER TABLE public.waitlist_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Clinic users can view waitlist" ON public.waitlist_entries;
+CREATE POLICY "Clinic users can view waitlist" ON public.waitlist_entries
+  FOR SELECT USING (clinic_id = public.get_user_clinic_id() OR public.is_super_admin());
+
+DROP POLICY IF EXISTS "Clinic users can manage waitlist" ON public.waitlist_entries;
+CREATE POLICY "Clinic users can manage waitlist" ON public.waitlist_entries
+  FOR ALL USING (clinic_id = public.get_user_clinic_id())
+  WITH CHECK (clinic_id = public.get_user_clinic_id());
+
+-- Offers are written by the trigger and the edge function only; staff can see them
+ALTER TABLE public.waitlist_offers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Clinic users can view waitlist offers" ON public.waitlist_offers;
+CREATE POLICY "Clinic users can view waitlist offers" ON public.waitlist_offers
+  FOR SELECT USING (clinic_id = public.get_user_clinic_id() OR public.is_super_admin());
+
+ALTER TABLE public.appointments DROP CONSTRAINT IF EXISTS appointments_booking_source_check;
+ALTER TABLE public.appointments ADD CONSTRAINT appointments_booking_source_check
+  CHECK (booking_source IN ('staff', 'online', 'whatsapp', 'waitlist'));
+
+-- 1. Queue an offer of a freed slot for the longest-waiting matching patient. Returns the offer id, or
+--    NULL when the slot has passed, is taken again or nobody matches.
+CREATE OR REPLACE FUNCTION public.offer_slot_to_waitlist(
+  p_clinic_id UUID,
+  p_provider_id UUID,
+  p_date DATE,
+  p_time TIME,
+  p_appointment_type TEXT,
+  p_source_appointment_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_start TIMESTAMP;
+  v_end TIMESTAMP;
+  v_entry RECORD;
+  v_offer_id UUID;
+  v_attempt INTEGER := 0;
+BEGIN
+  -- Runs as the owner and so bypasses RLS: staff can only release slots of their own clinic
+  IF COALESCE(auth.role(), '') <> 'service_role'
+     AND NOT public.is_super_admin()
+     AND p_clinic_id IS DISTINCT FROM public.get_user_clinic_id() THEN
+    RETURN NULL;
+  END IF;
+
+  v_start := p_date + p_time;
+  v_end := v_start + make_interval(mins => public.appointment_type_duration(p_clinic_id, p_appointment_type));
+
+  IF v_start <= (SELECT NOW() AT TIME ZONE COALESCE(timezone, 'Africa/Nairobi') FROM public.clinics WHERE id = p_clinic_id) THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_provider_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.appointments a
+    WHERE a.provider_id = p_provider_id
+      AND a.date::date = p_date
+      AND a.status = 'Scheduled'
+      AND (a.date::date + a.time::time) < v_end
+      AND v_start < (a.date::date + a.time::time) + make_interval(mins => a.duration_minutes)
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT e.* INTO v_entry
+  FROM public.waitlist_entries e
+  WHERE e.clinic_id = p_clinic_id
+    AND e.status = 'Waiting'
+    AND p_date BETWEEN e.earliest_date AND e.latest_date
+    AND (e.provider_id IS NULL OR e.provider_id = p_provider_id)
+    AND (e.appointment_type IS NULL OR e.appointment_type = p_appointment_type)
+    -- Each patient hears about a given slot once
+    AND NOT EXISTS (
+      SELECT 1 FROM public.waitlist_offers o
+      WHERE o.entry_id = e.id AND o.date = p_date AND o.time = p_time
+        AND o.provider_id IS NOT DISTINCT FROM p_provider_id
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.appointments a
+      WHERE a.patient_id = e.patient_id
+        AND a.date::date = p_date
+        AND a.status = 'Scheduled'
+        AND (a.date::date + a.time::time) < v_end
+        AND v_start < (a.date::date + a.time::time) + make_interval(mins => a.duration_minutes)
+    )
+  ORDER BY e.created_at
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- Draw another code if this one belongs to an open offer
+  WHILE v_offer_id IS NULL LOOP
+    v_attempt := v_attempt + 1;
+    BEGIN
+      INSERT INTO public.waitlist_offers (
+        clinic_id, entry_id, patient_id, source_appointment_id, provider_id, appointment_type, date, time, reply_code
+      ) VALUES (
+        p_clinic_id, v_entry.id, v_entry.patient_id, p_source_appointment_id, p_provider_id,
+        COALESCE(p_appointment_type, v_entry.appointment_type), p_date, p_time,
+        lpad(floor(random() * 10000)::integer::text, 4, '0')
+      )
+      RETURNING id INTO v_offer_id;
+    EXCEPTION WHEN unique_violation THEN
+      IF v_attempt >= 10 THEN
+        RAISE;
+      END IF;
+    END;
+  END LOOP;
+
+  UPDATE public.waitlist_entries SET status = 'Offered' WHERE id = v_entry.id;
+  RETURN v_offer_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.offer_slot_to_waitlist(UUID, UUID, DATE, TIME, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.offer_slot_to_waitlist(UUID, UUID, DATE, TIME, TEXT, UUID) TO service_role;
+
+-- 2. Cancelling a scheduled appointment frees its slot for the waitlist
+CREATE OR REPLACE FUNCTION public.release_cancelled_slot()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  PERFORM public.offer_slot_to_waitlist(NEW.clinic_id, NEW.provider_id, NEW.date::date, NEW.time::time, NEW.appointment_type, NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS release_cancelled_slot ON public.appointments;
+CREATE TRIGGER release_cancelled_slot
+  AFTER UPDATE OF status ON public.appointments
+  FOR EACH ROW
+  WHEN (OLD.status = 'Scheduled' AND NEW.status = 'Cancelled')
+  EXECUTE FUNCTION public.release_cancelled_slot();
+
+-- 3. Close an open offer and pass its slot to the next patient. The patient goes back to waiting.
+CREATE OR REPLACE FUNCTION public.close_waitlist_offer(p_offer_id UUID, p_status TEXT)
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_offer public.waitlist_offers%ROWTYPE;
+BEGIN
+  UPDATE public.waitlist_offers SET status = p_status
+  WHERE id = p_offer_id AND status IN ('pending', 'sent')
+  RETURNING * INTO v_offer;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.waitlist_entries SET status = 'Waiting' WHERE id = v_offer.entry_id AND status = 'Offered';
+
+  RETURN public.offer_slot_to_waitlist(
+    v_offer.clinic_id, v_offer.provider_id, v_offer.date, v_offer.time, v_offer.appointment_type, v_offer.source_appointment_id
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.close_waitlist_offer(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.close_waitlist_offer(UUID, TEXT) TO service_role;
+
+-- 4. Expire unanswered offers (passing their slots on) and entries whose range has passed
+CREATE OR REPLACE FUNCTION public.expire_waitlist_offers(p_now TIMESTAMPTZ DEFAULT NOW())
+RETURNS INTEGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_offer_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_offer_id IN
+    SELECT id FROM public.waitlist_offers WHERE status = 'sent' AND expires_at <= p_now ORDER BY expires_at
+  LOOP
+    PERFORM public.close_waitlist_offer(v_offer_id, 'expired');
+    v_count := v_count + 1;
+  END LOOP;
+
+  UPDATE public.waitlist_entries e
+  SET status = 'Expired'
+  FROM public.clinics c
+  WHERE c.id = e.clinic_id
+    AND e.status = 'Waiting'
+    AND e.latest_date < (p_now AT TIME ZONE COALESCE(c.timezone, 'Africa/Nairobi'))::date;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_waitlist_offers(TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.expire_waitlist_offers(TIMESTAMPTZ) TO service_role;
+
+-- 5. Claim queued offers for sending; the reply window starts now
+CREATE OR REPLACE FUNCTION public.claim_waitlist_offers(p_now TIMESTAMPTZ DEFAULT NOW(), p_limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+  offer_id UUID,
+  reply_code TEXT,
+  expires_at TIMESTAMPTZ,
+  offer_date DATE,
+  offer_time TIME,
+  provider_name TEXT,
+  patient_id UUID,
+  patient_name TEXT,
+  phone TEXT,
+  clinic_id UUID,
+  clinic_name TEXT
+)
+LANGUAGE sql SECURITY DEFINER SET search_path = public AS $$
+  WITH claimed AS (
+    UPDATE public.waitlist_offers o
+    SET status = 'sent',
+        sent_at = p_now,
+        expires_at = p_now + make_interval(mins => COALESCE((c.settings -> 'waitlist' ->> 'offerMinutes')::integer, 30))
+    FROM public.clinics c
+    WHERE c.id = o.clinic_id
+      AND o.id IN (
+        SELECT id FROM public.waitlist_offers
+        WHERE status = 'pending'
+        ORDER BY created_at
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+      )
+    RETURNING o.*, c.name AS clinic_name
+  )
+  SELECT cl.id, cl.reply_code, cl.expires_at, cl.date, cl.time, u.full_name, p.id, p.full_name, p.phone_number, cl.clinic_id, cl.clinic_name
+  FROM claimed cl
+  JOIN public.patients p ON p.id = cl.patient_id
+  LEFT JOIN public.users u ON u.id = cl.provider_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_waitlist_offers(TIMESTAMPTZ, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_waitlist_offers(TIMESTAMPTZ, INTEGER) TO service_role;
+
+-- 6. A patient replied with an offer code: book the slot if it is still theirs and still free
+CREATE OR REPLACE FUNCTION public.accept_waitlist_offer(p_phone TEXT, p_code TEXT, p_now TIMESTAMPTZ DEFAULT NOW())
+RETURNS TABLE (
+  outcome TEXT,
+  appointment_id UUID,
+  clinic_id UUID,
+  patient_id UUID,
+  patient_name TEXT,
+  clinic_name TEXT,
+  appointment_date DATE,
+  appointment_time TIME
+)
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_offer RECORD;
+  v_appointment_id UUID;
+BEGIN
+  SELECT o.*, p.full_name, c.name AS clinic_name INTO v_offer
+  FROM public.waitlist_offers o
+  JOIN public.patients p ON p.id = o.patient_id
+  JOIN public.clinics c ON c.id = o.clinic_id
+  WHERE o.reply_code = p_code
+    AND o.status = 'sent'
+    AND right(regexp_replace(p.phone_number, '\D', '', 'g'), 9) = right(regexp_replace(p_phone, '\D', '', 'g'), 9)
+  ORDER BY o.sent_at DESC
+  LIMIT 1
+  FOR UPDATE OF o;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'not_found'::text, NULL::uuid, NULL::uuid, NULL::uuid, NULL::text, NULL::text, NULL::date, NULL::time;
+    RETURN;
+  END IF;
+
+  IF v_offer.expires_at <= p_now THEN
+    RETURN QUERY SELECT 'expired'::text, NULL::uuid, v_offer.clinic_id, v_offer.patient_id, v_offer.full_name, v_offer.clinic_name, v_offer.date, v_offer.time;
+    RETURN;
+  END IF;
+
+  BEGIN
+    INSERT INTO public.appointments (
+      clinic_id, patient_id, patient_name, date, time, reason, provider_id, appointment_type, status, booking_source
+    ) VALUES (
+      v_offer.clinic_id, v_offer.patient_id, v_offer.full_name, v_offer.date, v_offer.time,
+      COALESCE(v_offer.appointment_type, 'Waitlist booking'), v_offer.provider_id, v_offer.appointment_type, 'Scheduled', 'waitlist'
+    )
+    RETURNING id INTO v_appointment_id;
+  EXCEPTION WHEN SQLSTATE 'P0001' THEN
+    -- Booked by someone else since the offer went out
+    PERFORM public.close_waitlist_offer(v_offer.id, 'withdrawn');
+    RETURN QUERY SELECT 'taken'::text, NULL::uuid, v_offer.clinic_id, v_offer.patient_id, v_offer.full_name, v_offer.clinic_name, v_offer.date, v_offer.time;
+    RETURN;
+  END;
+
+  UPDATE public.waitlist_offers SET status = 'accepted', appointment_id = v_appointment_id, responded_at = p_now WHERE id = v_offer.id;
+  UPDATE public.waitlist_entries SET status = 'Booked' WHERE id = v_offer.entry_id;
+
+  RETURN QUERY SELECT 'booked'::text, v_appointment_id, v_offer.clinic_id, v_offer.patient_id, v_offer.full_name, v_offer.clinic_name, v_offer.date, v_offer.time;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.accept_waitlist_offer(TEXT, TEXT, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.accept_waitlist_offer(TEXT, TEXT, TIMESTAMPTZ) TO service_role;
+
+-- Requires pg_cron and pg_net; replace the URL and key for your project:
+-- SELECT cron.schedule('waitlist-offers', '* * * * *', $$
+--   SELECT net.http_post(
+--     url := 'https://<project-ref>.supabase.co/functions/v1/waitlist-offers',
+--     headers := jsonb_build_object('Content-Type', 'application/json', 'Authorization', 'Bearer <service-role-key>'),
+--     body := '{}'::jsonb
+--   );
+-- $$);
@@ -0,0 +1,135 @@
+-- Appointment check-in
+-- A visit started from an appointment keeps its appointment_id. Check-in stamps the appointment's
+-- checked_in_at, and completing the visit completes the appointment. Visits without an appointment are
+-- walk-ins. get_appointment_flow_report compares the two and measures how punctual booked patients are.
+
+ALTER TABLE public.visits ADD COLUMN IF NOT EXISTS appointment_id UUID REFERENCES public.appointments(id) ON DELETE SET NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_visits_appointment ON public.visits(appointment_id) WHERE appointment_id IS NOT NULL;
+
+ALTER TABLE public.appointments ADD COLUMN IF NOT EXISTS checked_in_at TIMESTAMPTZ;
+
+-- 1. Check-in and completion flow back to the appointment
+CREATE OR REPLACE FUNCTION public.sync_appointment_from_visit()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF NEW.appointment_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Runs as the owner and so bypasses RLS on appointments: only act for the caller's own clinic, and only
+  -- on an appointment that belongs to the same clinic as the visit
+  IF COALESCE(auth.role(), '') <> 'service_role'
+     AND NOT public.is_super_admin()
+     AND NEW.clinic_id IS DISTINCT FROM public.get_user_clinic_id() THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.appointments
+    SET checked_in_at = COALESCE(NEW.start_time, NOW())
+    WHERE id = NEW.appointment_id AND clinic_id = NEW.clinic_id AND checked_in_at IS NULL;
+  END IF;
+
+  -- A patient marked No-Show overnight may still have turned up
+  IF NEW.stage = 'Completed' THEN
+    UPDATE public.appointments
+    SET status = 'Completed'
+    WHERE id = NEW.appointment_id AND clinic_id = NEW.clinic_id AND status IN ('Scheduled', 'No-Show');
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_appointment_from_visit ON public.visits;
+CREATE TRIGGER sync_appointment_from_visit
+  AFTER INSERT OR UPDATE OF stage ON public.visits
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_appointment_from_visit();
+
+-- 2. Patients who checked in are never marked No-Show, even if their visit runs past midnight
+CREATE OR REPLACE FUNCTION public.mark_no_shows(p_now TIMESTAMPTZ DEFAULT NOW())
+RETURNS INTEGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE public.appointments a
+  SET status = 'No-Show'
+  FROM public.clinics c
+  WHERE c.id = a.clinic_id
+    AND a.status = 'Scheduled'
+    AND a.checked_in_at IS NULL
+    AND a.date::date < (p_now AT TIME ZONE COALESCE(c.timezone, 'Africa/Nairobi'))::date;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  RETURN v_count;
+END;
+$$;
+
+-- 3. Daily scheduled vs walk-in visits and arrival punctuality for the caller's clinic.
+--    Arrivals up to p_grace_minutes after the booked time count as on time.
+CREATE OR REPLACE FUNCTION public.get_appointment_flow_report(p_from DATE, p_to DATE, p_grace_minutes INTEGER DEFAULT 10)
+RETURNS TABLE (
+  day DATE,
+  scheduled_visits INTEGER,
+  walk_in_visits INTEGER,
+  on_time INTEGER,
+  late INTEGER,
+  average_minutes_late NUMERIC,
+  booked INTEGER,
+  no_shows INTEGER
+)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  WITH clinic AS (
+    SELECT id, COALESCE(timezone, 'Africa/Nairobi') AS tz FROM public.clinics WHERE id = public.get_user_clinic_id()
+  ),
+  arrivals AS (
+    SELECT
+      (v.start_time AT TIME ZONE c.tz)::date AS day,
+      v.appointment_id,
+      CASE WHEN a.id IS NOT NULL
+        THEN extract(epoch FROM (v.start_time AT TIME ZONE c.tz) - (a.date::date + a.time::time)) / 60
+      END AS minutes_late
+    FROM public.visits v
+    JOIN clinic c ON c.id = v.clinic_id
+    LEFT JOIN public.appointments a ON a.id = v.appointment_id
+    WHERE (v.start_time AT TIME ZONE c.tz)::date BETWEEN p_from AND p_to
+  ),
+  visit_days AS (
+    SELECT
+      day,
+      (count(*) FILTER (WHERE appointment_id IS NOT NULL))::integer AS scheduled_visits,
+      (count(*) FILTER (WHERE appointment_id IS NULL))::integer AS walk_in_visits,
+      (count(*) FILTER (WHERE minutes_late <= p_grace_minutes))::integer AS on_time,
+      (count(*) FILTER (WHERE minutes_late > p_grace_minutes))::integer AS late,
+      round(avg(minutes_late) FILTER (WHERE minutes_late > p_grace_minutes), 1) AS average_minutes_late
+    FROM arrivals
+    GROUP BY day
+  ),
+  booking_days AS (
+    SELECT
+      a.date::date AS day,
+      (count(*) FILTER (WHERE a.status <> 'Cancelled'))::integer AS booked,
+      (count(*) FILTER (WHERE a.status = 'No-Show'))::integer AS no_shows
+    FROM public.appointments a
+    JOIN clinic c ON c.id = a.clinic_id
+    WHERE a.date::date BETWEEN p_from AND p_to
+    GROUP BY a.date::date
+  )
+  SELECT
+    COALESCE(v.day, b.day),
+    COALESCE(v.scheduled_visits, 0),
+    COALESCE(v.walk_in_visits, 0),
+    COALESCE(v.on_time, 0),
+    COALESCE(v.late, 0),
+    v.average_minutes_late,
+    COALESCE(b.booked, 0),
+    COALESCE(b.no_shows, 0)
+  FROM visit_days v
+  FULL JOIN booking_days b ON b.day = v.day
+  ORDER BY 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_appointment_flow_report(DATE, DATE, INTEGER) TO authenticated;
@@ -0,0 +1,160 @@
+-- Structured clinical notes
+-- Consultations are written as SOAP notes (subjective, objective, assessment, plan), optionally started
+-- from a clinic template. Signing a note locks the visit's clinical fields; anything learnt afterwards is
+-- recorded as a dated addendum by its author instead of overwriting what was signed.
+
+ALTER TABLE public.visits ADD COLUMN IF NOT EXISTS soap_note JSONB;
+ALTER TABLE public.visits ADD COLUMN IF NOT EXISTS note_signed_at TIMESTAMPTZ;
+ALTER TABLE public.visits ADD COLUMN IF NOT EXISTS note_signed_by UUID REFERENCES public.users(id) ON DELETE SET NULL;
+ALTER TABLE public.visits ADD COLUMN IF NOT EXISTS note_signed_by_name TEXT;
+
+-- 1. Reusable note templates per clinic (e.g. ANC visit, URTI, hypertension review)
+CREATE TABLE IF NOT EXISTS public.note_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinic_id UUID NOT NULL DEFAULT public.get_user_clinic_id() REFERENCES public.clinics(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  subjective TEXT NOT NULL DEFAULT '',
+  objective TEXT NOT NULL DEFAULT '',
+  assessment TEXT NOT NULL DEFAULT '',
+  plan TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (clinic_id, name)
+);
+
+ALTER TABLE public.note_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Clinic users can view note templates" ON public.note_templates;
+CREATE POLICY "Clinic users can view note templates" ON public.note_templates
+  FOR SELECT USING (clinic_id = public.get_user_clinic_id() OR public.is_super_admin());
+
+DROP POLICY IF EXISTS "Clinic users can manage note templates" ON public.note_templates;
+CREATE POLICY "Clinic users can manage note templates" ON public.note_templates
+  FOR ALL USING (clinic_id = public.get_user_clinic_id())
+  WITH CHECK (clinic_id = public.get_user_clinic_id());
+
+-- 2. Addenda to signed notes. Append-only: there are no update or delete policies.
+CREATE TABLE IF NOT EXISTS public.visit_note_addenda (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinic_id UUID NOT NULL DEFAULT public.get_user_clinic_id() REFERENCES public.clinics(id) ON DELETE CASCADE,
+  visit_id UUID NOT NULL REFERENCES public.visits(id) ON DELETE CASCADE,
+  section TEXT CHECK (section IN ('subjective', 'objective', 'assessment', 'plan')),
+  body TEXT NOT NULL CHECK (length(btrim(body)) > 0),
+  author_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  author_name TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_visit_note_addenda_visit ON public.visit_note_addenda(visit_id, created_at);
+
+ALTER TABLE public.visit_note_addenda ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Clinic users can view note addenda" ON public.visit_note_addenda;
+CREATE POLICY "Clinic users can view note addenda" ON public.visit_note_addenda
+  FOR SELECT USING (clinic_id = public.get_user_clinic_id() OR public.is_super_admin());
+
+DROP POLICY IF EXISTS "Clinic users can add note addenda" ON public.visit_note_addenda;
+CREATE POLICY "Clinic users can add note addenda" ON public.visit_note_addenda
+  FOR INSERT WITH CHECK (clinic_id = public.get_user_clinic_id());
+
+-- Addenda belong to signed notes of the caller's own clinic and are always attributed to the caller
+CREATE OR REPLACE FUNCTION public.stamp_note_addendum()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_visit public.visits;
+BEGIN
+  -- Runs as the owner and so bypasses RLS on visits: only the caller's clinic's visits are found
+  SELECT * INTO v_visit FROM public.visits
+  WHERE id = NEW.visit_id AND clinic_id = public.get_user_clinic_id();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Visit % not found', NEW.visit_id;
+  END IF;
+  IF v_visit.note_signed_at IS NULL THEN
+    RAISE EXCEPTION 'Only signed notes take addenda; edit the note instead' USING ERRCODE = 'P0001';
+  END IF;
+
+  NEW.clinic_id := v_visit.clinic_id;
+  NEW.author_id := auth.uid();
+  SELECT full_name INTO NEW.author_name FROM public.users WHERE id = auth.uid();
+  NEW.created_at := NOW();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS stamp_note_addendum ON public.visit_note_addenda;
+CREATE TRIGGER stamp_note_addendum
+  BEFORE INSERT ON public.visit_note_addenda
+  FOR EACH ROW
+  EXECUTE FUNCTION public.stamp_note_addendum();
+
+-- 3. Signing stamps the caller; once signed, the clinical fields and the signature are read-only.
+-- Only the roles that may complete a visit in the app (doctors and admins) can sign.
+CREATE OR REPLACE FUNCTION public.guard_signed_visit_note()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF OLD.note_signed_at IS NULL THEN
+    IF NEW.note_signed_at IS NOT NULL THEN
+      IF NOT EXISTS (
+        SELECT 1 FROM public.users u
+        WHERE u.id = auth.uid()
+          AND lower(replace(u.role, ' ', '_')) IN ('admin', 'doctor', 'superadmin', 'super_admin')
+      ) THEN
+        RAISE EXCEPTION 'Only doctors and admins can sign clinical notes' USING ERRCODE = '42501';
+      END IF;
+
+      NEW.note_signed_at := NOW();
+      NEW.note_signed_by := auth.uid();
+      SELECT full_name INTO NEW.note_signed_by_name FROM public.users WHERE id = auth.uid();
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.soap_note IS DISTINCT FROM OLD.soap_note
+    OR NEW.chief_complaint IS DISTINCT FROM OLD.chief_complaint
+    OR NEW.diagnosis IS DISTINCT FROM OLD.diagnosis
+    OR NEW.doctor_notes IS DISTINCT FROM OLD.doctor_notes
+    OR NEW.note_signed_at IS DISTINCT FROM OLD.note_signed_at
+    OR NEW.note_signed_by IS DISTINCT FROM OLD.note_signed_by
+    OR NEW.note_signed_by_name IS DISTINCT FROM OLD.note_signed_by_name THEN
+    RAISE EXCEPTION 'This note is signed and cannot be edited; add an addendum instead' USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_signed_visit_note ON public.visits;
+CREATE TRIGGER guard_signed_visit_note
+  BEFORE UPDATE ON public.visits
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_signed_visit_note();
+
+-- 4. Sign the caller's clinic's visit note and return the signature (the guard trigger checks the role)
+CREATE OR REPLACE FUNCTION public.sign_visit_note(p_visit_id UUID)
+RETURNS TABLE (note_signed_at TIMESTAMPTZ, note_signed_by UUID, note_signed_by_name TEXT)
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_visit public.visits;
+BEGIN
+  SELECT * INTO v_visit FROM public.visits
+  WHERE id = p_visit_id AND clinic_id = public.get_user_clinic_id()
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Visit % not found', p_visit_id;
+  END IF;
+  IF v_visit.note_signed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This note was already signed by %', COALESCE(v_visit.note_signed_by_name, 'another user') USING ERRCODE = 'P0001';
+  END IF;
+
+  -- The guard trigger replaces these with the caller and the current time
+  RETURN QUERY
+  UPDATE public.visits v
+  SET note_signed_at = NOW(), note_signed_by = auth.uid()
+  WHERE v.id = p_visit_id
+  RETURNING v.note_signed_at, v.note_signed_by, v.note_signed_by_name;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.sign_visit_note(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.sign_visit_note(UUID) TO authenticated;
@@ -0,0 +1,50 @@
+-- Coded diagnoses
+-- Each visit carries a list of ICD-10 or ICD-11 coded diagnoses alongside the free-text impression:
+--   [{"code": "B50.9", "system": "ICD-10", "title": "...", "primary": true}, ...]
+-- ICD-11 entries also carry their ICD-10 equivalent ("icd10") for MOH 705 reporting.
+-- The code sets are bundled with the app (lib/icdCodes.ts) so that coding works offline.
+
+ALTER TABLE public.visits ADD COLUMN IF NOT EXISTS coded_diagnoses JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE OR REPLACE FUNCTION public.count_primary_diagnoses(p_diagnoses JSONB)
+RETURNS INTEGER
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT count(*)::integer
+  FROM jsonb_array_elements(CASE WHEN jsonb_typeof(p_diagnoses) = 'array' THEN p_diagnoses ELSE '[]'::jsonb END) d
+  WHERE COALESCE((d->>'primary')::boolean, false);
+$$;
+
+ALTER TABLE public.visits DROP CONSTRAINT IF EXISTS visits_coded_diagnoses_check;
+ALTER TABLE public.visits ADD CONSTRAINT visits_coded_diagnoses_check
+  CHECK (jsonb_typeof(coded_diagnoses) = 'array' AND public.count_primary_diagnoses(coded_diagnoses) <= 1);
+
+CREATE INDEX IF NOT EXISTS idx_visits_coded_diagnoses ON public.visits USING GIN (coded_diagnoses jsonb_path_ops);
+
+-- Coded diagnoses are part of the signed note
+CREATE OR REPLACE FUNCTION public.guard_signed_visit_note()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF OLD.note_signed_at IS NULL THEN
+    IF NEW.note_signed_at IS NOT NULL THEN
+      NEW.note_signed_at := NOW();
+      NEW.note_signed_by := auth.uid();
+      SELECT full_name INTO NEW.note_signed_by_name FROM public.users WHERE id = auth.uid();
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.soap_note IS DISTINCT FROM OLD.soap_note
+    OR NEW.chief_complaint IS DISTINCT FROM OLD.chief_complaint
+    OR NEW.diagnosis IS DISTINCT FROM OLD.diagnosis
+    OR NEW.coded_diagnoses IS DISTINCT FROM OLD.coded_diagnoses
+    OR NEW.doctor_notes IS DISTINCT FROM OLD.doctor_notes
+    OR NEW.note_signed_at IS DISTINCT FROM OLD.note_signed_at
+    OR NEW.note_signed_by IS DISTINCT FROM OLD.note_signed_by
+    OR NEW.note_signed_by_name IS DISTINCT FROM OLD.note_signed_by_name THEN
+    RAISE EXCEPTION 'This note is signed and cannot be edited; add an addendum instead' USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,97 @@
+-- DHIS2 (KHIS) submissions
+-- Monthly MOH 705 aggregates are pushed to the clinic's DHIS2 server as a dataValueSets payload by the
+-- dhis2-push Edge Function. Connection details and data element mappings live in clinics.settings.dhis2;
+-- the password is kept apart in dhis2_credentials, which only the service role can read.
+-- Every push, including dry runs and failures, is logged here with the server's import summary.
+-- Rows are written by the Edge Function with the service role; clinic users can only read them.
+
+CREATE TABLE IF NOT EXISTS public.dhis2_submissions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinic_id UUID NOT NULL REFERENCES public.clinics(id) ON DELETE CASCADE,
+  form TEXT NOT NULL CHECK (form IN ('705A', '705B')),
+  period TEXT NOT NULL CHECK (period ~ '^[0-9]{6}$'),
+  org_unit TEXT NOT NULL,
+  data_set TEXT NOT NULL,
+  dry_run BOOLEAN NOT NULL DEFAULT false,
+  status TEXT NOT NULL CHECK (status IN ('Success', 'Warning', 'Error')),
+  value_count INTEGER NOT NULL DEFAULT 0,
+  imported INTEGER NOT NULL DEFAULT 0,
+  updated INTEGER NOT NULL DEFAULT 0,
+  ignored INTEGER NOT NULL DEFAULT 0,
+  conflicts JSONB NOT NULL DEFAULT '[]'::jsonb,
+  message TEXT,
+  payload JSONB NOT NULL,
+  response JSONB,
+  submitted_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  submitted_by_name TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dhis2_submissions_clinic ON public.dhis2_submissions(clinic_id, created_at DESC);
+
+ALTER TABLE public.dhis2_submissions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Clinic users can view DHIS2 submissions" ON public.dhis2_submissions;
+CREATE POLICY "Clinic users can view DHIS2 submissions" ON public.dhis2_submissions
+  FOR SELECT USING (clinic_id = public.get_user_clinic_id() OR public.is_super_admin());
+
+-- DHIS2 passwords. Every clinic user can read clinics.settings, so the password lives here instead:
+-- no policies, so only the dhis2-push function (service role) reads it. Admins set it through
+-- set_dhis2_password and can only ask whether one is stored.
+CREATE TABLE IF NOT EXISTS public.dhis2_credentials (
+  clinic_id UUID PRIMARY KEY REFERENCES public.clinics(id) ON DELETE CASCADE,
+  password TEXT NOT NULL,
+  updated_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.dhis2_credentials ENABLE ROW LEVEL SECURITY;
+
+-- Move any password saved in settings before this table existed
+INSERT INTO public.dhis2_credentials (clinic_id, password)
+SELECT id, settings->'dhis2'->>'password'
+FROM public.clinics
+WHERE COALESCE(settings->'dhis2'->>'password', '') <> ''
+ON CONFLICT (clinic_id) DO NOTHING;
+
+UPDATE public.clinics
+SET settings = settings #- '{dhis2,password}'
+WHERE settings->'dhis2' ? 'password';
+
+-- Stores (or, with an empty password, removes) the caller's clinic DHIS2 password. Clinic admins only.
+CREATE OR REPLACE FUNCTION public.set_dhis2_password(p_password TEXT)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_clinic UUID := public.get_user_clinic_id();
+BEGIN
+  IF v_clinic IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.users u
+    WHERE u.id = auth.uid() AND lower(replace(u.role, ' ', '_')) IN ('admin', 'superadmin', 'super_admin')
+  ) THEN
+    RAISE EXCEPTION 'Only clinic admins can change the DHIS2 password' USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(p_password, '') = '' THEN
+    DELETE FROM public.dhis2_credentials WHERE clinic_id = v_clinic;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.dhis2_credentials (clinic_id, password, updated_by, updated_at)
+  VALUES (v_clinic, p_password, auth.uid(), NOW())
+  ON CONFLICT (clinic_id) DO UPDATE
+  SET password = EXCLUDED.password, updated_by = EXCLUDED.updated_by, updated_at = EXCLUDED.updated_at;
+END;
+$$;
+
+-- Whether the caller's clinic has a DHIS2 password stored, so the settings page can show it as set
+CREATE OR REPLACE FUNCTION public.has_dhis2_password()
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT EXISTS (SELECT 1 FROM public.dhis2_credentials WHERE clinic_id = public.get_user_clinic_id());
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_dhis2_password(TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.has_dhis2_password() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_dhis2_password(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.has_dhis2_password() TO authenticated;
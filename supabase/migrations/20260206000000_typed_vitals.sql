@@ -0,0 +1,59 @@
+-- Typed vitals
+-- visits.vitals used to hold free-text strings: {"bp": "120/80", "temp": "36.5", "weight": "70", "heartRate": "72"}.
+-- It now holds numbers in fixed units, whatever unit the nurse entered them in:
+--   {"systolic": 120, "diastolic": 80, "heartRate": 72, "respiratoryRate": 16, "temperature": 36.5,
+--    "spo2": 98, "weight": 70, "height": 172, "muac": 24.5, "headCircumference": 45, "recordedAt": "..."}
+-- mmHg, beats/min, breaths/min, °C, %, kg and cm. BMI is derived from weight and height.
+
+-- 1. Reject readings outside what a body can produce; these are typing mistakes
+CREATE OR REPLACE FUNCTION public.vitals_are_plausible(p_vitals JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT jsonb_typeof(p_vitals) = 'object' AND NOT EXISTS (
+    SELECT 1
+    FROM (VALUES
+      ('systolic', 40, 300), ('diastolic', 20, 200), ('heartRate', 20, 300), ('respiratoryRate', 4, 100),
+      ('temperature', 25, 45), ('spo2', 30, 100), ('weight', 0.3, 400), ('height', 20, 250),
+      ('muac', 5, 50), ('headCircumference', 20, 70)
+    ) AS r(field, low, high)
+    WHERE p_vitals ? r.field
+      AND (jsonb_typeof(p_vitals->r.field) <> 'number' OR (p_vitals->>r.field)::numeric NOT BETWEEN r.low AND r.high)
+  );
+$$;
+
+-- 2. Convert existing readings: the old free-text keys, and any typed key still holding a string or an
+--    impossible number. Values that do not parse or are out of range are dropped rather than guessed.
+CREATE OR REPLACE FUNCTION pg_temp.to_vital(p_value TEXT, p_low NUMERIC, p_high NUMERIC)
+RETURNS NUMERIC
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT CASE
+    WHEN btrim(p_value) ~ '^[0-9]+(\.[0-9]+)?$' AND btrim(p_value)::numeric BETWEEN p_low AND p_high THEN btrim(p_value)::numeric
+  END;
+$$;
+
+UPDATE public.visits
+SET vitals = jsonb_strip_nulls(jsonb_build_object(
+  'systolic', COALESCE(pg_temp.to_vital(vitals->>'systolic', 40, 300), pg_temp.to_vital(split_part(vitals->>'bp', '/', 1), 40, 300)),
+  'diastolic', COALESCE(pg_temp.to_vital(vitals->>'diastolic', 20, 200), pg_temp.to_vital(split_part(vitals->>'bp', '/', 2), 20, 200)),
+  'heartRate', pg_temp.to_vital(vitals->>'heartRate', 20, 300),
+  'respiratoryRate', pg_temp.to_vital(vitals->>'respiratoryRate', 4, 100),
+  'temperature', COALESCE(pg_temp.to_vital(vitals->>'temperature', 25, 45), pg_temp.to_vital(vitals->>'temp', 25, 45)),
+  'spo2', pg_temp.to_vital(vitals->>'spo2', 30, 100),
+  'weight', pg_temp.to_vital(vitals->>'weight', 0.3, 400),
+  'height', pg_temp.to_vital(vitals->>'height', 20, 250),
+  'muac', pg_temp.to_vital(vitals->>'muac', 5, 50),
+  'headCircumference', pg_temp.to_vital(vitals->>'headCircumference', 20, 70),
+  'recordedAt', vitals->'recordedAt'
+))
+WHERE jsonb_typeof(vitals) = 'object' AND (vitals ?| ARRAY['bp', 'temp'] OR NOT public.vitals_are_plausible(vitals));
+
+UPDATE public.visits SET vitals = '{}'::jsonb WHERE vitals IS NULL OR jsonb_typeof(vitals) <> 'object';
+
+-- 3. The check applies to new writes straight away; old rows are validated once the conversion above has run
+ALTER TABLE public.visits ALTER COLUMN vitals SET DEFAULT '{}'::jsonb;
+ALTER TABLE public.visits DROP CONSTRAINT IF EXISTS visits_vitals_check;
+ALTER TABLE public.visits ADD CONSTRAINT visits_vitals_check CHECK (vitals IS NULL OR public.vitals_are_plausible(vitals)) NOT VALID;
+ALTER TABLE public.visits VALIDATE CONSTRAINT visits_vitals_check;
+
+-- 4. Trend charts read a patient's visits in date order
+CREATE INDEX IF NOT EXISTS idx_visits_patient_start_time ON public.visits(patient_id, start_time);
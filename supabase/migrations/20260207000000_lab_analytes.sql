@@ -0,0 +1,37 @@
+-- Structured lab results
+-- Tests in the catalogue list their analytes with units and reference ranges by sex and age:
+--   [{"code": "HGB", "name": "Haemoglobin", "unit": "g/dL", "type": "numeric",
+--     "ranges": [{"sex": "female", "low": 12.0, "high": 15.5, "criticalLow": 7.0, "criticalHigh": 20.0}]}]
+-- Results are kept on the visit's lab_orders as before, now with a flagged value per analyte and, for
+-- critical values, when the ordering doctor was alerted and when they acknowledged it.
+
+-- 1. Lab test catalogue per clinic
+CREATE TABLE IF NOT EXISTS public.lab_test_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinic_id UUID DEFAULT public.get_user_clinic_id() REFERENCES public.clinics(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  price NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  category TEXT NOT NULL DEFAULT 'Hematology',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.lab_test_profiles ADD COLUMN IF NOT EXISTS clinic_id UUID DEFAULT public.get_user_clinic_id() REFERENCES public.clinics(id) ON DELETE CASCADE;
+ALTER TABLE public.lab_test_profiles ADD COLUMN IF NOT EXISTS code TEXT;
+ALTER TABLE public.lab_test_profiles ADD COLUMN IF NOT EXISTS analytes JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.lab_test_profiles DROP CONSTRAINT IF EXISTS lab_test_profiles_analytes_check;
+ALTER TABLE public.lab_test_profiles ADD CONSTRAINT lab_test_profiles_analytes_check CHECK (jsonb_typeof(analytes) = 'array');
+
+CREATE INDEX IF NOT EXISTS idx_lab_test_profiles_clinic ON public.lab_test_profiles(clinic_id, name);
+
+-- 2. Tests without a clinic are a shared catalogue every clinic can order from
+ALTER TABLE public.lab_test_profiles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Clinic users can view lab tests" ON public.lab_test_profiles;
+CREATE POLICY "Clinic users can view lab tests" ON public.lab_test_profiles
+  FOR SELECT USING (clinic_id IS NULL OR clinic_id = public.get_user_clinic_id() OR public.is_super_admin());
+
+DROP POLICY IF EXISTS "Clinic users can manage lab tests" ON public.lab_test_profiles;
+CREATE POLICY "Clinic users can manage lab tests" ON public.lab_test_profiles
+  FOR ALL USING (clinic_id = public.get_user_clinic_id())
+  WITH CHECK (clinic_id = public.get_user_clinic_id());
@@ -0,0 +1,94 @@
+-- Lab specimens
+-- Each lab order on a visit now carries the specimen taken for it:
+--   "specimen": {"accessionNumber": "LAB-261019-0007", "specimenType": "EDTA whole blood", "status": "received",
+--                "collectedAt": "...", "receivedAt": "...", "history": [{"status": "collected", "at": "...", "byName": "..."}]}
+-- Status runs collected → received → in-process → verified, or rejected with a reason, after which the
+-- order is recollected under a new accession number.
+
+-- 1. Specimen type printed on labels and the turnaround target per test
+ALTER TABLE public.lab_test_profiles ADD COLUMN IF NOT EXISTS specimen_type TEXT;
+ALTER TABLE public.lab_test_profiles ADD COLUMN IF NOT EXISTS turnaround_minutes INTEGER;
+
+ALTER TABLE public.lab_test_profiles DROP CONSTRAINT IF EXISTS lab_test_profiles_turnaround_check;
+ALTER TABLE public.lab_test_profiles ADD CONSTRAINT lab_test_profiles_turnaround_check CHECK (turnaround_minutes IS NULL OR turnaround_minutes > 0);
+
+-- 2. Find the visit for a scanned label: lab_orders @> '[{"specimen": {"accessionNumber": "LAB-261019-0007"}}]'
+CREATE INDEX IF NOT EXISTS idx_visits_lab_orders ON public.visits USING GIN (lab_orders jsonb_path_ops);
+
+-- 3. Accession numbers are issued here rather than worked out in the browser, so two workstations
+--    collecting at the same moment can never print the same label. Every issued number is registered,
+--    and the unique index guarantees none is used twice within a clinic.
+CREATE TABLE IF NOT EXISTS public.lab_accession_counters (
+  clinic_id UUID NOT NULL REFERENCES public.clinics(id) ON DELETE CASCADE,
+  day DATE NOT NULL,
+  last_number INTEGER NOT NULL,
+  PRIMARY KEY (clinic_id, day)
+);
+
+CREATE TABLE IF NOT EXISTS public.lab_accessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinic_id UUID NOT NULL REFERENCES public.clinics(id) ON DELETE CASCADE,
+  accession_number TEXT NOT NULL,
+  visit_id UUID REFERENCES public.visits(id) ON DELETE SET NULL,
+  order_id TEXT,
+  issued_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  issued_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_lab_accessions_number ON public.lab_accessions(clinic_id, accession_number);
+
+-- Written only by issue_lab_accession_number
+ALTER TABLE public.lab_accession_counters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.lab_accessions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Clinic users can view lab accessions" ON public.lab_accessions;
+CREATE POLICY "Clinic users can view lab accessions" ON public.lab_accessions
+  FOR SELECT USING (clinic_id = public.get_user_clinic_id() OR public.is_super_admin());
+
+-- Register numbers handed out before this, and carry each day's counter on from the highest of them
+INSERT INTO public.lab_accessions (clinic_id, accession_number, visit_id, order_id, issued_at)
+SELECT v.clinic_id, o->'specimen'->>'accessionNumber', v.id, o->>'id', COALESCE((o->'specimen'->>'collectedAt')::timestamptz, NOW())
+FROM public.visits v
+CROSS JOIN LATERAL jsonb_array_elements(CASE WHEN jsonb_typeof(v.lab_orders) = 'array' THEN v.lab_orders ELSE '[]'::jsonb END) AS o
+WHERE v.clinic_id IS NOT NULL AND o->'specimen'->>'accessionNumber' ~ '^LAB-[0-9]{6}-[0-9]{4,}$'
+ON CONFLICT (clinic_id, accession_number) DO NOTHING;
+
+INSERT INTO public.lab_accession_counters (clinic_id, day, last_number)
+SELECT clinic_id, to_date(substr(accession_number, 5, 6), 'YYMMDD'), max(substr(accession_number, 12)::integer)
+FROM public.lab_accessions
+GROUP BY clinic_id, to_date(substr(accession_number, 5, 6), 'YYMMDD')
+ON CONFLICT (clinic_id, day) DO UPDATE SET last_number = GREATEST(lab_accession_counters.last_number, EXCLUDED.last_number);
+
+-- Issues the next number for the caller's clinic and day (in the clinic's timezone), e.g. "LAB-261019-0007"
+CREATE OR REPLACE FUNCTION public.issue_lab_accession_number(p_visit_id UUID, p_order_id TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_clinic UUID := public.get_user_clinic_id();
+  v_day DATE;
+  v_number INTEGER;
+  v_accession TEXT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.visits WHERE id = p_visit_id AND clinic_id = v_clinic) THEN
+    RAISE EXCEPTION 'Visit not found' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT (NOW() AT TIME ZONE COALESCE(timezone, 'Africa/Nairobi'))::date INTO v_day
+  FROM public.clinics WHERE id = v_clinic;
+
+  INSERT INTO public.lab_accession_counters (clinic_id, day, last_number)
+  VALUES (v_clinic, v_day, 1)
+  ON CONFLICT (clinic_id, day) DO UPDATE SET last_number = lab_accession_counters.last_number + 1
+  RETURNING last_number INTO v_number;
+
+  v_accession := 'LAB-' || to_char(v_day, 'YYMMDD') || '-' || lpad(v_number::text, GREATEST(4, length(v_number::text)), '0');
+
+  INSERT INTO public.lab_accessions (clinic_id, accession_number, visit_id, order_id, issued_by)
+  VALUES (v_clinic, v_accession, p_visit_id, p_order_id, auth.uid());
+
+  RETURN v_accession;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.issue_lab_accession_number(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.issue_lab_accession_number(UUID, TEXT) TO authenticated;
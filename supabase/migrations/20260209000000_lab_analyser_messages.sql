@@ -0,0 +1,31 @@
+-- Lab analyser inbox
+-- scripts/lab-listener.mjs runs on the lab PC, takes HL7 ORU^R01 (MLLP) and ASTM E1394 messages from the
+-- analysers and saves them here as received. The lab worklist matches them to orders by accession number
+-- and stages the results for a lab tech to accept and verify.
+-- Analyser-specific codes for an analyte are kept on the catalogue: analytes[].analyserCodes.
+
+CREATE TABLE IF NOT EXISTS public.lab_analyser_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinic_id UUID NOT NULL DEFAULT public.get_user_clinic_id() REFERENCES public.clinics(id) ON DELETE CASCADE,
+  format TEXT NOT NULL CHECK (format IN ('HL7', 'ASTM')),
+  raw TEXT NOT NULL,
+  source TEXT,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  status TEXT NOT NULL DEFAULT 'new' CHECK (status IN ('new', 'staged', 'discarded')),
+  processed_at TIMESTAMPTZ,
+  processed_by_name TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_lab_analyser_messages_inbox ON public.lab_analyser_messages(clinic_id, status, received_at);
+
+ALTER TABLE public.lab_analyser_messages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Clinic users can view analyser messages" ON public.lab_analyser_messages;
+CREATE POLICY "Clinic users can view analyser messages" ON public.lab_analyser_messages
+  FOR SELECT USING (clinic_id = public.get_user_clinic_id() OR public.is_super_admin());
+
+-- The listener signs in as a clinic user, so inserts are scoped to that user's clinic
+DROP POLICY IF EXISTS "Clinic users can manage analyser messages" ON public.lab_analyser_messages;
+CREATE POLICY "Clinic users can manage analyser messages" ON public.lab_analyser_messages
+  FOR ALL USING (clinic_id = public.get_user_clinic_id())
+  WITH CHECK (clinic_id = public.get_user_clinic_id());
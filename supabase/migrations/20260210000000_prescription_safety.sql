@@ -0,0 +1,64 @@
+-- Prescription safety backstop
+-- The full medication safety checks (drug classes, interactions, paediatric doses) run in the app
+-- (lib/medicationSafety.ts). The database enforces the clear-cut part so no client can skip it: a
+-- prescribed item whose name contains one of the patient's recorded allergies, as a whole word, is refused
+-- unless the item carries an allergy override, and every override must give a reason.
+-- Only items that are new or changed are checked, so visits written before this keep saving.
+
+CREATE OR REPLACE FUNCTION public.check_prescription_safety()
+RETURNS TRIGGER
+LANGUAGE plpgsql SET search_path = public AS $$
+DECLARE
+  v_allergies TEXT[];
+  v_allergy TEXT;
+  v_item JSONB;
+  v_name TEXT;
+BEGIN
+  IF jsonb_typeof(NEW.prescription) IS DISTINCT FROM 'array' THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'UPDATE' AND NEW.prescription IS NOT DISTINCT FROM OLD.prescription THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT allergies INTO v_allergies FROM public.patients WHERE id = NEW.patient_id;
+
+  FOR v_item IN SELECT value FROM jsonb_array_elements(NEW.prescription) LOOP
+    CONTINUE WHEN TG_OP = 'UPDATE' AND jsonb_typeof(OLD.prescription) = 'array' AND OLD.prescription @> jsonb_build_array(v_item);
+    v_name := lower(COALESCE(v_item->>'name', ''));
+
+    IF EXISTS (
+      SELECT 1 FROM jsonb_array_elements(COALESCE(v_item->'safetyOverrides', '[]'::jsonb)) AS o
+      WHERE btrim(COALESCE(o->>'reason', '')) = ''
+    ) THEN
+      RAISE EXCEPTION 'The safety override on % needs a reason', v_item->>'name' USING ERRCODE = 'P0001';
+    END IF;
+
+    FOREACH v_allergy IN ARRAY COALESCE(v_allergies, '{}') LOOP
+      v_allergy := lower(btrim(v_allergy));
+      CONTINUE WHEN v_allergy = '';
+
+      -- Same whole-word rule as the app: the allergy must not sit inside a longer word
+      IF v_name ~ ('(^|[^a-z])' || regexp_replace(v_allergy, '([^a-z0-9 ])', '\\\1', 'g') || '($|[^a-z])')
+        AND NOT EXISTS (
+          SELECT 1
+          FROM jsonb_array_elements(COALESCE(v_item->'safetyOverrides', '[]'::jsonb)) AS o,
+               jsonb_array_elements_text(COALESCE(o->'alertKeys', '[]'::jsonb)) AS k(alert_key)
+          WHERE k.alert_key = 'allergy:' || v_allergy
+             OR (k.alert_key LIKE 'allergy:%' AND right(k.alert_key, length(v_allergy) + 1) = ':' || v_allergy)
+        ) THEN
+        RAISE EXCEPTION '% matches the recorded allergy to %; override the alert with a reason to prescribe it', v_item->>'name', v_allergy
+          USING ERRCODE = 'P0001';
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_prescription_safety ON public.visits;
+CREATE TRIGGER check_prescription_safety
+  BEFORE INSERT OR UPDATE OF prescription ON public.visits
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_prescription_safety();
@@ -8,6 +8,8 @@ export interface Patient {
   id: string
   name: string
   phone: string
+  email?: string
+  reminderOptOut?: boolean // No automated appointment reminders by SMS or email
   age: number
   gender: Gender
   lastVisit: string
@@ -21,6 +23,8 @@ export interface Patient {
     phone: string
     relationship: string
   }
+  dateOfBirth?: string // YYYY-MM-DD; estimated from the age when only that was given
+  // Snapshot kept on the profile; readings taken at visits are in Visit.vitals
   vitals?: {
     bp: string
     heartRate: string
@@ -37,6 +41,111 @@ export interface Appointment {
   time: string
   reason: string
   status: "Scheduled" | "Completed" | "Cancelled" | "No-Show"
+  providerId?: string // Team member seen; unassigned appointments skip provider conflict checks
+  providerName?: string
+  appointmentType?: string
+  durationMinutes?: number // Defaults to 30
+  seriesId?: string // Set for occurrences of a recurring series
+  seriesIndex?: number // 1-based visit number within the series
+  patientResponse?: "Confirmed" | "Cancelled" | "Reschedule Requested" // Reply to the reminder SMS
+  patientResponseAt?: string
+  bookingSource?: "staff" | "online" | "whatsapp" | "waitlist"
+  checkedInAt?: string // Set when a visit is started from this appointment
+}
+
+// Every N weeks, ending after a number of visits or on a date (whichever comes first)
+export interface RecurrenceRule {
+  intervalWeeks: number
+  count?: number
+  until?: string // YYYY-MM-DD
+}
+
+// How far an edit or cancellation of a series occurrence reaches
+export type SeriesScope = "occurrence" | "following"
+
+export interface AppointmentType {
+  id: string
+  name: string
+  durationMinutes: number
+}
+
+export interface ProviderWorkingHours {
+  id?: string
+  providerId: string
+  weekday: number // 0 = Sunday
+  startTime: string // HH:MM
+  endTime: string // HH:MM
+}
+
+export interface AvailableSlot {
+  providerId: string
+  providerName: string
+  start: string // HH:MM
+  end: string // HH:MM
+  overbooked?: boolean // Shares the provider with bookings the overbooking policy expects to miss
+}
+
+// Extra bookings allowed in a provider slot whose patients usually do not turn up
+export interface OverbookingPolicy {
+  enabled: boolean
+  maxExtraPerSlot: number
+  minNoShowRate: number // 0-1; every patient already in the slot must miss at least this share
+}
+
+// Public self-booking page at /book/<clinic slug>
+export interface OnlineBookingSettings {
+  enabled: boolean
+  daysAhead: number // How far ahead patients may book
+  appointmentTypes?: string[] // Types offered online; empty offers all
+}
+
+export type WaitlistStatus = "Waiting" | "Offered" | "Booked" | "Removed" | "Expired"
+
+// A patient waiting for a freed slot between two dates
+export interface WaitlistEntry {
+  id: string
+  patientId: string
+  patientName?: string
+  providerId?: string // Any provider when unset
+  providerName?: string
+  appointmentType?: string // Any freed slot when unset
+  earliestDate: string
+  latestDate: string
+  notes?: string
+  status: WaitlistStatus
+  createdAt: string
+  offer?: WaitlistOffer // Latest slot offered by SMS
+}
+
+export interface WaitlistOffer {
+  date: string
+  time: string
+  status: "pending" | "sent" | "accepted" | "expired" | "failed" | "withdrawn"
+  expiresAt?: string
+}
+
+export interface WaitlistSettings {
+  offerMinutes: number // How long a patient has to reply to an offer
+}
+
+// One day of get_appointment_flow_report
+export interface AppointmentFlowDay {
+  day: string
+  scheduledVisits: number
+  walkInVisits: number
+  onTime: number
+  late: number
+  averageMinutesLate: number | null // Among late arrivals
+  booked: number
+  noShows: number
+}
+
+// Completed and missed appointments over the last 12 months
+export interface PatientAttendance {
+  patientId: string
+  attended: number
+  noShows: number
+  noShowRate: number | null // Null until there are at least 3 past appointments
 }
 
 export interface Supplier {
@@ -47,30 +156,131 @@ export interface Supplier {
   email: string
 }
 
+export type PurchaseOrderStatus = "Draft" | "Sent" | "Partially Received" | "Received"
+
+export interface PurchaseOrderLine {
+  inventoryId: string
+  name: string
+  quantityOrdered: number
+  quantityReceived: number
+  unitCost: number
+}
+
+export interface PurchaseOrder {
+  id: string
+  poNumber: string // e.g. PO-20260123-0042
+  supplierId: string
+  status: PurchaseOrderStatus
+  lines: PurchaseOrderLine[]
+  notes?: string
+  createdAt: string // ISO String
+  sentAt?: string
+  receivedAt?: string // When the last outstanding line was received
+}
+
+export interface GoodsReceiptLine {
+  inventoryId: string
+  quantity: number
+  batchNumber?: string
+  expiryDate?: string
+}
+
+export type StockTakeStatus = "Open" | "Posted" | "Cancelled"
+
+export type StockVarianceReason = "Damaged" | "Expired" | "Theft / Loss" | "Counting Error" | "Found Stock" | "Other"
+
+export interface StockTakeLine {
+  inventoryId: string
+  name: string
+  batchId?: string // Lot counted; absent for stock found outside any recorded lot
+  batchNumber?: string
+  expiryDate?: string
+  expectedQuantity: number // System quantity (re-read when the count is posted)
+  countedQuantity?: number // Not yet counted when undefined
+  unitCost: number
+  reason?: StockVarianceReason // Required for every line with a variance
+  notes?: string
+}
+
+export interface StockTake {
+  id: string
+  reference: string // e.g. ST-20260124-0001
+  status: StockTakeStatus
+  lines: StockTakeLine[]
+  notes?: string
+  createdAt: string // ISO String
+  postedAt?: string
+  postedBy?: string
+}
+
+export interface InventoryBatch {
+  id: string
+  batchNumber?: string
+  quantity: number
+  expiryDate?: string
+  supplierId?: string
+  receivedAt: string // ISO String
+}
+
 export interface InventoryItem {
   id: string
   name: string
-  stock: number
+  stock: number // Sum of all lot quantities
   minStockLevel: number // Reorder point
   unit: string
   category: "Medicine" | "Supply" | "Lab" | "Equipment"
   price: number
-  batchNumber?: string
-  expiryDate?: string
+  batches?: InventoryBatch[] // Individual lots, drawn down first-expiry-first-out
+  reserved?: number // Units held by prescriptions awaiting dispensing
+  batchNumber?: string // Legacy: mirrors the next lot to expire
+  expiryDate?: string // Legacy: mirrors the next lot to expire
   supplierId?: string
+  isControlled?: boolean // Controlled substance: witnessed movements and a running-balance register
 }
 
 export interface InventoryLog {
   id: string
   itemId: string
   itemName: string
-  action: "Created" | "Updated" | "Restocked" | "Deleted" | "Dispensed"
+  action: "Created" | "Updated" | "Restocked" | "Adjusted" | "Deleted" | "Dispensed"
   quantityChange?: number
+  quantityAfter?: number // Resulting stock balance
+  reference?: string // Visit, order or count the movement belongs to
   notes: string
   timestamp: string
   user: string
 }
 
+export interface InventoryReconciliation {
+  itemId: string
+  itemName: string
+  stock: number
+  ledgerBalance: number // Sum of all ledger movements for the item
+  variance: number // stock - ledgerBalance; non-zero means the ledger has drifted
+}
+
+export type ControlledEntryType = "Opening Balance" | "Received" | "Dispensed" | "Adjusted"
+
+export interface ControlledDrugEntry {
+  id: string
+  itemId: string
+  itemName: string
+  entryType: ControlledEntryType
+  quantityChange: number
+  balance: number // Running balance after this entry
+  reference?: string // Visit, order or count the movement belongs to
+  patientName?: string
+  notes?: string
+  recordedBy?: string
+  witnessedBy?: string
+  timestamp: string
+}
+
+export interface WitnessConfirmation {
+  witnessId: string // A second staff member, never the person recording the movement
+  pin: string
+}
+
 export interface ChatMessage {
   id: string
   role: "user" | "model"
@@ -84,6 +294,9 @@ export interface NotificationPreferences {
   dailyReports: boolean
   marketingEmails: boolean
   alertEmail: string
+  reminderOffsetsHours?: number[] // Hours before the appointment; defaults to [24, 2]
+  quietHoursStart?: string // "21:00" clinic time; reminders due inside quiet hours wait until they end
+  quietHoursEnd?: string
 }
 
 export interface BillingInfo {
@@ -156,6 +369,58 @@ export interface WhatsAppConfig {
   }
 }
 
+// KHIS (DHIS2) data element that receives one MOH 705 row's new cases
+export interface Dhis2Mapping {
+  dataElement: string
+  categoryOptionCombo?: string // Defaults to the server's default combo
+}
+
+export interface Dhis2Settings {
+  enabled: boolean
+  baseUrl: string // e.g. https://hiskenya.org, or a local mock server
+  username: string
+  password: string // Write-only: kept in dhis2_credentials and read back as "..." when set
+  orgUnit: string // The facility's organisation unit UID
+  dataSets: { "705A"?: string; "705B"?: string }
+  mappings: Record<string, Dhis2Mapping> // Keyed "705A:malaria"
+}
+
+export interface Dhis2DataValue {
+  dataElement: string
+  categoryOptionCombo?: string
+  value: string
+}
+
+// Body of POST /api/dataValueSets
+export interface Dhis2DataValueSet {
+  dataSet: string
+  period: string // YYYYMM
+  orgUnit: string
+  completeDate?: string
+  dataValues: Dhis2DataValue[]
+}
+
+export type Dhis2SubmissionStatus = "Success" | "Warning" | "Error"
+
+// One push to DHIS2, as logged by the dhis2-push Edge Function
+export interface Dhis2Submission {
+  id: string
+  form: "705A" | "705B"
+  period: string
+  orgUnit: string
+  dataSet: string
+  dryRun: boolean
+  status: Dhis2SubmissionStatus
+  valueCount: number
+  imported: number
+  updated: number
+  ignored: number
+  conflicts: string[]
+  message?: string
+  submittedByName?: string
+  createdAt: string
+}
+
 export interface ClinicSettings {
   name: string
   phone: string
@@ -170,6 +435,12 @@ export interface ClinicSettings {
   paymentConfig: PaymentConfig
   whatsappConfig?: WhatsAppConfig
   notifications: NotificationPreferences
+  overbooking?: OverbookingPolicy
+  onlineBooking?: OnlineBookingSettings
+  waitlist?: WaitlistSettings
+  dhis2?: Dhis2Settings
+  vitalThresholds?: VitalThresholds // Adult flag limits; clinic defaults apply where unset
+  slug?: string // Read-only; used in the public booking link
   security: {
     twoFactorEnabled: boolean
     lastPasswordChange: string
@@ -204,13 +475,107 @@ export interface PrescriptionItem {
   dosage: string // e.g., "1x3 for 5 days"
   quantity: number
   price: number
+  safetyOverrides?: PrescriptionOverride[] // Blocking safety alerts the prescriber went ahead despite
+}
+
+// A prescriber's decision to go ahead despite blocking medication safety alerts
+export interface PrescriptionOverride {
+  alertKeys: string[]
+  alerts: string[] // Alert messages as the prescriber saw them
+  reason: string
+  byName?: string
+  at: string
+}
+
+export type LabTestCategory = "Hematology" | "Microbiology" | "Biochemistry" | "Parasitology" | "Serology" | "Urinalysis" | "Radiology"
+
+// Reference interval for one sex/age band; the first band that matches the patient is used
+export interface LabReferenceRange {
+  sex?: "male" | "female" // Either sex when omitted
+  minAgeMonths?: number // Inclusive
+  maxAgeMonths?: number // Exclusive
+  low?: number
+  high?: number
+  criticalLow?: number // At or beyond these the ordering doctor is alerted
+  criticalHigh?: number
+}
+
+export interface LabAnalyte {
+  code: string // Short code, e.g. HGB
+  name: string
+  unit: string
+  type: "numeric" | "option"
+  options?: string[] // Choices for qualitative results
+  normalOptions?: string[] // Choices that are not flagged
+  decimals?: number
+  ranges: LabReferenceRange[]
+  analyserCodes?: string[] // Codes the analyser sends for this analyte when they differ from `code`
 }
 
 export interface LabTestProfile {
   id: string
   name: string
   price: number
-  category: "Hematology" | "Microbiology" | "Biochemistry" | "Radiology"
+  category: LabTestCategory
+  code?: string
+  analytes?: LabAnalyte[] // Tests without analytes take a free-text result
+  specimenType?: string // Printed on the specimen label, e.g. "EDTA whole blood"
+  turnaroundMinutes?: number // Target from order to verified result
+  builtIn?: boolean // Starter test offered until the clinic saves its own catalogue
+}
+
+export type LabResultFlag = "normal" | "low" | "high" | "critical-low" | "critical-high" | "abnormal"
+
+export interface LabAnalyteResult {
+  code: string
+  name: string
+  value: string
+  unit: string
+  referenceRange?: string // As printed on the report, e.g. "12.0 - 15.5"
+  flag?: LabResultFlag
+}
+
+export interface LabCriticalAlert {
+  raisedAt: string
+  raisedByName?: string
+  notifiedName?: string // Ordering doctor who was sent an SMS
+  acknowledgedAt?: string
+  acknowledgedByName?: string
+}
+
+export type LabSpecimenStatus = "collected" | "received" | "in-process" | "verified" | "rejected"
+
+export interface LabSpecimenEvent {
+  status: LabSpecimenStatus
+  at: string
+  byName?: string
+  note?: string // Rejection reason, or the accession number a recollection replaces
+}
+
+// The sample taken for an order, tracked from collection to verified result
+export interface LabSpecimen {
+  accessionNumber: string // e.g. "LAB-261019-0007", printed as a barcode on the label
+  specimenType: string
+  status: LabSpecimenStatus
+  collectedAt: string
+  collectedByName?: string
+  receivedAt?: string
+  startedAt?: string
+  verifiedAt?: string
+  verifiedByName?: string
+  rejectionReason?: string
+  history: LabSpecimenEvent[]
+}
+
+// Results received from an analyser, held until a lab tech accepts them into the order
+export interface LabStagedImport {
+  receivedAt: string
+  format: "HL7" | "ASTM"
+  instrument?: string
+  messageId?: string
+  values: Record<string, string> // Analyte code → value
+  unmatchedCodes?: string[] // Analyser codes with no analyte in the test
+  importedByName?: string
 }
 
 export interface LabOrder {
@@ -218,11 +583,107 @@ export interface LabOrder {
   testId: string
   testName: string
   status: "Pending" | "Completed"
-  result?: string
+  result?: string // Free-text result, or a one-line summary of `results`
+  results?: LabAnalyteResult[]
   notes?: string
   price: number
   orderedAt: string
+  orderedById?: string
+  orderedByName?: string
   completedAt?: string
+  criticalAlert?: LabCriticalAlert
+  specimen?: LabSpecimen // Not yet collected when missing
+  stagedImport?: LabStagedImport
+}
+
+export type LabAnalyserMessageStatus = "new" | "staged" | "discarded"
+
+// A raw message posted by the analyser listener, waiting to be matched to orders
+export interface LabAnalyserMessage {
+  id: string
+  format: "HL7" | "ASTM"
+  raw: string
+  source?: string // Analyser or listener host it came from
+  receivedAt: string
+  status: LabAnalyserMessageStatus
+}
+
+export interface SoapNote {
+  subjective: string
+  objective: string
+  assessment: string
+  plan: string
+}
+
+export type SoapSection = keyof SoapNote
+
+export interface NoteTemplate extends SoapNote {
+  id: string
+  name: string
+  builtIn?: boolean // Starter template offered until the clinic saves its own
+}
+
+export interface NoteAddendum {
+  id: string
+  visitId: string
+  section?: SoapSection
+  body: string
+  authorName?: string
+  createdAt: string
+}
+
+export type DiagnosisCodeSystem = "ICD-10" | "ICD-11"
+
+export interface IcdCode {
+  code: string
+  title: string
+  system: DiagnosisCodeSystem
+  icd10?: string // ICD-10 equivalent of an ICD-11 code, used for MOH 705 mapping
+}
+
+export interface CodedDiagnosis extends IcdCode {
+  primary: boolean
+}
+
+// Vital signs taken at one visit, always stored in these units whatever unit they were entered in
+export interface VitalSigns {
+  systolic?: number // mmHg
+  diastolic?: number // mmHg
+  heartRate?: number // beats/min
+  respiratoryRate?: number // breaths/min
+  temperature?: number // °C
+  spo2?: number // %
+  weight?: number // kg
+  height?: number // cm; length lying down under 2 years
+  muac?: number // Mid-upper arm circumference, cm
+  headCircumference?: number // cm
+  recordedAt?: string
+}
+
+export type VitalKey = Exclude<keyof VitalSigns, "recordedAt"> | "bmi"
+
+// Values outside low..high are flagged. Either bound may be left open.
+export interface VitalThreshold {
+  low?: number
+  high?: number
+}
+
+export type VitalThresholds = Partial<Record<VitalKey, VitalThreshold>>
+
+// One visit's vitals on a patient's trend charts
+export interface VitalsReading {
+  visitId: string
+  takenAt: string // ISO timestamp
+  vitals: VitalSigns
+}
+
+// A visit as counted on the MOH 705 summaries
+export interface MohVisitRecord {
+  visitId: string
+  patientId: string
+  startTime: string // ISO timestamp
+  dateOfBirth?: string
+  diagnoses: CodedDiagnosis[]
 }
 
 export interface Visit {
@@ -236,6 +697,7 @@ export interface Visit {
   startTime: string // ISO String
   queueNumber: number
   priority: VisitPriority
+  appointmentId?: string // Unset for walk-ins
 
   // Insurance
   insuranceDetails?: {
@@ -244,18 +706,17 @@ export interface Visit {
   }
 
   // Vitals Data (formerly Triage)
-  vitals?: {
-    bp: string
-    temp: string
-    weight: string
-    heartRate: string
-    spo2?: string
-  }
+  vitals?: VitalSigns
 
   // Doctor Data
   chiefComplaint?: string
-  diagnosis?: string
-  doctorNotes?: string
+  diagnosis?: string // Free-text impression
+  codedDiagnoses?: CodedDiagnosis[] // At most one primary
+  doctorNotes?: string // Free-text notes from before SOAP notes; shown read-only
+  soapNote?: SoapNote
+  noteSignedAt?: string // Once set, the clinical fields are locked and changes go in addenda
+  noteSignedBy?: string
+  noteSignedByName?: string
 
   // Orders
   labOrders: LabOrder[]
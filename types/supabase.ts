@@ -107,6 +107,7 @@ export interface Database {
                     min_stock_level: number
                     unit: string | null
                     price: number
+                    batches: any[]
                     batch_number: string | null
                     expiry_date: string | null
                     supplier_id: string | null
@@ -121,9 +122,13 @@ export interface Database {
                     min_stock_level?: number
                     unit?: string | null
                     price?: number
+                    batches?: any[]
                     batch_number?: string | null
                     expiry_date?: string | null
                     supplier_id?: string | null
+                    movement_action?: string | null
+                    movement_note?: string | null
+                    movement_reference?: string | null
                     created_at?: string
                 }
                 Update: {
@@ -135,9 +140,13 @@ export interface Database {
                     min_stock_level?: number
                     unit?: string | null
                     price?: number
+                    batches?: any[]
                     batch_number?: string | null
                     expiry_date?: string | null
                     supplier_id?: string | null
+                    movement_action?: string | null
+                    movement_note?: string | null
+                    movement_reference?: string | null
                     created_at?: string
                 }
             }
@@ -282,6 +291,28 @@ export interface Database {
                 Args: Record<PropertyKey, never>
                 Returns: string
             }
+            reserve_prescription_stock: {
+                Args: { p_visit_id: string }
+                Returns: undefined
+            }
+            dispense_prescription: {
+                Args: { p_visit_id: string }
+                Returns: {
+                    id: string
+                    clinic_id: string | null
+                    item_id: string | null
+                    item_name: string | null
+                    action: string
+                    quantity_change: number | null
+                    quantity_before: number | null
+                    quantity_after: number | null
+                    notes: string | null
+                    user_name: string | null
+                    performed_by: string | null
+                    reference: string | null
+                    created_at: string
+                }[]
+            }
         }
         Enums: {
             [_ in never]: never